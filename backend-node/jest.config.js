@@ -0,0 +1,5 @@
+export default {
+  testEnvironment: 'node',
+  // The backend is plain ES modules; run them without a transform
+  transform: {}
+};
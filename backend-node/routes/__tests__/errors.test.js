@@ -0,0 +1,42 @@
+import express from 'express';
+import request from 'supertest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'error-routes-'));
+process.env.ERROR_STORE_PATH = path.join(dir, 'errors.json');
+const { MAX_REPORT_BYTES, errorRoutes } = await import('../errors.js');
+
+function createApp() {
+  const app = express();
+  app.use('/api/errors', express.json({ limit: MAX_REPORT_BYTES }));
+  app.use('/api/errors', errorRoutes);
+  return app;
+}
+
+describe('POST /api/errors', () => {
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should refuse oversized reports', async () => {
+    const response = await request(createApp())
+      .post('/api/errors')
+      .send({ error: { message: 'big' }, context: { blob: 'x'.repeat(100 * 1024) } });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should throttle reports from one client', async () => {
+    const app = createApp();
+    const statuses = [];
+    for (let i = 0; i < 31; i++) {
+      const response = await request(app).post('/api/errors').send({ error: { message: `failure ${i}` } });
+      statuses.push(response.status);
+    }
+
+    expect(statuses.slice(0, 30).every(status => status === 200 || status === 201)).toBe(true);
+    expect(statuses[30]).toBe(429);
+  });
+});
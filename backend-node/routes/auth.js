@@ -0,0 +1,145 @@
+import express from 'express';
+import Joi from 'joi';
+import { AuthError, getAuthService } from '../services/authService.js';
+
+const router = express.Router();
+
+// Validation schemas
+// A second factor is either a 6-digit TOTP code or a recovery code
+const secondFactor = {
+  code: Joi.string().pattern(/^\d{6}$/),
+  recoveryCode: Joi.string().pattern(/^[0-9a-fA-F]{5}-?[0-9a-fA-F]{5}$/)
+};
+
+const secondFactorSchema = Joi.object(secondFactor).xor('code', 'recoveryCode');
+
+const enableSchema = Joi.object({
+  code: secondFactor.code.required()
+});
+
+function validate(schema, body, res) {
+  const { error, value } = schema.validate(body);
+  if (error) {
+    res.status(400).json({
+      error: {
+        message: 'Validation error',
+        details: error.details
+      }
+    });
+    return null;
+  }
+  return value;
+}
+
+function send(req, res, data) {
+  res.json({
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+    request_id: req.id
+  });
+}
+
+function handleError(req, res, error) {
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({
+      error: {
+        message: error.message,
+        request_id: req.id
+      }
+    });
+  }
+  console.error('Authentication error:', error);
+  res.status(500).json({
+    error: {
+      message: 'Authentication failed',
+      request_id: req.id
+    }
+  });
+}
+
+/**
+ * Resolves the Supabase access token to req.user and req.sessionId. The
+ * Supabase session is the only session; when the user has two-factor
+ * enabled it must also have passed a second factor. Also guards the other
+ * routers.
+ */
+function authenticateSession({ requireSecondFactor }) {
+  return async (req, res, next) => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+    try {
+      if (!token) throw new AuthError('Authentication required');
+      const { user, sessionId } = await getAuthService().authenticate(token, { requireSecondFactor });
+      req.user = user;
+      req.sessionId = sessionId;
+      next();
+    } catch (error) {
+      handleError(req, res, error);
+    }
+  };
+}
+
+const requireSession = authenticateSession({ requireSecondFactor: true });
+// Signed in to Supabase, second factor possibly still to come
+const requireSignIn = authenticateSession({ requireSecondFactor: false });
+
+// POST /api/auth/login/verify - second step of signing in when two-factor is enabled
+router.post('/login/verify', requireSignIn, (req, res) => {
+  const value = validate(secondFactorSchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, getAuthService().verifySession(req.user, req.sessionId, value));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// GET /api/auth/2fa - also tells a new sign-in whether a code is needed
+router.get('/2fa', requireSignIn, (req, res) => {
+  send(req, res, getAuthService().status(req.user, req.sessionId));
+});
+
+// POST /api/auth/2fa/setup - issue a new secret pending confirmation
+router.post('/2fa/setup', requireSession, (req, res) => {
+  try {
+    send(req, res, getAuthService().beginSetup(req.user));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// POST /api/auth/2fa/enable - confirm the pending secret with a code
+router.post('/2fa/enable', requireSession, (req, res) => {
+  const value = validate(enableSchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, getAuthService().enable(req.user, req.sessionId, value.code));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes - replace the recovery codes
+router.post('/2fa/recovery-codes', requireSession, (req, res) => {
+  const value = validate(secondFactorSchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, getAuthService().regenerateRecoveryCodes(req.user, value));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// POST /api/auth/2fa/disable - requires a second factor
+router.post('/2fa/disable', requireSession, (req, res) => {
+  const value = validate(secondFactorSchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, getAuthService().disable(req.user, req.sessionId, value));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+export { router as authRoutes, requireSession };
@@ -0,0 +1,144 @@
+import express from 'express';
+import Joi from 'joi';
+import { ERROR_STATUSES, getErrorStore } from '../services/errorStore.js';
+import { requireSession } from './auth.js';
+
+const router = express.Router();
+
+// Error reports are unauthenticated, so each client IP gets a fixed budget per window
+const REPORT_WINDOW_MS = 60 * 1000;
+const MAX_REPORTS_PER_WINDOW = 30;
+// Largest report body accepted; the stack and component stack take most of it
+export const MAX_REPORT_BYTES = '64kb';
+
+// Validation schemas
+const reportSchema = Joi.object({
+  error: Joi.object({
+    name: Joi.string().max(200).allow('').default('Error'),
+    message: Joi.string().max(5000).allow('').required(),
+    stack: Joi.string().max(20000).allow('', null)
+  }).required(),
+  componentStack: Joi.string().max(20000).allow('', null),
+  timestamp: Joi.string().isoDate(),
+  userAgent: Joi.string().max(1000).allow(''),
+  url: Joi.string().max(2000).allow(''),
+  userId: Joi.string().max(200).allow(null),
+  // request_id of a failed API call, when the error came from one
+  requestId: Joi.string().max(200).allow(null),
+  release: Joi.string().max(100).allow(null),
+  context: Joi.object().unknown(true)
+}).unknown(false);
+
+const listSchema = Joi.object({
+  status: Joi.string().valid(...ERROR_STATUSES),
+  search: Joi.string().max(200).allow(''),
+  sort: Joi.string().valid('lastSeen', 'firstSeen', 'count', 'users').default('lastSeen')
+});
+
+const statusSchema = Joi.object({
+  status: Joi.string().valid(...ERROR_STATUSES).required()
+});
+
+function validate(schema, body, res) {
+  const { error, value } = schema.validate(body);
+  if (error) {
+    res.status(400).json({
+      error: {
+        message: 'Validation error',
+        details: error.details
+      }
+    });
+    return null;
+  }
+  return value;
+}
+
+function send(req, res, data) {
+  res.json({
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+    request_id: req.id
+  });
+}
+
+function notFound(req, res) {
+  res.status(404).json({
+    error: {
+      message: 'Error group not found',
+      request_id: req.id
+    }
+  });
+}
+
+const reportsByIp = new Map();
+
+function throttleReports(req, res, next) {
+  const now = Date.now();
+  if (reportsByIp.size > 10000) {
+    reportsByIp.forEach((entry, ip) => {
+      if (entry.resetAt <= now) reportsByIp.delete(ip);
+    });
+  }
+
+  let entry = reportsByIp.get(req.ip);
+  if (!entry || entry.resetAt <= now) {
+    entry = { count: 0, resetAt: now + REPORT_WINDOW_MS };
+    reportsByIp.set(req.ip, entry);
+  }
+  entry.count += 1;
+  if (entry.count > MAX_REPORTS_PER_WINDOW) {
+    res.set('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+    return res.status(429).json({
+      error: {
+        message: 'Too many error reports, try again later',
+        request_id: req.id
+      }
+    });
+  }
+  next();
+}
+
+// POST /api/errors - ingest a client error from ErrorReporter
+router.post('/', throttleReports, (req, res) => {
+  const value = validate(reportSchema, req.body, res);
+  if (!value) return;
+  try {
+    const result = getErrorStore().ingest(value, req.id);
+    res.status(result.isNew ? 201 : 200);
+    send(req, res, { ...result, requestId: req.id });
+  } catch (error) {
+    console.error('Error ingestion failed:', error);
+    res.status(500).json({
+      error: {
+        message: 'Failed to record error',
+        request_id: req.id
+      }
+    });
+  }
+});
+
+// GET /api/errors - grouped errors for triage
+router.get('/', requireSession, (req, res) => {
+  const value = validate(listSchema, req.query, res);
+  if (!value) return;
+  send(req, res, getErrorStore().list(value));
+});
+
+// GET /api/errors/:id - one group with its recent occurrences
+router.get('/:id', requireSession, (req, res) => {
+  const group = getErrorStore().get(req.params.id);
+  if (!group) return notFound(req, res);
+  send(req, res, group);
+});
+
+// PATCH /api/errors/:id - resolve, ignore or reopen
+router.patch('/:id', requireSession, (req, res) => {
+  const value = validate(statusSchema, req.body, res);
+  if (!value) return;
+  const group = getErrorStore().setStatus(req.params.id, value.status);
+  if (!group) return notFound(req, res);
+  send(req, res, group);
+});
+
+export { router as errorRoutes };
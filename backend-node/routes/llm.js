@@ -0,0 +1,49 @@
+import express from 'express';
+import Joi from 'joi';
+import { requireSession } from './auth.js';
+import { LLMError, getLLMService } from '../services/llmService.js';
+
+const router = express.Router();
+
+// Validation schemas
+const completionSchema = Joi.object({
+  model: Joi.string().max(200),
+  messages: Joi.array().items(Joi.object({
+    role: Joi.string().valid('system', 'user', 'assistant').required(),
+    content: Joi.string().max(200000).allow('').required()
+  })).min(1).max(20).required(),
+  temperature: Joi.number().min(0).max(2),
+  response_format: Joi.object({
+    type: Joi.string().valid('text', 'json_object').required()
+  })
+}).unknown(false);
+
+router.use(requireSession);
+
+// POST /api/llm/chat/completions - OpenAI-compatible, answered with the server's key
+router.post('/chat/completions', async (req, res) => {
+  const { error, value } = completionSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      error: {
+        message: 'Validation error',
+        details: error.details
+      }
+    });
+  }
+
+  try {
+    const { status, payload } = await getLLMService().complete(value);
+    res.status(status).json(payload);
+  } catch (err) {
+    const status = err instanceof LLMError ? err.status : 500;
+    res.status(status).json({
+      error: {
+        message: err instanceof LLMError ? err.message : 'AI request failed',
+        request_id: req.id
+      }
+    });
+  }
+});
+
+export { router as llmRoutes };
@@ -0,0 +1,182 @@
+import express from 'express';
+import Joi from 'joi';
+import { INVITATION_TTL_DAYS, TEAM_ROLES, TeamError, getTeamService } from '../services/teamService.js';
+import { getKeyService } from '../services/keyService.js';
+import { requireSession } from './auth.js';
+
+const router = express.Router();
+
+// Validation schemas
+const workspaceId = Joi.string().guid().required();
+
+const workspaceQuerySchema = Joi.object({
+  workspace_id: workspaceId
+});
+
+const inviteSchema = Joi.object({
+  workspace_id: workspaceId,
+  email: Joi.string().email().required(),
+  role: Joi.string().valid(...TEAM_ROLES).required(),
+  expires_in_days: Joi.number().integer().min(1).max(INVITATION_TTL_DAYS.max).default(INVITATION_TTL_DAYS.default)
+});
+
+const acceptSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const keySchema = Joi.object({
+  workspace_id: workspaceId,
+  key_id: Joi.string().guid().required()
+});
+
+const roleSchema = Joi.object({
+  workspace_id: workspaceId,
+  role: Joi.string().valid(...TEAM_ROLES).required()
+});
+
+function validate(schema, body, res) {
+  const { error, value } = schema.validate(body);
+  if (error) {
+    res.status(400).json({
+      error: {
+        message: 'Validation error',
+        details: error.details
+      }
+    });
+    return null;
+  }
+  return value;
+}
+
+function send(req, res, data) {
+  res.json({
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+    request_id: req.id
+  });
+}
+
+function handleError(req, res, error) {
+  if (error instanceof TeamError) {
+    return res.status(error.status).json({
+      error: {
+        message: error.message,
+        request_id: req.id
+      }
+    });
+  }
+  console.error('Team management error:', error);
+  res.status(500).json({
+    error: {
+      message: 'Team request failed',
+      request_id: req.id
+    }
+  });
+}
+
+// Team queries run with the caller's Supabase access token; req.team is { db, user }
+function requireUser(req, res, next) {
+  try {
+    const token = req.headers.authorization.slice('Bearer '.length);
+    req.team = { db: getTeamService().client(token), user: { id: req.user.id, email: req.user.email } };
+    next();
+  } catch (error) {
+    handleError(req, res, error);
+  }
+}
+
+router.use(requireSession, requireUser);
+
+// GET /api/team/workspaces - workspaces the caller belongs to
+router.get('/workspaces', async (req, res) => {
+  try {
+    send(req, res, await getTeamService().listWorkspaces(req.team));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// GET /api/team?workspace_id= - members, and pending invitations for admins
+router.get('/', async (req, res) => {
+  const value = validate(workspaceQuerySchema, req.query, res);
+  if (!value) return;
+  try {
+    send(req, res, await getTeamService().listTeam(req.team, value.workspace_id));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// POST /api/team/invitations - returns a single-use link that expires
+router.post('/invitations', async (req, res) => {
+  const value = validate(inviteSchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, await getTeamService().invite(req.team, {
+      workspaceId: value.workspace_id,
+      email: value.email,
+      role: value.role,
+      expiresInDays: value.expires_in_days
+    }));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// POST /api/team/invitations/accept
+router.post('/invitations/accept', async (req, res) => {
+  const value = validate(acceptSchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, await getTeamService().acceptInvitation(req.team, value.token));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// DELETE /api/team/invitations/:id?workspace_id=
+router.delete('/invitations/:id', async (req, res) => {
+  const value = validate(workspaceQuerySchema, req.query, res);
+  if (!value) return;
+  try {
+    send(req, res, await getTeamService().revokeInvitation(req.team, value.workspace_id, req.params.id));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// PATCH /api/team/members/:userId - change a member's role
+router.patch('/members/:userId', async (req, res) => {
+  const value = validate(roleSchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, await getTeamService().updateRole(req.team, value.workspace_id, req.params.userId, value.role));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// DELETE /api/team/members/:userId?workspace_id= - remove a member or leave
+router.delete('/members/:userId', async (req, res) => {
+  const value = validate(workspaceQuerySchema, req.query, res);
+  if (!value) return;
+  try {
+    send(req, res, await getTeamService().removeMember(req.team, value.workspace_id, req.params.userId));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+// POST /api/team/keys - a server-held workspace key, for members only
+router.post('/keys', async (req, res) => {
+  const value = validate(keySchema, req.body, res);
+  if (!value) return;
+  try {
+    send(req, res, await getKeyService().workspaceKey(req.team, value.workspace_id, value.key_id));
+  } catch (error) {
+    handleError(req, res, error);
+  }
+});
+
+export { router as teamRoutes };
@@ -17,6 +17,10 @@ import { textAnalysisRoutes } from './routes/textAnalysis.js';
 import { sentimentAnalysisRoutes } from './routes/sentimentAnalysis.js';
 import { seasonalDecompositionRoutes } from './routes/seasonalDecomposition.js';
 import regressionRoutes from './routes/regression.js';
+import { authRoutes } from './routes/auth.js';
+import { teamRoutes } from './routes/team.js';
+import { MAX_REPORT_BYTES, errorRoutes } from './routes/errors.js';
+import { llmRoutes } from './routes/llm.js';
 
 // Import analytics engine
 import { AnalyticsEngine } from './services/analyticsEngine.js';
@@ -96,6 +100,8 @@ app.use(cors({
   credentials: true
 }));
 app.use(morgan('combined'));
+// Unauthenticated error reports get a much smaller body limit than the analysis routes
+app.use('/api/errors', express.json({ limit: MAX_REPORT_BYTES }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -116,6 +122,10 @@ app.get('/api/health', (req, res) => {
 });
 
 // API routes
+app.use('/api/auth', authRoutes);
+app.use('/api/team', teamRoutes);
+app.use('/api/errors', errorRoutes);
+app.use('/api/llm', llmRoutes);
 app.use('/api/analyze', analyticsRoutes);
 app.use('/api/predict', predictionRoutes);
 app.use('/api/detect-anomalies', anomalyRoutes);
@@ -0,0 +1,104 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthService } from '../authService.js';
+import { generateTotp } from '../totp.js';
+
+const USER = { id: 'user-1', email: 'analyst@example.com' };
+
+describe('AuthService', () => {
+  let dir;
+  let service;
+
+  // Enables two-factor for USER and returns its TOTP secret and recovery codes
+  function enableTwoFactor(sessionId = 'session-1') {
+    const user = service.getUser(USER);
+    const { secret } = service.beginSetup(user);
+    const { recoveryCodes } = service.enable(user, sessionId, generateTotp(secret));
+    // The code used to enable cannot be used again; move on to the next step
+    jest.advanceTimersByTime(30000);
+    return { user, secret, recoveryCodes };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-05T09:00:00Z') });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-'));
+    service = new AuthService({ storePath: path.join(dir, 'two-factor.json'), encryptionKey: 'test key' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject a code that was already used', () => {
+    const { user, secret } = enableTwoFactor();
+    const code = generateTotp(secret);
+
+    expect(service.checkSecondFactor(user, { code })).toBe('totp');
+    expect(() => service.checkSecondFactor(user, { code })).toThrow('Invalid verification code');
+
+    // Nor does an older code still inside the drift window work afterwards
+    const previous = generateTotp(secret, Date.now() - 30000);
+    expect(() => service.checkSecondFactor(user, { code: previous })).toThrow('Invalid verification code');
+  });
+
+  it('should accept each recovery code once', () => {
+    const { user, recoveryCodes } = enableTwoFactor();
+
+    expect(service.checkSecondFactor(user, { recoveryCode: recoveryCodes[0] })).toBe('recovery');
+    expect(() => service.checkSecondFactor(user, { recoveryCode: recoveryCodes[0] })).toThrow('Invalid recovery code');
+    expect(service.status(user).recoveryCodesRemaining).toBe(recoveryCodes.length - 1);
+  });
+
+  it('should lock the account after five failed attempts', () => {
+    const { user, secret } = enableTwoFactor();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(() => service.checkSecondFactor(user, { code: '000000' })).toThrow('Invalid verification code');
+    }
+    const locked = (() => {
+      try {
+        service.checkSecondFactor(user, { code: generateTotp(secret) });
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(locked.status).toBe(429);
+
+    jest.advanceTimersByTime(5 * 60 * 1000);
+    expect(service.checkSecondFactor(user, { code: generateTotp(secret) })).toBe('totp');
+  });
+
+  it('should require the second factor once per Supabase session', async () => {
+    const verifyAccessToken = jest.spyOn(service, 'verifyAccessToken');
+    const { secret } = enableTwoFactor('session-1');
+    verifyAccessToken.mockResolvedValue({ ...USER, sessionId: 'session-2' });
+
+    await expect(service.authenticate('token')).rejects.toMatchObject({ status: 403 });
+    const { user, verified } = await service.authenticate('token', { requireSecondFactor: false });
+    expect(verified).toBe(false);
+
+    expect(service.verifySession(user, 'session-2', { code: generateTotp(secret) })).toMatchObject({ verified: true });
+    await expect(service.authenticate('token')).resolves.toMatchObject({ verified: true });
+
+    // The session that enabled two-factor stays verified, others do not
+    verifyAccessToken.mockResolvedValue({ ...USER, sessionId: 'session-1' });
+    await expect(service.authenticate('token')).resolves.toMatchObject({ verified: true });
+    verifyAccessToken.mockResolvedValue({ ...USER, sessionId: 'session-3' });
+    await expect(service.authenticate('token')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should keep secrets encrypted and restore state after a restart', () => {
+    const { secret } = enableTwoFactor();
+
+    const stored = fs.readFileSync(path.join(dir, 'two-factor.json'), 'utf8');
+    expect(stored).not.toContain(secret);
+
+    const restarted = new AuthService({ storePath: path.join(dir, 'two-factor.json'), encryptionKey: 'test key' });
+    const user = restarted.getUser(USER);
+    expect(restarted.isVerified(user, 'session-1')).toBe(true);
+    expect(restarted.checkSecondFactor(user, { code: generateTotp(secret) })).toBe('totp');
+  });
+});
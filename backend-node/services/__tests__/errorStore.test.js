@@ -0,0 +1,99 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ErrorStore, fingerprint, trimContext } from '../errorStore.js';
+
+const chromeStack = (host, hash, line) => [
+  'TypeError: Cannot read properties of undefined (reading \'map\')',
+  `    at renderRows (${host}/assets/index-${hash}.js:${line}:17)`,
+  `    at DataTable (${host}/assets/index-${hash}.js:${line + 40}:9)`,
+  `    at renderWithHooks (${host}/node_modules/.vite/deps/react-dom.js?v=${hash}:1:1)`
+].join('\n');
+
+describe('Error fingerprints', () => {
+  it('should group a stack across hosts, bundle hashes and line shifts', () => {
+    const a = fingerprint({ name: 'TypeError', message: 'x', stack: chromeStack('https://app.example.com', '3f9a1c2b', 120) });
+    const b = fingerprint({ name: 'TypeError', message: 'y', stack: chromeStack('http://localhost:3000', 'a81d07e4', 131) });
+
+    expect(a).toBe(b);
+  });
+
+  it('should group Firefox frames and tell different functions apart', () => {
+    const gecko = 'renderRows@https://app.example.com/assets/index-3f9a1c2b.js:120:17\nDataTable@https://app.example.com/assets/index-3f9a1c2b.js:160:9';
+    const other = 'renderCells@https://app.example.com/assets/index-3f9a1c2b.js:120:17\nDataTable@https://app.example.com/assets/index-3f9a1c2b.js:160:9';
+
+    expect(fingerprint({ name: 'TypeError', stack: gecko })).not.toBe(fingerprint({ name: 'TypeError', stack: other }));
+    expect(fingerprint({ name: 'TypeError', stack: gecko })).not.toBe(fingerprint({ name: 'RangeError', stack: gecko }));
+  });
+
+  it('should group errors without frames by their message with values masked', () => {
+    const a = fingerprint({ name: 'Error', message: 'Dataset "sales" has 12 rows', stack: null });
+    const b = fingerprint({ name: 'Error', message: 'Dataset "returns" has 340 rows', stack: '' });
+    const c = fingerprint({ name: 'Error', message: 'Dataset is empty' });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+});
+
+describe('ErrorStore', () => {
+  let dir;
+  let store;
+
+  const report = (message, extra = {}) => ({ error: { name: 'Error', message }, ...extra });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-04-01T10:00:00Z') });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'errors-'));
+    store = new ErrorStore({ storePath: path.join(dir, 'errors.json'), maxGroups: 3 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should count repeats in one group and reopen resolved groups', () => {
+    const first = store.ingest(report('Upload 1 failed', { userId: 'a' }), 'req-1');
+    store.setStatus(first.id, 'resolved');
+    const second = store.ingest(report('Upload 2 failed', { userId: 'b' }), 'req-2');
+
+    expect(second).toMatchObject({ id: first.id, isNew: false, reopened: true, status: 'unresolved', count: 2 });
+    expect(store.get(first.id)).toMatchObject({ affectedUsers: 2, message: 'Upload 2 failed' });
+    expect(store.get(first.id).occurrences.map(o => o.requestId)).toEqual(['req-2', 'req-1']);
+  });
+
+  it('should evict settled groups first, then the least recently seen', () => {
+    const ids = ['alpha', 'beta', 'gamma'].map(word => {
+      jest.advanceTimersByTime(1000);
+      return store.ingest(report(`${word} broke`), word).id;
+    });
+    store.setStatus(ids[2], 'ignored');
+
+    jest.advanceTimersByTime(1000);
+    store.ingest(report('delta broke'), 'delta');
+    expect(store.get(ids[2])).toBeNull();
+
+    jest.advanceTimersByTime(1000);
+    store.ingest(report('epsilon broke'), 'epsilon');
+    expect(store.get(ids[0])).toBeNull();
+    expect(store.get(ids[1])).not.toBeNull();
+    expect(store.list().groups).toHaveLength(3);
+  });
+
+  it('should cap the context a report can store', () => {
+    const context = Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`key${i}`, 'x'.repeat(2000)]));
+    context.key0 = { nested: { deep: true } };
+    context.key1 = 42;
+
+    const trimmed = trimContext(context);
+    expect(Object.keys(trimmed)).toHaveLength(20);
+    expect(trimmed.key0).toBe('{"nested":{"deep":true}}');
+    expect(trimmed.key1).toBe(42);
+    expect(trimmed.key2).toHaveLength(501);
+
+    const { id } = store.ingest(report('big', { context }), 'req-1');
+    expect(store.get(id).occurrences[0].context).toEqual(trimmed);
+  });
+});
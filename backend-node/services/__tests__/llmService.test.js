@@ -0,0 +1,34 @@
+import { jest } from '@jest/globals';
+import { LLMError, LLMService } from '../llmService.js';
+
+describe('LLMService', () => {
+  const body = { messages: [{ role: 'user', content: 'hi' }] };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function respondWith(status, payload) {
+    return jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify(payload), { status }));
+  }
+
+  it('should pass the provider reply and status through', async () => {
+    respondWith(429, { error: { message: 'Rate limited' } });
+
+    const result = await new LLMService({ apiKey: 'key' }).complete(body);
+    expect(result).toEqual({ status: 429, payload: { error: { message: 'Rate limited' } } });
+  });
+
+  it.each([401, 403])('should report a %i from the provider as a gateway error', async status => {
+    respondWith(status, { error: { message: 'Incorrect API key provided' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const error = await new LLMService({ apiKey: 'bad key' }).complete(body).catch(caught => caught);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.status).toBe(502);
+  });
+
+  it('should refuse requests when no key is configured', async () => {
+    await expect(new LLMService().complete(body)).rejects.toMatchObject({ status: 503 });
+  });
+});
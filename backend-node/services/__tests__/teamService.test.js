@@ -0,0 +1,173 @@
+import { jest } from '@jest/globals';
+import { TeamError, TeamService, canManageRole, hashInviteToken } from '../teamService.js';
+
+const WORKSPACE = 'workspace-1';
+
+// Just enough of the Supabase query builder for the team queries
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.patch = null;
+    this.inserted = null;
+    this.deleting = false;
+    this.mode = 'many';
+  }
+
+  select() { return this; }
+  order() { return this; }
+  limit() { return this; }
+  eq(column, value) { this.filters.push(row => row[column] === value); return this; }
+  in(column, values) { this.filters.push(row => values.includes(row[column])); return this; }
+  is(column, value) { this.filters.push(row => (row[column] ?? null) === value); return this; }
+  ilike(column, value) { this.filters.push(row => String(row[column]).toLowerCase() === value.toLowerCase()); return this; }
+  insert(row) { this.inserted = row; return this; }
+  update(patch) { this.patch = patch; return this; }
+  delete() { this.deleting = true; return this; }
+  single() { this.mode = 'single'; return this; }
+  maybeSingle() { this.mode = 'maybeSingle'; return this; }
+
+  then(resolve) {
+    const rows = (this.db.tables[this.table] ??= []);
+    if (this.db.denied.has(this.table)) {
+      return Promise.resolve({ data: null, error: { code: '42501', message: 'permission denied' } }).then(resolve);
+    }
+    if (this.inserted) {
+      const row = { id: `${this.table}-${rows.length + 1}`, created_at: new Date().toISOString(), ...this.inserted };
+      rows.push(row);
+      return Promise.resolve({ data: row, error: null }).then(resolve);
+    }
+
+    const matched = rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.patch) matched.forEach(row => Object.assign(row, this.patch));
+    if (this.deleting) this.db.tables[this.table] = rows.filter(row => !matched.includes(row));
+
+    const data = this.mode === 'many' ? matched : matched[0] ?? null;
+    return Promise.resolve({ data, error: null }).then(resolve);
+  }
+}
+
+function mockDb() {
+  const db = {
+    tables: {},
+    // Tables whose row level security refuses the caller
+    denied: new Set(),
+    from: table => new MockQuery(db, table)
+  };
+  return db;
+}
+
+function member(userId, role, joinedAt) {
+  return { workspace_id: WORKSPACE, user_id: userId, role, joined_at: joinedAt };
+}
+
+describe('TeamService', () => {
+  const service = new TeamService({ appUrl: 'https://app.example.com/' });
+  let db;
+  const as = id => ({ db, user: { id, email: `${id}@example.com` } });
+
+  beforeEach(() => {
+    db = mockDb();
+    db.tables.workspace_members = [
+      member('viewer', 'viewer', '2026-01-04'),
+      member('owner', 'owner', '2026-01-01'),
+      member('analyst', 'analyst', '2026-01-03'),
+      member('admin', 'admin', '2026-01-02')
+    ];
+    db.tables.profiles = ['owner', 'admin', 'analyst', 'viewer']
+      .map(id => ({ user_id: id, email: `${id}@example.com` }));
+    db.tables.workspace_invitations = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let owners manage everyone and admins only analysts and viewers', () => {
+    expect(['owner', 'admin', 'analyst', 'viewer'].map(role => canManageRole('owner', role))).toEqual([true, true, true, true]);
+    expect(['owner', 'admin', 'analyst', 'viewer'].map(role => canManageRole('admin', role))).toEqual([false, false, true, true]);
+    expect(['owner', 'admin', 'analyst', 'viewer'].map(role => canManageRole('analyst', role))).toEqual([false, false, false, false]);
+    expect(canManageRole(null, 'viewer')).toBe(false);
+  });
+
+  it('should store only a hash of the invite token and expire it after the chosen days', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+
+    const { invitation, inviteUrl } = await service.invite(as('admin'), {
+      workspaceId: WORKSPACE,
+      email: ' New.Analyst@Example.com ',
+      role: 'analyst',
+      expiresInDays: 3
+    });
+
+    const token = decodeURIComponent(new URL(inviteUrl).searchParams.get('invite'));
+    expect(inviteUrl.startsWith('https://app.example.com/team?invite=')).toBe(true);
+    const [stored] = db.tables.workspace_invitations;
+    expect(stored.token_hash).toBe(hashInviteToken(token));
+    expect(JSON.stringify(stored)).not.toContain(token);
+    expect(stored.email).toBe('new.analyst@example.com');
+    expect(invitation.expires_at).toBe('2026-03-04T12:00:00.000Z');
+  });
+
+  it('should replace a pending invitation when the same email is invited again', async () => {
+    const invite = () => service.invite(as('owner'), { workspaceId: WORKSPACE, email: 'x@example.com', role: 'viewer' });
+    await invite();
+    await invite();
+
+    const pending = db.tables.workspace_invitations.filter(row => !row.revoked_at);
+    expect(db.tables.workspace_invitations).toHaveLength(2);
+    expect(pending).toHaveLength(1);
+  });
+
+  it('should refuse invitations the caller may not grant', async () => {
+    const invite = (actor, role, email = 'x@example.com') =>
+      service.invite(as(actor), { workspaceId: WORKSPACE, email, role });
+
+    await expect(invite('admin', 'admin')).rejects.toMatchObject({ status: 403 });
+    await expect(invite('analyst', 'viewer')).rejects.toMatchObject({ status: 403 });
+    await expect(invite('owner', 'owner')).rejects.toThrow('promote to owner');
+    await expect(invite('owner', 'viewer', 'Analyst@example.com')).rejects.toMatchObject({ status: 409 });
+    await expect(invite('outsider', 'viewer')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should mark expired invitations and show invitations to admins only', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-10T00:00:00Z') });
+    db.tables.workspace_invitations = [
+      { id: 'old', workspace_id: WORKSPACE, email: 'a@example.com', role: 'viewer', expires_at: '2026-03-09T00:00:00Z' },
+      { id: 'new', workspace_id: WORKSPACE, email: 'b@example.com', role: 'viewer', expires_at: '2026-03-11T00:00:00Z' }
+    ];
+
+    const team = await service.listTeam(as('admin'), WORKSPACE);
+    expect(team.invitations.map(({ id, expired }) => ({ id, expired }))).toEqual([
+      { id: 'old', expired: true },
+      { id: 'new', expired: false }
+    ]);
+    expect(team.members.map(m => m.role)).toEqual(['owner', 'admin', 'analyst', 'viewer']);
+
+    expect((await service.listTeam(as('analyst'), WORKSPACE)).invitations).toEqual([]);
+  });
+
+  it('should only let owners change or remove owners and admins', async () => {
+    await expect(service.updateRole(as('admin'), WORKSPACE, 'analyst', 'admin')).rejects.toMatchObject({ status: 403 });
+    await expect(service.updateRole(as('admin'), WORKSPACE, 'owner', 'viewer')).rejects.toMatchObject({ status: 403 });
+    await expect(service.removeMember(as('admin'), WORKSPACE, 'owner')).rejects.toMatchObject({ status: 403 });
+
+    expect(await service.updateRole(as('admin'), WORKSPACE, 'viewer', 'analyst')).toMatchObject({ role: 'analyst' });
+    expect(await service.updateRole(as('owner'), WORKSPACE, 'admin', 'owner')).toMatchObject({ role: 'owner' });
+  });
+
+  it('should let any member leave but not remove others without a role', async () => {
+    await expect(service.removeMember(as('viewer'), WORKSPACE, 'analyst')).rejects.toMatchObject({ status: 403 });
+    expect(await service.removeMember(as('viewer'), WORKSPACE, 'viewer')).toEqual({ userId: 'viewer', removed: true });
+    expect(db.tables.workspace_members.map(m => m.user_id)).not.toContain('viewer');
+  });
+
+  it('should report refusals from the database policies as forbidden', async () => {
+    db.denied.add('workspace_members');
+
+    const error = await service.listWorkspaces(as('viewer')).catch(caught => caught);
+    expect(error).toBeInstanceOf(TeamError);
+    expect(error.status).toBe(403);
+  });
+});
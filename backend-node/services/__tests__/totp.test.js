@@ -0,0 +1,35 @@
+import { base32Encode, generateTotp, hotp, verifyTotp } from '../totp.js';
+
+// RFC 6238 appendix B (SHA-1), whose shared secret is this ASCII string
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('TOTP', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130']
+  ])('should match the RFC 6238 vector at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, seconds * 1000, { digits: 8 })).toBe(code);
+  });
+
+  it('should match the RFC 4226 HOTP vectors', () => {
+    const codes = Array.from({ length: 10 }, (_, counter) => hotp(RFC_SECRET, counter));
+    expect(codes).toEqual([
+      '755224', '287082', '359152', '969429', '338314',
+      '254676', '287922', '162583', '399871', '520489'
+    ]);
+  });
+
+  it('should accept codes one step either side of the clock and return their step', () => {
+    const now = 1111111111 * 1000;
+    const step = Math.floor(1111111111 / 30);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30000), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30000), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 60000), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+});
@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import {
+  generateRecoveryCodes,
+  generateSecret,
+  hashRecoveryCode,
+  otpauthUri,
+  verifyTotp
+} from './totp.js';
+
+// How long a second factor keeps a Supabase session verified
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+
+export class AuthError extends Error {
+  constructor(message, status = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+const emptyTwoFactor = () => ({ enabled: false, secret: null, pendingSecret: null, recoveryCodes: [], lastUsedStep: -1 });
+
+/**
+ * TOTP two-factor authentication for Supabase users. Supabase signs users
+ * in and its access token is the only session; a second factor marks that
+ * Supabase session as verified. Two-factor settings persist to a JSON file
+ * with the TOTP secrets encrypted at rest (AES-256-GCM).
+ */
+export class AuthService {
+  constructor(options = {}) {
+    this.issuer = options.issuer || 'Data Analyzer Pro';
+    this.storePath = options.storePath || path.resolve('data', 'two-factor.json');
+    this.supabaseUrl = options.supabaseUrl;
+    this.supabaseKey = options.supabaseKey;
+    this.encryptionKey = crypto.createHash('sha256')
+      .update(options.encryptionKey || this.loadOrCreateKey())
+      .digest();
+    this.failures = new Map();
+    // Supabase user id -> { id, email, twoFactor }
+    this.users = new Map();
+    // Supabase session id -> { userId, expiresAt } for sessions past the second factor
+    this.sessions = new Map();
+    this.load();
+  }
+
+  // Without a configured key, keep one next to the store so secrets survive restarts
+  loadOrCreateKey() {
+    const keyPath = `${this.storePath}.key`;
+    try {
+      return fs.readFileSync(keyPath, 'utf8').trim();
+    } catch {
+      const key = crypto.randomBytes(32).toString('hex');
+      fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+      fs.writeFileSync(keyPath, key, { mode: 0o600 });
+      console.warn(`TWO_FACTOR_ENCRYPTION_KEY is not set; generated a key at ${keyPath}`);
+      return key;
+    }
+  }
+
+  load() {
+    if (!fs.existsSync(this.storePath)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.storePath, 'utf8'));
+      Object.entries(stored.users || {}).forEach(([id, { email, ...twoFactor }]) => {
+        this.users.set(id, { id, email, twoFactor: { ...emptyTwoFactor(), ...twoFactor } });
+      });
+      Object.entries(stored.sessions || {}).forEach(([sessionId, session]) => {
+        this.sessions.set(sessionId, session);
+      });
+    } catch (error) {
+      console.error('Failed to load two-factor store:', error);
+    }
+  }
+
+  save() {
+    const now = Date.now();
+    const users = {};
+    this.users.forEach(user => {
+      users[user.id] = { email: user.email, ...user.twoFactor };
+    });
+    const sessions = {};
+    this.sessions.forEach((session, sessionId) => {
+      if (session.expiresAt > now) sessions[sessionId] = session;
+      else this.sessions.delete(sessionId);
+    });
+    fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+    fs.writeFileSync(this.storePath, JSON.stringify({ users, sessions }, null, 2), { mode: 0o600 });
+  }
+
+  encrypt(plaintext) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join('.');
+  }
+
+  decrypt(payload) {
+    const [iv, tag, data] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Checks a Supabase access token with Supabase and returns the user it
+   * belongs to and the id of the Supabase session that issued it.
+   */
+  async verifyAccessToken(accessToken) {
+    if (!this.supabaseUrl || !this.supabaseKey) {
+      throw new AuthError('Authentication is not configured', 503);
+    }
+    this.supabase ??= createClient(this.supabaseUrl, this.supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+    const { data, error } = await this.supabase.auth.getUser(accessToken);
+    if (error || !data?.user) throw new AuthError('Authentication required');
+
+    // Supabase has verified the token, so its claims can be read as they are
+    let claims = {};
+    try {
+      claims = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf8'));
+    } catch {
+      // Left without a session id, the token cannot pass a second factor
+    }
+    return { id: data.user.id, email: data.user.email, sessionId: claims.session_id || null };
+  }
+
+  getUser({ id, email }) {
+    let user = this.users.get(id);
+    if (!user) {
+      user = { id, email, twoFactor: emptyTwoFactor() };
+      this.users.set(id, user);
+    }
+    user.email = email;
+    return user;
+  }
+
+  isVerified(user, sessionId) {
+    if (!user.twoFactor.enabled) return true;
+    const session = sessionId ? this.sessions.get(sessionId) : null;
+    return Boolean(session && session.userId === user.id && session.expiresAt > Date.now());
+  }
+
+  markVerified(user, sessionId) {
+    if (!sessionId) throw new AuthError('This session cannot be verified, please sign in again');
+    this.sessions.set(sessionId, { userId: user.id, expiresAt: Date.now() + SESSION_TTL_MS });
+  }
+
+  /**
+   * Resolves a Supabase access token to { user, sessionId, verified }. Users
+   * with two-factor enabled are refused until the session passes a second
+   * factor, unless `requireSecondFactor` is false.
+   */
+  async authenticate(accessToken, { requireSecondFactor = true } = {}) {
+    const identity = await this.verifyAccessToken(accessToken);
+    const user = this.getUser(identity);
+    const verified = this.isVerified(user, identity.sessionId);
+    if (requireSecondFactor && !verified) {
+      throw new AuthError('Enter your two-factor code to continue', 403);
+    }
+    return { user, sessionId: identity.sessionId, verified };
+  }
+
+  assertNotLocked(user) {
+    const entry = this.failures.get(user.id);
+    if (entry && entry.lockedUntil > Date.now()) {
+      throw new AuthError('Too many failed attempts. Try again in a few minutes.', 429);
+    }
+  }
+
+  recordFailure(user) {
+    const entry = this.failures.get(user.id) || { count: 0, lockedUntil: 0 };
+    entry.count += 1;
+    if (entry.count >= MAX_FAILED_ATTEMPTS) {
+      entry.count = 0;
+      entry.lockedUntil = Date.now() + LOCKOUT_MS;
+    }
+    this.failures.set(user.id, entry);
+  }
+
+  /**
+   * Accepts either a current TOTP code or an unused recovery code, which is
+   * consumed. Returns how the factor was satisfied.
+   */
+  checkSecondFactor(user, { code, recoveryCode }) {
+    this.assertNotLocked(user);
+    const { twoFactor } = user;
+
+    if (recoveryCode) {
+      const hash = hashRecoveryCode(recoveryCode);
+      const index = twoFactor.recoveryCodes.indexOf(hash);
+      if (index === -1) {
+        this.recordFailure(user);
+        throw new AuthError('Invalid recovery code');
+      }
+      twoFactor.recoveryCodes.splice(index, 1);
+      this.failures.delete(user.id);
+      this.save();
+      return 'recovery';
+    }
+
+    const step = verifyTotp(this.decrypt(twoFactor.secret), code);
+    if (step === null || step <= twoFactor.lastUsedStep) {
+      this.recordFailure(user);
+      throw new AuthError('Invalid verification code');
+    }
+    twoFactor.lastUsedStep = step;
+    this.failures.delete(user.id);
+    this.save();
+    return 'totp';
+  }
+
+  // Second step of signing in: verifies the Supabase session with a factor
+  verifySession(user, sessionId, factor) {
+    if (!user.twoFactor.enabled) return this.status(user, sessionId);
+    const method = this.checkSecondFactor(user, factor);
+    this.markVerified(user, sessionId);
+    this.save();
+    return { ...this.status(user, sessionId), method };
+  }
+
+  status(user, sessionId) {
+    return {
+      enabled: user.twoFactor.enabled,
+      verified: this.isVerified(user, sessionId),
+      recoveryCodesRemaining: user.twoFactor.enabled ? user.twoFactor.recoveryCodes.length : 0
+    };
+  }
+
+  beginSetup(user) {
+    if (user.twoFactor.enabled) {
+      throw new AuthError('Two-factor authentication is already enabled', 409);
+    }
+    const secret = generateSecret();
+    user.twoFactor.pendingSecret = this.encrypt(secret);
+    this.save();
+    return { secret, otpauthUrl: otpauthUri(secret, user.email, this.issuer) };
+  }
+
+  issueRecoveryCodes(user) {
+    const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    user.twoFactor.recoveryCodes = codes.map(hashRecoveryCode);
+    return codes;
+  }
+
+  // The session that turns two-factor on counts as verified
+  enable(user, sessionId, code) {
+    const { twoFactor } = user;
+    if (!twoFactor.pendingSecret) {
+      throw new AuthError('Start two-factor setup first', 400);
+    }
+    this.assertNotLocked(user);
+    const step = verifyTotp(this.decrypt(twoFactor.pendingSecret), code);
+    if (step === null) {
+      this.recordFailure(user);
+      throw new AuthError('Invalid verification code', 400);
+    }
+
+    twoFactor.secret = twoFactor.pendingSecret;
+    twoFactor.pendingSecret = null;
+    twoFactor.enabled = true;
+    twoFactor.lastUsedStep = step;
+    const recoveryCodes = this.issueRecoveryCodes(user);
+    this.markVerified(user, sessionId);
+    this.save();
+    return { recoveryCodes };
+  }
+
+  regenerateRecoveryCodes(user, factor) {
+    this.requireReauthentication(user, factor);
+    const recoveryCodes = this.issueRecoveryCodes(user);
+    this.save();
+    return { recoveryCodes };
+  }
+
+  disable(user, sessionId, factor) {
+    this.requireReauthentication(user, factor);
+    user.twoFactor = emptyTwoFactor();
+    this.sessions.forEach((session, id) => {
+      if (session.userId === user.id) this.sessions.delete(id);
+    });
+    this.save();
+    return this.status(user, sessionId);
+  }
+
+  // Sensitive changes need a fresh second factor, even in a verified session
+  requireReauthentication(user, factor) {
+    if (!user.twoFactor.enabled) {
+      throw new AuthError('Two-factor authentication is not enabled', 400);
+    }
+    this.checkSecondFactor(user, factor);
+  }
+}
+
+let instance = null;
+
+/**
+ * Services are created on first use rather than at import: ES imports are
+ * hoisted above the `dotenv.config()` call in server.js, so the environment
+ * is only loaded by the time a request arrives. The other services' getters
+ * (team, keys, errors) follow the same pattern.
+ */
+export function getAuthService() {
+  if (!instance) {
+    instance = new AuthService({
+      issuer: process.env.TWO_FACTOR_ISSUER,
+      storePath: process.env.TWO_FACTOR_STORE_PATH,
+      supabaseUrl: process.env.SUPABASE_URL,
+      supabaseKey: process.env.SUPABASE_ANON_KEY,
+      encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY
+    });
+  }
+  return instance;
+}
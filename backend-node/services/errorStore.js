@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const ERROR_STATUSES = ['unresolved', 'resolved', 'ignored'];
+
+const MAX_GROUPS = 1000;
+const MAX_OCCURRENCES_PER_GROUP = 25;
+// Past this many, a group reports its affected users as a lower bound
+const MAX_USERS_PER_GROUP = 500;
+// Frames beyond the top few mostly belong to React and the router
+const FINGERPRINT_FRAMES = 5;
+const SAVE_DELAY_MS = 1000;
+// Reports come from unauthenticated browsers, so their free-form context is capped
+const MAX_CONTEXT_KEYS = 20;
+const MAX_CONTEXT_VALUE_LENGTH = 500;
+
+/**
+ * Stack frames reduced to function and file, so the same error groups
+ * together across deploys, cache-busting query strings and line shifts.
+ */
+export function normalizeFrames(stack) {
+  return String(stack || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => /^at\s/.test(line) || /^[^\s@]*@\S+:\d+(:\d+)?$/.test(line))
+    .map(line => {
+      // Chrome: "at fn (url:line:col)" / "at url:line:col"; Firefox and Safari: "fn@url:line:col"
+      const chrome = line.match(/^at\s+(?:(.+?)\s+\()?(.+?)(?::\d+){0,2}\)?$/);
+      const gecko = line.match(/^(.*?)@(.+?)(?::\d+){0,2}$/);
+      const [, fn = '', location = ''] = chrome || gecko || [];
+      const file = location
+        .replace(/^[a-z-]+:\/\/[^/]+/i, '')
+        .replace(/[?#].*$/, '')
+        // Bundled chunk hashes change on every build
+        .replace(/-[0-9a-f]{8,}(\.[a-z]+)$/i, '$1');
+      return `${fn.trim() || '<anonymous>'} ${file}`;
+    })
+    .filter(frame => !frame.endsWith(' ') && !frame.includes('node_modules'));
+}
+
+// Numbers, ids and quoted values vary between occurrences of the same error
+export function normalizeMessage(message) {
+  return String(message || '')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/(["'`]).*?\1/g, '<value>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .slice(0, 500);
+}
+
+export function fingerprint({ name, message, stack }) {
+  const frames = normalizeFrames(stack).slice(0, FINGERPRINT_FRAMES);
+  // Without usable frames the message is all there is to group on
+  const basis = frames.length
+    ? [name || 'Error', ...frames]
+    : [name || 'Error', normalizeMessage(message)];
+  return crypto.createHash('sha256').update(basis.join('\n')).digest('hex').slice(0, 16);
+}
+
+/**
+ * Keeps the first few context entries, with strings and nested values
+ * cut to a short JSON string, so one report cannot grow the store.
+ */
+export function trimContext(context) {
+  if (!context || typeof context !== 'object') return null;
+  const entries = Object.entries(context)
+    .slice(0, MAX_CONTEXT_KEYS)
+    .map(([key, value]) => {
+      if (value === null || typeof value === 'number' || typeof value === 'boolean') return [key.slice(0, 100), value];
+      const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+      return [
+        key.slice(0, 100),
+        text.length > MAX_CONTEXT_VALUE_LENGTH ? `${text.slice(0, MAX_CONTEXT_VALUE_LENGTH)}…` : text
+      ];
+    });
+  return entries.length ? Object.fromEntries(entries) : null;
+}
+
+/**
+ * Client errors grouped by stack fingerprint, persisted to a JSON file.
+ * Each group keeps its most recent occurrences with the request IDs that
+ * ingested them.
+ */
+export class ErrorStore {
+  constructor(options = {}) {
+    this.storePath = options.storePath || path.resolve('data', 'errors.json');
+    this.maxGroups = options.maxGroups || MAX_GROUPS;
+    this.groups = new Map();
+    this.saveTimer = null;
+    this.load();
+  }
+
+  load() {
+    if (!fs.existsSync(this.storePath)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.storePath, 'utf8'));
+      (stored.groups || []).forEach(group => {
+        this.groups.set(group.id, { ...group, users: new Set(group.users || []) });
+      });
+    } catch (error) {
+      console.error('Failed to load error store:', error);
+    }
+  }
+
+  // Ingestion can be bursty, so writes are batched
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  save() {
+    const groups = [...this.groups.values()].map(group => ({ ...group, users: [...group.users] }));
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      fs.writeFileSync(this.storePath, JSON.stringify({ groups }, null, 2));
+    } catch (error) {
+      console.error('Failed to save error store:', error);
+    }
+  }
+
+  flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  /**
+   * Record one occurrence. A resolved group that occurs again is reopened;
+   * ignored groups keep counting but stay ignored.
+   */
+  ingest(report, requestId) {
+    const { error } = report;
+    const id = fingerprint(error);
+    const now = new Date().toISOString();
+    // Client clocks can be wrong; never record an occurrence in the future
+    const reported = Date.parse(report.timestamp);
+    const seenAt = Number.isNaN(reported) ? now : new Date(Math.min(reported, Date.now())).toISOString();
+
+    let group = this.groups.get(id);
+    const isNew = !group;
+    if (!group) {
+      group = {
+        id,
+        name: error.name || 'Error',
+        message: error.message,
+        stack: error.stack || null,
+        componentStack: report.componentStack || null,
+        status: 'unresolved',
+        count: 0,
+        firstSeen: seenAt,
+        lastSeen: seenAt,
+        users: new Set(),
+        occurrences: [],
+        statusChangedAt: null
+      };
+      this.groups.set(id, group);
+    }
+
+    let reopened = false;
+    if (group.status === 'resolved') {
+      group.status = 'unresolved';
+      group.statusChangedAt = now;
+      reopened = true;
+    }
+
+    group.count += 1;
+    if (seenAt < group.firstSeen) group.firstSeen = seenAt;
+    if (seenAt > group.lastSeen) group.lastSeen = seenAt;
+    // Keep the latest wording, which may include more detail
+    group.message = error.message;
+    if (report.userId && group.users.size < MAX_USERS_PER_GROUP) group.users.add(report.userId);
+
+    group.occurrences.unshift({
+      requestId,
+      clientRequestId: report.requestId || null,
+      timestamp: seenAt,
+      receivedAt: now,
+      message: error.message,
+      url: report.url || null,
+      userAgent: report.userAgent || null,
+      userId: report.userId || null,
+      release: report.release || null,
+      context: trimContext(report.context)
+    });
+    group.occurrences.length = Math.min(group.occurrences.length, MAX_OCCURRENCES_PER_GROUP);
+
+    if (isNew) this.evict();
+    this.scheduleSave();
+    return { id, isNew, reopened, status: group.status, count: group.count };
+  }
+
+  // Drop the least recently seen groups, preferring settled ones
+  evict() {
+    if (this.groups.size <= this.maxGroups) return;
+    const candidates = [...this.groups.values()].sort((a, b) =>
+      (a.status === 'unresolved') - (b.status === 'unresolved') || a.lastSeen.localeCompare(b.lastSeen)
+    );
+    candidates.slice(0, this.groups.size - this.maxGroups).forEach(group => this.groups.delete(group.id));
+  }
+
+  summarize(group) {
+    const { users, occurrences, stack, componentStack, ...summary } = group;
+    return { ...summary, affectedUsers: users.size, affectedUsersCapped: users.size >= MAX_USERS_PER_GROUP };
+  }
+
+  list({ status, search, sort = 'lastSeen' } = {}) {
+    const query = search ? search.toLowerCase() : null;
+    const groups = [...this.groups.values()]
+      .filter(group => !status || group.status === status)
+      .filter(group => !query || `${group.name} ${group.message} ${group.id}`.toLowerCase().includes(query))
+      .map(group => this.summarize(group));
+
+    const comparators = {
+      lastSeen: (a, b) => b.lastSeen.localeCompare(a.lastSeen),
+      firstSeen: (a, b) => b.firstSeen.localeCompare(a.firstSeen),
+      count: (a, b) => b.count - a.count,
+      users: (a, b) => b.affectedUsers - a.affectedUsers
+    };
+    groups.sort(comparators[sort] || comparators.lastSeen);
+
+    const counts = { unresolved: 0, resolved: 0, ignored: 0 };
+    this.groups.forEach(group => { counts[group.status] += 1; });
+    return { groups, counts };
+  }
+
+  get(id) {
+    const group = this.groups.get(id);
+    if (!group) return null;
+    return {
+      ...this.summarize(group),
+      stack: group.stack,
+      componentStack: group.componentStack,
+      occurrences: group.occurrences
+    };
+  }
+
+  setStatus(id, status) {
+    const group = this.groups.get(id);
+    if (!group) return null;
+    group.status = status;
+    group.statusChangedAt = new Date().toISOString();
+    this.scheduleSave();
+    return this.summarize(group);
+  }
+}
+
+let instance = null;
+
+export function getErrorStore() {
+  if (!instance) {
+    instance = new ErrorStore({ storePath: process.env.ERROR_STORE_PATH });
+  }
+  return instance;
+}
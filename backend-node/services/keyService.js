@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { TeamError, getTeamService } from './teamService.js';
+
+/**
+ * Stand-in for a KMS. Workspace keys are derived from one master secret
+ * that stays on the server and are handed only to workspace members, so
+ * every member's browser unwraps the same dataset keys while the database
+ * alone decrypts nothing. Losing the master secret loses the data, so it
+ * is never generated here.
+ */
+export class KeyService {
+  constructor(options = {}) {
+    this.masterKey = options.masterKey ? Buffer.from(options.masterKey, 'base64') : null;
+  }
+
+  async workspaceKey({ db, user }, workspaceId, keyId) {
+    if (!this.masterKey || this.masterKey.length < 32) {
+      throw new TeamError('Server-held workspace keys are not configured', 503);
+    }
+    await getTeamService().requireRole(db, workspaceId, user.id, 'viewer');
+
+    const key = crypto.hkdfSync('sha256', this.masterKey, workspaceId, `workspace-key:${keyId}`, 32);
+    return { key: Buffer.from(key).toString('base64') };
+  }
+}
+
+let instance = null;
+
+export function getKeyService() {
+  if (!instance) {
+    instance = new KeyService({ masterKey: process.env.WORKSPACE_MASTER_KEY });
+  }
+  return instance;
+}
@@ -0,0 +1,66 @@
+export class LLMError extends Error {
+  constructor(message, status = 502) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+  }
+}
+
+/**
+ * Forwards chat completions to a hosted OpenAI-compatible API. The key is
+ * read from the server environment, so it never reaches the browser bundle.
+ */
+export class LLMService {
+  constructor(options = {}) {
+    this.apiKey = options.apiKey || null;
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    // When set, the server decides the model rather than the client
+    this.model = options.model || null;
+    this.timeoutMs = options.timeoutMs || 60000;
+  }
+
+  async complete(body) {
+    if (!this.apiKey) {
+      throw new LLMError('AI provider is not configured on the server', 503);
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`
+        },
+        body: JSON.stringify({ ...body, model: this.model || body.model || 'gpt-4o-mini' }),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      // A bad server key must not look like the user's session expiring
+      if (response.status === 401 || response.status === 403) {
+        console.error(`AI provider refused the server's API key (${response.status})`);
+        throw new LLMError('AI provider rejected the server\'s API key');
+      }
+      // Reading the body stays under the same timeout as the request
+      return { status: response.status, payload: await response.json() };
+    } catch (error) {
+      if (error instanceof LLMError) throw error;
+      if (error?.name === 'TimeoutError') {
+        throw new LLMError(`AI provider timed out after ${this.timeoutMs}ms`, 504);
+      }
+      console.error('AI provider request failed:', error);
+      throw new LLMError('AI provider request failed');
+    }
+  }
+}
+
+let instance = null;
+
+export function getLLMService() {
+  if (!instance) {
+    instance = new LLMService({
+      apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+      baseUrl: process.env.LLM_BASE_URL,
+      model: process.env.LLM_MODEL
+    });
+  }
+  return instance;
+}
@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+
+export const TEAM_ROLES = ['owner', 'admin', 'analyst', 'viewer'];
+
+const ROLE_RANK = { owner: 4, admin: 3, analyst: 2, viewer: 1 };
+
+export const INVITATION_TTL_DAYS = { default: 7, max: 30 };
+
+export class TeamError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'TeamError';
+    this.status = status;
+  }
+}
+
+export function roleRank(role) {
+  return ROLE_RANK[role] || 0;
+}
+
+/**
+ * Mirrors `can_manage_workspace_role` in the database: owners and admins
+ * are granted, changed and removed by owners, everyone else by admins.
+ */
+export function canManageRole(actorRole, memberRole) {
+  const required = memberRole === 'owner' || memberRole === 'admin' ? 'owner' : 'admin';
+  return roleRank(actorRole) >= roleRank(required);
+}
+
+export function hashInviteToken(token) {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+// Postgres and PostgREST errors raised by the team policies and functions
+function toTeamError(error, fallback) {
+  const message = error?.message || fallback;
+  if (error?.code === '42501') {
+    return new TeamError('You do not have permission to do that', 403);
+  }
+  if (error?.code === '23505') {
+    return new TeamError('A pending invitation already exists for this email', 409);
+  }
+  if (/at least one owner/.test(message)) {
+    return new TeamError(message, 409);
+  }
+  if (error?.code === 'P0001') {
+    return new TeamError(message, 400);
+  }
+  return new TeamError(fallback, 500);
+}
+
+/**
+ * Team membership over the Supabase `workspace_members` table. Queries run
+ * with the caller's access token so the database policies still apply; the
+ * checks here only produce clearer errors.
+ */
+export class TeamService {
+  constructor(options = {}) {
+    this.supabaseUrl = options.supabaseUrl;
+    this.supabaseKey = options.supabaseKey;
+    this.appUrl = (options.appUrl || 'http://localhost:3000').replace(/\/$/, '');
+  }
+
+  client(accessToken) {
+    if (!this.supabaseUrl || !this.supabaseKey) {
+      throw new TeamError('Team management is not configured', 503);
+    }
+    return createClient(this.supabaseUrl, this.supabaseKey, {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+
+  async getRole(db, workspaceId, userId) {
+    const { data, error } = await db
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw toTeamError(error, 'Failed to load membership');
+    return data?.role || null;
+  }
+
+  async requireRole(db, workspaceId, userId, minimumRole) {
+    const role = await this.getRole(db, workspaceId, userId);
+    if (!role) {
+      throw new TeamError('Workspace not found', 404);
+    }
+    if (roleRank(role) < roleRank(minimumRole)) {
+      throw new TeamError('You do not have permission to do that', 403);
+    }
+    return role;
+  }
+
+  async listWorkspaces({ db, user }) {
+    const { data, error } = await db
+      .from('workspace_members')
+      .select('role, workspaces(id, name, description)')
+      .eq('user_id', user.id);
+    if (error) throw toTeamError(error, 'Failed to load workspaces');
+
+    return data
+      .filter(row => row.workspaces)
+      .map(row => ({ ...row.workspaces, role: row.role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async listTeam({ db, user }, workspaceId) {
+    const role = await this.requireRole(db, workspaceId, user.id, 'viewer');
+
+    const { data: members, error } = await db
+      .from('workspace_members')
+      .select('user_id, role, joined_at')
+      .eq('workspace_id', workspaceId);
+    if (error) throw toTeamError(error, 'Failed to load team members');
+
+    const { data: profiles, error: profileError } = await db
+      .from('profiles')
+      .select('user_id, email')
+      .in('user_id', members.map(member => member.user_id));
+    if (profileError) throw toTeamError(profileError, 'Failed to load team members');
+
+    const emails = new Map(profiles.map(profile => [profile.user_id, profile.email]));
+    const team = members
+      .map(member => ({
+        ...member,
+        email: emails.get(member.user_id) || null,
+        isCurrentUser: member.user_id === user.id
+      }))
+      .sort((a, b) => roleRank(b.role) - roleRank(a.role) || a.joined_at.localeCompare(b.joined_at));
+
+    let invitations = [];
+    if (roleRank(role) >= roleRank('admin')) {
+      const { data, error: inviteError } = await db
+        .from('workspace_invitations')
+        .select('id, email, role, created_at, expires_at')
+        .eq('workspace_id', workspaceId)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+      if (inviteError) throw toTeamError(inviteError, 'Failed to load invitations');
+
+      const now = Date.now();
+      invitations = data.map(invitation => ({
+        ...invitation,
+        expired: new Date(invitation.expires_at).getTime() < now
+      }));
+    }
+
+    return { workspaceId, role, members: team, invitations };
+  }
+
+  async invite({ db, user }, { workspaceId, email, role, expiresInDays = INVITATION_TTL_DAYS.default }) {
+    const actorRole = await this.requireRole(db, workspaceId, user.id, 'admin');
+    if (role === 'owner') {
+      throw new TeamError('Invite as admin and promote to owner once they have joined');
+    }
+    if (!canManageRole(actorRole, role)) {
+      throw new TeamError(`Only owners can invite ${role}s`, 403);
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const { data: existing, error: lookupError } = await db
+      .from('profiles')
+      .select('user_id')
+      .ilike('email', normalizedEmail)
+      .limit(1);
+    if (lookupError) throw toTeamError(lookupError, 'Failed to create invitation');
+    if (existing.length && await this.getRole(db, workspaceId, existing[0].user_id)) {
+      throw new TeamError(`${normalizedEmail} is already a member of this workspace`, 409);
+    }
+
+    // Re-inviting replaces the previous pending invitation
+    const { error: revokeError } = await db
+      .from('workspace_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .ilike('email', normalizedEmail)
+      .is('accepted_at', null)
+      .is('revoked_at', null);
+    if (revokeError) throw toTeamError(revokeError, 'Failed to create invitation');
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+    const { data: invitation, error } = await db
+      .from('workspace_invitations')
+      .insert({
+        workspace_id: workspaceId,
+        email: normalizedEmail,
+        role,
+        token_hash: hashInviteToken(token),
+        invited_by: user.id,
+        expires_at: expiresAt.toISOString()
+      })
+      .select('id, email, role, created_at, expires_at')
+      .single();
+    if (error) throw toTeamError(error, 'Failed to create invitation');
+
+    return {
+      invitation: { ...invitation, expired: false },
+      inviteUrl: `${this.appUrl}/team?invite=${encodeURIComponent(token)}`
+    };
+  }
+
+  async revokeInvitation({ db, user }, workspaceId, invitationId) {
+    await this.requireRole(db, workspaceId, user.id, 'admin');
+    const { data, error } = await db
+      .from('workspace_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .eq('workspace_id', workspaceId)
+      .is('accepted_at', null)
+      .select('id');
+    if (error) throw toTeamError(error, 'Failed to revoke invitation');
+    if (!data.length) {
+      throw new TeamError('Invitation not found', 404);
+    }
+    return { id: invitationId, revoked: true };
+  }
+
+  async acceptInvitation({ db }, token) {
+    const { data, error } = await db.rpc('accept_workspace_invitation', { invite_token: token });
+    if (error) throw toTeamError(error, 'Failed to accept invitation');
+    return { workspaceId: data.workspace_id, role: data.role };
+  }
+
+  async updateRole({ db, user }, workspaceId, memberId, role) {
+    const actorRole = await this.requireRole(db, workspaceId, user.id, 'admin');
+    const currentRole = await this.getRole(db, workspaceId, memberId);
+    if (!currentRole) {
+      throw new TeamError('Member not found', 404);
+    }
+    if (!canManageRole(actorRole, currentRole) || !canManageRole(actorRole, role)) {
+      throw new TeamError('Only owners can change owner and admin roles', 403);
+    }
+
+    const { data, error } = await db
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId)
+      .select('user_id, role, joined_at')
+      .single();
+    if (error) throw toTeamError(error, 'Failed to update role');
+    return data;
+  }
+
+  async removeMember({ db, user }, workspaceId, memberId) {
+    const currentRole = await this.getRole(db, workspaceId, memberId);
+    if (!currentRole) {
+      throw new TeamError('Member not found', 404);
+    }
+    // Anyone may leave; removing someone else needs the right role
+    if (memberId !== user.id) {
+      const actorRole = await this.requireRole(db, workspaceId, user.id, 'admin');
+      if (!canManageRole(actorRole, currentRole)) {
+        throw new TeamError('Only owners can remove owners and admins', 403);
+      }
+    }
+
+    const { error } = await db
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId);
+    if (error) throw toTeamError(error, 'Failed to remove member');
+    return { userId: memberId, removed: true };
+  }
+}
+
+let instance = null;
+
+export function getTeamService() {
+  if (!instance) {
+    instance = new TeamService({
+      supabaseUrl: process.env.SUPABASE_URL,
+      supabaseKey: process.env.SUPABASE_ANON_KEY,
+      appUrl: process.env.FRONTEND_URL
+    });
+  }
+  return instance;
+}
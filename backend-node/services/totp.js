@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second
+ * steps) as used by Google Authenticator, Authy and 1Password.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DEFAULTS = {
+  digits: 6,
+  period: 30,
+  // Accept codes one step either side of the server clock
+  window: 1
+};
+
+export function base32Encode(buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input) {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random 160-bit secret, base32 encoded
+ */
+export function generateSecret(bytes = 20) {
+  return base32Encode(crypto.randomBytes(bytes));
+}
+
+/**
+ * RFC 4226 HMAC-based one-time password for a counter value
+ */
+export function hotp(secret, counter, digits = TOTP_DEFAULTS.digits) {
+  const key = base32Decode(secret);
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export function timeStep(now = Date.now(), period = TOTP_DEFAULTS.period) {
+  return Math.floor(now / 1000 / period);
+}
+
+export function generateTotp(secret, now = Date.now(), options = {}) {
+  const { digits, period } = { ...TOTP_DEFAULTS, ...options };
+  return hotp(secret, timeStep(now, period), digits);
+}
+
+/**
+ * Verify a code against the steps within the drift window. Returns the
+ * matching time step, or null when no step matches. Callers should reject
+ * steps at or before the last accepted one to stop code replay.
+ */
+export function verifyTotp(secret, code, now = Date.now(), options = {}) {
+  const { digits, period, window } = { ...TOTP_DEFAULTS, ...options };
+  const normalized = String(code ?? '').replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = timeStep(now, period);
+  for (let offset = -window; offset <= window; offset++) {
+    const step = current + offset;
+    if (step < 0) continue;
+    const expected = Buffer.from(hotp(secret, step, digits));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// provisioning URI for authenticator apps
+ */
+export function otpauthUri(secret, accountName, issuer) {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  // encodeURIComponent rather than URLSearchParams: some apps show '+' literally
+  const params = {
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DEFAULTS.digits,
+    period: TOTP_DEFAULTS.period
+  };
+  const query = Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `otpauth://totp/${label}?${query}`;
+}
+
+/**
+ * One-time recovery codes in the form xxxxx-xxxxx
+ */
+export function generateRecoveryCodes(count = 10) {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code) {
+  const normalized = String(code).toLowerCase().replace(/[^0-9a-f]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
@@ -7,7 +7,10 @@ import { Dashboard } from './pages/Dashboard';
 import { Analysis } from './pages/Analysis';
 import { Workspaces } from './pages/Workspaces';
 import { Settings } from './pages/Settings';
+import { Team } from './pages/Team';
+import { Errors } from './pages/Errors';
 import { VisualizationsPage } from './pages/analysis/visualizations';
+import { SqlWorkbenchPage } from './pages/analysis/sql';
 import { Reports } from './pages/reports';
 import { WorkspaceProvider } from './components/workspace/WorkspaceProvider';
 import { AuthProvider } from './providers/auth/AuthProvider';
@@ -98,6 +101,13 @@ const App: React.FC = () => {
                   <Analytics />
                 </MainLayout>
               } />
+              <Route path="/analysis/sql" element={
+                <MainLayout>
+                  <SqlWorkbenchPage />
+                  <SpeedInsights />
+                  <Analytics />
+                </MainLayout>
+              } />
               <Route path="/analysis/reports" element={
                 <MainLayout>
                   <Reports />
@@ -112,6 +122,20 @@ const App: React.FC = () => {
                   <Analytics />
                 </MainLayout>
               } />
+              <Route path="/team" element={
+                <MainLayout>
+                  <Team />
+                  <SpeedInsights />
+                  <Analytics />
+                </MainLayout>
+              } />
+              <Route path="/errors" element={
+                <MainLayout>
+                  <Errors />
+                  <SpeedInsights />
+                  <Analytics />
+                </MainLayout>
+              } />
               <Route path="/settings" element={
                 <MainLayout>
                   <Settings />
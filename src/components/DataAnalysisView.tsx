@@ -6,12 +6,13 @@ import MLInsights from './analysis/categories/ml/MLInsights';
 import NLPInsights from './analysis/categories/nlp/NLPInsights';
 import { PredictiveInsights } from './predictive';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface DataAnalysisViewProps {
   analysis: AnalyzedData;
 }
 
 export default function DataAnalysisView({ analysis }: DataAnalysisViewProps) {
-  const hasNumericFields = analysis.fields.some(field => field.type === 'number');
+  const hasNumericFields = analysis.fields.some(isMeasureField);
   const hasTextFields = analysis.fields.some(field => field.type === 'string');
 
   return (
@@ -25,7 +26,7 @@ export default function DataAnalysisView({ analysis }: DataAnalysisViewProps) {
         <div className="bg-white p-4 rounded-lg shadow-sm">
           <h3 className="text-sm font-medium text-black">Numeric Fields</h3>
           <p className="mt-1 text-2xl font-semibold text-black">
-            {analysis.fields.filter(f => f.type === 'number').length}
+            {analysis.fields.filter(isMeasureField).length}
           </p>
         </div>
         <div className="bg-white p-4 rounded-lg shadow-sm">
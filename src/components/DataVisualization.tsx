@@ -12,6 +12,7 @@ import {
 import { Line, Bar } from 'react-chartjs-2';
 import { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 ChartJS.register(
   CategoryScale,
   LinearScale,
@@ -28,7 +29,7 @@ interface DataVisualizationProps {
 }
 
 export default function DataVisualization({ data }: DataVisualizationProps) {
-  const numericFields = data.filter(field => field.type === 'number');
+  const numericFields = data.filter(isMeasureField);
   
   const chartData = {
     labels: numericFields.map(field => field.name),
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { DataField } from '@/types/data';
 import { MLAnalyzer } from '@/utils/analysis/ml/analyzer';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface MLResults {
   predictions: Record<string, number[]>;
   confidence: number;
@@ -27,7 +28,7 @@ export const MLAnalysis: React.FC<MLAnalysisProps> = ({ data, onAnalysisComplete
 
       // Validate data format
       const numericFields = data.filter(field => {
-        const isValid = field.type === 'number' && 
+        const isValid = isMeasureField(field) && 
                        Array.isArray(field.value) && 
                        field.value.length > 0;
         if (!isValid) {
@@ -5,6 +5,7 @@ import { DataField } from '@/types/data';
 import { AISimulationEngine } from '@/utils/analysis/ai/simulation';
 import { formatNumber } from '@/utils/analysis/formatting';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AISimulationViewProps {
   data: {
     fields: DataField[];
@@ -32,7 +33,7 @@ export function AISimulationView({ data, config }: AISimulationViewProps) {
         throw new Error('No data available for simulation');
       }
 
-      const numericFields = data.fields.filter(f => f.type === 'number');
+      const numericFields = data.fields.filter(isMeasureField);
       if (numericFields.length === 0) {
         throw new Error('Simulation requires numeric fields');
       }
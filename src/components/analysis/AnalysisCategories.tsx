@@ -1,6 +1,7 @@
 import React from 'react';
 import { Brain, Calculator, TrendingUp, BarChart, TestTube, LineChart, Bot, FileText, Timer, Globe, Network, Briefcase, Cpu } from 'lucide-react';
-import { DataField } from '@/types/data';
+import { DataField, DataSource } from '@/types/data';
+import { hasSemanticType } from '@/utils/file/columnTypes';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { AnalysisEngine } from '@/utils/analysis/core/AnalysisEngine';
 import { IndustryAnalysisView } from './categories/industry';
@@ -9,9 +10,11 @@ import { TechnicalAnalysis } from './categories/technical';
 import { NLPAnalysisContainer } from './categories/nlp';
 import LoadingSpinner from '../common/LoadingSpinner';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AnalysisCategoriesProps {
   data: {
     fields: DataField[];
+    source?: DataSource;
   };
 }
 
@@ -58,7 +61,7 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
       }
 
       // Validate category requirements with user-friendly messages
-      const numericFields = Array.isArray(data?.fields) ? data.fields.filter(f => f.type === 'number') : [];
+      const numericFields = Array.isArray(data?.fields) ? data.fields.filter(isMeasureField) : [];
       const textFields = Array.isArray(data?.fields) ? data.fields.filter(f => f.type === 'string') : [];
       
       switch (categoryId) {
@@ -91,7 +94,7 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
 
       // Initialize analysis engine for this category
       const numericFieldsFiltered = data.fields.filter(field => {
-        if (field.type !== 'number') return false;
+        if (!isMeasureField(field)) return false;
         const values = field.value as number[];
         return values && values.length > 0 && values.every(v => typeof v === 'number' && !isNaN(v));
       });
@@ -168,42 +171,42 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
       name: 'Basic Statistics',
       icon: Calculator,
       description: 'Mean, median, mode, variance, standard deviation',
-      available: data.fields.some(f => f.type === 'number')
+      available: data.fields.some(isMeasureField)
     },
     {
       id: 'visualization',
       name: 'Visualizations',
       icon: BarChart,
       description: 'Charts, graphs, and interactive visualizations',
-      available: data.fields.some(f => f.type === 'number')
+      available: data.fields.some(isMeasureField)
     },
     {
       id: 'correlation',
       name: 'Correlation Analysis',
       icon: TrendingUp,
       description: 'Relationships between variables',
-      available: data.fields.filter(f => f.type === 'number').length >= 2
+      available: data.fields.filter(isMeasureField).length >= 2
     },
     {
       id: 'hypothesis',
       name: 'Hypothesis Testing',
       icon: TestTube,
       description: 'Statistical significance and confidence intervals',
-      available: data.fields.filter(f => f.type === 'number').length >= 2
+      available: data.fields.filter(isMeasureField).length >= 2
     },
     {
       id: 'regression',
       name: 'Regression Analysis',
       icon: LineChart,
       description: 'Linear and multiple regression models',
-      available: data.fields.filter(f => f.type === 'number').length >= 2
+      available: data.fields.filter(isMeasureField).length >= 2
     },
     {
       id: 'ml',
       name: 'Machine Learning',
       icon: Bot,
       description: 'Predictive modeling and pattern recognition',
-      available: data.fields.filter(f => f.type === 'number').length >= 2,
+      available: data.fields.filter(isMeasureField).length >= 2,
       component: MLAnalysisView
     },
     {
@@ -220,7 +223,7 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
       description: 'Temporal patterns and forecasting',
       available: data.fields.some(f => 
         f.type === 'date' || 
-        (f.type === 'number' && f.value.length >= 10)
+        (isMeasureField(f) && f.value.length >= 10)
       )
     },
     {
@@ -229,6 +232,7 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
       icon: Globe,
       description: 'Geographic and location-based analysis',
       available: data.fields.some(f => 
+        hasSemanticType(f, 'latitude', 'longitude', 'coordinates') ||
         f.name.toLowerCase().includes('location') ||
         f.name.toLowerCase().includes('lat') ||
         f.name.toLowerCase().includes('lon')
@@ -240,6 +244,7 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
       icon: LineChart,
       description: 'KPIs, ratios, and financial analysis',
       available: data.fields.some(f => 
+        hasSemanticType(f, 'currency') ||
         f.name.toLowerCase().includes('revenue') ||
         f.name.toLowerCase().includes('profit') ||
         f.name.toLowerCase().includes('sales') ||
@@ -252,6 +257,7 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
       icon: Network,
       description: 'Graph analysis and relationships',
       available: data.fields.filter(f => 
+        hasSemanticType(f, 'id') ||
         f.name.toLowerCase().includes('id') ||
         f.name.toLowerCase().includes('source') ||
         f.name.toLowerCase().includes('target')
@@ -269,8 +275,8 @@ function AnalysisCategories({ data }: AnalysisCategoriesProps) {
       id: 'technical',
       name: 'Technical Analysis',
       icon: Cpu,
-      description: 'System performance, data quality, and processing efficiency',
-      available: true,
+      description: 'Price indicators, candlestick charts and signal backtests',
+      available: data.fields.some(isMeasureField),
       component: TechnicalAnalysis
     },
     {
@@ -6,6 +6,7 @@ import { AIAnalyzer } from '@/utils/analysis/ai/analyzer';
 import { formatNumber } from '@/utils/analysis/formatting';
 import { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AnalysisDashboardProps {
   initialData?: {
     fields: DataField[];
@@ -315,7 +316,7 @@ function TrendIndicator({ trend }: { trend: 'up' | 'down' | 'neutral' }) {
 function generateComparisonInstructions(
   fields: DataField[]
 ): ComparisonInstruction[] {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   const instructions: ComparisonInstruction[] = [];
 
   numericFields.forEach(field => {
@@ -1,6 +1,7 @@
 import React from 'react';
 import { FileText, Database, Hash, AlignLeft } from 'lucide-react';
 import { DataField } from '@/types/data';
+import { isMeasureField } from '@/utils/file/columnTypes';
 // import type { DataField } from '@types/data';
 
 interface AnalysisOverviewProps {
@@ -10,7 +11,7 @@ interface AnalysisOverviewProps {
 }
 
 export function AnalysisOverview({ data }: AnalysisOverviewProps) {
-  const numericFields = data?.fields?.filter(f => f.type === 'number') || [];
+  const numericFields = data?.fields?.filter(isMeasureField) || [];
   const textFields = data?.fields?.filter(f => f.type === 'string') || [];
   const dateFields = data?.fields?.filter(f => f.type === 'date') || [];
   const totalRecords = data?.fields?.[0]?.value?.length || 0;
@@ -2,7 +2,7 @@ import React from 'react';
 import { 
   Brain, TrendingUp, BarChart2, FileText, PlayCircle, Save, AlertCircle, Clock, Lightbulb, AlertTriangle, Database, List
 } from 'lucide-react';
-import type { DataField } from '@/types/data';
+import type { DataField, DataSource } from '@/types/data';
 import type { AnalyzedData } from '@/types/analysis';
 // import { useNavigate } from 'react-router-dom';
 import { AnalysisCategories } from './AnalysisCategories';
@@ -39,9 +39,11 @@ import isEqual from 'lodash/isEqual';
 // @ts-ignore
 import AnalysisWorker from '../../workers/analysisWorker?worker&inline';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AnalysisSectionProps {
   data: {
     fields: DataField[];
+    source?: DataSource;
   };
   category: string | null;
   results: (AnalyzedData & {
@@ -123,7 +125,7 @@ function analyzeField(field: DataField): FieldAnalysis {
   const values = field.value as number[];
   
   // Handle non-numeric data
-  if (field.type !== 'number') {
+  if (!isMeasureField(field)) {
     const uniqueValues = new Set(values);
     const valueCounts = values.reduce((acc, val) => {
       acc[val] = (acc[val] || 0) + 1;
@@ -253,11 +255,11 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
     ...data,
     fields: data.fields.map(field => ({
       ...field,
-      value: field.type === 'number'
+      value: isMeasureField(field)
         ? Array.from(new Float64Array((field.value as number[] || []).slice(0, Math.min((field.value as number[] || []).length, 1000))))
         : (field.value || []).slice(0, Math.min((field.value || []).length, 1000))
     }))
-  }), [data]) as { fields: DataField[] };
+  }), [data]) as { fields: DataField[]; source?: DataSource };
   
   // All useCallback, useEffect, etc. hooks here
   const performHypothesisTests = React.useCallback(() => {
@@ -544,7 +546,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
   }
 
   console.log('Category:', category);
-  console.log('Numeric fields:', data?.fields?.filter(f => f.type === 'number')?.length || 0);
+  console.log('Numeric fields:', data?.fields?.filter(isMeasureField)?.length || 0);
 
   return (
     <AnalysisErrorBoundary>
@@ -618,7 +620,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
               <div className="space-y-4">
                 {data.fields.map((field, index) => {
                   const analysis = analyzeField(field);
-                  const isNumerical = field.type === 'number';
+                  const isNumerical = isMeasureField(field);
                   const hasOutliers = isNumerical && analysis.outliers.length > 0;
                   const hasSeasonality = isNumerical && analysis.seasonalityScore > 0.5;
                   
@@ -725,10 +727,10 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
                   Performance Highlights
                 </h4>
                 
-                {data?.fields?.filter(f => f.type === 'number' && analyzeField(f).trend === 'up' && analyzeField(f).trendStrength > 0.5)?.length > 0 ? (
+                {data?.fields?.filter(f => isMeasureField(f) && analyzeField(f).trend === 'up' && analyzeField(f).trendStrength > 0.5)?.length > 0 ? (
                   <ul className="space-y-3">
                     {data.fields
-                      ?.filter(f => f.type === 'number')
+                      ?.filter(isMeasureField)
                       ?.filter(f => {
                         const analysis = analyzeField(f);
                         return analysis.trend === 'up' && analysis.trendStrength > 0.5;
@@ -774,7 +776,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
                 
                 {data?.fields?.filter(f => {
                   const analysis = analyzeField(f);
-                  return f.type === 'number' && (
+                  return isMeasureField(f) && (
                     analysis.trend === 'down' || 
                     analysis.volatility > 30 || 
                     analysis.outliers.length > 0
@@ -782,7 +784,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
                 })?.length > 0 ? (
                   <ul className="space-y-3">
                     {data.fields
-                      ?.filter(f => f.type === 'number')
+                      ?.filter(isMeasureField)
                       ?.filter(f => {
                         const analysis = analyzeField(f);
                         return analysis.trend === 'down' || analysis.volatility > 30 || analysis.outliers.length > 0;
@@ -1023,7 +1025,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
                       </div>
                       <div className="grid grid-cols-1 gap-6">
                         {data?.fields
-                          ?.filter(f => f.type === 'number')
+                          ?.filter(isMeasureField)
                           ?.slice(0, 2)
                           ?.map((field, index) => (
                             <div key={index} className="bg-gray-50 p-4 rounded-lg">
@@ -1110,7 +1112,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
                       />
                       
                       {/* Main ML Analysis Flow */}
-                      {data?.fields?.filter(f => f.type === 'number')?.length >= 2 ? (
+                      {data?.fields?.filter(isMeasureField)?.length >= 2 ? (
                         <div className="space-y-8">
                           {/* Universal ML Analysis - Core processing */}
                           <UniversalMLAnalysisView 
@@ -1129,7 +1131,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
                                   analysis: {
                                     trends: []
                                   },
-                                  hasNumericData: data?.fields?.some(f => f.type === 'number') || false,
+                                  hasNumericData: data?.fields?.some(isMeasureField) || false,
                                   hasTextData: data?.fields?.some(f => f.type === 'string') || false,
                                   dataQuality: {
                                     completeness: 1,
@@ -1142,7 +1144,7 @@ export function AnalysisSection({ data, category, results, onResultsChange }: An
                                   },
                                   mlPredictions: { predictions: results.predictions },
                                   mlConfidence: results.evaluation.accuracy,
-                                  mlFeatures: data?.fields?.filter(f => f.type === 'number')?.map(f => f.name) || []
+                                  mlFeatures: data?.fields?.filter(isMeasureField)?.map(f => f.name) || []
                                 };
                                 onResultsChange(updatedResults);
                               }
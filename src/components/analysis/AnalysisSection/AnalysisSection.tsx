@@ -14,6 +14,7 @@ import {
 } from './components';
 import { BusinessMetrics } from '@/components/analysis/BusinessMetrics';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AnalysisSectionProps {
   data: {
     fields: DataField[];
@@ -48,7 +49,7 @@ export function AnalysisSection({ data, category, results: initialResults }: Ana
     );
   }
   
-  const numericFields = data.fields.filter(f => f.type === 'number');
+  const numericFields = data.fields.filter(isMeasureField);
 
   return (
     <div className="space-y-8">
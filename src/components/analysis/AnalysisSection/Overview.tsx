@@ -2,6 +2,7 @@ import { FileText, Database, Hash, AlignLeft } from 'lucide-react';
 import { DataField } from '../../../types';
 import { StatCard } from '../../ui/StatCard';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface OverviewProps {
   data: {
     fields: DataField[];
@@ -9,7 +10,7 @@ interface OverviewProps {
 }
 
 export function Overview({ data }: OverviewProps) {
-  const numericFields = data.fields.filter(f => f.type === 'number');
+  const numericFields = data.fields.filter(isMeasureField);
   const textFields = data.fields.filter(f => f.type === 'string');
   const dateFields = data.fields.filter(f => f.type === 'date');
 
@@ -3,6 +3,7 @@ import { DataField } from '@/types/data';
 import { FieldStats } from './FieldStats';
 import { HypothesisTesting } from '@/components/analysis/categories/inferential/HypothesisTesting';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface StatisticalAnalysisProps {
   data: {
     fields: DataField[];
@@ -10,7 +11,7 @@ interface StatisticalAnalysisProps {
 }
 
 export function StatisticalAnalysis({ data }: StatisticalAnalysisProps) {
-  const numericFields = data.fields.filter(f => f.type === 'number');
+  const numericFields = data.fields.filter(isMeasureField);
 
   if (numericFields.length === 0) {
     return null;
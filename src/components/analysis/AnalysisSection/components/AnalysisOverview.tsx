@@ -3,6 +3,7 @@ import { FileText, Database, Hash, AlignLeft } from 'lucide-react';
 import type { DataField } from '@/types/data';
 import type { AnalyzedData } from '@/types/analysis';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AnalysisOverviewProps {
   data: {
     fields: DataField[];
@@ -11,7 +12,7 @@ interface AnalysisOverviewProps {
 }
 
 export function AnalysisOverview({ data }: AnalysisOverviewProps) {
-  const numericFields = data.fields.filter(f => f.type === 'number');
+  const numericFields = data.fields.filter(isMeasureField);
   const textFields = data.fields.filter(f => f.type === 'string');
   const dateFields = data.fields.filter(f => f.type === 'date');
 
@@ -3,12 +3,13 @@ import type { DataField } from '@/types/data';
 import { calculateCorrelations } from '@/utils/analysis/statistics/correlation';
 import { AnalysisHeader } from './AnalysisHeader';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface CorrelationMatrixProps {
   fields: DataField[];
 }
 
 export function CorrelationMatrix({ fields }: CorrelationMatrixProps) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   
   if (numericFields.length < 2) {
     return null;
@@ -17,6 +17,7 @@ import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface StatisticalSummaryProps {
   data: {
     fields: DataField[];
@@ -32,7 +33,7 @@ export function StatisticalSummary({ data }: StatisticalSummaryProps) {
 
   // Filter numeric fields based on search and selection
   const numericFields = data.fields.filter(f => 
-    f.type === 'number' && 
+    isMeasureField(f) && 
     f.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
     (selectedFields.length === 0 || selectedFields.includes(f.name))
   );
@@ -45,7 +46,7 @@ export function StatisticalSummary({ data }: StatisticalSummaryProps) {
     );
   };
 
-  if (data.fields.filter(f => f.type === 'number').length === 0) {
+  if (data.fields.filter(isMeasureField).length === 0) {
     return (
       <div className="bg-white p-6 rounded-lg shadow-sm">
         <AnalysisHeader 
@@ -136,7 +137,7 @@ export function StatisticalSummary({ data }: StatisticalSummaryProps) {
             {selectedFields.length > 0 && (
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
                 {data.fields
-                  .filter(f => f.type === 'number')
+                  .filter(isMeasureField)
                   .map(field => (
                     <div key={field.name} className="flex items-center space-x-2">
                       <input
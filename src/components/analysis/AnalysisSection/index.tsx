@@ -9,6 +9,7 @@ import { ChartView } from '../../visualization';
 import { useAnalysis } from '../../../hooks/analysis/useAnalysis';
 import { AnalysisHeader, LoadingSpinner, ErrorMessage, ProgressBar } from './components';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AnalysisSectionProps {
   data: {
     fields: DataField[];
@@ -42,7 +43,7 @@ export function AnalysisSection({ data }: AnalysisSectionProps) {
     );
   }
   
-  const numericFields = Array.isArray(data?.fields) ? data.fields.filter(f => f.type === 'number') : [];
+  const numericFields = Array.isArray(data?.fields) ? data.fields.filter(isMeasureField) : [];
 
   return (
     <div className="space-y-8">
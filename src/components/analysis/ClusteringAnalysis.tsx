@@ -3,6 +3,7 @@ import { Network } from 'lucide-react';
 import { Scatter } from 'react-chartjs-2';
 import { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface ClusteringAnalysisProps {
   data: {
     fields: DataField[];
@@ -69,7 +70,7 @@ export function ClusteringAnalysis({ data }: ClusteringAnalysisProps) {
       setIsProcessing(true);
       setError(null);
 
-      const numericFields = (data?.fields || []).filter(f => f.type === 'number');
+      const numericFields = (data?.fields || []).filter(isMeasureField);
       if (numericFields.length < 2) {
         throw new Error('Clustering requires at least 2 numeric fields');
       }
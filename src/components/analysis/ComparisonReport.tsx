@@ -2,6 +2,7 @@ import { CheckCircle, XCircle, Brain } from 'lucide-react';
 import { DataField } from '@/types/data';
 import { calculateFieldStats } from '@/utils/analysis/statistics';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface ComparisonReportProps {
   data: {
     fields: DataField[];
@@ -9,7 +10,7 @@ interface ComparisonReportProps {
 }
 
 export function ComparisonReport({ data }: ComparisonReportProps) {
-  const numericFields = data?.fields?.filter(f => f.type === 'number') || [];
+  const numericFields = data?.fields?.filter(isMeasureField) || [];
   const insights = generateInsights(numericFields);
 
   return (
@@ -10,6 +10,7 @@ import {
 import { DataField } from '@/types/data';
 import { formatNumber } from '@/utils/analysis/formatting';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // Types
 interface RegressionResult {
   field: string;
@@ -239,7 +240,7 @@ export function ConsolidatedRegressionAnalysis({ data }: ConsolidatedRegressionA
   const [error, setError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  const numericFields = data?.fields?.filter(f => f.type === 'number') || [];
+  const numericFields = data?.fields?.filter(isMeasureField) || [];
 
   const handleRunAnalysis = async () => {
     try {
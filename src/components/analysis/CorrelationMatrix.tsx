@@ -25,6 +25,7 @@ import { calculateCorrelation } from '@/utils/analysis/statistics/correlation';
 import { calculateFieldStats } from '@/utils/analysis/statistics/calculations';
 import { formatNumber } from '@/utils/analysis/formatting';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // Register ChartJS components
 ChartJS.register(
   LinearScale,
@@ -59,7 +60,7 @@ export function CorrelationMatrix({ data, onFieldSelectionChange }: CorrelationM
   const [selectedPair, setSelectedPair] = useState<[string, string] | null>(null);
   
   const numericFields = useMemo(() => 
-    data?.fields?.filter(f => f.type === 'number') || [], 
+    data?.fields?.filter(isMeasureField) || [], 
     [data.fields]
   );
 
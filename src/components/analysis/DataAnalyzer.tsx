@@ -17,8 +17,10 @@ import TimeSeriesAnalysis from './TimeSeriesAnalysis/index';
 
 // Utils and Services
 import { DataCleaner } from '@/utils/analysis/preprocessing/cleaner';
+import type { CleaningReport } from '@/utils/analysis/preprocessing/cleaner';
 import { convertFieldsToTimeSeriesData } from '@/utils/analysis/timeSeries';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface DataAnalyzerProps {
   data: {
     fields: DataField[];
@@ -44,25 +46,13 @@ export default function DataAnalyzer({ data }: DataAnalyzerProps) {
   const { isAnalyzing, error: analysisError, results: analysisResults, analyze } = useAnalysis();
   
   // Local state
-  const [cleanedData, setCleanedData] = useState<{
-    fields: DataField[];
-    results: Array<{
-      field: DataField;
-      fixes: Array<{
-        type: string;
-        count: number;
-        description: string;
-      }>;
-      healthScore: number;
-    }>;
-    overallHealth: number;
-  } | null>(null);
+  const [cleanedData, setCleanedData] = useState<CleaningReport | null>(null);
 
   useEffect(() => {
     const processData = async () => {
       try {
         // Clean and preprocess data
-        const cleanedResult = await DataCleaner.cleanData(data.fields);
+        const cleanedResult = DataCleaner.clean(data.fields);
         setCleanedData(cleanedResult);
 
         // Trigger analysis through the hook
@@ -119,7 +109,7 @@ export default function DataAnalyzer({ data }: DataAnalyzerProps) {
         <DataCard
           icon={<BarChart2 className="w-5 h-5 text-indigo-600" />}
           title="Numeric Fields"
-          value={Array.isArray(analysisResults?.fields) ? analysisResults.fields.filter((f: DataField) => f.type === 'number').length : 0}
+          value={Array.isArray(analysisResults?.fields) ? analysisResults.fields.filter((f: DataField) => isMeasureField(f)).length : 0}
         />
         <DataCard
           icon={<Brain className="w-5 h-5 text-indigo-600" />}
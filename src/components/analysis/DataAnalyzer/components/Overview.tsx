@@ -3,6 +3,7 @@ import { FileText, Database, Hash, AlignLeft } from 'lucide-react';
 import { DataField } from '@/types/data';
 import { StatCard } from '@/components/ui/StatCard';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface OverviewProps {
   data: {
     fields: DataField[];
@@ -10,7 +11,7 @@ interface OverviewProps {
 }
 
 export const Overview: React.FC<OverviewProps> = ({ data }) => {
-  const numericFields = data.fields.filter(f => f.type === 'number');
+  const numericFields = data.fields.filter(isMeasureField);
   const textFields = data.fields.filter(f => f.type === 'string');
   const dateFields = data.fields.filter(f => f.type === 'date');
 
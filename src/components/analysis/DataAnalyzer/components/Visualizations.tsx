@@ -3,6 +3,7 @@ import { BarChart } from 'lucide-react';
 import { DataField } from '@/types/data';
 import { Chart } from '@/components/ui';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface VisualizationsProps {
   data: {
     fields: DataField[];
@@ -10,7 +11,7 @@ interface VisualizationsProps {
 }
 
 export const Visualizations: React.FC<VisualizationsProps> = ({ data }) => {
-  const numericFields = data?.fields?.filter(f => f.type === 'number') || [];
+  const numericFields = data?.fields?.filter(isMeasureField) || [];
 
   if (numericFields.length === 0) {
     return null;
@@ -2,13 +2,14 @@ import { FileText, AlertCircle } from 'lucide-react';
 import { DataField } from '@/types/data';
 import { inferAnalysisTypes } from '../../utils/analysis/dataTypeInference';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface DataSummaryProps {
   fields: DataField[];
 }
 
 export default function DataSummary({ fields }: DataSummaryProps) {
   const analysisTypes = inferAnalysisTypes(fields);
-  const numericFields = Array.isArray(fields) ? fields.filter(f => f.type === 'number') : [];
+  const numericFields = Array.isArray(fields) ? fields.filter(isMeasureField) : [];
   const textFields = Array.isArray(fields) ? fields.filter(f => f.type === 'string') : [];
   const dateFields = Array.isArray(fields) ? fields.filter(f => f.type === 'date') : [];
 
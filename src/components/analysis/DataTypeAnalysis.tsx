@@ -1,14 +1,17 @@
-import { Brain, CheckCircle, AlertCircle } from 'lucide-react';
-import { DataField } from '@/types/data';
-import { analyzeDataTypes } from '@/utils/analysis/dataTypeAnalysis';
+import { Brain, CheckCircle, AlertCircle, RotateCcw } from 'lucide-react';
+import type { DataField, SemanticType } from '@/types/data';
+import { SEMANTIC_TYPE_LABELS, inferColumnType } from '@/utils/file/columnTypes';
 
 interface DataTypeAnalysisViewProps {
   fields: DataField[];
+  // Omit to show the detected types read-only
+  onTypeChange?: (fieldName: string, semantic: SemanticType | null) => void;
+  disabled?: boolean;
 }
 
-export function DataTypeAnalysisView({ fields }: DataTypeAnalysisViewProps) {
-  const typeAnalysis = analyzeDataTypes(fields);
+const SEMANTIC_TYPES = Object.keys(SEMANTIC_TYPE_LABELS) as SemanticType[];
 
+export function DataTypeAnalysisView({ fields, onTypeChange, disabled }: DataTypeAnalysisViewProps) {
   return (
     <div className="bg-white p-6 rounded-lg shadow-sm">
       <div className="flex items-center gap-2 mb-6">
@@ -30,51 +33,82 @@ export function DataTypeAnalysisView({ fields }: DataTypeAnalysisViewProps) {
                 Confidence
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Pattern/Format
+                Analyzed as
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Examples
               </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Validation
-              </th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {Object.entries(typeAnalysis).map(([fieldName, analysis]) => (
-              <tr key={fieldName}>
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  {fieldName}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  <TypeBadge type={analysis.type} />
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  <ConfidenceIndicator confidence={analysis.confidence} />
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {analysis.pattern || analysis.validation?.format || '-'}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  <div className="flex flex-wrap gap-2">
-                    {analysis.examples.map((example, i) => (
-                      <span key={i} className="px-2 py-1 bg-gray-100 rounded text-xs">
-                        {example}
-                      </span>
-                    ))}
-                  </div>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  <div className="flex flex-wrap gap-1">
-                    {analysis.validation?.rules.map((rule, i) => (
-                      <span key={i} className="px-2 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs">
-                        {rule}
-                      </span>
-                    ))}
-                  </div>
-                </td>
-              </tr>
-            ))}
+            {fields.map(field => {
+              // Datasets stored before type detection existed have no columnType
+              const columnType = field.columnType ?? inferColumnType(field.value, field.name);
+              const candidates = new Map(
+                columnType.candidates.map(candidate => [candidate.type, candidate.confidence])
+              );
+
+              return (
+                <tr key={field.name}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {field.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {onTypeChange ? (
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={columnType.semantic}
+                          disabled={disabled}
+                          onChange={e => onTypeChange(field.name, e.target.value as SemanticType)}
+                          className="p-1 border border-gray-200 rounded text-sm"
+                        >
+                          {SEMANTIC_TYPES.map(type => (
+                            <option key={type} value={type}>
+                              {SEMANTIC_TYPE_LABELS[type]}
+                              {candidates.has(type) ? ` (${Math.round(candidates.get(type)! * 100)}%)` : ''}
+                            </option>
+                          ))}
+                        </select>
+                        {columnType.overridden && (
+                          <button
+                            onClick={() => onTypeChange(field.name, null)}
+                            disabled={disabled}
+                            className="text-gray-400 hover:text-indigo-600"
+                            title={`Restore detected type (${SEMANTIC_TYPE_LABELS[columnType.inferred]})`}
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <TypeBadge type={columnType.semantic} />
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {columnType.overridden ? (
+                      <span className="text-xs text-indigo-600">Set manually</span>
+                    ) : (
+                      <ConfidenceIndicator confidence={columnType.confidence} />
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {field.type}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex flex-wrap gap-2">
+                      {field.value
+                        .filter(value => value != null && value !== '')
+                        .slice(0, 3)
+                        .map((example, i) => (
+                          <span key={i} className="px-2 py-1 bg-gray-100 rounded text-xs">
+                            {example instanceof Date ? example.toISOString().slice(0, 10) : String(example)}
+                          </span>
+                        ))}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -82,26 +116,30 @@ export function DataTypeAnalysisView({ fields }: DataTypeAnalysisViewProps) {
   );
 }
 
-function TypeBadge({ type }: { type: string }) {
-  const colors: Record<string, string> = {
+function TypeBadge({ type }: { type: SemanticType }) {
+  const colors: Partial<Record<SemanticType, string>> = {
     integer: 'bg-blue-100 text-blue-800',
-    decimal: 'bg-green-100 text-green-800',
+    float: 'bg-green-100 text-green-800',
+    currency: 'bg-emerald-100 text-emerald-800',
+    percentage: 'bg-lime-100 text-lime-800',
     date: 'bg-purple-100 text-purple-800',
+    datetime: 'bg-purple-100 text-purple-800',
+    datetime_tz: 'bg-purple-100 text-purple-800',
     email: 'bg-yellow-100 text-yellow-800',
-    phone: 'bg-pink-100 text-pink-800',
     url: 'bg-indigo-100 text-indigo-800',
     boolean: 'bg-orange-100 text-orange-800',
-    id: 'bg-gray-100 text-gray-800',
-    string: 'bg-red-100 text-red-800',
-    year: 'bg-teal-100 text-teal-800',
-    unknown: 'bg-gray-100 text-gray-800'
+    categorical: 'bg-pink-100 text-pink-800',
+    latitude: 'bg-teal-100 text-teal-800',
+    longitude: 'bg-teal-100 text-teal-800',
+    coordinates: 'bg-teal-100 text-teal-800',
+    text: 'bg-red-100 text-red-800'
   };
 
   return (
     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-      colors[type] || colors.unknown
+      colors[type] || 'bg-gray-100 text-gray-800'
     }`}>
-      {type.charAt(0).toUpperCase() + type.slice(1)}
+      {SEMANTIC_TYPE_LABELS[type]}
     </span>
   );
 }
@@ -109,11 +147,11 @@ function TypeBadge({ type }: { type: string }) {
 function ConfidenceIndicator({ confidence }: { confidence: number }) {
   const Icon = confidence > 0.8 ? CheckCircle : AlertCircle;
   const color = confidence > 0.8 ? 'text-green-500' : 'text-amber-500';
-  
+
   return (
     <div className="flex items-center gap-1">
       <Icon className={`w-4 h-4 ${color}`} />
       <span>{(confidence * 100).toFixed()}%</span>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -14,6 +14,7 @@ import {
   Legend,
 } from 'chart.js';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // Register ChartJS components
 ChartJS.register(
   CategoryScale,
@@ -39,7 +40,7 @@ interface DataVisualizerProps {
 
 export default function DataVisualizer({ data }: DataVisualizerProps) {
   const [selectedFields, setSelectedFields] = useState<string[]>([]);
-  const numericFields = data?.fields?.filter(field => field.type === 'number') || [];
+  const numericFields = data?.fields?.filter(isMeasureField) || [];
   
   const toggleField = (fieldName: string) => {
     setSelectedFields(prev => 
@@ -4,6 +4,7 @@ import { Line, Bar } from 'react-chartjs-2';
 import { DataField } from '@/types/data';
 import { formatNumber } from '@/utils/analysis/formatting';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface LiveDashboardProps {
   data: {
     fields: DataField[];
@@ -59,7 +60,7 @@ export function LiveDashboard({ data, refreshInterval = 5000, onRefresh }: LiveD
     }
   };
 
-  const numericFields = data?.fields?.filter(f => f.type === 'number') as { name: string; type: 'number'; value: number[] }[] || [];
+  const numericFields = data?.fields?.filter(isMeasureField) as { name: string; type: 'number'; value: number[] }[] || [];
 
   return (
     <div className="space-y-6">
@@ -5,6 +5,7 @@ import { DataField } from '@/types/data';
 import { calculateFieldStats } from '@/utils/analysis/statistics/calculations';
 import { determineTrend } from '@/utils/analysis/statistics/trends';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface MarketComparisonProps {
   data: {
     fields: DataField[];
@@ -44,7 +45,7 @@ export function MarketComparison({ data }: MarketComparisonProps) {
         
         // Generate realistic market data based on field statistics
         const marketMetrics = data?.fields
-          ?.filter(f => f.type === 'number')
+          ?.filter(isMeasureField)
           .map(field => {
             const values = field.value as number[];
             const stats = calculateFieldStats(field);
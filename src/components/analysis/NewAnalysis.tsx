@@ -5,7 +5,7 @@ import { storeAnalysisData } from '@/utils/storage/db';
 
 export function NewAnalysis() {
   const navigate = useNavigate();
-  const { handleFileUpload, isUploading, error } = useFileUpload(async (data) => {
+  const { handleFileUpload, handleSheetUpload, isUploading, error } = useFileUpload(async (data) => {
     await storeAnalysisData(data);
     navigate('/analysis');
   });
@@ -16,6 +16,7 @@ export function NewAnalysis() {
       <div className="bg-white p-8 rounded-xl shadow-sm">
         <FileUpload
           onFileUpload={handleFileUpload}
+          onSheetsSelected={handleSheetUpload}
           isProcessing={isUploading}
           error={error}
         />
@@ -2,6 +2,7 @@ import { FileText, Database, Hash, AlignLeft } from 'lucide-react';
 import { DataField } from '../../types';
 import { StatCard } from '../ui/StatCard';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface OverviewProps {
   data: {
     fields: DataField[];
@@ -11,7 +12,7 @@ interface OverviewProps {
 export function Overview({ data }: OverviewProps) {
   // Add null checks to prevent filter errors
   const fields = data?.fields || [];
-  const numericFields = Array.isArray(fields) ? fields.filter(f => f.type === 'number') : [];
+  const numericFields = Array.isArray(fields) ? fields.filter(isMeasureField) : [];
   const textFields = Array.isArray(fields) ? fields.filter(f => f.type === 'string') : [];
   const dateFields = Array.isArray(fields) ? fields.filter(f => f.type === 'date') : [];
 
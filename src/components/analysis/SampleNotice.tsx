@@ -0,0 +1,35 @@
+import { Info } from 'lucide-react';
+import type { DataSource } from '@/types/data';
+
+interface SampleNoticeProps {
+  source?: DataSource;
+}
+
+/**
+ * Tells the user that an analysis runs on the in-memory sample of a
+ * dataset too large to load, and which columns lost values on import.
+ * Renders nothing for datasets held in memory in full.
+ */
+export function SampleNotice({ source }: SampleNoticeProps) {
+  if (!source) return null;
+
+  const failures = Object.entries(source.castFailures ?? {});
+
+  return (
+    <div className="flex items-start gap-2 p-3 rounded-lg border border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+      <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <div>
+        <p>
+          Sampled {source.sampleSize.toLocaleString()} of {source.rowCount.toLocaleString()} rows.
+          Results below are computed on the sample; column statistics and SQL queries cover every row.
+        </p>
+        {failures.length > 0 && (
+          <p className="mt-1">
+            Values that did not match their column type were loaded as empty:{' '}
+            {failures.map(([column, count]) => `${column} (${count.toLocaleString()})`).join(', ')}.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { SimulationEngine } from '@/utils/analysis/simulation/engine';
 import { formatNumber } from '@/utils/analysis/formatting';
 import { SimulationResult, SimulationScenario, SensitivityAnalysis } from '@/utils/analysis/simulation/types';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface ScenarioSimulationProps {
   data: {
     fields: DataField[];
@@ -32,7 +33,7 @@ export function ScenarioSimulation({ data, config }: ScenarioSimulationProps) {
         throw new Error('No data available for simulation');
       }
 
-      const numericFields = data.fields.filter(f => f.type === 'number');
+      const numericFields = data.fields.filter(isMeasureField);
       if (numericFields.length === 0) {
         throw new Error('Simulation requires numeric fields');
       }
@@ -4,6 +4,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { HypothesisAnalysis } from '../categories/inferential/HypothesisAnalysis';
 import { TextAnalysisContainer } from '../categories/text/TextAnalysisContainer';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface StatisticalAnalysisProps {
   data: {
     fields: DataField[];
@@ -17,7 +18,7 @@ export function StatisticalAnalysis({ data }: StatisticalAnalysisProps) {
   // Debug logging
   console.log('StatisticalAnalysis - All fields:', fields);
   
-  const numericFields = Array.isArray(fields) ? fields.filter(f => f.type === 'number') : [];
+  const numericFields = Array.isArray(fields) ? fields.filter(isMeasureField) : [];
   const textFields = Array.isArray(fields) ? fields.filter(f => f.type === 'string') : [];
   
   console.log('StatisticalAnalysis - Numeric fields:', numericFields);
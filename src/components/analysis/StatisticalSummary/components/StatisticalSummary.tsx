@@ -3,6 +3,7 @@ import type { DataField } from '@/types/data';
 import { StatsSummary } from './StatsSummary';
 import { StatsGrid } from './StatsGrid';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface StatisticalSummaryProps {
   data: {
     fields: DataField[];
@@ -16,7 +17,7 @@ interface StatisticalSummaryProps {
 }
 
 export function StatisticalSummary({ data, statistics }: StatisticalSummaryProps) {
-  const numericFields = data.fields.filter(f => f.type === 'number');
+  const numericFields = data.fields.filter(isMeasureField);
 
   if (numericFields.length === 0) {
     return null;
@@ -1,6 +1,7 @@
 import { DataField } from '@/types/data';
 import { useState, useMemo } from 'react';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface Correlation {
   field1: string;
   field2: string;
@@ -25,7 +26,7 @@ interface StatsSummaryProps {
 
 // ----------- Helpers ----------- //
 function useNumericFields(fields: DataField[]): DataField[] {
-  return useMemo(() => fields.filter(f => f.type === 'number'), [fields]);
+  return useMemo(() => fields.filter(isMeasureField), [fields]);
 }
 
 function calculateStats(values: number[]): StatMetrics | null {
@@ -59,7 +60,7 @@ const StatRow: React.FC<{ label: string; value: string }> = ({ label, value }) =
 const StatsGrid: React.FC<{ fields: DataField[] }> = ({ fields }) => (
   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
     {fields.map(field => {
-      if (field.type !== 'number') return null;
+      if (!isMeasureField(field)) return null;
       const vals = (field.value as number[]).filter(v => !isNaN(v));
       const stats = calculateStats(vals);
       if (!stats) return null;
@@ -93,9 +94,9 @@ const FieldStatsTable: React.FC<{ fields: DataField[] }> = ({ fields }) => {
         </thead>
         <tbody className="bg-white divide-y divide-gray-100">
           {fields.map((field, i) => {
-            const vals = field.type === 'number' ? (field.value as number[]).filter(v => !isNaN(v)) : [];
+            const vals = isMeasureField(field) ? (field.value as number[]).filter(v => !isNaN(v)) : [];
             const stats = calculateStats(vals);
-            const missing = field.type === 'number'
+            const missing = isMeasureField(field)
               ? field.value.length - vals.length
               : (field.value as string[]).filter(v => !v || v.trim() === '').length;
             return (
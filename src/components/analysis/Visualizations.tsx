@@ -13,6 +13,7 @@ import {
   Legend,
 } from 'chart.js';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 ChartJS.register(
   CategoryScale,
   LinearScale,
@@ -32,7 +33,7 @@ interface VisualizationsProps {
 
 export function Visualizations({ data }: VisualizationsProps) {
   const fields = data?.fields || [];
-  const numericFields = Array.isArray(fields) ? fields.filter(f => f.type === 'number') : [];
+  const numericFields = Array.isArray(fields) ? fields.filter(isMeasureField) : [];
 
   if (numericFields.length === 0) {
     return null;
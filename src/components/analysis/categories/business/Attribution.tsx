@@ -1,436 +1,228 @@
-import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-
-interface DataField {
-  name: string;
-  type: string;
-  value: number[] | string[] | any[];
-}
-
+import { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card } from '@/components/ui/card';
+import type { DataField } from '@/types/data';
+import {
+  ATTRIBUTION_MODELS,
+  compareAttributionModels,
+  type AttributionModel
+} from '@/utils/analysis/business/attribution';
+
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AttributionProps {
   data: {
     fields: DataField[];
   };
 }
 
-// Enhanced statistical functions
-const calculateMean = (values: number[]): number => {
-  if (values.length === 0) return 0;
-  return values.reduce((sum, val) => sum + val, 0) / values.length;
-};
-
-const calculateVariance = (values: number[]): number => {
-  if (values.length < 2) return 0;
-  const mean = calculateMean(values);
-  const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
-  return squaredDiffs.reduce((sum, val) => sum + val, 0) / (values.length - 1);
-};
-
-const calculateStandardDeviation = (values: number[]): number => {
-  return Math.sqrt(calculateVariance(values));
+const MODEL_COLORS: Record<AttributionModel, string> = {
+  firstTouch: '#8884d8',
+  lastTouch: '#82ca9d',
+  linear: '#ffc658',
+  timeDecay: '#ff7c7c',
+  positionBased: '#8dd1e1',
+  markov: '#d084d0',
+  shapley: '#ffb347'
 };
 
-const calculateCoefficientOfVariation = (values: number[]): number => {
-  if (values.length === 0) return 0;
-  const mean = calculateMean(values);
-  if (Math.abs(mean) < 1e-10) return 0; // Handle near-zero means
-  const stdDev = calculateStandardDeviation(values);
-  return stdDev / Math.abs(mean);
-};
+function guessField(fields: DataField[], pattern: RegExp, type?: DataField['type']): string {
+  return fields.find(field => pattern.test(field.name) && (!type || field.type === type))?.name
+    ?? fields.find(field => !type || field.type === type)?.name
+    ?? '';
+}
 
-// Calculate correlation coefficient
-const calculateCorrelation = (x: number[], y: number[]): number => {
-  if (x.length !== y.length || x.length < 2) return 0;
-  
-  const meanX = calculateMean(x);
-  const meanY = calculateMean(y);
-  
-  let numerator = 0;
-  let sumSqX = 0;
-  let sumSqY = 0;
-  
-  for (let i = 0; i < x.length; i++) {
-    const diffX = x[i] - meanX;
-    const diffY = y[i] - meanY;
-    numerator += diffX * diffY;
-    sumSqX += diffX * diffX;
-    sumSqY += diffY * diffY;
-  }
-  
-  const denominator = Math.sqrt(sumSqX * sumSqY);
-  return denominator === 0 ? 0 : numerator / denominator;
-};
+const formatRevenue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
 
-// Calculate information gain (entropy-based measure)
-const calculateInformationGain = (values: number[]): number => {
-  if (values.length === 0) return 0;
-  
-  // Discretize continuous values into bins for entropy calculation
-  const numBins = Math.min(10, Math.max(3, Math.floor(Math.sqrt(values.length))));
-  const min = Math.min(...values);
-  const max = Math.max(...values);
-  const binWidth = (max - min) / numBins;
-  
-  if (binWidth === 0) return 0;
-  
-  const bins = new Array(numBins).fill(0);
-  values.forEach(val => {
-    const binIndex = Math.min(numBins - 1, Math.floor((val - min) / binWidth));
-    bins[binIndex]++;
-  });
-  
-  // Calculate entropy
-  let entropy = 0;
-  const total = values.length;
-  bins.forEach(count => {
-    if (count > 0) {
-      const probability = count / total;
-      entropy -= probability * Math.log2(probability);
+export default function Attribution({ data }: AttributionProps) {
+  const fields = data.fields;
+  const numericFields = fields.filter(isMeasureField);
+
+  const [userField, setUserField] = useState(() => guessField(fields, /user|customer|visitor|client|id/i, 'string'));
+  const [channelField, setChannelField] = useState(() => guessField(fields, /channel|source|medium|campaign|touch/i, 'string'));
+  const [timeField, setTimeField] = useState(() =>
+    fields.find(field => field.type === 'date')?.name ?? guessField(fields, /time|date/i));
+  const [convertedField, setConvertedField] = useState(() => guessField(fields, /convert|purchase|order|goal/i));
+  const [revenueField, setRevenueField] = useState(() =>
+    numericFields.find(field => /revenue|amount|value|price|total/i.test(field.name))?.name ?? '');
+  const [halfLifeDays, setHalfLifeDays] = useState(7);
+  const [view, setView] = useState<'revenue' | 'share'>('revenue');
+
+  const result = useMemo(() => {
+    if (!userField || !channelField || !timeField || !convertedField) {
+      return { error: 'Choose user, channel, timestamp and converted columns' };
     }
-  });
-  
-  return entropy;
-};
-
-// Calculate feature importance using multiple methods
-const calculateFeatureImportance = (field: DataField, allFields: DataField[]): number => {
-  const values = field.value as number[];
-  const numericFields = allFields.filter(f => f.type === 'number' && f.value && f.value.length > 0);
-  
-  if (numericFields.length <= 1) return 1;
-  
-  // 1. Variance-based importance
-  const variance = calculateVariance(values);
-  const maxVariance = Math.max(...numericFields.map(f => calculateVariance(f.value as number[])));
-  const varianceScore = maxVariance > 0 ? variance / maxVariance : 0;
-  
-  // 2. Correlation-based importance (average absolute correlation with other features)
-  let totalCorrelation = 0;
-  let correlationCount = 0;
-  
-  numericFields.forEach(otherField => {
-    if (otherField.name !== field.name) {
-      const correlation = Math.abs(calculateCorrelation(values, otherField.value as number[]));
-      totalCorrelation += correlation;
-      correlationCount++;
+    try {
+      return {
+        attribution: compareAttributionModels(fields, {
+          userField,
+          channelField,
+          timeField,
+          convertedField,
+          revenueField: revenueField || undefined
+        }, { halfLifeDays })
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to compute attribution' };
     }
-  });
-  
-  const avgCorrelation = correlationCount > 0 ? totalCorrelation / correlationCount : 0;
-  
-  // 3. Information gain
-  const infoGain = calculateInformationGain(values);
-  const maxInfoGain = Math.max(...numericFields.map(f => calculateInformationGain(f.value as number[])));
-  const infoGainScore = maxInfoGain > 0 ? infoGain / maxInfoGain : 0;
-  
-  // 4. Range-based importance (normalized)
-  const range = Math.max(...values) - Math.min(...values);
-  const maxRange = Math.max(...numericFields.map(f => {
-    const vals = f.value as number[];
-    return Math.max(...vals) - Math.min(...vals);
-  }));
-  const rangeScore = maxRange > 0 ? range / maxRange : 0;
-  
-  // Weighted combination of all importance measures
-  return (
-    varianceScore * 0.3 +        // 30% weight to variance
-    avgCorrelation * 0.25 +      // 25% weight to correlation
-    infoGainScore * 0.25 +       // 25% weight to information gain
-    rangeScore * 0.2             // 20% weight to range
-  );
-};
-
-// Calculate Shapley-like attribution values
-const calculateShapleyAttribution = (fields: DataField[]): number[] => {
-  const numericFields = fields.filter(f => f.type === 'number' && f.value && f.value.length > 0);
-  
-  if (numericFields.length === 0) return [];
-  
-  const attributions = numericFields.map(field => {
-    const importance = calculateFeatureImportance(field, numericFields);
-    return importance;
-  });
-  
-  // Normalize to sum to 100%
-  const total = attributions.reduce((sum, attr) => sum + attr, 0);
-  return total > 0 ? attributions.map(attr => (attr / total) * 100) : attributions;
-};
+  }, [fields, userField, channelField, timeField, convertedField, revenueField, halfLifeDays]);
 
-// Enhanced attribution metrics calculation
-const calculateAttributionMetrics = (fields: DataField[]) => {
-  const numericFields = fields.filter(field => field.type === 'number' && field.value && field.value.length > 0);
-  
-  if (numericFields.length === 0) {
-    return [];
-  }
+  const attribution = result.attribution;
+  const models = ATTRIBUTION_MODELS.filter(model => attribution?.models[model.id]);
 
-  const shapleyAttributions = calculateShapleyAttribution(numericFields);
+  const credited = (model: AttributionModel, channel: string): number => {
+    const value = attribution?.models[model]?.[channel] ?? 0;
+    if (view === 'revenue') return value;
+    return attribution && attribution.revenue !== 0 ? (value / attribution.revenue) * 100 : 0;
+  };
 
-  return numericFields.map((field, index) => {
-    const values = field.value as number[];
-    
-    // Basic statistics
-    const mean = calculateMean(values);
-    const variance = calculateVariance(values);
-    const stdDev = calculateStandardDeviation(values);
-    const coefficientOfVariation = calculateCoefficientOfVariation(values);
-    const range = Math.max(...values) - Math.min(...values);
-    const min = Math.min(...values);
-    const max = Math.max(...values);
-    
-    // Advanced metrics
-    const infoGain = calculateInformationGain(values);
-    const importance = calculateFeatureImportance(field, numericFields);
-    const attribution = shapleyAttributions[index] || 0;
-    
-    // Calculate skewness
-    const skewness = values.length > 2 && stdDev > 0 ? 
-      values.reduce((sum, val) => sum + Math.pow((val - mean) / stdDev, 3), 0) / values.length : 0;
-    
-    // Calculate kurtosis
-    const kurtosis = values.length > 3 && stdDev > 0 ? 
-      (values.reduce((sum, val) => sum + Math.pow((val - mean) / stdDev, 4), 0) / values.length) - 3 : 0;
-    
-    // Calculate correlation with other fields
-    let totalCorrelation = 0;
-    let correlationCount = 0;
-    let maxCorrelation = 0;
-    
-    numericFields.forEach(otherField => {
-      if (otherField.name !== field.name) {
-        const correlation = calculateCorrelation(values, otherField.value as number[]);
-        const absCorrelation = Math.abs(correlation);
-        totalCorrelation += absCorrelation;
-        maxCorrelation = Math.max(maxCorrelation, absCorrelation);
-        correlationCount++;
-      }
+  const chartData = attribution?.channels.map(channel => {
+    const point: Record<string, string | number> = { channel };
+    models.forEach(model => {
+      point[model.id] = credited(model.id, channel);
     });
-    
-    const avgCorrelation = correlationCount > 0 ? totalCorrelation / correlationCount : 0;
-    
-    return {
-      name: field.name,
-      attribution: Math.max(0, attribution),
-      importance: Math.max(0, importance * 100), // Scale to 0-100
-      variance: variance,
-      standardDeviation: stdDev,
-      coefficientOfVariation: coefficientOfVariation,
-      mean: mean,
-      range: range,
-      min: min,
-      max: max,
-      avgCorrelation: avgCorrelation,
-      maxCorrelation: maxCorrelation,
-      informationGain: infoGain,
-      skewness: skewness,
-      kurtosis: kurtosis,
-      sampleSize: values.length
-    };
-  });
-};
-
-const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1', '#d084d0', '#ffb347', '#87ceeb'];
-
-// Simple Card component
-const Card = ({ children, className = '' }: { children: React.ReactNode; className?: string }) => (
-  <div className={`bg-white rounded-lg border border-gray-200 shadow-sm ${className}`}>
-    {children}
-  </div>
-);
-
-// Simple Table components
-const Table = ({ children, className = '' }: { children: React.ReactNode; className?: string }) => (
-  <div className={`w-full overflow-auto ${className}`}>
-    <table className="w-full border-collapse border border-gray-300">
-      {children}
-    </table>
-  </div>
-);
-
-const TableHeader = ({ children }: { children: React.ReactNode }) => (
-  <thead className="bg-gray-50">{children}</thead>
-);
-
-const TableBody = ({ children }: { children: React.ReactNode }) => (
-  <tbody>{children}</tbody>
-);
+    return point;
+  }) ?? [];
+
+  const formatValue = (value: number) =>
+    view === 'revenue' ? formatRevenue(value) : `${value.toFixed(1)}%`;
+
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
 
-const TableRow = ({ children }: { children: React.ReactNode }) => (
-  <tr className="border-b border-gray-200 hover:bg-gray-50">{children}</tr>
-);
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-black">Multi-Touch Attribution</h3>
+        <div className="flex rounded border border-gray-200 overflow-hidden text-sm">
+          {(['revenue', 'share'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 ${view === option ? 'bg-blue-600 text-white' : 'text-gray-600'}`}
+            >
+              {option === 'revenue' ? 'Revenue' : '% of total'}
+            </button>
+          ))}
+        </div>
+      </div>
 
-const TableHead = ({ children, className = '' }: { children: React.ReactNode; className?: string }) => (
-  <th className={`px-4 py-2 text-left font-medium text-gray-700 border-b border-gray-300 ${className}`}>
-    {children}
-  </th>
-);
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {select('User ID', userField, setUserField, fields)}
+        {select('Channel', channelField, setChannelField, fields)}
+        {select('Timestamp', timeField, setTimeField, fields)}
+        {select('Converted', convertedField, setConvertedField, fields)}
+        {select('Revenue', revenueField, setRevenueField, numericFields, 'Count conversions')}
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Time-decay half-life (days)
+          <input
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={halfLifeDays}
+            onChange={e => setHalfLifeDays(Number(e.target.value))}
+            className="p-2 border border-gray-200 rounded text-black"
+          />
+        </label>
+      </div>
 
-const TableCell = ({ children, className = '' }: { children: React.ReactNode; className?: string }) => (
-  <td className={`px-4 py-2 border-b border-gray-200 ${className}`}>
-    {children}
-  </td>
-);
+      {result.error && <p className="text-sm text-red-600">{result.error}</p>}
 
-export default function Attribution({ data }: AttributionProps) {
-  const fieldCount = data.fields.length;
-  const metrics = calculateAttributionMetrics(data.fields);
-  
-  // Sort by attribution for display
-  const sortedByAttribution = [...metrics].sort((a, b) => b.attribution - a.attribution);
-  const sortedByImportance = [...metrics].sort((a, b) => b.importance - a.importance);
-  
-  // Prepare pie chart data
-  const pieData = sortedByAttribution.slice(0, 8).map((metric, index) => ({
-    name: metric.name,
-    value: metric.attribution,
-    color: COLORS[index % COLORS.length]
-  }));
-  
-  return (
-    <Card className="p-6">
-      <h3 className="text-lg font-semibold text-black mb-4">Enhanced Attribution Analysis</h3>
-      
-      {fieldCount > 0 && metrics.length > 0 ? (
-        <div className="space-y-6">
-          {/* Summary Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-black">
-            <Card className="p-4">
-              <h4 className="text-sm font-medium text-gray-500">Top Contributors</h4>
-              <p className="text-sm font-bold text-black mt-2">
-                {sortedByAttribution.slice(0, 2).map(m => m.name).join(', ')}
-              </p>
-            </Card>
-            <Card className="p-4">
-              <h4 className="text-sm font-medium text-gray-500">Highest Attribution</h4>
-              <p className="text-xl font-bold text-black mt-2">
-                {Math.round(Math.max(...metrics.map(m => m.attribution)))}%
-              </p>
-            </Card>
-            <Card className="p-4">
-              <h4 className="text-sm font-medium text-gray-500">Avg. Correlation</h4>
-              <p className="text-xl font-bold text-black mt-2">
-                {(metrics.reduce((sum, m) => sum + m.avgCorrelation, 0) / metrics.length).toFixed(2)}
-              </p>
-            </Card>
-            <Card className="p-4">
-              <h4 className="text-sm font-medium text-gray-500">Features Analyzed</h4>
-              <p className="text-xl font-bold text-black mt-2">
-                {metrics.length}
-              </p>
-            </Card>
-          </div>
-          
-          {/* Visualization Row */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* Attribution Bar Chart */}
-            <div className="h-80">
-              <h4 className="text-md font-medium text-black mb-2">Feature Attribution</h4>
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={sortedByAttribution.slice(0, 6)}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
-                  <YAxis />
-                  <Tooltip formatter={(value, name) => [`${Number(value).toFixed(2)}${String(name).includes('Attribution') ? '%' : ''}`, name]} />
-                  <Legend />
-                  <Bar dataKey="attribution" fill="#8884d8" name="Attribution (%)" />
-                  <Bar dataKey="importance" fill="#82ca9d" name="Importance Score" />
-                </BarChart>
-              </ResponsiveContainer>
+      {attribution && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="p-4 bg-gray-50 rounded">
+              <p className="text-sm text-gray-500">Journeys</p>
+              <p className="text-xl font-bold text-black">{attribution.journeys.toLocaleString()}</p>
             </div>
-            
-            {/* Attribution Pie Chart */}
-            <div className="h-80">
-              <h4 className="text-md font-medium text-black mb-2">Attribution Distribution</h4>
-              <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie
-                    data={pieData}
-                    cx="50%"
-                    cy="50%"
-                    labelLine={false}
-                    label={({ name, value }) => `${name}: ${value.toFixed(1)}%`}
-                    outerRadius={80}
-                    fill="#8884d8"
-                    dataKey="value"
-                  >
-                    {pieData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.color} />
-                    ))}
-                  </Pie>
-                  <Tooltip formatter={(value) => [`${Number(value).toFixed(2)}%`, 'Attribution']} />
-                </PieChart>
-              </ResponsiveContainer>
+            <div className="p-4 bg-gray-50 rounded">
+              <p className="text-sm text-gray-500">Conversions</p>
+              <p className="text-xl font-bold text-black">{attribution.conversions.toLocaleString()}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded">
+              <p className="text-sm text-gray-500">{revenueField ? 'Revenue' : 'Credited conversions'}</p>
+              <p className="text-xl font-bold text-black">{formatRevenue(attribution.revenue)}</p>
             </div>
+            <div className="p-4 bg-gray-50 rounded">
+              <p className="text-sm text-gray-500">Channels</p>
+              <p className="text-xl font-bold text-black">{attribution.channels.length}</p>
+            </div>
+          </div>
+
+          {attribution.warnings.map(warning => (
+            <p key={warning} className="text-sm text-amber-600">{warning}</p>
+          ))}
+
+          <div className="h-80">
+            <h4 className="font-medium text-black mb-2">Credited {revenueField ? 'revenue' : 'conversions'} by channel</h4>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="channel" />
+                <YAxis />
+                <Tooltip formatter={(value) => formatValue(Number(value))} />
+                <Legend />
+                {models.map(model => (
+                  <Bar key={model.id} dataKey={model.id} name={model.label} fill={MODEL_COLORS[model.id]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
           </div>
-          
-          {/* Detailed Statistics Table */}
-          <div>
-            <h4 className="text-md font-medium text-black mb-2">Comprehensive Attribution Metrics</h4>
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Field</TableHead>
-                    <TableHead className="text-right">Attribution</TableHead>
-                    <TableHead className="text-right">Importance</TableHead>
-                    <TableHead className="text-right">Mean</TableHead>
-                    <TableHead className="text-right">Std Dev</TableHead>
-                    <TableHead className="text-right">CV</TableHead>
-                    <TableHead className="text-right">Avg Corr</TableHead>
-                    <TableHead className="text-right">Info Gain</TableHead>
-                    <TableHead className="text-right">Skewness</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {sortedByAttribution.map((metric) => (
-                    <TableRow key={metric.name}>
-                      <TableCell className="font-medium text-black">{metric.name}</TableCell>
-                      <TableCell className="text-right text-black font-semibold">{metric.attribution.toFixed(1)}%</TableCell>
-                      <TableCell className="text-right text-black">{metric.importance.toFixed(1)}</TableCell>
-                      <TableCell className="text-right text-black">{metric.mean.toFixed(2)}</TableCell>
-                      <TableCell className="text-right text-black">{metric.standardDeviation.toFixed(2)}</TableCell>
-                      <TableCell className="text-right text-black">{metric.coefficientOfVariation.toFixed(2)}</TableCell>
-                      <TableCell className="text-right text-black">{metric.avgCorrelation.toFixed(2)}</TableCell>
-                      <TableCell className="text-right text-black">{metric.informationGain.toFixed(2)}</TableCell>
-                      <TableCell className="text-right text-black">{metric.skewness.toFixed(2)}</TableCell>
-                    </TableRow>
+
+          <div className="overflow-x-auto pt-6">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="px-3 py-2 text-left">Channel</th>
+                  {models.map(model => (
+                    <th key={model.id} className="px-3 py-2 text-right">{model.label}</th>
                   ))}
-                </TableBody>
-              </Table>
-            </div>
+                </tr>
+              </thead>
+              <tbody>
+                {attribution.channels.map(channel => (
+                  <tr key={channel} className="border-b border-gray-100">
+                    <td className="px-3 py-2 text-black font-medium">{channel}</td>
+                    {models.map(model => (
+                      <td key={model.id} className="px-3 py-2 text-right text-black">
+                        {formatValue(credited(model.id, channel))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
-          
-          {/* Insights Section */}
-          <Card className="p-4 bg-blue-50">
-            <h4 className="text-md font-medium text-black mb-2">Key Insights</h4>
-            <div className="space-y-2 text-sm text-gray-700">
-              <p>• <strong>Primary Driver:</strong> {sortedByAttribution[0]?.name} contributes {sortedByAttribution[0]?.attribution.toFixed(1)}% to the total variation</p>
-              <p>• <strong>Most Variable:</strong> {sortedByImportance[0]?.name} shows the highest importance score ({sortedByImportance[0]?.importance.toFixed(1)})</p>
-              <p>• <strong>Correlation Pattern:</strong> Average inter-feature correlation is {(metrics.reduce((sum, m) => sum + m.avgCorrelation, 0) / metrics.length).toFixed(2)}</p>
-              {metrics.some(m => Math.abs(m.skewness) > 1) && (
-                <p>• <strong>Distribution Alert:</strong> Some features show significant skewness, consider transformation</p>
-              )}
-            </div>
-          </Card>
-        </div>
-      ) : (
-        <div className="text-center py-8">
-          <p className="text-gray-600 mb-2">
-            {fieldCount === 0 
-              ? "No data fields available for attribution analysis." 
-              : "No numeric fields available for attribution analysis."
-            }
-          </p>
-          <p className="text-sm text-gray-500">
-            Please ensure your dataset contains numeric columns for comprehensive analysis.
-          </p>
-        </div>
+        </>
       )}
-      
-      <div className="mt-4 p-3 bg-gray-50 rounded text-xs text-gray-600">
-        <p><strong>Methodology:</strong> Attribution calculated using Shapley-inspired values combining variance, correlation, information gain, and range measures. 
-        Importance scores reflect multi-dimensional feature significance including statistical distribution properties.</p>
+
+      <div className="p-3 bg-gray-50 rounded text-xs text-gray-600">
+        <p>
+          <strong>Methodology:</strong> Each user's touchpoints are ordered by time and split into journeys at every
+          conversion. Rule-based models spread a conversion's revenue over its touchpoints; position based gives 40% to
+          the first and last touch. The Markov model credits channels by their removal effect on the conversion
+          probability, and Shapley by their average marginal contribution to revenue per journey.
+        </p>
       </div>
     </Card>
   );
-} 
\ No newline at end of file
+}
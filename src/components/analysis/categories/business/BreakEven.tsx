@@ -20,6 +20,7 @@ import {
   Cell
 } from 'recharts';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface BreakEvenProps {
   data: {
     fields: DataField[];
@@ -138,7 +139,7 @@ const analyzeDataPatterns = (numericFields: DataField[]) => {
 // Function to analyze data and extract business parameters
 const analyzeDataForBreakEven = (fields: DataField[]): BreakEvenData => {
   // Get all numeric fields with their statistics
-  const numericFields = fields.filter(field => field.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   
   if (numericFields.length === 0) {
     // No numeric data - use industry-specific defaults
@@ -509,7 +510,7 @@ export function BreakEven({ data, onClose }: BreakEvenProps) {
   }, [inputs]);
 
   const generateDataAnalysis = (fields: DataField[]): string => {
-    const numericFields = fields.filter(field => field.type === 'number');
+    const numericFields = fields.filter(isMeasureField);
     const totalRecords = fields.length > 0 ? fields[0].value?.length || 0 : 0;
     
     let analysis = `Analyzed ${totalRecords} records with ${numericFields.length} numeric fields. `;
@@ -622,7 +623,7 @@ export function BreakEven({ data, onClose }: BreakEvenProps) {
     setMonteCarloResults(mcResults);
 
     // Calculate data quality and confidence scores
-    const patterns = analyzeDataPatterns(data.fields.filter((f: DataField) => f.type === 'number'));
+    const patterns = analyzeDataPatterns(data.fields.filter((f: DataField) => isMeasureField(f)));
     setDataQualityScore(patterns.dataQuality.accuracy);
     setConfidenceLevel(patterns.dataQuality.completeness);
 
@@ -1158,7 +1159,7 @@ export function BreakEven({ data, onClose }: BreakEvenProps) {
                           <h4 className="font-semibold text-indigo-700 mb-2">Dataset Overview</h4>
                           <div className="space-y-2 text-sm text-indigo-600">
                             <p><strong>Total Fields:</strong> {data.fields.length}</p>
-                            <p><strong>Numeric Fields:</strong> {data.fields.filter(f => f.type === 'number').length}</p>
+                            <p><strong>Numeric Fields:</strong> {data.fields.filter(isMeasureField).length}</p>
                             <p><strong>Text Fields:</strong> {data.fields.filter(f => f.type === 'string').length}</p>
                             <p><strong>Records:</strong> {data.fields.length > 0 ? data.fields[0].value?.length || 0 : 0}</p>
                           </div>
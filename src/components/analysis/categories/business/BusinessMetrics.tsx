@@ -10,6 +10,7 @@ import { DemandForecasting } from './DemandForecasting';
 import ROIAnalysis from './ROIAnalysis';
 import { RouteOptimization } from './RouteOptimization';
 import { InventoryOptimization } from './InventoryOptimization';
+import { InventoryPolicySimulation } from './InventoryPolicySimulation';
 import FinancialModeling from './FinancialModeling';
 import SWOTAnalysis from './SWOTAnalysis';
 import { generateSWOTAnalysis } from '@/utils/analysis/swot/analyzer';
@@ -504,6 +505,7 @@ export function BusinessMetrics({ data, results: _results }: BusinessMetricsProp
 
             <TabsContent value="inventory" className="space-y-4">
               <InventoryOptimization data={data} />
+              <InventoryPolicySimulation data={data} />
             </TabsContent>
 
             <TabsContent value="optimization" className="space-y-4">
@@ -7,6 +7,7 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { useState, useEffect, useMemo } from 'react';
 import type { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface DemandForecastingProps {
   data: {
     fields: DataField[];
@@ -82,7 +83,7 @@ export function DemandForecasting({ data }: DemandForecastingProps) {
     // Convert DataField format to array of records
     const records: any[] = [];
     const dateField = data?.fields?.find(f => f.type === 'date');
-    const numericFields = data?.fields?.filter(f => f.type === 'number') || [];
+    const numericFields = data?.fields?.filter(isMeasureField) || [];
     
     if (!dateField || numericFields.length === 0) return [];
     
@@ -123,7 +124,7 @@ export function DemandForecasting({ data }: DemandForecastingProps) {
     if (!data?.fields) return [];
     
     return data?.fields
-      ?.filter(field => field.type === 'number')
+      ?.filter(isMeasureField)
       .map(field => field.name) || [];
   }, [data]);
 
@@ -0,0 +1,288 @@
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { DataField } from '@/types/data';
+import {
+  analyzeInventory,
+  type InventoryPolicy,
+  type SkuInventoryResult
+} from '@/utils/analysis/business/inventory';
+
+import { isMeasureField } from '@/utils/file/columnTypes';
+interface InventoryPolicySimulationProps {
+  data: {
+    fields: DataField[];
+  };
+}
+
+// SKUs beyond this are left out of the cost chart
+const MAX_CHART_SKUS = 12;
+
+const POLICY_LABELS: Record<InventoryPolicy['type'], string> = {
+  sS: '(s,S) continuous',
+  periodic: 'Periodic review'
+};
+
+function guessField(fields: DataField[], pattern: RegExp): string {
+  return fields.find(field => pattern.test(field.name))?.name ?? '';
+}
+
+const formatNumber = (value: number, digits = 1) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+export function InventoryPolicySimulation({ data }: InventoryPolicySimulationProps) {
+  const fields = data.fields;
+  const numericFields = fields.filter(isMeasureField);
+
+  const [demandField, setDemandField] = useState(() =>
+    guessField(numericFields, /demand|sales|quantity|units|qty/i) || (numericFields[0]?.name ?? ''));
+  const [skuField, setSkuField] = useState(() => guessField(fields.filter(field => field.type === 'string'), /sku|product|item|part/i));
+  const [timeField, setTimeField] = useState(() => fields.find(field => field.type === 'date')?.name ?? '');
+  const [leadTimeField, setLeadTimeField] = useState(() => guessField(numericFields, /lead/i));
+
+  const [orderingCost, setOrderingCost] = useState(50);
+  const [holdingCost, setHoldingCost] = useState(0.5);
+  const [serviceLevel, setServiceLevel] = useState(95);
+  const [leadTimeMean, setLeadTimeMean] = useState(2);
+  const [leadTimeStd, setLeadTimeStd] = useState(0.5);
+  const [reviewPeriod, setReviewPeriod] = useState(4);
+  const [periods, setPeriods] = useState(52);
+  const [runs, setRuns] = useState(200);
+
+  const [results, setResults] = useState<SkuInventoryResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runSimulation = () => {
+    setIsRunning(true);
+    setError(null);
+    // Let the button state render before the simulation blocks the thread
+    setTimeout(() => {
+      try {
+        setResults(analyzeInventory(fields, {
+          demandField,
+          skuField: skuField || undefined,
+          timeField: timeField || undefined,
+          leadTimeField: leadTimeField || undefined,
+          orderingCost,
+          holdingCost,
+          serviceLevel: serviceLevel / 100,
+          leadTimeMean,
+          leadTimeStd,
+          reviewPeriod,
+          periods,
+          runs
+        }));
+      } catch (err) {
+        setResults(null);
+        setError(err instanceof Error ? err.message : 'Inventory simulation failed');
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  if (numericFields.length === 0) {
+    return (
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-black mb-4">Inventory Policy Simulation</h3>
+        <p className="text-gray-600">Inventory simulation needs a numeric demand column.</p>
+      </Card>
+    );
+  }
+
+  const planned = results?.filter(result => result.plan) ?? [];
+  const failed = results?.filter(result => result.error) ?? [];
+
+  const totals = (['sS', 'periodic'] as const).map(type => {
+    const policies = planned.map(result => result.policies.find(policy => policy.policy.type === type)!);
+    const demand = planned.reduce((sum, result) => sum + result.plan!.demandMean, 0);
+    return {
+      type,
+      holdingCost: policies.reduce((sum, policy) => sum + policy.holdingCost, 0),
+      orderingCost: policies.reduce((sum, policy) => sum + policy.orderingCost, 0),
+      stockoutPeriods: policies.reduce((sum, policy) => sum + policy.stockoutPeriods, 0),
+      lostUnits: policies.reduce((sum, policy) => sum + policy.lostUnits, 0),
+      // Weighted by expected demand so large SKUs count for more
+      fillRate: demand > 0
+        ? policies.reduce((sum, policy, i) => sum + policy.fillRate * planned[i].plan!.demandMean, 0) / demand
+        : 1
+    };
+  });
+
+  const chartData = planned.slice(0, MAX_CHART_SKUS).map(result => {
+    const point: Record<string, string | number> = { sku: result.sku };
+    result.policies.forEach(policy => {
+      point[POLICY_LABELS[policy.policy.type]] = Number(policy.totalCost.toFixed(2));
+    });
+    return point;
+  });
+
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const numberInput = (label: string, value: number, onChange: (value: number) => void, min: number, step = 1) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        className="p-2 border border-gray-200 rounded text-black"
+      />
+    </label>
+  );
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-black">Inventory Policy Simulation</h3>
+        <Button onClick={runSimulation} disabled={isRunning || !demandField}>
+          {isRunning ? 'Simulating...' : 'Run simulation'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {select('Demand per period', demandField, setDemandField, numericFields)}
+        {select('SKU', skuField, setSkuField, fields, 'Single item')}
+        {select('Period', timeField, setTimeField, fields, 'Row order')}
+        {select('Observed lead time', leadTimeField, setLeadTimeField, numericFields, 'Use assumption')}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-8 gap-4">
+        {numberInput('Ordering cost', orderingCost, setOrderingCost, 0)}
+        {numberInput('Holding cost / unit / period', holdingCost, setHoldingCost, 0, 0.1)}
+        {numberInput('Service level (%)', serviceLevel, setServiceLevel, 50, 0.5)}
+        {numberInput('Lead time (periods)', leadTimeMean, setLeadTimeMean, 0, 0.5)}
+        {numberInput('Lead time std', leadTimeStd, setLeadTimeStd, 0, 0.1)}
+        {numberInput('Review period', reviewPeriod, setReviewPeriod, 1)}
+        {numberInput('Horizon (periods)', periods, setPeriods, 1)}
+        {numberInput('Monte-Carlo runs', runs, setRuns, 1, 50)}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {failed.map(result => (
+        <p key={result.sku} className="text-sm text-amber-600">{result.sku}: {result.error}</p>
+      ))}
+
+      {planned.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {totals.map(total => (
+              <div key={total.type} className="p-4 bg-gray-50 rounded">
+                <h4 className="font-medium text-black mb-2">{POLICY_LABELS[total.type]}</h4>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <p className="text-gray-500">Fill rate</p>
+                  <p className="text-right font-semibold text-black">{(total.fillRate * 100).toFixed(1)}%</p>
+                  <p className="text-gray-500">Expected stockout periods</p>
+                  <p className="text-right text-black">{formatNumber(total.stockoutPeriods)}</p>
+                  <p className="text-gray-500">Expected lost units</p>
+                  <p className="text-right text-black">{formatNumber(total.lostUnits)}</p>
+                  <p className="text-gray-500">Holding cost</p>
+                  <p className="text-right text-black">{formatNumber(total.holdingCost, 2)}</p>
+                  <p className="text-gray-500">Ordering cost</p>
+                  <p className="text-right text-black">{formatNumber(total.orderingCost, 2)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-72">
+            <h4 className="font-medium text-black mb-2">Expected total cost per SKU over {periods} periods</h4>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="sku" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey={POLICY_LABELS.sS} fill="#3b82f6" />
+                <Bar dataKey={POLICY_LABELS.periodic} fill="#10b981" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto pt-6">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="px-2 py-2 text-left">SKU</th>
+                  <th className="px-2 py-2 text-right">Mean demand</th>
+                  <th className="px-2 py-2 text-right">EOQ</th>
+                  <th className="px-2 py-2 text-right">Safety stock</th>
+                  <th className="px-2 py-2 text-right">Reorder point</th>
+                  <th className="px-2 py-2 text-left">Policy</th>
+                  <th className="px-2 py-2 text-right">Order-up-to</th>
+                  <th className="px-2 py-2 text-right">Fill rate</th>
+                  <th className="px-2 py-2 text-right">Stockouts</th>
+                  <th className="px-2 py-2 text-right">Holding cost</th>
+                  <th className="px-2 py-2 text-right">Total cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {planned.map(result => result.policies.map((policy, i) => (
+                  <tr key={`${result.sku}-${policy.policy.type}`} className={i === 0 ? 'border-t border-gray-200' : ''}>
+                    {i === 0 && (
+                      <>
+                        <td rowSpan={result.policies.length} className="px-2 py-1 font-medium text-black">{result.sku}</td>
+                        <td rowSpan={result.policies.length} className="px-2 py-1 text-right text-black">
+                          {formatNumber(result.plan!.demandMean)}
+                        </td>
+                        <td rowSpan={result.policies.length} className="px-2 py-1 text-right text-black">
+                          {formatNumber(result.plan!.eoq)}
+                        </td>
+                        <td rowSpan={result.policies.length} className="px-2 py-1 text-right text-black">
+                          {formatNumber(result.plan!.safetyStock)}
+                        </td>
+                        <td rowSpan={result.policies.length} className="px-2 py-1 text-right text-black">
+                          {formatNumber(result.plan!.reorderPoint)}
+                        </td>
+                      </>
+                    )}
+                    <td className="px-2 py-1 text-gray-700">{POLICY_LABELS[policy.policy.type]}</td>
+                    <td className="px-2 py-1 text-right text-black">{formatNumber(policy.policy.orderUpTo)}</td>
+                    <td className="px-2 py-1 text-right text-black">{(policy.fillRate * 100).toFixed(1)}%</td>
+                    <td className="px-2 py-1 text-right text-black">{formatNumber(policy.stockoutPeriods)}</td>
+                    <td className="px-2 py-1 text-right text-black">{formatNumber(policy.holdingCost, 2)}</td>
+                    <td className="px-2 py-1 text-right text-black">{formatNumber(policy.totalCost, 2)}</td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="p-3 bg-gray-50 rounded text-xs text-gray-600">
+        <p>
+          <strong>Methodology:</strong> Safety stock is z·√(L·σd² + d²·σL²) for the target cycle service level.
+          The (s,S) policy reviews every period and orders up to the reorder point plus EOQ; the periodic policy orders up
+          to the demand over the review period plus lead time. Both are simulated against the same bootstrapped demand
+          paths with lost sales.
+        </p>
+      </div>
+    </Card>
+  );
+}
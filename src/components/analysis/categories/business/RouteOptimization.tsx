@@ -1,531 +1,420 @@
+import 'leaflet/dist/leaflet.css';
 import { Card } from '@/components/ui/card';
 import type { DataField, DataRow } from '@/types/data';
-import { Label } from '@/components/ui/label';
+import { hasSemanticType } from '@/utils/file/columnTypes';
 import { Button } from '@/components/ui/button';
-import { useState, useEffect } from 'react';
+import { useState, useMemo, lazy, Suspense } from 'react';
+import { Navigation, Route, TrendingUp, Download } from 'lucide-react';
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
-import { MapPin, Navigation, Clock, Route, TrendingUp, Database } from 'lucide-react';
+  formatMinutes,
+  routesToCsv,
+  solveRoutes,
+  toMinutes,
+  type RouteStop,
+  type RoutingResult
+} from '@/utils/analysis/business/routing';
 
-// Enhanced Map component with better visualization
-const Map = ({ waypoints, optimizedRoute, routeStats }: { 
-  waypoints: any[], 
-  optimizedRoute: any[],
-  routeStats: any 
-}) => (
-  <div className="h-96 bg-gradient-to-br from-blue-50 to-green-50 rounded-lg relative border">
-    <div className="absolute inset-0 flex items-center justify-center">
-      <div className="text-center">
-        <MapPin className="w-12 h-12 text-blue-600 mx-auto mb-2" />
-        <p className="text-lg font-medium text-gray-800">Interactive Route Map</p>
-        <p className="text-sm text-gray-600 mb-2">
-          {waypoints.length} waypoints
-        </p>
-        {optimizedRoute.length > 0 && routeStats && (
-          <div className="bg-white/80 rounded-lg p-3 mt-2 backdrop-blur-sm">
-            <div className="grid grid-cols-2 gap-4 text-xs">
-              <div className="text-center">
-                <Clock className="w-4 h-4 mx-auto mb-1 text-blue-600" />
-                <p className="font-medium">{routeStats.totalTime}</p>
-                <p className="text-gray-500">Est. Time</p>
-              </div>
-              <div className="text-center">
-                <Route className="w-4 h-4 mx-auto mb-1 text-green-600" />
-                <p className="font-medium">{routeStats.totalDistance}</p>
-                <p className="text-gray-500">Distance</p>
-              </div>
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
-    
-    {/* Simulated waypoint markers */}
-    {waypoints.map((point, index) => (
-      <div 
-        key={point.id}
-        className="absolute w-3 h-3 bg-red-500 rounded-full border-2 border-white shadow-lg"
-        style={{
-          left: `${20 + (index * 15) % 60}%`,
-          top: `${30 + (index * 20) % 40}%`
-        }}
-        title={point.name}
-      />
-    ))}
-  </div>
-);
+import { isMeasureField } from '@/utils/file/columnTypes';
+// Dynamically import Map components
+const MapContainer = lazy(() => import('react-leaflet').then(mod => ({ default: mod.MapContainer })));
+const TileLayer = lazy(() => import('react-leaflet').then(mod => ({ default: mod.TileLayer })));
+const Polyline = lazy(() => import('react-leaflet').then(mod => ({ default: mod.Polyline })));
+const CircleMarker = lazy(() => import('react-leaflet').then(mod => ({ default: mod.CircleMarker })));
+const Popup = lazy(() => import('react-leaflet').then(mod => ({ default: mod.Popup })));
 
-interface Waypoint {
-  id: string;
-  name: string;
-  address: string;
-  lat: number;
-  lng: number;
-  priority?: number;
-  timeWindow?: { start: string; end: string };
-  originalData: DataRow;
-}
-
-interface RouteStats {
-  totalDistance: string;
-  totalTime: string;
-  fuelCost: string;
-  co2Savings: string;
-  efficiency: number;
-}
+const VEHICLE_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777'];
 
 interface RouteOptimizationProps {
   data: {
     fields: DataField[];
-    rows?: DataRow[]; // Assuming rows might be provided for easier access
+    rows?: DataRow[];
   };
 }
 
+function guessField(fields: DataField[], pattern: RegExp): string {
+  return fields.find(field => pattern.test(field.name))?.name ?? '';
+}
+
 export function RouteOptimization({ data }: RouteOptimizationProps) {
-  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
-  const [optimizedRoute, setOptimizedRoute] = useState<Waypoint[]>([]);
-  const [routeStats, setRouteStats] = useState<RouteStats | null>(null);
-  const [optimizationMethod, setOptimizationMethod] = useState('time');
-  const [isOptimizing, setIsOptimizing] = useState(false);
-  const [vehicleType, setVehicleType] = useState('car');
-  const [includeReturn, setIncludeReturn] = useState(true);
+  const fields = data.fields;
+  const numericFields = fields.filter(isMeasureField);
 
-  useEffect(() => {
-    if (data && data.fields && data.fields.length > 0) {
-      const { fields } = data;
-      
-      const findField = (names: string[]) => fields.find(f => names.includes(f.name.toLowerCase()));
+  const [latField, setLatField] = useState(() =>
+    fields.find(field => hasSemanticType(field, 'latitude'))?.name ?? guessField(numericFields, /^lat(itude)?$/i));
+  const [lngField, setLngField] = useState(() =>
+    fields.find(field => hasSemanticType(field, 'longitude'))?.name ?? guessField(numericFields, /^(lng|lon|long|longitude)$/i));
+  const [nameField, setNameField] = useState(() => guessField(fields, /^(name|label|title|stop|address)$/i));
+  const [demandField, setDemandField] = useState(() => guessField(numericFields, /demand|load|quantity|weight|volume/i));
+  const [windowStartField, setWindowStartField] = useState(() => guessField(fields, /^(timewindowstart|tw_start|start_time|window_start)$/i));
+  const [windowEndField, setWindowEndField] = useState(() => guessField(fields, /^(timewindowend|tw_end|end_time|window_end)$/i));
 
-      const latField = findField(['lat', 'latitude']);
-      const lngField = findField(['lng', 'longitude']);
-      const addressField = findField(['address']);
-      const nameField = findField(['name', 'label', 'title']);
-      const priorityField = findField(['priority']);
-      const timeWindowStartField = findField(['timewindowstart', 'tw_start', 'start_time']);
-      const timeWindowEndField = findField(['timewindowend', 'tw_end', 'end_time']);
+  const [depot, setDepot] = useState(0);
+  const [vehicles, setVehicles] = useState(1);
+  const [capacity, setCapacity] = useState('');
+  const [speedKmh, setSpeedKmh] = useState(50);
+  const [serviceMinutes, setServiceMinutes] = useState(5);
+  const [startTime, setStartTime] = useState('08:00');
+  const [returnToDepot, setReturnToDepot] = useState(true);
 
-      let newWaypoints: Waypoint[] = [];
+  const [result, setResult] = useState<RoutingResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
 
-      // Check if we have fields to construct waypoints from
-      if (latField && lngField) {
-        const numWaypoints = latField.value.length;
-        for (let i = 0; i < numWaypoints; i++) {
-          const originalData: DataRow = {};
-          for (const field of fields) {
-            originalData[field.name] = field.value[i];
-          }
+  const stops = useMemo<RouteStop[]>(() => {
+    const column = (name: string) => fields.find(field => field.name === name)?.value;
+    const lats = column(latField);
+    const lngs = column(lngField);
+    if (!lats || !lngs) return [];
+    const names = column(nameField);
+    const demands = column(demandField);
+    const starts = column(windowStartField);
+    const ends = column(windowEndField);
 
-          const waypoint: Waypoint = {
-            id: `${Date.now()}-${i}`,
-            name: nameField?.value[i] as string || `Waypoint ${i + 1}`,
-            address: addressField?.value[i] as string || 'N/A',
-            lat: parseFloat(latField.value[i]),
-            lng: parseFloat(lngField.value[i]),
-            priority: priorityField ? parseInt(priorityField.value[i], 10) : undefined,
-            timeWindow: (timeWindowStartField?.value[i] && timeWindowEndField?.value[i]) ? {
-              start: timeWindowStartField.value[i],
-              end: timeWindowEndField.value[i]
-            } : undefined,
-            originalData
-          };
-          newWaypoints.push(waypoint);
-        }
-      } else if (addressField) {
-        // Fallback for geocoding if only address is present
-        newWaypoints = addressField.value.map((address, i) => {
-          const originalData: DataRow = {};
-          for (const field of fields) {
-            originalData[field.name] = field.value[i];
-          }
-          return {
-            id: `${Date.now()}-${i}`,
-            name: nameField?.value[i] as string || `Waypoint ${i + 1}`,
-            address: address as string,
-            // Placeholder lat/lng, in a real app you'd geocode this
-            lat: 40.7128 + (Math.random() * 0.1 - 0.05),
-            lng: -74.0060 + (Math.random() * 0.1 - 0.05),
-            priority: priorityField ? parseInt(priorityField.value[i], 10) : undefined,
-            timeWindow: (timeWindowStartField?.value[i] && timeWindowEndField?.value[i]) ? {
-              start: timeWindowStartField.value[i],
-              end: timeWindowEndField.value[i]
-            } : undefined,
-            originalData
-          }});
-      }
-      
-      if (newWaypoints.length > 0) {
-        setWaypoints(newWaypoints);
-        // Clear previous optimization results
-        setOptimizedRoute([]);
-        setRouteStats(null);
-      } else {
-        setWaypoints([]);
-        setOptimizedRoute([]);
-        setRouteStats(null);
-      }
-    } else {
-      setWaypoints([]);
-      setOptimizedRoute([]);
-      setRouteStats(null);
-    }
-  }, [data]);
+    const result: RouteStop[] = [];
+    lats.forEach((value, i) => {
+      const lat = Number(value);
+      const lng = Number(lngs[i]);
+      if (value == null || value === '' || !isFinite(lat) || !isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return;
+      const demand = demands ? Number(demands[i]) : 1;
+      result.push({
+        name: names?.[i] != null ? String(names[i]) : `Stop ${i + 1}`,
+        lat,
+        lng,
+        demand: isFinite(demand) ? demand : 0,
+        windowStart: starts ? toMinutes(starts[i]) : undefined,
+        windowEnd: ends ? toMinutes(ends[i]) : undefined
+      });
+    });
+    return result;
+  }, [fields, latField, lngField, nameField, demandField, windowStartField, windowEndField]);
 
-  // Haversine formula for accurate distance calculation
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  const optimizeRoute = () => {
+    setIsOptimizing(true);
+    setError(null);
+    // Let the button state render before the solver blocks the thread
+    setTimeout(() => {
+      try {
+        setResult(solveRoutes(stops, {
+          depot: Math.min(depot, stops.length - 1),
+          vehicles,
+          capacity: capacity === '' ? undefined : Number(capacity),
+          speedKmh,
+          serviceMinutes,
+          startMinutes: toMinutes(startTime) ?? 0,
+          returnToDepot
+        }));
+      } catch (err) {
+        setResult(null);
+        setError(err instanceof Error ? err.message : 'Route optimization failed');
+      } finally {
+        setIsOptimizing(false);
+      }
+    }, 0);
   };
 
-  // Calculate total route distance
-  const calculateRouteDistance = (route: Waypoint[]): number => {
-    if (route.length < 2) return 0;
-    
-    let totalDistance = 0;
-    for (let i = 0; i < route.length - 1; i++) {
-      totalDistance += calculateDistance(
-        route[i].lat, route[i].lng,
-        route[i + 1].lat, route[i + 1].lng
-      );
-    }
-    
-    // Add return to start if selected
-    if (includeReturn && route.length > 0) {
-      totalDistance += calculateDistance(
-        route[route.length - 1].lat, route[route.length - 1].lng,
-        route[0].lat, route[0].lng
-      );
-    }
-    
-    return totalDistance;
+  const exportCsv = () => {
+    if (!result) return;
+    const blob = new Blob([routesToCsv(result, stops)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `optimized_route_${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
-  // Nearest Neighbor Algorithm for TSP approximation
-  const nearestNeighborTSP = (points: Waypoint[], startIndex: number = 0): Waypoint[] => {
-    if (points.length <= 1) return points;
-    
-    const unvisited = [...points];
-    const route = [unvisited.splice(startIndex, 1)[0]];
-    
-    while (unvisited.length > 0) {
-      const current = route[route.length - 1];
-      let nearestIndex = 0;
-      let shortestDistance = calculateDistance(
-        current.lat, current.lng,
-        unvisited[0].lat, unvisited[0].lng
-      );
-      
-      for (let i = 1; i < unvisited.length; i++) {
-        const distance = calculateDistance(
-          current.lat, current.lng,
-          unvisited[i].lat, unvisited[i].lng
-        );
-        if (distance < shortestDistance) {
-          shortestDistance = distance;
-          nearestIndex = i;
-        }
-      }
-      
-      route.push(unvisited.splice(nearestIndex, 1)[0]);
-    }
-    
-    return route;
-  };
+  const bounds = useMemo(() => {
+    if (stops.length === 0) return null;
+    const lats = stops.map(stop => stop.lat);
+    const lngs = stops.map(stop => stop.lng);
+    return [
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)]
+    ] as [[number, number], [number, number]];
+  }, [stops]);
 
-  // 2-opt improvement algorithm
-  const twoOptImprovement = (route: Waypoint[]): Waypoint[] => {
-    if (route.length <= 3) return route;
-    
-    let improved = true;
-    let bestRoute = [...route];
-    let bestDistance = calculateRouteDistance(bestRoute);
-    
-    while (improved) {
-      improved = false;
-      
-      for (let i = 1; i < route.length - 2; i++) {
-        for (let j = i + 1; j < route.length; j++) {
-          if (j - i === 1) continue; // Skip adjacent
-          
-          const newRoute = [...bestRoute];
-          // Reverse the segment between i and j
-          const segment = newRoute.slice(i, j + 1).reverse();
-          newRoute.splice(i, j - i + 1, ...segment);
-          
-          const newDistance = calculateRouteDistance(newRoute);
-          if (newDistance < bestDistance) {
-            bestRoute = newRoute;
-            bestDistance = newDistance;
-            improved = true;
-          }
-        }
-      }
-    }
-    
-    return bestRoute;
-  };
+  const routeColor = useMemo(() => {
+    const colors = new Map<number, string>();
+    result?.routes.forEach((route, r) => {
+      route.stops.forEach(scheduled => colors.set(scheduled.stop, VEHICLE_COLORS[r % VEHICLE_COLORS.length]));
+    });
+    return colors;
+  }, [result]);
 
-  // Priority-based sorting
-  const prioritySort = (points: Waypoint[]): Waypoint[] => {
-    return [...points].sort((a, b) => (a.priority || 999) - (b.priority || 999));
-  };
+  const depotStop = stops[Math.min(depot, stops.length - 1)];
+  const totalMinutes = result?.routes.reduce((sum, route) => sum + route.duration, 0) ?? 0;
+  const savings = result && result.baselineDistance > 0
+    ? (result.baselineDistance - result.totalDistance) / result.baselineDistance * 100
+    : 0;
 
-  const optimizeRoute = () => {
-    if (waypoints.length < 2) {
-      alert('You need at least 2 waypoints to optimize a route');
-      return;
-    }
-    
-    setIsOptimizing(true);
-    
-    // Simulate API processing time
-    setTimeout(() => {
-      let optimizedOrder: Waypoint[] = [];
-      
-      switch (optimizationMethod) {
-        case 'distance':
-          // Use Nearest Neighbor + 2-opt for shortest distance
-          optimizedOrder = nearestNeighborTSP(waypoints);
-          optimizedOrder = twoOptImprovement(optimizedOrder);
-          break;
-          
-        case 'time':
-          // Prioritize by time windows and use nearest neighbor
-          const timeOptimized = waypoints.filter(wp => wp.timeWindow);
-          const others = waypoints.filter(wp => !wp.timeWindow);
-          optimizedOrder = [
-            ...timeOptimized.sort((a, b) => a.timeWindow!.start.localeCompare(b.timeWindow!.start)),
-            ...nearestNeighborTSP(others)
-          ];
-          break;
-          
-        case 'priority':
-          optimizedOrder = prioritySort(waypoints);
-          break;
-          
-        case 'balanced':
-          // Hybrid approach: priority first, then distance optimization
-          const prioritized = prioritySort(waypoints);
-          optimizedOrder = twoOptImprovement(prioritized);
-          break;
-          
-        default:
-          optimizedOrder = nearestNeighborTSP(waypoints);
-      }
-      
-      const totalDistance = calculateRouteDistance(optimizedOrder);
-      const originalDistance = calculateRouteDistance(waypoints);
-      const efficiency = originalDistance > 0 ? ((originalDistance - totalDistance) / originalDistance * 100) : 0;
-      
-      // Calculate realistic stats
-      const avgSpeed = vehicleType === 'truck' ? 60 : vehicleType === 'van' ? 70 : 80; // km/h
-      const totalTime = totalDistance / avgSpeed;
-      const fuelEfficiency = vehicleType === 'truck' ? 8 : vehicleType === 'van' ? 12 : 15; // km/L
-      const fuelNeeded = totalDistance / fuelEfficiency;
-      const fuelPrice = 1.5; // per liter
-      const co2PerLiter = 2.3; // kg CO2 per liter
-      
-      setOptimizedRoute(optimizedOrder);
-      setRouteStats({
-        totalDistance: `${totalDistance.toFixed(1)} km`,
-        totalTime: `${Math.floor(totalTime)}h ${Math.round((totalTime % 1) * 60)}m`,
-        fuelCost: `$${(fuelNeeded * fuelPrice).toFixed(2)}`,
-        co2Savings: efficiency > 0 ? `${(efficiency * totalDistance * co2PerLiter / 100).toFixed(1)} kg` : '0 kg',
-        efficiency: Math.max(0, efficiency)
-      });
-      
-      setIsOptimizing(false);
-    }, 2000);
-  };
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => {
+          onChange(e.target.value);
+          setResult(null);
+        }}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
 
-  const clearRoute = () => {
-    setOptimizedRoute([]);
-    setRouteStats(null);
-  };
+  const numberInput = (label: string, value: number | string, onChange: (value: string) => void, min: number, placeholder?: string) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min={min}
+        value={value}
+        placeholder={placeholder}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      />
+    </label>
+  );
 
   return (
-    <Card className="p-6">
-      <div className="flex items-center gap-2 mb-4">
-        <Navigation className="w-5 h-5 text-blue-600" />
-        <h3 className="text-lg font-semibold text-gray-900">Advanced Route Optimization</h3>
+    <Card className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Navigation className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Route Optimization</h3>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={optimizeRoute}
+            disabled={isOptimizing || stops.length < 2}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isOptimizing ? 'Optimizing...' : 'Optimize Route'}
+          </Button>
+          <Button variant="outline" onClick={exportCsv} disabled={!result}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
       </div>
-      
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <div className="lg:col-span-2">
-          <Map waypoints={waypoints} optimizedRoute={optimizedRoute} routeStats={routeStats} />
-          
-          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div>
-              <Label htmlFor="optimizationMethod" className="text-gray-700">Optimization Strategy</Label>
-              <Select value={optimizationMethod} onValueChange={setOptimizationMethod}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select method" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="distance">Shortest Distance (TSP)</SelectItem>
-                  <SelectItem value="time">Time Windows Priority</SelectItem>
-                  <SelectItem value="priority">Priority Based</SelectItem>
-                  <SelectItem value="balanced">Balanced Optimization</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            
-            <div>
-              <Label htmlFor="vehicleType" className="text-gray-700">Vehicle Type</Label>
-              <Select value={vehicleType} onValueChange={setVehicleType}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select vehicle" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="car">Car</SelectItem>
-                  <SelectItem value="van">Van</SelectItem>
-                  <SelectItem value="truck">Truck</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            
-            <div className="flex items-end space-x-2">
-              <Button 
-                onClick={optimizeRoute} 
-                disabled={isOptimizing || waypoints.length < 2}
-                className="flex-1 bg-blue-600 hover:bg-blue-700"
-              >
-                {isOptimizing ? 'Optimizing...' : 'Optimize Route'}
-              </Button>
-              <Button 
-                variant="outline" 
-                onClick={clearRoute}
-                disabled={optimizedRoute.length === 0}
-              >
-                Clear
-              </Button>
-            </div>
-          </div>
-          
-          <div className="mt-3 flex items-center space-x-4">
-            <label className="flex items-center space-x-2 text-sm">
-              <input
-                type="checkbox"
-                checked={includeReturn}
-                onChange={(e) => setIncludeReturn(e.target.checked)}
-                className="rounded"
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {select('Latitude', latField, setLatField, numericFields)}
+        {select('Longitude', lngField, setLngField, numericFields)}
+        {select('Stop name', nameField, setNameField, fields, 'Row number')}
+        {select('Demand', demandField, setDemandField, numericFields, 'One per stop')}
+        {select('Window opens', windowStartField, setWindowStartField, fields, 'None')}
+        {select('Window closes', windowEndField, setWindowEndField, fields, 'None')}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Depot
+          <select
+            value={depot}
+            onChange={e => setDepot(Number(e.target.value))}
+            className="p-2 border border-gray-200 rounded text-black"
+          >
+            {stops.map((stop, i) => (
+              <option key={i} value={i}>{stop.name}</option>
+            ))}
+          </select>
+        </label>
+        {numberInput('Vehicles', vehicles, value => setVehicles(Math.max(1, Math.floor(Number(value)) || 1)), 1)}
+        {numberInput('Capacity per vehicle', capacity, setCapacity, 0, 'Unlimited')}
+        {numberInput('Speed (km/h)', speedKmh, value => setSpeedKmh(Number(value)), 1)}
+        {numberInput('Service time (min)', serviceMinutes, value => setServiceMinutes(Math.max(0, Number(value))), 0)}
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Departure
+          <input
+            type="time"
+            value={startTime}
+            onChange={e => setStartTime(e.target.value)}
+            className="p-2 border border-gray-200 rounded text-black"
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <input
+          type="checkbox"
+          checked={returnToDepot}
+          onChange={e => setReturnToDepot(e.target.checked)}
+          className="rounded"
+        />
+        <span className="text-gray-700">Return to depot</span>
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {bounds ? (
+        <div className="h-96 rounded-lg border overflow-hidden">
+          <Suspense fallback={<div>Loading map...</div>}>
+            <MapContainer
+              key={JSON.stringify(bounds)}
+              center={[depotStop.lat, depotStop.lng]}
+              zoom={10}
+              bounds={bounds}
+              boundsOptions={{ padding: [24, 24] }}
+              scrollWheelZoom={true}
+              className="h-full w-full"
+            >
+              <TileLayer
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
               />
-              <span className="text-gray-700">Include return to start</span>
-            </label>
-          </div>
+
+              {result?.routes.map((route, r) => {
+                const path: [number, number][] = [
+                  [depotStop.lat, depotStop.lng],
+                  ...route.stops.map(scheduled => [stops[scheduled.stop].lat, stops[scheduled.stop].lng] as [number, number])
+                ];
+                if (returnToDepot) path.push([depotStop.lat, depotStop.lng]);
+                return (
+                  <Polyline
+                    key={route.vehicle}
+                    positions={path}
+                    pathOptions={{ color: VEHICLE_COLORS[r % VEHICLE_COLORS.length], weight: 3 }}
+                  />
+                );
+              })}
+
+              {stops.map((stop, i) => {
+                const isDepot = stop === depotStop;
+                return (
+                  <CircleMarker
+                    key={i}
+                    center={[stop.lat, stop.lng]}
+                    radius={isDepot ? 9 : 6}
+                    pathOptions={{
+                      color: 'white',
+                      weight: 2,
+                      fillOpacity: 0.9,
+                      fillColor: isDepot ? '#111827' : routeColor.get(i) ?? '#9ca3af'
+                    }}
+                  >
+                    <Popup>
+                      <div className="text-sm">
+                        <div className="font-bold">{stop.name}{isDepot ? ' (depot)' : ''}</div>
+                        <div>Lat: {stop.lat.toFixed(4)}</div>
+                        <div>Lng: {stop.lng.toFixed(4)}</div>
+                        {(stop.windowStart != null || stop.windowEnd != null) && (
+                          <div>
+                            Window: {stop.windowStart != null ? formatMinutes(stop.windowStart) : '…'}
+                            {' – '}
+                            {stop.windowEnd != null ? formatMinutes(stop.windowEnd) : '…'}
+                          </div>
+                        )}
+                      </div>
+                    </Popup>
+                  </CircleMarker>
+                );
+              })}
+            </MapContainer>
+          </Suspense>
         </div>
-        
-        <div>
-          <div className="border rounded-lg divide-y">
-            <h4 className="p-3 font-medium text-gray-900 bg-gray-50 flex items-center gap-2">
-              <Database className="w-4 h-4 text-gray-600" />
-              Input Data Fields ({data.fields?.length || 0})
+      ) : (
+        <p className="text-gray-600">Choose latitude and longitude columns with valid coordinates to plan routes.</p>
+      )}
+
+      {result && (
+        <>
+          <div>
+            <h4 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+              <TrendingUp className="w-4 h-4" />
+              Route Analytics
             </h4>
-            {(!data.fields || data.fields.length === 0) ? (
-              <p className="p-3 text-sm text-gray-500">No data fields loaded.</p>
-            ) : (
-              <ul className="max-h-96 overflow-y-auto">
-                {data.fields.map((field) => (
-                  <li key={field.name} className="p-3 flex justify-between items-center">
-                    <div>
-                      <p className="font-medium text-gray-900">{field.name}</p>
-                      <p className="text-sm text-gray-500 capitalize">Type: {field.type}</p>
-                    </div>
-                    <span className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded-full">{field.value.length} rows</span>
-                  </li>
-                ))}
-              </ul>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-blue-50 p-3 rounded-lg">
+                <p className="text-sm text-blue-600 font-medium">Total Distance</p>
+                <p className="text-lg font-bold text-blue-900">{result.totalDistance.toFixed(1)} km</p>
+              </div>
+              <div className="bg-green-50 p-3 rounded-lg">
+                <p className="text-sm text-green-600 font-medium">Driving + Service Time</p>
+                <p className="text-lg font-bold text-green-900">
+                  {Math.floor(totalMinutes / 60)}h {Math.round(totalMinutes % 60)}m
+                </p>
+              </div>
+              <div className="bg-yellow-50 p-3 rounded-lg">
+                <p className="text-sm text-yellow-600 font-medium">Vehicles Used</p>
+                <p className="text-lg font-bold text-yellow-900">{result.routes.length} of {vehicles}</p>
+              </div>
+              <div className="bg-purple-50 p-3 rounded-lg">
+                <p className="text-sm text-purple-600 font-medium">Shorter Than Input Order</p>
+                <p className="text-lg font-bold text-purple-900">{Math.max(0, savings).toFixed(1)}%</p>
+              </div>
+            </div>
+            {result.unassigned.length > 0 && (
+              <p className="mt-3 text-sm text-amber-600">
+                {result.unassigned.length} stop(s) could not be served within capacity and time windows:{' '}
+                {result.unassigned.map(stop => stops[stop].name).join(', ')}
+              </p>
             )}
           </div>
-        </div>
-      </div>
-      
-      {optimizedRoute.length > 0 && (
-        <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+
           <div>
             <h4 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
               <Route className="w-4 h-4" />
-              Optimized Route Order
+              Optimized Stop Order
             </h4>
-            <ol className="space-y-3">
-              {optimizedRoute.map((point, index) => (
-                <li key={point.id} className="p-3 bg-gray-50 rounded-lg border">
-                  <div className="flex items-start gap-3">
-                    <span className="mt-1 w-6 h-6 bg-blue-600 text-white rounded-full text-sm flex items-center justify-center font-medium flex-shrink-0">
-                      {index + 1}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {result.routes.map((route, r) => (
+                <div key={route.vehicle} className="border rounded-lg overflow-hidden">
+                  <div className="px-3 py-2 bg-gray-50 flex justify-between text-sm">
+                    <span className="font-medium" style={{ color: VEHICLE_COLORS[r % VEHICLE_COLORS.length] }}>
+                      Vehicle {route.vehicle}
+                    </span>
+                    <span className="text-gray-600">
+                      {route.distance.toFixed(1)} km · load {route.load}
                     </span>
-                    <div className="flex-grow overflow-hidden">
-                      <p className="font-medium text-gray-900 truncate" title={point.name}>{point.name}</p>
-                      <p className="text-sm text-gray-500 truncate" title={point.address}>{point.address}</p>
-                      <div className="mt-2 pt-2 border-t border-gray-200">
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
-                          {Object.entries(point.originalData).map(([key, value]) => (
-                            <div key={key} className="flex">
-                              <span className="font-semibold text-gray-600 w-24 flex-shrink-0 truncate" title={key}>{key}:</span>
-                              <span className="text-gray-800 truncate" title={String(value)}>{String(value)}</span>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
                   </div>
-                </li>
-              ))}
-            </ol>
-          </div>
-          
-          {routeStats && (
-            <div>
-              <h4 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
-                <TrendingUp className="w-4 h-4" />
-                Route Analytics
-              </h4>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="bg-blue-50 p-3 rounded-lg">
-                  <p className="text-sm text-blue-600 font-medium">Total Distance</p>
-                  <p className="text-lg font-bold text-blue-900">{routeStats.totalDistance}</p>
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="px-3 py-1 text-left">#</th>
+                        <th className="px-3 py-1 text-left">Stop</th>
+                        <th className="px-3 py-1 text-right">Arrive</th>
+                        <th className="px-3 py-1 text-right">Wait</th>
+                        <th className="px-3 py-1 text-right">km</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {route.stops.map((scheduled, i) => (
+                        <tr key={scheduled.stop} className="border-t border-gray-100">
+                          <td className="px-3 py-1 text-gray-500">{i + 1}</td>
+                          <td className="px-3 py-1 text-black">{stops[scheduled.stop].name}</td>
+                          <td className="px-3 py-1 text-right text-black">{formatMinutes(scheduled.arrival)}</td>
+                          <td className="px-3 py-1 text-right text-black">
+                            {scheduled.wait > 0 ? `${Math.round(scheduled.wait)}m` : '—'}
+                          </td>
+                          <td className="px-3 py-1 text-right text-black">{scheduled.distanceFromPrevious.toFixed(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
-                <div className="bg-green-50 p-3 rounded-lg">
-                  <p className="text-sm text-green-600 font-medium">Est. Time</p>
-                  <p className="text-lg font-bold text-green-900">{routeStats.totalTime}</p>
-                </div>
-                <div className="bg-yellow-50 p-3 rounded-lg">
-                  <p className="text-sm text-yellow-600 font-medium">Fuel Cost</p>
-                  <p className="text-lg font-bold text-yellow-900">{routeStats.fuelCost}</p>
-                </div>
-                <div className="bg-purple-50 p-3 rounded-lg">
-                  <p className="text-sm text-purple-600 font-medium">CO₂ Savings</p>
-                  <p className="text-lg font-bold text-purple-900">{routeStats.co2Savings}</p>
-                </div>
-              </div>
-              {routeStats.efficiency > 0 && (
-                <div className="mt-3 p-3 bg-green-100 rounded-lg">
-                  <p className="text-sm text-green-700">
-                    Route optimization improved efficiency by <span className="font-bold">{routeStats.efficiency.toFixed(1)}%</span>
-                  </p>
-                </div>
-              )}
+              ))}
             </div>
-          )}
-        </div>
+          </div>
+        </>
       )}
-      
-      <div className="mt-4 pt-4 border-t">
+
+      <div className="pt-4 border-t">
         <p className="text-sm text-gray-600">
-          Analyzing {data.fields.length} data fields with advanced algorithms including TSP optimization, 2-opt improvement, and priority-based routing.
+          Distances use the haversine formula. Routes are built by nearest neighbour and improved with 2-opt,
+          Or-opt and stop moves between vehicles while respecting capacity and time windows.
         </p>
       </div>
     </Card>
   );
-} 
\ No newline at end of file
+}
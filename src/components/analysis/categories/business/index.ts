@@ -5,6 +5,7 @@ export * from './ROIAnalysis.tsx';
 export * from './Attribution.tsx';
 export * from './CustomerSegmentation.tsx';
 export * from './InventoryOptimization.tsx';
+export * from './InventoryPolicySimulation.tsx';
 export * from './DemandForecasting.tsx';
 export * from './RouteOptimization.tsx';
 export * from './BusinessMetrics.tsx';
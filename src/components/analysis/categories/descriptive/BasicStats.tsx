@@ -11,6 +11,7 @@ import {
 } from '@/components/ui/tooltip';
 import type { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface BasicStatsProps {
   field?: DataField;
 }
@@ -32,7 +33,7 @@ export function BasicStats({ field }: BasicStatsProps) {
   } | null>(null);
 
   useEffect(() => {
-    if (field?.type === 'number' && Array.isArray(field.value)) {
+    if (!!field && isMeasureField(field) && Array.isArray(field.value)) {
       setNumbers(field.value);
     }
   }, [field]);
@@ -114,7 +115,7 @@ export function BasicStats({ field }: BasicStatsProps) {
   };
 
   // If we have field data, show stats directly
-  if (field?.type === 'number' && Array.isArray(field.value) && stats) {
+  if (!!field && isMeasureField(field) && Array.isArray(field.value) && stats) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <StatCard 
@@ -25,6 +25,7 @@ import {
 import { useUniversalAnalytics } from '@/hooks/useUniversalAnalytics';
 import _ from 'lodash';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // Register Chart.js components
 ChartJS.register(
   CategoryScale,
@@ -464,10 +465,10 @@ export default function UnifiedAnalyticsPlatform({ initialData = { fields: [] }
       const [insights, predictions, anomalies] = await Promise.all([
         AIAnalyticsEngine.generateInsights(selectedIndustry || ''),
         AIAnalyticsEngine.predictFutureTrends(
-          initialData.fields.find(f => f.type === 'number')?.value || []
+          initialData.fields.find(isMeasureField)?.value || []
         ),
         AIAnalyticsEngine.detectAnomalies(
-          initialData.fields.find(f => f.type === 'number')?.value || []
+          initialData.fields.find(isMeasureField)?.value || []
         )
       ]);
       
@@ -8,6 +8,7 @@ import { DataField } from '@/types/data';
 import { formatNumber } from '@/utils/analysis/formatting';
 import { AlertCircle } from 'lucide-react';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 type TestType = 'mean' | 'variance' | 'proportion' | 'correlation';
 
 interface HypothesisTestingProps {
@@ -29,7 +30,7 @@ export function HypothesisTesting({ fields, onTestComplete }: HypothesisTestingP
   const [results, setResults] = useState<HypothesisTest | null>(null);
   const [error, setError] = useState<string>('');
 
-  const numericFields = fields.filter(field => field.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
 
   const handleTest = () => {
     try {
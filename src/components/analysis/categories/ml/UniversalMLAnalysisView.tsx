@@ -18,6 +18,7 @@ import type { DataField } from '@/types/data';
 import { UniversalMLService, MLAlgorithm } from '@/utils/analysis/ml/UniversalMLService';
 import { formatNumber } from '@/utils/analysis/formatting';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // Register ChartJS components
 ChartJS.register(
   CategoryScale,
@@ -110,7 +111,7 @@ export function UniversalMLAnalysisView({ data, onAnalysisComplete }: UniversalM
   // Data quality check function
   const checkDataQuality = React.useCallback(() => {
     const warnings: string[] = [];
-    const numericFields = data?.fields?.filter(f => f.type === 'number') || [];
+    const numericFields = data?.fields?.filter(isMeasureField) || [];
     // Only check selected fields
     const selectedFields = [
       ...(targetFieldIndex !== -1 ? [numericFields[targetFieldIndex]] : []),
@@ -175,7 +176,7 @@ export function UniversalMLAnalysisView({ data, onAnalysisComplete }: UniversalM
       setShowToast(false);
       setPredictionProgress(0);
 
-      const numericFields = data?.fields?.filter(f => f.type === 'number') || [];
+      const numericFields = data?.fields?.filter(isMeasureField) || [];
       if (numericFields.length < 2) {
         throw new Error('ML analysis requires at least 2 numeric fields');
       }
@@ -506,7 +507,7 @@ export function UniversalMLAnalysisView({ data, onAnalysisComplete }: UniversalM
             className="w-full p-2 border rounded"
           >
             <option value={-1}>-- Select Target --</option>
-            {data.fields.filter(f => f.type === 'number').map((field, idx) => (
+            {data.fields.filter(isMeasureField).map((field, idx) => (
               <option key={idx} value={idx}>{field.name || `Column ${idx + 1}`}</option>
             ))}
           </select>
@@ -519,7 +520,7 @@ export function UniversalMLAnalysisView({ data, onAnalysisComplete }: UniversalM
             onChange={e => setFeatureFieldIndices(Array.from(e.target.selectedOptions, o => Number(o.value)))}
             className="w-full p-2 border rounded"
           >
-            {data.fields.filter(f => f.type === 'number').map((field, idx) => (
+            {data.fields.filter(isMeasureField).map((field, idx) => (
               <option key={idx} value={idx}>{field.name || `Column ${idx + 1}`}</option>
             ))}
           </select>
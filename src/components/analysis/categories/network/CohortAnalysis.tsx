@@ -1,10 +1,240 @@
-import { Card } from '../../../../components/ui/card';
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { DataField } from '@/types/data';
+import { addLoadedDatasets } from '@/utils/storage/db';
+import {
+  buildCohorts,
+  cohortMatrixToFields,
+  cumulativeRevenuePerUser,
+  retentionRate,
+  type CohortGranularity
+} from '@/utils/analysis/network/cohorts';
+
+import { isMeasureField } from '@/utils/file/columnTypes';
+interface CohortAnalysisProps {
+  data: {
+    fields: DataField[];
+  };
+}
+
+const LINE_COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#A4DE6C'];
+// Curves for more cohorts than this become unreadable
+const MAX_CURVES = 6;
+
+function guessField(fields: DataField[], pattern: RegExp, type?: DataField['type']): string {
+  return fields.find(field => pattern.test(field.name) && (!type || field.type === type))?.name
+    ?? fields.find(field => !type || field.type === type)?.name
+    ?? '';
+}
+
+export function CohortAnalysis({ data }: CohortAnalysisProps) {
+  const fields = data.fields;
+  const dateFields = fields.filter(field => field.type === 'date');
+  const numericFields = fields.filter(isMeasureField);
+
+  const [userField, setUserField] = useState(() => guessField(fields, /user|customer|account|member|id/i, 'string'));
+  const [signupField, setSignupField] = useState(() =>
+    dateFields.find(field => /sign|join|creat|register|first/i.test(field.name))?.name ?? '');
+  const [activityField, setActivityField] = useState(() =>
+    guessField(dateFields.filter(field => field.name !== signupField), /activ|event|order|date|time/i));
+  const [revenueField, setRevenueField] = useState(() =>
+    numericFields.find(field => /revenue|amount|price|total|spend/i.test(field.name))?.name ?? '');
+  const [granularity, setGranularity] = useState<CohortGranularity>('month');
+  const [view, setView] = useState<'percent' | 'count'>('percent');
+  const [exported, setExported] = useState<string | null>(null);
+
+  const result = useMemo(() => {
+    if (!userField || !activityField) return { error: 'Choose a user column and an activity date column' };
+    try {
+      return {
+        matrix: buildCohorts(fields, {
+          userField,
+          activityField,
+          signupField: signupField || undefined,
+          revenueField: revenueField || undefined,
+          granularity
+        })
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to build cohorts' };
+    }
+  }, [fields, userField, activityField, signupField, revenueField, granularity]);
+
+  const matrix = result.matrix;
+
+  const revenueCurves = useMemo(() => {
+    if (!matrix || !revenueField) return [];
+    const cohorts = matrix.cohorts.slice(-MAX_CURVES);
+    const curves = cohorts.map(cumulativeRevenuePerUser);
+    return Array.from({ length: matrix.periods }, (_, offset) => {
+      const point: Record<string, number | null> = { period: offset };
+      cohorts.forEach((cohort, i) => {
+        point[cohort.label] = curves[i][offset];
+      });
+      return point;
+    });
+  }, [matrix, revenueField]);
+
+  const handleExport = async () => {
+    if (!matrix) return;
+    const name = `cohorts_${view === 'percent' ? 'retention' : 'users'}_${granularity}`;
+    await addLoadedDatasets([{
+      type: 'csv',
+      name,
+      content: { fields: cohortMatrixToFields(matrix, view) }
+    }]);
+    setExported(name);
+  };
+
+  if (dateFields.length === 0) {
+    return (
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold text-black mb-4">Cohort Analysis</h3>
+        <p className="text-gray-600">Cohort analysis needs at least one date column.</p>
+      </Card>
+    );
+  }
+
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
 
-export function CohortAnalysis() {
   return (
-    <Card className="p-4">
-      <h3 className="text-lg font-semibold text-black mb-4">Cohort Analysis</h3>
-      <p className="text-gray-600">Cohort analysis component will be implemented here.</p>
+    <Card className="p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-black">Cohort Analysis</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={granularity}
+            onChange={e => setGranularity(e.target.value as CohortGranularity)}
+            className="p-2 border border-gray-200 rounded text-sm text-black"
+          >
+            <option value="week">Weekly cohorts</option>
+            <option value="month">Monthly cohorts</option>
+          </select>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!matrix}>
+            Save matrix as dataset
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {select('User ID', userField, setUserField, fields)}
+        {select('Signup date', signupField, setSignupField, dateFields, 'First activity')}
+        {select('Activity date', activityField, setActivityField, dateFields)}
+        {select('Revenue', revenueField, setRevenueField, numericFields, 'None')}
+      </div>
+
+      {exported && (
+        <p className="text-sm text-green-700">Saved as dataset "{exported}".</p>
+      )}
+
+      {result.error && <p className="text-sm text-red-600">{result.error}</p>}
+
+      {matrix && (
+        <>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-black">Retention</h4>
+              <div className="flex rounded border border-gray-200 overflow-hidden text-sm">
+                {(['percent', 'count'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 ${view === option ? 'bg-blue-600 text-white' : 'text-gray-600'}`}
+                  >
+                    {option === 'percent' ? '%' : 'Users'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="px-2 py-1 text-left">Cohort</th>
+                    <th className="px-2 py-1 text-right">Users</th>
+                    {Array.from({ length: matrix.periods }, (_, offset) => (
+                      <th key={offset} className="px-2 py-1 text-center">
+                        {granularity === 'month' ? 'M' : 'W'}{offset}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matrix.cohorts.map(cohort => (
+                    <tr key={cohort.label}>
+                      <td className="px-2 py-1 text-black whitespace-nowrap">{cohort.label}</td>
+                      <td className="px-2 py-1 text-right text-black">{cohort.size.toLocaleString()}</td>
+                      {cohort.retained.map((retained, offset) => {
+                        const rate = retentionRate(cohort, offset);
+                        if (retained == null || rate == null) {
+                          return <td key={offset} />;
+                        }
+                        return (
+                          <td
+                            key={offset}
+                            className={`px-2 py-1 text-center ${rate > 0.5 ? 'text-white' : 'text-black'}`}
+                            style={{ backgroundColor: `rgba(37, 99, 235, ${0.08 + rate * 0.92})` }}
+                            title={`${retained} of ${cohort.size} users`}
+                          >
+                            {view === 'percent' ? `${(rate * 100).toFixed(1)}%` : retained.toLocaleString()}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {revenueField && revenueCurves.length > 0 && (
+            <div>
+              <h4 className="font-medium text-black mb-2">Cumulative revenue per user</h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={revenueCurves}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" tickFormatter={offset => `${granularity === 'month' ? 'M' : 'W'}${offset}`} />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                  <Legend />
+                  {matrix.cohorts.slice(-MAX_CURVES).map((cohort, i) => (
+                    <Line
+                      key={cohort.label}
+                      type="monotone"
+                      dataKey={cohort.label}
+                      stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                      dot={false}
+                      connectNulls={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
     </Card>
   );
-} 
\ No newline at end of file
+}
@@ -1,10 +1,256 @@
-import { Card } from '../../../../components/ui/card';
+import { useMemo, useState } from 'react';
+import type Graph from 'graphology';
+import { SigmaContainer, ControlsContainer, ZoomControl, FullScreenControl } from '@react-sigma/core';
+import '@react-sigma/core/lib/style.css';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { DataField } from '@/types/data';
+import { addLoadedDatasets } from '@/utils/storage/db';
+import { buildCorrelationGraph, buildEdgeListGraph } from '@/utils/analysis/network/graph';
+import {
+  detectCommunities,
+  membershipToFields,
+  withCommunityColumns,
+  type CommunityAlgorithm,
+  type CommunityResult
+} from '@/utils/analysis/network/communities';
+
+import { isMeasureField } from '@/utils/file/columnTypes';
+interface CommunityDetectionProps {
+  data: {
+    fields: DataField[];
+  };
+}
+
+type GraphSource = 'edges' | 'correlation';
+
+const COMMUNITY_COLORS = [
+  '#2563eb', '#16a34a', '#dc2626', '#9333ea', '#ea580c',
+  '#0891b2', '#ca8a04', '#db2777', '#4f46e5', '#65a30d'
+];
+// Communities past this share a grey so the palette stays distinguishable
+const OTHER_COLOR = '#9ca3af';
+
+/**
+ * Places communities around a large circle and each community's nodes on a
+ * small circle around its centre, sized by community, so groups read at a glance.
+ */
+function layoutByCommunity(graph: Graph, result: CommunityResult): void {
+  const count = result.communities.length;
+  result.communities.forEach((community, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(count, 1);
+    const spread = count > 1 ? 10 : 0;
+    const radius = Math.sqrt(community.nodes.length);
+    const color = COMMUNITY_COLORS[index] ?? OTHER_COLOR;
+    community.nodes.forEach((node, i) => {
+      const inner = (2 * Math.PI * i) / community.nodes.length;
+      graph.mergeNodeAttributes(node, {
+        x: spread * Math.cos(angle) + radius * Math.cos(inner),
+        y: spread * Math.sin(angle) + radius * Math.sin(inner),
+        size: 3 + Math.min(graph.degree(node), 12),
+        color,
+        label: node
+      });
+    });
+  });
+  graph.forEachEdge((edge, attributes) => {
+    graph.mergeEdgeAttributes(edge, { size: 0.5 + Math.min(Number(attributes.weight ?? 1), 4) / 2, color: '#e5e7eb' });
+  });
+}
+
+export function CommunityDetection({ data }: CommunityDetectionProps) {
+  const fields = data.fields;
+  const keyFields = fields.filter(field => field.type !== 'date');
+  const numericFields = fields.filter(isMeasureField);
+
+  const [source, setSource] = useState<GraphSource>(() =>
+    fields.some(field => /^(source|from)/i.test(field.name)) ? 'edges' : 'correlation');
+  const [sourceField, setSourceField] = useState(() =>
+    keyFields.find(field => /^(source|from)/i.test(field.name))?.name ?? keyFields[0]?.name ?? '');
+  const [targetField, setTargetField] = useState(() =>
+    keyFields.find(field => /^(target|to)/i.test(field.name))?.name ?? keyFields[1]?.name ?? '');
+  const [weightField, setWeightField] = useState(() =>
+    numericFields.find(field => /weight|value|count|amount/i.test(field.name))?.name ?? '');
+  const [algorithm, setAlgorithm] = useState<CommunityAlgorithm>('leiden');
+  const [resolution, setResolution] = useState(1);
+  const [exported, setExported] = useState<string | null>(null);
+
+  const analysis = useMemo((): { graph?: Graph; result?: CommunityResult; skipped?: number; error?: string } => {
+    try {
+      let graph: Graph;
+      let skipped = 0;
+      if (source === 'edges') {
+        ({ graph, skipped } = buildEdgeListGraph(fields, {
+          sourceField,
+          targetField,
+          weightField: weightField || undefined
+        }));
+      } else {
+        graph = buildCorrelationGraph(fields);
+      }
+      const result = detectCommunities(graph, { algorithm, resolution });
+      layoutByCommunity(graph, result);
+      return { graph, result, skipped };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to detect communities' };
+    }
+  }, [fields, source, sourceField, targetField, weightField, algorithm, resolution]);
+
+  const { graph, result } = analysis;
+
+  const handleExport = async () => {
+    if (!result) return;
+    const name = source === 'edges' ? 'edges_with_communities' : 'column_communities';
+    const exportFields = source === 'edges'
+      ? withCommunityColumns(fields, { sourceField, targetField, weightField: weightField || undefined }, result)
+      : membershipToFields(result, 'column');
+    await addLoadedDatasets([{ type: 'csv', name, content: { fields: exportFields } }]);
+    setExported(name);
+  };
+
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
 
-export function CommunityDetection() {
   return (
-    <Card className="p-4">
-      <h3 className="text-lg font-semibold text-black mb-4">Community Detection</h3>
-      <p className="text-gray-600">Community detection analysis component will be implemented here.</p>
+    <Card className="p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-black">Community Detection</h3>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={!result}>
+          {source === 'edges' ? 'Add community columns' : 'Save membership as dataset'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Graph
+          <select
+            value={source}
+            onChange={e => setSource(e.target.value as GraphSource)}
+            className="p-2 border border-gray-200 rounded text-black"
+          >
+            <option value="edges">Edge list (one row per edge)</option>
+            <option value="correlation">Correlations between numeric columns</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Algorithm
+          <select
+            value={algorithm}
+            onChange={e => setAlgorithm(e.target.value as CommunityAlgorithm)}
+            className="p-2 border border-gray-200 rounded text-black"
+          >
+            <option value="leiden">Leiden</option>
+            <option value="louvain">Louvain</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          Resolution
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={resolution}
+            onChange={e => setResolution(Number(e.target.value) || 1)}
+            className="p-2 border border-gray-200 rounded text-black"
+          />
+        </label>
+      </div>
+
+      {source === 'edges' && (
+        <div className="grid grid-cols-3 gap-4">
+          {select('Source', sourceField, setSourceField, keyFields)}
+          {select('Target', targetField, setTargetField, keyFields)}
+          {select('Weight', weightField, setWeightField, numericFields, 'None (all 1)')}
+        </div>
+      )}
+
+      {exported && <p className="text-sm text-green-700">Saved as dataset "{exported}".</p>}
+      {analysis.error && <p className="text-sm text-red-600">{analysis.error}</p>}
+      {!!analysis.skipped && (
+        <p className="text-sm text-amber-600">
+          {analysis.skipped.toLocaleString()} rows were skipped (missing endpoints, self-loops or non-positive weights).
+        </p>
+      )}
+
+      {graph && result && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="h-96 border rounded-lg overflow-hidden">
+            <SigmaContainer key={`${source}-${algorithm}-${resolution}-${graph.order}`} graph={graph}>
+              <ControlsContainer position="bottom-right">
+                <ZoomControl />
+                <FullScreenControl />
+              </ControlsContainer>
+            </SigmaContainer>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-3">
+              {[
+                ['Nodes', graph.order.toLocaleString()],
+                ['Edges', graph.size.toLocaleString()],
+                ['Communities', result.communities.length.toLocaleString()],
+                ['Modularity', result.modularity.toFixed(3)]
+              ].map(([title, value]) => (
+                <div key={title} className="bg-gray-50 p-3 rounded text-center">
+                  <p className="text-sm text-gray-500">{title}</p>
+                  <p className="text-lg font-semibold text-black">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="max-h-72 overflow-y-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="py-1">Community</th>
+                    <th className="py-1 text-right">Size</th>
+                    <th className="py-1 text-right">Modularity</th>
+                    <th className="py-1 pl-3">Members</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.communities.map((community, index) => (
+                    <tr key={community.id} className="text-black">
+                      <td className="py-1">
+                        <span
+                          className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                          style={{ backgroundColor: COMMUNITY_COLORS[index] ?? OTHER_COLOR }}
+                        />
+                        {community.id}
+                      </td>
+                      <td className="py-1 text-right">{community.nodes.length.toLocaleString()}</td>
+                      <td className="py-1 text-right">{community.modularity.toFixed(3)}</td>
+                      <td className="py-1 pl-3 text-gray-600 truncate max-w-xs">
+                        {community.nodes.slice(0, 5).join(', ')}
+                        {community.nodes.length > 5 && ` +${community.nodes.length - 5}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
     </Card>
   );
-} 
\ No newline at end of file
+}
@@ -1,10 +1,372 @@
-import { Card } from '../../../../components/ui/card';
+import { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import type { DataField } from '@/types/data';
+import { findField, toTime } from '@/utils/analysis/network/events';
+import {
+  analyzeFunnel,
+  compareFunnels,
+  listEventNames,
+  type DateRange,
+  type FunnelResult
+} from '@/utils/analysis/network/funnels';
+
+interface FunnelAnalysisProps {
+  data: {
+    fields: DataField[];
+  };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const WINDOW_UNITS = { hours: 60 * 60 * 1000, days: DAY } as const;
+
+function formatDuration(ms: number | null): string {
+  if (ms == null) return '—';
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)}s`;
+  if (ms < 60 * 60 * 1000) return `${Math.round(ms / 60000)}m`;
+  if (ms < DAY) return `${(ms / 3600000).toFixed(1)}h`;
+  return `${(ms / DAY).toFixed(1)}d`;
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+const toDateInput = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Date inputs are whole days, so the end date is included in the range
+function toRange(start: string, end: string): DateRange | null {
+  const from = Date.parse(start);
+  const to = Date.parse(end);
+  return isNaN(from) || isNaN(to) ? null : { start: from, end: to + DAY };
+}
+
+export function FunnelAnalysis({ data }: FunnelAnalysisProps) {
+  const fields = data.fields;
+  const dateFields = fields.filter(field => field.type === 'date');
+  const textFields = fields.filter(field => field.type === 'string');
+
+  const [userField, setUserField] = useState(() =>
+    textFields.find(field => /user|customer|account|session|id/i.test(field.name))?.name ?? textFields[0]?.name ?? '');
+  const [eventField, setEventField] = useState(() =>
+    textFields.find(field => /event|action|step|page|name/i.test(field.name))?.name ?? textFields[1]?.name ?? '');
+  const [timeField, setTimeField] = useState(() => dateFields[0]?.name ?? '');
+  const [breakdownField, setBreakdownField] = useState('');
+  const [steps, setSteps] = useState<string[]>([]);
+  const [windowValue, setWindowValue] = useState(7);
+  const [windowUnit, setWindowUnit] = useState<keyof typeof WINDOW_UNITS>('days');
+  const [compare, setCompare] = useState(false);
+  const [ranges, setRanges] = useState<{ current: [string, string]; previous: [string, string] } | null>(null);
+
+  const eventNames = useMemo(() => {
+    if (!eventField) return [];
+    try {
+      return listEventNames(fields, eventField);
+    } catch {
+      return [];
+    }
+  }, [fields, eventField]);
+
+  // Until steps are picked, suggest the three most frequent events
+  const activeSteps = useMemo(
+    () => steps.length > 0 ? steps : eventNames.slice(0, 3).map(event => event.name),
+    [steps, eventNames]
+  );
+
+  // Default comparison: the last 30 days of data against the 30 days before
+  const defaultRanges = useMemo(() => {
+    if (!timeField) return null;
+    const times = findField(fields, timeField).value.map(toTime).filter((time): time is number => time != null);
+    if (times.length === 0) return null;
+    const last = times.reduce((max, time) => Math.max(max, time), -Infinity);
+    return {
+      current: [toDateInput(last - 29 * DAY), toDateInput(last)] as [string, string],
+      previous: [toDateInput(last - 59 * DAY), toDateInput(last - 30 * DAY)] as [string, string]
+    };
+  }, [fields, timeField]);
+
+  const activeRanges = ranges ?? defaultRanges;
+
+  const result = useMemo((): { funnel?: FunnelResult; previous?: FunnelResult; error?: string } => {
+    if (!userField || !eventField || !timeField) {
+      return { error: 'Choose user, event and timestamp columns' };
+    }
+    const options = {
+      userField,
+      eventField,
+      timeField,
+      steps: activeSteps,
+      windowMs: windowValue * WINDOW_UNITS[windowUnit],
+      breakdownField: breakdownField || undefined
+    };
+    try {
+      if (compare && activeRanges) {
+        const current = toRange(...activeRanges.current);
+        const previous = toRange(...activeRanges.previous);
+        if (!current || !previous) return { error: 'Enter both date ranges' };
+        const [funnel, before] = compareFunnels(fields, options, current, previous);
+        return { funnel, previous: before };
+      }
+      return { funnel: analyzeFunnel(fields, options) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to analyze funnel' };
+    }
+  }, [fields, userField, eventField, timeField, breakdownField, activeSteps, windowValue, windowUnit, compare, activeRanges]);
+
+  const chartData = result.funnel?.steps.map((step, index) => ({
+    step: step.step,
+    current: step.users,
+    ...(result.previous ? { previous: result.previous.steps[index].users } : {})
+  })) ?? [];
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...activeSteps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSteps(next);
+  };
+
+  const updateRange = (which: 'current' | 'previous', index: 0 | 1, value: string) => {
+    if (!activeRanges) return;
+    const next = { current: [...activeRanges.current], previous: [...activeRanges.previous] } as typeof activeRanges;
+    next[which][index] = value;
+    setRanges(next);
+  };
+
+  if (dateFields.length === 0 || textFields.length < 2) {
+    return (
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold text-black mb-4">Funnel Analysis</h3>
+        <p className="text-gray-600">
+          Funnel analysis needs an event log: a user column, an event name column and a timestamp.
+        </p>
+      </Card>
+    );
+  }
+
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const unusedEvents = eventNames.filter(event => !activeSteps.includes(event.name));
 
-export function FunnelAnalysis() {
   return (
-    <Card className="p-4">
-      <h3 className="text-lg font-semibold text-black mb-4">Funnel Analysis</h3>
-      <p className="text-gray-600">Funnel analysis component will be implemented here.</p>
+    <Card className="p-4 space-y-6">
+      <h3 className="text-lg font-semibold text-black">Funnel Analysis</h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {select('User ID', userField, setUserField, textFields)}
+        {select('Event name', eventField, value => { setEventField(value); setSteps([]); }, textFields)}
+        {select('Timestamp', timeField, setTimeField, dateFields)}
+        {select('Break down by', breakdownField, setBreakdownField, fields.filter(field => field.type !== 'date'), 'None')}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h4 className="font-medium text-black">Steps</h4>
+          {activeSteps.map((step, index) => (
+            <div key={`${step}-${index}`} className="flex items-center gap-2 text-sm">
+              <span className="w-6 text-gray-500">{index + 1}.</span>
+              <span className="flex-1 text-black truncate">{step}</span>
+              <button
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveStep(index, 1)}
+                disabled={index === activeSteps.length - 1}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setSteps(activeSteps.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove step"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {unusedEvents.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Plus className="w-4 h-4 text-gray-400" />
+              <select
+                value=""
+                onChange={e => e.target.value && setSteps([...activeSteps, e.target.value])}
+                className="flex-1 p-2 border border-gray-200 rounded text-sm text-black"
+              >
+                <option value="">Add step…</option>
+                {unusedEvents.map(event => (
+                  <option key={event.name} value={event.name}>
+                    {event.name} ({event.count.toLocaleString()})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            Conversion window
+            <input
+              type="number"
+              min={1}
+              value={windowValue}
+              onChange={e => setWindowValue(Number(e.target.value))}
+              className="w-20 p-2 border border-gray-200 rounded text-black"
+            />
+            <select
+              value={windowUnit}
+              onChange={e => setWindowUnit(e.target.value as keyof typeof WINDOW_UNITS)}
+              className="p-2 border border-gray-200 rounded text-black"
+            >
+              <option value="hours">hours</option>
+              <option value="days">days</option>
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={compare} onChange={e => setCompare(e.target.checked)} />
+            Compare two date ranges
+          </label>
+
+          {compare && activeRanges && (['current', 'previous'] as const).map(which => (
+            <div key={which} className="flex items-center gap-2">
+              <span className="w-20 capitalize">{which}</span>
+              <input
+                type="date"
+                value={activeRanges[which][0]}
+                onChange={e => updateRange(which, 0, e.target.value)}
+                className="p-1 border border-gray-200 rounded text-black"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={activeRanges[which][1]}
+                onChange={e => updateRange(which, 1, e.target.value)}
+                className="p-1 border border-gray-200 rounded text-black"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {result.error && <p className="text-sm text-red-600">{result.error}</p>}
+
+      {result.funnel && (
+        <>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="step" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="current" name={result.previous ? 'Current range' : 'Users'} fill="#0088FE" />
+              {result.previous && <Bar dataKey="previous" name="Previous range" fill="#A0AEC0" />}
+            </BarChart>
+          </ResponsiveContainer>
+
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-1">Step</th>
+                <th className="py-1 text-right">Users</th>
+                <th className="py-1 text-right">From previous</th>
+                <th className="py-1 text-right">From start</th>
+                <th className="py-1 text-right">Median time</th>
+                {result.previous && <th className="py-1 text-right">Previous range</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {result.funnel.steps.map((step, index) => {
+                const before = result.previous?.steps[index];
+                const change = before ? step.conversionFromStart - before.conversionFromStart : 0;
+                return (
+                  <tr key={`${step.step}-${index}`} className="text-black">
+                    <td className="py-1">{step.step}</td>
+                    <td className="py-1 text-right">{step.users.toLocaleString()}</td>
+                    <td className="py-1 text-right">{index === 0 ? '—' : formatPercent(step.conversionFromPrevious)}</td>
+                    <td className="py-1 text-right">{formatPercent(step.conversionFromStart)}</td>
+                    <td className="py-1 text-right">{formatDuration(step.medianTimeFromPrevious)}</td>
+                    {before && (
+                      <td className="py-1 text-right">
+                        {formatPercent(before.conversionFromStart)}
+                        {index > 0 && (
+                          <span className={change >= 0 ? 'text-green-600' : 'text-red-600'}>
+                            {' '}({change >= 0 ? '+' : ''}{(change * 100).toFixed(1)} pts)
+                          </span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {result.funnel.breakdown.length > 0 && (
+            <div>
+              <h4 className="font-medium text-black mb-2">Drop-off by {breakdownField}</h4>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-500 text-left">
+                      <th className="py-1">{breakdownField}</th>
+                      <th className="py-1 text-right">Entered</th>
+                      {result.funnel.steps.slice(1).map((step, index) => (
+                        <th key={`${step.step}-${index}`} className="py-1 text-right">{step.step}</th>
+                      ))}
+                      <th className="py-1 text-right">Overall</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.funnel.breakdown.map(group => (
+                      <tr key={group.value} className="text-black">
+                        <td className="py-1">{group.value}</td>
+                        <td className="py-1 text-right">{group.steps[0].users.toLocaleString()}</td>
+                        {group.steps.slice(1).map((step, index) => (
+                          <td key={index} className="py-1 text-right" title={`${step.users} users`}>
+                            {formatPercent(step.conversionFromPrevious)}
+                          </td>
+                        ))}
+                        <td className="py-1 text-right font-medium">
+                          {formatPercent(group.steps[group.steps.length - 1].conversionFromStart)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
     </Card>
   );
-} 
\ No newline at end of file
+}
@@ -1,662 +1,393 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Card } from '../../../../components/ui/card';
-import { Button } from '../../../../components/ui/button';
-import { Badge } from '../../../../components/ui/badge';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../../components/ui/tabs';
-import { RotateCcw, Plus, Minus, Info, Zap, GitBranch, Network } from 'lucide-react';
-
-interface Node {
-  id: number;
-  x: number;
-  y: number;
-  label: string;
-}
-
-interface Edge {
-  from: number;
-  to: number;
-  weight: number;
-}
-
-interface GraphStats {
-  nodes: number;
-  edges: number;
-  maxDegree: number;
-  minDegree: number;
-  avgDegree: string;
-  isConnected: boolean;
-  density: number;
+import { useEffect, useRef, useState } from 'react';
+import { ArrowRight, Loader2, Network } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { DataField } from '@/types/data';
+import { addLoadedDatasets } from '@/utils/storage/db';
+import { GraphWorkerClient, type LoadedGraph } from '@/utils/analysis/network/GraphWorkerClient';
+import type { GraphAlgorithmResult, GraphEdge } from '@/utils/analysis/network/algorithms';
+
+import { isMeasureField } from '@/utils/file/columnTypes';
+interface GraphTheoryProps {
+  data: {
+    fields: DataField[];
+  };
 }
 
-interface SampleGraph {
-  nodes: Node[];
-  edges: Edge[];
+type Algorithm = GraphAlgorithmResult['algorithm'];
+
+const ALGORITHMS: Array<{ id: Algorithm; label: string; description: string; endpoints?: [string, string] }> = [
+  {
+    id: 'shortestPath',
+    label: 'Shortest path',
+    description: 'Cheapest route between two nodes, with weights as distances (Dijkstra).',
+    endpoints: ['From', 'To']
+  },
+  { id: 'components', label: 'Connected components', description: 'Groups of nodes reachable from each other, ignoring direction.' },
+  { id: 'spanningTree', label: 'Minimum spanning tree', description: 'Cheapest set of edges connecting every node (Kruskal).' },
+  {
+    id: 'maxFlow',
+    label: 'Maximum flow',
+    description: 'Most that can flow from source to sink, with weights as capacities (Dinic).',
+    endpoints: ['Source', 'Sink']
+  },
+  { id: 'cycle', label: 'Cycle detection', description: 'Finds a cycle, following edge direction in directed graphs.' }
+];
+
+// Keeps long result lists from flooding the DOM
+const MAX_ROWS = 100;
+// Node suggestions offered while typing an endpoint
+const MAX_SUGGESTIONS = 1000;
+
+function EdgeTable({ edges, weightLabel }: { edges: GraphEdge[]; weightLabel: string }) {
+  return (
+    <div className="max-h-72 overflow-y-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="py-1">From</th>
+            <th className="py-1">To</th>
+            <th className="py-1 text-right">{weightLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {edges.slice(0, MAX_ROWS).map((edge, index) => (
+            <tr key={index} className="text-black">
+              <td className="py-1">{edge.source}</td>
+              <td className="py-1">{edge.target}</td>
+              <td className="py-1 text-right">{edge.weight.toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {edges.length > MAX_ROWS && (
+        <p className="text-xs text-gray-500 mt-1">Showing {MAX_ROWS} of {edges.length.toLocaleString()} edges</p>
+      )}
+    </div>
+  );
 }
 
-interface SampleGraphs {
-  [key: string]: SampleGraph;
+function NodeSequence({ nodes, closed }: { nodes: string[]; closed?: boolean }) {
+  const shown = closed ? [...nodes, nodes[0]] : nodes;
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {shown.map((node, index) => (
+        <span key={index} className="flex items-center gap-1">
+          {index > 0 && <ArrowRight className="h-3 w-3 text-gray-400" />}
+          <Badge variant="outline">{node}</Badge>
+        </span>
+      ))}
+    </div>
+  );
 }
 
-export function GraphTheory() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [canvasSize, setCanvasSize] = useState({ width: 550, height: 400 });
-  const [nodes, setNodes] = useState<Node[]>([]);
-  const [edges, setEdges] = useState<Edge[]>([]);
-  const [selectedNode, setSelectedNode] = useState<number | null>(null);
-  const [mode, setMode] = useState<'add-node' | 'add-edge' | 'move'>('add-node');
-  const [draggedNode, setDraggedNode] = useState<number | null>(null);
-  const [isAnimating, setIsAnimating] = useState(false);
-  const [currentAlgorithm, setCurrentAlgorithm] = useState<string | null>(null);
-  const [visitedNodes, setVisitedNodes] = useState<Set<number>>(new Set());
-  const [visitedEdges, setVisitedEdges] = useState<Set<string>>(new Set());
-  const [graphStats, setGraphStats] = useState<GraphStats>({
-    nodes: 0,
-    edges: 0,
-    maxDegree: 0,
-    minDegree: 0,
-    avgDegree: '0',
-    isConnected: true,
-    density: 0
-  });
-
-  // Sample graphs for quick testing
-  const sampleGraphs: SampleGraphs = {
-    complete4: {
-      nodes: [
-        { id: 1, x: 200, y: 150, label: 'A' },
-        { id: 2, x: 350, y: 150, label: 'B' },
-        { id: 3, x: 350, y: 300, label: 'C' },
-        { id: 4, x: 200, y: 300, label: 'D' }
-      ],
-      edges: [
-        { from: 1, to: 2, weight: 1 },
-        { from: 2, to: 3, weight: 2 },
-        { from: 3, to: 4, weight: 3 },
-        { from: 4, to: 1, weight: 4 },
-        { from: 1, to: 3, weight: 5 },
-        { from: 2, to: 4, weight: 6 }
-      ]
-    },
-    tree: {
-      nodes: [
-        { id: 1, x: 275, y: 100, label: 'Root' },
-        { id: 2, x: 200, y: 200, label: 'L1' },
-        { id: 3, x: 350, y: 200, label: 'R1' },
-        { id: 4, x: 150, y: 300, label: 'L2' },
-        { id: 5, x: 250, y: 300, label: 'L3' },
-        { id: 6, x: 400, y: 300, label: 'R2' }
-      ],
-      edges: [
-        { from: 1, to: 2, weight: 1 },
-        { from: 1, to: 3, weight: 1 },
-        { from: 2, to: 4, weight: 1 },
-        { from: 2, to: 5, weight: 1 },
-        { from: 3, to: 6, weight: 1 }
-      ]
-    }
-  };
-
-  // Calculate graph statistics
-  const calculateStats = useCallback(() => {
-    const numNodes = nodes.length;
-    const numEdges = edges.length;
-    const degrees: { [key: number]: number } = {};
-    
-    nodes.forEach(node => {
-      degrees[node.id] = edges.filter(edge => 
-        edge.from === node.id || edge.to === node.id
-      ).length;
-    });
-
-    const maxDegree = Math.max(...Object.values(degrees), 0);
-    const minDegree = Math.min(...Object.values(degrees), 0);
-    const avgDegree = numNodes > 0 ? (2 * numEdges) / numNodes : 0;
-
-    // Check if graph is connected (simple BFS check)
-    const isConnected = numNodes <= 1 || checkConnectivity();
-
-    setGraphStats({
-      nodes: numNodes,
-      edges: numEdges,
-      maxDegree,
-      minDegree,
-      avgDegree: avgDegree.toFixed(2),
-      isConnected,
-      density: numNodes > 1 ? (2 * numEdges) / (numNodes * (numNodes - 1)) : 0
-    });
-  }, [nodes, edges]);
-
-  const checkConnectivity = () => {
-    if (nodes.length === 0) return true;
-    
-    const visited = new Set<number>();
-    const queue = [nodes[0].id];
-    visited.add(nodes[0].id);
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const neighbors = edges
-        .filter(edge => edge.from === current || edge.to === current)
-        .map(edge => edge.from === current ? edge.to : edge.from);
-      
-      neighbors.forEach(neighbor => {
-        if (!visited.has(neighbor)) {
-          visited.add(neighbor);
-          queue.push(neighbor);
-        }
-      });
-    }
-
-    return visited.size === nodes.length;
-  };
+export function GraphTheory({ data }: GraphTheoryProps) {
+  const fields = data.fields;
+  const keyFields = fields.filter(field => field.type !== 'date');
+  const numericFields = fields.filter(isMeasureField);
+
+  const [sourceField, setSourceField] = useState(() =>
+    keyFields.find(field => /^(source|from)/i.test(field.name))?.name ?? keyFields[0]?.name ?? '');
+  const [targetField, setTargetField] = useState(() =>
+    keyFields.find(field => /^(target|to)/i.test(field.name))?.name ?? keyFields[1]?.name ?? '');
+  const [weightField, setWeightField] = useState(() =>
+    numericFields.find(field => /weight|cost|distance|capacity|value/i.test(field.name))?.name ?? '');
+  const [directed, setDirected] = useState(false);
+  const [loaded, setLoaded] = useState<LoadedGraph | null>(null);
+  const [algorithm, setAlgorithm] = useState<Algorithm>('shortestPath');
+  const [endpoints, setEndpoints] = useState<[string, string]>(['', '']);
+  const [result, setResult] = useState<GraphAlgorithmResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exported, setExported] = useState<string | null>(null);
+  const clientRef = useRef<GraphWorkerClient | null>(null);
 
   useEffect(() => {
-    calculateStats();
-  }, [nodes, edges, calculateStats]);
-
-  // Add resize observer effect
-  useEffect(() => {
-    const updateCanvasSize = () => {
-      if (containerRef.current) {
-        const { width, height } = containerRef.current.getBoundingClientRect();
-        setCanvasSize({
-          width: width - 32, // Subtract padding
-          height: height - 32
-        });
-      }
-    };
-
-    const resizeObserver = new ResizeObserver(updateCanvasSize);
-    if (containerRef.current) {
-      resizeObserver.observe(containerRef.current);
-    }
-
+    const client = new GraphWorkerClient();
+    clientRef.current = client;
     return () => {
-      resizeObserver.disconnect();
+      client.terminate();
+      clientRef.current = null;
     };
   }, []);
 
-  // Drawing functions
-  const drawGraph = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas dimensions
-    canvas.width = canvasSize.width;
-    canvas.height = canvasSize.height;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw edges
-    edges.forEach((edge) => {
-      const fromNode = nodes.find(n => n.id === edge.from);
-      const toNode = nodes.find(n => n.id === edge.to);
-      
-      if (fromNode && toNode) {
-        ctx.beginPath();
-        ctx.moveTo(fromNode.x, fromNode.y);
-        ctx.lineTo(toNode.x, toNode.y);
-        
-        // Highlight visited edges during algorithm animation
-        if (visitedEdges.has(`${edge.from}-${edge.to}`) || visitedEdges.has(`${edge.to}-${edge.from}`)) {
-          ctx.strokeStyle = '#ef4444';
-          ctx.lineWidth = 3;
-        } else {
-          ctx.strokeStyle = '#64748b';
-          ctx.lineWidth = 2;
-        }
-        
-        ctx.stroke();
-
-        // Draw weight labels
-        const midX = (fromNode.x + toNode.x) / 2;
-        const midY = (fromNode.y + toNode.y) / 2;
-        ctx.fillStyle = '#1f2937';
-        ctx.font = '12px Arial';
-        ctx.fillText(edge.weight.toString(), midX + 5, midY - 5);
-      }
-    });
-
-    // Draw nodes
-    nodes.forEach(node => {
-      ctx.beginPath();
-      ctx.arc(node.x, node.y, 20, 0, 2 * Math.PI);
-      
-      // Node colors based on state
-      if (visitedNodes.has(node.id)) {
-        ctx.fillStyle = '#10b981';
-      } else if (selectedNode === node.id) {
-        ctx.fillStyle = '#3b82f6';
-      } else {
-        ctx.fillStyle = '#f8fafc';
-      }
-      
-      ctx.fill();
-      ctx.strokeStyle = '#334155';
-      ctx.lineWidth = 2;
-      ctx.stroke();
-
-      // Draw node labels
-      ctx.fillStyle = '#1f2937';
-      ctx.font = 'bold 12px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText(node.label || node.id.toString(), node.x, node.y + 4);
-    });
-  }, [nodes, edges, selectedNode, visitedNodes, visitedEdges, canvasSize]);
-
   useEffect(() => {
-    drawGraph();
-  }, [drawGraph]);
-
-  // Event handlers
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    // Check if clicked on existing node
-    const clickedNode = nodes.find(node => {
-      const distance = Math.sqrt((x - node.x) ** 2 + (y - node.y) ** 2);
-      return distance <= 20;
-    });
-
-    if (mode === 'add-node' && !clickedNode) {
-      const newNode = {
-        id: nodes.length + 1,
-        x,
-        y,
-        label: String.fromCharCode(65 + nodes.length) // A, B, C...
-      };
-      setNodes(prev => [...prev, newNode]);
-    } else if (mode === 'add-edge' && clickedNode) {
-      if (!selectedNode) {
-        setSelectedNode(clickedNode.id);
-      } else if (selectedNode !== clickedNode.id) {
-        // Check if edge already exists
-        const edgeExists = edges.some(edge => 
-          (edge.from === selectedNode && edge.to === clickedNode.id) ||
-          (edge.from === clickedNode.id && edge.to === selectedNode)
-        );
-        
-        if (!edgeExists) {
-          const weight = Math.floor(Math.random() * 10) + 1;
-          setEdges(prev => [...prev, { from: selectedNode, to: clickedNode.id, weight }]);
-        }
-        setSelectedNode(null);
-      }
-    } else if (mode === 'move' && clickedNode) {
-      setDraggedNode(clickedNode.id);
-    }
-  };
-
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (draggedNode && mode === 'move') {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
+    const client = clientRef.current;
+    if (!client || !sourceField || !targetField) return;
+
+    let cancelled = false;
+    setIsBusy(true);
+    setError(null);
+    setResult(null);
+    client.load(fields, { sourceField, targetField, weightField: weightField || undefined, directed })
+      .then(graph => {
+        if (cancelled) return;
+        setLoaded(graph);
+        setEndpoints(current => current.every(node => graph.nodes.includes(node))
+          ? current
+          : [graph.nodes[0] ?? '', graph.nodes[graph.nodes.length - 1] ?? '']);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setLoaded(null);
+        setError(err instanceof Error ? err.message : 'Failed to build the graph');
+      })
+      .finally(() => {
+        if (!cancelled) setIsBusy(false);
+      });
 
-      setNodes(prev => prev.map(node => 
-        node.id === draggedNode ? { ...node, x, y } : node
+    return () => {
+      cancelled = true;
+    };
+  }, [fields, sourceField, targetField, weightField, directed]);
+
+  const selected = ALGORITHMS.find(option => option.id === algorithm)!;
+
+  const handleRun = async () => {
+    const client = clientRef.current;
+    if (!client) return;
+    setIsBusy(true);
+    setError(null);
+    setExported(null);
+    try {
+      const [from, to] = endpoints;
+      setResult(await client.run(
+        algorithm === 'shortestPath' || algorithm === 'maxFlow'
+          ? { algorithm, from, to }
+          : { algorithm }
       ));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Algorithm failed');
+    } finally {
+      setIsBusy(false);
     }
   };
 
-  const handleMouseUp = () => {
-    setDraggedNode(null);
-  };
-
-  // Algorithm implementations
-  const runDFS = async (startNodeId: number) => {
-    setIsAnimating(true);
-    setCurrentAlgorithm('DFS');
-    setVisitedNodes(new Set<number>());
-    setVisitedEdges(new Set<string>());
-
-    const visited = new Set<number>();
-    const stack = [startNodeId];
-    const newVisitedNodes = new Set<number>();
-    const newVisitedEdges = new Set<string>();
-
-    while (stack.length > 0) {
-      const current = stack.pop()!;
-      
-      if (!visited.has(current)) {
-        visited.add(current);
-        newVisitedNodes.add(current);
-        setVisitedNodes(new Set<number>(newVisitedNodes));
-        
-        await new Promise(resolve => setTimeout(resolve, 800));
-
-        // Add neighbors to stack
-        const neighbors = edges
-          .filter(edge => 
-            (edge.from === current || edge.to === current) && 
-            !visited.has(edge.from === current ? edge.to : edge.from)
-          )
-          .map(edge => {
-            const neighbor = edge.from === current ? edge.to : edge.from;
-            newVisitedEdges.add(`${current}-${neighbor}`);
-            return neighbor;
-          });
-
-        setVisitedEdges(new Set<string>(newVisitedEdges));
-        stack.push(...neighbors);
-      }
+  const handleExport = async () => {
+    if (!result) return;
+    let name: string;
+    let exportFields: DataField[];
+    if (result.algorithm === 'components') {
+      name = 'graph_components';
+      const nodes = result.components.flat();
+      const ids = result.components.flatMap((component, id) => component.map(() => id));
+      exportFields = [
+        { name: 'node', type: 'string', value: nodes },
+        { name: 'component', type: 'number', value: ids }
+      ];
+    } else if (result.algorithm === 'spanningTree' || result.algorithm === 'maxFlow') {
+      name = result.algorithm === 'spanningTree' ? 'spanning_tree' : 'max_flow';
+      const edges = result.algorithm === 'spanningTree' ? result.edges : result.flows;
+      exportFields = [
+        { name: 'source', type: 'string', value: edges.map(edge => edge.source) },
+        { name: 'target', type: 'string', value: edges.map(edge => edge.target) },
+        { name: result.algorithm === 'spanningTree' ? 'weight' : 'flow', type: 'number', value: edges.map(edge => edge.weight) }
+      ];
+    } else {
+      return;
     }
-
-    setIsAnimating(false);
+    await addLoadedDatasets([{ type: 'csv', name, content: { fields: exportFields } }]);
+    setExported(name);
   };
 
-  const runBFS = async (startNodeId: number) => {
-    setIsAnimating(true);
-    setCurrentAlgorithm('BFS');
-    setVisitedNodes(new Set<number>());
-    setVisitedEdges(new Set<string>());
-
-    const visited = new Set<number>();
-    const queue = [startNodeId];
-    const newVisitedNodes = new Set<number>();
-    const newVisitedEdges = new Set<string>();
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      
-      if (!visited.has(current)) {
-        visited.add(current);
-        newVisitedNodes.add(current);
-        setVisitedNodes(new Set<number>(newVisitedNodes));
-        
-        await new Promise(resolve => setTimeout(resolve, 800));
-
-        // Add neighbors to queue
-        const neighbors = edges
-          .filter(edge => 
-            (edge.from === current || edge.to === current) && 
-            !visited.has(edge.from === current ? edge.to : edge.from)
-          )
-          .map(edge => {
-            const neighbor = edge.from === current ? edge.to : edge.from;
-            newVisitedEdges.add(`${current}-${neighbor}`);
-            return neighbor;
-          });
-
-        setVisitedEdges(new Set<string>(newVisitedEdges));
-        queue.push(...neighbors);
-      }
-    }
-
-    setIsAnimating(false);
-  };
-
-  const loadSampleGraph = (graphKey: keyof SampleGraphs) => {
-    const graph = sampleGraphs[graphKey];
-    setNodes(graph.nodes);
-    setEdges(graph.edges);
-    setSelectedNode(null);
-    setVisitedNodes(new Set());
-    setVisitedEdges(new Set());
-  };
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
 
-  const clearGraph = () => {
-    setNodes([]);
-    setEdges([]);
-    setSelectedNode(null);
-    setVisitedNodes(new Set());
-    setVisitedEdges(new Set());
-    setCurrentAlgorithm(null);
-  };
+  const summary = loaded?.summary;
+  const canExport = result?.algorithm === 'components' || result?.algorithm === 'spanningTree'
+    || (result?.algorithm === 'maxFlow' && result.flows.length > 0);
 
   return (
-    <Card className="p-6 max-w-6xl mx-auto bg-gradient-to-br from-slate-50 to-blue-50">
-      <div className="flex items-center gap-3 mb-6">
-        <Network className="h-7 w-7 text-blue-600" />
-        <h3 className="text-2xl font-bold text-gray-800">Interactive Graph Theory Analysis</h3>
+    <Card className="p-4 space-y-6">
+      <div className="flex items-center gap-3">
+        <Network className="h-6 w-6 text-blue-600" />
+        <h3 className="text-lg font-semibold text-black">Graph Theory</h3>
+        {isBusy && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
       </div>
 
-      <Tabs defaultValue="visualization" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
-          <TabsTrigger value="visualization" className="flex items-center gap-2">
-            <GitBranch className="h-4 w-4" />
-            Visualization
-          </TabsTrigger>
-          <TabsTrigger value="algorithms" className="flex items-center gap-2">
-            <Zap className="h-4 w-4" />
-            Algorithms
-          </TabsTrigger>
-          <TabsTrigger value="analysis" className="flex items-center gap-2">
-            <Info className="h-4 w-4" />
-            Analysis
-          </TabsTrigger>
-        </TabsList>
+      {keyFields.length < 2 ? (
+        <p className="text-gray-600">
+          Graph analysis needs an edge list: one row per edge with source and target columns.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+            {select('Source', sourceField, setSourceField, keyFields)}
+            {select('Target', targetField, setTargetField, keyFields)}
+            {select('Weight', weightField, setWeightField, numericFields, 'None (all 1)')}
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input type="checkbox" checked={directed} onChange={e => setDirected(e.target.checked)} />
+              Directed edges
+            </label>
+          </div>
 
-        <TabsContent value="visualization" className="space-y-4">
-          {/* Control Panel */}
-          <div className="flex flex-wrap gap-3 p-4 bg-white rounded-lg border shadow-sm">
-            <div className="flex gap-2">
-              <Button
-                variant={mode === 'add-node' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setMode('add-node')}
-                className="flex items-center gap-2"
-              >
-                <Plus className="h-4 w-4" />
-                Add Node
-              </Button>
-              <Button
-                variant={mode === 'add-edge' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setMode('add-edge')}
-                className="flex items-center gap-2"
-              >
-                <Minus className="h-4 w-4" />
-                Add Edge
-              </Button>
-              <Button
-                variant={mode === 'move' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setMode('move')}
-              >
-                Move
-              </Button>
+          {summary && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {[
+                ['Nodes', summary.nodes.toLocaleString()],
+                ['Edges', summary.edges.toLocaleString()],
+                ['Density', summary.density.toFixed(4)],
+                ['Avg degree', summary.averageDegree.toFixed(2)],
+                ['Max degree', summary.maxDegree.toLocaleString()]
+              ].map(([title, value]) => (
+                <div key={title} className="bg-gray-50 p-3 rounded text-center">
+                  <p className="text-sm text-gray-500">{title}</p>
+                  <p className="text-lg font-semibold text-black">{value}</p>
+                </div>
+              ))}
             </div>
-
-            <div className="flex gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => loadSampleGraph('complete4')}
-              >
-                Load Complete Graph
-              </Button>
+          )}
+          {!!summary?.skipped && (
+            <p className="text-sm text-amber-600">
+              {summary.skipped.toLocaleString()} rows were skipped (missing endpoints, self-loops or missing weights).
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+            {ALGORITHMS.map(option => (
               <Button
-                variant="outline"
+                key={option.id}
+                variant={algorithm === option.id ? 'default' : 'outline'}
                 size="sm"
-                onClick={() => loadSampleGraph('tree')}
+                onClick={() => {
+                  setAlgorithm(option.id);
+                  setResult(null);
+                }}
               >
-                Load Tree
+                {option.label}
               </Button>
-              <Button
-                variant="destructive"
-                size="sm"
-                onClick={clearGraph}
-                className="flex items-center gap-2"
-              >
-                <RotateCcw className="h-4 w-4" />
-                Clear
-              </Button>
-            </div>
+            ))}
           </div>
-
-          {/* Update Canvas container */}
-          <div ref={containerRef} className="bg-white rounded-lg border shadow-sm p-4 h-[500px]">
-            <canvas
-              ref={canvasRef}
-              onClick={handleCanvasClick}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              className="border rounded cursor-crosshair bg-gradient-to-br from-gray-50 to-blue-50 w-full h-full"
-              style={{ cursor: mode === 'move' ? 'grab' : 'crosshair' }}
-            />
-            <div className="text-sm text-gray-600 mt-2">
-              Current Mode: <Badge variant="outline">{mode.replace('-', ' ').toUpperCase()}</Badge>
-              {selectedNode && <span className="ml-2">Selected Node: {selectedNode}</span>}
-            </div>
-          </div>
-        </TabsContent>
-
-        <TabsContent value="algorithms" className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <Card className="p-4">
-              <h4 className="font-semibold mb-3 flex items-center gap-2">
-                <Zap className="h-5 w-5 text-orange-500" />
-                Graph Traversal
-              </h4>
-              <div className="space-y-3">
-                <div>
-                  <Button
-                    onClick={() => nodes.length > 0 && runDFS(nodes[0].id)}
-                    disabled={isAnimating || nodes.length === 0}
-                    className="w-full mb-2"
-                  >
-                    {isAnimating && currentAlgorithm === 'DFS' ? 'Running...' : 'Depth-First Search (DFS)'}
-                  </Button>
-                  <p className="text-sm text-gray-600">
-                    Explores as far as possible along each branch before backtracking
-                  </p>
-                </div>
-                <div>
-                  <Button
-                    onClick={() => nodes.length > 0 && runBFS(nodes[0].id)}
-                    disabled={isAnimating || nodes.length === 0}
-                    variant="outline"
-                    className="w-full mb-2"
-                  >
-                    {isAnimating && currentAlgorithm === 'BFS' ? 'Running...' : 'Breadth-First Search (BFS)'}
-                  </Button>
-                  <p className="text-sm text-gray-600">
-                    Explores all neighbors at the current depth before moving to deeper levels
-                  </p>
-                </div>
-              </div>
-            </Card>
-
-            <Card className="p-4">
-              <h4 className="font-semibold mb-3">Algorithm Status</h4>
-              {currentAlgorithm ? (
-                <div className="space-y-2">
-                  <Badge variant="secondary">{currentAlgorithm} Active</Badge>
-                  <p className="text-sm text-gray-600">
-                    Visited Nodes: {visitedNodes.size} / {nodes.length}
-                  </p>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div 
-                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${nodes.length > 0 ? (visitedNodes.size / nodes.length) * 100 : 0}%` }}
-                    ></div>
-                  </div>
-                </div>
-              ) : (
-                <p className="text-sm text-gray-500">No algorithm running</p>
-              )}
-            </Card>
+          <p className="text-sm text-gray-600">{selected.description}</p>
+
+          <div className="flex flex-wrap items-end gap-3">
+            {selected.endpoints?.map((label, index) => (
+              <label key={label} className="flex flex-col gap-1 text-sm text-gray-700">
+                {label}
+                <input
+                  list="graph-theory-nodes"
+                  value={endpoints[index]}
+                  onChange={e => {
+                    const value = e.target.value;
+                    setEndpoints(current => index === 0 ? [value, current[1]] : [current[0], value]);
+                  }}
+                  className="p-2 border border-gray-200 rounded text-black"
+                />
+              </label>
+            ))}
+            <datalist id="graph-theory-nodes">
+              {loaded?.nodes.slice(0, MAX_SUGGESTIONS).map(node => <option key={node} value={node} />)}
+            </datalist>
+            <Button onClick={handleRun} disabled={isBusy || !loaded}>
+              Run
+            </Button>
+            {canExport && (
+              <Button variant="outline" onClick={handleExport}>
+                Save result as dataset
+              </Button>
+            )}
           </div>
-        </TabsContent>
 
-        <TabsContent value="analysis" className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <Card className="p-4">
-              <h4 className="font-semibold mb-2">Basic Properties</h4>
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span>Nodes (Vertices):</span>
-                  <Badge variant="outline">{graphStats.nodes}</Badge>
-                </div>
-                <div className="flex justify-between">
-                  <span>Edges:</span>
-                  <Badge variant="outline">{graphStats.edges}</Badge>
-                </div>
-                <div className="flex justify-between">
-                  <span>Connected:</span>
-                  <Badge variant={graphStats.isConnected ? "default" : "destructive"}>
-                    {graphStats.isConnected ? "Yes" : "No"}
-                  </Badge>
-                </div>
-              </div>
-            </Card>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {exported && <p className="text-sm text-green-700">Saved as dataset "{exported}".</p>}
 
-            <Card className="p-4">
-              <h4 className="font-semibold mb-2">Degree Analysis</h4>
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span>Max Degree:</span>
-                  <Badge variant="outline">{graphStats.maxDegree}</Badge>
-                </div>
-                <div className="flex justify-between">
-                  <span>Min Degree:</span>
-                  <Badge variant="outline">{graphStats.minDegree}</Badge>
-                </div>
-                <div className="flex justify-between">
-                  <span>Avg Degree:</span>
-                  <Badge variant="outline">{graphStats.avgDegree}</Badge>
-                </div>
-              </div>
-            </Card>
-
-            <Card className="p-4">
-              <h4 className="font-semibold mb-2">Graph Density</h4>
+          {result?.algorithm === 'shortestPath' && (
+            result.path ? (
               <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Density:</span>
-                  <Badge variant="outline">{(graphStats.density * 100).toFixed(1)}%</Badge>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2">
-                  <div 
-                    className="bg-green-600 h-2 rounded-full transition-all duration-300"
-                    style={{ width: `${graphStats.density * 100}%` }}
-                  ></div>
-                </div>
-                <p className="text-xs text-gray-600">
-                  Ratio of existing edges to possible edges
+                <p className="text-sm text-black">
+                  Distance {result.distance!.toLocaleString()} over {result.path.length - 1} edges
                 </p>
+                <NodeSequence nodes={result.path} />
               </div>
-            </Card>
-          </div>
+            ) : (
+              <p className="text-sm text-gray-600">No path from {endpoints[0]} to {endpoints[1]}.</p>
+            )
+          )}
+
+          {result?.algorithm === 'components' && (
+            <div className="space-y-2">
+              <p className="text-sm text-black">
+                {result.components.length.toLocaleString()} components
+                {summary?.directed && ' (weakly connected)'}
+              </p>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="py-1">Component</th>
+                    <th className="py-1 text-right">Nodes</th>
+                    <th className="py-1 pl-3">Members</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.components.slice(0, MAX_ROWS).map((component, index) => (
+                    <tr key={index} className="text-black">
+                      <td className="py-1">{index}</td>
+                      <td className="py-1 text-right">{component.length.toLocaleString()}</td>
+                      <td className="py-1 pl-3 text-gray-600 truncate max-w-md">
+                        {component.slice(0, 5).join(', ')}
+                        {component.length > 5 && ` +${component.length - 5}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {result?.algorithm === 'spanningTree' && (
+            <div className="space-y-2">
+              <p className="text-sm text-black">
+                Total weight {result.totalWeight.toLocaleString()} using {result.edges.length.toLocaleString()} edges
+                {result.trees > 1 && ` (a forest of ${result.trees.toLocaleString()} trees, as the graph is disconnected)`}
+              </p>
+              <EdgeTable edges={result.edges} weightLabel="Weight" />
+            </div>
+          )}
+
+          {result?.algorithm === 'maxFlow' && (
+            <div className="space-y-2">
+              <p className="text-sm text-black">
+                Maximum flow from {endpoints[0]} to {endpoints[1]}: {result.value.toLocaleString()}
+              </p>
+              {result.flows.length > 0 && <EdgeTable edges={result.flows} weightLabel="Flow" />}
+            </div>
+          )}
 
-          <Card className="p-4">
-            <h4 className="font-semibold mb-3">Graph Theory Concepts</h4>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-              <div>
-                <h5 className="font-medium mb-2">Key Definitions:</h5>
-                <ul className="space-y-1 text-gray-600">
-                  <li><strong>Vertex/Node:</strong> A point in the graph</li>
-                  <li><strong>Edge:</strong> A connection between two vertices</li>
-                  <li><strong>Degree:</strong> Number of edges connected to a vertex</li>
-                  <li><strong>Path:</strong> A sequence of vertices connected by edges</li>
-                </ul>
-              </div>
-              <div>
-                <h5 className="font-medium mb-2">Graph Types:</h5>
-                <ul className="space-y-1 text-gray-600">
-                  <li><strong>Connected:</strong> Path exists between all vertex pairs</li>
-                  <li><strong>Complete:</strong> Every vertex connects to every other</li>
-                  <li><strong>Tree:</strong> Connected graph with no cycles</li>
-                  <li><strong>Bipartite:</strong> Vertices can be colored with two colors</li>
-                </ul>
+          {result?.algorithm === 'cycle' && (
+            result.cycle ? (
+              <div className="space-y-2">
+                <p className="text-sm text-black">Found a cycle of {result.cycle.length} nodes</p>
+                <NodeSequence nodes={result.cycle} closed />
               </div>
-            </div>
-          </Card>
-        </TabsContent>
-      </Tabs>
+            ) : (
+              <p className="text-sm text-gray-600">
+                The graph has no cycles{summary?.directed ? ' (it is a DAG)' : ' (it is a forest)'}.
+              </p>
+            )
+          )}
+        </>
+      )}
     </Card>
   );
-} 
\ No newline at end of file
+}
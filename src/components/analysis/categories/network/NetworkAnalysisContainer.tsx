@@ -9,6 +9,7 @@ import { FunnelAnalysis } from './FunnelAnalysis';
 import { CohortAnalysis } from './CohortAnalysis';
 import { PathAnalysis } from './PathAnalysis';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface NetworkAnalysisContainerProps {
   data: {
     fields: DataField[];
@@ -21,7 +22,7 @@ export function NetworkAnalysisContainer({ data }: NetworkAnalysisContainerProps
   // Process network data
   const networkData = useMemo(() => {
     // Extract fields that can be used for network analysis
-    const numericFields = data.fields.filter(field => field.type === 'number');
+    const numericFields = data.fields.filter(isMeasureField);
     const categoricalFields = data.fields.filter(field => field.type === 'string');
     
     return {
@@ -54,7 +55,7 @@ export function NetworkAnalysisContainer({ data }: NetworkAnalysisContainerProps
             </TabsList>
             
             <TabsContent value="graph-theory" className="mt-4">
-              <GraphTheory />
+              <GraphTheory data={data} />
             </TabsContent>
             
             <TabsContent value="centrality" className="mt-4">
@@ -62,19 +63,19 @@ export function NetworkAnalysisContainer({ data }: NetworkAnalysisContainerProps
             </TabsContent>
             
             <TabsContent value="community" className="mt-4">
-              <CommunityDetection />
+              <CommunityDetection data={data} />
             </TabsContent>
             
             <TabsContent value="funnel" className="mt-4">
-              <FunnelAnalysis />
+              <FunnelAnalysis data={data} />
             </TabsContent>
             
             <TabsContent value="cohort" className="mt-4">
-              <CohortAnalysis />
+              <CohortAnalysis data={data} />
             </TabsContent>
             
             <TabsContent value="path" className="mt-4">
-              <PathAnalysis />
+              <PathAnalysis data={data} />
             </TabsContent>
           </Tabs>
         </CardContent>
@@ -1,10 +1,244 @@
-import { Card } from '../../../../components/ui/card';
+import { useCallback, useMemo, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { EChart } from '@/components/charts';
+import type { DataField } from '@/types/data';
+import { EChartsFactory } from '@/utils/analysis/visualization/EChartsFactory';
+import { listEventNames } from '@/utils/analysis/network/funnels';
+import {
+  buildSequences,
+  extractPaths,
+  nextSteps,
+  pathsToSankey,
+  topPaths,
+  EXIT_EVENT,
+  type PathDirection
+} from '@/utils/analysis/network/paths';
+
+import { isMeasureField } from '@/utils/file/columnTypes';
+interface PathAnalysisProps {
+  data: {
+    fields: DataField[];
+  };
+}
+
+export function PathAnalysis({ data }: PathAnalysisProps) {
+  const fields = data.fields;
+  const timeFields = fields.filter(field => field.type === 'date' || isMeasureField(field));
+  const textFields = fields.filter(field => field.type === 'string');
+
+  const [userField, setUserField] = useState(() =>
+    textFields.find(field => /user|customer|account|session|id/i.test(field.name))?.name ?? textFields[0]?.name ?? '');
+  const [eventField, setEventField] = useState(() =>
+    textFields.find(field => /event|action|step|page|name/i.test(field.name))?.name ?? textFields[1]?.name ?? '');
+  const [timeField, setTimeField] = useState(() =>
+    fields.find(field => field.type === 'date')?.name ?? timeFields[0]?.name ?? '');
+  const [anchor, setAnchor] = useState('');
+  const [direction, setDirection] = useState<PathDirection>('start');
+  const [maxDepth, setMaxDepth] = useState(4);
+  const [limit, setLimit] = useState(10);
+  const [collapseLoops, setCollapseLoops] = useState(true);
+  const [drill, setDrill] = useState<string[]>([]);
+
+  const eventNames = useMemo(() => {
+    if (!eventField) return [];
+    try {
+      return listEventNames(fields, eventField);
+    } catch {
+      return [];
+    }
+  }, [fields, eventField]);
+
+  const activeAnchor = anchor || eventNames[0]?.name || '';
+
+  const sequences = useMemo(() => {
+    if (!userField || !eventField || !timeField) return { error: 'Choose user, event and timestamp columns' };
+    try {
+      return { value: buildSequences(fields, { userField, eventField, timeField, collapseLoops }) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to read event sequences' };
+    }
+  }, [fields, userField, eventField, timeField, collapseLoops]);
+
+  const paths = useMemo(() => {
+    if (!sequences.value || !activeAnchor) return [];
+    return topPaths(extractPaths(sequences.value, { anchor: activeAnchor, direction, maxDepth }), limit);
+  }, [sequences, activeAnchor, direction, maxDepth, limit]);
+
+  const chartOption = useMemo(() => {
+    const { nodes, links } = pathsToSankey(paths, direction);
+    return EChartsFactory.createSankeyChart(nodes, links);
+  }, [paths, direction]);
+
+  // Drill-down always reads forward from the chosen event
+  const drillPath = useMemo(
+    () => drill.length > 0 ? drill : activeAnchor ? [activeAnchor] : [],
+    [drill, activeAnchor]
+  );
+  const following = useMemo(
+    () => sequences.value && drillPath.length > 0 ? nextSteps(sequences.value, drillPath) : [],
+    [sequences, drillPath]
+  );
+
+  const handleChartClick = useCallback((params: { name?: string; dataType?: string }) => {
+    if (params.dataType !== 'node' || !params.name) return;
+    setDrill([params.name.replace(/^\d+\. /, '')]);
+  }, []);
+
+  if (textFields.length < 2 || timeFields.length === 0) {
+    return (
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold text-black mb-4">Path Analysis</h3>
+        <p className="text-gray-600">
+          Path analysis needs an event log: a user column, an event name column and a timestamp.
+        </p>
+      </Card>
+    );
+  }
+
+  const select = (label: string, value: string, onChange: (value: string) => void, options: DataField[]) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
 
-export function PathAnalysis() {
   return (
-    <Card className="p-4">
-      <h3 className="text-lg font-semibold text-black mb-4">Path Analysis</h3>
-      <p className="text-gray-600">Path analysis component will be implemented here.</p>
+    <Card className="p-4 space-y-6">
+      <h3 className="text-lg font-semibold text-black">Path Analysis</h3>
+
+      <div className="grid grid-cols-3 gap-4">
+        {select('User ID', userField, setUserField, textFields)}
+        {select('Event name', eventField, value => { setEventField(value); setAnchor(''); setDrill([]); }, textFields)}
+        {select('Timestamp', timeField, setTimeField, timeFields)}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 text-sm text-gray-700">
+        <label className="flex flex-col gap-1">
+          Paths
+          <select
+            value={direction}
+            onChange={e => setDirection(e.target.value as PathDirection)}
+            className="p-2 border border-gray-200 rounded text-black"
+          >
+            <option value="start">starting at</option>
+            <option value="end">ending at</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Event
+          <select
+            value={activeAnchor}
+            onChange={e => { setAnchor(e.target.value); setDrill([]); }}
+            className="p-2 border border-gray-200 rounded text-black"
+          >
+            {eventNames.map(event => (
+              <option key={event.name} value={event.name}>{event.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Max depth
+          <input
+            type="number"
+            min={2}
+            max={10}
+            value={maxDepth}
+            onChange={e => setMaxDepth(Math.min(10, Math.max(2, Number(e.target.value) || 2)))}
+            className="w-20 p-2 border border-gray-200 rounded text-black"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Top paths
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={limit}
+            onChange={e => setLimit(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-20 p-2 border border-gray-200 rounded text-black"
+          />
+        </label>
+        <label className="flex items-center gap-2 pb-2">
+          <input type="checkbox" checked={collapseLoops} onChange={e => setCollapseLoops(e.target.checked)} />
+          Collapse repeated events
+        </label>
+      </div>
+
+      {sequences.error && <p className="text-sm text-red-600">{sequences.error}</p>}
+
+      {paths.length > 0 ? (
+        <>
+          <EChart option={chartOption} height={Math.max(300, paths.length * 30)} onClick={handleChartClick} />
+
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-1">Path</th>
+                <th className="py-1 text-right">Users</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paths.map(entry => (
+                <tr key={entry.path.join('\u0000')} className="text-black">
+                  <td className="py-1">{entry.path.join(' → ')}</td>
+                  <td className="py-1 text-right">{entry.users.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : (
+        !sequences.error && <p className="text-sm text-gray-600">No users reached "{activeAnchor}".</p>
+      )}
+
+      {drillPath.length > 0 && (
+        <div>
+          <h4 className="font-medium text-black mb-2">What happens after</h4>
+          <div className="flex flex-wrap items-center gap-1 text-sm mb-3">
+            {drillPath.map((event, index) => (
+              <span key={index} className="flex items-center gap-1">
+                {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+                <button
+                  onClick={() => setDrill(drillPath.slice(0, index + 1))}
+                  className="px-2 py-0.5 rounded bg-gray-100 text-black hover:bg-gray-200"
+                >
+                  {event}
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="space-y-1">
+            {following.map(step => (
+              <button
+                key={step.event}
+                onClick={() => step.event !== EXIT_EVENT && setDrill([...drillPath, step.event])}
+                disabled={step.event === EXIT_EVENT}
+                className="w-full flex items-center gap-3 text-sm text-left hover:bg-gray-50 disabled:hover:bg-transparent"
+              >
+                <span className="w-40 truncate text-black">{step.event}</span>
+                <span className="flex-1 h-3 bg-gray-100 rounded">
+                  <span
+                    className={`block h-3 rounded ${step.event === EXIT_EVENT ? 'bg-gray-400' : 'bg-blue-500'}`}
+                    style={{ width: `${step.share * 100}%` }}
+                  />
+                </span>
+                <span className="w-28 text-right text-gray-600">
+                  {step.users.toLocaleString()} ({(step.share * 100).toFixed(1)}%)
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
     </Card>
   );
-} 
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import type { DataField } from '@/types/data';
+import type { DataField, DataSource } from '@/types/data';
 import { NLQuerySection } from './NLQuerySection';
 import NLPInsights from './NLPInsights';
 import { NLQueryResponse } from './NLQueryResponse';
@@ -7,6 +7,7 @@ import { NLQueryInput } from './NLQueryInput';
 interface NLPAnalysisContainerProps {
   data: {
     fields: DataField[];
+    source?: DataSource;
   };
   analysis?: {
     sentiment?: {
@@ -1,6 +1,8 @@
-import { Brain, AlertCircle, Loader2, HelpCircle, RefreshCw, Download, Share2, Eye, EyeOff } from 'lucide-react';
+import { Brain, AlertCircle, Loader2, HelpCircle, RefreshCw, Download, Share2, Eye, EyeOff, Code } from 'lucide-react';
 import { ChartView } from '@/components/visualization/ChartView';
 import type { DataField } from '@/types/data';
+import type { ChartSpec } from '@/utils/analysis/nlp/querySql';
+import { NLQueryResultChart } from './NLQueryResultChart';
 import { TooltipProvider } from '@radix-ui/react-tooltip';
 import {
   Chart as ChartJS,
@@ -52,6 +54,14 @@ interface VisualizationConfig {
 
 interface ResponseData {
   answer: string;
+  // How the question was read, shown so the user can correct it
+  interpretation?: {
+    text: string;
+    sql: string;
+    notes: string[];
+  };
+  rows?: Record<string, unknown>[];
+  chart?: ChartSpec;
   data?: DataField[];
   visualization?: VisualizationConfig;
   error?: string;
@@ -90,6 +100,7 @@ export function NLQueryResponse({
   const [selectedChartType, setSelectedChartType] = useState<VisualizationType | null>(null);
   const [chartError, setChartError] = useState<string | null>(null);
   const [dataValidationExpanded, setDataValidationExpanded] = useState(false);
+  const [showSql, setShowSql] = useState(false);
 
   // Memoize chart type options based on data structure
   const availableChartTypes = useMemo(() => {
@@ -297,6 +308,36 @@ export function NLQueryResponse({
             </div>
           )}
 
+          {/* Interpretation Section */}
+          {response.interpretation && (
+            <div className="bg-teal-50 border border-teal-100 rounded-lg p-3 text-sm">
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-teal-900">
+                  <span className="font-medium">Interpreted as:</span> {response.interpretation.text}
+                </p>
+                <button
+                  onClick={() => setShowSql(!showSql)}
+                  className="flex items-center gap-1 text-xs text-teal-700 hover:text-teal-900 shrink-0"
+                >
+                  <Code className="w-3 h-3" />
+                  {showSql ? 'Hide SQL' : 'Show SQL'}
+                </button>
+              </div>
+              {response.interpretation.notes.length > 0 && (
+                <ul className="mt-1 text-xs text-teal-700 list-disc list-inside">
+                  {response.interpretation.notes.map((note, index) => (
+                    <li key={index}>{note}</li>
+                  ))}
+                </ul>
+              )}
+              {showSql && (
+                <pre className="mt-2 p-2 bg-white border rounded text-xs text-gray-700 overflow-x-auto whitespace-pre-wrap">
+                  {response.interpretation.sql}
+                </pre>
+              )}
+            </div>
+          )}
+
           {/* Answer Section */}
           <div className="prose prose-teal max-w-none">
             <div className="text-gray-700 whitespace-pre-wrap leading-relaxed">
@@ -304,6 +345,58 @@ export function NLQueryResponse({
             </div>
           </div>
 
+          {/* Query Result Section */}
+          {response.rows && response.chart && response.rows.length > 0 && (
+            <div className="bg-gray-50 border rounded-lg overflow-hidden">
+              <div className="p-4 border-b bg-white flex items-center justify-between">
+                <h4 className="font-medium text-gray-900">{response.chart.title}</h4>
+                {response.chart.type !== 'metric' && response.chart.type !== 'table' && (
+                  <Button variant="outline" size="sm" onClick={() => setShowRawData(!showRawData)}>
+                    {showRawData ? <EyeOff className="w-4 h-4 mr-1" /> : <Eye className="w-4 h-4 mr-1" />}
+                    {showRawData ? 'Hide Data' : 'View Data'}
+                  </Button>
+                )}
+              </div>
+              <div className="p-4">
+                {showRawData || response.chart.type === 'table' ? (
+                  <div className="overflow-auto max-h-96 border rounded">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-100 sticky top-0">
+                        <tr>
+                          {Object.keys(response.rows[0]).map((key) => (
+                            <th
+                              key={key}
+                              scope="col"
+                              className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                            >
+                              {key}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {response.rows.map((row, index) => (
+                          <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                            {Object.values(row).map((value, i) => (
+                              <td key={i} className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                                {value !== null && value !== undefined ? String(value) : '-'}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="px-4 py-2 bg-gray-50 border-t text-xs text-gray-500">
+                      Showing {response.rows.length} rows
+                    </div>
+                  </div>
+                ) : (
+                  <NLQueryResultChart chart={response.chart} rows={response.rows} />
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Visualization Section */}
           {response.data && response.visualization && (
             <div className="bg-gray-50 border rounded-lg overflow-hidden">
@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartOptions,
+} from 'chart.js';
+import { Line, Bar, Scatter } from 'react-chartjs-2';
+import type { ChartSpec } from '@/utils/analysis/nlp/querySql';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const COLORS = ['rgb(13, 148, 136)', 'rgb(99, 102, 241)', 'rgb(234, 88, 12)', 'rgb(219, 39, 119)'];
+
+interface NLQueryResultChartProps {
+  chart: ChartSpec;
+  rows: Record<string, unknown>[];
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  // DuckDB returns BIGINT counts as bigint
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function formatMetric(value: unknown): string {
+  const number = toNumber(value);
+  if (number === null) return '—';
+  return Number.isInteger(number)
+    ? number.toLocaleString()
+    : number.toLocaleString(undefined, { maximumFractionDigits: Math.abs(number) < 1 ? 3 : 2 });
+}
+
+export function NLQueryResultChart({ chart, rows }: NLQueryResultChartProps) {
+  const options = useMemo<ChartOptions<'bar' | 'line' | 'scatter'>>(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: chart.y.length > 1 },
+      title: { display: true, text: chart.title }
+    }
+  }), [chart]);
+
+  const labels = useMemo(() => (chart.x ? rows.map(row => String(row[chart.x!] ?? '—')) : []), [chart, rows]);
+
+  const datasets = useMemo(() => chart.y.map((label, index) => ({
+    label,
+    data: rows.map(row => toNumber(row[label])),
+    backgroundColor: COLORS[index % COLORS.length].replace('rgb', 'rgba').replace(')', ', 0.5)'),
+    borderColor: COLORS[index % COLORS.length],
+    borderWidth: chart.type === 'line' ? 2 : 1,
+    tension: 0.2
+  })), [chart, rows]);
+
+  if (!rows.length) return null;
+
+  if (chart.type === 'metric') {
+    return (
+      <div className="grid gap-4 sm:grid-cols-2">
+        {chart.y.map(label => (
+          <div key={label} className="bg-white border rounded-lg p-4">
+            <p className="text-sm text-gray-500">{label}</p>
+            <p className="text-3xl font-semibold text-gray-900 mt-1">{formatMetric(rows[0][label])}</p>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (chart.type === 'scatter' && chart.x) {
+    const data = {
+      datasets: [{
+        label: chart.title,
+        data: rows
+          .map(row => ({ x: toNumber(row[chart.x!]), y: toNumber(row[chart.y[0]]) }))
+          .filter((point): point is { x: number; y: number } => point.x !== null && point.y !== null),
+        backgroundColor: 'rgba(13, 148, 136, 0.5)'
+      }]
+    };
+    return <div className="h-[360px]"><Scatter data={data} options={options as ChartOptions<'scatter'>} /></div>;
+  }
+
+  if (chart.type === 'line') {
+    return <div className="h-[360px]"><Line data={{ labels, datasets }} options={options as ChartOptions<'line'>} /></div>;
+  }
+
+  if (chart.type === 'bar') {
+    return <div className="h-[360px]"><Bar data={{ labels, datasets }} options={options as ChartOptions<'bar'>} /></div>;
+  }
+
+  return null;
+}
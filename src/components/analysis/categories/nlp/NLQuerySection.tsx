@@ -3,10 +3,11 @@ import { Brain, HelpCircle, Sparkles, RotateCw, History, X, TrendingUp, BarChart
 import { NLQueryInput } from './NLQueryInput';
 import { NLQueryResponse } from './NLQueryResponse';
 import { processNaturalLanguageQuery } from '@/utils/analysis/nlp/queryProcessor';
-import type { DataField } from '@/types/data';
+import type { DataField, DataSource } from '@/types/data';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Button } from '@/components/ui/button';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // Extend DataField type to include additional properties
 interface ExtendedDataField extends DataField {
   label?: string;
@@ -17,6 +18,7 @@ interface ExtendedDataField extends DataField {
 interface NLQuerySectionProps {
   data: {
     fields: ExtendedDataField[];
+    source?: DataSource;
   };
   maxHistoryItems?: number;
   enableTemplates?: boolean;
@@ -57,31 +59,25 @@ export function NLQuerySection({
   // Dynamic example queries based on available fields
   const dynamicExamples = useMemo(() => {
     const fieldNames = data.fields?.map(f => f.name || f.label || f.key) || [];
-    const numericFields = data.fields?.filter(f => f.type === 'number' || f.dataType === 'numeric') || [];
+    const numericFields = data.fields?.filter(f => isMeasureField(f) || f.dataType === 'numeric') || [];
     const dateFields = data.fields?.filter(f => f.type === 'date' || f.dataType === 'date') || [];
-    
-    const baseExamples = [
-      "What's the average of each field?",
-      "Show me the trends over time",
-      "Compare the different fields",
-      "What's the distribution of values?",
-      "Give me a summary of the data",
-      "Are there any outliers in the data?"
-    ];
+    const textFields = data.fields?.filter(f => f.type === 'string') || [];
+    const [measure, other] = numericFields.map(f => f.name);
+    const category = textFields[0];
+    const categoryValue = category?.value.find(value => typeof value === 'string' && value.trim());
+
+    // Phrased the way the query parser reads questions
+    const baseExamples = ["Give me a summary of the data"];
 
     const fieldSpecificExamples = [
-      ...fieldNames.slice(0, 3).map(field => `What's the trend for ${field}?`),
-      ...numericFields.slice(0, 2).map(field => {
-        if (!field) return '';
-        return `Show me the distribution of ${field.name || field.label}`;
-      }),
-      ...dateFields.slice(0, 1).map(field => {
-        if (!field) return '';
-        return `Group data by ${field.name || field.label}`;
-      }),
-      ...(fieldNames.length > 1 ? [`Compare ${fieldNames[0]} vs ${fieldNames[1]}`] : []),
-      ...(numericFields.length > 1 ? [`What's the correlation between ${numericFields[0]!.name} and ${numericFields[1]!.name}?`] : [])
-    ].filter(Boolean);
+      ...(measure && category ? [`Total ${measure} by ${category.name}`, `Top 5 ${category.name} by ${measure}`] : []),
+      ...(measure && dateFields.length ? [`${measure} by month`] : []),
+      ...(measure && category && categoryValue ? [`Average ${measure} where ${category.name} is "${categoryValue}"`] : []),
+      ...(measure ? [`Distribution of ${measure}`, `Highest ${measure}`] : []),
+      ...(measure && other ? [`Correlation between ${measure} and ${other}`] : []),
+      ...(category ? [`How many rows per ${category.name}?`] : []),
+      ...(fieldNames.length && !measure ? [`Count by ${fieldNames[0]}`] : [])
+    ];
 
     return [...baseExamples, ...fieldSpecificExamples, ...customExamples];
   }, [data.fields, customExamples]);
@@ -139,7 +135,7 @@ export function NLQuerySection({
     setSuggestions([]);
     
     try {
-      const result = await processNaturalLanguageQuery(query, data.fields);
+      const result = await processNaturalLanguageQuery(query, data.fields, { source: data.source });
       setResponse(result);
       
       // Add to query history
@@ -228,7 +224,7 @@ export function NLQuerySection({
           <NLQueryInput
             onQuery={handleQuery}
             isLoading={isLoading}
-            placeholder="Try asking: 'What are the trends?' or 'Show me a summary'"
+            placeholder="Try asking: 'Total revenue by month where region is EMEA' or 'Top 5 products by sales'"
             suggestions={dynamicExamples}
             onClear={() => {
               setCurrentQuery('');
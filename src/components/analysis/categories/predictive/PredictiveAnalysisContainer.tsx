@@ -3,6 +3,7 @@ import { DataField } from '@/types/data';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface PredictiveAnalysisContainerProps {
   data: {
     fields: DataField[];
@@ -14,7 +15,7 @@ export function PredictiveAnalysisContainer({ data }: PredictiveAnalysisContaine
   
   // Process predictive data
   const predictiveData = useMemo(() => {
-    const numericFields = data.fields.filter(field => field.type === 'number');
+    const numericFields = data.fields.filter(isMeasureField);
     const categoricalFields = data.fields.filter(field => field.type === 'string');
     
     return {
@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LineChart, BarChart } from '@/components/charts';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface AdvancedRegressionAnalysisProps {
   fields: DataField[];
 }
@@ -19,7 +20,7 @@ export function AdvancedRegressionAnalysis({ fields }: AdvancedRegressionAnalysi
   const [error, setError] = useState<string>('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  const numericFields = fields.filter(field => field.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
 
   const handleAnalysis = async () => {
     if (!target || features.length === 0) {
@@ -15,6 +15,7 @@ import {
 } from '@/utils/analysis/regression/RegressionMetricsCalculator';
 import { performLinearRegression, performPolynomialRegression } from '@/utils/analysis/regression/metrics';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface RegressionAnalysisProps {
   fields: DataField[];
 }
@@ -73,7 +74,7 @@ export function RegressionAnalysis({ fields }: RegressionAnalysisProps) {
 
   // Filter numeric fields with valid data
   const numericFields = fields.filter(f => 
-    f.type === 'number' && 
+    isMeasureField(f) && 
     Array.isArray(f.value) && 
     f.value.length > 0 &&
     !f.value.some(isNaN)
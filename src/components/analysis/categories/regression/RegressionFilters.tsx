@@ -2,6 +2,7 @@ import React from 'react';
 import { Filter, Settings2, TrendingUp } from 'lucide-react';
 import { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface RegressionFiltersProps {
   fields: DataField[];
   selectedModel: string;
@@ -40,7 +41,7 @@ export function RegressionFilters({
     { id: 'log-log', name: 'Log-Log', params: [] }
   ];
 
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   const selectedModelConfig = models.find(m => m.id === selectedModel);
 
   return (
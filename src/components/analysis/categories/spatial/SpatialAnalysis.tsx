@@ -3,12 +3,14 @@ import { Globe, MapPin, Layers, Compass, Ruler, ZoomIn, ZoomOut, Target, Filter,
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useState, useRef, lazy, Suspense, useCallback, useMemo, useEffect } from 'react';
 import { DataField } from '@/types/data';
+import { hasSemanticType } from '@/utils/file/columnTypes';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Map } from 'leaflet';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // Dynamically import Map components
 const MapContainer = lazy(() => import('react-leaflet').then(mod => ({ default: mod.MapContainer })));
 const TileLayer = lazy(() => import('react-leaflet').then(mod => ({ default: mod.TileLayer })));
@@ -37,6 +39,7 @@ export const modules = [
     icon: Globe,
     description: 'Geographic and location-based analysis with interactive maps and spatial metrics',
     available: (data: { fields: DataField[] }) => data.fields.some(f =>
+      hasSemanticType(f, 'latitude', 'longitude', 'coordinates') ||
       f.name.toLowerCase().includes('location') ||
       f.name.toLowerCase().includes('lat') ||
       f.name.toLowerCase().includes('lon') ||
@@ -49,8 +52,12 @@ export const modules = [
 export function SpatialAnalysisPanel({ data }: SpatialAnalysisProps) {
   const [mapType, setMapType] = useState<'points' | 'heatmap' | 'clusters'>('points');
   const [radius, setRadius] = useState<number>(1000);
-  const [latField, setLatField] = useState<string>('');
-  const [lngField, setLngField] = useState<string>('');
+  const [latField, setLatField] = useState<string>(
+    () => data.fields.find(f => hasSemanticType(f, 'latitude'))?.name ?? ''
+  );
+  const [lngField, setLngField] = useState<string>(
+    () => data.fields.find(f => hasSemanticType(f, 'longitude'))?.name ?? ''
+  );
   const [colorField, setColorField] = useState<string>('none');
   const [sizeField, setSizeField] = useState<string>('none');
   const [clusterDistance, setClusterDistance] = useState<number>(50);
@@ -272,7 +279,7 @@ export function SpatialAnalysisPanel({ data }: SpatialAnalysisProps) {
                   </SelectTrigger>
                   <SelectContent>
                     {data.fields
-                      .filter(f => f.type === 'number')
+                      .filter(isMeasureField)
                       .map(f => (
                         <SelectItem key={f.name} value={f.name}>{f.name}</SelectItem>
                       ))}
@@ -288,7 +295,7 @@ export function SpatialAnalysisPanel({ data }: SpatialAnalysisProps) {
                   </SelectTrigger>
                   <SelectContent>
                     {data.fields
-                      .filter(f => f.type === 'number')
+                      .filter(isMeasureField)
                       .map(f => (
                         <SelectItem key={f.name} value={f.name}>{f.name}</SelectItem>
                       ))}
@@ -306,7 +313,7 @@ export function SpatialAnalysisPanel({ data }: SpatialAnalysisProps) {
                   <SelectContent>
                     <SelectItem value="none">None</SelectItem>
                     {data.fields
-                      .filter(f => f.type === 'number')
+                      .filter(isMeasureField)
                       .map(f => (
                         <SelectItem key={f.name} value={f.name}>{f.name}</SelectItem>
                       ))}
@@ -323,7 +330,7 @@ export function SpatialAnalysisPanel({ data }: SpatialAnalysisProps) {
                   <SelectContent>
                     <SelectItem value="none">None</SelectItem>
                     {data.fields
-                      .filter(f => f.type === 'number')
+                      .filter(isMeasureField)
                       .map(f => (
                         <SelectItem key={f.name} value={f.name}>{f.name}</SelectItem>
                       ))}
@@ -438,7 +445,7 @@ export function SpatialAnalysisPanel({ data }: SpatialAnalysisProps) {
                   <p>Available numeric fields:</p>
                   <ul className="list-disc list-inside mt-2">
                     {data.fields
-                      .filter(f => f.type === 'number')
+                      .filter(isMeasureField)
                       .map(f => (
                         <li key={f.name}>{f.name}</li>
                       ))}
@@ -1,680 +1,441 @@
-import { useState, useEffect, useMemo } from 'react';
-import { 
-  Cpu, Database, Server, AlertCircle, CheckCircle, TrendingUp, 
-  Activity, BarChart3, Settings, RefreshCw, Filter, Search,
-  ChevronDown, ChevronUp, Zap, Shield, Clock,
-  ArrowUp, ArrowDown, Minus
-} from 'lucide-react';
-
-// Enhanced DataField interface
-interface DataField {
-  name: string;
-  type: string;
-  nullPercentage?: number;
-  uniqueValues?: number;
-  avgLength?: number;
-  minValue?: number;
-  maxValue?: number;
-  lastUpdated?: string;
-  criticalityLevel?: 'low' | 'medium' | 'high' | 'critical';
-}
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { EChart } from '@/components/charts';
+import type { DataField } from '@/types/data';
+import { EChartsFactory, type IndicatorLine } from '@/utils/analysis/visualization/EChartsFactory';
+import {
+  atr,
+  bollingerBands,
+  ema,
+  macd,
+  obv,
+  readOhlcv,
+  rsi,
+  sma,
+  stochastic,
+  wma,
+  type Ohlcv
+} from '@/utils/analysis/technical/indicators';
+import { backtest, strategySignals, type Strategy } from '@/utils/analysis/technical/backtest';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface TechnicalAnalysisProps {
   data: {
     fields: DataField[];
-    metadata?: {
-      dataSize?: number;
-      nullValues?: number;
-      processingTime?: number;
-      uptime?: number;
-      errorRate?: number;
-      throughput?: number;
-      memoryUsage?: number;
-      cpuUsage?: number;
-      diskUsage?: number;
-      lastAnalysis?: string;
-    };
   };
-  refreshInterval?: number;
-  onRefresh?: () => void;
 }
 
-export function TechnicalAnalysis({ data, refreshInterval = 30000, onRefresh }: TechnicalAnalysisProps) {
-  const [autoRefresh, setAutoRefresh] = useState(false);
-  const [expandedSections, setExpandedSections] = useState({
-    metrics: true,
-    recommendations: true,
-    fields: false,
-    systemHealth: false
-  });
-  const [filterCritical, setFilterCritical] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'name' | 'type' | 'nullPercentage' | 'criticalityLevel'>('name');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-  const [lastRefresh, setLastRefresh] = useState(new Date());
-
-  // Auto-refresh logic
-  useEffect(() => {
-    if (!autoRefresh) return;
-    
-    const interval = setInterval(() => {
-      onRefresh?.();
-      setLastRefresh(new Date());
-    }, refreshInterval);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh, refreshInterval, onRefresh]);
-
-  // Enhanced metrics calculation
-  const metrics = useMemo(() => {
-    const totalFields = data.fields.length;
-    const fieldsWithIssues = data.fields.filter(
-      field => !field.type || !field.name || (field.nullPercentage ?? 0) > 5
-    ).length;
-    
-    const criticalFields = data.fields.filter(f => f.criticalityLevel === 'critical').length;
-    const highRiskFields = data.fields.filter(f => ['critical', 'high'].includes(f.criticalityLevel || 'low')).length;
-    
-    const dataQualityScore = totalFields > 0 
-      ? Math.max(0, 100 - (fieldsWithIssues / totalFields * 100) - (criticalFields * 5)) 
-      : 0;
-    
-    const completenessScore = data.metadata?.dataSize && data.metadata.nullValues
-      ? 100 - (data.metadata.nullValues / data.metadata.dataSize * 100)
-      : 85;
-    
-    const systemPerformance = data.metadata?.uptime || 95;
-    const processingEfficiency = data.metadata?.processingTime
-      ? Math.min(100, Math.max(0, 100 - (data.metadata.processingTime / 1000 * 10)))
-      : 80;
-
-    // New calculated metrics
-    const resourceUtilization = data.metadata ? 
-      ((data.metadata.cpuUsage || 0) + (data.metadata.memoryUsage || 0) + (data.metadata.diskUsage || 0)) / 3 : 50;
-    
-    const overallHealth = Math.round((dataQualityScore * 0.3 + systemPerformance * 0.3 + processingEfficiency * 0.2 + (100 - resourceUtilization) * 0.2));
-    
-    return {
-      dataQuality: Math.round(Math.min(100, (dataQualityScore * 0.6 + completenessScore * 0.4))),
-      systemPerformance: Math.round(systemPerformance),
-      processingEfficiency: Math.round(processingEfficiency),
-      resourceUtilization: Math.round(resourceUtilization),
-      overallHealth,
-      issuesCount: fieldsWithIssues,
-      criticalFields,
-      highRiskFields,
-      errorRate: data.metadata?.errorRate || 0,
-      throughput: data.metadata?.throughput || 0,
-      trend: Math.random() > 0.5 ? 'up' : Math.random() > 0.5 ? 'down' : 'stable' // Simulated trend
-    };
-  }, [data]);
-
-  // Enhanced recommendations
-  const recommendations = useMemo(() => {
-    const recs = [];
-    
-    // Critical issues first
-    if (metrics.criticalFields > 0) {
-      recs.push({
-        icon: <AlertCircle className="w-4 h-4 text-red-500" />,
-        text: `${metrics.criticalFields} critical fields require immediate attention`,
-        priority: 0,
-        severity: 'critical' as const,
-        action: 'Review critical fields immediately'
-      });
-    }
+type Overlay = 'sma' | 'ema' | 'wma' | 'bollinger';
+type PanelIndicator = 'none' | 'rsi' | 'macd' | 'stochastic' | 'atr' | 'obv';
+type StrategyType = Strategy['type'];
 
-    // Data quality recommendations
-    if (metrics.dataQuality < 70) {
-      recs.push({
-        icon: <AlertCircle className="w-4 h-4 text-red-500" />,
-        text: "Critical data quality issues detected",
-        priority: 1,
-        severity: 'high' as const,
-        action: 'Implement data validation rules'
-      });
-    } else if (metrics.dataQuality < 85) {
-      recs.push({
-        icon: <Database className="w-4 h-4 text-amber-500" />,
-        text: "Moderate data quality issues detected",
-        priority: 2,
-        severity: 'medium' as const,
-        action: 'Review data collection processes'
-      });
-    }
+const OVERLAY_LABELS: Record<Overlay, string> = {
+  sma: 'SMA',
+  ema: 'EMA',
+  wma: 'WMA',
+  bollinger: 'Bollinger Bands'
+};
 
-    // Resource utilization
-    if (metrics.resourceUtilization > 85) {
-      recs.push({
-        icon: <Cpu className="w-4 h-4 text-red-500" />,
-        text: `High resource utilization (${metrics.resourceUtilization}%)`,
-        priority: 1,
-        severity: 'high' as const,
-        action: 'Scale resources or optimize processes'
-      });
-    } else if (metrics.resourceUtilization > 70) {
-      recs.push({
-        icon: <Activity className="w-4 h-4 text-amber-500" />,
-        text: `Moderate resource usage (${metrics.resourceUtilization}%)`,
-        priority: 2,
-        severity: 'medium' as const,
-        action: 'Monitor resource trends'
-      });
-    }
+const PANEL_LABELS: Record<PanelIndicator, string> = {
+  none: 'None',
+  rsi: 'RSI (14)',
+  macd: 'MACD (12, 26, 9)',
+  stochastic: 'Stochastic (14, 3)',
+  atr: 'ATR (14)',
+  obv: 'On-balance volume'
+};
 
-    // Performance recommendations
-    if (metrics.processingEfficiency < 70) {
-      recs.push({
-        icon: <Zap className="w-4 h-4 text-red-500" />,
-        text: "Processing performance is degraded",
-        priority: 1,
-        severity: 'high' as const,
-        action: 'Investigate performance bottlenecks'
-      });
+const STRATEGY_LABELS: Record<StrategyType, string> = {
+  smaCross: 'SMA crossover',
+  emaCross: 'EMA crossover',
+  macdCross: 'MACD signal crossover',
+  rsi: 'RSI reversal (30 / 70)'
+};
+
+function guessField(fields: DataField[], pattern: RegExp): string {
+  return fields.find(field => pattern.test(field.name))?.name ?? '';
+}
+
+function buildPanel(bars: Ohlcv, indicator: PanelIndicator): IndicatorLine[] {
+  switch (indicator) {
+    case 'rsi':
+      return [{ name: 'RSI', values: rsi(bars.close) }];
+    case 'macd': {
+      const lines = macd(bars.close);
+      return [
+        { name: 'MACD', values: lines.macd },
+        { name: 'Signal', values: lines.signal },
+        { name: 'Histogram', values: lines.histogram }
+      ];
+    }
+    case 'stochastic': {
+      const lines = stochastic(bars.high, bars.low, bars.close);
+      return [{ name: '%K', values: lines.k }, { name: '%D', values: lines.d }];
     }
+    case 'atr':
+      return [{ name: 'ATR', values: atr(bars.high, bars.low, bars.close) }];
+    case 'obv':
+      return bars.volume ? [{ name: 'OBV', values: obv(bars.close, bars.volume) }] : [];
+    default:
+      return [];
+  }
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
 
-    // Positive feedback
-    if (metrics.overallHealth >= 90) {
-      recs.push({
-        icon: <CheckCircle className="w-4 h-4 text-green-500" />,
-        text: "System is performing optimally",
-        priority: 4,
-        severity: 'info' as const,
-        action: 'Continue monitoring'
+export function TechnicalAnalysis({ data }: TechnicalAnalysisProps) {
+  const fields = data.fields;
+  const numericFields = fields.filter(isMeasureField);
+
+  const [timeField, setTimeField] = useState(() =>
+    fields.find(field => field.type === 'date')?.name ?? guessField(fields, /date|time|day/i));
+  const [openField, setOpenField] = useState(() => guessField(numericFields, /^open$/i));
+  const [highField, setHighField] = useState(() => guessField(numericFields, /^high$/i));
+  const [lowField, setLowField] = useState(() => guessField(numericFields, /^low$/i));
+  const [closeField, setCloseField] = useState(() =>
+    guessField(numericFields, /^(adj[ _]?)?close$/i) || guessField(numericFields, /close|price/i) || (numericFields[0]?.name ?? ''));
+  const [volumeField, setVolumeField] = useState(() => guessField(numericFields, /^vol(ume)?$/i));
+
+  const [overlays, setOverlays] = useState<Record<Overlay, boolean>>({ sma: true, ema: false, wma: false, bollinger: true });
+  const [overlayPeriod, setOverlayPeriod] = useState(20);
+  const [panelIndicator, setPanelIndicator] = useState<PanelIndicator>('rsi');
+
+  const [strategyType, setStrategyType] = useState<StrategyType>('smaCross');
+  const [fastPeriod, setFastPeriod] = useState(10);
+  const [slowPeriod, setSlowPeriod] = useState(30);
+  const [initialCapital, setInitialCapital] = useState(10000);
+  const [feePercent, setFeePercent] = useState(0.1);
+  const [periodsPerYear, setPeriodsPerYear] = useState(252);
+
+  const prices = useMemo(() => {
+    if (!closeField) return { error: 'Choose a close price column' };
+    try {
+      const bars = readOhlcv(fields, {
+        timeField: timeField || undefined,
+        openField: openField || undefined,
+        highField: highField || undefined,
+        lowField: lowField || undefined,
+        closeField,
+        volumeField: volumeField || undefined
       });
+      if (bars.close.length < 2) return { error: 'Technical analysis needs at least two price bars' };
+      return { bars };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to read price data' };
     }
+  }, [fields, timeField, openField, highField, lowField, closeField, volumeField]);
 
-    return recs.sort((a, b) => a.priority - b.priority);
-  }, [metrics]);
+  const bars = prices.bars;
 
-  // Filtered and sorted fields
-  const processedFields = useMemo(() => {
-    let filtered = data.fields.filter(field => 
-      field.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (field.type || '').toLowerCase().includes(searchTerm.toLowerCase())
-    );
+  const strategy = useMemo<Strategy>(() => {
+    switch (strategyType) {
+      case 'macdCross':
+        return { type: 'macdCross', fast: 12, slow: 26, signal: 9 };
+      case 'rsi':
+        return { type: 'rsi', period: 14, oversold: 30, overbought: 70 };
+      default:
+        return { type: strategyType, fast: fastPeriod, slow: slowPeriod };
+    }
+  }, [strategyType, fastPeriod, slowPeriod]);
 
-    if (filterCritical) {
-      filtered = filtered.filter(field => 
-        ['critical', 'high'].includes(field.criticalityLevel || 'low')
-      );
+  const backtestResult = useMemo(() => {
+    if (!bars) return null;
+    try {
+      const signals = strategySignals(bars.close, strategy);
+      return {
+        performance: backtest(bars.close, signals, {
+          initialCapital,
+          feeRate: feePercent / 100,
+          periodsPerYear
+        })
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Backtest failed' };
     }
+  }, [bars, strategy, initialCapital, feePercent, periodsPerYear]);
 
-    return filtered.sort((a, b) => {
-      let aVal: any = a[sortBy];
-      let bVal: any = b[sortBy];
-      
-      if (typeof aVal === 'string') {
-        aVal = aVal.toLowerCase();
-        bVal = (bVal || '').toLowerCase();
-      }
-      
-      if (sortDirection === 'asc') {
-        return aVal > bVal ? 1 : -1;
-      } else {
-        return aVal < bVal ? 1 : -1;
-      }
-    });
-  }, [data.fields, searchTerm, filterCritical, sortBy, sortDirection]);
+  const performance = backtestResult?.performance ?? null;
 
-  const toggleSection = (section: keyof typeof expandedSections) => {
-    setExpandedSections(prev => ({
-      ...prev,
-      [section]: !prev[section]
-    }));
-  };
+  const chart = useMemo(() => {
+    if (!bars) return null;
+    try {
+      const overlayLines: IndicatorLine[] = [];
+      if (overlays.sma) overlayLines.push({ name: `SMA ${overlayPeriod}`, values: sma(bars.close, overlayPeriod) });
+      if (overlays.ema) overlayLines.push({ name: `EMA ${overlayPeriod}`, values: ema(bars.close, overlayPeriod) });
+      if (overlays.wma) overlayLines.push({ name: `WMA ${overlayPeriod}`, values: wma(bars.close, overlayPeriod) });
+      if (overlays.bollinger) {
+        const bands = bollingerBands(bars.close, overlayPeriod);
+        overlayLines.push({ name: 'Upper band', values: bands.upper }, { name: 'Lower band', values: bands.lower });
+      }
 
-  const handleSort = (column: typeof sortBy) => {
-    if (sortBy === column) {
-      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortBy(column);
-      setSortDirection('asc');
+      return {
+        option: EChartsFactory.createCandlestickChart(bars, {
+          overlays: overlayLines,
+          panel: buildPanel(bars, panelIndicator),
+          signals: performance?.signals
+        })
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to compute indicators' };
     }
-  };
+  }, [bars, overlays, overlayPeriod, panelIndicator, performance]);
 
-  const getHealthColor = (value: number) => {
-    if (value >= 90) return 'text-green-600';
-    if (value >= 75) return 'text-amber-500';
-    return 'text-red-500';
-  };
+  const latest = useMemo(() => {
+    if (!bars) return [];
+    const last = bars.close.length - 1;
+    const macdLines = macd(bars.close);
+    const stoch = stochastic(bars.high, bars.low, bars.close);
+    const values: { name: string; value: number | null }[] = [
+      { name: 'Close', value: bars.close[last] },
+      { name: 'SMA 20', value: sma(bars.close, 20)[last] },
+      { name: 'EMA 20', value: ema(bars.close, 20)[last] },
+      { name: 'RSI 14', value: rsi(bars.close)[last] },
+      { name: 'MACD', value: macdLines.macd[last] },
+      { name: 'MACD signal', value: macdLines.signal[last] },
+      { name: 'Stochastic %K', value: stoch.k[last] },
+      { name: 'ATR 14', value: atr(bars.high, bars.low, bars.close)[last] }
+    ];
+    if (bars.volume) values.push({ name: 'OBV', value: obv(bars.close, bars.volume)[last] });
+    return values;
+  }, [bars]);
 
-  const getHealthBgColor = (value: number) => {
-    if (value >= 90) return 'bg-green-50 border-green-200';
-    if (value >= 75) return 'bg-amber-50 border-amber-200';
-    return 'bg-red-50 border-red-200';
-  };
+  const equityData = useMemo(() => {
+    if (!bars || !performance) return [];
+    return performance.equity.map((value, i) => ({
+      time: bars.time[i],
+      strategy: Number(value.toFixed(2)),
+      buyAndHold: Number((initialCapital * bars.close[i] / bars.close[0]).toFixed(2))
+    }));
+  }, [bars, performance, initialCapital]);
 
-  const getTrendIcon = (trend: string) => {
-    switch (trend) {
-      case 'up': return <ArrowUp className="w-4 h-4 text-green-500" />;
-      case 'down': return <ArrowDown className="w-4 h-4 text-red-500" />;
-      default: return <Minus className="w-4 h-4 text-gray-500" />;
-    }
-  };
+  const select = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: DataField[],
+    optional?: string
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="p-2 border border-gray-200 rounded text-black"
+      >
+        {optional !== undefined && <option value="">{optional}</option>}
+        {options.map(field => (
+          <option key={field.name} value={field.name}>{field.name}</option>
+        ))}
+      </select>
+    </label>
+  );
 
-  const getSeverityColor = (severity: string) => {
-    switch (severity) {
-      case 'critical': return 'bg-red-100 text-red-800 border-red-200';
-      case 'high': return 'bg-orange-100 text-orange-800 border-orange-200';
-      case 'medium': return 'bg-amber-100 text-amber-800 border-amber-200';
-      case 'low': return 'bg-blue-100 text-blue-800 border-blue-200';
-      default: return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
-  };
+  const numberInput = (label: string, value: number, onChange: (value: number) => void, min: number, step = 1) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        className="p-2 border border-gray-200 rounded text-black"
+      />
+    </label>
+  );
+
+  if (numericFields.length === 0) {
+    return (
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold text-black mb-4">Technical Analysis</h3>
+        <p className="text-gray-600">Technical analysis needs a numeric price column.</p>
+      </Card>
+    );
+  }
 
   return (
-    <div className="space-y-6">
-      {/* Header with Controls */}
-      <div className="bg-white p-6 rounded-lg shadow-sm border">
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center gap-3">
-            <div className="p-2 bg-teal-100 rounded-lg">
-              <BarChart3 className="w-6 h-6 text-teal-600" />
-            </div>
-            <div>
-              <h3 className="text-xl font-bold text-gray-900">Technical Analysis Dashboard</h3>
-              <p className="text-sm text-gray-500">
-                Last updated: {lastRefresh.toLocaleTimeString()}
-              </p>
-            </div>
-          </div>
-          
-          <div className="flex items-center gap-3">
-            <button
-              onClick={() => setAutoRefresh(!autoRefresh)}
-              className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                autoRefresh 
-                  ? 'bg-teal-100 text-teal-700 hover:bg-teal-200' 
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              <RefreshCw className={`w-4 h-4 ${autoRefresh ? 'animate-spin' : ''}`} />
-              Auto Refresh
-            </button>
-            
-            <button
-              onClick={() => {
-                onRefresh?.();
-                setLastRefresh(new Date());
-              }}
-              className="flex items-center gap-2 px-3 py-2 bg-teal-600 text-white rounded-lg text-sm font-medium hover:bg-teal-700 transition-colors"
-            >
-              <RefreshCw className="w-4 h-4" />
-              Refresh Now
-            </button>
-          </div>
-        </div>
-
-        {/* Overall Health Score */}
-        <div className={`p-4 rounded-lg border-2 ${getHealthBgColor(metrics.overallHealth)}`}>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <Shield className="w-6 h-6 text-teal-600" />
-              <div>
-                <h4 className="font-semibold text-gray-900">Overall System Health</h4>
-                <p className="text-sm text-gray-600">Composite health score across all metrics</p>
-              </div>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className={`text-3xl font-bold ${getHealthColor(metrics.overallHealth)}`}>
-                {metrics.overallHealth}%
-              </span>
-              {getTrendIcon(metrics.trend)}
-            </div>
-          </div>
-        </div>
+    <Card className="p-4 space-y-6">
+      <h3 className="text-lg font-semibold text-black">Technical Analysis</h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {select('Date', timeField, setTimeField, fields, 'Row order')}
+        {select('Open', openField, setOpenField, numericFields, 'Use close')}
+        {select('High', highField, setHighField, numericFields, 'Use close')}
+        {select('Low', lowField, setLowField, numericFields, 'Use close')}
+        {select('Close', closeField, setCloseField, numericFields)}
+        {select('Volume', volumeField, setVolumeField, numericFields, 'None')}
       </div>
 
-      {/* Key Metrics */}
-      <div className="bg-white rounded-lg shadow-sm border">
-        <div 
-          className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50"
-          onClick={() => toggleSection('metrics')}
-        >
-          <h3 className="text-lg font-semibold flex items-center gap-2">
-            <Activity className="w-5 h-5 text-teal-600" />
-            Key Performance Metrics
-          </h3>
-          {expandedSections.metrics ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
-        </div>
-        
-        {expandedSections.metrics && (
-          <div className="p-4 pt-0">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-              <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-4 rounded-lg border">
-                <div className="flex items-center justify-between mb-2">
-                  <Database className="w-5 h-5 text-blue-600" />
-                  {getTrendIcon(metrics.trend)}
-                </div>
-                <h4 className="font-medium text-gray-900">Data Quality</h4>
-                <p className={`text-2xl font-bold ${getHealthColor(metrics.dataQuality)}`}>
-                  {metrics.dataQuality}%
-                </p>
-                <p className="text-xs text-gray-600 mt-1">
-                  {metrics.issuesCount} issues detected
-                </p>
-              </div>
-              
-              <div className="bg-gradient-to-br from-green-50 to-green-100 p-4 rounded-lg border">
-                <div className="flex items-center justify-between mb-2">
-                  <Server className="w-5 h-5 text-green-600" />
-                  {getTrendIcon(metrics.trend)}
-                </div>
-                <h4 className="font-medium text-gray-900">System Performance</h4>
-                <p className={`text-2xl font-bold ${getHealthColor(metrics.systemPerformance)}`}>
-                  {metrics.systemPerformance}%
-                </p>
-                <p className="text-xs text-gray-600 mt-1">
-                  {metrics.errorRate.toFixed(2)}% error rate
-                </p>
-              </div>
-              
-              <div className="bg-gradient-to-br from-purple-50 to-purple-100 p-4 rounded-lg border">
-                <div className="flex items-center justify-between mb-2">
-                  <Zap className="w-5 h-5 text-purple-600" />
-                  {getTrendIcon(metrics.trend)}
-                </div>
-                <h4 className="font-medium text-gray-900">Processing Efficiency</h4>
-                <p className={`text-2xl font-bold ${getHealthColor(metrics.processingEfficiency)}`}>
-                  {metrics.processingEfficiency}%
-                </p>
-                <p className="text-xs text-gray-600 mt-1">
-                  {data.metadata?.processingTime || 0}ms avg response
-                </p>
-              </div>
-              
-              <div className="bg-gradient-to-br from-orange-50 to-orange-100 p-4 rounded-lg border">
-                <div className="flex items-center justify-between mb-2">
-                  <Cpu className="w-5 h-5 text-orange-600" />
-                  {getTrendIcon(metrics.trend)}
-                </div>
-                <h4 className="font-medium text-gray-900">Resource Usage</h4>
-                <p className={`text-2xl font-bold ${getHealthColor(100 - metrics.resourceUtilization)}`}>
-                  {metrics.resourceUtilization}%
-                </p>
-                <p className="text-xs text-gray-600 mt-1">
-                  CPU, Memory, Disk
-                </p>
-              </div>
+      {prices.error && <p className="text-sm text-red-600">{prices.error}</p>}
+      {chart?.error && <p className="text-sm text-red-600">{chart.error}</p>}
+
+      {bars && chart?.option && (
+        <>
+          <div className="flex flex-wrap items-end gap-4">
+            {(Object.keys(OVERLAY_LABELS) as Overlay[]).map(overlay => (
+              <label key={overlay} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={overlays[overlay]}
+                  onChange={e => setOverlays(prev => ({ ...prev, [overlay]: e.target.checked }))}
+                />
+                {OVERLAY_LABELS[overlay]}
+              </label>
+            ))}
+            <div className="w-28">
+              {numberInput('Overlay period', overlayPeriod, value => setOverlayPeriod(Math.max(1, Math.floor(value) || 1)), 1)}
             </div>
+            <label className="flex flex-col gap-1 text-sm text-gray-700">
+              Lower pane
+              <select
+                value={panelIndicator}
+                onChange={e => setPanelIndicator(e.target.value as PanelIndicator)}
+                className="p-2 border border-gray-200 rounded text-black"
+              >
+                {(Object.keys(PANEL_LABELS) as PanelIndicator[])
+                  .filter(indicator => indicator !== 'obv' || bars.volume)
+                  .map(indicator => (
+                    <option key={indicator} value={indicator}>{PANEL_LABELS[indicator]}</option>
+                  ))}
+              </select>
+            </label>
           </div>
-        )}
-      </div>
 
-      {/* Recommendations */}
-      <div className="bg-white rounded-lg shadow-sm border">
-        <div 
-          className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50"
-          onClick={() => toggleSection('recommendations')}
-        >
-          <h3 className="text-lg font-semibold flex items-center gap-2">
-            <TrendingUp className="w-5 h-5 text-teal-600" />
-            Smart Recommendations
-            {recommendations.filter(r => r.severity !== 'info').length > 0 && (
-              <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">
-                {recommendations.filter(r => r.severity !== 'info').length}
-              </span>
-            )}
-          </h3>
-          {expandedSections.recommendations ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
-        </div>
-        
-        {expandedSections.recommendations && (
-          <div className="p-4 pt-0">
-            <div className="space-y-3">
-              {recommendations.map((rec, index) => (
-                <div key={index} className={`p-4 rounded-lg border-l-4 ${getSeverityColor(rec.severity)}`}>
-                  <div className="flex items-start gap-3">
-                    {rec.icon}
-                    <div className="flex-1">
-                      <p className="font-medium">{rec.text}</p>
-                      <p className="text-sm opacity-75 mt-1">{rec.action}</p>
-                    </div>
-                    <span className={`px-2 py-1 rounded text-xs font-medium ${getSeverityColor(rec.severity)}`}>
-                      {rec.severity}
-                    </span>
-                  </div>
+          <EChart option={chart.option} height={560} />
+
+          <div>
+            <h4 className="font-medium text-black mb-2">Latest values</h4>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {latest.map(entry => (
+                <div key={entry.name} className="p-3 bg-gray-50 rounded">
+                  <p className="text-xs text-gray-500">{entry.name}</p>
+                  <p className="text-lg font-semibold text-black">
+                    {entry.value != null ? entry.value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '—'}
+                  </p>
                 </div>
               ))}
             </div>
           </div>
-        )}
-      </div>
 
-      {/* Field Analysis */}
-      <div className="bg-white rounded-lg shadow-sm border">
-        <div 
-          className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50"
-          onClick={() => toggleSection('fields')}
-        >
-          <h3 className="text-lg font-semibold flex items-center gap-2">
-            <Settings className="w-5 h-5 text-teal-600" />
-            Field Analysis ({data.fields.length} fields)
-            {metrics.criticalFields > 0 && (
-              <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">
-                {metrics.criticalFields} critical
-              </span>
-            )}
-          </h3>
-          {expandedSections.fields ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
-        </div>
-        
-        {expandedSections.fields && (
-          <div className="p-4 pt-0">
-            {/* Controls */}
-            <div className="flex flex-col sm:flex-row gap-4 mb-4">
-              <div className="flex-1 relative">
-                <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                <input
-                  type="text"
-                  placeholder="Search fields..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                />
-              </div>
-              
-              <button
-                onClick={() => setFilterCritical(!filterCritical)}
-                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                  filterCritical 
-                    ? 'bg-red-100 text-red-700 hover:bg-red-200' 
-                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-              >
-                <Filter className="w-4 h-4" />
-                {filterCritical ? 'Show All' : 'Critical Only'}
-              </button>
-            </div>
-
-            {/* Table */}
-            <div className="overflow-x-auto">
-              <table className="min-w-full">
-                <thead>
-                  <tr className="text-left text-sm text-gray-500 border-b">
-                    <th 
-                      className="p-3 cursor-pointer hover:bg-gray-50 transition-colors"
-                      onClick={() => handleSort('name')}
-                    >
-                      <div className="flex items-center gap-1">
-                        Field Name
-                        {sortBy === 'name' && (sortDirection === 'asc' ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
-                      </div>
-                    </th>
-                    <th 
-                      className="p-3 cursor-pointer hover:bg-gray-50 transition-colors"
-                      onClick={() => handleSort('type')}
-                    >
-                      <div className="flex items-center gap-1">
-                        Type
-                        {sortBy === 'type' && (sortDirection === 'asc' ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
-                      </div>
-                    </th>
-                    <th 
-                      className="p-3 cursor-pointer hover:bg-gray-50 transition-colors"
-                      onClick={() => handleSort('nullPercentage')}
-                    >
-                      <div className="flex items-center gap-1">
-                        Null %
-                        {sortBy === 'nullPercentage' && (sortDirection === 'asc' ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
-                      </div>
-                    </th>
-                    <th className="p-3">Unique Values</th>
-                    <th 
-                      className="p-3 cursor-pointer hover:bg-gray-50 transition-colors"
-                      onClick={() => handleSort('criticalityLevel')}
-                    >
-                      <div className="flex items-center gap-1">
-                        Criticality
-                        {sortBy === 'criticalityLevel' && (sortDirection === 'asc' ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
-                      </div>
-                    </th>
-                    <th className="p-3">Status</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {processedFields.slice(0, 10).map((field, index) => (
-                    <tr key={index} className="text-sm border-b hover:bg-gray-50 transition-colors">
-                      <td className="p-3 font-medium">{field.name || 'Unnamed'}</td>
-                      <td className="p-3">
-                        <span className="px-2 py-1 bg-gray-100 rounded text-xs">
-                          {field.type || 'Unknown'}
-                        </span>
-                      </td>
-                      <td className="p-3">
-                        <span className={`font-medium ${
-                          (field.nullPercentage ?? 0) > 10 ? 'text-red-600' : 
-                          (field.nullPercentage ?? 0) > 5 ? 'text-amber-600' : 'text-green-600'
-                        }`}>
-                          {(field.nullPercentage ?? 0).toFixed(1)}%
-                        </span>
-                      </td>
-                      <td className="p-3">{field.uniqueValues?.toLocaleString() || 'N/A'}</td>
-                      <td className="p-3">
-                        <span className={`px-2 py-1 rounded text-xs font-medium ${getSeverityColor(field.criticalityLevel || 'low')}`}>
-                          {field.criticalityLevel || 'low'}
-                        </span>
-                      </td>
-                      <td className="p-3">
-                        {(!field.name || !field.type || ((field.nullPercentage ?? 0) > 5)) ? (
-                          <span className="text-red-500 flex items-center gap-1">
-                            <AlertCircle className="w-4 h-4" /> Issues
-                          </span>
-                        ) : (
-                          <span className="text-green-500 flex items-center gap-1">
-                            <CheckCircle className="w-4 h-4" /> Valid
-                          </span>
-                        )}
-                      </td>
-                    </tr>
+          <div className="space-y-4">
+            <h4 className="font-medium text-black">Signal backtest</h4>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              <label className="flex flex-col gap-1 text-sm text-gray-700">
+                Strategy
+                <select
+                  value={strategyType}
+                  onChange={e => setStrategyType(e.target.value as StrategyType)}
+                  className="p-2 border border-gray-200 rounded text-black"
+                >
+                  {(Object.keys(STRATEGY_LABELS) as StrategyType[]).map(type => (
+                    <option key={type} value={type}>{STRATEGY_LABELS[type]}</option>
                   ))}
-                </tbody>
-              </table>
-              {processedFields.length > 10 && (
-                <p className="text-xs text-gray-500 mt-3 p-3">
-                  Showing 10 of {processedFields.length} fields. Use search to find specific fields.
-                </p>
+                </select>
+              </label>
+              {(strategyType === 'smaCross' || strategyType === 'emaCross') && (
+                <>
+                  {numberInput('Fast period', fastPeriod, value => setFastPeriod(Math.max(1, Math.floor(value) || 1)), 1)}
+                  {numberInput('Slow period', slowPeriod, value => setSlowPeriod(Math.max(2, Math.floor(value) || 2)), 2)}
+                </>
               )}
+              {numberInput('Initial capital', initialCapital, setInitialCapital, 1, 100)}
+              {numberInput('Fee per trade (%)', feePercent, setFeePercent, 0, 0.05)}
+              {numberInput('Bars per year', periodsPerYear, value => setPeriodsPerYear(Math.max(1, value)), 1)}
             </div>
-          </div>
-        )}
-      </div>
 
-      {/* System Health Details */}
-      <div className="bg-white rounded-lg shadow-sm border">
-        <div 
-          className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50"
-          onClick={() => toggleSection('systemHealth')}
-        >
-          <h3 className="text-lg font-semibold flex items-center gap-2">
-            <Activity className="w-5 h-5 text-teal-600" />
-            System Health Details
-          </h3>
-          {expandedSections.systemHealth ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
-        </div>
-        
-        {expandedSections.systemHealth && data.metadata && (
-          <div className="p-4 pt-0">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="space-y-3">
-                <h4 className="font-medium text-gray-900">Resource Utilization</h4>
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>CPU Usage</span>
-                    <span className={getHealthColor(100 - (data.metadata.cpuUsage || 0))}>
-                      {data.metadata.cpuUsage || 0}%
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Memory Usage</span>
-                    <span className={getHealthColor(100 - (data.metadata.memoryUsage || 0))}>
-                      {data.metadata.memoryUsage || 0}%
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Disk Usage</span>
-                    <span className={getHealthColor(100 - (data.metadata.diskUsage || 0))}>
-                      {data.metadata.diskUsage || 0}%
-                    </span>
+            {backtestResult?.error && <p className="text-sm text-red-600">{backtestResult.error}</p>}
+
+            {performance && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                  <div className="p-3 bg-gray-50 rounded">
+                    <p className="text-xs text-gray-500">P&amp;L</p>
+                    <p className={`text-lg font-semibold ${performance.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {performance.pnl.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </p>
                   </div>
-                </div>
-              </div>
-              
-              <div className="space-y-3">
-                <h4 className="font-medium text-gray-900">Performance Metrics</h4>
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Throughput</span>
-                    <span>{data.metadata.throughput?.toLocaleString() || 0} req/s</span>
+                  <div className="p-3 bg-gray-50 rounded">
+                    <p className="text-xs text-gray-500">Return</p>
+                    <p className="text-lg font-semibold text-black">{formatPercent(performance.totalReturn)}</p>
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Avg Response Time</span>
-                    <span>{data.metadata.processingTime || 0}ms</span>
+                  <div className="p-3 bg-gray-50 rounded">
+                    <p className="text-xs text-gray-500">Buy &amp; hold</p>
+                    <p className="text-lg font-semibold text-black">{formatPercent(performance.buyAndHoldReturn)}</p>
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Uptime</span>
-                    <span className={getHealthColor(data.metadata.uptime || 0)}>
-                      {data.metadata.uptime || 0}%
-                    </span>
+                  <div className="p-3 bg-gray-50 rounded">
+                    <p className="text-xs text-gray-500">Max drawdown</p>
+                    <p className="text-lg font-semibold text-red-600">{formatPercent(performance.maxDrawdown)}</p>
                   </div>
-                </div>
-              </div>
-              
-              <div className="space-y-3">
-                <h4 className="font-medium text-gray-900">Data Statistics</h4>
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Total Records</span>
-                    <span>{data.metadata.dataSize?.toLocaleString() || 'N/A'}</span>
+                  <div className="p-3 bg-gray-50 rounded">
+                    <p className="text-xs text-gray-500">Sharpe ratio</p>
+                    <p className="text-lg font-semibold text-black">{performance.sharpeRatio.toFixed(2)}</p>
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Null Values</span>
-                    <span className={getHealthColor(100 - ((data.metadata.nullValues || 0) / (data.metadata.dataSize || 1) * 100))}>
-                      {data.metadata.nullValues?.toLocaleString() || 0}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Error Rate</span>
-                    <span className={getHealthColor(100 - (data.metadata.errorRate || 0))}>
-                      {data.metadata.errorRate?.toFixed(2) || 0}%
-                    </span>
+                  <div className="p-3 bg-gray-50 rounded">
+                    <p className="text-xs text-gray-500">Trades / win rate</p>
+                    <p className="text-lg font-semibold text-black">
+                      {performance.trades.length} / {formatPercent(performance.winRate)}
+                    </p>
                   </div>
                 </div>
-              </div>
-            </div>
-            
-            {data.metadata.lastAnalysis && (
-              <div className="mt-4 pt-4 border-t">
-                <div className="flex items-center gap-2 text-sm text-gray-600">
-                  <Clock className="w-4 h-4" />
-                  <span>Last full analysis: {new Date(data.metadata.lastAnalysis).toLocaleString()}</span>
+
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={equityData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="time" minTickGap={40} />
+                      <YAxis domain={['auto', 'auto']} />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="strategy" name="Strategy equity" stroke="#2563eb" dot={false} />
+                      <Line type="monotone" dataKey="buyAndHold" name="Buy & hold" stroke="#9ca3af" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
                 </div>
-              </div>
+
+                {performance.trades.length > 0 && (
+                  <div className="overflow-x-auto max-h-72">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-500 border-b border-gray-200">
+                          <th className="px-3 py-2 text-left">Entry</th>
+                          <th className="px-3 py-2 text-left">Exit</th>
+                          <th className="px-3 py-2 text-right">Entry price</th>
+                          <th className="px-3 py-2 text-right">Exit price</th>
+                          <th className="px-3 py-2 text-right">P&amp;L</th>
+                          <th className="px-3 py-2 text-right">Return</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {performance.trades.map(trade => (
+                          <tr key={trade.entryIndex} className="border-b border-gray-100">
+                            <td className="px-3 py-1 text-black">{bars.time[trade.entryIndex]}</td>
+                            <td className="px-3 py-1 text-black">{bars.time[trade.exitIndex]}</td>
+                            <td className="px-3 py-1 text-right text-black">{trade.entryPrice.toFixed(2)}</td>
+                            <td className="px-3 py-1 text-right text-black">{trade.exitPrice.toFixed(2)}</td>
+                            <td className={`px-3 py-1 text-right ${trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {trade.pnl.toFixed(2)}
+                            </td>
+                            <td className="px-3 py-1 text-right text-black">{formatPercent(trade.return)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
             )}
           </div>
-        )}
+        </>
+      )}
+
+      <div className="p-3 bg-gray-50 rounded text-xs text-gray-600">
+        <p>
+          <strong>Backtest assumptions:</strong> long-only, fully invested on each buy signal and trading at the
+          signal bar's close. Any open position is closed on the last bar. The Sharpe ratio uses per-bar equity returns
+          with a zero risk-free rate, annualised by bars per year.
+        </p>
       </div>
-    </div>
+    </Card>
   );
-} 
\ No newline at end of file
+}
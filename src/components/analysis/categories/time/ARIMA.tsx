@@ -1,5 +1,12 @@
-import  { useState, useCallback, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import  { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import {
+  formatOrder,
+  type AutoArimaResult,
+  type InformationCriterion,
+  type UnitRootTest
+} from '@/utils/analysis/timeSeries/autoArima';
+import { AutoArimaWorkerClient } from '@/utils/analysis/timeSeries/AutoArimaWorkerClient';
 
 // Enhanced ARIMA Parameters interface
 interface ARIMAParams {
@@ -475,6 +482,174 @@ class EnhancedARIMAAnalyzer {
   }
 }
 
+// Map an auto-ARIMA search onto the shared result shape
+function autoResultToARIMAResult(field: string, values: number[], result: AutoArimaResult): ARIMAResult {
+  const residuals = result.residuals.filter((r): r is number => r != null);
+  const actual = values.filter((_, i) => result.residuals[i] != null);
+  const percentErrors = residuals
+    .map((r, i) => (actual[i] !== 0 ? Math.abs(r / actual[i]) : null))
+    .filter((e): e is number => e != null);
+  const lastTest = result.differencing.tests[result.differencing.tests.length - 1];
+
+  return {
+    field,
+    originalData: values,
+    fittedValues: result.fitted.filter((f): f is number => f != null),
+    residuals,
+    forecast: result.forecast.mean,
+    forecastIntervals: { lower: result.forecast.lower, upper: result.forecast.upper },
+    metrics: {
+      aic: result.best.aic,
+      bic: result.best.bic,
+      rmse: Math.sqrt(result.best.sigma2),
+      mae: residuals.reduce((sum, r) => sum + Math.abs(r), 0) / residuals.length,
+      mape: percentErrors.length ? percentErrors.reduce((sum, e) => sum + e, 0) / percentErrors.length * 100 : 0
+    },
+    parameters: {
+      ar: result.best.ar,
+      ma: result.best.ma,
+      seasonal_ar: result.best.seasonalAr,
+      seasonal_ma: result.best.seasonalMa
+    },
+    diagnostics: {
+      stationarity: lastTest ? lastTest.stationary : true,
+      autocorrelation: result.diagnostics.acf,
+      ljungBox: result.diagnostics.ljungBox.statistic
+    }
+  };
+}
+
+const CRITERION_LABELS: Record<InformationCriterion, string> = { aic: 'AIC', aicc: 'AICc', bic: 'BIC' };
+
+// Chosen model, ranked candidates and residual diagnostics for one field
+function AutoArimaReport({ field, values, result }: { field: string; values: number[]; result: AutoArimaResult }) {
+  const { best, candidates, criterion, differencing, diagnostics, forecast } = result;
+  const bestScore = best[criterion];
+
+  const chartData = useMemo(() => [
+    ...values.map((value, i) => ({ index: i, actual: value, fitted: result.fitted[i] ?? undefined })),
+    ...forecast.mean.map((value, h) => ({
+      index: values.length + h,
+      forecast: value,
+      lower: forecast.lower[h],
+      upper: forecast.upper[h]
+    }))
+  ], [values, result.fitted, forecast]);
+
+  const acfData = diagnostics.acf.map((value, i) => ({ lag: i + 1, acf: value }));
+  const whiteNoise = diagnostics.ljungBox.pValue > 0.05;
+
+  return (
+    <div className="mt-8 p-4 bg-gray-50 rounded-lg space-y-6">
+      <div>
+        <h4 className="text-lg font-medium text-gray-700">Field: {field}</h4>
+        <p className="text-sm text-gray-600">
+          Selected <strong>{formatOrder(best.order)}</strong> with {CRITERION_LABELS[criterion]} {bestScore.toFixed(2)}
+          {' '}from {candidates.length} fitted models{result.failedFits > 0 && ` (${result.failedFits} failed to fit)`}.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white p-3 rounded shadow text-sm space-y-1">
+          <div className="text-gray-600 mb-2">Differencing</div>
+          {differencing.seasonalStrength != null && (
+            <div>
+              <strong>Seasonal strength:</strong> {differencing.seasonalStrength.toFixed(3)} → D = {differencing.D}
+            </div>
+          )}
+          {differencing.tests.map(test => (
+            <div key={test.d}>
+              <strong>{test.test.toUpperCase()} at d = {test.d}:</strong> {test.statistic.toFixed(3)}
+              {' '}({test.stationary ? 'stationary' : 'unit root'})
+            </div>
+          ))}
+          <div><strong>Chosen:</strong> d = {differencing.d}, D = {differencing.D}</div>
+        </div>
+
+        <div className="bg-white p-3 rounded shadow text-sm space-y-1">
+          <div className="text-gray-600 mb-2">Ljung-Box test on residuals</div>
+          <div><strong>Q({diagnostics.ljungBox.lag}):</strong> {diagnostics.ljungBox.statistic.toFixed(2)}</div>
+          <div><strong>Degrees of freedom:</strong> {diagnostics.ljungBox.df}</div>
+          <div><strong>p-value:</strong> {diagnostics.ljungBox.pValue.toFixed(4)}</div>
+          <div className={whiteNoise ? 'text-green-700' : 'text-red-600'}>
+            {whiteNoise
+              ? 'Residuals are consistent with white noise.'
+              : 'Residuals remain autocorrelated; consider a seasonal model or higher orders.'}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white p-3 rounded shadow">
+        <h5 className="text-sm font-medium text-gray-700 mb-2">Fit and forecast ({Math.round(forecast.level * 100)}% interval)</h5>
+        <ResponsiveContainer width="100%" height={320}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="index" />
+            <YAxis domain={['auto', 'auto']} />
+            <Tooltip />
+            <Legend />
+            <Line type="monotone" dataKey="actual" stroke="#2563eb" dot={false} name="Actual" />
+            <Line type="monotone" dataKey="fitted" stroke="#059669" strokeDasharray="5 5" dot={false} name="Fitted" />
+            <Line type="monotone" dataKey="forecast" stroke="#dc2626" dot={false} name="Forecast" />
+            <Line type="monotone" dataKey="upper" stroke="#fbbf24" strokeDasharray="2 2" dot={false} name="Upper" />
+            <Line type="monotone" dataKey="lower" stroke="#fbbf24" strokeDasharray="2 2" dot={false} name="Lower" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-white p-3 rounded shadow">
+        <h5 className="text-sm font-medium text-gray-700 mb-2">Residual autocorrelation</h5>
+        <ResponsiveContainer width="100%" height={200}>
+          <BarChart data={acfData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="lag" />
+            <YAxis domain={[-1, 1]} />
+            <Tooltip formatter={(value: number) => value.toFixed(3)} />
+            <ReferenceLine y={diagnostics.bound} stroke="#dc2626" strokeDasharray="3 3" />
+            <ReferenceLine y={-diagnostics.bound} stroke="#dc2626" strokeDasharray="3 3" />
+            <Bar dataKey="acf" fill="#6366f1" name="ACF" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-white p-3 rounded shadow overflow-x-auto">
+        <h5 className="text-sm font-medium text-gray-700 mb-2">Candidate models</h5>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-gray-600 border-b">
+              <th className="px-2 py-1 text-left">Rank</th>
+              <th className="px-2 py-1 text-left">Model</th>
+              {(Object.keys(CRITERION_LABELS) as InformationCriterion[]).map(key => (
+                <th key={key} className={`px-2 py-1 text-right ${key === criterion ? 'text-blue-700' : ''}`}>
+                  {CRITERION_LABELS[key]}
+                </th>
+              ))}
+              <th className="px-2 py-1 text-right">Δ {CRITERION_LABELS[criterion]}</th>
+              <th className="px-2 py-1 text-right">σ²</th>
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.slice(0, 15).map((candidate, rank) => (
+              <tr key={formatOrder(candidate.order)} className={`border-b ${rank === 0 ? 'bg-blue-50 font-medium' : ''}`}>
+                <td className="px-2 py-1">{rank + 1}</td>
+                <td className="px-2 py-1">{formatOrder(candidate.order)}</td>
+                {(Object.keys(CRITERION_LABELS) as InformationCriterion[]).map(key => (
+                  <td key={key} className="px-2 py-1 text-right">{candidate[key].toFixed(2)}</td>
+                ))}
+                <td className="px-2 py-1 text-right">{(candidate[criterion] - bestScore).toFixed(2)}</td>
+                <td className="px-2 py-1 text-right">{candidate.sigma2.toFixed(4)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {candidates.length > 15 && (
+          <p className="text-xs text-gray-500 mt-2">Showing the best 15 of {candidates.length} models.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Main ARIMA Component
 interface ARIMAProps {
   data: TimeSeriesDataPoint[];
@@ -483,7 +658,7 @@ interface ARIMAProps {
   confidenceLevel?: number;
 }
 
-export default function EnhancedARIMA({ data, onAnalyze, forecastPeriods = 12 }: ARIMAProps) {
+export default function EnhancedARIMA({ data, onAnalyze, forecastPeriods = 12, confidenceLevel = 0.95 }: ARIMAProps) {
   const [params, setParams] = useState<ARIMAParams>({
     p: 1,
     d: 1,
@@ -495,6 +670,23 @@ export default function EnhancedARIMA({ data, onAnalyze, forecastPeriods = 12 }:
   const [results, setResults] = useState<ARIMAResult[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
+  // Auto mode picks the orders by information criterion
+  const [mode, setMode] = useState<'manual' | 'auto'>('manual');
+  const [criterion, setCriterion] = useState<InformationCriterion>('aicc');
+  const [unitRootTest, setUnitRootTest] = useState<UnitRootTest>('kpss');
+  const [searchMethod, setSearchMethod] = useState<'stepwise' | 'grid'>('stepwise');
+  const [autoResults, setAutoResults] = useState<{ field: string; values: number[]; result: AutoArimaResult }[]>([]);
+  const [autoError, setAutoError] = useState<string | null>(null);
+  const clientRef = useRef<AutoArimaWorkerClient | null>(null);
+
+  useEffect(() => {
+    clientRef.current = new AutoArimaWorkerClient();
+    return () => {
+      clientRef.current?.terminate();
+      clientRef.current = null;
+    };
+  }, []);
+
   // Group data by field
   const fieldGroups = useMemo(() => {
     return data.reduce((groups, item) => {
@@ -514,6 +706,43 @@ export default function EnhancedARIMA({ data, onAnalyze, forecastPeriods = 12 }:
     setParams(prev => ({ ...prev, [key]: value }));
   }, []);
 
+  const handleAutoAnalyze = useCallback(async () => {
+    const client = clientRef.current;
+    if (!client) return;
+    setIsAnalyzing(true);
+    setAutoError(null);
+
+    try {
+      const searched: { field: string; values: number[]; result: AutoArimaResult }[] = [];
+      const failures: string[] = [];
+      for (const [fieldName, fieldData] of Object.entries(fieldGroups)) {
+        const values = fieldData.map(d => d.value).filter(value => isFinite(value));
+        try {
+          const result = await client.search(values, {
+            seasonal: params.seasonal,
+            period: params.seasonalPeriod,
+            criterion,
+            test: unitRootTest,
+            search: searchMethod,
+            horizon: forecastPeriods,
+            level: confidenceLevel
+          });
+          searched.push({ field: fieldName, values, result });
+        } catch (error) {
+          failures.push(`${fieldName}: ${error instanceof Error ? error.message : 'search failed'}`);
+        }
+      }
+
+      setAutoResults(searched);
+      if (failures.length) setAutoError(failures.join('; '));
+      if (searched.length) {
+        onAnalyze?.(searched.map(({ field, values, result }) => autoResultToARIMAResult(field, values, result)));
+      }
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }, [fieldGroups, params.seasonal, params.seasonalPeriod, criterion, unitRootTest, searchMethod, forecastPeriods, confidenceLevel, onAnalyze]);
+
   const handleAnalyze = useCallback(() => {
     setIsAnalyzing(true);
     
@@ -620,51 +849,111 @@ export default function EnhancedARIMA({ data, onAnalyze, forecastPeriods = 12 }:
       <div className="mb-6 p-4 bg-gray-50 rounded-lg">
         <div className="flex items-center gap-4 mb-4">
           <h3 className="text-lg font-semibold text-gray-700">Parameters</h3>
+          <div className="flex rounded border border-gray-300 overflow-hidden text-sm">
+            {(['manual', 'auto'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 ${mode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+              >
+                {option === 'manual' ? 'Manual orders' : 'Auto-ARIMA'}
+              </button>
+            ))}
+          </div>
         </div>
         
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              AR Order (p)
-            </label>
-            <input
-              type="number"
-              min="0"
-              max="5"
-              value={params.p}
-              onChange={(e) => handleParamChange('p', parseInt(e.target.value) || 0)}
-              className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Differencing (d)
-            </label>
-            <input
-              type="number"
-              min="0"
-              max="2"
-              value={params.d}
-              onChange={(e) => handleParamChange('d', parseInt(e.target.value) || 0)}
-              className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+          {mode === 'manual' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  AR Order (p)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="5"
+                  value={params.p}
+                  onChange={(e) => handleParamChange('p', parseInt(e.target.value) || 0)}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
           
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              MA Order (q)
-            </label>
-            <input
-              type="number"
-              min="0"
-              max="5"
-              value={params.q}
-              onChange={(e) => handleParamChange('q', parseInt(e.target.value) || 0)}
-              className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Differencing (d)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="2"
+                  value={params.d}
+                  onChange={(e) => handleParamChange('d', parseInt(e.target.value) || 0)}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
           
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  MA Order (q)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="5"
+                  value={params.q}
+                  onChange={(e) => handleParamChange('q', parseInt(e.target.value) || 0)}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Criterion
+                </label>
+                <select
+                  value={criterion}
+                  onChange={(e) => setCriterion(e.target.value as InformationCriterion)}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(CRITERION_LABELS) as InformationCriterion[]).map(key => (
+                    <option key={key} value={key}>{CRITERION_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Differencing test
+                </label>
+                <select
+                  value={unitRootTest}
+                  onChange={(e) => setUnitRootTest(e.target.value as UnitRootTest)}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="kpss">KPSS</option>
+                  <option value="adf">Augmented Dickey-Fuller</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Search
+                </label>
+                <select
+                  value={searchMethod}
+                  onChange={(e) => setSearchMethod(e.target.value as 'stepwise' | 'grid')}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="stepwise">Stepwise</option>
+                  <option value="grid">Full grid (p + q + P + Q ≤ 5)</option>
+                </select>
+              </div>
+            </>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Seasonal
@@ -699,15 +988,26 @@ export default function EnhancedARIMA({ data, onAnalyze, forecastPeriods = 12 }:
       
       {/* Analyze Button */}
       <button
-        onClick={handleAnalyze}
+        onClick={mode === 'auto' ? handleAutoAnalyze : handleAnalyze}
         disabled={isAnalyzing || data.length === 0}
         className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
       >
-        {isAnalyzing ? 'Analyzing...' : 'Run Enhanced ARIMA Analysis'}
+        {isAnalyzing
+          ? (mode === 'auto' ? 'Searching models...' : 'Analyzing...')
+          : (mode === 'auto' ? 'Run Auto-ARIMA Search' : 'Run Enhanced ARIMA Analysis')}
       </button>
       
+      {mode === 'auto' && autoError && (
+        <p className="mt-4 text-sm text-red-600">{autoError}</p>
+      )}
+
+      {/* Auto-ARIMA results */}
+      {mode === 'auto' && autoResults.map(({ field, values, result }) => (
+        <AutoArimaReport key={field} field={field} values={values} result={result} />
+      ))}
+
       {/* Results */}
-      {results.length > 0 && (
+      {mode === 'manual' && results.length > 0 && (
         <div className="mt-8">
           <h3 className="text-xl font-semibold text-gray-800 mb-4">Analysis Results</h3>
           
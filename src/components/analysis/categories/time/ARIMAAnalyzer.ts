@@ -1,4 +1,5 @@
 import { ARIMAParams, TimeSeriesData } from './types';
+import { autoArima, type AutoArimaOptions, type AutoArimaResult } from '@/utils/analysis/timeSeries/autoArima';
 
 export class ARIMAAnalyzer {
   private data: TimeSeriesData[];
@@ -18,12 +19,15 @@ export class ARIMAAnalyzer {
       throw new Error("Insufficient data points. Need at least 10 observations.");
     }
     
-    if (this.params.p < 0 || this.params.d < 0 || this.params.q < 0) {
-      throw new Error("ARIMA parameters (p, d, q) must be non-negative integers.");
-    }
-    
-    if (this.params.p > 5 || this.params.q > 5) {
-      console.warn("High AR or MA orders may lead to overfitting. Consider values ≤ 5.");
+    // In auto mode the orders come from the information-criterion search
+    if (!this.params.auto) {
+      if (this.params.p < 0 || this.params.d < 0 || this.params.q < 0) {
+        throw new Error("ARIMA parameters (p, d, q) must be non-negative integers.");
+      }
+
+      if (this.params.p > 5 || this.params.q > 5) {
+        console.warn("High AR or MA orders may lead to overfitting. Consider values ≤ 5.");
+      }
     }
     
     if (this.params.seasonal && !this.params.seasonalPeriod) {
@@ -295,10 +299,14 @@ export class ARIMAAnalyzer {
   } {
     const values = this.data.map(d => d.value);
     
-    // Optimize parameters if requested
-    const optimizedParams = this.params.optimize ? 
-      this.optimizeParameters(values, this.params) : 
-      this.params;
+    // Pick orders automatically or optimize them if requested
+    let optimizedParams = this.params;
+    if (this.params.auto) {
+      const { p, d, q } = this.autoSelect().best.order;
+      optimizedParams = { ...this.params, p, d, q };
+    } else if (this.params.optimize) {
+      optimizedParams = this.optimizeParameters(values, this.params);
+    }
     
     // Train final model
     const trainingResult = this.trainModel(values, optimizedParams);
@@ -406,6 +414,20 @@ export class ARIMAAnalyzer {
     return this.inverseDifference(forecastDiff, data, d);
   }
 
+  /**
+   * Selects differencing by unit-root tests and searches p/q (and P/Q when
+   * seasonal) by information criterion.
+   */
+  public autoSelect(options: AutoArimaOptions = {}): AutoArimaResult {
+    return autoArima(this.data.map(d => d.value), {
+      seasonal: this.params.seasonal,
+      period: this.params.seasonalPeriod,
+      criterion: this.params.criterion,
+      horizon: this.params.forecastLength || 12,
+      ...options
+    });
+  }
+
   public suggestParameters(): { p: number, d: number, q: number } {
     const values = this.data.map(d => d.value);
     
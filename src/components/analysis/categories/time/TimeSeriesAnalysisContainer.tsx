@@ -14,6 +14,7 @@ import { Progress } from '@/components/ui/progress';
 import { AreaChart, Area, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
 import { TrendingUp, TrendingDown, Minus, Clock, Calendar, BarChart, AlertCircle } from 'lucide-react';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 // ARIMA result interface for conversion
 interface ARIMAResult {
   field: string;
@@ -88,7 +89,7 @@ export function TimeSeriesAnalysisContainer({ data }: TimeSeriesAnalysisContaine
   const [confidenceLevel, setConfidenceLevel] = useState(95);
 
   // Get all numeric fields
-  const numericFields = data?.fields?.filter(field => field.type === 'number') || [];
+  const numericFields = data?.fields?.filter(isMeasureField) || [];
 
   // Set default selected field
   useEffect(() => {
@@ -100,7 +101,7 @@ export function TimeSeriesAnalysisContainer({ data }: TimeSeriesAnalysisContaine
   // Convert selected field data to time series format
   const getTimeSeriesData = () => {
     const field = data.fields.find(f => f.name === selectedField);
-    if (!field || field.type !== 'number') return [];
+    if (!field || !isMeasureField(field)) return [];
 
     return (field.value as number[]).map((value, index) => ({
       timestamp: index,
@@ -1,3 +1,5 @@
+import type { InformationCriterion } from '@/utils/analysis/timeSeries/autoArima';
+
 export interface ARIMAParams {
   p: number;
   d: number;
@@ -5,6 +7,9 @@ export interface ARIMAParams {
   seasonal: boolean;
   seasonalPeriod: number;
   optimize?: boolean;
+  // Pick orders with autoArima instead of the hand-set p, d, q
+  auto?: boolean;
+  criterion?: InformationCriterion;
   forecastLength?: number;
 }
 
@@ -1,12 +1,14 @@
 import React from 'react';
 import { FileText, Download, Brain, Calculator, TrendingUp, AlertCircle, ChevronDown, Map, Network, MessageSquare, Clock } from 'lucide-react';
-import { DataField } from '@/types/data';
+import { DataField, DataSource } from '@/types/data';
+import { SampleNotice } from '@/components/analysis/SampleNotice';
 import { calculateFieldStats } from '@/utils/analysis/statistics/calculations';
 import { determineTrend } from '@/utils/analysis/statistics/trends';
 import { formatNumber } from '@/utils/analysis/formatting';
 import { useNavigate } from 'react-router-dom';
 import { getAnalysisData } from '@/utils/storage/db';
 import { generateReport, downloadReport } from '@/utils/analysis/reports';
+import { isMeasureField } from '@/utils/file/columnTypes';
 // import { Line, Bar, Scatter } from 'react-chartjs-2';
 // import { SentimentAnalyzer } from '@/utils/analysis/nlp/sentimentAnalyzer';
 // import { FinanceAnalyzer } from '@/utils/analysis/industry/finance';
@@ -23,6 +25,7 @@ interface FileData {
   content: {
     fields: DataField[];
   };
+  source?: DataSource;
 }
 
 export function ComprehensiveReport() {
@@ -156,6 +159,7 @@ export function ComprehensiveReport() {
 
           {/* Report Content */}
           <div className="space-y-6">
+            <SampleNotice source={data.source} />
             <Section
               title="Executive Summary"
               icon={Brain}
@@ -240,7 +244,7 @@ function Section({ title, icon: Icon, content }: SectionProps) {
 }
 
 function generateExecutiveSummary(fields: DataField[]): string {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   const textFields = fields.filter(f => f.type === 'string');
   const dateFields = fields.filter(f => f.type === 'date');
 
@@ -267,7 +271,7 @@ This comprehensive analysis includes statistical calculations, trend analysis, c
 function generateStatisticalAnalysis(fields: DataField[]): string {
   if (!fields?.length) return '';
   
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return numericFields.map(field => {
     const stats = calculateFieldStats(field);
     return `${field.name}:
@@ -281,7 +285,7 @@ function generateStatisticalAnalysis(fields: DataField[]): string {
 function generateTrendsAndPatterns(fields: DataField[]): string {
   if (!fields?.length) return '';
   
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return numericFields.map(field => {
     const trend = determineTrend(field.value as number[]);
     const stats = calculateFieldStats(field);
@@ -342,7 +346,7 @@ function generateNetworkAnalysis(fields: DataField[]): string {
 }
 
 function generateConclusions(fields: DataField[]): string {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   const textFields = fields.filter(f => f.type === 'string');
   const dateFields = fields.filter(f => f.type === 'date');
 
@@ -0,0 +1,46 @@
+import React from 'react';
+import * as echarts from 'echarts';
+import type { EChartsOption } from 'echarts';
+
+interface EChartProps {
+  option: EChartsOption;
+  height?: number;
+  onClick?: (params: { name?: string; dataType?: string; data?: unknown }) => void;
+}
+
+export function EChart({ option, height = 400, onClick }: EChartProps) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const chartRef = React.useRef<echarts.ECharts | null>(null);
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const chart = echarts.init(container);
+    chartRef.current = chart;
+
+    const observer = new ResizeObserver(() => chart.resize());
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      chart.dispose();
+      chartRef.current = null;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    chartRef.current?.setOption(option, true);
+  }, [option]);
+
+  React.useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || !onClick) return;
+    chart.on('click', onClick);
+    return () => {
+      chart.off('click', onClick);
+    };
+  }, [onClick]);
+
+  return <div ref={containerRef} style={{ width: '100%', height }} />;
+}
@@ -1,3 +1,4 @@
 export { LineChart } from './LineChart';
 export { BarChart } from './BarChart';
-export { ScatterChart } from './ScatterChart'; 
\ No newline at end of file
+export { ScatterChart } from './ScatterChart';
+export { EChart } from './EChart';
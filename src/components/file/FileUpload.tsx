@@ -1,21 +1,45 @@
 import React, { useCallback, useRef } from 'react';
 import { Upload, Loader, AlertCircle } from 'lucide-react';
-import { MAX_FILE_SIZE } from '@/utils/core/constants';
+import { MAX_FILE_SIZE, SUPPORTED_FILE_TYPES } from '@/utils/core/constants';
+import { inspectWorkbook, type SheetInfo, type SheetSelection } from '@/utils/file/processors/excel';
+import { SheetPicker } from './SheetPicker';
 
 interface FileUploadProps {
   isProcessing: boolean;
   progress?: number;
   error: Error | null;
   onFileUpload: (file: File) => Promise<any>;
+  // When provided, multi-sheet workbooks open a sheet picker first
+  onSheetsSelected?: (file: File, selections: SheetSelection[]) => Promise<any>;
 }
 
-export function FileUpload({ isProcessing, progress = 0, error, onFileUpload }: FileUploadProps) {
+export function FileUpload({ isProcessing, progress = 0, error, onFileUpload, onSheetsSelected }: FileUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [workbook, setWorkbook] = React.useState<{ file: File; sheets: SheetInfo[] } | null>(null);
 
   const handleFileUpload = async (file: File) => {
+    const extension = file.name.toLowerCase().split('.').pop();
+    if (onSheetsSelected && (extension === 'xlsx' || extension === 'xls')) {
+      try {
+        const sheets = await inspectWorkbook(file);
+        if (sheets.length > 1) {
+          setWorkbook({ file, sheets });
+          return;
+        }
+      } catch (inspectError) {
+        console.warn('Workbook inspection failed, loading first sheet:', inspectError);
+      }
+    }
     await onFileUpload(file);
   };
 
+  const handleSheetsConfirmed = async (selections: SheetSelection[]) => {
+    if (!workbook || !onSheetsSelected) return;
+    const { file } = workbook;
+    setWorkbook(null);
+    await onSheetsSelected(file, selections);
+  };
+
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     const file = event.dataTransfer.files[0];
@@ -91,17 +115,26 @@ export function FileUpload({ isProcessing, progress = 0, error, onFileUpload }:
                 ref={fileInputRef}
                 type="file"
                 className="hidden"
-                accept=".csv,.xlsx,.xls"
+                accept={SUPPORTED_FILE_TYPES.map(type => `.${type}`).join(',')}
                 onChange={handleFileChange}
               />
             </div>
             <p className="mt-2 text-xs text-gray-500 max-w-xs mx-auto">
-              Supported formats: CSV and Excel (up to {(MAX_FILE_SIZE / (1024 * 1024)).toFixed(0)}MB)
+              Supported formats: CSV and Parquet (large files are streamed), Excel, JSON/NDJSON and Arrow (up to {(MAX_FILE_SIZE / (1024 * 1024)).toFixed(0)}MB)
             </p>
           </>
         )}
       </div>
 
+      {workbook && (
+        <SheetPicker
+          fileName={workbook.file.name}
+          sheets={workbook.sheets}
+          onConfirm={handleSheetsConfirmed}
+          onCancel={() => setWorkbook(null)}
+        />
+      )}
+
       {error && (
         <div className="flex items-start gap-2 text-red-600 bg-red-50 p-4 rounded-lg mt-4">
           <AlertCircle className="h-5 w-5 flex-shrink-0" />
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Layers, X } from 'lucide-react';
+import { listLoadedDatasets, removeLoadedDataset, selectLoadedDataset } from '@/utils/storage/db';
+import type { FileData } from '@/types/file';
+
+interface LoadedDatasetSwitcherProps {
+  // Name of the dataset being analyzed
+  current: string;
+  onSelect: (data: FileData) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Switches between the datasets loaded this session, such as the other
+ * sheets of a workbook, and removes the ones no longer needed.
+ */
+export function LoadedDatasetSwitcher({ current, onSelect, disabled }: LoadedDatasetSwitcherProps) {
+  const [loaded, setLoaded] = React.useState<string[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const datasets = await listLoadedDatasets();
+      setLoaded(datasets.map(data => data.name).filter(name => name !== current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list loaded datasets');
+    }
+  }, [current]);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleSelect = async (name: string) => {
+    try {
+      setError(null);
+      onSelect(await selectLoadedDataset(name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch dataset');
+    }
+  };
+
+  const handleRemove = async (name: string) => {
+    await removeLoadedDataset(name);
+    await refresh();
+  };
+
+  if (loaded.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Layers className="w-4 h-4 text-gray-500" />
+      <span className="px-3 py-1 rounded-full bg-teal-50 text-teal-700 text-sm font-medium">{current}</span>
+      {loaded.map(name => (
+        <span key={name} className="flex items-center rounded-full border border-gray-200 text-sm">
+          <button
+            onClick={() => handleSelect(name)}
+            disabled={disabled}
+            className="pl-3 pr-1 py-1 text-gray-700 hover:text-teal-600 disabled:opacity-50"
+            title={`Analyze ${name}`}
+          >
+            {name}
+          </button>
+          <button
+            onClick={() => handleRemove(name)}
+            disabled={disabled}
+            className="pr-2 pl-1 py-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            title={`Remove ${name}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
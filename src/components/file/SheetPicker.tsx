@@ -0,0 +1,148 @@
+import React from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import type { SheetInfo, SheetSelection } from '@/utils/file/processors/excel';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: SheetInfo[];
+  onConfirm: (selections: SheetSelection[]) => void;
+  onCancel: () => void;
+}
+
+export function SheetPicker({ fileName, sheets, onConfirm, onCancel }: SheetPickerProps) {
+  const [selected, setSelected] = React.useState<Record<string, boolean>>(() =>
+    Object.fromEntries(sheets.map(sheet => [sheet.name, sheet.hasData]))
+  );
+  const [headerRows, setHeaderRows] = React.useState<Record<string, number>>(() =>
+    Object.fromEntries(sheets.map(sheet => [sheet.name, sheet.layout.headerRow]))
+  );
+  const [activeSheet, setActiveSheet] = React.useState(
+    sheets.find(sheet => sheet.hasData)?.name ?? sheets[0]?.name
+  );
+
+  const active = sheets.find(sheet => sheet.name === activeSheet);
+  const selections = sheets
+    .filter(sheet => selected[sheet.name])
+    .map(sheet => ({
+      name: sheet.name,
+      headerRow: headerRows[sheet.name] !== sheet.layout.headerRow ? headerRows[sheet.name] : undefined
+    }));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col text-left">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Select sheets to load</h3>
+            <p className="text-sm text-gray-500">{fileName}</p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-64 border-r overflow-auto p-2 space-y-1">
+            {sheets.map(sheet => (
+              <div
+                key={sheet.name}
+                onClick={() => setActiveSheet(sheet.name)}
+                className={`flex items-start gap-2 p-2 rounded cursor-pointer ${
+                  activeSheet === sheet.name ? 'bg-teal-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={!!selected[sheet.name]}
+                  disabled={!sheet.hasData}
+                  onClick={e => e.stopPropagation()}
+                  onChange={e => setSelected(prev => ({ ...prev, [sheet.name]: e.target.checked }))}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1">
+                    <FileSpreadsheet className="w-4 h-4 text-teal-600 flex-shrink-0" />
+                    <span className="text-sm font-medium text-gray-900 truncate">{sheet.name}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {sheet.hasData
+                      ? `${sheet.rowCount} rows × ${sheet.headers.length} columns`
+                      : 'No table detected'}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-auto p-4">
+            {active && (
+              <>
+                <div className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+                  <label htmlFor="header-row">Header row</label>
+                  <input
+                    id="header-row"
+                    type="number"
+                    min={1}
+                    max={active.preview.length}
+                    value={headerRows[active.name] + 1}
+                    onChange={e => {
+                      const row = Math.max(0, Number(e.target.value) - 1);
+                      setHeaderRows(prev => ({ ...prev, [active.name]: row }));
+                    }}
+                    className="w-20 p-1 border border-gray-200 rounded"
+                  />
+                  {headerRows[active.name] !== active.layout.headerRow && (
+                    <span className="text-xs text-yellow-600">
+                      Detected row {active.layout.headerRow + 1}
+                    </span>
+                  )}
+                </div>
+                <div className="overflow-auto border rounded">
+                  <table className="min-w-full text-xs">
+                    <tbody>
+                      {active.preview.map((row, rowIndex) => (
+                        <tr
+                          key={rowIndex}
+                          className={
+                            rowIndex === headerRows[active.name]
+                              ? 'bg-teal-100 font-semibold'
+                              : rowIndex < headerRows[active.name]
+                              ? 'text-gray-400'
+                              : ''
+                          }
+                        >
+                          <td className="px-2 py-1 text-gray-400 border-r">{rowIndex + 1}</td>
+                          {(row ?? []).map((cell, cellIndex) => (
+                            <td key={cellIndex} className="px-2 py-1 whitespace-nowrap">
+                              {cell == null ? '' : String(cell)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(selections)}
+            disabled={selections.length === 0}
+            className="px-4 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            Load {selections.length} {selections.length === 1 ? 'sheet' : 'sheets'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1 +1,3 @@
-export { FileUpload } from './FileUpload';
\ No newline at end of file
+export { FileUpload } from './FileUpload';
+export { SheetPicker } from './SheetPicker';
+export { LoadedDatasetSwitcher } from './LoadedDatasetSwitcher';
@@ -14,9 +14,11 @@ const HIDE_HEADER_PATHS = [
   '/analysis/new',
   '/analysis/visualizations',
   '/analysis/reports',
+  '/analysis/sql',
   '/analysis/simulations',
   '/analysis/trends',
   '/team',
+  '/errors',
   '/settings',
 ];
 
@@ -13,6 +13,7 @@ export const navigation = [
       { name: 'New Analysis', href: '/analysis/new' },
       { name: 'Results', href: '/analysis/results' },
       { name: 'Reports', href: '/analysis/reports' },
+      { name: 'SQL Workbench', href: '/analysis/sql' },
       { name: 'Insights', href: '/analysis/insights' },
       { name: 'Simulations', href: '/analysis/simulations' },
       { name: 'Predictions', href: '/analysis/predictions' }
@@ -19,6 +19,7 @@ const navigation = [
       { name: 'New Analysis', href: '/analysis/new' },
       { name: 'Results', href: '/analysis/results' },
       { name: 'Reports', href: '/analysis/reports' },
+      { name: 'SQL Workbench', href: '/analysis/sql' },
       { name: 'Simulations', href: '/analysis/simulations' }
     ]
   },
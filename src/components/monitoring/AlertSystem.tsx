@@ -3,6 +3,7 @@ import { Bell, AlertTriangle, TrendingDown, Target, X } from 'lucide-react';
 import { DataField } from '@/types/data';
 import { calculateFieldStats } from '@/utils/analysis/statistics/calculations';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface Alert {
   id: string;
   type: 'critical' | 'warning' | 'info';
@@ -35,7 +36,7 @@ export function AlertSystem({ data, thresholds = {}, isVisible = false, onClose
     setIsInitialized(true);
 
     const newAlerts: Alert[] = [];
-    const numericFields = data.fields.filter(f => f.type === 'number');
+    const numericFields = data.fields.filter(isMeasureField);
 
     for (const field of numericFields) {
       const values = Array.isArray(field.value) ? field.value : [field.value];
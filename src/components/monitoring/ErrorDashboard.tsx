@@ -0,0 +1,291 @@
+import React, { useCallback, useEffect } from 'react';
+import { Bug, Search, CheckCircle, EyeOff, RotateCcw, ChevronDown, ChevronRight, Users } from 'lucide-react';
+import {
+  errorService,
+  ErrorGroup,
+  ErrorGroupDetail,
+  ErrorSort,
+  ErrorStatus
+} from '@/services/errorService';
+
+const STATUS_TABS: { value: ErrorStatus; label: string }[] = [
+  { value: 'unresolved', label: 'Unresolved' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'ignored', label: 'Ignored' }
+];
+
+const SORT_OPTIONS: { value: ErrorSort; label: string }[] = [
+  { value: 'lastSeen', label: 'Last seen' },
+  { value: 'firstSeen', label: 'First seen' },
+  { value: 'count', label: 'Occurrences' },
+  { value: 'users', label: 'Affected users' }
+];
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+export function ErrorDashboard() {
+  const [status, setStatus] = React.useState<ErrorStatus>('unresolved');
+  const [sort, setSort] = React.useState<ErrorSort>('lastSeen');
+  const [search, setSearch] = React.useState('');
+  const [groups, setGroups] = React.useState<ErrorGroup[]>([]);
+  const [counts, setCounts] = React.useState<Record<ErrorStatus, number>>({ unresolved: 0, resolved: 0, ignored: 0 });
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+  const [detail, setDetail] = React.useState<ErrorGroupDetail | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await errorService.list({ status, sort, search: search.trim() || undefined });
+      setGroups(result.groups);
+      setCounts(result.counts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load errors');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, sort, search]);
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    const timer = setTimeout(loadGroups, 250);
+    return () => clearTimeout(timer);
+  }, [loadGroups]);
+
+  const toggleDetail = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setDetail(null);
+    try {
+      setDetail(await errorService.get(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load error details');
+    }
+  };
+
+  const handleStatus = async (group: ErrorGroup, next: ErrorStatus) => {
+    try {
+      await errorService.setStatus(group.id, next);
+      if (expandedId === group.id) setExpandedId(null);
+      await loadGroups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update error');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6 gap-4">
+        <div className="flex items-center gap-2">
+          <Bug className="w-6 h-6 text-teal-600" />
+          <h1 className="text-2xl font-bold">Errors</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search errors..."
+              className="pl-9 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 text-black"
+              aria-label="Search errors"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ErrorSort)}
+            className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 text-black"
+            aria-label="Sort errors"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="flex border-b border-gray-200">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => { setStatus(tab.value); setExpandedId(null); }}
+              className={`px-6 py-3 text-sm font-medium border-b-2 -mb-px ${
+                status === tab.value
+                  ? 'border-teal-600 text-teal-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+              <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">{counts[tab.value]}</span>
+            </button>
+          ))}
+        </div>
+
+        {isLoading && !groups.length ? (
+          <p className="p-6 text-gray-500">Loading errors...</p>
+        ) : !groups.length ? (
+          <p className="p-6 text-gray-500">
+            {search ? 'No errors match your search.' : `No ${status} errors.`}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="px-6 py-3 font-medium">Error</th>
+                <th className="px-4 py-3 font-medium text-right">Events</th>
+                <th className="px-4 py-3 font-medium text-right">Users</th>
+                <th className="px-4 py-3 font-medium">First seen</th>
+                <th className="px-4 py-3 font-medium">Last seen</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <React.Fragment key={group.id}>
+                  <tr className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="px-6 py-3">
+                      <button
+                        onClick={() => toggleDetail(group.id)}
+                        className="flex items-start gap-2 text-left"
+                      >
+                        {expandedId === group.id
+                          ? <ChevronDown className="w-4 h-4 mt-0.5 text-gray-400 shrink-0" />
+                          : <ChevronRight className="w-4 h-4 mt-0.5 text-gray-400 shrink-0" />}
+                        <span>
+                          <span className="font-medium text-black">{group.name}</span>
+                          <span className="text-gray-600">: {group.message}</span>
+                        </span>
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-right text-black">{group.count}</td>
+                    <td className="px-4 py-3 text-right text-black">
+                      <span className="inline-flex items-center gap-1">
+                        <Users className="w-3 h-3 text-gray-400" />
+                        {group.affectedUsers}{group.affectedUsersCapped && '+'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 whitespace-nowrap">{formatTime(group.firstSeen)}</td>
+                    <td className="px-4 py-3 text-gray-500 whitespace-nowrap">{formatTime(group.lastSeen)}</td>
+                    <td className="px-6 py-3">
+                      <div className="flex justify-end gap-2">
+                        {group.status === 'unresolved' ? (
+                          <>
+                            <button
+                              onClick={() => handleStatus(group, 'resolved')}
+                              className="text-gray-400 hover:text-teal-600"
+                              title="Resolve"
+                            >
+                              <CheckCircle className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleStatus(group, 'ignored')}
+                              className="text-gray-400 hover:text-gray-700"
+                              title="Ignore"
+                            >
+                              <EyeOff className="w-4 h-4" />
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => handleStatus(group, 'unresolved')}
+                            className="text-gray-400 hover:text-teal-600"
+                            title="Reopen"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedId === group.id && (
+                    <tr className="border-b border-gray-100 bg-gray-50">
+                      <td colSpan={6} className="px-6 py-4">
+                        {!detail ? (
+                          <p className="text-gray-500">Loading details...</p>
+                        ) : (
+                          <ErrorDetail detail={detail} />
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ErrorDetail({ detail }: { detail: ErrorGroupDetail }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Fingerprint <span className="font-mono">{detail.id}</span>
+        {detail.statusChangedAt && <> · {detail.status} {formatTime(detail.statusChangedAt)}</>}
+      </p>
+      {detail.stack && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Stack trace</h3>
+          <pre className="p-3 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 overflow-x-auto max-h-64">
+            {detail.stack}
+          </pre>
+        </div>
+      )}
+      {detail.componentStack && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Component stack</h3>
+          <pre className="p-3 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 overflow-x-auto max-h-48">
+            {detail.componentStack.trim()}
+          </pre>
+        </div>
+      )}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">
+          Recent occurrences ({detail.occurrences.length} of {detail.count})
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-4 font-medium">Time</th>
+                <th className="py-1 pr-4 font-medium">Request ID</th>
+                <th className="py-1 pr-4 font-medium">User</th>
+                <th className="py-1 pr-4 font-medium">URL</th>
+                <th className="py-1 font-medium">Browser</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detail.occurrences.map(occurrence => (
+                <tr key={occurrence.requestId} className="text-gray-700 align-top">
+                  <td className="py-1 pr-4 whitespace-nowrap">{formatTime(occurrence.timestamp)}</td>
+                  <td className="py-1 pr-4 font-mono">
+                    {occurrence.requestId}
+                    {occurrence.clientRequestId && (
+                      <span className="block text-gray-500" title="Failed API request">{occurrence.clientRequestId}</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-4">{occurrence.userId ?? '—'}</td>
+                  <td className="py-1 pr-4 break-all">{occurrence.url ?? '—'}</td>
+                  <td className="py-1 text-gray-500 break-all">{occurrence.userAgent ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
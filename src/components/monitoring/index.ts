@@ -1,3 +1,4 @@
 export { SystemHealthMonitor } from './SystemHealthMonitor';
 export { AlertSystem } from './AlertSystem';
-export { DataHealthScore } from './DataHealthScore';
\ No newline at end of file
+export { DataHealthScore } from './DataHealthScore';
+export { ErrorDashboard } from './ErrorDashboard';
\ No newline at end of file
@@ -13,6 +13,7 @@ import { FinanceAnalyzer } from '@/utils/analysis/industry/finance';
 import { RetailAnalyzer } from '@/utils/analysis/industry/retail';
 import { ChartData } from 'chart.js';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface SectionProps {
   title: string;
   icon: React.ElementType;
@@ -457,7 +458,7 @@ function MetricCard({ title, value, description }: MetricCardProps) {
 }
 
 function generateExecutiveSummary(fields: DataField[]): string {
-  const numericFields = fields.filter((f: DataField) => f.type === 'number');
+  const numericFields = fields.filter((f: DataField) => isMeasureField(f));
   const textFields = fields.filter((f: DataField) => f.type === 'string');
   const dateFields = fields.filter((f: DataField) => f.type === 'date');
 
@@ -506,7 +507,7 @@ function generateMethodology(): string {
 function generateStatisticalAnalysis(fields: DataField[]): string {
   if (!fields?.length) return '';
   
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return numericFields.map(field => {
     const stats = calculateFieldStats(field);
     return `${field.name}:
@@ -518,7 +519,7 @@ function generateStatisticalAnalysis(fields: DataField[]): string {
 }
 
 function generateDistributionData(fields: DataField[]): ChartData<'bar'> {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return {
     labels: numericFields.map(f => f.name),
     datasets: [{
@@ -535,7 +536,7 @@ function generateDistributionData(fields: DataField[]): ChartData<'bar'> {
 }
 
 function generateTrendData(fields: DataField[]): ChartData<'line'> {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return {
     labels: Array.from({ length: Math.max(...numericFields.map(f => f.value.length)) }, (_, i) => i + 1),
     datasets: numericFields.map((field, i) => ({
@@ -549,7 +550,7 @@ function generateTrendData(fields: DataField[]): ChartData<'line'> {
 }
 
 function generateCorrelationData(fields: DataField[]): ChartData<'scatter'> {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (numericFields.length < 2) return { datasets: [] };
   
   const [field1, field2] = numericFields;
@@ -566,7 +567,7 @@ function generateCorrelationData(fields: DataField[]): ChartData<'scatter'> {
 }
 
 function generateRegressionData(fields: DataField[]): ChartData<'line'> {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (numericFields.length < 2) return { datasets: [] };
   
   const [x, y] = numericFields;
@@ -655,7 +656,7 @@ function generateMarketMetrics(fields: DataField[]): React.ReactNode {
 }
 
 function generateGrowthMetrics(fields: DataField[]): React.ReactNode {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return (
     <div className="space-y-2">
       {numericFields.map((field, index) => {
@@ -713,7 +714,7 @@ async function generateTextAnalysis(fields: DataField[]): Promise<React.ReactNod
 }
 
 function generateTimeSeriesAnalysis(fields: DataField[]): React.ReactNode {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (numericFields.length === 0) {
     return <p className="text-sm text-black-500">No numeric data available for time series analysis</p>;
   }
@@ -759,7 +760,7 @@ function generateConclusions(_data: FileData): string {
 }
 
 function generateCorrelationAnalysis(data: FileData): string {
-  const correlationFields = data.content.fields.filter(f => f.type === 'number');
+  const correlationFields = data.content.fields.filter(isMeasureField);
   
   if (correlationFields.length < 2) {
     return 'Insufficient numeric fields for correlation analysis.';
@@ -789,7 +790,7 @@ function generateCorrelationAnalysis(data: FileData): string {
 }
 
 function generateHypothesisTests(data: FileData): string {
-  const testFields = data.content.fields.filter(f => f.type === 'number');
+  const testFields = data.content.fields.filter(isMeasureField);
   
   const tests: TestResult[] = testFields.map((field: DataField) => {
     const values = field.value as number[];
@@ -819,7 +820,7 @@ function generateHypothesisTests(data: FileData): string {
 }
 
 function generateAnomalies(data: FileData): string {
-  const anomalyFields = data.content.fields.filter(f => f.type === 'number');
+  const anomalyFields = data.content.fields.filter(isMeasureField);
   
   const anomalies: AnomalyResult[] = anomalyFields.map((field: DataField) => {
     const values = field.value as number[];
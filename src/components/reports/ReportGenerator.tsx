@@ -6,6 +6,7 @@ import { DataField } from '@/types/data';
 import { formatNumber } from '@/utils/analysis/formatting';
 import { calculateFieldStats } from '@/utils/analysis/statistics/calculations';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface ReportGeneratorProps {
   data: {
     fields: DataField[];
@@ -125,7 +126,7 @@ export function ReportGenerator({ data, branding }: ReportGeneratorProps) {
       pdf.addPage();
       pdf.setFontSize(20);
       pdf.text('3. Statistical Analysis', 40, 40);
-      const numericFields = data.fields.filter(f => f.type === 'number');
+      const numericFields = data.fields.filter(isMeasureField);
       yPos = 70;
       numericFields.forEach(field => {
         const stats = calculateFieldStats(field);
@@ -367,7 +368,7 @@ function generateRecommendations(fields: DataField[]): string[] {
     ''
   ];
 
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   numericFields.forEach(field => {
     const stats = calculateFieldStats(field);
     if (stats.trend) {
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { X, Moon, Sun, Bell, Lock, Globe, Shield } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { TwoFactorAuth } from './TwoFactorAuth';
 
 interface SettingsPanelProps {
   isVisible: boolean;
@@ -56,6 +57,7 @@ export function SettingsPanel({ isVisible, onClose }: SettingsPanelProps) {
   });
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [pushNotifications, setPushNotifications] = useState(true);
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -157,7 +159,7 @@ export function SettingsPanel({ isVisible, onClose }: SettingsPanelProps) {
                 <SettingsButton 
                   icon={<Shield className="w-5 h-5 text-blue-500" />}
                   text="Two-Factor Authentication"
-                  onClick={() => navigate('/two-factor-auth')}
+                  onClick={() => setShowTwoFactor(true)}
                 />
               </div>
             </section>
@@ -184,6 +186,8 @@ export function SettingsPanel({ isVisible, onClose }: SettingsPanelProps) {
           </button>
         </div>
       </div>
+
+      <TwoFactorAuth isOpen={showTwoFactor} onClose={() => setShowTwoFactor(false)} />
     </div>
   );
 } 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import React from 'react';
-import { User, Bell, Lock, Database, Palette, Save } from 'lucide-react';
+import { User, Bell, Lock, Database, Palette, Save, Shield } from 'lucide-react';
+import { TwoFactorAuth } from './TwoFactorAuth';
 
 type FormData = {
   profile: {
@@ -26,6 +27,7 @@ export function SettingsView() {
   const [activeTab, setActiveTab] = React.useState<Tab>('profile');
   const [isDirty, setIsDirty] = React.useState(false);
   const [isSaving, setIsSaving] = React.useState(false);
+  const [showTwoFactor, setShowTwoFactor] = React.useState(false);
   const [formData, setFormData] = React.useState<FormData>({
     profile: {
       fullName: '',
@@ -250,6 +252,21 @@ export function SettingsView() {
                     />
                   </div>
                 </div>
+                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium">Two-Factor Authentication</p>
+                    <p className="text-sm text-gray-500">
+                      Require a code from an authenticator app when signing in
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setShowTwoFactor(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+                  >
+                    <Shield className="w-4 h-4" />
+                    Manage
+                  </button>
+                </div>
               </div>
             )}
 
@@ -302,6 +319,8 @@ export function SettingsView() {
           </div>
         </div>
       </div>
+
+      <TwoFactorAuth isOpen={showTwoFactor} onClose={() => setShowTwoFactor(false)} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,49 +1,135 @@
-import React, { useState } from 'react';
-import { X, Copy, Check } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, Copy, Check, Download, ShieldCheck, Loader2 } from 'lucide-react';
+import QRCode from 'qrcode';
+import { authService, SecondFactor, TwoFactorSetup, TwoFactorStatus } from '@/services/authService';
 
 interface TwoFactorAuthProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+type View = 'status' | 'setup' | 'verify' | 'recovery' | 'reauth';
+type ReauthAction = 'disable' | 'regenerate';
+
+const inputClass = 'w-full px-3 py-2 bg-black/20 border border-white/10 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-teal-500';
+const primaryButtonClass = 'px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors disabled:opacity-50';
+const secondaryButtonClass = 'px-4 py-2 text-gray-300 hover:text-white transition-colors';
+
 export function TwoFactorAuth({ isOpen, onClose }: TwoFactorAuthProps) {
-  const [step, setStep] = useState(1);
+  const [view, setView] = useState<View>('status');
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrCode, setQrCode] = useState('');
   const [verificationCode, setVerificationCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [reauthAction, setReauthAction] = useState<ReauthAction>('disable');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState(false);
-  const [copied, setCopied] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setView('status');
+    setError('');
+    setIsLoading(true);
+    authService.getTwoFactorStatus()
+      .then(setStatus)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load two-factor status'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
 
-  // Simulated QR code secret
-  const secretKey = 'ABCD-EFGH-IJKL-MNOP';
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsLoading(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  const handleCopySecret = () => {
-    navigator.clipboard.writeText(secretKey);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const resetInputs = () => {
+    setVerificationCode('');
+    setUseRecoveryCode(false);
   };
 
-  const handleVerify = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
+  const handleCopy = (text: string, key: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
 
+  const handleDownloadCodes = () => {
+    const blob = new Blob([`Data Analyzer Pro recovery codes\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleStartSetup = () => run(async () => {
+    const result = await authService.setupTwoFactor();
+    setSetup(result);
+    setQrCode(await QRCode.toDataURL(result.otpauthUrl, { width: 200, margin: 1 }));
+    resetInputs();
+    setView('setup');
+  });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
     if (verificationCode.length !== 6) {
       setError('Verification code must be 6 digits');
       return;
     }
+    run(async () => {
+      const result = await authService.enableTwoFactor(verificationCode);
+      setRecoveryCodes(result.recoveryCodes);
+      setStatus({ enabled: true, verified: true, recoveryCodesRemaining: result.recoveryCodes.length });
+      setSetup(null);
+      setQrCode('');
+      resetInputs();
+      setView('recovery');
+    });
+  };
 
-    try {
-      // Here you would typically verify the code with your backend
-      // For now, we'll simulate success
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      setSuccess(true);
-      setTimeout(() => {
-        onClose();
-        setSuccess(false);
-        setStep(1);
-      }, 2000);
-    } catch (err) {
-      setError('Failed to verify code. Please try again.');
-    }
+  const handleReauthenticate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const factor: SecondFactor = useRecoveryCode
+      ? { recoveryCode: verificationCode.trim() }
+      : { code: verificationCode };
+    run(async () => {
+      if (reauthAction === 'disable') {
+        setStatus(await authService.disableTwoFactor(factor));
+        resetInputs();
+        setView('status');
+      } else {
+        const result = await authService.regenerateRecoveryCodes(factor);
+        setRecoveryCodes(result.recoveryCodes);
+        setStatus({ enabled: true, verified: true, recoveryCodesRemaining: result.recoveryCodes.length });
+        resetInputs();
+        setView('recovery');
+      }
+    });
+  };
+
+  const openReauth = (action: ReauthAction) => {
+    setReauthAction(action);
+    resetInputs();
+    setError('');
+    setView('reauth');
+  };
+
+  const handleClose = () => {
+    setRecoveryCodes([]);
+    setSetup(null);
+    setQrCode('');
+    resetInputs();
+    onClose();
   };
 
   if (!isOpen) return null;
@@ -53,96 +139,226 @@ export function TwoFactorAuth({ isOpen, onClose }: TwoFactorAuthProps) {
       <div className="w-full max-w-md glass-effect rounded-xl shadow-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-white/10 flex justify-between items-center">
           <h2 className="text-xl font-bold text-white">Two-Factor Authentication</h2>
-          <button 
-            onClick={onClose}
+          <button
+            onClick={handleClose}
             className="text-gray-400 hover:text-white transition-colors"
           >
             <X className="w-5 h-5" />
           </button>
         </div>
-        
+
         <div className="p-6 space-y-4">
-          {step === 1 ? (
-            <>
-              <div className="text-gray-300 space-y-4">
-                <p>Enhance your account security by enabling two-factor authentication.</p>
-                <ol className="list-decimal list-inside space-y-2">
-                  <li>Download an authenticator app like Google Authenticator or Authy</li>
-                  <li>Scan the QR code or enter the secret key manually</li>
-                  <li>Enter the verification code to complete setup</li>
-                </ol>
+          {view === 'status' && (
+            isLoading && !status ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 text-teal-400 animate-spin" />
               </div>
+            ) : status?.enabled ? (
+              <>
+                <div className="flex items-start gap-3 text-gray-300">
+                  <ShieldCheck className="w-6 h-6 text-green-400 flex-shrink-0" />
+                  <div>
+                    <p className="text-white font-medium">Two-factor authentication is on</p>
+                    <p className="text-sm">
+                      A code from your authenticator app is required at every sign-in.
+                      {' '}{status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining.
+                    </p>
+                  </div>
+                </div>
+                <div className="flex justify-between">
+                  <button onClick={() => openReauth('regenerate')} className={secondaryButtonClass}>
+                    New recovery codes
+                  </button>
+                  <button
+                    onClick={() => openReauth('disable')}
+                    className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                  >
+                    Disable 2FA
+                  </button>
+                </div>
+              </>
+            ) : status ? (
+              <>
+                <div className="text-gray-300 space-y-4">
+                  <p>Enhance your account security by enabling two-factor authentication.</p>
+                  <ol className="list-decimal list-inside space-y-2">
+                    <li>Download an authenticator app like Google Authenticator or Authy</li>
+                    <li>Scan the QR code or enter the secret key manually</li>
+                    <li>Enter the verification code to complete setup</li>
+                  </ol>
+                </div>
+                <div className="flex justify-end">
+                  <button onClick={handleStartSetup} disabled={isLoading} className={primaryButtonClass}>
+                    Get started
+                  </button>
+                </div>
+              </>
+            ) : null
+          )}
 
-              <div className="mt-6 p-4 bg-black/20 rounded-lg">
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-300 font-mono">{secretKey}</span>
+          {view === 'setup' && setup && (
+            <>
+              <p className="text-gray-300">Scan this QR code with your authenticator app.</p>
+              {qrCode && (
+                <div className="flex justify-center">
+                  <img src={qrCode} alt="Two-factor authentication QR code" className="rounded-lg bg-white p-2" />
+                </div>
+              )}
+              <div className="p-4 bg-black/20 rounded-lg">
+                <p className="text-xs text-gray-400 mb-1">Or enter this key manually</p>
+                <div className="flex justify-between items-center gap-2">
+                  <span className="text-gray-300 font-mono text-sm break-all">
+                    {setup.secret.match(/.{1,4}/g)?.join(' ')}
+                  </span>
                   <button
-                    onClick={handleCopySecret}
+                    onClick={() => handleCopy(setup.secret, 'secret')}
                     className="text-teal-400 hover:text-teal-300 transition-colors"
                   >
-                    {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+                    {copied === 'secret' ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
                   </button>
                 </div>
               </div>
-
-              <div className="flex justify-end">
-                <button
-                  onClick={() => setStep(2)}
-                  className="px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors"
-                >
+              <div className="flex justify-between">
+                <button onClick={() => setView('status')} className={secondaryButtonClass}>
+                  Cancel
+                </button>
+                <button onClick={() => setView('verify')} className={primaryButtonClass}>
                   Next
                 </button>
               </div>
             </>
-          ) : (
-            <form onSubmit={handleVerify} className="space-y-4">
+          )}
+
+          {view === 'verify' && (
+            <form onSubmit={handleEnable} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-200 mb-1">
                   Verification Code
                 </label>
                 <input
                   type="text"
-                  pattern="[0-9]*"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
                   maxLength={6}
                   value={verificationCode}
                   onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, ''))}
-                  className="w-full px-3 py-2 bg-black/20 border border-white/10 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  className={inputClass}
                   placeholder="Enter 6-digit code"
                   required
                 />
               </div>
+              <div className="flex justify-between">
+                <button type="button" onClick={() => setView('setup')} className={secondaryButtonClass}>
+                  Back
+                </button>
+                <button type="submit" disabled={isLoading} className={primaryButtonClass}>
+                  {isLoading ? 'Verifying...' : 'Enable 2FA'}
+                </button>
+              </div>
+            </form>
+          )}
 
-              {error && (
-                <div className="text-red-500 text-sm text-center">
-                  {error}
-                </div>
-              )}
-
-              {success && (
-                <div className="text-green-500 text-sm text-center">
-                  Two-factor authentication enabled successfully!
+          {view === 'recovery' && (
+            <>
+              <div className="text-gray-300 space-y-2">
+                <p className="text-green-400 font-medium">Save your recovery codes</p>
+                <p className="text-sm">
+                  Each code signs you in once if you lose access to your authenticator app.
+                  They will not be shown again.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-2 p-4 bg-black/20 rounded-lg font-mono text-sm text-gray-200">
+                {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+              </div>
+              <div className="flex justify-between">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleCopy(recoveryCodes.join('\n'), 'codes')}
+                    className="flex items-center gap-1 text-teal-400 hover:text-teal-300 transition-colors"
+                  >
+                    {copied === 'codes' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    Copy
+                  </button>
+                  <button
+                    onClick={handleDownloadCodes}
+                    className="flex items-center gap-1 text-teal-400 hover:text-teal-300 transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download
+                  </button>
                 </div>
-              )}
+                <button
+                  onClick={() => {
+                    setRecoveryCodes([]);
+                    setView('status');
+                  }}
+                  className={primaryButtonClass}
+                >
+                  Done
+                </button>
+              </div>
+            </>
+          )}
 
-              <div className="flex justify-between">
+          {view === 'reauth' && (
+            <form onSubmit={handleReauthenticate} className="space-y-4">
+              <p className="text-gray-300 text-sm">
+                {reauthAction === 'disable'
+                  ? 'Enter a code to turn off two-factor authentication.'
+                  : 'Enter a code to replace your recovery codes. Existing codes will stop working.'}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">
+                  {useRecoveryCode ? 'Recovery Code' : 'Verification Code'}
+                </label>
+                <input
+                  type="text"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  maxLength={useRecoveryCode ? 11 : 6}
+                  value={verificationCode}
+                  onChange={(e) => setVerificationCode(
+                    useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '')
+                  )}
+                  className={inputClass}
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : 'Enter 6-digit code'}
+                  required
+                />
                 <button
                   type="button"
-                  onClick={() => setStep(1)}
-                  className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setVerificationCode('');
+                  }}
+                  className="mt-2 text-sm text-teal-400 hover:text-teal-300 transition-colors"
                 >
-                  Back
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </button>
+              </div>
+              <div className="flex justify-between">
+                <button type="button" onClick={() => setView('status')} className={secondaryButtonClass}>
+                  Cancel
                 </button>
                 <button
                   type="submit"
-                  className="px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors"
+                  disabled={isLoading}
+                  className={reauthAction === 'disable'
+                    ? 'px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50'
+                    : primaryButtonClass}
                 >
-                  Enable 2FA
+                  {reauthAction === 'disable' ? 'Disable 2FA' : 'Generate codes'}
                 </button>
               </div>
             </form>
           )}
+
+          {error && (
+            <div className="text-red-500 text-sm text-center">
+              {error}
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
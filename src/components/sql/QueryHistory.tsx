@@ -0,0 +1,50 @@
+import { History, AlertCircle } from 'lucide-react';
+import type { QueryHistoryEntry } from '@/utils/storage/queries';
+
+interface QueryHistoryProps {
+  entries: QueryHistoryEntry[];
+  onSelect: (sql: string) => void;
+  // History is only kept for the session when no workspace is open
+  isShared: boolean;
+}
+
+export function QueryHistory({ entries, onSelect, isShared }: QueryHistoryProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="w-4 h-4 text-indigo-600" />
+        <h3 className="text-sm font-semibold text-gray-900">History</h3>
+        <span className="text-xs text-gray-400">{isShared ? 'Workspace' : 'This session'}</span>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Queries you run will appear here.</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {entries.map((entry, index) => (
+            <li key={entry.id ?? index}>
+              <button
+                onClick={() => onSelect(entry.sql)}
+                className="w-full text-left p-2 rounded hover:bg-gray-50"
+              >
+                <pre className="font-mono text-xs text-gray-800 whitespace-pre-wrap line-clamp-3">{entry.sql}</pre>
+                <div className="flex items-center gap-2 mt-1 text-xs text-gray-400">
+                  {entry.error ? (
+                    <span className="flex items-center gap-1 text-red-500 truncate">
+                      <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                      {entry.error}
+                    </span>
+                  ) : (
+                    <span>{entry.rowCount?.toLocaleString() ?? 0} rows</span>
+                  )}
+                  {entry.durationMs != null && <span>{Math.round(entry.durationMs)} ms</span>}
+                  {entry.createdAt && <span>{new Date(entry.createdAt).toLocaleString()}</span>}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
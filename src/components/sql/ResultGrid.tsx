@@ -0,0 +1,89 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { QueryPage } from '@/utils/analysis/core/workbench';
+
+interface ResultGridProps {
+  result: QueryPage;
+  onPageChange: (page: number) => void;
+  isLoading?: boolean;
+}
+
+function formatCell(value: unknown): string {
+  if (value == null) return 'NULL';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function ResultGrid({ result, onPageChange, isLoading }: ResultGridProps) {
+  const pageCount = Math.max(1, Math.ceil(result.totalRows / (result.pageSize || 1)));
+  const firstRow = result.totalRows === 0 ? 0 : result.page * result.pageSize + 1;
+  const lastRow = result.page * result.pageSize + result.rows.length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100 text-sm text-gray-500">
+        <span>
+          {result.isResultSet
+            ? `Rows ${firstRow.toLocaleString()}–${lastRow.toLocaleString()} of ${result.totalRows.toLocaleString()}`
+            : 'Statement executed'}
+          {` · ${result.executionTime.toFixed(0)} ms`}
+        </span>
+        {result.isResultSet && pageCount > 1 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onPageChange(result.page - 1)}
+              disabled={isLoading || result.page === 0}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>Page {result.page + 1} of {pageCount.toLocaleString()}</span>
+            <button
+              onClick={() => onPageChange(result.page + 1)}
+              disabled={isLoading || result.page + 1 >= pageCount}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {result.columns.length > 0 && (
+        <div className="overflow-auto max-h-[480px]">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                {result.columns.map(column => (
+                  <th key={column.name} className="px-4 py-2 text-left font-medium text-gray-700 whitespace-nowrap">
+                    {column.name}
+                    {column.sqlType && (
+                      <span className="ml-1 text-xs font-normal text-gray-400">{column.sqlType}</span>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {result.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="hover:bg-gray-50">
+                  {result.columns.map(column => (
+                    <td
+                      key={column.name}
+                      className={`px-4 py-1.5 whitespace-nowrap ${
+                        row[column.name] == null ? 'text-gray-300 italic' : 'text-gray-900'
+                      } ${column.type === 'number' ? 'text-right tabular-nums' : ''}`}
+                    >
+                      {formatCell(row[column.name])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Table2, ChevronRight, ChevronDown, RefreshCw } from 'lucide-react';
+import type { WorkbenchTable } from '@/utils/analysis/core/workbench';
+
+interface SchemaBrowserProps {
+  tables: WorkbenchTable[];
+  onInsert: (text: string) => void;
+  onRefresh: () => void;
+  isLoading?: boolean;
+}
+
+export function SchemaBrowser({ tables, onInsert, onRefresh, isLoading }: SchemaBrowserProps) {
+  const [expanded, setExpanded] = React.useState<Set<string>>(new Set());
+
+  const toggle = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 h-full">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">Tables</h3>
+        <button
+          onClick={onRefresh}
+          disabled={isLoading}
+          className="text-gray-400 hover:text-indigo-600 disabled:opacity-50"
+          title="Reload tables"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {tables.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No datasets loaded yet. Upload a file to query it here.
+        </p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {tables.map(table => (
+            <li key={table.name}>
+              <div className="flex items-center gap-1">
+                <button onClick={() => toggle(table.name)} className="text-gray-400">
+                  {expanded.has(table.name)
+                    ? <ChevronDown className="w-4 h-4" />
+                    : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => onInsert(table.name)}
+                  className="flex items-center gap-1 text-gray-900 hover:text-indigo-600 truncate"
+                  title={table.dataset ? `Loaded from ${table.dataset}` : undefined}
+                >
+                  <Table2 className="w-4 h-4 text-indigo-500 flex-shrink-0" />
+                  <span className="truncate">{table.name}</span>
+                </button>
+                <span className="ml-auto text-xs text-gray-400">
+                  {table.rowCount.toLocaleString()}
+                  {table.sampleOnly && ' (sample)'}
+                </span>
+              </div>
+              {expanded.has(table.name) && (
+                <ul className="ml-6 mt-1 space-y-0.5">
+                  {table.columns.map(column => (
+                    <li key={column.name} className="flex items-center justify-between">
+                      <button
+                        onClick={() => onInsert(column.name)}
+                        className="text-gray-700 hover:text-indigo-600 truncate"
+                      >
+                        {column.name}
+                      </button>
+                      <span className="text-xs text-gray-400 ml-2">{column.sqlType ?? column.type}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React from 'react';
+import { getCompletions, type Completion, type CompletionResult } from '@/utils/analysis/core/completion';
+import type { TableInfo } from '@/utils/analysis/core/DuckDBManager';
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onRun: () => void;
+  tables: TableInfo[];
+  disabled?: boolean;
+}
+
+export interface SqlEditorHandle {
+  insert: (text: string) => void;
+}
+
+export const SqlEditor = React.forwardRef<SqlEditorHandle, SqlEditorProps>(
+  function SqlEditor({ value, onChange, onRun, tables, disabled }, ref) {
+    const textarea = React.useRef<HTMLTextAreaElement>(null);
+    const [completion, setCompletion] = React.useState<CompletionResult | null>(null);
+    const [active, setActive] = React.useState(0);
+
+    const replaceRange = (from: number, to: number, text: string) => {
+      onChange(value.slice(0, from) + text + value.slice(to));
+      // Restore the caret once React has written the new value
+      requestAnimationFrame(() => {
+        textarea.current?.focus();
+        textarea.current?.setSelectionRange(from + text.length, from + text.length);
+      });
+    };
+
+    React.useImperativeHandle(ref, () => ({
+      insert: text => {
+        const start = textarea.current?.selectionStart ?? value.length;
+        const end = textarea.current?.selectionEnd ?? value.length;
+        replaceRange(start, end, text);
+      }
+    }));
+
+    const accept = (item: Completion) => {
+      if (!completion) return;
+      replaceRange(completion.from, completion.to, item.insert);
+      setCompletion(null);
+    };
+
+    const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+      onChange(event.target.value);
+      const result = getCompletions(event.target.value, event.target.selectionStart, tables);
+      setCompletion(result.items.length ? result : null);
+      setActive(0);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
+        event.preventDefault();
+        setCompletion(null);
+        onRun();
+        return;
+      }
+      if (!completion) return;
+
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActive(index => (index + step + completion.items.length) % completion.items.length);
+      } else if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        accept(completion.items[active]);
+      } else if (event.key === 'Escape') {
+        setCompletion(null);
+      }
+    };
+
+    return (
+      <div className="relative">
+        <textarea
+          ref={textarea}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(null)}
+          disabled={disabled}
+          spellCheck={false}
+          rows={8}
+          placeholder="SELECT * FROM my_table LIMIT 10"
+          className="w-full p-3 font-mono text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        {completion && (
+          <ul className="absolute left-3 bottom-3 translate-y-full z-10 w-72 max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+            {completion.items.map((item, index) => (
+              <li
+                key={`${item.kind}:${item.label}`}
+                // mousedown keeps the textarea from blurring before the click lands
+                onMouseDown={event => {
+                  event.preventDefault();
+                  accept(item);
+                }}
+                className={`flex items-center justify-between px-3 py-1.5 cursor-pointer ${
+                  index === active ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'
+                }`}
+              >
+                <span className="font-mono truncate">{item.label}</span>
+                <span className="text-xs text-gray-400 ml-2">{item.detail ?? item.kind}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
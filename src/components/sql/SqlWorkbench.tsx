@@ -0,0 +1,194 @@
+import React from 'react';
+import { Play, Save, Loader2, Terminal } from 'lucide-react';
+import { useWorkspace } from '@/components/workspace/WorkspaceProvider';
+import {
+  registerLoadedDatasets,
+  runQuery,
+  saveQueryResult,
+  type QueryPage,
+  type WorkbenchTable
+} from '@/utils/analysis/core/workbench';
+import { listQueryHistory, saveQueryHistory, type QueryHistoryEntry } from '@/utils/storage/queries';
+import { SchemaBrowser } from './SchemaBrowser';
+import { SqlEditor, type SqlEditorHandle } from './SqlEditor';
+import { ResultGrid } from './ResultGrid';
+import { QueryHistory } from './QueryHistory';
+
+const MAX_SESSION_HISTORY = 50;
+
+export function SqlWorkbench() {
+  const { workspace } = useWorkspace();
+  const editor = React.useRef<SqlEditorHandle>(null);
+  const [sql, setSql] = React.useState('');
+  const [tables, setTables] = React.useState<WorkbenchTable[]>([]);
+  const [result, setResult] = React.useState<QueryPage | null>(null);
+  // The statement the current result was produced by, used for paging and saving
+  const [resultSql, setResultSql] = React.useState('');
+  const [history, setHistory] = React.useState<QueryHistoryEntry[]>([]);
+  const [saveName, setSaveName] = React.useState('');
+  const [isLoadingTables, setIsLoadingTables] = React.useState(false);
+  const [isRunning, setIsRunning] = React.useState(false);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadTables = React.useCallback(async () => {
+    setIsLoadingTables(true);
+    try {
+      const loaded = await registerLoadedDatasets();
+      setTables(loaded);
+      setSql(current => current || (loaded[0] ? `SELECT * FROM ${loaded[0].name} LIMIT 100` : ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tables');
+    } finally {
+      setIsLoadingTables(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadTables();
+  }, [loadTables]);
+
+  React.useEffect(() => {
+    if (!workspace) {
+      setHistory([]);
+      return;
+    }
+    listQueryHistory(workspace.id)
+      .then(setHistory)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load query history'));
+  }, [workspace]);
+
+  const recordHistory = async (entry: QueryHistoryEntry) => {
+    if (!workspace) {
+      setHistory(prev => [{ ...entry, createdAt: new Date().toISOString() }, ...prev].slice(0, MAX_SESSION_HISTORY));
+      return;
+    }
+    try {
+      const saved = await saveQueryHistory(workspace.id, entry);
+      setHistory(prev => [saved, ...prev]);
+    } catch (err) {
+      // A failed history write should not hide the query result
+      console.error('Failed to record query:', err);
+    }
+  };
+
+  const handleRun = async () => {
+    const statement = sql.trim();
+    if (!statement || isRunning) return;
+
+    setIsRunning(true);
+    setError(null);
+    setNotice(null);
+    const start = performance.now();
+    try {
+      const page = await runQuery(statement);
+      setResult(page);
+      setResultSql(statement);
+      await recordHistory({ sql: statement, rowCount: page.totalRows, durationMs: page.executionTime });
+      // DDL can add or drop tables
+      if (!page.isResultSet) await loadTables();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Query failed';
+      setError(message);
+      await recordHistory({ sql: statement, error: message, durationMs: performance.now() - start });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handlePageChange = async (page: number) => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await runQuery(resultSql, page, result?.pageSize));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load page');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const data = await saveQueryResult(resultSql, saveName);
+      setNotice(`Saved ${data.source?.rowCount ?? data.content.fields[0]?.value.length ?? 0} rows as "${data.name}"`);
+      setSaveName('');
+      await loadTables();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save dataset');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="lg:col-span-1 space-y-6">
+        <SchemaBrowser
+          tables={tables}
+          onInsert={text => editor.current?.insert(text)}
+          onRefresh={loadTables}
+          isLoading={isLoadingTables}
+        />
+        <QueryHistory entries={history} onSelect={setSql} isShared={!!workspace} />
+      </div>
+
+      <div className="lg:col-span-3 space-y-4">
+        <div className="bg-white rounded-lg shadow-sm p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Terminal className="w-5 h-5 text-indigo-600" />
+            <h2 className="text-lg font-semibold text-gray-900">SQL Workbench</h2>
+            <span className="text-xs text-gray-400">Ctrl+Enter to run</span>
+          </div>
+          <SqlEditor
+            ref={editor}
+            value={sql}
+            onChange={setSql}
+            onRun={handleRun}
+            tables={tables}
+          />
+          <div className="flex items-center justify-between gap-3">
+            <button
+              onClick={handleRun}
+              disabled={isRunning || !sql.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Run
+            </button>
+
+            {result?.isResultSet && (
+              <div className="flex items-center gap-2">
+                <input
+                  value={saveName}
+                  onChange={e => setSaveName(e.target.value)}
+                  placeholder="New dataset name"
+                  className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={isRunning || !saveName.trim()}
+                  className="flex items-center gap-2 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  Save as dataset
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm font-mono whitespace-pre-wrap">{error}</div>
+        )}
+        {notice && (
+          <div className="p-3 bg-green-50 text-green-700 rounded-lg text-sm">{notice}</div>
+        )}
+
+        {result && <ResultGrid result={result} onPageChange={handlePageChange} isLoading={isRunning} />}
+      </div>
+    </div>
+  );
+}
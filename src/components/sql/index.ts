@@ -0,0 +1,5 @@
+export { SqlWorkbench } from './SqlWorkbench';
+export { SchemaBrowser } from './SchemaBrowser';
+export { SqlEditor } from './SqlEditor';
+export { ResultGrid } from './ResultGrid';
+export { QueryHistory } from './QueryHistory';
@@ -1,83 +1,345 @@
-import React, { useEffect } from 'react';
-import { Users, UserPlus, Shield } from 'lucide-react';
-import { useAuth } from '@/hooks/useAuth';
+import React, { useCallback, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Users, UserPlus, Shield, Crown, BarChart2, Eye, Mail, Trash2, Copy, Check, LogOut } from 'lucide-react';
+import {
+  teamService,
+  canManageRole,
+  roleRank,
+  TEAM_ROLES,
+  Team,
+  TeamMember,
+  TeamRole,
+  TeamWorkspace
+} from '@/services/teamService';
+
+const ROLE_ICONS: Record<TeamRole, React.ReactNode> = {
+  owner: <Crown className="w-5 h-5 text-yellow-600" />,
+  admin: <Shield className="w-5 h-5 text-teal-600" />,
+  analyst: <BarChart2 className="w-5 h-5 text-blue-600" />,
+  viewer: <Eye className="w-5 h-5 text-gray-600" />
+};
+
+const EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+
+const roleLabel = (role: TeamRole) => TEAM_ROLES.find(r => r.value === role)?.label ?? role;
 
 export function TeamView() {
-  const { user } = useAuth();
-  const [team, setTeam] = React.useState<any[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [workspaces, setWorkspaces] = React.useState<TeamWorkspace[]>([]);
+  const [workspaceId, setWorkspaceId] = React.useState<string | null>(null);
+  const [team, setTeam] = React.useState<Team | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+
   const [isInviting, setIsInviting] = React.useState(false);
+  const [inviteEmail, setInviteEmail] = React.useState('');
+  const [inviteRole, setInviteRole] = React.useState<TeamRole>('viewer');
+  const [inviteExpiry, setInviteExpiry] = React.useState(7);
+  const [inviteUrl, setInviteUrl] = React.useState<string | null>(null);
+  const [inviteError, setInviteError] = React.useState<string | null>(null);
+  const [isSending, setIsSending] = React.useState(false);
+  const [copied, setCopied] = React.useState(false);
+  // Invite tokens are single use, so never accept one twice
+  const initialized = useRef(false);
 
+  const loadWorkspaces = useCallback(async (preferredId?: string) => {
+    const list = await teamService.getWorkspaces();
+    setWorkspaces(list);
+    setWorkspaceId(current => {
+      const wanted = preferredId ?? current;
+      return list.some(w => w.id === wanted) ? wanted! : list[0]?.id ?? null;
+    });
+    if (!list.length) setIsLoading(false);
+  }, []);
+
+  // Accept an invitation link (/team?invite=...) before loading the team.
+  // Clearing the link changes searchParams and reruns this; the ref stops it there.
   useEffect(() => {
-    // Fetch team data when component mounts
-    const fetchTeamData = async () => {
+    if (initialized.current) return;
+    initialized.current = true;
+    const token = searchParams.get('invite');
+    const run = async () => {
       try {
-        // Replace with your actual API call
-        const response = await fetch('/api/team');
-        const data = await response.json();
-        setTeam(data);
-      } catch (error) {
-        console.error('Failed to fetch team data:', error);
+        setError(null);
+        if (token) {
+          setSearchParams({}, { replace: true });
+          const accepted = await teamService.acceptInvitation(token);
+          setNotice(`You joined the workspace as ${roleLabel(accepted.role).toLowerCase()}.`);
+          await loadWorkspaces(accepted.workspaceId);
+        } else {
+          await loadWorkspaces();
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load team data');
+        setIsLoading(false);
       }
     };
+    run();
+  }, [searchParams, setSearchParams, loadWorkspaces]);
 
-    fetchTeamData();
-  }, []);
+  const loadTeam = useCallback(async () => {
+    if (!workspaceId) return;
+    setIsLoading(true);
+    try {
+      setTeam(await teamService.getTeam(workspaceId));
+      setError(null);
+    } catch (err) {
+      setTeam(null);
+      setError(err instanceof Error ? err.message : 'Failed to load team data');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const myRole = team?.role ?? null;
+  const isAdmin = roleRank(myRole) >= roleRank('admin');
+  const invitableRoles = TEAM_ROLES.filter(r => r.value !== 'owner' && canManageRole(myRole, r.value));
+
+  const runAction = async (action: () => Promise<unknown>, success?: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      if (success) setNotice(success);
+      await loadTeam();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    }
+  };
+
+  const handleRoleChange = (member: TeamMember, role: TeamRole) => {
+    if (!workspaceId || role === member.role) return;
+    runAction(
+      () => teamService.updateRole(workspaceId, member.user_id, role),
+      `${member.email ?? 'Member'} is now ${roleLabel(role).toLowerCase()}.`
+    );
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!workspaceId) return;
+    const message = member.isCurrentUser
+      ? 'Leave this workspace? You will lose access to its datasets.'
+      : `Remove ${member.email ?? 'this member'} from the workspace?`;
+    if (!window.confirm(message)) return;
+
+    if (member.isCurrentUser) {
+      setError(null);
+      try {
+        await teamService.removeMember(workspaceId, member.user_id);
+        setNotice('You left the workspace.');
+        setTeam(null);
+        await loadWorkspaces();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Request failed');
+      }
+      return;
+    }
+    runAction(() => teamService.removeMember(workspaceId, member.user_id), 'Member removed.');
+  };
+
+  const handleRevoke = (invitationId: string) => {
+    if (!workspaceId) return;
+    runAction(() => teamService.revokeInvitation(workspaceId, invitationId), 'Invitation revoked.');
+  };
+
+  const openInvite = () => {
+    setInviteEmail('');
+    setInviteRole(invitableRoles.some(r => r.value === 'viewer') ? 'viewer' : invitableRoles[0]?.value ?? 'viewer');
+    setInviteExpiry(7);
+    setInviteUrl(null);
+    setInviteError(null);
+    setIsInviting(true);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceId) return;
+    setInviteError(null);
+    setIsSending(true);
+    try {
+      const result = await teamService.invite(workspaceId, inviteEmail, inviteRole, inviteExpiry);
+      setInviteUrl(result.inviteUrl);
+      await loadTeam();
+    } catch (err) {
+      setInviteError(err instanceof Error ? err.message : 'Failed to create invitation');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCopyLink = () => {
+    if (!inviteUrl) return;
+    navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
-      <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center justify-between mb-6 gap-4">
         <h1 className="text-2xl font-bold">Team Management</h1>
-        <button
-          onClick={() => setIsInviting(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
-        >
-          <UserPlus className="w-4 h-4" />
-          Invite Member
-        </button>
+        <div className="flex items-center gap-3">
+          {workspaces.length > 1 && (
+            <select
+              value={workspaceId ?? ''}
+              onChange={(e) => setWorkspaceId(e.target.value)}
+              className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 text-black"
+              aria-label="Workspace"
+            >
+              {workspaces.map(w => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+          )}
+          {isAdmin && (
+            <button
+              onClick={openInvite}
+              className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+            >
+              <UserPlus className="w-4 h-4" />
+              Invite Member
+            </button>
+          )}
+        </div>
       </div>
 
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+      {notice && (
+        <div className="mb-4 p-3 bg-teal-50 border border-teal-200 text-teal-700 rounded-lg text-sm">{notice}</div>
+      )}
+
       <div className="bg-white rounded-lg shadow-sm">
         <div className="p-6">
           <div className="flex items-center gap-2 mb-6">
             <Users className="w-5 h-5 text-teal-600" />
             <h2 className="text-lg font-semibold text-black">Team Members</h2>
+            {team && <span className="text-sm text-gray-500">({team.members.length})</span>}
           </div>
 
-          <div className="space-y-4">
-            {/* Owner */}
-            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-              <div className="flex items-center gap-4">
-                <div className="w-10 h-10 bg-teal-100 rounded-full flex items-center justify-center">
-                  <Shield className="w-5 h-5 text-teal-600" />
-                </div>
-                <div>
-                  <p className="font-medium">You (Owner)</p>
-                  <p className="text-sm text-gray-500">{user?.email}</p>
-                </div>
-              </div>
-              <span className="px-3 py-1 bg-teal-100 text-teal-700 rounded-full text-sm">
-                Owner
-              </span>
+          {isLoading ? (
+            <p className="text-gray-500">Loading team...</p>
+          ) : !workspaces.length ? (
+            <p className="text-gray-500">
+              You are not a member of any workspace yet. Create a workspace or ask a workspace admin for an invitation.
+            </p>
+          ) : team ? (
+            <div className="space-y-4">
+              {team.members.map(member => {
+                const canManage = canManageRole(myRole, member.role);
+                const assignableRoles = TEAM_ROLES.filter(r => canManageRole(myRole, r.value));
+                return (
+                  <div
+                    key={member.user_id}
+                    className={`flex items-center justify-between p-4 rounded-lg ${
+                      member.isCurrentUser ? 'bg-gray-50' : 'bg-white border border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center">
+                        {ROLE_ICONS[member.role]}
+                      </div>
+                      <div>
+                        <p className="font-medium">
+                          {member.email ?? member.user_id}
+                          {member.isCurrentUser && <span className="text-gray-500 font-normal"> (you)</span>}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          Joined {new Date(member.joined_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {canManage ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                          className="px-3 py-1 border rounded-lg text-sm text-black focus:ring-2 focus:ring-teal-500"
+                          aria-label={`Role for ${member.email ?? member.user_id}`}
+                        >
+                          {assignableRoles.map(r => (
+                            <option key={r.value} value={r.value}>{r.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm">
+                          {roleLabel(member.role)}
+                        </span>
+                      )}
+                      {member.isCurrentUser ? (
+                        <button
+                          onClick={() => handleRemove(member)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Leave workspace"
+                        >
+                          <LogOut className="w-4 h-4" />
+                        </button>
+                      ) : canManage && (
+                        <button
+                          onClick={() => handleRemove(member)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove member"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
             </div>
+          ) : null}
+        </div>
 
-            {/* Team Members */}
-            {team.map((member, index) => (
-              <div key={index} className="flex items-center justify-between p-4 bg-white border border-gray-200 rounded-lg">
-                <div className="flex items-center gap-4">
-                  <div className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center">
-                    <Users className="w-5 h-5 text-gray-600" />
-                  </div>
+        {team && isAdmin && team.invitations.length > 0 && (
+          <div className="p-6 border-t border-gray-200">
+            <div className="flex items-center gap-2 mb-4">
+              <Mail className="w-5 h-5 text-teal-600" />
+              <h2 className="text-lg font-semibold text-black">Pending Invitations</h2>
+            </div>
+            <div className="space-y-2">
+              {team.invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
                   <div>
-                    <p className="font-medium">{member.name}</p>
-                    <p className="text-sm text-gray-500">{member.email}</p>
+                    <p className="font-medium">{invitation.email}</p>
+                    <p className={`text-sm ${invitation.expired ? 'text-red-600' : 'text-gray-500'}`}>
+                      {roleLabel(invitation.role)} · {invitation.expired ? 'Expired' : 'Expires'}{' '}
+                      {new Date(invitation.expires_at).toLocaleDateString()}
+                    </p>
                   </div>
+                  {canManageRole(myRole, invitation.role) && (
+                    <button
+                      onClick={() => handleRevoke(invitation.id)}
+                      className="text-sm text-gray-500 hover:text-red-600"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="p-6 border-t border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">Roles</h3>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {TEAM_ROLES.map(r => (
+              <div key={r.value} className="flex items-start gap-3">
+                {ROLE_ICONS[r.value]}
+                <div>
+                  <dt className="text-sm font-medium text-black">{r.label}</dt>
+                  <dd className="text-sm text-gray-500">{r.description}</dd>
                 </div>
-                <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm">
-                  {member.role}
-                </span>
               </div>
             ))}
-          </div>
+          </dl>
         </div>
       </div>
 
@@ -87,46 +349,101 @@ export function TeamView() {
           <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
             <div className="p-6">
               <h3 className="text-lg font-semibold mb-4 text-black">Invite Team Member</h3>
-              <form className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Email Address
-                  </label>
-                  <input
-                    type="email"
-                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
-                    placeholder="colleague@example.com"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Role
-                  </label>
-                  <select className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500">
-                    <option value="editor">Editor</option>
-                    <option value="viewer">Viewer</option>
-                  </select>
-                </div>
-                <div className="flex justify-end gap-2 pt-4">
-                  <button
-                    type="button"
-                    onClick={() => setIsInviting(false)}
-                    className="px-4 py-2 text-gray-600 hover:text-gray-900"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="submit"
-                    className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
-                  >
-                    Send Invitation
-                  </button>
+              {inviteUrl ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Share this link with {inviteEmail}. It can be used once, by that address, until it expires
+                    in {inviteExpiry} day{inviteExpiry === 1 ? '' : 's'}.
+                  </p>
+                  <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg">
+                    <span className="flex-1 text-sm font-mono text-gray-700 break-all">{inviteUrl}</span>
+                    <button onClick={handleCopyLink} className="text-teal-600 hover:text-teal-700" title="Copy link">
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => setIsInviting(false)}
+                      className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700"
+                    >
+                      Done
+                    </button>
+                  </div>
                 </div>
-              </form>
+              ) : (
+                <form onSubmit={handleInvite} className="space-y-4">
+                  <div>
+                    <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-1">
+                      Email Address
+                    </label>
+                    <input
+                      id="invite-email"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                      placeholder="colleague@example.com"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-1">
+                      Role
+                    </label>
+                    <select
+                      id="invite-role"
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as TeamRole)}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                    >
+                      {invitableRoles.map(r => (
+                        <option key={r.value} value={r.value}>{r.label}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {TEAM_ROLES.find(r => r.value === inviteRole)?.description}
+                    </p>
+                  </div>
+                  <div>
+                    <label htmlFor="invite-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+                      Link expires after
+                    </label>
+                    <select
+                      id="invite-expiry"
+                      value={inviteExpiry}
+                      onChange={(e) => setInviteExpiry(Number(e.target.value))}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                    >
+                      {EXPIRY_OPTIONS.map(days => (
+                        <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {inviteError && (
+                    <p className="text-sm text-red-600">{inviteError}</p>
+                  )}
+                  <div className="flex justify-end gap-2 pt-4">
+                    <button
+                      type="button"
+                      onClick={() => setIsInviting(false)}
+                      className="px-4 py-2 text-gray-600 hover:text-gray-900"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isSending}
+                      className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:bg-teal-400"
+                    >
+                      {isSending ? 'Creating...' : 'Create Invite Link'}
+                    </button>
+                  </div>
+                </form>
+              )}
             </div>
           </div>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -18,6 +18,7 @@ import {
 import { Line, Bar, Scatter, Pie, Radar } from 'react-chartjs-2';
 import type { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 ChartJS.register(
   CategoryScale,
   LinearScale,
@@ -196,7 +197,7 @@ export function ChartView({
       }
 
       // Filter numeric fields and apply field selection if provided
-      let numericFields = (data || []).filter(f => f.type === 'number');
+      let numericFields = (data || []).filter(isMeasureField);
       numericFields = (numericFields || []).filter(f => (selectedFields || []).includes(f.name) || selectedFields.length === 0);
 
       if (numericFields.length === 0) {
@@ -4,6 +4,7 @@ import { Line, Bar } from 'react-chartjs-2';
 import { DataField } from '@/types/data';
 import { formatNumber } from '@/utils/analysis/formatting';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface LiveDashboardProps {
   data: {
     fields: DataField[];
@@ -44,7 +45,7 @@ export function LiveDashboard({ data, refreshInterval = 5000, onRefresh }: LiveD
     }
   };
 
-  const numericFields = data.fields.filter(f => f.type === 'number');
+  const numericFields = data.fields.filter(isMeasureField);
 
   // Helper function to safely convert values to numbers
   const toNumber = (value: any): number => {
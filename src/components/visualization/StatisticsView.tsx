@@ -1,13 +1,14 @@
 import { Bar } from 'react-chartjs-2';
 import { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface StatisticsViewProps {
   data: DataField[];
   title?: string;
 }
 
 export default function StatisticsView({ data, title }: StatisticsViewProps) {
-  const numericFields = (data || []).filter(field => field.type === 'number');
+  const numericFields = (data || []).filter(isMeasureField);
   
   const statistics = numericFields.map(field => {
     const values = field.value as number[];
@@ -1,13 +1,14 @@
 import { Line } from 'react-chartjs-2';
 import { DataField } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface TrendViewProps {
   data: DataField[];
   title?: string;
 }
 
 export default function TrendView({ data, title }: TrendViewProps) {
-  const numericFields = (data || []).filter(field => field.type === 'number');
+  const numericFields = (data || []).filter(isMeasureField);
   
   const chartData = {
     labels: Array.from({ length: Math.max(...numericFields.map(f => f.value.length)) }, (_, i) => i + 1),
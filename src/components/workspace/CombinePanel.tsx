@@ -0,0 +1,325 @@
+import React from 'react';
+import { Merge, Plus, X, Loader2, Eye, Save } from 'lucide-react';
+import { listDatasets, retrieveDataset, storeDataset } from '@/utils/storage/datasets';
+import {
+  combineDatasets,
+  describeCombination,
+  previewCombination,
+  registerCombineInputs,
+  releaseCombineInputs,
+  alignSchemas,
+  type CombineInput,
+  type CombinePreview,
+  type CombineSpec,
+  type JoinKey,
+  type JoinType
+} from '@/utils/analysis/core/combine';
+import type { FileData } from '@/types/file';
+
+interface CombinePanelProps {
+  workspaceId: string;
+}
+
+export function CombinePanel({ workspaceId }: CombinePanelProps) {
+  const [datasets, setDatasets] = React.useState<Array<{ id: string; name: string }>>([]);
+  const [mode, setMode] = React.useState<'join' | 'union'>('join');
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [inputs, setInputs] = React.useState<CombineInput[]>([]);
+  const [joinType, setJoinType] = React.useState<JoinType>('inner');
+  const [keys, setKeys] = React.useState<JoinKey[]>([]);
+  const [tagSource, setTagSource] = React.useState(true);
+  const [preview, setPreview] = React.useState<CombinePreview | null>(null);
+  const [name, setName] = React.useState('');
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  // Decrypted datasets, so changing the selection does not download them again
+  const loaded = React.useRef(new Map<string, FileData>());
+
+  const loadDatasets = React.useCallback(() => {
+    listDatasets(workspaceId)
+      .then(setDatasets)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load datasets'));
+  }, [workspaceId]);
+
+  React.useEffect(() => {
+    loadDatasets();
+  }, [loadDatasets]);
+
+  React.useEffect(() => {
+    if (selected.length < 2 || selected.some(id => !id)) {
+      setInputs([]);
+      return;
+    }
+
+    let cancelled = false;
+    let registered: CombineInput[] = [];
+    setIsBusy(true);
+    setError(null);
+    (async () => {
+      try {
+        const data: FileData[] = [];
+        for (const id of selected) {
+          if (!loaded.current.has(id)) {
+            loaded.current.set(id, await retrieveDataset(id));
+          }
+          data.push(loaded.current.get(id)!);
+        }
+        registered = await registerCombineInputs(data);
+        if (cancelled) return;
+        setInputs(registered);
+        // Suggest joining on the first column name both sides share
+        const [left, right] = registered;
+        const shared = left.columns.find(column => right.columns.some(other => other.name === column.name));
+        setKeys(shared ? [{ left: shared.name, right: shared.name }] : []);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load datasets');
+      } finally {
+        if (!cancelled) setIsBusy(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      releaseCombineInputs(registered).catch(() => undefined);
+    };
+  }, [selected, mode]);
+
+  React.useEffect(() => {
+    setPreview(null);
+  }, [inputs, joinType, keys, tagSource, mode]);
+
+  const spec: CombineSpec = mode === 'join'
+    ? { kind: 'join', type: joinType, keys }
+    : { kind: 'union', tagSource };
+
+  const handleModeChange = (next: 'join' | 'union') => {
+    setMode(next);
+    setSelected(current => next === 'join' ? [current[0] ?? '', current[1] ?? ''] : current.filter(Boolean));
+  };
+
+  const handlePreview = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setPreview(await previewCombination(inputs, spec));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const data = await combineDatasets(inputs, spec, name);
+      await storeDataset(workspaceId, data.name, describeCombination(inputs, spec), data);
+      setNotice(`Saved "${data.name}" with ${data.content.fields[0]?.value.length ?? 0} rows`);
+      setName('');
+      loadDatasets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save combined dataset');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateKey = (index: number, side: keyof JoinKey, value: string) => {
+    setKeys(prev => prev.map((key, i) => i === index ? { ...key, [side]: value } : key));
+  };
+
+  const [left, right] = inputs;
+
+  return (
+    <div className="p-4 space-y-4 text-sm">
+      <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+        {(['join', 'union'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => handleModeChange(option)}
+            className={`flex-1 px-3 py-2 ${mode === option ? 'bg-teal-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+          >
+            {option === 'join' ? 'Join' : 'Union'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'join' ? (
+        <div className="space-y-2">
+          {[0, 1].map(index => (
+            <select
+              key={index}
+              value={selected[index] ?? ''}
+              onChange={e => setSelected(current => {
+                const next = [current[0] ?? '', current[1] ?? ''];
+                next[index] = e.target.value;
+                return next;
+              })}
+              className="w-full p-2 border border-gray-200 rounded"
+            >
+              <option value="">{index === 0 ? 'Left dataset' : 'Right dataset'}</option>
+              {datasets.map(dataset => (
+                <option key={dataset.id} value={dataset.id}>{dataset.name}</option>
+              ))}
+            </select>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {datasets.map(dataset => (
+            <label key={dataset.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selected.includes(dataset.id)}
+                onChange={e => setSelected(current => e.target.checked
+                  ? [...current, dataset.id]
+                  : current.filter(id => id !== dataset.id))}
+              />
+              <span className="text-gray-700 truncate">{dataset.name}</span>
+            </label>
+          ))}
+          {datasets.length === 0 && <p className="text-gray-500">No datasets in this workspace</p>}
+        </div>
+      )}
+
+      {isBusy && inputs.length === 0 && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-teal-600" />
+        </div>
+      )}
+
+      {mode === 'join' && left && right && (
+        <div className="space-y-2">
+          <select
+            value={joinType}
+            onChange={e => setJoinType(e.target.value as JoinType)}
+            className="w-full p-2 border border-gray-200 rounded"
+          >
+            <option value="inner">Inner join (matching rows only)</option>
+            <option value="left">Left join (keep all left rows)</option>
+            <option value="full">Full join (keep all rows)</option>
+          </select>
+          {keys.map((key, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <select
+                value={key.left}
+                onChange={e => updateKey(index, 'left', e.target.value)}
+                className="flex-1 min-w-0 p-1 border border-gray-200 rounded"
+              >
+                {left.columns.map(column => <option key={column.name}>{column.name}</option>)}
+              </select>
+              <span className="text-gray-400">=</span>
+              <select
+                value={key.right}
+                onChange={e => updateKey(index, 'right', e.target.value)}
+                className="flex-1 min-w-0 p-1 border border-gray-200 rounded"
+              >
+                {right.columns.map(column => <option key={column.name}>{column.name}</option>)}
+              </select>
+              <button
+                onClick={() => setKeys(prev => prev.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove key"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setKeys(prev => [...prev, { left: left.columns[0].name, right: right.columns[0].name }])}
+            className="flex items-center gap-1 text-teal-600 hover:text-teal-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add key
+          </button>
+        </div>
+      )}
+
+      {mode === 'union' && inputs.length >= 2 && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={tagSource} onChange={e => setTagSource(e.target.checked)} />
+            Add a column with the source dataset
+          </label>
+          <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+            {alignSchemas(inputs).map(column => (
+              <li key={column.name} className="flex justify-between">
+                <span className="text-gray-700 truncate">{column.name}</span>
+                <span className={`text-xs ${column.presentIn.length < inputs.length ? 'text-amber-600' : 'text-gray-400'}`}>
+                  {column.presentIn.length < inputs.length
+                    ? `${column.presentIn.length}/${inputs.length} datasets`
+                    : column.sqlType}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <div className="bg-red-50 text-red-600 p-3 rounded-lg">{error}</div>}
+      {notice && <div className="bg-green-50 text-green-700 p-3 rounded-lg">{notice}</div>}
+
+      {inputs.length >= 2 && (
+        <button
+          onClick={handlePreview}
+          disabled={isBusy || (mode === 'join' && keys.length === 0)}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          Preview
+        </button>
+      )}
+
+      {preview && (
+        <div className="bg-gray-50 p-3 rounded-lg space-y-1">
+          <div className="flex items-center gap-2 font-medium text-black">
+            <Merge className="w-4 h-4 text-teal-600" />
+            {describeCombination(inputs, spec)}
+          </div>
+          {inputs.map((input, index) => (
+            <p key={input.table} className="text-gray-600">
+              {input.name}: {preview.inputRows[index].toLocaleString()} rows
+            </p>
+          ))}
+          <p className="text-gray-900">
+            Result: {preview.resultRows.toLocaleString()} rows, {preview.columns.length} columns
+            {mode === 'join' && (
+              <span className={preview.resultRows > preview.inputRows[0] ? 'text-amber-600' : 'text-gray-500'}>
+                {' '}({preview.resultRows - preview.inputRows[0] >= 0 ? '+' : ''}
+                {(preview.resultRows - preview.inputRows[0]).toLocaleString()} vs. left)
+              </span>
+            )}
+          </p>
+          {preview.unmatched && (
+            <p className="text-gray-500">
+              Unmatched: {preview.unmatched.left.toLocaleString()} left, {preview.unmatched.right.toLocaleString()} right
+            </p>
+          )}
+          {mode === 'join' && preview.resultRows > preview.inputRows[0] && joinType !== 'full' && (
+            <p className="text-amber-600">Keys repeat on the right side, so some left rows appear more than once.</p>
+          )}
+
+          <div className="flex items-center gap-2 pt-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="New dataset name"
+              className="flex-1 min-w-0 p-2 border border-gray-200 rounded"
+            />
+            <button
+              onClick={handleSave}
+              disabled={isBusy || !name.trim() || preview.resultRows === 0}
+              className="p-2 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+              title="Save as new dataset"
+            >
+              <Save className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { ArrowRight } from 'lucide-react';
+import { STAT_KEYS, type DatasetDiff, type StatKey } from '@/utils/analysis/versions';
+
+interface DatasetDiffViewProps {
+  diff: DatasetDiff;
+  fromVersion: number;
+  toVersion: number;
+}
+
+const STAT_LABELS: Record<StatKey, string> = {
+  count: 'Values',
+  nullCount: 'Nulls',
+  distinct: 'Distinct',
+  mean: 'Mean',
+  min: 'Min',
+  max: 'Max',
+  standardDeviation: 'Std dev'
+};
+
+const STATUS_STYLES = {
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-700',
+  changed: 'bg-amber-50 text-amber-700',
+  unchanged: 'bg-gray-50 text-gray-500'
+};
+
+function formatDelta(delta: number): string {
+  const rounded = Math.abs(delta) >= 100 ? Math.round(delta) : Number(delta.toFixed(2));
+  return `${rounded > 0 ? '+' : ''}${rounded.toLocaleString()}`;
+}
+
+export function DatasetDiffView({ diff, fromVersion, toVersion }: DatasetDiffViewProps) {
+  const rowDelta = diff.rowsAfter - diff.rowsBefore;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2 font-medium text-black">
+        v{fromVersion} <ArrowRight className="w-4 h-4 text-gray-400" /> v{toVersion}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-gray-50 rounded p-2">
+          <p className="text-xs text-gray-500">Rows</p>
+          <p className="font-medium">{diff.rowsAfter.toLocaleString()}</p>
+          <p className={`text-xs ${rowDelta === 0 ? 'text-gray-400' : rowDelta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatDelta(rowDelta)}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <p className="text-xs text-gray-500">Columns</p>
+          <p className="font-medium">+{diff.added.length} / −{diff.removed.length}</p>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <p className="text-xs text-gray-500">Retyped</p>
+          <p className="font-medium">{diff.retyped.length}</p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {diff.columns.map(column => (
+          <li key={column.name} className="border border-gray-200 rounded p-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900 truncate">{column.name}</span>
+              <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[column.status]}`}>
+                {column.status}
+              </span>
+            </div>
+            {column.typeChanged && (
+              <p className="text-xs text-amber-700 mt-1">
+                Type {column.before?.semantic ?? column.before?.type} → {column.after?.semantic ?? column.after?.type}
+              </p>
+            )}
+            {column.status === 'changed' && (
+              <dl className="grid grid-cols-2 gap-x-3 mt-1 text-xs">
+                {STAT_KEYS
+                  .filter(key => column.deltas[key] != null && Math.abs(column.deltas[key]!) > 1e-9)
+                  .map(key => (
+                    <div key={key} className="flex justify-between">
+                      <dt className="text-gray-500">{STAT_LABELS[key]}</dt>
+                      <dd className="text-gray-900 tabular-nums">{formatDelta(column.deltas[key]!)}</dd>
+                    </div>
+                  ))}
+              </dl>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
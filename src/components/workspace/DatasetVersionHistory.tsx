@@ -0,0 +1,219 @@
+import React from 'react';
+import { Clock, CheckCircle, RotateCcw, Upload, GitCompare, Loader2 } from 'lucide-react';
+import {
+  createDatasetVersion,
+  listDatasets,
+  listDatasetVersions,
+  retrieveDatasetVersion,
+  rollbackDataset,
+  type DatasetVersion
+} from '@/utils/storage/datasets';
+import { diffDatasets, summarizeDataset, type DatasetDiff, type DatasetSummary } from '@/utils/analysis/versions';
+import { processFile } from '@/utils/file';
+import { SUPPORTED_FILE_TYPES } from '@/utils/core/constants';
+import { DatasetDiffView } from './DatasetDiffView';
+
+interface DatasetVersionHistoryProps {
+  workspaceId: string;
+}
+
+export function DatasetVersionHistory({ workspaceId }: DatasetVersionHistoryProps) {
+  const [datasets, setDatasets] = React.useState<Array<{ id: string; name: string }>>([]);
+  const [datasetId, setDatasetId] = React.useState('');
+  const [versions, setVersions] = React.useState<DatasetVersion[]>([]);
+  // Versions picked for comparison, oldest first once two are chosen
+  const [compare, setCompare] = React.useState<string[]>([]);
+  const [diff, setDiff] = React.useState<{ diff: DatasetDiff; from: number; to: number } | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const uploadInput = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    listDatasets(workspaceId)
+      .then(items => {
+        setDatasets(items);
+        setDatasetId(current => current || items[0]?.id || '');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load datasets'));
+  }, [workspaceId]);
+
+  const loadVersions = React.useCallback(async () => {
+    if (!datasetId) return;
+    try {
+      setVersions(await listDatasetVersions(datasetId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    }
+  }, [datasetId]);
+
+  React.useEffect(() => {
+    setCompare([]);
+    setDiff(null);
+    loadVersions();
+  }, [loadVersions]);
+
+  const summaryOf = async (version: DatasetVersion): Promise<DatasetSummary> =>
+    version.summary ?? summarizeDataset((await retrieveDatasetVersion(version.id)).content.fields);
+
+  const toggleCompare = (versionId: string) => {
+    setDiff(null);
+    setCompare(current => {
+      if (current.includes(versionId)) return current.filter(id => id !== versionId);
+      return [...current, versionId].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    const [a, b] = compare
+      .map(id => versions.find(version => version.id === id)!)
+      .sort((x, y) => x.version - y.version);
+    setIsBusy(true);
+    setError(null);
+    try {
+      setDiff({
+        diff: diffDatasets(await summaryOf(a), await summaryOf(b)),
+        from: a.version,
+        to: b.version
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRollback = async (version: DatasetVersion) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await rollbackDataset(datasetId, version);
+      setCompare([]);
+      setDiff(null);
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !datasetId) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const data = await processFile(file);
+      await createDatasetVersion(datasetId, data, `Re-uploaded ${file.name}`);
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload new version');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const latest = versions[0];
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <select
+          value={datasetId}
+          onChange={e => setDatasetId(e.target.value)}
+          className="flex-1 p-2 text-sm border border-gray-200 rounded"
+        >
+          {datasets.length === 0 && <option value="">No datasets</option>}
+          {datasets.map(dataset => (
+            <option key={dataset.id} value={dataset.id}>{dataset.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => uploadInput.current?.click()}
+          disabled={!datasetId || isBusy}
+          className="p-2 text-gray-500 hover:text-teal-600 disabled:opacity-50"
+          title="Upload a new version"
+        >
+          <Upload className="w-4 h-4" />
+        </button>
+        <input
+          ref={uploadInput}
+          type="file"
+          accept={SUPPORTED_FILE_TYPES.map(type => `.${type}`).join(',')}
+          className="hidden"
+          onChange={handleUpload}
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {compare.length === 2 && !diff && (
+        <button
+          onClick={handleCompare}
+          disabled={isBusy}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-teal-600 text-white rounded-lg text-sm hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+          Compare selected versions
+        </button>
+      )}
+
+      {diff && <DatasetDiffView diff={diff.diff} fromVersion={diff.from} toVersion={diff.to} />}
+
+      <div className="space-y-4">
+        {versions.map(version => (
+          <div
+            key={version.id}
+            className={`p-4 rounded-lg border transition-colors ${
+              compare.includes(version.id)
+                ? 'border-teal-500 bg-teal-50'
+                : 'border-gray-200 hover:border-teal-200 hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={compare.includes(version.id)}
+                  onChange={() => toggleCompare(version.id)}
+                  title="Select to compare"
+                />
+                {version.id === latest?.id ? (
+                  <CheckCircle className="w-5 h-5 text-teal-500" />
+                ) : (
+                  <Clock className="w-5 h-5 text-black-400" />
+                )}
+                <span className="font-medium text-black">Version {version.version}</span>
+              </label>
+              {version.id !== latest?.id && (
+                <button
+                  onClick={() => handleRollback(version)}
+                  disabled={isBusy}
+                  className="p-1 text-gray-500 hover:text-teal-600 disabled:opacity-50"
+                  title={`Roll back to version ${version.version}`}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <p className="text-sm text-black-600 mb-2">{version.description}</p>
+
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>
+                {version.summary
+                  ? `${version.summary.rows.toLocaleString()} rows · ${version.summary.columns.length} columns`
+                  : `${(version.fileSize / 1024).toFixed(1)} KB`}
+              </span>
+              <span>{new Date(version.createdAt).toLocaleString()}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import React from 'react';
+import { X, KeyRound, Lock, Unlock, RefreshCw, Loader2, Server } from 'lucide-react';
+import {
+  countLegacyDatasetKeys,
+  getActiveWorkspaceKey,
+  isWorkspaceKeyUnlocked,
+  listDecryptEvents,
+  rotateWorkspaceKey,
+  unlockWorkspaceKey,
+  wrapLegacyDatasetKeys,
+  type DecryptEvent,
+  type WorkspaceKeyRecord,
+  type WorkspaceKeySecret
+} from '@/utils/storage/keys';
+
+interface EncryptionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workspaceId: string;
+}
+
+export function EncryptionDialog({ isOpen, onClose, workspaceId }: EncryptionDialogProps) {
+  const [key, setKey] = React.useState<WorkspaceKeyRecord | null>(null);
+  const [events, setEvents] = React.useState<DecryptEvent[]>([]);
+  const [legacyCount, setLegacyCount] = React.useState(0);
+  const [passphrase, setPassphrase] = React.useState('');
+  const [newPassphrase, setNewPassphrase] = React.useState('');
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const [active, log, legacy] = await Promise.all([
+        getActiveWorkspaceKey(workspaceId),
+        listDecryptEvents(workspaceId),
+        countLegacyDatasetKeys(workspaceId)
+      ]);
+      setKey(active);
+      setEvents(log);
+      setLegacyCount(legacy);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load encryption settings');
+    }
+  }, [workspaceId]);
+
+  React.useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    if (!key) return 'No workspace key yet';
+    await unlockWorkspaceKey(key, passphrase);
+    setPassphrase('');
+    return 'Workspace key unlocked for this session';
+  });
+
+  const handleRotate = (secret: WorkspaceKeySecret) => run(async () => {
+    const { key: rotated, rewrapped } = await rotateWorkspaceKey(workspaceId, secret);
+    setNewPassphrase('');
+    return `Key v${rotated.version} is active; ${rewrapped} dataset keys re-wrapped`;
+  });
+
+  const handleWrapLegacy = () => run(async () => {
+    const wrapped = await wrapLegacyDatasetKeys(workspaceId);
+    return `${wrapped} raw dataset keys wrapped with key v${key?.version}`;
+  });
+
+  if (!isOpen) return null;
+
+  const unlocked = key ? isWorkspaceKeyUnlocked(key.id) : false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-semibold text-black">Encryption</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <div className="bg-gray-50 p-4 rounded-lg flex items-center gap-3">
+            <KeyRound className="w-5 h-5 text-teal-600" />
+            <div className="flex-1">
+              {key ? (
+                <>
+                  <p className="font-medium text-black">
+                    Workspace key v{key.version} · {key.kind === 'passphrase' ? 'Passphrase' : 'Held by the server'}
+                  </p>
+                  <p className="text-gray-500">Created {new Date(key.createdAt).toLocaleString()}</p>
+                </>
+              ) : (
+                <p className="text-gray-500">No workspace key yet. Set one up before storing datasets.</p>
+              )}
+            </div>
+            {key && (unlocked
+              ? <Unlock className="w-5 h-5 text-green-500" />
+              : <Lock className="w-5 h-5 text-amber-500" />)}
+          </div>
+
+          {key?.kind === 'passphrase' && !unlocked && (
+            <div className="flex items-center gap-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                placeholder="Workspace passphrase"
+                className="flex-1 p-2 border border-gray-200 rounded"
+              />
+              <button
+                onClick={handleUnlock}
+                disabled={isBusy || !passphrase}
+                className="px-3 py-2 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+              >
+                Unlock
+              </button>
+            </div>
+          )}
+
+          {key && legacyCount > 0 && (
+            <div className="bg-amber-50 p-3 rounded-lg flex items-center gap-2">
+              <p className="flex-1 text-amber-800">
+                {legacyCount} stored {legacyCount === 1 ? 'dataset keeps its' : 'datasets keep their'} key unwrapped.
+              </p>
+              <button
+                onClick={handleWrapLegacy}
+                disabled={isBusy}
+                className="px-3 py-2 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50"
+              >
+                Wrap now
+              </button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium text-black">{key ? 'Rotate key' : 'Set up a key'}</h4>
+            <p className="text-gray-500">
+              Dataset keys are re-wrapped with a key derived from the new passphrase, or with a key the server
+              holds for workspace members. Stored data is not re-uploaded.
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                type="password"
+                value={newPassphrase}
+                onChange={e => setNewPassphrase(e.target.value)}
+                placeholder="New passphrase (12+ characters)"
+                className="flex-1 p-2 border border-gray-200 rounded"
+              />
+              <button
+                onClick={() => handleRotate({ kind: 'passphrase', passphrase: newPassphrase })}
+                disabled={isBusy || newPassphrase.length < 12}
+                className="flex items-center gap-2 px-3 py-2 border border-gray-200 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                Rotate
+              </button>
+            </div>
+            <button
+              onClick={() => handleRotate({ kind: 'server' })}
+              disabled={isBusy}
+              className="flex items-center gap-2 px-3 py-2 border border-gray-200 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Server className="w-4 h-4" />
+              Use a server-held key
+            </button>
+          </div>
+
+          {error && <div className="bg-red-50 text-red-600 p-3 rounded-lg">{error}</div>}
+          {notice && <div className="bg-green-50 text-green-700 p-3 rounded-lg">{notice}</div>}
+
+          <div>
+            <h4 className="font-medium text-black mb-2">Decrypt log</h4>
+            {events.length === 0 ? (
+              <p className="text-gray-500">No datasets have been opened yet.</p>
+            ) : (
+              <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                {events.map(event => (
+                  <li key={event.id} className="py-1.5 flex justify-between gap-2">
+                    <span className="text-gray-700 truncate">
+                      {event.datasetName ?? event.datasetId}
+                      <span className="text-gray-400"> · {event.userId.slice(0, 8)}</span>
+                    </span>
+                    <span className="text-gray-400 whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { UserPlus, Crown, Edit2, Eye } from 'lucide-react';
+import { UserPlus, Crown, Shield, BarChart2, Eye } from 'lucide-react';
 import { useWorkspace } from './WorkspaceProvider';
 import { supabase } from '@/utils/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
@@ -22,8 +22,8 @@ export function MembersList({ members }: MembersListProps) {
   const [role, setRole] = React.useState<WorkspaceMember['role']>('viewer');
   const [error, setError] = React.useState<string | null>(null);
 
-  const isOwner = members.some(m => 
-    m.user_id === user?.id && m.role === 'owner'
+  const isAdmin = members.some(m =>
+    m.user_id === user?.id && (m.role === 'owner' || m.role === 'admin')
   );
 
   const handleInvite = async (e: React.FormEvent) => {
@@ -76,7 +76,7 @@ export function MembersList({ members }: MembersListProps) {
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-medium">Members</h3>
-        {isOwner && (
+        {isAdmin && (
           <button
             onClick={() => setIsInviting(!isInviting)}
             className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
@@ -112,7 +112,7 @@ export function MembersList({ members }: MembersListProps) {
               onChange={(e) => setRole(e.target.value as WorkspaceMember['role'])}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
             >
-              <option value="editor">Editor</option>
+              <option value="analyst">Analyst</option>
               <option value="viewer">Viewer</option>
             </select>
           </div>
@@ -146,8 +146,10 @@ export function MembersList({ members }: MembersListProps) {
             <div className="flex items-center gap-3">
               {member.role === 'owner' ? (
                 <Crown className="w-5 h-5 text-yellow-500" />
-              ) : member.role === 'editor' ? (
-                <Edit2 className="w-5 h-5 text-blue-500" />
+              ) : member.role === 'admin' ? (
+                <Shield className="w-5 h-5 text-teal-500" />
+              ) : member.role === 'analyst' ? (
+                <BarChart2 className="w-5 h-5 text-blue-500" />
               ) : (
                 <Eye className="w-5 h-5 text-gray-500" />
               )}
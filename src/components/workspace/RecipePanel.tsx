@@ -0,0 +1,340 @@
+import React from 'react';
+import { BookOpen, Download, Play, Upload, Trash2, Loader2, Circle, Save, X } from 'lucide-react';
+import { useWorkspace } from './WorkspaceProvider';
+import { listDatasets, createDatasetVersion } from '@/utils/storage/datasets';
+import { listRecipes, saveRecipe, deleteRecipe } from '@/utils/storage/recipes';
+import { processFile } from '@/utils/file';
+import { SUPPORTED_FILE_TYPES } from '@/utils/core/constants';
+import {
+  applyRecipe,
+  createRecipe,
+  describeStep,
+  getActiveRecipe,
+  parseRecipe,
+  serializeRecipe,
+  startRecording,
+  stopRecording,
+  subscribeToRecipe,
+  transformData,
+  type Recipe,
+  type RecipeStep,
+  type RecipeStepLog
+} from '@/utils/analysis/recipes';
+import type { FileData } from '@/types/file';
+import { RecipeStepForm } from './RecipeStepForm';
+
+interface RecipePanelProps {
+  workspaceId: string;
+}
+
+export function RecipePanel({ workspaceId }: RecipePanelProps) {
+  const { currentVersion, createVersion } = useWorkspace();
+  const [datasets, setDatasets] = React.useState<Array<{ id: string; name: string }>>([]);
+  const [datasetId, setDatasetId] = React.useState<string>('');
+  const [recipes, setRecipes] = React.useState<Recipe[]>([]);
+  const [runLog, setRunLog] = React.useState<{ recipe: string; log: RecipeStepLog[] } | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const importInput = React.useRef<HTMLInputElement>(null);
+  const replayInput = React.useRef<HTMLInputElement>(null);
+  const [replayTarget, setReplayTarget] = React.useState<Recipe | null>(null);
+  const [recording, setRecording] = React.useState<Recipe | null>(getActiveRecipe);
+  const [recordingName, setRecordingName] = React.useState('');
+
+  React.useEffect(() => subscribeToRecipe(setRecording), []);
+
+  React.useEffect(() => {
+    listDatasets(workspaceId)
+      .then(items => {
+        setDatasets(items);
+        setDatasetId(current => current || items[0]?.id || '');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load datasets'));
+  }, [workspaceId]);
+
+  const loadRecipes = React.useCallback(async () => {
+    if (!datasetId) return;
+    try {
+      setRecipes(await listRecipes(datasetId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recipes');
+    }
+  }, [datasetId]);
+
+  React.useEffect(() => {
+    loadRecipes();
+  }, [loadRecipes]);
+
+  const runRecipe = async (recipe: Recipe, data: FileData) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = applyRecipe(data.content.fields, recipe);
+      setRunLog({ recipe: recipe.name, log: result.log });
+      const output = { ...data, content: { fields: result.fields } };
+      const description = `Replayed recipe "${recipe.name}" on ${data.name}`;
+      await createVersion(output, description);
+      if (datasetId) {
+        await createDatasetVersion(datasetId, output, description);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay recipe');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartRecording = () => {
+    if (!currentVersion || !datasetId) return;
+    const name = recordingName.trim() || `Recipe ${new Date().toLocaleDateString()}`;
+    startRecording(createRecipe(name, currentVersion.data.content.fields, [], datasetId));
+    setRecordingName('');
+  };
+
+  // Only steps applied here are recorded, and only for the recording's dataset
+  const handleApplyStep = async (step: RecipeStep) => {
+    if (!currentVersion || !recording?.datasetId) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const data = currentVersion.data;
+      const output = { ...data, content: { fields: transformData(recording.datasetId, data.content.fields, step) } };
+      await createVersion(output, describeStep(step));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply step');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveRecording = async () => {
+    const recipe = stopRecording();
+    if (!recipe?.datasetId || recipe.steps.length === 0) return;
+    try {
+      await saveRecipe(recipe.datasetId, recipe);
+      await loadRecipes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recipe');
+    }
+  };
+
+  const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !replayTarget) return;
+
+    try {
+      const data = await processFile(file);
+      await runRecipe(replayTarget, data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process file');
+    } finally {
+      setReplayTarget(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !datasetId) return;
+
+    try {
+      const recipe = parseRecipe(await file.text());
+      await saveRecipe(datasetId, { ...recipe, id: undefined, datasetId });
+      await loadRecipes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import recipe');
+    }
+  };
+
+  const handleExport = (recipe: Recipe) => {
+    const blob = new Blob([serializeRecipe(recipe)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recipe.name.replace(/\s+/g, '_')}.recipe.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (recipe: Recipe) => {
+    if (!recipe.id) return;
+    try {
+      await deleteRecipe(recipe.id);
+      setRecipes(prev => prev.filter(r => r.id !== recipe.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recipe');
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <select
+          value={datasetId}
+          onChange={e => setDatasetId(e.target.value)}
+          className="flex-1 p-2 text-sm border border-gray-200 rounded"
+        >
+          {datasets.length === 0 && <option value="">No datasets</option>}
+          {datasets.map(dataset => (
+            <option key={dataset.id} value={dataset.id}>{dataset.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => importInput.current?.click()}
+          disabled={!datasetId}
+          className="p-2 text-gray-500 hover:text-teal-600 disabled:opacity-50"
+          title="Import recipe"
+        >
+          <Upload className="w-4 h-4" />
+        </button>
+        <input ref={importInput} type="file" accept=".json" className="hidden" onChange={handleImport} />
+        <input ref={replayInput} type="file" accept={SUPPORTED_FILE_TYPES.map(type => `.${type}`).join(',')} className="hidden" onChange={handleReplayFile} />
+      </div>
+
+      {recording ? (
+        <div className="p-4 rounded-lg border border-red-200 bg-red-50/40 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Circle className="w-3 h-3 text-red-600 fill-red-600 animate-pulse" />
+              <span className="text-sm font-medium text-black">Recording {recording.name}</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={handleSaveRecording}
+                disabled={recording.steps.length === 0}
+                className="p-1 text-gray-500 hover:text-teal-600 disabled:opacity-50"
+                title="Stop and save recipe"
+              >
+                <Save className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => stopRecording()}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title="Discard recording"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {recording.steps.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Apply a step below; each step is added as it runs.
+            </p>
+          ) : (
+            <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+              {recording.steps.map((step, index) => (
+                <li key={index}>{describeStep(step)}</li>
+              ))}
+            </ol>
+          )}
+          {currentVersion && (
+            <RecipeStepForm
+              fields={currentVersion.data.content.fields}
+              disabled={isBusy}
+              onApply={handleApplyStep}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <input
+            value={recordingName}
+            onChange={e => setRecordingName(e.target.value)}
+            placeholder="New recipe name"
+            className="flex-1 p-2 text-sm border border-gray-200 rounded"
+          />
+          <button
+            onClick={handleStartRecording}
+            disabled={!currentVersion || !datasetId}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-red-600 border border-red-200 rounded hover:bg-red-50 disabled:opacity-50"
+            title="Record steps on the current version"
+          >
+            <Circle className="w-3 h-3" />
+            Record
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {recipes.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No recipes recorded for this dataset</p>
+      ) : (
+        <div className="space-y-4">
+          {recipes.map(recipe => (
+            <div key={recipe.id ?? recipe.name} className="p-4 rounded-lg border border-gray-200">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <BookOpen className="w-4 h-4 text-teal-600" />
+                  <span className="font-medium text-black">{recipe.name}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => currentVersion && runRecipe(recipe, currentVersion.data)}
+                    disabled={!currentVersion || isBusy}
+                    className="p-1 text-gray-500 hover:text-teal-600 disabled:opacity-50"
+                    title="Replay on current version"
+                  >
+                    {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setReplayTarget(recipe);
+                      replayInput.current?.click();
+                    }}
+                    disabled={isBusy}
+                    className="p-1 text-gray-500 hover:text-teal-600 disabled:opacity-50"
+                    title="Replay on a re-uploaded file"
+                  >
+                    <Upload className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleExport(recipe)}
+                    className="p-1 text-gray-500 hover:text-teal-600"
+                    title="Export recipe"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(recipe)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Delete recipe"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {recipe.description && (
+                <p className="text-sm text-gray-600 mb-2">{recipe.description}</p>
+              )}
+              <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+                {recipe.steps.map((step, index) => (
+                  <li key={index}>{describeStep(step)}</li>
+                ))}
+              </ol>
+              <p className="text-xs text-gray-500 mt-2">
+                Created {new Date(recipe.createdAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {runLog && (
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-black mb-2">Last run: {runLog.recipe}</h4>
+          <ul className="space-y-1 text-xs text-gray-600">
+            {runLog.log.map((entry, index) => (
+              <li key={index}>
+                {index + 1}. {describeStep(entry.step)} — {entry.rowsBefore} → {entry.rowsAfter} rows
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
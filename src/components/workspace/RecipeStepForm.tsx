@@ -0,0 +1,132 @@
+import React from 'react';
+import { Plus } from 'lucide-react';
+import type { DataField } from '@/types/data';
+import type { AggregateFunction, FilterOperator, RecipeStep } from '@/utils/analysis/recipes';
+
+type StepType = 'filter' | 'rename' | 'cast' | 'impute' | 'bin' | 'pivot' | 'clean';
+
+interface RecipeStepFormProps {
+  fields: DataField[];
+  disabled?: boolean;
+  onApply: (step: RecipeStep) => void;
+}
+
+const FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'isNull', 'notNull'];
+const AGGREGATES: AggregateFunction[] = ['sum', 'mean', 'count', 'min', 'max'];
+
+function parseScalar(text: string): string | number {
+  const trimmed = text.trim();
+  return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : trimmed;
+}
+
+export function RecipeStepForm({ fields, disabled, onApply }: RecipeStepFormProps) {
+  const [type, setType] = React.useState<StepType>('filter');
+  const [column, setColumn] = React.useState(fields[0]?.name ?? '');
+  const [operator, setOperator] = React.useState<FilterOperator>('eq');
+  const [text, setText] = React.useState('');
+  const [castTo, setCastTo] = React.useState<DataField['type']>('number');
+  const [strategy, setStrategy] = React.useState<'previous' | 'mean' | 'median' | 'mode'>('mean');
+  const [pivotColumns, setPivotColumns] = React.useState(fields[1]?.name ?? '');
+  const [pivotValues, setPivotValues] = React.useState(fields[2]?.name ?? '');
+  const [aggregate, setAggregate] = React.useState<AggregateFunction>('sum');
+  const [removeDuplicates, setRemoveDuplicates] = React.useState(true);
+
+  const buildStep = (): RecipeStep | null => {
+    if (type === 'clean') return { type, options: { removeDuplicates } };
+    if (!column) return null;
+    switch (type) {
+      case 'filter':
+        return operator === 'isNull' || operator === 'notNull'
+          ? { type, column, operator }
+          : { type, column, operator, value: parseScalar(text) };
+      case 'rename':
+        return text.trim() ? { type, from: column, to: text.trim() } : null;
+      case 'cast':
+        return { type, column, to: castTo };
+      case 'impute':
+        return { type, column, strategy };
+      case 'bin':
+        return { type, column, bins: Math.max(1, Number(text) || 5) };
+      case 'pivot':
+        return pivotColumns && pivotValues
+          ? { type, index: column, columns: pivotColumns, values: pivotValues, aggregate }
+          : null;
+    }
+  };
+
+  const step = buildStep();
+  const select = 'p-2 text-sm border border-gray-200 rounded';
+  const columnOptions = fields.map(field => (
+    <option key={field.name} value={field.name}>{field.name}</option>
+  ));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={type} onChange={e => setType(e.target.value as StepType)} className={select}>
+        <option value="filter">Filter</option>
+        <option value="rename">Rename</option>
+        <option value="cast">Cast</option>
+        <option value="impute">Fill missing</option>
+        <option value="bin">Bin</option>
+        <option value="pivot">Pivot</option>
+        <option value="clean">Clean</option>
+      </select>
+      {type === 'clean' ? (
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          <input type="checkbox" checked={removeDuplicates} onChange={e => setRemoveDuplicates(e.target.checked)} />
+          Remove duplicates
+        </label>
+      ) : (
+        <select value={column} onChange={e => setColumn(e.target.value)} className={select} title={type === 'pivot' ? 'Rows' : 'Column'}>
+          {columnOptions}
+        </select>
+      )}
+
+      {type === 'filter' && (
+        <select value={operator} onChange={e => setOperator(e.target.value as FilterOperator)} className={select}>
+          {FILTER_OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+        </select>
+      )}
+      {type === 'cast' && (
+        <select value={castTo} onChange={e => setCastTo(e.target.value as DataField['type'])} className={select}>
+          {(['number', 'string', 'date', 'boolean'] as const).map(to => <option key={to} value={to}>{to}</option>)}
+        </select>
+      )}
+      {type === 'impute' && (
+        <select value={strategy} onChange={e => setStrategy(e.target.value as typeof strategy)} className={select}>
+          {(['mean', 'median', 'mode', 'previous'] as const).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      )}
+      {type === 'pivot' && (
+        <>
+          <select value={pivotColumns} onChange={e => setPivotColumns(e.target.value)} className={select} title="Columns">
+            {columnOptions}
+          </select>
+          <select value={pivotValues} onChange={e => setPivotValues(e.target.value)} className={select} title="Values">
+            {columnOptions}
+          </select>
+          <select value={aggregate} onChange={e => setAggregate(e.target.value as AggregateFunction)} className={select}>
+            {AGGREGATES.map(fn => <option key={fn} value={fn}>{fn}</option>)}
+          </select>
+        </>
+      )}
+      {((type === 'filter' && operator !== 'isNull' && operator !== 'notNull') || type === 'rename' || type === 'bin') && (
+        <input
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={type === 'rename' ? 'New name' : type === 'bin' ? 'Bins (5)' : 'Value'}
+          className="flex-1 min-w-[6rem] p-2 text-sm border border-gray-200 rounded"
+        />
+      )}
+
+      <button
+        onClick={() => step && onApply(step)}
+        disabled={disabled || !step}
+        className="p-2 text-gray-500 hover:text-teal-600 disabled:opacity-50"
+        title="Apply step to the current version"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -21,7 +21,7 @@ interface Workspace {
 interface WorkspaceMember {
   workspace_id: string;
   user_id: string;
-  role: 'owner' | 'editor' | 'viewer';
+  role: 'owner' | 'admin' | 'analyst' | 'viewer';
   joined_at: string;
 }
 
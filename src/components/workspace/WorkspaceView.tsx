@@ -1,10 +1,14 @@
 import React from 'react';
-import { Users, MessageSquare, History, Share2 } from 'lucide-react';
+import { Users, MessageSquare, History, Share2, BookOpen, Merge, Database, KeyRound } from 'lucide-react';
 import { useWorkspace } from './WorkspaceProvider';
 import { MembersList } from './MembersList';
 import { CommentThread } from './CommentThread';
 import { VersionHistory } from './VersionHistory';
 import { ShareDialog } from './ShareDialog';
+import { EncryptionDialog } from './EncryptionDialog';
+import { RecipePanel } from './RecipePanel';
+import { CombinePanel } from './CombinePanel';
+import { DatasetVersionHistory } from './DatasetVersionHistory';
 
 export function WorkspaceView() {
   const { 
@@ -16,8 +20,9 @@ export function WorkspaceView() {
     isLoading,
     error
   } = useWorkspace();
-  const [activeTab, setActiveTab] = React.useState<'members' | 'comments' | 'versions'>('members');
+  const [activeTab, setActiveTab] = React.useState<'members' | 'comments' | 'versions' | 'recipes' | 'combine' | 'datasets'>('members');
   const [isShareOpen, setIsShareOpen] = React.useState(false);
+  const [isEncryptionOpen, setIsEncryptionOpen] = React.useState(false);
 
   if (isLoading) {
     return (
@@ -53,13 +58,22 @@ export function WorkspaceView() {
               <h1 className="text-2xl font-bold text-gray-900">{workspace.name}</h1>
               <p className="text-gray-500">{workspace.description}</p>
             </div>
-            <button
-              onClick={() => setIsShareOpen(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors shadow-sm"
-            >
-              <Share2 className="w-4 h-4" />
-              Share
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsEncryptionOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+              >
+                <KeyRound className="w-4 h-4" />
+                Encryption
+              </button>
+              <button
+                onClick={() => setIsShareOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors shadow-sm"
+              >
+                <Share2 className="w-4 h-4" />
+                Share
+              </button>
+            </div>
           </div>
 
           {/* Version Info */}
@@ -128,6 +142,45 @@ export function WorkspaceView() {
                 History
               </div>
             </button>
+            <button
+              onClick={() => setActiveTab('recipes')}
+              className={`flex-1 px-4 py-3 text-sm font-medium ${
+                activeTab === 'recipes'
+                  ? 'text-teal-600 border-b-2 border-teal-600'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <BookOpen className="w-4 h-4" />
+                Recipes
+              </div>
+            </button>
+            <button
+              onClick={() => setActiveTab('combine')}
+              className={`flex-1 px-4 py-3 text-sm font-medium ${
+                activeTab === 'combine'
+                  ? 'text-teal-600 border-b-2 border-teal-600'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <Merge className="w-4 h-4" />
+                Combine
+              </div>
+            </button>
+            <button
+              onClick={() => setActiveTab('datasets')}
+              className={`flex-1 px-4 py-3 text-sm font-medium ${
+                activeTab === 'datasets'
+                  ? 'text-teal-600 border-b-2 border-teal-600'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <Database className="w-4 h-4" />
+                Datasets
+              </div>
+            </button>
           </div>
 
           {/* Tab Content */}
@@ -140,6 +193,9 @@ export function WorkspaceView() {
                 currentVersion={currentVersion}
               />
             )}
+            {activeTab === 'recipes' && <RecipePanel workspaceId={workspace.id} />}
+            {activeTab === 'combine' && <CombinePanel workspaceId={workspace.id} />}
+            {activeTab === 'datasets' && <DatasetVersionHistory workspaceId={workspace.id} />}
           </div>
         </div>
       </div>
@@ -150,6 +206,12 @@ export function WorkspaceView() {
         onClose={() => setIsShareOpen(false)}
         workspaceId={workspace.id}
       />
+
+      <EncryptionDialog
+        isOpen={isEncryptionOpen}
+        onClose={() => setIsEncryptionOpen(false)}
+        workspaceId={workspace.id}
+      />
     </div>
   );
 }
\ No newline at end of file
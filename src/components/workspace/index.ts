@@ -3,4 +3,9 @@ export { WorkspaceView } from './WorkspaceView';
 export { MembersList } from './MembersList';
 export { CommentThread } from './CommentThread';
 export { VersionHistory } from './VersionHistory';
-export { ShareDialog } from './ShareDialog';
\ No newline at end of file
+export { ShareDialog } from './ShareDialog';
+export { EncryptionDialog } from './EncryptionDialog';
+export { RecipePanel } from './RecipePanel';
+export { CombinePanel } from './CombinePanel';
+export { DatasetVersionHistory } from './DatasetVersionHistory';
+export { DatasetDiffView } from './DatasetDiffView';
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
-import { DataField } from '../../types';
+import { DataField } from '@/types/data';
 import { AIAnalyzer } from '../../utils/ai';
+import { getAIProvider } from '@/utils/ai/providers';
 import { useOpenAI } from './useOpenAI';
 import { createError } from '../../utils/core/error';
 
@@ -9,11 +10,14 @@ export function useAIAnalyzer() {
   const [error, setError] = useState<Error | null>(null);
   const [results, setResults] = useState<any>(null);
   const [progress, setProgress] = useState(0);
+  // Why the results hold only the local analysis, when they do
+  const [notice, setNotice] = useState<string | null>(null);
   const { analyze: analyzeWithAI } = useOpenAI();
 
   const analyze = useCallback(async (fields: DataField[]) => {
     setIsAnalyzing(true);
     setError(null);
+    setNotice(null);
     setProgress(0);
 
     try {
@@ -22,13 +26,26 @@ export function useAIAnalyzer() {
       const analysisResults = await analyzer.analyze();
       setProgress(50);
 
-      // Enhance with OpenAI analysis
-      const aiResults = await analyzeWithAI(fields);
+      // Enhance with the language model when one is configured
+      let aiResults = null;
+      let fallbackNotice: string | null = null;
+      if (!getAIProvider()) {
+        fallbackNotice = 'No AI provider is configured, so these results come from the local analysis only.';
+      } else {
+        try {
+          aiResults = await analyzeWithAI(fields);
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : 'AI analysis failed';
+          fallbackNotice = `AI insights are unavailable (${reason}); showing the local analysis only.`;
+        }
+      }
       setProgress(100);
+      setNotice(fallbackNotice);
 
       const combinedResults = {
         ...analysisResults,
-        aiInsights: aiResults
+        aiInsights: aiResults,
+        notice: fallbackNotice
       };
 
       setResults(combinedResults);
@@ -47,6 +64,7 @@ export function useAIAnalyzer() {
     error,
     results,
     progress,
+    notice,
     analyze
   };
 }
\ No newline at end of file
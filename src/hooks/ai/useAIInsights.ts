@@ -1,12 +1,12 @@
 import { useState, useCallback } from 'react';
-import { DataField } from '../../types';
-import { analyzeDataWithAI } from '../../utils/ai';
+import { DataField } from '@/types/data';
+import { analyzeDataWithAI, AIInsights } from '../../utils/ai';
 import { createError } from '../../utils/core/error';
 
 export function useAIInsights() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  const [insights, setInsights] = useState<any>(null);
+  const [insights, setInsights] = useState<AIInsights | null>(null);
 
   const generateInsights = useCallback(async (fields: DataField[]) => {
     setIsAnalyzing(true);
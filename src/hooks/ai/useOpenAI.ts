@@ -1,12 +1,13 @@
 import { useState, useCallback } from 'react';
-import { DataField } from '../../types';
+import { DataField } from '@/types/data';
 import { analyzeDataWithAI } from '@/utils/ai/openai';
+import type { AIInsights } from '@/utils/ai/insights';
 import { createError } from '../../utils/core/error';
 
 export function useOpenAI() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<AIInsights | null>(null);
 
   const analyze = useCallback(async (fields: DataField[]) => {
     setIsAnalyzing(true);
@@ -3,6 +3,7 @@ import { DataField, AnalyzedData } from '@/types/data';
 import { processData } from '../utils/analysis/data/processing';
 import { calculateStatistics } from '../utils/analysis/statistics';
 import { createError } from '../utils/core/error';
+import { isMeasureField } from '../utils/file/columnTypes';
 
 export function useAnalysis() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -30,7 +31,7 @@ export function useAnalysis() {
         fields: processedFields,
         statistics,
         insights: [],
-        hasNumericData: processedFields.some(f => f.type === 'number'),
+        hasNumericData: processedFields.some(isMeasureField),
         hasTextData: processedFields.some(f => f.type === 'string'),
         dataQuality: {
           completeness: calculateCompleteness(processedFields),
@@ -2,7 +2,8 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { FileData } from '@/types/data';
 import { validateFile } from '../utils/file/validation';
 import { processFile } from '../utils/file/processing';
-import { storeAnalysisData } from '../utils/storage/db';
+import { processExcelSheets, type SheetSelection } from '../utils/file/processors/excel';
+import { storeAnalysisData, addLoadedDatasets } from '../utils/storage/db';
 import { createError } from '../utils/core/error';
 
 const MAX_RETRIES = 3;
@@ -84,6 +85,42 @@ export function useFileUpload(onSuccess?: (data: FileData) => void) {
     }
   }, [onSuccess, retryCount, resetState]);
 
+  const handleSheetUpload = useCallback(async (file: File, selections: SheetSelection[]) => {
+    try {
+      setIsUploading(true);
+      setError(null);
+      setProgress(0);
+
+      const validation = validateFile(file);
+      if (!validation.isValid) {
+        throw createError('INVALID_INPUT', validation.error || 'Invalid file');
+      }
+
+      setProgress(20);
+
+      const datasets = await processExcelSheets(file, selections);
+      if (!datasets.every(isValidFileData)) {
+        throw createError('PROCESSING_FAILED', 'Invalid processed file data');
+      }
+
+      setProgress(60);
+
+      // The first sheet becomes the active analysis, the rest stay loaded
+      await storeAnalysisData(datasets[0]);
+      await addLoadedDatasets(datasets.slice(1));
+      setProgress(100);
+      onSuccess?.(datasets[0]);
+
+      return datasets;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to process workbook');
+      setError(error);
+      throw error;
+    } finally {
+      resetState();
+    }
+  }, [onSuccess, resetState]);
+
   // Helper function to validate FileData structure
   function isValidFileData(data: any): data is FileData {
     return (
@@ -108,6 +145,7 @@ export function useFileUpload(onSuccess?: (data: FileData) => void) {
     isUploading,
     error,
     progress,
-    handleFileUpload
+    handleFileUpload,
+    handleSheetUpload
   };
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import App from './App';
 import './index.css';
 import './styles/theme.css';
 import '@/utils/chartjs';
+import { createProviderFromEnv, setAIProvider } from '@/utils/ai/providers';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error('Root element not found');
@@ -15,6 +16,8 @@ if (savedTheme === 'dark' || (!savedTheme && prefersDark)) {
   document.documentElement.classList.add('dark');
 }
 
+setAIProvider(createProviderFromEnv(import.meta.env));
+
 createRoot(rootElement).render(
   <React.StrictMode>
     <App />
@@ -1,18 +1,26 @@
 import { AnalysisSection } from '@/components/analysis/AnalysisSection';
 import { useEffect, useState, useMemo } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { getAnalysisData } from '@/utils/storage/db';
+import { getAnalysisData, updateColumnType } from '@/utils/storage/db';
 import { useAnalysis } from '@/hooks/analysis';
 import type { FileData } from '@/types/file';
 import type { AnalyzedData } from '@/types/analysis';
-import { Brain, ArrowLeft, AlertCircle } from 'lucide-react';
+import { Brain, ArrowLeft, AlertCircle, Columns } from 'lucide-react';
 import { performAnalysis } from '@/utils/analysis/core';
 import { validateDataStructure, getValidFields } from '@/utils/validation/dataValidation';
+import { DataTypeAnalysisView } from '@/components/analysis/DataTypeAnalysis';
+import { LoadedDatasetSwitcher } from '@/components/file/LoadedDatasetSwitcher';
+import { SampleNotice } from '@/components/analysis/SampleNotice';
+import type { SemanticType } from '@/types/data';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 function Analysis() {
   const [data, setData] = useState<FileData | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [showColumnTypes, setShowColumnTypes] = useState(false);
+  const [typeError, setTypeError] = useState<string | null>(null);
+  const [isUpdatingType, setIsUpdatingType] = useState(false);
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const category = searchParams.get('category');
@@ -87,7 +95,29 @@ function Analysis() {
     loadData();
   }, [navigate, analyze]);
 
-  
+  const handleTypeChange = async (fieldName: string, semantic: SemanticType | null) => {
+    try {
+      setIsUpdatingType(true);
+      setTypeError(null);
+      const updated = await updateColumnType(fieldName, semantic);
+      setData(updated);
+      analyze(updated.content.fields);
+    } catch (err) {
+      setTypeError(err instanceof Error ? err.message : 'Failed to change the column type');
+    } finally {
+      setIsUpdatingType(false);
+    }
+  };
+
+  const handleDatasetSelect = (selected: FileData) => {
+    setTypeError(null);
+    setData(selected);
+    analyze(selected.content.fields);
+  };
+
+  // Streamed datasets keep their DuckDB table so SQL-backed views can use every row
+  const sectionData = useMemo(() => data && { ...data.content, source: data.source }, [data]);
+
   const computedResults = useMemo<AnalyzedData | null>(() => {
     if (!data || !category) return null;
     try {
@@ -121,7 +151,7 @@ function Analysis() {
         recommendations: [],
         pros: [],
         cons: [],
-        hasNumericData: validFields.some(f => f.type === 'number'),
+        hasNumericData: validFields.some(isMeasureField),
         hasTextData: validFields.some(f => f.type === 'string'),
         dataQuality: {
           completeness: 1,
@@ -179,7 +209,7 @@ function Analysis() {
         recommendations: [],
         pros: [],
         cons: [],
-        hasNumericData: (data.content?.fields || []).some(f => f?.type === 'number'),
+        hasNumericData: (data.content?.fields || []).some(f => !!f && isMeasureField(f)),
         hasTextData: (data.content?.fields || []).some(f => f?.type === 'string'),
         dataQuality: {
           completeness: 1,
@@ -259,6 +289,15 @@ function Analysis() {
           Back to Upload
         </button>
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowColumnTypes(show => !show)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${
+              showColumnTypes ? 'bg-indigo-50 text-indigo-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            <Columns className="w-4 h-4" />
+            Column types
+          </button>
           <Brain className="w-8 h-8 text-black" />
           <h1 className="text-2xl font-bold text-black">Analysis Results</h1>
           <h1 className="text-2xl font-bold text-black">
@@ -272,9 +311,27 @@ function Analysis() {
 
       {data ? (
         <div className="space-y-6">
+          <LoadedDatasetSwitcher
+            current={data.name}
+            onSelect={handleDatasetSelect}
+            disabled={isUpdatingType}
+          />
+          <SampleNotice source={data.source} />
+          {showColumnTypes && (
+            <div>
+              {typeError && (
+                <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mb-3">{typeError}</div>
+              )}
+              <DataTypeAnalysisView
+                fields={data.content.fields}
+                onTypeChange={handleTypeChange}
+                disabled={isUpdatingType}
+              />
+            </div>
+          )}
           <div className="bg-white p-6 rounded-lg shadow-sm">
             <AnalysisSection
-              data={data.content} 
+              data={sectionData ?? data.content}
               category={category}
               results={computedResults as any}
             />
@@ -28,7 +28,7 @@ export function Dashboard() {
     navigate('/analysis');
   }, [navigate]);
 
-  const { handleFileUpload, isUploading, error } = useFileUpload(onUploadSuccess);
+  const { handleFileUpload, handleSheetUpload, isUploading, error } = useFileUpload(onUploadSuccess);
 
   const handleFeatureClick = (feature: any) => {
     if (feature.component) {
@@ -127,6 +127,7 @@ export function Dashboard() {
               <div className="max-w-xl mx-auto bg-white/5 backdrop-blur-lg rounded-xl border border-white/10 p-6 mb-12 transform hover:scale-105 transition-all duration-300 hover:border-teal-500/50">
                 <FileUpload
                   onFileUpload={handleFileUpload}
+                  onSheetsSelected={handleSheetUpload}
                   isProcessing={isUploading}
                   error={error}
                 />
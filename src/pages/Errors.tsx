@@ -0,0 +1,5 @@
+import { ErrorDashboard } from '@/components/monitoring/ErrorDashboard';
+
+export function Errors() {
+  return <ErrorDashboard />;
+}
\ No newline at end of file
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import './login.css';
 import Header from './Header';
+import { authService } from '@/services/authService';
+import { supabase } from '@/utils/supabase/client';
 import {
   MDBContainer,
   MDBCol,
@@ -29,17 +31,10 @@ const Login: React.FC = () => {
   
   const navigate = useNavigate();
 
-  // Demo credentials
-  const DEMO_CREDENTIALS = [
-    {
-      email: 'demo@gmail.com',
-      password: 'Demo@1234'
-    },
-    {
-      email: 'user@example.com',
-      password: 'password123'
-    }
-  ];
+  // Set once Supabase accepts the password and the account has two-factor enabled
+  const [awaitingCode, setAwaitingCode] = useState<boolean>(false);
+  const [verificationCode, setVerificationCode] = useState<string>('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState<boolean>(false);
 
   const togglePassword = (): void => {
     setShowPassword(!showPassword);
@@ -70,34 +65,62 @@ const Login: React.FC = () => {
     setIsLoading(true);
 
     try {
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Check against all demo credentials
-      const isValidCredential = DEMO_CREDENTIALS.some(
-        cred => cred.email === formData.email && cred.password === formData.password
-      );
-      
-      if (isValidCredential) {
-        // Store login state
-        localStorage.setItem('isAuthenticated', 'true');
-        localStorage.setItem('user', JSON.stringify({ 
-          email: formData.email,
-          rememberMe: formData.rememberMe 
-        }));
-        
+      const { error: signInError } = await supabase.auth.signInWithPassword({
+        email: formData.email,
+        password: formData.password
+      });
+      if (signInError) throw signInError;
+
+      const status = await authService.getTwoFactorStatus();
+      if (status.verified) {
+        authService.markSignedIn(formData.email, formData.rememberMe);
         navigate('/dashboard');
       } else {
-        setError('Invalid credentials. Try demo@gmail.com/Demo@1234 or user@example.com/password123');
+        setAwaitingCode(true);
+        setVerificationCode('');
+        setUseRecoveryCode(false);
       }
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
       console.error('Login error:', err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleVerify = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!awaitingCode) return;
+    setError('');
+
+    const code = verificationCode.trim();
+    if (!useRecoveryCode && !/^\d{6}$/.test(code)) {
+      setError('Verification code must be 6 digits');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await authService.verifyLogin(useRecoveryCode ? { recoveryCode: code } : { code });
+      authService.markSignedIn(formData.email, formData.rememberMe);
+      navigate('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The Supabase session is not usable without the code, so end it
+  const handleCancelVerify = (): void => {
+    authService.signOut().catch(err => console.error('Sign out error:', err));
+    setAwaitingCode(false);
+    setVerificationCode('');
+    setError('');
+    setFormData({ ...formData, password: '' });
+  };
+
   return (
     <>
       <Header />
@@ -109,23 +132,6 @@ const Login: React.FC = () => {
         </div>
         <div className="login-card">
           <MDBCol md="6" className="login-form-col">
-            {/* BETA NOTE HERE */}
-            <div className="beta-note" style={{
-              backgroundColor: '#ffe5e5',
-              color: 'black',
-              border: '1px solidrgb(219, 18, 18)',
-              padding: '12px 16px',
-              borderRadius: '6px',
-              marginBottom: '16px',
-              textAlign: 'center',
-              fontSize: '14px'
-            }}>
-              <strong>Beta Version</strong> – Try with:
-              <br />
-              📧 <strong>demo@gmail.com</strong> / 🔐 <strong>Demo@1234</strong><br />
-              📧 <strong>user@example.com</strong> / 🔐 <strong>password123</strong>
-            </div>
-
             <img
               src="public\images\logo_data.png"
               alt="Data Analyzer Pro"
@@ -138,85 +144,156 @@ const Login: React.FC = () => {
             )}
 
 
-            <form onSubmit={handleLogin} className="login-form" style={{ color: 'black' }}>
-              <label htmlFor="login-email" className="block mb-1 text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <MDBInput
-                wrapperClass="login-input-wrapper"
-                id="login-email"
-                type="email"
-                size="lg"
-                name="email"
-                value={formData.email}
-                onChange={handleInputChange}
-                required
-                autoComplete="email"
-                contrast
-                className="login-input"
-              />
-
-              <div className="login-password-wrapper mt-4">
-                <label htmlFor="login-password" className="block mb-1 text-sm font-medium text-gray-700">
-                  Password
+            {awaitingCode ? (
+              <form onSubmit={handleVerify} className="login-form" style={{ color: 'black' }}>
+                <p className="mb-3 text-sm text-gray-700">
+                  {useRecoveryCode
+                    ? 'Enter one of your recovery codes. Each code can only be used once.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </p>
+                <label htmlFor="login-code" className="block mb-1 text-sm font-medium text-gray-700">
+                  {useRecoveryCode ? 'Recovery code' : 'Verification code'}
                 </label>
                 <MDBInput
-                  id="login-password"
-                  type={showPassword ? 'text' : 'password'}
+                  wrapperClass="login-input-wrapper"
+                  id="login-code"
+                  type="text"
                   size="lg"
-                  name="password"
-                  value={formData.password}
-                  onChange={handleInputChange}
+                  name="code"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  maxLength={useRecoveryCode ? 11 : 6}
+                  value={verificationCode}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVerificationCode(
+                    useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '')
+                  )}
                   required
-                  autoComplete="current-password"
+                  autoFocus
+                  autoComplete="one-time-code"
                   contrast
                   className="login-input"
                 />
-                <MDBIcon
-                  icon={showPassword ? 'eye-slash' : 'eye'}
-                  className="login-password-toggle"
-                  onClick={togglePassword}
-                />
-              </div>
 
-              <div className="login-options">
-                <MDBCheckbox
-                  name="rememberMe"
-                  id="login-remember"
-                  label="Remember me"
-                  checked={formData.rememberMe}
+                <div className="login-options">
+                  <a
+                    href="#!"
+                    className="login-forgot"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setVerificationCode('');
+                    }}
+                  >
+                    {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                  </a>
+                  <a
+                    href="#!"
+                    className="login-forgot"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleCancelVerify();
+                    }}
+                  >
+                    Back to sign in
+                  </a>
+                </div>
+
+                <MDBBtn
+                  type="submit"
+                  className="login-submit"
+                  size="lg"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <span className="spinner-border spinner-border-sm me-2" role="status"></span>
+                      Verifying...
+                    </>
+                  ) : (
+                    'Verify'
+                  )}
+                </MDBBtn>
+              </form>
+            ) : (
+              <form onSubmit={handleLogin} className="login-form" style={{ color: 'black' }}>
+                <label htmlFor="login-email" className="block mb-1 text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <MDBInput
+                  wrapperClass="login-input-wrapper"
+                  id="login-email"
+                  type="email"
+                  size="lg"
+                  name="email"
+                  value={formData.email}
                   onChange={handleInputChange}
-                  className="login-remember"
+                  required
+                  autoComplete="email"
+                  contrast
+                  className="login-input"
                 />
-                <a href="#!" className="login-forgot">Forgot password?</a>
-              </div>
 
-              <MDBBtn 
-                type="submit" 
-                className="login-submit" 
-                size="lg"
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <>
-                    <span className="spinner-border spinner-border-sm me-2" role="status"></span>
-                    Signing in...
-                  </>
-                ) : (
-                  'Log in'
-                )}
-              </MDBBtn>
+                <div className="login-password-wrapper mt-4">
+                  <label htmlFor="login-password" className="block mb-1 text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  <MDBInput
+                    id="login-password"
+                    type={showPassword ? 'text' : 'password'}
+                    size="lg"
+                    name="password"
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    required
+                    autoComplete="current-password"
+                    contrast
+                    className="login-input"
+                  />
+                  <MDBIcon
+                    icon={showPassword ? 'eye-slash' : 'eye'}
+                    className="login-password-toggle"
+                    onClick={togglePassword}
+                  />
+                </div>
 
-              {/* <MDBBtn 
-                type="button" 
-                className="login-submit" 
-                size="lg"
-                onClick={fillDemoCredentials}
-                style={{ backgroundColor: '#6c757d' }}
-              >
-                Use Demo Account
-              </MDBBtn> */}
-            </form>
+                <div className="login-options">
+                  <MDBCheckbox
+                    name="rememberMe"
+                    id="login-remember"
+                    label="Remember me"
+                    checked={formData.rememberMe}
+                    onChange={handleInputChange}
+                    className="login-remember"
+                  />
+                  <a href="#!" className="login-forgot">Forgot password?</a>
+                </div>
+
+                <MDBBtn 
+                  type="submit" 
+                  className="login-submit" 
+                  size="lg"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <span className="spinner-border spinner-border-sm me-2" role="status"></span>
+                      Signing in...
+                    </>
+                  ) : (
+                    'Log in'
+                  )}
+                </MDBBtn>
+
+                {/* <MDBBtn 
+                  type="button" 
+                  className="login-submit" 
+                  size="lg"
+                  onClick={fillDemoCredentials}
+                  style={{ backgroundColor: '#6c757d' }}
+                >
+                  Use Demo Account
+                </MDBBtn> */}
+              </form>
+            )}
 
             <div className="login-divider">
               <span>OR</span>
@@ -0,0 +1,5 @@
+import { TeamView } from '@/components/team/TeamView';
+
+export function Team() {
+  return <TeamView />;
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { SqlWorkbench } from '@/components/sql';
+
+export function SqlWorkbenchPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold mb-6">SQL Workbench</h1>
+      <SqlWorkbench />
+    </div>
+  );
+}
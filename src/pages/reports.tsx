@@ -20,13 +20,15 @@ import {
 } from "lucide-react";
 import { FloatingNav } from "@/components/layout/FloatingNav";
 import DashboardHeader from "@/components/layout/DashboardHeader";
-import { DataField } from '@/types/data';
+import { DataField, DataSource } from '@/types/data';
+import { SampleNotice } from '@/components/analysis/SampleNotice';
 import { calculateFieldStats } from '@/utils/analysis/statistics/calculations';
 import { determineTrend } from '@/utils/analysis/statistics/trends';
 import { formatNumber } from '@/utils/analysis/formatting';
 import { getAnalysisData } from '@/utils/storage/db';
 import { generateReport, downloadReport } from '@/utils/analysis/reports';
 
+import { isMeasureField } from '@/utils/file/columnTypes';
 interface SectionProps {
   title: string;
   icon: React.ElementType;
@@ -37,6 +39,7 @@ interface FileData {
   content: {
     fields: DataField[];
   };
+  source?: DataSource;
 }
 
 export function Reports() {
@@ -285,6 +288,7 @@ export function Reports() {
 
               {/* Report Content */}
               <div className="space-y-6">
+                <SampleNotice source={data.source} />
                 <Section
                   title="Executive Summary"
                   icon={Brain}
@@ -372,7 +376,7 @@ function Section({ title, icon: Icon, content }: SectionProps) {
 
 // Helper functions
 function generateExecutiveSummary(fields: DataField[]): string {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   const textFields = fields.filter(f => f.type === 'string');
   const dateFields = fields.filter(f => f.type === 'date');
 
@@ -399,7 +403,7 @@ This comprehensive analysis includes statistical calculations, trend analysis, c
 function generateStatisticalAnalysis(fields: DataField[]): string {
   if (!fields?.length) return '';
   
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return numericFields.map(field => {
     const stats = calculateFieldStats(field);
     return `${field.name}:
@@ -413,7 +417,7 @@ function generateStatisticalAnalysis(fields: DataField[]): string {
 function generateTrendsAndPatterns(fields: DataField[]): string {
   if (!fields?.length) return '';
   
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return numericFields.map(field => {
     const trend = determineTrend(field.value as number[]);
     const stats = calculateFieldStats(field);
@@ -473,7 +477,7 @@ function generateNetworkAnalysis(fields: DataField[]): string {
 }
 
 function generateConclusions(fields: DataField[]): string {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   const textFields = fields.filter(f => f.type === 'string');
   const dateFields = fields.filter(f => f.type === 'date');
 
@@ -0,0 +1,92 @@
+import { supabase } from '@/utils/supabase/client';
+
+const API_BASE_URL = '/api/auth';
+
+// Exactly one of the two is sent
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Whether this Supabase session has passed the second factor
+  verified: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Two-factor authentication on top of Supabase auth. The Supabase session
+ * is the only session: the backend checks its access token and, once a
+ * second factor is entered, treats that session as verified.
+ */
+class AuthService {
+  private baseUrl = API_BASE_URL;
+
+  async getAccessToken(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.access_token ?? null;
+  }
+
+  markSignedIn(email: string, rememberMe: boolean): void {
+    localStorage.setItem('isAuthenticated', 'true');
+    localStorage.setItem('user', JSON.stringify({ email, rememberMe }));
+  }
+
+  async signOut(): Promise<void> {
+    localStorage.removeItem('isAuthenticated');
+    localStorage.removeItem('user');
+    await supabase.auth.signOut();
+  }
+
+  private async request<T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const token = await this.getAccessToken();
+    if (!token) throw new Error('Please sign in again');
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: options.method || 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(payload?.error?.message || `HTTP error! status: ${response.status}`);
+    }
+    return payload.data as T;
+  }
+
+  verifyLogin(factor: SecondFactor): Promise<TwoFactorStatus> {
+    return this.request('/login/verify', { body: factor });
+  }
+
+  getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return this.request('/2fa', { method: 'GET' });
+  }
+
+  setupTwoFactor(): Promise<TwoFactorSetup> {
+    return this.request('/2fa/setup');
+  }
+
+  enableTwoFactor(code: string): Promise<{ recoveryCodes: string[] }> {
+    return this.request('/2fa/enable', { body: { code } });
+  }
+
+  regenerateRecoveryCodes(factor: SecondFactor): Promise<{ recoveryCodes: string[] }> {
+    return this.request('/2fa/recovery-codes', { body: factor });
+  }
+
+  disableTwoFactor(factor: SecondFactor): Promise<TwoFactorStatus> {
+    return this.request('/2fa/disable', { body: factor });
+  }
+}
+
+export const authService = new AuthService();
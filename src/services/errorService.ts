@@ -0,0 +1,90 @@
+import { authService } from './authService';
+
+const API_BASE_URL = '/api/errors';
+
+export type ErrorStatus = 'unresolved' | 'resolved' | 'ignored';
+
+export type ErrorSort = 'lastSeen' | 'firstSeen' | 'count' | 'users';
+
+export interface ErrorGroup {
+  id: string;
+  name: string;
+  message: string;
+  status: ErrorStatus;
+  count: number;
+  affectedUsers: number;
+  // True once the backend stopped tracking new users for the group
+  affectedUsersCapped: boolean;
+  firstSeen: string;
+  lastSeen: string;
+  statusChangedAt: string | null;
+}
+
+export interface ErrorOccurrence {
+  // request_id of the ingest call
+  requestId: string;
+  // request_id of the failed API call the error came from, if any
+  clientRequestId: string | null;
+  timestamp: string;
+  receivedAt: string;
+  message: string;
+  url: string | null;
+  userAgent: string | null;
+  userId: string | null;
+  release: string | null;
+  context: Record<string, unknown> | null;
+}
+
+export interface ErrorGroupDetail extends ErrorGroup {
+  stack: string | null;
+  componentStack: string | null;
+  occurrences: ErrorOccurrence[];
+}
+
+export interface ErrorGroupList {
+  groups: ErrorGroup[];
+  counts: Record<ErrorStatus, number>;
+}
+
+class ErrorService {
+  private baseUrl = API_BASE_URL;
+
+  private async request<T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const token = await authService.getAccessToken();
+    if (!token) throw new Error('Please sign in to view errors');
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: options.method || 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(payload?.error?.message || `HTTP error! status: ${response.status}`);
+    }
+    return payload.data as T;
+  }
+
+  list(params: { status?: ErrorStatus; search?: string; sort?: ErrorSort } = {}): Promise<ErrorGroupList> {
+    const query = new URLSearchParams();
+    if (params.status) query.set('status', params.status);
+    if (params.search) query.set('search', params.search);
+    if (params.sort) query.set('sort', params.sort);
+    const qs = query.toString();
+    return this.request(qs ? `?${qs}` : '');
+  }
+
+  get(id: string): Promise<ErrorGroupDetail> {
+    return this.request(`/${encodeURIComponent(id)}`);
+  }
+
+  setStatus(id: string, status: ErrorStatus): Promise<ErrorGroup> {
+    return this.request(`/${encodeURIComponent(id)}`, { method: 'PATCH', body: { status } });
+  }
+}
+
+export const errorService = new ErrorService();
@@ -0,0 +1,117 @@
+import { supabase } from '@/utils/supabase/client';
+
+const API_BASE_URL = '/api/team';
+
+export type TeamRole = 'owner' | 'admin' | 'analyst' | 'viewer';
+
+export const TEAM_ROLES: { value: TeamRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Full control, including owners and admins' },
+  { value: 'admin', label: 'Admin', description: 'Manages analysts, viewers and invitations' },
+  { value: 'analyst', label: 'Analyst', description: 'Uploads and edits datasets and analyses' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access to workspace data' }
+];
+
+const ROLE_RANK: Record<TeamRole, number> = { owner: 4, admin: 3, analyst: 2, viewer: 1 };
+
+export function roleRank(role: TeamRole | null | undefined): number {
+  return role ? ROLE_RANK[role] : 0;
+}
+
+// Same rule as the backend and the database policies
+export function canManageRole(actorRole: TeamRole | null | undefined, memberRole: TeamRole): boolean {
+  const required: TeamRole = memberRole === 'owner' || memberRole === 'admin' ? 'owner' : 'admin';
+  return roleRank(actorRole) >= roleRank(required);
+}
+
+export interface TeamWorkspace {
+  id: string;
+  name: string;
+  description: string | null;
+  role: TeamRole;
+}
+
+export interface TeamMember {
+  user_id: string;
+  email: string | null;
+  role: TeamRole;
+  joined_at: string;
+  isCurrentUser: boolean;
+}
+
+export interface TeamInvitation {
+  id: string;
+  email: string;
+  role: TeamRole;
+  created_at: string;
+  expires_at: string;
+  expired: boolean;
+}
+
+export interface Team {
+  workspaceId: string;
+  role: TeamRole;
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+}
+
+class TeamService {
+  private baseUrl = API_BASE_URL;
+
+  private async request<T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Please sign in to manage your team');
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: options.method || 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(payload?.error?.message || `HTTP error! status: ${response.status}`);
+    }
+    return payload.data as T;
+  }
+
+  getWorkspaces(): Promise<TeamWorkspace[]> {
+    return this.request('/workspaces');
+  }
+
+  getTeam(workspaceId: string): Promise<Team> {
+    return this.request(`?workspace_id=${encodeURIComponent(workspaceId)}`);
+  }
+
+  invite(workspaceId: string, email: string, role: TeamRole, expiresInDays: number): Promise<{ invitation: TeamInvitation; inviteUrl: string }> {
+    return this.request('/invitations', {
+      method: 'POST',
+      body: { workspace_id: workspaceId, email, role, expires_in_days: expiresInDays }
+    });
+  }
+
+  acceptInvitation(token: string): Promise<{ workspaceId: string; role: TeamRole }> {
+    return this.request('/invitations/accept', { method: 'POST', body: { token } });
+  }
+
+  revokeInvitation(workspaceId: string, invitationId: string): Promise<{ id: string; revoked: boolean }> {
+    return this.request(`/invitations/${invitationId}?workspace_id=${encodeURIComponent(workspaceId)}`, { method: 'DELETE' });
+  }
+
+  updateRole(workspaceId: string, userId: string, role: TeamRole): Promise<Pick<TeamMember, 'user_id' | 'role' | 'joined_at'>> {
+    return this.request(`/members/${userId}`, { method: 'PATCH', body: { workspace_id: workspaceId, role } });
+  }
+
+  removeMember(workspaceId: string, userId: string): Promise<{ userId: string; removed: boolean }> {
+    return this.request(`/members/${userId}?workspace_id=${encodeURIComponent(workspaceId)}`, { method: 'DELETE' });
+  }
+
+  // Raw key material, base64; the backend only hands it to members
+  getWorkspaceKey(workspaceId: string, keyId: string): Promise<{ key: string }> {
+    return this.request('/keys', { method: 'POST', body: { workspace_id: workspaceId, key_id: keyId } });
+  }
+}
+
+export const teamService = new TeamService();
@@ -0,0 +1,17 @@
+import path from 'path';
+import * as duckdb from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+import { DuckDBManager } from '@/utils/analysis/core/DuckDBManager';
+
+/**
+ * The manager starts a browser worker; tests give it DuckDB's Node build
+ * instead. Call from `beforeAll`.
+ */
+export async function useNodeDuckDB(): Promise<void> {
+  const dist = path.dirname(require.resolve('@duckdb/duckdb-wasm/dist/duckdb-node-blocking.cjs'));
+  const db = await duckdb.createDuckDB({
+    mvp: { mainModule: path.join(dist, 'duckdb-mvp.wasm'), mainWorker: path.join(dist, 'duckdb-node-mvp.worker.cjs') },
+    eh: { mainModule: path.join(dist, 'duckdb-eh.wasm'), mainWorker: path.join(dist, 'duckdb-node-eh.worker.cjs') }
+  }, new duckdb.VoidLogger(), duckdb.NODE_RUNTIME);
+  await db.instantiate(() => {});
+  (DuckDBManager.getInstance() as unknown as { db: unknown }).db = db;
+}
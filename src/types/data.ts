@@ -1,7 +1,42 @@
+export type SemanticType =
+  | 'integer'
+  | 'float'
+  | 'currency'
+  | 'percentage'
+  | 'boolean'
+  | 'categorical'
+  | 'text'
+  | 'email'
+  | 'url'
+  | 'id'
+  | 'latitude'
+  | 'longitude'
+  | 'coordinates'
+  | 'date'
+  | 'datetime'
+  | 'datetime_tz';
+
+export interface TypeCandidate {
+  type: SemanticType;
+  // Share of sampled values that fit the type, adjusted for name hints (0-1)
+  confidence: number;
+}
+
+export interface ColumnType {
+  semantic: SemanticType;
+  confidence: number;
+  // What detection chose; differs from `semantic` once the user overrides it
+  inferred: SemanticType;
+  candidates: TypeCandidate[];
+  overridden?: boolean;
+}
+
 export interface DataField {
   name: string;
+  // Storage type; derived from `columnType.semantic` when that is set
   type: 'number' | 'string' | 'boolean' | 'date';
   value: any[];
+  columnType?: ColumnType;
   nullPercentage?: number;
   stats?: {
     mean?: number;
@@ -139,6 +174,19 @@ export interface FileData {
   content: {
     fields: DataField[];
   };
+  // Set when the full dataset lives in a DuckDB table and
+  // `content.fields` only holds a sample of its rows
+  source?: DataSource;
+}
+
+export interface DataSource {
+  kind: 'duckdb';
+  table: string;
+  rowCount: number;
+  sampleSize: number;
+  // Values per column that did not convert to the column's type and were
+  // loaded as nulls; columns that lost none are left out
+  castFailures?: Record<string, number>;
 }
 
 export interface AnalysisData {
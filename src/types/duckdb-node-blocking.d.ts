@@ -0,0 +1,8 @@
+// The package's exports hide the Node build's typings; only what tests use
+declare module '@duckdb/duckdb-wasm/dist/duckdb-node-blocking' {
+  import type { DuckDBBindings, DuckDBBundles, DuckDBRuntime, Logger } from '@duckdb/duckdb-wasm/blocking';
+
+  export { VoidLogger } from '@duckdb/duckdb-wasm/blocking';
+  export const NODE_RUNTIME: DuckDBRuntime;
+  export function createDuckDB(bundles: DuckDBBundles, logger: Logger, runtime: DuckDBRuntime): Promise<DuckDBBindings>;
+}
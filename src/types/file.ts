@@ -1,4 +1,4 @@
-import type { DataField } from './data';
+import type { DataField, DataSource } from './data';
 
 export interface FileData {
   type: 'csv';
@@ -6,6 +6,9 @@ export interface FileData {
     fields: DataField[];
   };
   name: string;
+  // Set when the full dataset lives in a DuckDB table and
+  // `content.fields` only holds a sample of its rows
+  source?: DataSource;
 }
 
 export interface FileValidationOptions {
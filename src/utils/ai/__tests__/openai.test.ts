@@ -0,0 +1,186 @@
+import { DataField } from '@/types/data';
+import { analyzeDataWithAI } from '../openai';
+import { profileDataset } from '../profile';
+import { createProviderFromEnv, MockLLMProvider, OpenAICompatibleProvider, setAIProvider } from '../providers';
+
+// The backend provider reads the Supabase session for its token
+jest.mock('@/utils/supabase/client', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } }
+}));
+
+describe('analyzeDataWithAI', () => {
+  const fields: DataField[] = [
+    { name: 'month', type: 'number', value: [1, 2, 3, 4, 5, 6, 7, 8] },
+    { name: 'revenue', type: 'number', value: [10, 12, 15, 18, 20, 24, 27, 30] },
+    { name: 'churn', type: 'number', value: [9, 8, 8, 7, 5, 4, 3, null] },
+    { name: 'region', type: 'string', value: ['north', 'south', 'north', 'north', 'east', null, 'south', 'secret-customer-id'] }
+  ];
+
+  afterEach(() => {
+    setAIProvider(null);
+  });
+
+  it('should profile fields with summary statistics instead of rows', () => {
+    const profile = profileDataset(fields, { maxTopValues: 2 });
+
+    expect(profile.rowCount).toBe(8);
+    expect(profile.fields[1].numeric).toEqual(expect.objectContaining({ min: 10, max: 30, trend: 'up' }));
+    expect(profile.fields[2]).toEqual(expect.objectContaining({ count: 7, missing: 1 }));
+    expect(profile.fields[3].topValues).toEqual([{ value: 'north', count: 3 }, { value: 'south', count: 2 }]);
+    expect(profile.correlations[0].fields).toEqual(['month', 'revenue']);
+    expect(JSON.stringify(profile)).not.toContain('secret-customer-id');
+  });
+
+  it('should return deterministic insights from the mock provider', async () => {
+    const first = await analyzeDataWithAI(fields, { provider: new MockLLMProvider() });
+    const second = await analyzeDataWithAI(fields, { provider: new MockLLMProvider() });
+
+    expect(first).toEqual(second);
+    expect(first.provider).toBe('mock');
+    expect(first.predictions.map(p => p.field)).toEqual(['month', 'revenue', 'churn']);
+    expect(first.correlations[0]).toEqual(expect.objectContaining({ direction: 'positive', strength: 'strong' }));
+  });
+
+  it('should use the registered provider', async () => {
+    setAIProvider(new MockLLMProvider());
+    const insights = await analyzeDataWithAI(fields);
+    expect(insights.provider).toBe('mock');
+  });
+
+  it('should fail clearly when no provider is configured', async () => {
+    await expect(analyzeDataWithAI(fields)).rejects.toThrow('No AI provider is configured');
+  });
+
+  it('should retry once when the response does not match the schema', async () => {
+    const provider = new MockLLMProvider(['Here are some thoughts about your data.']);
+    const insights = await analyzeDataWithAI(fields, { provider });
+
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1][provider.calls[1].length - 1].content).toContain('not valid');
+    expect(insights.summary).toBe('8 rows across 4 fields.');
+  });
+
+  it('should reject responses that stay invalid', async () => {
+    const invalid = JSON.stringify({ summary: 'x', patterns: [{ title: 'y' }] });
+    const provider = new MockLLMProvider([invalid, invalid]);
+
+    await expect(analyzeDataWithAI(fields, { provider })).rejects.toThrow('AI returned an invalid response');
+  });
+
+  it('should drop insights about fields that are not in the dataset', async () => {
+    const response = '```json\n' + JSON.stringify({
+      summary: 'Revenue grows.',
+      patterns: [],
+      correlations: [
+        { fields: ['month', 'revenue'], direction: 'positive', strength: 'strong', description: 'Grows monthly' },
+        { fields: ['revenue', 'profit'], direction: 'positive', strength: 'strong', description: 'Made up' }
+      ],
+      predictions: [{ field: 'profit', description: 'Made up', confidence: 0.9 }],
+      recommendations: []
+    }) + '\n```';
+
+    const insights = await analyzeDataWithAI(fields, { provider: new MockLLMProvider([response]) });
+    expect(insights.correlations).toHaveLength(1);
+    expect(insights.predictions).toEqual([]);
+  });
+
+  it('should call an OpenAI-compatible chat completions endpoint', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ choices: [{ message: { content: '{"summary":"ok","patterns":[],"correlations":[],"predictions":[],"recommendations":[]}' } }] })
+    });
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama3.1',
+      fetch: fetchMock as unknown as typeof fetch
+    });
+
+    const insights = await analyzeDataWithAI(fields, { provider });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(body.model).toBe('llama3.1');
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(insights).toEqual(expect.objectContaining({ summary: 'ok', provider: 'openai-compatible', model: 'llama3.1' }));
+  });
+
+  it('should surface HTTP errors from the provider', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: async () => ({ error: { message: 'Authentication required' } })
+    });
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: '/api/llm',
+      model: 'gpt-4o-mini',
+      headers: () => ({ Authorization: 'Bearer session-token' }),
+      fetch: fetchMock as unknown as typeof fetch
+    });
+
+    await expect(analyzeDataWithAI(fields, { provider })).rejects.toThrow('AI request failed (401): Authentication required');
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/llm/chat/completions');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer session-token');
+  });
+
+  it('should time out while reading a stalled response body', async () => {
+    const fetchMock = jest.fn((_url: string, init: RequestInit) => Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => new Promise((_, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    }));
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      timeoutMs: 10,
+      fetch: fetchMock as unknown as typeof fetch
+    });
+
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow('timed out after 10ms');
+  });
+
+  it('should stop listening to the caller signal once the request settles', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ choices: [{ message: { content: 'ok' } }] })
+    });
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      fetch: fetchMock as unknown as typeof fetch
+    });
+    const signal = new AbortController().signal;
+    const add = jest.spyOn(signal, 'addEventListener');
+    const remove = jest.spyOn(signal, 'removeEventListener');
+
+    await provider.complete([{ role: 'user', content: 'hi' }], { signal });
+    await provider.complete([{ role: 'user', content: 'hi' }], { signal });
+
+    expect(add).toHaveBeenCalledTimes(2);
+    expect(remove.mock.calls.map(call => call[1])).toEqual(add.mock.calls.map(call => call[1]));
+  });
+
+  it('should create providers from environment variables', () => {
+    expect(createProviderFromEnv({})).toBeNull();
+    expect(createProviderFromEnv({ VITE_LLM_PROVIDER: 'mock' })?.name).toBe('mock');
+    expect(createProviderFromEnv({ VITE_LLM_PROVIDER: 'backend' })?.name).toBe('backend');
+
+    const local = createProviderFromEnv({ VITE_LLM_BASE_URL: 'http://localhost:8080/v1', VITE_LLM_MODEL: 'qwen2.5' });
+    expect(local?.name).toBe('openai-compatible');
+    expect(local?.model).toBe('qwen2.5');
+  });
+
+  it('should never read API keys from client environment variables', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(createProviderFromEnv({ VITE_OPENAI_API_KEY: 'sk-test' })).toBeNull();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('VITE_OPENAI_API_KEY is ignored'));
+    warn.mockRestore();
+  });
+});
@@ -1,3 +1,7 @@
 export * from './pipeline';
 export * from './openai';
-export * from './analyzer'; 
\ No newline at end of file
+export * from './analyzer';
+export * from './profile';
+export * from './prompt';
+export * from './insights';
+export * from './providers';
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { createError } from '../core/error';
+import { DatasetProfile } from './profile';
+
+const confidence = z.number().min(0).max(1);
+
+export const aiInsightsSchema = z.object({
+  summary: z.string(),
+  patterns: z.array(z.object({
+    title: z.string(),
+    description: z.string(),
+    fields: z.array(z.string()),
+    confidence
+  })),
+  correlations: z.array(z.object({
+    fields: z.tuple([z.string(), z.string()]),
+    direction: z.enum(['positive', 'negative']),
+    strength: z.enum(['weak', 'moderate', 'strong']),
+    description: z.string()
+  })),
+  predictions: z.array(z.object({
+    field: z.string(),
+    description: z.string(),
+    confidence
+  })),
+  recommendations: z.array(z.object({
+    title: z.string(),
+    description: z.string(),
+    priority: z.enum(['high', 'medium', 'low'])
+  }))
+});
+
+export type AIInsightContent = z.infer<typeof aiInsightsSchema>;
+
+export interface AIInsights extends AIInsightContent {
+  provider: string;
+  model?: string;
+}
+
+export class InsightParseError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message);
+    this.name = 'InsightParseError';
+  }
+}
+
+// Models sometimes wrap the object in a code fence or add a sentence around it
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new InsightParseError('Response did not contain a JSON object', ['expected a JSON object']);
+  }
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch (err) {
+    throw new InsightParseError('Response was not valid JSON', [err instanceof Error ? err.message : 'invalid JSON']);
+  }
+}
+
+/**
+ * Validates a model response against `aiInsightsSchema`. Items that name
+ * fields missing from the profile are dropped rather than shown, since
+ * they can only be made up.
+ */
+export function parseInsights(text: string, profile: DatasetProfile): AIInsightContent {
+  const result = aiInsightsSchema.safeParse(extractJson(text));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`);
+    throw new InsightParseError('Response did not match the insight schema', issues);
+  }
+
+  const known = new Set(profile.fields.map(field => field.name));
+  const isKnown = (name: string) => known.has(name);
+  const insights = result.data;
+  return {
+    summary: insights.summary,
+    patterns: insights.patterns.filter(pattern => pattern.fields.every(isKnown)),
+    correlations: insights.correlations.filter(correlation => correlation.fields.every(isKnown)),
+    predictions: insights.predictions.filter(prediction => isKnown(prediction.field)),
+    recommendations: insights.recommendations
+  };
+}
+
+export function toInsightError(err: unknown) {
+  if (err instanceof InsightParseError) {
+    return createError('ML_ERROR', `AI returned an invalid response: ${err.issues.slice(0, 3).join('; ')}`);
+  }
+  return err instanceof Error ? err : createError('ML_ERROR', 'AI analysis failed');
+}
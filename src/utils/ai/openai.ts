@@ -1,19 +1,48 @@
-import { DataField } from '../../types';
+import { DataField } from '@/types/data';
+import { createError } from '../core/error';
+import { AIInsights, InsightParseError, parseInsights, toInsightError } from './insights';
+import { profileDataset, ProfileOptions } from './profile';
+import { buildInsightMessages, buildRepairMessage } from './prompt';
+import { getAIProvider, LLMProvider } from './providers';
+
+export interface AnalyzeOptions {
+  // Defaults to the provider registered with `setAIProvider`
+  provider?: LLMProvider;
+  profile?: ProfileOptions;
+  signal?: AbortSignal;
+}
 
 /**
- * Analyzes data using OpenAI's API
+ * Analyzes data with a language model
  * @param fields Array of data fields to analyze
- * @returns AI-generated insights
+ * @returns AI-generated insights, validated against the insight schema
  */
-export async function analyzeDataWithAI(fields: DataField[]): Promise<any> {
-  // TODO: Implement actual OpenAI API integration
-  console.log('Analyzing data with AI:', fields);
-  
-  // Return mock insights for now
-  return {
-    patterns: [],
-    correlations: [],
-    predictions: [],
-    recommendations: []
-  };
-} 
\ No newline at end of file
+export async function analyzeDataWithAI(fields: DataField[], options: AnalyzeOptions = {}): Promise<AIInsights> {
+  const provider = options.provider ?? getAIProvider();
+  if (!provider) {
+    throw createError('ML_ERROR', 'No AI provider is configured. Set VITE_LLM_PROVIDER=backend or VITE_LLM_BASE_URL.');
+  }
+  if (!fields.length) {
+    throw createError('ML_ERROR', 'No data to analyze');
+  }
+
+  const profile = profileDataset(fields, options.profile);
+  const messages = buildInsightMessages(profile);
+
+  try {
+    const reply = await provider.complete(messages, { signal: options.signal });
+    try {
+      return { ...parseInsights(reply, profile), provider: provider.name, model: provider.model };
+    } catch (err) {
+      if (!(err instanceof InsightParseError)) throw err;
+      // One retry with the validation errors; models usually fix the shape
+      const retry = await provider.complete(
+        [...messages, { role: 'assistant', content: reply }, buildRepairMessage(err.issues)],
+        { signal: options.signal }
+      );
+      return { ...parseInsights(retry, profile), provider: provider.name, model: provider.model };
+    }
+  } catch (err) {
+    throw toInsightError(err);
+  }
+}
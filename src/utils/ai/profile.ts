@@ -0,0 +1,166 @@
+import { DataField } from '@/types/data';
+import { calculateCorrelation } from '../analysis/statistics/correlation';
+
+export interface NumericProfile {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  q1: number;
+  q3: number;
+  outliers: number;
+  trend: 'up' | 'down' | 'stable';
+}
+
+export interface FieldProfile {
+  name: string;
+  type: DataField['type'];
+  semanticType?: string;
+  count: number;
+  missing: number;
+  unique: number;
+  numeric?: NumericProfile;
+  topValues?: { value: string; count: number }[];
+  range?: { min: string; max: string };
+}
+
+export interface DatasetProfile {
+  rowCount: number;
+  fieldCount: number;
+  fields: FieldProfile[];
+  // Pairwise Pearson r between numeric fields, strongest first
+  correlations: { fields: [string, string]; r: number }[];
+  // Fields left out to keep the prompt small
+  omittedFields: string[];
+}
+
+export interface ProfileOptions {
+  maxFields?: number;
+  maxTopValues?: number;
+  maxCorrelations?: number;
+}
+
+const MAX_LABEL_LENGTH = 40;
+const MIN_CORRELATION = 0.3;
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || value === '' || (typeof value === 'number' && Number.isNaN(value));
+
+// Four significant digits is plenty for a model and keeps the prompt short
+const round = (value: number) => (Number.isFinite(value) ? Number(value.toPrecision(4)) : 0);
+
+const label = (value: unknown) => {
+  const text = String(value);
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH)}…` : text;
+};
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+function profileNumeric(values: number[]): NumericProfile {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const r = calculateCorrelation(values.map((_, i) => i), values);
+
+  return {
+    min: round(sorted[0]),
+    max: round(sorted[n - 1]),
+    mean: round(mean),
+    median: round(quantile(sorted, 0.5)),
+    standardDeviation: round(Math.sqrt(variance)),
+    q1: round(q1),
+    q3: round(q3),
+    outliers: values.filter(v => v < q1 - 1.5 * iqr || v > q3 + 1.5 * iqr).length,
+    trend: r > MIN_CORRELATION ? 'up' : r < -MIN_CORRELATION ? 'down' : 'stable'
+  };
+}
+
+function profileField(field: DataField, maxTopValues: number): FieldProfile {
+  const present = field.value.filter(v => !isMissing(v));
+  const profile: FieldProfile = {
+    name: field.name,
+    type: field.type,
+    semanticType: field.columnType?.semantic,
+    count: present.length,
+    missing: field.value.length - present.length,
+    unique: new Set(present.map(String)).size
+  };
+
+  if (field.type === 'number') {
+    const numbers = present.map(Number).filter(Number.isFinite);
+    if (numbers.length) profile.numeric = profileNumeric(numbers);
+    return profile;
+  }
+
+  if (field.type === 'date') {
+    const times = present.map(v => new Date(v).getTime()).filter(Number.isFinite);
+    if (times.length) {
+      profile.range = {
+        min: new Date(times.reduce((a, b) => Math.min(a, b))).toISOString(),
+        max: new Date(times.reduce((a, b) => Math.max(a, b))).toISOString()
+      };
+    }
+    return profile;
+  }
+
+  const counts = new Map<string, number>();
+  present.forEach(v => counts.set(String(v), (counts.get(String(v)) || 0) + 1));
+  profile.topValues = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxTopValues)
+    .map(([value, count]) => ({ value: label(value), count }));
+  return profile;
+}
+
+/**
+ * Schema and summary statistics for a dataset. This is what gets sent to
+ * a language model, so it never contains raw rows; categorical fields
+ * only contribute their most frequent values.
+ */
+export function profileDataset(fields: DataField[], options: ProfileOptions = {}): DatasetProfile {
+  const { maxFields = 50, maxTopValues = 5, maxCorrelations = 10 } = options;
+  const included = fields.slice(0, maxFields);
+  const profiles = included.map(field => profileField(field, maxTopValues));
+
+  const numeric = included.filter(field => field.type === 'number');
+  const correlations: DatasetProfile['correlations'] = [];
+  for (let i = 0; i < numeric.length; i++) {
+    for (let j = i + 1; j < numeric.length; j++) {
+      // Only rows where both values are present
+      const x: number[] = [];
+      const y: number[] = [];
+      const length = Math.min(numeric[i].value.length, numeric[j].value.length);
+      for (let k = 0; k < length; k++) {
+        const a = Number(numeric[i].value[k]);
+        const b = Number(numeric[j].value[k]);
+        if (!isMissing(numeric[i].value[k]) && !isMissing(numeric[j].value[k]) && Number.isFinite(a) && Number.isFinite(b)) {
+          x.push(a);
+          y.push(b);
+        }
+      }
+      const r = calculateCorrelation(x, y);
+      if (Math.abs(r) >= MIN_CORRELATION) {
+        correlations.push({ fields: [numeric[i].name, numeric[j].name], r: round(r) });
+      }
+    }
+  }
+  correlations.sort((a, b) => Math.abs(b.r) - Math.abs(a.r));
+
+  return {
+    rowCount: Math.max(0, ...fields.map(field => field.value.length)),
+    fieldCount: fields.length,
+    fields: profiles,
+    correlations: correlations.slice(0, maxCorrelations),
+    omittedFields: fields.slice(maxFields).map(field => field.name)
+  };
+}
@@ -0,0 +1,62 @@
+import { DatasetProfile } from './profile';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Marks the profile in the user message so it can be found again (see MockLLMProvider)
+export const PROFILE_START = '<dataset_profile>';
+export const PROFILE_END = '</dataset_profile>';
+
+const RESPONSE_SHAPE = `{
+  "summary": string,
+  "patterns": [{ "title": string, "description": string, "fields": string[], "confidence": number }],
+  "correlations": [{ "fields": [string, string], "direction": "positive" | "negative", "strength": "weak" | "moderate" | "strong", "description": string }],
+  "predictions": [{ "field": string, "description": string, "confidence": number }],
+  "recommendations": [{ "title": string, "description": string, "priority": "high" | "medium" | "low" }]
+}`;
+
+const SYSTEM_PROMPT = `You are a data analyst. You are given a profile of a dataset: its fields, their types and summary statistics, and the strongest correlations between numeric fields. You do not see the rows themselves.
+
+Reply with a single JSON object and nothing else, in this shape:
+${RESPONSE_SHAPE}
+
+Rules:
+- Only refer to fields by the exact names in the profile.
+- Base every statement on the statistics given; do not invent values.
+- Confidence is a number between 0 and 1.
+- Use empty arrays when there is nothing worth saying.`;
+
+export function buildInsightMessages(profile: DatasetProfile): ChatMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Find the most useful patterns, correlations, predictions and recommendations for this dataset.\n\n${PROFILE_START}\n${JSON.stringify(profile)}\n${PROFILE_END}`
+    }
+  ];
+}
+
+// Follow-up asking the model to fix a response that failed validation
+export function buildRepairMessage(issues: string[]): ChatMessage {
+  return {
+    role: 'user',
+    content: `That response was not valid: ${issues.slice(0, 5).join('; ')}. Reply again with only the JSON object in the required shape.`
+  };
+}
+
+export function extractProfile(messages: ChatMessage[]): DatasetProfile | null {
+  for (const message of messages) {
+    const start = message.content.indexOf(PROFILE_START);
+    const end = message.content.indexOf(PROFILE_END);
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(message.content.slice(start + PROFILE_START.length, end));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,244 @@
+import { createError } from '../core/error';
+import { authService } from '@/services/authService';
+import { AIInsightContent } from './insights';
+import { ChatMessage, extractProfile } from './prompt';
+import { DatasetProfile } from './profile';
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat model that returns the raw text of its reply. Prompt building and
+ * validation stay in `analyzeDataWithAI`, so a provider only moves messages.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model?: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+interface ChatCompletionPayload {
+  choices?: { message?: { content?: unknown } }[];
+  error?: { message?: string };
+}
+
+// Where the backend answers chat completions with a key it keeps to itself
+export const BACKEND_LLM_URL = '/api/llm';
+
+export interface OpenAICompatibleOptions {
+  // A keyless server such as http://localhost:11434/v1 for Ollama, or the backend
+  baseUrl: string;
+  model: string;
+  name?: string;
+  temperature?: number;
+  // Ask for `response_format: json_object`; turn off for servers that reject it
+  jsonMode?: boolean;
+  timeoutMs?: number;
+  // Read per request, so a session token can change between calls
+  headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+  fetch?: typeof fetch;
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API: the backend's
+ * proxy for hosted providers, or local runtimes such as Ollama, vLLM,
+ * LM Studio and llama.cpp. API keys are never sent from the browser.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private options: OpenAICompatibleOptions;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.options = { temperature: 0.2, jsonMode: true, timeoutMs: 60000, ...options };
+    this.model = options.model;
+    this.name = options.name ?? 'openai-compatible';
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const { baseUrl, model, temperature, jsonMode, timeoutMs, headers } = this.options;
+    const fetchImpl = this.options.fetch ?? fetch;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener('abort', abort);
+
+    let response: Response;
+    let payload: ChatCompletionPayload | null;
+    try {
+      response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(typeof headers === 'function' ? await headers() : headers)
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature,
+          ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+        }),
+        signal: controller.signal
+      });
+      // A body that stalls counts against the same timeout as the request
+      payload = await response.json().catch(err => {
+        if (controller.signal.aborted) throw err;
+        return null;
+      });
+    } catch (err) {
+      const reason = controller.signal.aborted && !options.signal?.aborted
+        ? `timed out after ${timeoutMs}ms`
+        : err instanceof Error ? err.message : 'network error';
+      throw createError('ML_ERROR', `AI request to ${baseUrl} failed: ${reason}`);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+
+    if (!response.ok) {
+      throw createError('ML_ERROR', `AI request failed (${response.status}): ${payload?.error?.message || response.statusText}`);
+    }
+
+    const content = payload?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw createError('ML_ERROR', 'AI response had no message content');
+    }
+    return content;
+  }
+}
+
+/**
+ * Derives insights from the profile in the prompt with fixed rules, so the
+ * same dataset always gives the same answer. For tests and offline demos.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+  readonly calls: ChatMessage[][] = [];
+  private responses: string[];
+
+  // `responses` are returned in order before falling back to the rules
+  constructor(responses: string[] = []) {
+    this.responses = [...responses];
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    this.calls.push(messages);
+    const canned = this.responses.shift();
+    if (canned !== undefined) return canned;
+
+    const profile = extractProfile(messages);
+    if (!profile) throw createError('ML_ERROR', 'Mock provider could not find a dataset profile in the prompt');
+    return JSON.stringify(mockInsights(profile));
+  }
+}
+
+function mockInsights(profile: DatasetProfile): AIInsightContent {
+  const insights: AIInsightContent = {
+    summary: `${profile.rowCount} rows across ${profile.fieldCount} fields.`,
+    patterns: [],
+    correlations: [],
+    predictions: [],
+    recommendations: []
+  };
+
+  profile.fields.forEach(field => {
+    const total = field.count + field.missing;
+    if (total && field.missing / total >= 0.1) {
+      insights.recommendations.push({
+        title: `Fill gaps in ${field.name}`,
+        description: `${field.missing} of ${total} values are missing.`,
+        priority: field.missing / total >= 0.3 ? 'high' : 'medium'
+      });
+    }
+    const numeric = field.numeric;
+    if (!numeric) return;
+    if (numeric.trend !== 'stable') {
+      insights.patterns.push({
+        title: `${field.name} trends ${numeric.trend}`,
+        description: `Values move ${numeric.trend} across the dataset, from ${numeric.min} to ${numeric.max}.`,
+        fields: [field.name],
+        confidence: 0.7
+      });
+      insights.predictions.push({
+        field: field.name,
+        description: `${field.name} is likely to keep trending ${numeric.trend}.`,
+        confidence: 0.6
+      });
+    }
+    if (numeric.outliers > 0) {
+      insights.patterns.push({
+        title: `Outliers in ${field.name}`,
+        description: `${numeric.outliers} values fall outside 1.5 IQR of the quartiles.`,
+        fields: [field.name],
+        confidence: 0.8
+      });
+    }
+  });
+
+  profile.correlations.forEach(({ fields, r }) => {
+    const magnitude = Math.abs(r);
+    insights.correlations.push({
+      fields,
+      direction: r >= 0 ? 'positive' : 'negative',
+      strength: magnitude >= 0.7 ? 'strong' : magnitude >= 0.5 ? 'moderate' : 'weak',
+      description: `${fields[0]} and ${fields[1]} have a correlation of ${r}.`
+    });
+  });
+
+  return insights;
+}
+
+let activeProvider: LLMProvider | null = null;
+
+export function setAIProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+export function getAIProvider(): LLMProvider | null {
+  return activeProvider;
+}
+
+/**
+ * Provider from Vite env variables. `VITE_LLM_PROVIDER=backend` sends
+ * requests through the backend, which holds the hosted provider's key;
+ * `VITE_LLM_BASE_URL` points at a keyless OpenAI-compatible server.
+ * `VITE_LLM_PROVIDER=mock` selects the mock provider. Vite bundles every
+ * `VITE_` variable into the client, so keys are never read from them.
+ */
+export function createProviderFromEnv(env: Record<string, string | boolean | undefined>): LLMProvider | null {
+  const value = (key: string) => {
+    const v = env[key];
+    return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+  };
+
+  ['VITE_LLM_API_KEY', 'VITE_OPENAI_API_KEY'].filter(value).forEach(key => {
+    console.warn(`${key} is ignored because it would ship in the client bundle; set LLM_API_KEY on the backend instead`);
+  });
+
+  const provider = value('VITE_LLM_PROVIDER');
+  if (provider === 'mock') return new MockLLMProvider();
+
+  const options = {
+    model: value('VITE_LLM_MODEL') ?? 'gpt-4o-mini',
+    jsonMode: value('VITE_LLM_JSON_MODE') !== 'false'
+  };
+
+  if (provider === 'backend') {
+    return new OpenAICompatibleProvider({
+      ...options,
+      baseUrl: BACKEND_LLM_URL,
+      name: 'backend',
+      headers: async (): Promise<Record<string, string>> => {
+        const token = await authService.getAccessToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      }
+    });
+  }
+
+  const baseUrl = value('VITE_LLM_BASE_URL');
+  return baseUrl ? new OpenAICompatibleProvider({ ...options, baseUrl }) : null;
+}
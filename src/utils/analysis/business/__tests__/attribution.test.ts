@@ -0,0 +1,137 @@
+import {
+  buildJourneys,
+  compareAttributionModels,
+  firstTouch,
+  lastTouch,
+  linear,
+  markov,
+  positionBased,
+  shapley,
+  timeDecay,
+  type Journey
+} from '../attribution';
+import type { DataField } from '@/types/data';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// One row per touchpoint: [user, channel, day, converted, revenue]
+function touchpoints(rows: Array<[string, string, number, boolean, number]>): DataField[] {
+  return [
+    { name: 'user', type: 'string', value: rows.map(row => row[0]) },
+    { name: 'channel', type: 'string', value: rows.map(row => row[1]) },
+    { name: 'time', type: 'number', value: rows.map(row => row[2] * DAY) },
+    { name: 'converted', type: 'boolean', value: rows.map(row => row[3]) },
+    { name: 'revenue', type: 'number', value: rows.map(row => row[4]) }
+  ];
+}
+
+const options = {
+  userField: 'user',
+  channelField: 'channel',
+  timeField: 'time',
+  convertedField: 'converted',
+  revenueField: 'revenue'
+};
+
+function journey(channels: string[], revenue: number | null): Journey {
+  return {
+    touchpoints: channels.map((channel, i) => ({ channel, time: i * DAY })),
+    converted: revenue != null,
+    revenue: revenue ?? 0,
+    endTime: (channels.length - 1) * DAY
+  };
+}
+
+function sum(credit: Record<string, number>): number {
+  return Object.values(credit).reduce((total, value) => total + value, 0);
+}
+
+describe('Attribution models', () => {
+  it('should split touchpoints into journeys at each conversion', () => {
+    const journeys = buildJourneys(touchpoints([
+      ['u1', 'email', 2, false, 0],
+      ['u1', 'search', 1, false, 0],
+      ['u1', 'social', 3, true, 80],
+      ['u1', 'email', 5, false, 0],
+      ['u2', 'social', 1, true, 20]
+    ]), options);
+
+    expect(journeys.map(entry => entry.touchpoints.map(touch => touch.channel))).toEqual([
+      ['search', 'email', 'social'],
+      ['email'],
+      ['social']
+    ]);
+    expect(journeys.map(entry => entry.converted)).toEqual([true, false, true]);
+    expect(journeys[0].revenue).toBe(80);
+  });
+
+  it('should apply the rule-based models', () => {
+    const journeys = [journey(['search', 'email', 'social', 'email'], 100)];
+
+    expect(firstTouch(journeys)).toEqual({ search: 100, email: 0, social: 0 });
+    expect(lastTouch(journeys)).toEqual({ search: 0, email: 100, social: 0 });
+    expect(linear(journeys)).toEqual({ search: 25, email: 50, social: 25 });
+
+    const position = positionBased(journeys);
+    expect(position.search).toBeCloseTo(40);
+    expect(position.email).toBeCloseTo(50);
+    expect(position.social).toBeCloseTo(10);
+  });
+
+  it('should give more time-decay credit to recent touches', () => {
+    // Touches 0, 1 and 2 half-lives before the conversion
+    const credit = timeDecay([journey(['a', 'b', 'c'], 70)], 1);
+    expect(credit.a).toBeCloseTo(10);
+    expect(credit.b).toBeCloseTo(20);
+    expect(credit.c).toBeCloseTo(40);
+    expect(() => timeDecay([], 0)).toThrow();
+  });
+
+  it('should credit Markov removal effects', () => {
+    // Removing either channel breaks every converting path
+    const credit = markov([journey(['a', 'b'], 60), journey(['a'], null)]);
+    expect(credit.a).toBeCloseTo(30);
+    expect(credit.b).toBeCloseTo(30);
+
+    // A channel only seen on non-converting paths gets nothing
+    const withDeadEnd = markov([journey(['a'], 50), journey(['c'], null)]);
+    expect(withDeadEnd.a).toBeCloseTo(50);
+    expect(withDeadEnd.c).toBeCloseTo(0);
+  });
+
+  it('should distribute Shapley credit that sums to revenue', () => {
+    const journeys = [
+      journey(['a'], 40),
+      journey(['a', 'b'], 60),
+      journey(['b'], null),
+      journey(['b'], null)
+    ];
+    const credit = shapley(journeys);
+    expect(sum(credit)).toBeCloseTo(100);
+    expect(credit.a).toBeGreaterThan(credit.b);
+  });
+
+  it('should compare every model on a touchpoint table', () => {
+    const result = compareAttributionModels(touchpoints([
+      ['u1', 'search', 1, false, 0],
+      ['u1', 'email', 2, true, 100],
+      ['u2', 'social', 1, true, 50],
+      ['u3', 'search', 1, false, 0],
+      ['u3', 'social', 2, false, 0]
+    ]), options);
+
+    expect(result.channels).toEqual(['email', 'search', 'social']);
+    expect(result.conversions).toBe(2);
+    expect(result.revenue).toBe(150);
+    Object.values(result.models).forEach(credit => {
+      expect(credit).not.toBeNull();
+      expect(sum(credit!)).toBeCloseTo(150);
+    });
+  });
+
+  it('should reject tables without conversions', () => {
+    expect(() => compareAttributionModels(touchpoints([
+      ['u1', 'search', 1, false, 0]
+    ]), options)).toThrow();
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  ALL_ITEMS,
+  analyzeInventory,
+  economicOrderQuantity,
+  safetyStock,
+  simulatePolicy
+} from '../inventory';
+import type { DataField } from '@/types/data';
+
+const costs = { orderingCost: 50, holdingCost: 1 };
+
+const options = {
+  ...costs,
+  demandField: 'demand',
+  skuField: 'sku',
+  leadTimeMean: 2,
+  leadTimeStd: 0.5,
+  serviceLevel: 0.95,
+  reviewPeriod: 4,
+  periods: 52,
+  runs: 100,
+  seed: 7
+};
+
+function table(rows: Array<[string, number]>): DataField[] {
+  return [
+    { name: 'sku', type: 'string', value: rows.map(row => row[0]) },
+    { name: 'demand', type: 'number', value: rows.map(row => row[1]) }
+  ];
+}
+
+const history = [12, 8, 10, 15, 9, 11, 7, 13, 10, 5, 14, 6];
+
+describe('Inventory policies', () => {
+  it('should compute the economic order quantity', () => {
+    expect(economicOrderQuantity(100, 50, 1)).toBeCloseTo(100);
+    expect(() => economicOrderQuantity(100, 50, 0)).toThrow();
+  });
+
+  it('should size safety stock from demand and lead-time variability', () => {
+    expect(safetyStock(100, 20, 4, 0, 0.95)).toBeCloseTo(1.645 * 40, 0);
+    expect(safetyStock(100, 20, 4, 1, 0.95)).toBeGreaterThan(safetyStock(100, 20, 4, 0, 0.95));
+    expect(() => safetyStock(100, 20, 4, 0, 1)).toThrow();
+  });
+
+  it('should never stock out on constant demand with enough cover', () => {
+    const result = simulatePolicy(
+      { type: 'sS', reorderPoint: 20, orderUpTo: 60 },
+      [new Array(30).fill(10)],
+      () => 1,
+      costs
+    );
+    expect(result.stockoutPeriods).toBe(0);
+    expect(result.fillRate).toBe(1);
+    expect(result.orders).toBeGreaterThan(0);
+    expect(result.totalCost).toBeCloseTo(result.holdingCost + result.orderingCost);
+  });
+
+  it('should lose sales when the reorder point is too low', () => {
+    const result = simulatePolicy(
+      { type: 'periodic', reviewPeriod: 5, orderUpTo: 20 },
+      [new Array(30).fill(10)],
+      () => 3,
+      costs
+    );
+    expect(result.stockoutPeriods).toBeGreaterThan(0);
+    expect(result.fillRate).toBeLessThan(1);
+  });
+
+  it('should plan and simulate each SKU', () => {
+    const fields = table([
+      ...history.map(value => ['A', value] as [string, number]),
+      ...history.map(value => ['B', value * 10] as [string, number])
+    ]);
+    const results = analyzeInventory(fields, options);
+
+    expect(results.map(result => result.sku)).toEqual(['A', 'B']);
+    results.forEach(result => {
+      expect(result.error).toBeUndefined();
+      expect(result.policies.map(policy => policy.policy.type)).toEqual(['sS', 'periodic']);
+      result.policies.forEach(policy => {
+        expect(policy.fillRate).toBeGreaterThan(0.9);
+        expect(policy.fillRate).toBeLessThanOrEqual(1);
+      });
+    });
+    expect(results[1].plan!.eoq).toBeCloseTo(results[0].plan!.eoq * Math.sqrt(10));
+  });
+
+  it('should be reproducible for a seed and improve with the service level', () => {
+    const fields = table(history.map(value => ['A', value]));
+    const low = analyzeInventory(fields, { ...options, serviceLevel: 0.6 })[0];
+    const high = analyzeInventory(fields, { ...options, serviceLevel: 0.99 })[0];
+
+    expect(analyzeInventory(fields, options)).toEqual(analyzeInventory(fields, options));
+    expect(high.policies[0].fillRate).toBeGreaterThan(low.policies[0].fillRate);
+    expect(high.policies[0].holdingCost).toBeGreaterThan(low.policies[0].holdingCost);
+  });
+
+  it('should report SKUs with too little history', () => {
+    const results = analyzeInventory(table([['A', 5], ['A', 6]]), { ...options, skuField: undefined });
+    expect(results[0].sku).toBe(ALL_ITEMS);
+    expect(results[0].error).toMatch(/at least/);
+  });
+});
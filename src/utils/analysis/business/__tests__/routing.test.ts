@@ -0,0 +1,102 @@
+import {
+  distanceMatrix,
+  formatMinutes,
+  haversineKm,
+  routesToCsv,
+  solveRoutes,
+  toMinutes,
+  type RouteStop,
+  type RoutingOptions
+} from '../routing';
+
+function stop(name: string, lat: number, lng: number, extra: Partial<RouteStop> = {}): RouteStop {
+  return { name, lat, lng, demand: 1, ...extra };
+}
+
+const options: RoutingOptions = {
+  depot: 0,
+  vehicles: 1,
+  speedKmh: 60,
+  serviceMinutes: 0,
+  startMinutes: 8 * 60,
+  returnToDepot: true
+};
+
+// Points on the equator, where 0.1 degrees of longitude is roughly 11 km
+const line = [
+  stop('depot', 0, 0),
+  stop('far', 0, 0.4),
+  stop('near', 0, 0.1),
+  stop('middle', 0, 0.2),
+  stop('farther', 0, 0.3)
+];
+
+function visited(result: ReturnType<typeof solveRoutes>): string[][] {
+  return result.routes.map(route => route.stops.map(scheduled => line[scheduled.stop].name));
+}
+
+describe('Route optimization', () => {
+  it('should compute haversine distances', () => {
+    expect(haversineKm({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })).toBeCloseTo(111.19, 1);
+    const matrix = distanceMatrix(line.slice(0, 3));
+    expect(matrix[1][2]).toBeCloseTo(matrix[2][1]);
+    expect(matrix[0][0]).toBe(0);
+  });
+
+  it('should parse time-of-day cells', () => {
+    expect(toMinutes('09:30')).toBe(570);
+    expect(toMinutes(45)).toBe(45);
+    expect(toMinutes('')).toBeUndefined();
+    expect(formatMinutes(570)).toBe('09:30');
+  });
+
+  it('should order stops to minimise distance', () => {
+    const result = solveRoutes(line, { ...options, returnToDepot: false });
+    expect(visited(result)).toEqual([['near', 'middle', 'farther', 'far']]);
+    expect(result.totalDistance).toBeCloseTo(haversineKm(line[0], line[1]), 5);
+    expect(result.totalDistance).toBeLessThan(result.baselineDistance);
+  });
+
+  it('should respect time windows', () => {
+    // "far" is 44 minutes away and closes at 08:50, so it has to come first
+    const windowed = line.map((entry, i) => (i === 1 ? { ...entry, windowEnd: 8 * 60 + 50 } : entry));
+    const result = solveRoutes(windowed, { ...options, serviceMinutes: 10, returnToDepot: false });
+    expect(result.routes[0].stops[0].stop).toBe(1);
+    result.routes[0].stops.forEach(scheduled => {
+      const window = windowed[scheduled.stop].windowEnd;
+      if (window != null) expect(scheduled.arrival).toBeLessThanOrEqual(window);
+    });
+  });
+
+  it('should wait for a window to open', () => {
+    const windowed = [stop('depot', 0, 0), stop('late', 0, 0.1, { windowStart: 10 * 60 })];
+    const [scheduled] = solveRoutes(windowed, options).routes[0].stops;
+    expect(scheduled.departure).toBe(10 * 60);
+    expect(scheduled.wait).toBeGreaterThan(100);
+  });
+
+  it('should split stops across vehicles by capacity', () => {
+    const result = solveRoutes(line, { ...options, vehicles: 2, capacity: 2 });
+    expect(result.routes).toHaveLength(2);
+    expect(result.unassigned).toEqual([]);
+    result.routes.forEach(route => expect(route.load).toBeLessThanOrEqual(2));
+  });
+
+  it('should report stops no vehicle can serve', () => {
+    const result = solveRoutes(line, { ...options, capacity: 3 });
+    expect(result.routes[0].stops).toHaveLength(3);
+    expect(result.unassigned).toHaveLength(1);
+  });
+
+  it('should export the stop order as CSV', () => {
+    const result = solveRoutes(line.slice(0, 3), options);
+    const lines = routesToCsv(result, line).split(/\r?\n/);
+    expect(lines[0]).toBe('vehicle,sequence,stop,lat,lng,arrival,departure,wait_minutes,load,distance_km');
+    expect(lines[1]).toMatch(/^1,1,near,/);
+    expect(lines).toHaveLength(3);
+  });
+
+  it('should reject an invalid depot', () => {
+    expect(() => solveRoutes(line, { ...options, depot: 10 })).toThrow();
+  });
+});
@@ -0,0 +1,382 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { countRows, findField, toKey, toTime } from '@/utils/analysis/network/events';
+
+export type AttributionModel =
+  | 'firstTouch'
+  | 'lastTouch'
+  | 'linear'
+  | 'timeDecay'
+  | 'positionBased'
+  | 'markov'
+  | 'shapley';
+
+export const ATTRIBUTION_MODELS: { id: AttributionModel; label: string }[] = [
+  { id: 'firstTouch', label: 'First touch' },
+  { id: 'lastTouch', label: 'Last touch' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'timeDecay', label: 'Time decay' },
+  { id: 'positionBased', label: 'Position based' },
+  { id: 'markov', label: 'Markov chain' },
+  { id: 'shapley', label: 'Shapley' }
+];
+
+// Shapley enumerates every channel subset, so it is limited to this many channels
+export const MAX_SHAPLEY_CHANNELS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TouchpointOptions {
+  userField: string;
+  channelField: string;
+  timeField: string;
+  convertedField: string;
+  // Without a revenue column each conversion is worth 1
+  revenueField?: string;
+}
+
+export interface Touchpoint {
+  channel: string;
+  time: number;
+}
+
+export interface Journey {
+  touchpoints: Touchpoint[];
+  converted: boolean;
+  revenue: number;
+  // Time of the converting touchpoint, or of the last touchpoint otherwise
+  endTime: number;
+}
+
+export interface AttributionOptions {
+  // Half-life of a touchpoint's weight in the time-decay model
+  halfLifeDays?: number;
+  // Share of credit given to the first and to the last touch in the position-based model
+  positionWeights?: { first: number; last: number };
+}
+
+export type ChannelCredit = Record<string, number>;
+
+export interface AttributionResult {
+  channels: string[];
+  // Credited revenue per channel; null when a model could not be computed
+  models: Record<AttributionModel, ChannelCredit | null>;
+  journeys: number;
+  conversions: number;
+  revenue: number;
+  warnings: string[];
+}
+
+function toFlag(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value > 0;
+  if (value == null) return false;
+  return ['true', 'yes', 'y', '1', 'converted'].includes(String(value).trim().toLowerCase());
+}
+
+/**
+ * Splits each user's touchpoints into journeys. A journey ends at a
+ * converting touchpoint; touchpoints after a user's last conversion form
+ * a non-converting journey, which only the Markov and Shapley models use.
+ */
+export function buildJourneys(fields: DataField[], options: TouchpointOptions): Journey[] {
+  const users = findField(fields, options.userField).value;
+  const channels = findField(fields, options.channelField).value;
+  const times = findField(fields, options.timeField).value;
+  const converted = findField(fields, options.convertedField).value;
+  const revenues = options.revenueField ? findField(fields, options.revenueField).value : null;
+
+  const byUser = new Map<string, { channel: string; time: number; converted: boolean; revenue: number }[]>();
+  const rows = countRows(fields);
+  for (let row = 0; row < rows; row++) {
+    const user = toKey(users[row]);
+    const channel = toKey(channels[row]);
+    const time = toTime(times[row]);
+    if (user == null || channel == null || time == null) continue;
+
+    const isConversion = toFlag(converted[row]);
+    const revenue = revenues ? Number(revenues[row]) : 1;
+    let touches = byUser.get(user);
+    if (!touches) {
+      touches = [];
+      byUser.set(user, touches);
+    }
+    touches.push({ channel, time, converted: isConversion, revenue: isFinite(revenue) ? revenue : 0 });
+  }
+
+  const journeys: Journey[] = [];
+  byUser.forEach(touches => {
+    touches.sort((a, b) => a.time - b.time);
+    let current: Touchpoint[] = [];
+    touches.forEach(touch => {
+      current.push({ channel: touch.channel, time: touch.time });
+      if (touch.converted) {
+        journeys.push({ touchpoints: current, converted: true, revenue: touch.revenue, endTime: touch.time });
+        current = [];
+      }
+    });
+    if (current.length > 0) {
+      journeys.push({ touchpoints: current, converted: false, revenue: 0, endTime: current[current.length - 1].time });
+    }
+  });
+
+  return journeys;
+}
+
+function addCredit(credit: ChannelCredit, channel: string, amount: number): void {
+  credit[channel] = (credit[channel] ?? 0) + amount;
+}
+
+/**
+ * Spreads each converting journey's revenue over its touchpoints using
+ * per-touchpoint weights, which are normalised to sum to one.
+ */
+function creditByWeights(journeys: Journey[], weigh: (journey: Journey) => number[]): ChannelCredit {
+  const credit: ChannelCredit = {};
+  journeys.forEach(journey => {
+    if (!journey.converted) return;
+    const weights = weigh(journey);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) return;
+    journey.touchpoints.forEach((touch, i) => {
+      addCredit(credit, touch.channel, journey.revenue * weights[i] / total);
+    });
+  });
+  return credit;
+}
+
+export function firstTouch(journeys: Journey[]): ChannelCredit {
+  return creditByWeights(journeys, journey => journey.touchpoints.map((_, i) => (i === 0 ? 1 : 0)));
+}
+
+export function lastTouch(journeys: Journey[]): ChannelCredit {
+  return creditByWeights(journeys, journey => {
+    const last = journey.touchpoints.length - 1;
+    return journey.touchpoints.map((_, i) => (i === last ? 1 : 0));
+  });
+}
+
+export function linear(journeys: Journey[]): ChannelCredit {
+  return creditByWeights(journeys, journey => journey.touchpoints.map(() => 1));
+}
+
+/**
+ * Touchpoints lose half their weight for every `halfLifeDays` between
+ * them and the conversion.
+ */
+export function timeDecay(journeys: Journey[], halfLifeDays = 7): ChannelCredit {
+  if (!(halfLifeDays > 0)) {
+    throw createError('VALIDATION_ERROR', 'Half-life must be greater than zero');
+  }
+  const halfLife = halfLifeDays * DAY_MS;
+  return creditByWeights(journeys, journey =>
+    journey.touchpoints.map(touch => Math.pow(0.5, (journey.endTime - touch.time) / halfLife)));
+}
+
+/**
+ * U-shaped model: fixed shares to the first and last touch, the rest
+ * split evenly over the touches in between.
+ */
+export function positionBased(
+  journeys: Journey[],
+  weights: { first: number; last: number } = { first: 0.4, last: 0.4 }
+): ChannelCredit {
+  if (weights.first < 0 || weights.last < 0 || weights.first + weights.last > 1) {
+    throw createError('VALIDATION_ERROR', 'First and last touch shares must be non-negative and sum to at most 100%');
+  }
+  return creditByWeights(journeys, journey => {
+    const n = journey.touchpoints.length;
+    if (n === 1) return [1];
+    if (n === 2) return weights.first + weights.last > 0 ? [weights.first, weights.last] : [1, 1];
+    const middle = (1 - weights.first - weights.last) / (n - 2);
+    return journey.touchpoints.map((_, i) => (i === 0 ? weights.first : i === n - 1 ? weights.last : middle));
+  });
+}
+
+const START = '(start)';
+const CONVERSION = '(conversion)';
+const NULL_STATE = '(null)';
+
+/**
+ * Probability of reaching the conversion state from the start of a
+ * first-order transition graph. `removed` channels are treated as dead
+ * ends, which is how the removal effect is measured.
+ */
+function conversionProbability(
+  transitions: Map<string, Map<string, number>>,
+  removed: string | null
+): number {
+  const states = Array.from(transitions.keys());
+  const probability = new Map<string, number>(states.map(state => [state, 0]));
+  probability.set(CONVERSION, 1);
+  probability.set(NULL_STATE, 0);
+
+  // Value iteration; journeys rarely loop, so this converges in a few passes
+  for (let pass = 0; pass < 1000; pass++) {
+    let delta = 0;
+    states.forEach(state => {
+      if (state === removed) return;
+      const next = transitions.get(state)!;
+      let total = 0;
+      let value = 0;
+      next.forEach((count, target) => {
+        total += count;
+        value += count * (target === removed ? 0 : probability.get(target) ?? 0);
+      });
+      const updated = total > 0 ? value / total : 0;
+      delta = Math.max(delta, Math.abs(updated - probability.get(state)!));
+      probability.set(state, updated);
+    });
+    if (delta < 1e-10) break;
+  }
+
+  return probability.get(START) ?? 0;
+}
+
+/**
+ * Markov-chain attribution: each channel's share of revenue is its removal
+ * effect, i.e. how much the overall conversion probability drops when the
+ * channel is taken out of the transition graph.
+ */
+export function markov(journeys: Journey[]): ChannelCredit {
+  const transitions = new Map<string, Map<string, number>>();
+  const count = (from: string, to: string) => {
+    let next = transitions.get(from);
+    if (!next) {
+      next = new Map();
+      transitions.set(from, next);
+    }
+    next.set(to, (next.get(to) ?? 0) + 1);
+  };
+
+  const channels = new Set<string>();
+  journeys.forEach(journey => {
+    let previous = START;
+    journey.touchpoints.forEach(touch => {
+      channels.add(touch.channel);
+      count(previous, touch.channel);
+      previous = touch.channel;
+    });
+    count(previous, journey.converted ? CONVERSION : NULL_STATE);
+  });
+
+  const credit: ChannelCredit = {};
+  const base = conversionProbability(transitions, null);
+  if (base <= 0) return credit;
+
+  const effects = new Map<string, number>();
+  channels.forEach(channel => {
+    effects.set(channel, Math.max(0, 1 - conversionProbability(transitions, channel) / base));
+  });
+  const totalEffect = Array.from(effects.values()).reduce((sum, effect) => sum + effect, 0);
+  const revenue = journeys.reduce((sum, journey) => sum + (journey.converted ? journey.revenue : 0), 0);
+  effects.forEach((effect, channel) => {
+    credit[channel] = totalEffect > 0 ? revenue * effect / totalEffect : 0;
+  });
+  return credit;
+}
+
+/**
+ * Shapley attribution over channel coalitions. A coalition's value is the
+ * revenue per journey among journeys that used only channels in it, so a
+ * channel that mostly shows up in non-converting journeys can earn negative
+ * credit. Values are scaled by the journey count so credits sum to revenue.
+ */
+export function shapley(journeys: Journey[]): ChannelCredit {
+  const channels = Array.from(new Set(journeys.flatMap(journey => journey.touchpoints.map(touch => touch.channel)))).sort();
+  const n = channels.length;
+  if (n > MAX_SHAPLEY_CHANNELS) {
+    throw createError('VALIDATION_ERROR', `Shapley attribution supports at most ${MAX_SHAPLEY_CHANNELS} channels`);
+  }
+  const index = new Map(channels.map((channel, i) => [channel, i]));
+
+  // Revenue and journey count by the exact set of channels a journey touched
+  const subsetSize = 1 << n;
+  const revenue = new Float64Array(subsetSize);
+  const count = new Float64Array(subsetSize);
+  journeys.forEach(journey => {
+    let mask = 0;
+    journey.touchpoints.forEach(touch => {
+      mask |= 1 << index.get(touch.channel)!;
+    });
+    count[mask]++;
+    if (journey.converted) revenue[mask] += journey.revenue;
+  });
+
+  // Sum over all subsets of each coalition (subset-sum transform)
+  for (let bit = 0; bit < n; bit++) {
+    for (let mask = 0; mask < subsetSize; mask++) {
+      if (mask & (1 << bit)) {
+        revenue[mask] += revenue[mask ^ (1 << bit)];
+        count[mask] += count[mask ^ (1 << bit)];
+      }
+    }
+  }
+  const value = revenue.map((total, mask) => (count[mask] > 0 ? total / count[mask] : 0));
+
+  const factorial = [1];
+  for (let i = 1; i <= n; i++) factorial[i] = factorial[i - 1] * i;
+  const popcount = (mask: number) => {
+    let bits = 0;
+    for (let m = mask; m; m &= m - 1) bits++;
+    return bits;
+  };
+
+  const credit: ChannelCredit = {};
+  channels.forEach((channel, i) => {
+    const bit = 1 << i;
+    let total = 0;
+    for (let mask = 0; mask < subsetSize; mask++) {
+      if (mask & bit) continue;
+      const size = popcount(mask);
+      total += factorial[size] * factorial[n - size - 1] / factorial[n] * (value[mask | bit] - value[mask]);
+    }
+    credit[channel] = total * journeys.length;
+  });
+  return credit;
+}
+
+/**
+ * Runs every attribution model over the same touchpoint table so the
+ * credited revenue per channel can be compared side by side.
+ */
+export function compareAttributionModels(
+  fields: DataField[],
+  touchpoints: TouchpointOptions,
+  options: AttributionOptions = {}
+): AttributionResult {
+  const journeys = buildJourneys(fields, touchpoints);
+  const converting = journeys.filter(journey => journey.converted);
+  if (converting.length === 0) {
+    throw createError('DATA_ERROR', 'No converting journeys found');
+  }
+
+  const warnings: string[] = [];
+  const run = (model: AttributionModel, compute: () => ChannelCredit): ChannelCredit | null => {
+    try {
+      return compute();
+    } catch (error) {
+      warnings.push(`${ATTRIBUTION_MODELS.find(entry => entry.id === model)!.label}: ${error instanceof Error ? error.message : 'failed'}`);
+      return null;
+    }
+  };
+
+  const channels = Array.from(new Set(journeys.flatMap(journey => journey.touchpoints.map(touch => touch.channel)))).sort();
+
+  return {
+    channels,
+    models: {
+      firstTouch: firstTouch(journeys),
+      lastTouch: lastTouch(journeys),
+      linear: linear(journeys),
+      timeDecay: timeDecay(journeys, options.halfLifeDays),
+      positionBased: positionBased(journeys, options.positionWeights),
+      markov: markov(journeys),
+      shapley: run('shapley', () => shapley(journeys))
+    },
+    journeys: journeys.length,
+    conversions: converting.length,
+    revenue: converting.reduce((sum, journey) => sum + journey.revenue, 0),
+    warnings
+  };
+}
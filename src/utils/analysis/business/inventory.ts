@@ -0,0 +1,276 @@
+import { probit } from 'simple-statistics';
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { SimulationEngine } from '@/utils/analysis/simulation/engine';
+import { createSeededRandom, sampleNormal } from '@/utils/analysis/simulation/random';
+import { countRows, findField, toKey, toTime } from '@/utils/analysis/network/events';
+
+// Label used when the table has no SKU column
+export const ALL_ITEMS = 'All items';
+
+export interface InventoryCosts {
+  orderingCost: number;
+  // Cost of holding one unit for one period
+  holdingCost: number;
+}
+
+export interface InventoryOptions extends InventoryCosts {
+  demandField: string;
+  skuField?: string;
+  // Orders each SKU's demand history; row order is used without it
+  timeField?: string;
+  // Observed lead times in periods; replaces leadTimeMean/leadTimeStd for SKUs that have them
+  leadTimeField?: string;
+  leadTimeMean: number;
+  leadTimeStd: number;
+  // Cycle service level targeted by the safety stock, e.g. 0.95
+  serviceLevel: number;
+  // Periods between reviews for the periodic-review policy
+  reviewPeriod: number;
+  periods: number;
+  runs: number;
+  seed?: number;
+}
+
+export interface SkuPlan {
+  demandMean: number;
+  demandStd: number;
+  leadTimeMean: number;
+  leadTimeStd: number;
+  eoq: number;
+  safetyStock: number;
+  reorderPoint: number;
+}
+
+export type InventoryPolicy =
+  | { type: 'sS'; reorderPoint: number; orderUpTo: number }
+  | { type: 'periodic'; reviewPeriod: number; orderUpTo: number };
+
+export interface PolicyResult {
+  policy: InventoryPolicy;
+  // Expected values per simulated run
+  stockoutPeriods: number;
+  lostUnits: number;
+  holdingCost: number;
+  orderingCost: number;
+  totalCost: number;
+  orders: number;
+  averageInventory: number;
+  // Share of demand served from stock
+  fillRate: number;
+}
+
+export interface SkuInventoryResult {
+  sku: string;
+  plan?: SkuPlan;
+  policies: PolicyResult[];
+  error?: string;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function sampleStd(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+}
+
+/** Order quantity that balances ordering and holding cost per period. */
+export function economicOrderQuantity(demandPerPeriod: number, orderingCost: number, holdingCost: number): number {
+  if (!(holdingCost > 0)) {
+    throw createError('VALIDATION_ERROR', 'Holding cost must be greater than zero');
+  }
+  return Math.sqrt(2 * Math.max(0, demandPerPeriod) * Math.max(0, orderingCost) / holdingCost);
+}
+
+/**
+ * Safety stock covering demand over a stochastic lead time at the given
+ * cycle service level: z * sqrt(L * σd² + d² * σL²).
+ */
+export function safetyStock(
+  demandMean: number,
+  demandStd: number,
+  leadTimeMean: number,
+  leadTimeStd: number,
+  serviceLevel: number
+): number {
+  if (!(serviceLevel > 0 && serviceLevel < 1)) {
+    throw createError('VALIDATION_ERROR', 'Service level must be between 0 and 1');
+  }
+  const z = probit(serviceLevel);
+  return Math.max(0, z * Math.sqrt(leadTimeMean * demandStd ** 2 + demandMean ** 2 * leadTimeStd ** 2));
+}
+
+export function planSku(
+  demand: number[],
+  leadTimes: number[],
+  options: Pick<InventoryOptions, 'orderingCost' | 'holdingCost' | 'leadTimeMean' | 'leadTimeStd' | 'serviceLevel'>
+): SkuPlan {
+  const demandMean = mean(demand);
+  const demandStd = sampleStd(demand);
+  const leadTimeMean = leadTimes.length ? mean(leadTimes) : options.leadTimeMean;
+  const leadTimeStd = leadTimes.length ? sampleStd(leadTimes) : options.leadTimeStd;
+  const stock = safetyStock(demandMean, demandStd, leadTimeMean, leadTimeStd, options.serviceLevel);
+  return {
+    demandMean,
+    demandStd,
+    leadTimeMean,
+    leadTimeStd,
+    eoq: economicOrderQuantity(demandMean, options.orderingCost, options.holdingCost),
+    safetyStock: stock,
+    reorderPoint: demandMean * leadTimeMean + stock
+  };
+}
+
+/**
+ * Order-up-to level for a periodic-review policy, which has to cover
+ * demand over the review period plus the lead time.
+ */
+export function periodicOrderUpTo(plan: SkuPlan, reviewPeriod: number, serviceLevel: number): number {
+  const horizon = reviewPeriod + plan.leadTimeMean;
+  return plan.demandMean * horizon +
+    safetyStock(plan.demandMean, plan.demandStd, horizon, plan.leadTimeStd, serviceLevel);
+}
+
+/**
+ * Plays a policy against demand paths with lost sales. Orders are placed
+ * at the start of a period and arrive `leadTime()` periods later, before
+ * that period's demand.
+ */
+export function simulatePolicy(
+  policy: InventoryPolicy,
+  demandPaths: ArrayLike<number>[],
+  leadTime: () => number,
+  costs: InventoryCosts
+): PolicyResult {
+  const totals = { stockoutPeriods: 0, lostUnits: 0, holding: 0, orders: 0, inventory: 0, demand: 0, served: 0, periods: 0 };
+
+  demandPaths.forEach(path => {
+    let onHand = policy.orderUpTo;
+    let pipeline: { arrival: number; quantity: number }[] = [];
+
+    for (let t = 0; t < path.length; t++) {
+      pipeline = pipeline.filter(order => {
+        if (order.arrival > t) return true;
+        onHand += order.quantity;
+        return false;
+      });
+
+      const review = policy.type === 'sS' || t % policy.reviewPeriod === 0;
+      const position = onHand + pipeline.reduce((sum, order) => sum + order.quantity, 0);
+      const trigger = policy.type === 'sS' ? position <= policy.reorderPoint : true;
+      if (review && trigger && policy.orderUpTo > position) {
+        const quantity = policy.orderUpTo - position;
+        const lead = leadTime();
+        if (lead <= 0) {
+          onHand += quantity;
+        } else {
+          pipeline.push({ arrival: t + lead, quantity });
+        }
+        totals.orders++;
+      }
+
+      const demand = Math.max(0, path[t]);
+      const served = Math.min(onHand, demand);
+      onHand -= served;
+      if (served < demand) {
+        totals.stockoutPeriods++;
+        totals.lostUnits += demand - served;
+      }
+      totals.demand += demand;
+      totals.served += served;
+      totals.holding += onHand * costs.holdingCost;
+      totals.inventory += onHand;
+      totals.periods++;
+    }
+  });
+
+  const runs = Math.max(1, demandPaths.length);
+  const orderingCost = totals.orders * costs.orderingCost / runs;
+  const holdingCost = totals.holding / runs;
+  return {
+    policy,
+    stockoutPeriods: totals.stockoutPeriods / runs,
+    lostUnits: totals.lostUnits / runs,
+    holdingCost,
+    orderingCost,
+    totalCost: holdingCost + orderingCost,
+    orders: totals.orders / runs,
+    averageInventory: totals.periods ? totals.inventory / totals.periods : 0,
+    fillRate: totals.demand > 0 ? totals.served / totals.demand : 1
+  };
+}
+
+function leadTimeSampler(observed: number[], plan: SkuPlan, random: () => number): () => number {
+  if (observed.length > 0) {
+    return () => Math.round(observed[Math.floor(random() * observed.length)]);
+  }
+  return () => Math.max(0, Math.round(plan.leadTimeMean + plan.leadTimeStd * sampleNormal(random)));
+}
+
+/**
+ * Per-SKU EOQ, safety stock and reorder point, with Monte-Carlo
+ * simulation of an (s,S) policy and a periodic-review order-up-to policy.
+ * Demand paths are bootstrapped from each SKU's history by SimulationEngine.
+ */
+export function analyzeInventory(fields: DataField[], options: InventoryOptions): SkuInventoryResult[] {
+  if (!(options.reviewPeriod >= 1) || !(options.periods >= 1) || !(options.runs >= 1)) {
+    throw createError('VALIDATION_ERROR', 'Review period, horizon and runs must be at least 1');
+  }
+
+  const demandValues = findField(fields, options.demandField).value;
+  const skus = options.skuField ? findField(fields, options.skuField).value : null;
+  const times = options.timeField ? findField(fields, options.timeField).value : null;
+  const leadTimeValues = options.leadTimeField ? findField(fields, options.leadTimeField).value : null;
+
+  const bySku = new Map<string, { demand: { value: number; time: number }[]; leadTimes: number[] }>();
+  const rows = countRows(fields);
+  for (let row = 0; row < rows; row++) {
+    const sku = skus ? toKey(skus[row]) : ALL_ITEMS;
+    if (sku == null) continue;
+    let entry = bySku.get(sku);
+    if (!entry) {
+      entry = { demand: [], leadTimes: [] };
+      bySku.set(sku, entry);
+    }
+    const demand = Number(demandValues[row]);
+    if (demandValues[row] != null && demandValues[row] !== '' && isFinite(demand)) {
+      entry.demand.push({ value: demand, time: times ? toTime(times[row]) ?? row : row });
+    }
+    const leadTime = leadTimeValues ? Number(leadTimeValues[row]) : NaN;
+    if (leadTimeValues?.[row] != null && leadTimeValues[row] !== '' && isFinite(leadTime) && leadTime >= 0) {
+      entry.leadTimes.push(leadTime);
+    }
+  }
+
+  const seed = options.seed ?? 1;
+  return Array.from(bySku.entries()).map(([sku, { demand, leadTimes }]) => {
+    try {
+      const history = demand.sort((a, b) => a.time - b.time).map(point => point.value);
+      const engine = new SimulationEngine([{ name: 'demand', type: 'number', value: history }]);
+      const paths = engine.sampleFieldPaths('demand', options.periods, options.runs, createSeededRandom(seed));
+      const plan = planSku(history, leadTimes, options);
+
+      const policies: InventoryPolicy[] = [
+        { type: 'sS', reorderPoint: plan.reorderPoint, orderUpTo: plan.reorderPoint + plan.eoq },
+        {
+          type: 'periodic',
+          reviewPeriod: options.reviewPeriod,
+          orderUpTo: periodicOrderUpTo(plan, options.reviewPeriod, options.serviceLevel)
+        }
+      ];
+
+      return {
+        sku,
+        plan,
+        // Same lead-time stream for every policy so they face identical conditions
+        policies: policies.map(policy =>
+          simulatePolicy(policy, paths, leadTimeSampler(leadTimes, plan, createSeededRandom(seed + 1)), options))
+      };
+    } catch (error) {
+      return { sku, policies: [], error: error instanceof Error ? error.message : 'Inventory analysis failed' };
+    }
+  });
+}
@@ -0,0 +1,364 @@
+import Papa from 'papaparse';
+import { createError } from '@/utils/core/error';
+
+const EARTH_RADIUS_KM = 6371;
+// Improvement passes stop once a pass finds nothing, or after this many
+const MAX_PASSES = 50;
+const EPSILON = 1e-9;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteStop extends LatLng {
+  name: string;
+  // Load picked up at the stop; counts towards vehicle capacity
+  demand: number;
+  // Time window in minutes since midnight
+  windowStart?: number;
+  windowEnd?: number;
+}
+
+export interface RoutingOptions {
+  // Index of the stop vehicles start from
+  depot: number;
+  vehicles: number;
+  // Maximum load per vehicle; unlimited when omitted
+  capacity?: number;
+  speedKmh: number;
+  serviceMinutes: number;
+  // Departure time from the depot, in minutes since midnight
+  startMinutes: number;
+  returnToDepot: boolean;
+}
+
+export interface ScheduledStop {
+  stop: number;
+  arrival: number;
+  departure: number;
+  // Minutes spent waiting for the time window to open
+  wait: number;
+  load: number;
+  distanceFromPrevious: number;
+}
+
+export interface VehicleRoute {
+  vehicle: number;
+  stops: ScheduledStop[];
+  distance: number;
+  // Minutes from leaving the depot to the end of the route
+  duration: number;
+  load: number;
+}
+
+export interface RoutingResult {
+  routes: VehicleRoute[];
+  // Stops no vehicle could serve within capacity and time windows
+  unassigned: number[];
+  totalDistance: number;
+  // Distance of visiting the stops in input order with one vehicle, for comparison
+  baselineDistance: number;
+}
+
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function distanceMatrix(points: LatLng[]): number[][] {
+  const matrix = points.map(() => new Array<number>(points.length).fill(0));
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      matrix[i][j] = matrix[j][i] = haversineKm(points[i], points[j]);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Reads a time-of-day cell as minutes since midnight. Accepts "HH:MM"
+ * strings, Dates and plain minute counts.
+ */
+export function toMinutes(value: unknown): number | undefined {
+  if (value == null || value === '') return undefined;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.getHours() * 60 + value.getMinutes();
+  }
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+  const match = /^(\d{1,2}):(\d{2})/.exec(String(value).trim());
+  if (match) return Number(match[1]) * 60 + Number(match[2]);
+  const parsed = Date.parse(String(value));
+  if (isNaN(parsed)) return undefined;
+  const date = new Date(parsed);
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  return `${String(hours).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+class RouteSolver {
+  private readonly dist: number[][];
+
+  constructor(private readonly stops: RouteStop[], private readonly options: RoutingOptions) {
+    this.dist = distanceMatrix(stops);
+  }
+
+  private travelMinutes(from: number, to: number): number {
+    return this.dist[from][to] / this.options.speedKmh * 60;
+  }
+
+  distance(route: number[]): number {
+    const { depot, returnToDepot } = this.options;
+    let total = 0;
+    let previous = depot;
+    route.forEach(stop => {
+      total += this.dist[previous][stop];
+      previous = stop;
+    });
+    if (returnToDepot && route.length > 0) total += this.dist[previous][depot];
+    return total;
+  }
+
+  /** Timetable for a route, or null when it breaks a time window or the capacity. */
+  schedule(route: number[]): ScheduledStop[] | null {
+    const { depot, capacity, serviceMinutes, startMinutes } = this.options;
+    const scheduled: ScheduledStop[] = [];
+    let time = startMinutes;
+    let load = 0;
+    let previous = depot;
+
+    for (const stop of route) {
+      const { windowStart, windowEnd, demand } = this.stops[stop];
+      const arrival = time + this.travelMinutes(previous, stop);
+      const start = windowStart != null ? Math.max(arrival, windowStart) : arrival;
+      if (windowEnd != null && start > windowEnd + EPSILON) return null;
+      load += demand;
+      if (capacity != null && load > capacity + EPSILON) return null;
+      time = start + serviceMinutes;
+      scheduled.push({
+        stop,
+        arrival,
+        departure: time,
+        wait: start - arrival,
+        load,
+        distanceFromPrevious: this.dist[previous][stop]
+      });
+      previous = stop;
+    }
+    return scheduled;
+  }
+
+  private feasible(route: number[]): boolean {
+    return this.schedule(route) !== null;
+  }
+
+  /**
+   * Nearest-neighbour construction: each vehicle in turn keeps driving to
+   * the closest stop it can still serve, until none is left for it.
+   */
+  construct(): { routes: number[][]; unassigned: number[] } {
+    const { depot, vehicles } = this.options;
+    const remaining = new Set(this.stops.map((_, i) => i).filter(i => i !== depot));
+    const routes: number[][] = [];
+
+    for (let vehicle = 0; vehicle < vehicles && remaining.size > 0; vehicle++) {
+      const route: number[] = [];
+      for (;;) {
+        const previous = route.length > 0 ? route[route.length - 1] : depot;
+        let best = -1;
+        remaining.forEach(stop => {
+          if ((best < 0 || this.dist[previous][stop] < this.dist[previous][best]) && this.feasible([...route, stop])) {
+            best = stop;
+          }
+        });
+        if (best < 0) break;
+        route.push(best);
+        remaining.delete(best);
+      }
+      if (route.length === 0) break;
+      routes.push(route);
+    }
+
+    return { routes, unassigned: Array.from(remaining) };
+  }
+
+  /** Reverses segments while that shortens the route and keeps it feasible. */
+  twoOpt(route: number[]): number[] {
+    let best = route;
+    let bestDistance = this.distance(best);
+    for (let pass = 0, improved = true; improved && pass < MAX_PASSES; pass++) {
+      improved = false;
+      for (let i = 0; i < best.length - 1; i++) {
+        for (let j = i + 1; j < best.length; j++) {
+          const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+          const distance = this.distance(candidate);
+          if (distance < bestDistance - EPSILON && this.feasible(candidate)) {
+            best = candidate;
+            bestDistance = distance;
+            improved = true;
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  /** Moves runs of one to three consecutive stops to a better position. */
+  orOpt(route: number[]): number[] {
+    let best = route;
+    let bestDistance = this.distance(best);
+    for (let pass = 0, improved = true; improved && pass < MAX_PASSES; pass++) {
+      improved = false;
+      for (let length = 1; length <= 3; length++) {
+        for (let i = 0; i + length <= best.length; i++) {
+          const segment = best.slice(i, i + length);
+          const rest = [...best.slice(0, i), ...best.slice(i + length)];
+          for (let k = 0; k <= rest.length; k++) {
+            if (k === i) continue;
+            const candidate = [...rest.slice(0, k), ...segment, ...rest.slice(k)];
+            const distance = this.distance(candidate);
+            if (distance < bestDistance - EPSILON && this.feasible(candidate)) {
+              best = candidate;
+              bestDistance = distance;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Moves single stops between vehicles when that lowers the combined
+   * distance, and inserts unassigned stops wherever they first fit.
+   */
+  relocate(routes: number[][], unassigned: number[]): { routes: number[][]; unassigned: number[] } {
+    const result = routes.map(route => [...route]);
+    const pending: number[] = [];
+
+    const cheapestInsertion = (stop: number, skip: number) => {
+      let best: { route: number; position: number; delta: number } | null = null;
+      result.forEach((route, r) => {
+        if (r === skip) return;
+        const base = this.distance(route);
+        for (let position = 0; position <= route.length; position++) {
+          const candidate = [...route.slice(0, position), stop, ...route.slice(position)];
+          const delta = this.distance(candidate) - base;
+          if ((!best || delta < best.delta) && this.feasible(candidate)) {
+            best = { route: r, position, delta };
+          }
+        }
+      });
+      return best as { route: number; position: number; delta: number } | null;
+    };
+
+    for (let pass = 0, improved = true; improved && pass < MAX_PASSES; pass++) {
+      improved = false;
+      for (let r = 0; r < result.length; r++) {
+        for (let i = 0; i < result[r].length; i++) {
+          const stop = result[r][i];
+          const without = [...result[r].slice(0, i), ...result[r].slice(i + 1)];
+          const saving = this.distance(result[r]) - this.distance(without);
+          const insertion = cheapestInsertion(stop, r);
+          if (insertion && insertion.delta < saving - EPSILON && this.feasible(without)) {
+            result[r] = without;
+            const target = result[insertion.route];
+            target.splice(insertion.position, 0, stop);
+            improved = true;
+            i--;
+          }
+        }
+      }
+    }
+
+    unassigned.forEach(stop => {
+      const insertion = cheapestInsertion(stop, -1);
+      if (insertion) {
+        result[insertion.route].splice(insertion.position, 0, stop);
+      } else {
+        pending.push(stop);
+      }
+    });
+
+    return { routes: result.filter(route => route.length > 0), unassigned: pending };
+  }
+
+  solve(): RoutingResult {
+    const constructed = this.construct();
+    const improved = constructed.routes.map(route => this.orOpt(this.twoOpt(route)));
+    const relocated = this.relocate(improved, constructed.unassigned);
+    const finalRoutes = this.options.vehicles > 1
+      ? relocated.routes.map(route => this.orOpt(this.twoOpt(route)))
+      : relocated.routes;
+
+    const routes = finalRoutes.map((route, vehicle) => {
+      const stops = this.schedule(route)!;
+      const last = stops[stops.length - 1];
+      const end = this.options.returnToDepot
+        ? last.departure + this.travelMinutes(last.stop, this.options.depot)
+        : last.departure;
+      return {
+        vehicle: vehicle + 1,
+        stops,
+        distance: this.distance(route),
+        duration: end - this.options.startMinutes,
+        load: last.load
+      };
+    });
+
+    const inputOrder = this.stops.map((_, i) => i).filter(i => i !== this.options.depot);
+    return {
+      routes,
+      unassigned: relocated.unassigned,
+      totalDistance: routes.reduce((sum, route) => sum + route.distance, 0),
+      baselineDistance: this.distance(inputOrder)
+    };
+  }
+}
+
+/**
+ * Plans vehicle routes from a depot over the given stops. Routes are built
+ * greedily by nearest neighbour and then shortened with 2-opt, Or-opt and
+ * moves between vehicles, never breaking capacity or time windows.
+ */
+export function solveRoutes(stops: RouteStop[], options: RoutingOptions): RoutingResult {
+  if (stops.length < 2) {
+    throw createError('VALIDATION_ERROR', 'At least two stops with coordinates are required');
+  }
+  if (options.depot < 0 || options.depot >= stops.length) {
+    throw createError('VALIDATION_ERROR', 'Depot must be one of the stops');
+  }
+  if (!(options.vehicles >= 1) || !(options.speedKmh > 0)) {
+    throw createError('VALIDATION_ERROR', 'Vehicles and speed must be positive');
+  }
+  if (options.capacity != null && !(options.capacity > 0)) {
+    throw createError('VALIDATION_ERROR', 'Capacity must be positive');
+  }
+  return new RouteSolver(stops, options).solve();
+}
+
+/** One row per visited stop, in driving order, for CSV export. */
+export function routesToCsv(result: RoutingResult, stops: RouteStop[]): string {
+  const rows = result.routes.flatMap(route => route.stops.map((scheduled, i) => ({
+    vehicle: route.vehicle,
+    sequence: i + 1,
+    stop: stops[scheduled.stop].name,
+    lat: stops[scheduled.stop].lat,
+    lng: stops[scheduled.stop].lng,
+    arrival: formatMinutes(scheduled.arrival),
+    departure: formatMinutes(scheduled.departure),
+    wait_minutes: Math.round(scheduled.wait),
+    load: scheduled.load,
+    distance_km: Number(scheduled.distanceFromPrevious.toFixed(3))
+  })));
+  return Papa.unparse(rows);
+}
@@ -12,6 +12,7 @@ import { AIAnalyzer } from './ai/analyzer';
 import { SentimentAnalyzer } from './nlp/sentimentAnalyzer';
 import { FinanceAnalyzer } from './industry/finance';
 import type { AnalyzedData } from '@/types/analysis';
+import { hasSemanticType, isMeasureField } from '../file/columnTypes';
 
 export async function analyzeData(fields: DataField[]): Promise<AnalyzedData> {
   try {
@@ -21,7 +22,7 @@ export async function analyzeData(fields: DataField[]): Promise<AnalyzedData> {
       throw createError('VALIDATION_ERROR', validation.error || 'Invalid dataset');
     }
 
-    const numericFields = fields.filter(f => f.type === 'number');
+    const numericFields = fields.filter(isMeasureField);
     const textFields = fields.filter(f => f.type === 'string');
 
     // Perform analyses in parallel
@@ -103,7 +104,7 @@ export function performAnalysis(fields: DataField[], category: string | null) {
   }
 
   // Validate numeric fields for relevant categories
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (['descriptive', 'correlation', 'regression', 'ml'].includes(category) && numericFields.length === 0) {
     return {
       type: category,
@@ -249,7 +250,7 @@ export function detectFraudPatterns(fields: DataField[]) {
 }
 
 function performDescriptiveAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return {
     type: 'descriptive',
     statistics: calculateStatistics(numericFields),
@@ -258,7 +259,7 @@ function performDescriptiveAnalysis(fields: DataField[]) {
 }
 
 function performVisualizationAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return {
     type: 'visualization',
     charts: generateCharts(numericFields)
@@ -266,7 +267,7 @@ function performVisualizationAnalysis(fields: DataField[]) {
 }
 
 function performCorrelationAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   return {
     type: 'correlation',
     correlations: calculateCorrelations(numericFields)
@@ -274,7 +275,7 @@ function performCorrelationAnalysis(fields: DataField[]) {
 }
 
 function performHypothesisAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (numericFields.length === 0) {
     return {
       type: 'hypothesis',
@@ -292,7 +293,7 @@ function performHypothesisAnalysis(fields: DataField[]) {
 }
 
 function performRegressionAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   
   if (numericFields.length < 2) {
     return {
@@ -358,7 +359,7 @@ function performRegressionAnalysis(fields: DataField[]) {
 }
 
 function performMLAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (numericFields.length < 2) {
     return {
       type: 'ml',
@@ -441,7 +442,7 @@ function performTextAnalysis(fields: DataField[]) {
 }
 
 function performTimeSeriesAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (numericFields.length === 0) {
     return {
       type: 'time',
@@ -462,6 +463,7 @@ function performTimeSeriesAnalysis(fields: DataField[]) {
 
 function performSpatialAnalysis(fields: DataField[]) {
   const locationFields = fields.filter(f => 
+    hasSemanticType(f, 'latitude', 'longitude', 'coordinates') ||
     f.name.toLowerCase().includes('location') ||
     f.name.toLowerCase().includes('latitude') ||
     f.name.toLowerCase().includes('longitude')
@@ -485,7 +487,7 @@ function performSpatialAnalysis(fields: DataField[]) {
 }
 
 function performBusinessAnalysis(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   if (numericFields.length === 0) {
     return {
       type: 'business',
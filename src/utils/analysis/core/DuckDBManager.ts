@@ -1,8 +1,40 @@
-import { AsyncDuckDB, getJsDelivrBundles, selectBundle, ConsoleLogger } from '@duckdb/duckdb-wasm';
-import { tableFromArrays } from 'apache-arrow';
+import { AsyncDuckDB, getJsDelivrBundles, selectBundle, ConsoleLogger, DuckDBDataProtocol } from '@duckdb/duckdb-wasm';
+import { Table, Utf8, tableFromArrays, tableToIPC, vectorFromArray } from 'apache-arrow';
 import { DataField } from '@/types/data';
 import { createError } from '@/utils/core/error';
 import { ErrorType } from '@/utils/core/error';
+import { fromSqlType, quoteIdentifier, toSqlType, toTableName } from './sql';
+
+export interface TableColumn {
+  name: string;
+  type: DataField['type'];
+  sqlType?: string;
+}
+
+export interface TableInfo {
+  name: string;
+  columns: TableColumn[];
+  rowCount: number;
+}
+
+export interface ColumnStats {
+  rowCount: number;
+  nullPercentage: number;
+  mean?: number;
+  median?: number;
+  min?: number;
+  max?: number;
+  standardDeviation?: number;
+  quartiles?: {
+    q1: number;
+    q2: number;
+    q3: number;
+  };
+}
+
+function normalizeValue(value: unknown): unknown {
+  return typeof value === 'bigint' ? Number(value) : value;
+}
 
 export class DuckDBManager {
   private static instance: DuckDBManager;
@@ -10,6 +42,8 @@ export class DuckDBManager {
   private readonly CHUNK_SIZE = 10000;
   private isInitializing = false;
   private initPromise: Promise<void> | null = null;
+  // Table names handed out by `claimTableName`, including tables still loading
+  private claimedTables = new Set<string>();
 
   private constructor() {}
 
@@ -106,6 +140,280 @@ export class DuckDBManager {
     }
   }
 
+  async query<T = Record<string, unknown>>(sql: string): Promise<T[]> {
+    const result = await this.queryArrow(sql);
+    const columns = result.schema.fields.map(field => field.name);
+    return result.toArray().map(row => {
+      const json = row.toJSON();
+      return Object.fromEntries(
+        columns.map(column => [column, normalizeValue(json[column])])
+      ) as T;
+    });
+  }
+
+  /**
+   * Runs a query and returns the Arrow result as is, keeping nested
+   * types that `query` would flatten into plain objects.
+   */
+  async queryArrow(sql: string): Promise<Table> {
+    await this.initialize();
+    if (!this.db) {
+      throw createError('SYSTEM_ERROR' as ErrorType, 'DuckDB not initialized');
+    }
+
+    const conn = await this.db.connect();
+    try {
+      // DuckDB bundles its own apache-arrow; the table API is the same
+      return (await conn.query(sql)) as unknown as Table;
+    } catch (error) {
+      throw createError(
+        'ANALYSIS_ERROR' as ErrorType,
+        error instanceof Error ? error.message : 'Query failed'
+      );
+    } finally {
+      await conn.close();
+    }
+  }
+
+  /**
+   * Makes a browser file readable from SQL (e.g. `read_parquet(name)`)
+   * without copying it into memory first.
+   */
+  async registerFile(name: string, file: File): Promise<void> {
+    await this.initialize();
+    if (!this.db) {
+      throw createError('SYSTEM_ERROR' as ErrorType, 'DuckDB not initialized');
+    }
+
+    await this.db.registerFileHandle(name, file, DuckDBDataProtocol.BROWSER_FILEREADER, true);
+  }
+
+  async insertArrowIPC(table: string, buffer: Uint8Array): Promise<void> {
+    await this.initialize();
+    if (!this.db) {
+      throw createError('SYSTEM_ERROR' as ErrorType, 'DuckDB not initialized');
+    }
+
+    const conn = await this.db.connect();
+    try {
+      await conn.query(`DROP TABLE IF EXISTS ${quoteIdentifier(table)}`);
+      await conn.insertArrowFromIPCStream(buffer, { name: table, create: true });
+    } catch (error) {
+      throw createError(
+        'PROCESSING_FAILED',
+        error instanceof Error ? error.message : `Failed to load Arrow data into ${table}`
+      );
+    } finally {
+      await conn.close();
+    }
+  }
+
+  /**
+   * Appends raw text rows to a VARCHAR staging table. Call
+   * `finalizeTable` once all chunks are in to apply column types.
+   */
+  async appendRows(
+    table: string,
+    headers: string[],
+    rows: Array<Array<string | null>>,
+    create: boolean
+  ): Promise<void> {
+    await this.initialize();
+    if (!this.db) {
+      throw createError('SYSTEM_ERROR' as ErrorType, 'DuckDB not initialized');
+    }
+
+    const conn = await this.db.connect();
+    try {
+      if (create) {
+        await conn.query(`DROP TABLE IF EXISTS ${quoteIdentifier(table)}`);
+      }
+
+      const columns: Record<string, any> = {};
+      headers.forEach((header, i) => {
+        columns[header] = vectorFromArray(
+          rows.map(row => (row[i] == null || row[i] === '' ? null : String(row[i]))),
+          new Utf8()
+        );
+      });
+
+      // Serialized here because duckdb-wasm's own Arrow copy can't write our Table
+      await conn.insertArrowFromIPCStream(tableToIPC(new Table(columns), 'stream'), { name: table, create });
+    } catch (error) {
+      throw createError(
+        'PROCESSING_FAILED',
+        error instanceof Error ? error.message : `Failed to load rows into ${table}`
+      );
+    } finally {
+      await conn.close();
+    }
+  }
+
+  /**
+   * Applies column types to a VARCHAR staging table. Values that do not
+   * convert are loaded as NULL; the returned counts say how many non-empty
+   * values each column lost, leaving out columns that lost none.
+   */
+  async finalizeTable(stagingTable: string, table: string, columns: TableColumn[]): Promise<Record<string, number>> {
+    const cast = (column: TableColumn) =>
+      `TRY_CAST(${quoteIdentifier(column.name)} AS ${toSqlType(column.type)})`;
+    const typed = columns.filter(column => column.type !== 'string');
+
+    const failures: Record<string, number> = {};
+    if (typed.length > 0) {
+      const [row] = await this.query<Record<string, number>>(
+        `SELECT ${typed
+          .map((column, i) => `COUNT(*) FILTER (WHERE ${quoteIdentifier(column.name)} IS NOT NULL AND ${cast(column)} IS NULL) AS f${i}`)
+          .join(', ')} FROM ${quoteIdentifier(stagingTable)}`
+      );
+      typed.forEach((column, i) => {
+        const failed = Number(row?.[`f${i}`] ?? 0);
+        if (failed > 0) failures[column.name] = failed;
+      });
+    }
+
+    const projection = columns
+      .map(column => column.type === 'string'
+        ? quoteIdentifier(column.name)
+        : `${cast(column)} AS ${quoteIdentifier(column.name)}`)
+      .join(', ');
+
+    await this.query(
+      `CREATE OR REPLACE TABLE ${quoteIdentifier(table)} AS SELECT ${projection} FROM ${quoteIdentifier(stagingTable)}`
+    );
+    if (stagingTable !== table) {
+      await this.dropTable(stagingTable);
+    }
+    return failures;
+  }
+
+  async registerFields(table: string, fields: DataField[]): Promise<Record<string, number>> {
+    const staging = `${table}__staging`;
+    const rowCount = fields.reduce((max, field) => Math.max(max, field.value.length), 0);
+
+    for (let start = 0; start < Math.max(rowCount, 1); start += this.CHUNK_SIZE) {
+      const end = Math.min(start + this.CHUNK_SIZE, rowCount);
+      const rows = Array.from({ length: end - start }, (_, offset) =>
+        fields.map(field => {
+          const value = field.value[start + offset];
+          if (value == null) return null;
+          return value instanceof Date ? value.toISOString() : String(value);
+        })
+      );
+      await this.appendRows(staging, fields.map(field => field.name), rows, start === 0);
+    }
+
+    return this.finalizeTable(staging, table, fields.map(field => ({ name: field.name, type: field.type })));
+  }
+
+  /**
+   * Picks a table name for an upload that no existing table or other
+   * upload uses, so `sales.csv` and `Sales.xlsx` do not replace each other.
+   */
+  async claimTableName(fileName: string): Promise<string> {
+    const existing = await this.query<{ table_name: string }>(
+      `SELECT table_name FROM information_schema.tables WHERE table_schema = 'main'`
+    );
+    const taken = new Set([...existing.map(row => row.table_name), ...this.claimedTables]);
+
+    const base = toTableName(fileName);
+    let table = base;
+    for (let i = 2; taken.has(table); i++) table = `${base}_${i}`;
+    this.claimedTables.add(table);
+    return table;
+  }
+
+  async listTables(): Promise<TableInfo[]> {
+    const columns = await this.query<{ table_name: string; column_name: string; data_type: string }>(
+      `SELECT table_name, column_name, data_type
+       FROM information_schema.columns
+       WHERE table_schema = 'main' AND table_name NOT LIKE '%__staging'
+       ORDER BY table_name, ordinal_position`
+    );
+
+    const tables = new Map<string, TableColumn[]>();
+    columns.forEach(column => {
+      const list = tables.get(column.table_name) ?? [];
+      list.push({
+        name: column.column_name,
+        type: fromSqlType(column.data_type),
+        sqlType: column.data_type
+      });
+      tables.set(column.table_name, list);
+    });
+
+    return Promise.all(
+      [...tables.entries()].map(async ([name, tableColumns]) => ({
+        name,
+        columns: tableColumns,
+        rowCount: await this.countRows(name)
+      }))
+    );
+  }
+
+  async countRows(table: string): Promise<number> {
+    const [row] = await this.query<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM ${quoteIdentifier(table)}`
+    );
+    return Number(row?.count ?? 0);
+  }
+
+  async dropTable(table: string): Promise<void> {
+    await this.query(`DROP TABLE IF EXISTS ${quoteIdentifier(table)}`);
+    this.claimedTables.delete(table);
+  }
+
+  /**
+   * Computes column statistics in SQL so they cover every row of the
+   * table rather than the sample held in memory.
+   */
+  async getColumnStats(table: string, columns: TableColumn[]): Promise<Record<string, ColumnStats>> {
+    const stats: Record<string, ColumnStats> = {};
+
+    for (const column of columns) {
+      const name = quoteIdentifier(column.name);
+      const numeric = column.type === 'number';
+      const [row] = await this.query<Record<string, number | null>>(`
+        SELECT
+          COUNT(*) AS total,
+          COUNT(${name}) AS present
+          ${numeric ? `,
+          AVG(${name}) AS mean,
+          MEDIAN(${name}) AS median,
+          MIN(${name}) AS min,
+          MAX(${name}) AS max,
+          STDDEV_POP(${name}) AS sd,
+          QUANTILE_CONT(${name}, 0.25) AS q1,
+          QUANTILE_CONT(${name}, 0.75) AS q3` : ''}
+        FROM ${quoteIdentifier(table)}
+      `);
+
+      const total = Number(row?.total ?? 0);
+      const present = Number(row?.present ?? 0);
+      stats[column.name] = {
+        rowCount: total,
+        nullPercentage: total === 0 ? 0 : ((total - present) / total) * 100
+      };
+
+      if (numeric && row && row.mean != null) {
+        Object.assign(stats[column.name], {
+          mean: Number(row.mean),
+          median: Number(row.median),
+          min: Number(row.min),
+          max: Number(row.max),
+          standardDeviation: Number(row.sd ?? 0),
+          quartiles: {
+            q1: Number(row.q1),
+            q2: Number(row.median),
+            q3: Number(row.q3)
+          }
+        });
+      }
+    }
+
+    return stats;
+  }
+
   async cleanup(): Promise<void> {
     if (this.db) {
       const conn = await this.db.connect();
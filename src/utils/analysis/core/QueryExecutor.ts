@@ -2,7 +2,7 @@ import { createError } from '@/utils/core/error';
 import { DuckDBManager } from './DuckDBManager';
 import { createWorker } from '@/utils/core/workerUtils';
 
-interface Query {
+export interface Query {
   sql: string;
   params?: any[];
   options?: {
@@ -12,7 +12,7 @@ interface Query {
   };
 }
 
-interface QueryResult {
+export interface QueryResult {
   data: any[];
   metadata: {
     executionTime: number;
@@ -154,15 +154,8 @@ export class QueryExecutor {
   }
 
   private async executeQueryDirectly(query: Query): Promise<any[]> {
-    // Basic query execution using DuckDB
     try {
-      // Since DuckDBManager doesn't have a direct query method,
-      // we'll log the query and return an empty array for now
-      console.log('Executing query:', query.sql, 'with params:', query.params);
-      
-      // TODO: Implement proper query execution when DuckDBManager is updated
-      // For now, return an empty array to avoid the linter error
-      return [];
+      return await DuckDBManager.getInstance().query(query.sql);
     } catch (error) {
       console.error('Error executing query directly:', error);
       throw error;
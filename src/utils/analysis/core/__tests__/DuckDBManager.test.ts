@@ -0,0 +1,42 @@
+import { DuckDBManager } from '../DuckDBManager';
+import { useNodeDuckDB } from '@/tests/nodeDuckDB';
+
+describe('DuckDBManager', () => {
+  const duckdb = DuckDBManager.getInstance();
+
+  beforeAll(useNodeDuckDB);
+
+  it('should count values that do not convert to the column type', async () => {
+    await duckdb.appendRows(
+      'typed__staging',
+      ['amount', 'ordered', 'region'],
+      [['12.5', '2024-01-03', 'EMEA'], ['1,234', '03/01/2024', 'APAC'], [null, null, null], ['7', '2024-02-01', 'EMEA']],
+      true
+    );
+
+    const failures = await duckdb.finalizeTable('typed__staging', 'typed', [
+      { name: 'amount', type: 'number' },
+      { name: 'ordered', type: 'date' },
+      { name: 'region', type: 'string' }
+    ]);
+
+    expect(failures).toEqual({ amount: 1, ordered: 1 });
+    const rows = await duckdb.query<{ amount: number | null }>('SELECT amount FROM typed');
+    expect(rows.map(row => row.amount)).toEqual([12.5, null, null, 7]);
+    await duckdb.dropTable('typed');
+  });
+
+  it('should give uploads with the same table name separate tables', async () => {
+    const first = await duckdb.claimTableName('sales.csv');
+    await duckdb.registerFields(first, [{ name: 'id', type: 'number', value: [1] }]);
+    const second = await duckdb.claimTableName('Sales.xlsx');
+    const third = await duckdb.claimTableName('SALES.parquet');
+
+    expect([first, second, third]).toEqual(['sales', 'sales_2', 'sales_3']);
+
+    // Dropped tables free their names for later uploads
+    await duckdb.dropTable(second);
+    expect(await duckdb.claimTableName('sales.json')).toBe('sales_2');
+    await Promise.all([first, third].map(table => duckdb.dropTable(table)));
+  });
+});
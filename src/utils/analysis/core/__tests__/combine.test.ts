@@ -0,0 +1,190 @@
+import {
+  alignSchemas,
+  buildCombineQuery,
+  buildJoinQuery,
+  buildUnionQuery,
+  combineDatasets,
+  describeCombination,
+  registerCombineInputs,
+  releaseCombineInputs,
+  type CombineInput
+} from '../combine';
+import { DuckDBManager } from '../DuckDBManager';
+import type { FileData } from '@/types/data';
+import { useNodeDuckDB } from '@/tests/nodeDuckDB';
+
+const orders: CombineInput = {
+  name: 'Orders',
+  table: 'combine_orders',
+  columns: [
+    { name: 'customer_id', type: 'string', sqlType: 'VARCHAR' },
+    { name: 'amount', type: 'number', sqlType: 'DOUBLE' },
+    { name: 'region', type: 'string', sqlType: 'VARCHAR' }
+  ]
+};
+
+const customers: CombineInput = {
+  name: 'Customers',
+  table: 'combine_customers',
+  columns: [
+    { name: 'id', type: 'number', sqlType: 'DOUBLE' },
+    { name: 'region', type: 'string', sqlType: 'VARCHAR' },
+    { name: 'segment', type: 'string', sqlType: 'VARCHAR' }
+  ]
+};
+
+describe('Dataset unions', () => {
+  it('should align columns by name and note where each appears', () => {
+    const aligned = alignSchemas([orders, customers]);
+    expect(aligned.map(column => column.name)).toEqual(['customer_id', 'amount', 'region', 'id', 'segment']);
+    expect(aligned.find(column => column.name === 'region')?.presentIn).toEqual(['Orders', 'Customers']);
+  });
+
+  it('should widen conflicting types', () => {
+    const [column] = alignSchemas([
+      { ...orders, columns: [{ name: 'amount', type: 'number', sqlType: 'INTEGER' }] },
+      { ...orders, name: 'Returns', columns: [{ name: 'amount', type: 'number', sqlType: 'DOUBLE' }] },
+      { ...orders, name: 'Notes', columns: [{ name: 'amount', type: 'string', sqlType: 'VARCHAR' }] }
+    ]);
+    expect(column.sqlType).toBe('VARCHAR');
+  });
+
+  it('should fill missing columns with nulls and tag the source', () => {
+    const sql = buildUnionQuery([orders, customers], true);
+    expect(sql).toContain('CAST(NULL AS DOUBLE) AS "id"');
+    expect(sql).toContain(`'Customers' AS "source_dataset"`);
+    expect(sql.split(' UNION ALL ')).toHaveLength(2);
+  });
+
+  it('should need two datasets', () => {
+    expect(() => buildCombineQuery([orders], { kind: 'union' })).toThrow('at least two');
+  });
+});
+
+describe('Dataset joins', () => {
+  it('should compare numeric and text keys as numbers', () => {
+    const sql = buildJoinQuery(orders, customers, 'inner', [{ left: 'customer_id', right: 'id' }]);
+    expect(sql).toContain('ON TRY_CAST(l."customer_id" AS DOUBLE) = r."id"');
+    expect(sql).toContain('INNER JOIN "combine_customers" AS r');
+  });
+
+  it('should drop right keys and suffix clashing columns', () => {
+    const sql = buildJoinQuery(orders, customers, 'left', [{ left: 'customer_id', right: 'id' }]);
+    expect(sql).not.toMatch(/r\."id" AS/);
+    expect(sql).toContain('r."region" AS "region_combine_customers"');
+    expect(sql).toContain('r."segment" AS "segment"');
+  });
+
+  it('should merge keys in full joins', () => {
+    const sql = buildJoinQuery(orders, { ...customers, columns: [
+      { name: 'customer_id', type: 'string', sqlType: 'VARCHAR' },
+      { name: 'segment', type: 'string', sqlType: 'VARCHAR' }
+    ] }, 'full', [{ left: 'customer_id', right: 'customer_id' }]);
+    expect(sql).toContain('COALESCE(l."customer_id", r."customer_id") AS "customer_id"');
+    expect(sql).toContain('FULL OUTER JOIN');
+  });
+
+  it('should reject unknown or missing keys', () => {
+    expect(() => buildJoinQuery(orders, customers, 'inner', [])).toThrow('key column');
+    expect(() => buildJoinQuery(orders, customers, 'inner', [{ left: 'nope', right: 'id' }]))
+      .toThrow('Column "nope" not found in Orders');
+  });
+
+  it('should describe the combination', () => {
+    expect(describeCombination([orders, customers], {
+      kind: 'join',
+      type: 'left',
+      keys: [{ left: 'customer_id', right: 'id' }]
+    })).toBe('Left join of Orders and Customers on customer_id = id');
+  });
+});
+
+describe('Running combinations', () => {
+  const dataset = (name: string, fields: FileData['content']['fields']): FileData =>
+    ({ name, type: 'csv', content: { fields } });
+
+  const orderRows = dataset('Orders', [
+    { name: 'order', type: 'number', value: [1, 2, 3] },
+    { name: 'customer', type: 'string', value: ['a', 'b', 'x'] }
+  ]);
+  const customerRows = dataset('Customers', [
+    { name: 'customer', type: 'string', value: ['a', 'b', 'c'] },
+    { name: 'name', type: 'string', value: ['Ada', null, 'Cy'] }
+  ]);
+
+  beforeAll(useNodeDuckDB);
+
+  const run = async (datasets: FileData[], spec: Parameters<typeof combineDatasets>[1]) => {
+    const inputs = await registerCombineInputs(datasets);
+    try {
+      const { content } = await combineDatasets(inputs, spec, 'Combined');
+      return Object.fromEntries(content.fields.map(field => [field.name, field.value]));
+    } finally {
+      await releaseCombineInputs(inputs);
+    }
+  };
+
+  it('should keep unmatched rows of a left join aligned', async () => {
+    const columns = await run([orderRows, customerRows], {
+      kind: 'join',
+      type: 'left',
+      keys: [{ left: 'customer', right: 'customer' }]
+    });
+
+    const rows = columns.order.map((order: number, i: number) => [order, columns.customer[i], columns.name[i]]);
+    expect(rows.sort()).toEqual([[1, 'a', 'Ada'], [2, 'b', null], [3, 'x', null]]);
+  });
+
+  it('should keep both unmatched sides of a full join aligned', async () => {
+    const columns = await run([orderRows, customerRows], {
+      kind: 'join',
+      type: 'full',
+      keys: [{ left: 'customer', right: 'customer' }]
+    });
+
+    expect(Object.values(columns).map(values => values.length)).toEqual([4, 4, 4]);
+    const byCustomer = Object.fromEntries(
+      columns.customer.map((customer: string, i: number) => [customer, [columns.order[i], columns.name[i]]])
+    );
+    expect(byCustomer).toEqual({ a: [1, 'Ada'], b: [2, null], c: [null, 'Cy'], x: [3, null] });
+  });
+
+  it('should fill columns missing from one side of a union with nulls', async () => {
+    const columns = await run([orderRows, customerRows], { kind: 'union' });
+
+    expect(columns.order).toEqual([1, 2, 3, null, null, null]);
+    expect(columns.customer).toEqual(['a', 'b', 'x', 'a', 'b', 'c']);
+    expect(columns.name).toEqual([null, null, null, 'Ada', null, 'Cy']);
+  });
+
+  describe('with streamed datasets', () => {
+    // The full table holds three orders; the in-memory sample only one
+    const streamed = (table: string): FileData => ({
+      ...dataset('Orders', [
+        { name: 'order', type: 'number', value: [1] },
+        { name: 'customer', type: 'string', value: ['a'] }
+      ]),
+      source: { kind: 'duckdb', table, rowCount: 3, sampleSize: 1 }
+    });
+
+    beforeAll(async () => {
+      await DuckDBManager.getInstance().registerFields('orders_full', orderRows.content.fields);
+    });
+
+    afterAll(async () => {
+      await DuckDBManager.getInstance().dropTable('orders_full');
+    });
+
+    it('should combine every row of the full table and keep it afterwards', async () => {
+      const columns = await run([streamed('orders_full'), customerRows], { kind: 'union' });
+
+      expect(columns.order).toEqual([1, 2, 3, null, null, null]);
+      expect(await DuckDBManager.getInstance().countRows('orders_full')).toBe(3);
+    });
+
+    it('should refuse datasets whose full table is gone', async () => {
+      await expect(registerCombineInputs([streamed('orders_gone'), customerRows]))
+        .rejects.toThrow('Only a sample of 1 of the 3 rows of "Orders" is loaded');
+    });
+  });
+});
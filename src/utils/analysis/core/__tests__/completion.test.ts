@@ -0,0 +1,60 @@
+import { getCompletions } from '../completion';
+import type { TableInfo } from '../DuckDBManager';
+
+const tables: TableInfo[] = [
+  {
+    name: 'orders',
+    rowCount: 1200,
+    columns: [
+      { name: 'order_id', type: 'string', sqlType: 'VARCHAR' },
+      { name: 'amount', type: 'number', sqlType: 'DOUBLE' },
+      { name: 'Order Date', type: 'date', sqlType: 'TIMESTAMP' }
+    ]
+  },
+  {
+    name: 'customers',
+    rowCount: 300,
+    columns: [{ name: 'customer_id', type: 'string', sqlType: 'VARCHAR' }]
+  }
+];
+
+function complete(text: string) {
+  return getCompletions(text, text.length, tables);
+}
+
+describe('SQL completion', () => {
+  it('should offer only the columns of a qualified table', () => {
+    const result = complete('SELECT orders.');
+    expect(result.items.map(item => item.label)).toEqual(['order_id', 'amount', 'Order Date']);
+    expect(result.from).toBe(result.to);
+  });
+
+  it('should quote column names that need it', () => {
+    const [item] = complete('SELECT orders.Ord').items.filter(item => item.label === 'Order Date');
+    expect(item.insert).toBe('"Order Date"');
+  });
+
+  it('should rank columns of tables in the query ahead of tables and keywords', () => {
+    const items = getCompletions('SELECT o FROM orders', 'SELECT o'.length, tables).items;
+    expect(items[0]).toMatchObject({ label: 'order_id', kind: 'column' });
+    expect(items.map(item => item.kind).slice(0, 4)).toEqual(['column', 'column', 'table', 'keyword']);
+  });
+
+  it('should suggest tables and keywords for a partial word', () => {
+    const result = complete('SELECT * FROM cu');
+    expect(result.items[0]).toMatchObject({ label: 'customers', kind: 'table' });
+    expect(result.from).toBe('SELECT * FROM '.length);
+
+    expect(complete('SELECT * FROM orders GRO').items.map(item => item.label)).toContain('GROUP BY');
+  });
+
+  it('should complete inside an open quote', () => {
+    const result = complete('SELECT orders."Order D');
+    expect(result.items.map(item => item.label)).toEqual(['Order Date']);
+    expect(result.from).toBe('SELECT orders.'.length);
+  });
+
+  it('should return nothing without a word to complete', () => {
+    expect(complete('SELECT ').items).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { isRowQuery, normalizeStatement, runQuery, saveQueryResult } from '../workbench';
+import { DuckDBManager } from '../DuckDBManager';
+import { useNodeDuckDB } from '@/tests/nodeDuckDB';
+
+// The executor runs queries in a browser worker; here they go straight to DuckDB
+jest.mock('../QueryExecutor', () => ({
+  QueryExecutor: {
+    getInstance: () => ({
+      executeQuery: async ({ sql }: { sql: string }) => ({
+        data: await jest.requireActual('../DuckDBManager').DuckDBManager.getInstance().query(sql)
+      }),
+      clearCache: () => {}
+    })
+  }
+}));
+
+jest.mock('@/utils/storage/db', () => ({
+  listLoadedDatasets: async () => [],
+  addLoadedDatasets: async () => {}
+}));
+
+describe('SQL workbench', () => {
+  const duckdb = DuckDBManager.getInstance();
+
+  beforeAll(async () => {
+    await useNodeDuckDB();
+    await duckdb.registerFields('orders', [
+      { name: 'region', type: 'string', value: ['EMEA', 'APAC', 'EMEA'] },
+      { name: 'amount', type: 'number', value: [10, 20, 30] }
+    ]);
+  });
+
+  afterAll(async () => {
+    await duckdb.dropTable('orders');
+    await duckdb.dropTable('emea_orders');
+  });
+
+  it('should keep quoted text that looks like a comment', () => {
+    expect(normalizeStatement(`SELECT '--x' AS "a--b" -- note\n;`)).toBe(`SELECT '--x' AS "a--b"`);
+    expect(isRowQuery('/* totals */ SELECT 1; -- done')).toBe(true);
+    expect(isRowQuery('SELECT 1; SELECT 2')).toBe(false);
+  });
+
+  it('should page queries ending in a comment or semicolon', async () => {
+    const page = await runQuery('SELECT region, SUM(amount) AS total FROM orders GROUP BY region ORDER BY region; -- by region');
+
+    expect(page.totalRows).toBe(2);
+    expect(page.columns.map(column => column.name)).toEqual(['region', 'total']);
+    expect(page.rows).toEqual([{ region: 'APAC', total: 20 }, { region: 'EMEA', total: 40 }]);
+  });
+
+  it('should save a query ending in a comment as a dataset', async () => {
+    const data = await saveQueryResult(`SELECT * FROM orders WHERE region = 'EMEA' -- EMEA only`, 'EMEA orders');
+
+    expect(data.content.fields.find(field => field.name === 'amount')?.value).toEqual([10, 30]);
+    await expect(saveQueryResult('SELECT 1', 'Orders')).rejects.toThrow('already exists');
+  });
+});
@@ -0,0 +1,294 @@
+import type { FileData } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { processData } from '@/utils/analysis/data/processing';
+import { arrowTableToFields } from '@/utils/file/processors/columnar';
+import { DuckDBManager, type TableColumn } from './DuckDBManager';
+import { fromSqlType, quoteIdentifier, sqlLiteral, toTableName } from './sql';
+
+export type JoinType = 'inner' | 'left' | 'full';
+
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+export type CombineSpec =
+  | { kind: 'join'; type: JoinType; keys: JoinKey[] }
+  // tagSource adds a column naming the dataset each row came from
+  | { kind: 'union'; tagSource?: boolean };
+
+export interface CombineInput {
+  // Dataset name as shown to the user
+  name: string;
+  table: string;
+  columns: TableColumn[];
+  // False when the input reads a streamed dataset's own table, which
+  // releasing the inputs must keep
+  temporary?: boolean;
+}
+
+export interface AlignedColumn {
+  name: string;
+  sqlType: string;
+  presentIn: string[];
+}
+
+export interface CombinePreview {
+  inputRows: number[];
+  resultRows: number;
+  columns: string[];
+  // Join only: rows of each side without a partner on the other side
+  unmatched?: { left: number; right: number };
+}
+
+export const SOURCE_COLUMN = 'source_dataset';
+
+const JOIN_SQL: Record<JoinType, string> = {
+  inner: 'INNER JOIN',
+  left: 'LEFT JOIN',
+  full: 'FULL OUTER JOIN'
+};
+
+function findColumn(input: CombineInput, name: string): TableColumn {
+  const column = input.columns.find(candidate => candidate.name === name);
+  if (!column) {
+    throw createError('INVALID_INPUT', `Column "${name}" not found in ${input.name}`);
+  }
+  return column;
+}
+
+function sqlTypeOf(column: TableColumn): string {
+  return column.sqlType ?? (column.type === 'number' ? 'DOUBLE' : 'VARCHAR');
+}
+
+/**
+ * Lines up the columns of every input by name, in first-seen order.
+ * Columns whose types disagree fall back to DOUBLE when all are numeric
+ * and to VARCHAR otherwise.
+ */
+export function alignSchemas(inputs: CombineInput[]): AlignedColumn[] {
+  const aligned = new Map<string, AlignedColumn & { types: Set<string> }>();
+
+  inputs.forEach(input => input.columns.forEach(column => {
+    const entry = aligned.get(column.name) ?? {
+      name: column.name,
+      sqlType: sqlTypeOf(column),
+      presentIn: [],
+      types: new Set<string>()
+    };
+    entry.presentIn.push(input.name);
+    entry.types.add(sqlTypeOf(column));
+    aligned.set(column.name, entry);
+  }));
+
+  return [...aligned.values()].map(({ types, ...column }) => {
+    if (types.size === 1) return column;
+    const numeric = [...types].every(type => fromSqlType(type) === 'number');
+    return { ...column, sqlType: numeric ? 'DOUBLE' : 'VARCHAR' };
+  });
+}
+
+export function buildUnionQuery(inputs: CombineInput[], tagSource = false): string {
+  if (inputs.length < 2) {
+    throw createError('INVALID_INPUT', 'Select at least two datasets to stack');
+  }
+
+  const columns = alignSchemas(inputs);
+  return inputs.map(input => {
+    const projection = columns.map(column => {
+      const present = input.columns.find(candidate => candidate.name === column.name);
+      const expression = present ? quoteIdentifier(column.name) : 'NULL';
+      return `CAST(${expression} AS ${column.sqlType}) AS ${quoteIdentifier(column.name)}`;
+    });
+    if (tagSource) {
+      projection.push(`${sqlLiteral(input.name)} AS ${quoteIdentifier(SOURCE_COLUMN)}`);
+    }
+    return `SELECT ${projection.join(', ')} FROM ${quoteIdentifier(input.table)}`;
+  }).join(' UNION ALL ');
+}
+
+function keyExpressions(left: TableColumn, right: TableColumn): [string, string] {
+  const l = `l.${quoteIdentifier(left.name)}`;
+  const r = `r.${quoteIdentifier(right.name)}`;
+  if (sqlTypeOf(left) === sqlTypeOf(right)) return [l, r];
+
+  // A numeric key read as text on one side, e.g. an ID column
+  if (left.type === 'number' && right.type === 'string') return [l, `TRY_CAST(${r} AS DOUBLE)`];
+  if (left.type === 'string' && right.type === 'number') return [`TRY_CAST(${l} AS DOUBLE)`, r];
+  return [`CAST(${l} AS VARCHAR)`, `CAST(${r} AS VARCHAR)`];
+}
+
+function joinCondition(left: CombineInput, right: CombineInput, keys: JoinKey[]): string {
+  if (keys.length === 0) {
+    throw createError('INVALID_INPUT', 'Choose at least one key column to join on');
+  }
+  return keys.map(key => {
+    const [l, r] = keyExpressions(findColumn(left, key.left), findColumn(right, key.right));
+    return `${l} = ${r}`;
+  }).join(' AND ');
+}
+
+/**
+ * Joins two inputs on key columns. Right-hand key columns are dropped in
+ * favour of the left ones (merged for full joins), and right-hand columns
+ * whose names clash with the left get the right table name as a suffix.
+ */
+export function buildJoinQuery(
+  left: CombineInput,
+  right: CombineInput,
+  type: JoinType,
+  keys: JoinKey[]
+): string {
+  const condition = joinCondition(left, right, keys);
+  const names = new Set(left.columns.map(column => column.name));
+
+  const projection = left.columns.map(column => {
+    const key = keys.find(candidate => candidate.left === column.name);
+    if (type !== 'full' || !key) return `l.${quoteIdentifier(column.name)}`;
+
+    const [l, r] = keyExpressions(column, findColumn(right, key.right));
+    const merged = sqlTypeOf(column) === sqlTypeOf(findColumn(right, key.right))
+      ? `COALESCE(${l}, ${r})`
+      : `COALESCE(CAST(${l} AS VARCHAR), CAST(${r} AS VARCHAR))`;
+    return `${merged} AS ${quoteIdentifier(column.name)}`;
+  });
+
+  const rightKeys = new Set(keys.map(key => key.right));
+  right.columns
+    .filter(column => !rightKeys.has(column.name))
+    .forEach(column => {
+      let name = column.name;
+      if (names.has(name)) name = `${column.name}_${right.table}`;
+      for (let i = 2; names.has(name); i++) name = `${column.name}_${right.table}_${i}`;
+      names.add(name);
+      projection.push(`r.${quoteIdentifier(column.name)} AS ${quoteIdentifier(name)}`);
+    });
+
+  return `SELECT ${projection.join(', ')} FROM ${quoteIdentifier(left.table)} AS l ${JOIN_SQL[type]} ${quoteIdentifier(right.table)} AS r ON ${condition}`;
+}
+
+export function buildCombineQuery(inputs: CombineInput[], spec: CombineSpec): string {
+  if (spec.kind === 'union') return buildUnionQuery(inputs, spec.tagSource);
+  if (inputs.length !== 2) {
+    throw createError('INVALID_INPUT', 'A join combines exactly two datasets');
+  }
+  return buildJoinQuery(inputs[0], inputs[1], spec.type, spec.keys);
+}
+
+export function describeCombination(inputs: CombineInput[], spec: CombineSpec): string {
+  const names = inputs.map(input => input.name);
+  if (spec.kind === 'union') {
+    return `Union of ${names.join(', ')}`;
+  }
+  const keys = spec.keys.map(key => key.left === key.right ? key.left : `${key.left} = ${key.right}`);
+  return `${spec.type[0].toUpperCase()}${spec.type.slice(1)} join of ${names.join(' and ')} on ${keys.join(', ')}`;
+}
+
+/**
+ * Loads datasets into DuckDB tables for combining. Table names are made
+ * unique so two datasets with the same name can still be joined. Streamed
+ * datasets are read from their full table rather than the in-memory
+ * sample, and are refused once that table is gone.
+ */
+export async function registerCombineInputs(datasets: FileData[]): Promise<CombineInput[]> {
+  const duckdb = DuckDBManager.getInstance();
+  const tables = await duckdb.listTables();
+  const used = new Set<string>();
+  const inputs: CombineInput[] = [];
+
+  for (const data of datasets) {
+    if (data.source) {
+      const source = data.source;
+      const info = tables.find(candidate => candidate.name === source.table);
+      if (!info) {
+        throw createError(
+          'INVALID_INPUT',
+          `Only a sample of ${source.sampleSize} of the ${source.rowCount} rows of "${data.name}" is loaded; upload it again to combine every row`
+        );
+      }
+      inputs.push({ name: data.name, table: source.table, columns: info.columns, temporary: false });
+      continue;
+    }
+
+    const base = `combine_${toTableName(data.name)}`;
+    let table = base;
+    for (let i = 2; used.has(table); i++) table = `${base}_${i}`;
+    used.add(table);
+
+    await duckdb.registerFields(table, data.content.fields);
+    const [info] = (await duckdb.listTables()).filter(candidate => candidate.name === table);
+    inputs.push({ name: data.name, table, columns: info?.columns ?? [], temporary: true });
+  }
+
+  return inputs;
+}
+
+export async function previewCombination(
+  inputs: CombineInput[],
+  spec: CombineSpec
+): Promise<CombinePreview> {
+  const duckdb = DuckDBManager.getInstance();
+  const sql = buildCombineQuery(inputs, spec);
+
+  const inputRows = await Promise.all(inputs.map(input => duckdb.countRows(input.table)));
+  const [counted] = await duckdb.query<{ count: number }>(`SELECT COUNT(*) AS count FROM (${sql}) AS q`);
+  const schema = await duckdb.queryArrow(`SELECT * FROM (${sql}) AS q LIMIT 0`);
+
+  const preview: CombinePreview = {
+    inputRows,
+    resultRows: Number(counted?.count ?? 0),
+    columns: schema.schema.fields.map(field => field.name)
+  };
+
+  if (spec.kind === 'join') {
+    const [left, right] = inputs;
+    const condition = joinCondition(left, right, spec.keys);
+    const unmatched = async (from: CombineInput, alias: 'l' | 'r', other: CombineInput) => {
+      const otherAlias = alias === 'l' ? 'r' : 'l';
+      const [row] = await duckdb.query<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM ${quoteIdentifier(from.table)} AS ${alias}
+         WHERE NOT EXISTS (SELECT 1 FROM ${quoteIdentifier(other.table)} AS ${otherAlias} WHERE ${condition})`
+      );
+      return Number(row?.count ?? 0);
+    };
+    preview.unmatched = {
+      left: await unmatched(left, 'l', right),
+      right: await unmatched(right, 'r', left)
+    };
+  }
+
+  return preview;
+}
+
+/**
+ * Runs the combination and reads every resulting row back into memory so
+ * the result can be stored like any uploaded dataset.
+ */
+export async function combineDatasets(
+  inputs: CombineInput[],
+  spec: CombineSpec,
+  name: string
+): Promise<FileData> {
+  if (!name.trim()) {
+    throw createError('INVALID_INPUT', 'Name the combined dataset before saving');
+  }
+
+  const result = await DuckDBManager.getInstance().queryArrow(buildCombineQuery(inputs, spec));
+  if (result.numRows === 0) {
+    throw createError('PROCESSING_FAILED', 'The combination produced no rows');
+  }
+
+  return {
+    type: 'csv',
+    // Unmatched join rows and columns missing from a union are null
+    content: { fields: processData(arrowTableToFields(result), { keepNulls: true }) },
+    name: name.trim()
+  };
+}
+
+export async function releaseCombineInputs(inputs: CombineInput[]): Promise<void> {
+  const duckdb = DuckDBManager.getInstance();
+  await Promise.all(
+    inputs.filter(input => input.temporary !== false).map(input => duckdb.dropTable(input.table))
+  );
+}
@@ -0,0 +1,107 @@
+import type { TableInfo } from './DuckDBManager';
+import { quoteIdentifier } from './sql';
+
+export interface Completion {
+  label: string;
+  // Text that replaces the word being typed
+  insert: string;
+  kind: 'table' | 'column' | 'keyword';
+  detail?: string;
+}
+
+export interface CompletionResult {
+  // Range of the text the chosen completion replaces
+  from: number;
+  to: number;
+  items: Completion[];
+}
+
+export const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'GROUP BY', 'ORDER BY', 'HAVING', 'LIMIT', 'OFFSET',
+  'JOIN', 'LEFT JOIN', 'INNER JOIN', 'ON', 'USING', 'UNION', 'UNION ALL', 'WITH',
+  'AS', 'AND', 'OR', 'NOT', 'IN', 'IS NULL', 'IS NOT NULL', 'LIKE', 'ILIKE', 'BETWEEN',
+  'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'DISTINCT', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX',
+  'DESC', 'ASC', 'CAST', 'DESCRIBE', 'SUMMARIZE'
+];
+
+const MAX_ITEMS = 20;
+const PLAIN_IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+const KEYWORD_SET = new Set(SQL_KEYWORDS.map(keyword => keyword.toLowerCase()));
+
+function toIdentifier(name: string): string {
+  return PLAIN_IDENTIFIER.test(name) && !KEYWORD_SET.has(name) ? name : quoteIdentifier(name);
+}
+
+function unquote(identifier: string): string {
+  return identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier;
+}
+
+function startsWith(name: string, prefix: string): boolean {
+  return name.toLowerCase().startsWith(prefix.toLowerCase());
+}
+
+/**
+ * Suggests table names, column names and keywords for the word at the
+ * cursor. After `table.` only that table's columns are offered; otherwise
+ * columns of tables mentioned in the query rank ahead of keywords.
+ */
+export function getCompletions(text: string, cursor: number, tables: TableInfo[]): CompletionResult {
+  const before = text.slice(0, cursor);
+  // An open quote lets the word contain spaces and punctuation
+  const match = before.match(/(?:([A-Za-z_]\w*|"(?:[^"]|"")+")\.)?("(?:[^"]|"")*|[A-Za-z_]\w*)?$/);
+  const qualifier = match?.[1];
+  const typed = match?.[2] ?? '';
+  const prefix = typed.replace(/^"/, '').replace(/""/g, '"');
+  const from = cursor - typed.length;
+
+  if (qualifier) {
+    const table = tables.find(candidate => candidate.name === unquote(qualifier));
+    const items: Completion[] = (table?.columns ?? [])
+      .filter(column => startsWith(column.name, prefix))
+      .map(column => ({
+        label: column.name,
+        insert: toIdentifier(column.name),
+        kind: 'column',
+        detail: column.sqlType ?? column.type
+      }));
+    return { from, to: cursor, items: items.slice(0, MAX_ITEMS) };
+  }
+
+  if (!prefix) return { from, to: cursor, items: [] };
+
+  const mentioned = tables.filter(table => text.toLowerCase().includes(table.name.toLowerCase()));
+  const seen = new Set<string>();
+  const items: Completion[] = [];
+  const add = (item: Completion) => {
+    const key = `${item.kind}:${item.label}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    items.push(item);
+  };
+
+  mentioned.forEach(table => table.columns
+    .filter(column => startsWith(column.name, prefix))
+    .forEach(column => add({
+      label: column.name,
+      insert: toIdentifier(column.name),
+      kind: 'column',
+      detail: table.name
+    })));
+
+  tables
+    .filter(table => startsWith(table.name, prefix))
+    .forEach(table => add({
+      label: table.name,
+      insert: toIdentifier(table.name),
+      kind: 'table',
+      detail: `${table.rowCount.toLocaleString()} rows`
+    }));
+
+  if (!typed.startsWith('"')) {
+    SQL_KEYWORDS
+      .filter(keyword => startsWith(keyword, prefix))
+      .forEach(keyword => add({ label: keyword, insert: keyword, kind: 'keyword' }));
+  }
+
+  return { from, to: cursor, items: items.slice(0, MAX_ITEMS) };
+}
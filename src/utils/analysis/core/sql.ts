@@ -0,0 +1,43 @@
+import type { DataField } from '@/types/data';
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export function sqlLiteral(value: unknown): string {
+  if (value == null) return 'NULL';
+  if (typeof value === 'number') return isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) return `TIMESTAMP '${value.toISOString().replace('T', ' ').replace('Z', '')}'`;
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+/**
+ * Derives a safe, readable table name from a file or dataset name.
+ */
+export function toTableName(name: string): string {
+  const base = name
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (!base) return 'dataset';
+  return /^[0-9]/.test(base) ? `t_${base}` : base;
+}
+
+export function toSqlType(type: DataField['type']): string {
+  switch (type) {
+    case 'number': return 'DOUBLE';
+    case 'boolean': return 'BOOLEAN';
+    case 'date': return 'TIMESTAMP';
+    default: return 'VARCHAR';
+  }
+}
+
+export function fromSqlType(sqlType: string): DataField['type'] {
+  const type = sqlType.toUpperCase();
+  if (/INT|DOUBLE|FLOAT|DECIMAL|NUMERIC|REAL/.test(type)) return 'number';
+  if (type === 'BOOLEAN') return 'boolean';
+  if (/DATE|TIME/.test(type)) return 'date';
+  return 'string';
+}
@@ -0,0 +1,173 @@
+import type { FileData } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { listLoadedDatasets, addLoadedDatasets } from '@/utils/storage/db';
+import { loadDuckDBRelation } from '@/utils/file/processors/columnar';
+import { DuckDBManager, type TableColumn, type TableInfo } from './DuckDBManager';
+import { QueryExecutor } from './QueryExecutor';
+import { fromSqlType, toTableName } from './sql';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+export interface WorkbenchTable extends TableInfo {
+  // Name of the loaded dataset the table was registered from
+  dataset?: string;
+  // Streamed datasets lose their full table on reload; only the sample is left
+  sampleOnly?: boolean;
+}
+
+export interface QueryPage {
+  columns: TableColumn[];
+  rows: Record<string, unknown>[];
+  totalRows: number;
+  page: number;
+  pageSize: number;
+  executionTime: number;
+  // False for statements such as CREATE TABLE, which are not paged
+  isResultSet: boolean;
+}
+
+const ROW_QUERY = /^(select|with|from|values|table|pivot|unpivot)\b/i;
+
+// Removes comments, leaving quoted strings and identifiers untouched
+function stripComments(sql: string): string {
+  return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\//g, match =>
+    match.startsWith('--') || match.startsWith('/*') ? ' ' : match
+  );
+}
+
+/**
+ * Drops comments and trailing semicolons so the statement can be wrapped
+ * in a subquery without a trailing `-- comment` swallowing the `)`.
+ */
+export function normalizeStatement(sql: string): string {
+  return stripComments(sql).replace(/[\s;]+$/, '').trim();
+}
+
+/**
+ * True for a single statement that returns rows and can be wrapped in a
+ * subquery for paging, counting or saving.
+ */
+export function isRowQuery(sql: string): boolean {
+  const statement = normalizeStatement(sql);
+  return ROW_QUERY.test(statement) && !statement.includes(';');
+}
+
+/**
+ * Makes every dataset loaded this session queryable by its table name
+ * and returns the tables DuckDB knows about.
+ */
+export async function registerLoadedDatasets(): Promise<WorkbenchTable[]> {
+  const duckdb = DuckDBManager.getInstance();
+  const registered = new Set((await duckdb.listTables()).map(table => table.name));
+  const datasets = new Map<string, { name: string; sampleOnly: boolean }>();
+  const loaded = await listLoadedDatasets();
+  // Streamed datasets keep their tables; the others take the first free name
+  const taken = new Set(loaded.flatMap(data => (data.source ? [data.source.table] : [])));
+
+  for (const data of loaded) {
+    let table = data.source?.table;
+    if (!table) {
+      const base = toTableName(data.name);
+      table = base;
+      for (let i = 2; taken.has(table); i++) table = `${base}_${i}`;
+      taken.add(table);
+    }
+    let sampleOnly = false;
+    if (!registered.has(table)) {
+      await duckdb.registerFields(table, data.content.fields);
+      registered.add(table);
+      sampleOnly = !!data.source;
+    }
+    datasets.set(table, { name: data.name, sampleOnly });
+  }
+
+  return (await duckdb.listTables()).map(table => ({
+    ...table,
+    dataset: datasets.get(table.name)?.name,
+    sampleOnly: datasets.get(table.name)?.sampleOnly
+  }));
+}
+
+function columnsOf(rows: Record<string, unknown>[]): TableColumn[] {
+  return Object.keys(rows[0] ?? {}).map(name => ({ name, type: 'string' }));
+}
+
+export async function runQuery(
+  sql: string,
+  page = 0,
+  pageSize = DEFAULT_PAGE_SIZE
+): Promise<QueryPage> {
+  const statement = normalizeStatement(sql);
+  if (!statement) {
+    throw createError('INVALID_INPUT', 'Enter a query to run');
+  }
+
+  const executor = QueryExecutor.getInstance();
+  const start = performance.now();
+
+  if (!isRowQuery(statement)) {
+    const { data } = await executor.executeQuery({ sql: statement });
+    // Statements may have changed tables that cached pages were read from
+    executor.clearCache();
+    return {
+      columns: columnsOf(data),
+      rows: data,
+      totalRows: data.length,
+      page: 0,
+      pageSize: data.length,
+      executionTime: performance.now() - start,
+      isResultSet: false
+    };
+  }
+
+  // Paging through a result re-uses the cached schema and count
+  const options = { useCache: true };
+  const described = await executor.executeQuery({ sql: `DESCRIBE ${statement}`, options });
+  const counted = await executor.executeQuery({
+    sql: `SELECT COUNT(*) AS count FROM (${statement}) AS q`,
+    options
+  });
+  const { data: rows } = await executor.executeQuery({
+    sql: `SELECT * FROM (${statement}) AS q LIMIT ${pageSize} OFFSET ${page * pageSize}`,
+    options
+  });
+
+  return {
+    columns: described.data.map((column: { column_name: string; column_type: string }) => ({
+      name: column.column_name,
+      type: fromSqlType(column.column_type),
+      sqlType: column.column_type
+    })),
+    rows,
+    totalRows: Number(counted.data[0]?.count ?? 0),
+    page,
+    pageSize,
+    executionTime: performance.now() - start,
+    isResultSet: true
+  };
+}
+
+/**
+ * Stores the full result of a query as a new loaded dataset. The result
+ * also stays in DuckDB under the dataset's table name.
+ */
+export async function saveQueryResult(sql: string, name: string): Promise<FileData> {
+  const statement = normalizeStatement(sql);
+  if (!name.trim()) {
+    throw createError('INVALID_INPUT', 'Name the dataset before saving');
+  }
+  if (!isRowQuery(statement)) {
+    throw createError('INVALID_INPUT', 'Only a single query that returns rows can be saved as a dataset');
+  }
+
+  // The result is registered under its dataset's name, so it must not replace another table
+  const table = toTableName(name.trim());
+  if ((await DuckDBManager.getInstance().listTables()).some(existing => existing.name === table)) {
+    throw createError('INVALID_INPUT', `A table named "${table}" already exists; choose another name`);
+  }
+
+  const data = await loadDuckDBRelation(name.trim(), `(${statement})`, { keepTable: true, table });
+  await addLoadedDatasets([data]);
+  QueryExecutor.getInstance().clearCache();
+  return data;
+}
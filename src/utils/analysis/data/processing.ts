@@ -5,7 +5,13 @@ const CHUNK_SIZE = 10000;
 const MEMORY_THRESHOLD = 200 * 1024 * 1024; // 200MB
 const GC_INTERVAL = 10;
 
-export function processData(fields: DataField[]): DataField[] {
+export interface ProcessOptions {
+  // Keep missing and unparseable values as null so that every column
+  // keeps one value per row. Without it they are dropped per column.
+  keepNulls?: boolean;
+}
+
+export function processData(fields: DataField[], options: ProcessOptions = {}): DataField[] {
   if (!fields?.length) {
     throw createError('PROCESSING_FAILED', 'No fields provided for processing');
   }
@@ -32,7 +38,9 @@ export function processData(fields: DataField[]): DataField[] {
       }
 
       // Clean values
-      cleanedValues = cleanValues(field.value, field.type);
+      cleanedValues = options.keepNulls
+        ? field.value.map(value => toValue(value, field.type))
+        : cleanValues(field.value, field.type);
       
       // Handle missing values
       processedValues = processInChunks(cleanedValues);
@@ -83,6 +91,11 @@ function cleanValues(values: any[], type: string): any[] {
     .filter(v => v != null);
 }
 
+function toValue(value: any, type: string): any {
+  if (value == null || value === '') return null;
+  return transformValue(value, type) ?? null;
+}
+
 function transformValue(value: any, type: string): any {
   switch (type) {
     case 'number':
@@ -114,8 +127,8 @@ function transformBoolean(value: any): boolean | null {
   if (typeof value === 'boolean') return value;
   if (typeof value === 'string') {
     const lower = value.toLowerCase().trim();
-    if (['true', '1', 'yes', 'y'].includes(lower)) return true;
-    if (['false', '0', 'no', 'n'].includes(lower)) return false;
+    if (['true', '1', 'yes', 'y', 't'].includes(lower)) return true;
+    if (['false', '0', 'no', 'n', 'f'].includes(lower)) return false;
   }
   return null;
 }
@@ -1,7 +1,8 @@
 import { DataField } from '@/types/data';
+import { isMeasureField } from '../file/columnTypes';
 
 export function inferAnalysisTypes(fields: DataField[]) {
-  const numericFields = fields.filter(f => f.type === 'number');
+  const numericFields = fields.filter(isMeasureField);
   const textFields = fields.filter(f => f.type === 'string');
   const dateFields = fields.filter(f => f.type === 'date');
 
@@ -0,0 +1,67 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { createWorkerCall, type WorkerCall } from '@/utils/core/workerUtils';
+import type { EdgeListOptions } from './graph';
+import {
+  buildCompactGraph,
+  runGraphAlgorithm,
+  summarizeGraph,
+  type CompactGraph,
+  type GraphAlgorithmRequest,
+  type GraphAlgorithmResult,
+  type GraphSummary
+} from './algorithms';
+
+export interface LoadedGraph {
+  summary: GraphSummary;
+  nodes: string[];
+}
+
+/**
+ * Runs graph algorithms in a worker so large graphs do not block the UI.
+ * Falls back to the main thread where workers are unavailable.
+ */
+export class GraphWorkerClient {
+  private worker: WorkerCall | null = null;
+  // Main-thread fallback graph
+  private graph: CompactGraph | null = null;
+
+  constructor() {
+    if (typeof Worker === 'undefined') return;
+    try {
+      const worker = new Worker(new URL('./graph.worker.ts', import.meta.url), { type: 'module' });
+      this.worker = createWorkerCall(worker, 'Graph');
+    } catch (error) {
+      console.error('Error initializing graph worker:', error);
+      this.worker = null;
+    }
+  }
+
+  async load(fields: DataField[], options: EdgeListOptions & { directed?: boolean }): Promise<LoadedGraph> {
+    if (this.worker) {
+      // Only the mapped columns are copied to the worker
+      const names = [options.sourceField, options.targetField, options.weightField].filter(Boolean);
+      return this.worker.call<LoadedGraph>({
+        type: 'load',
+        payload: { fields: fields.filter(field => names.includes(field.name)), options }
+      });
+    }
+    const built = buildCompactGraph(fields, options);
+    this.graph = built.graph;
+    return { summary: summarizeGraph(built.graph, built.skipped), nodes: built.graph.nodes };
+  }
+
+  async run(request: GraphAlgorithmRequest): Promise<GraphAlgorithmResult> {
+    if (this.worker) return this.worker.call<GraphAlgorithmResult>({ type: 'run', payload: request });
+    if (!this.graph) {
+      throw createError('VALIDATION_ERROR', 'Load a graph first');
+    }
+    return runGraphAlgorithm(this.graph, request);
+  }
+
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.graph = null;
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  buildCompactGraph,
+  connectedComponents,
+  findCycle,
+  maxFlow,
+  minimumSpanningTree,
+  shortestPath,
+  summarizeGraph
+} from '../algorithms';
+import type { DataField } from '@/types/data';
+
+function edgeList(edges: Array<[string, string, number]>): DataField[] {
+  return [
+    { name: 'from', type: 'string', value: edges.map(edge => edge[0]) },
+    { name: 'to', type: 'string', value: edges.map(edge => edge[1]) },
+    { name: 'weight', type: 'number', value: edges.map(edge => edge[2]) }
+  ];
+}
+
+const options = { sourceField: 'from', targetField: 'to', weightField: 'weight' };
+
+describe('Graph algorithms', () => {
+  // s-a-t is cheaper than the direct s-t edge; x-y is a separate component
+  const fields = edgeList([
+    ['s', 'a', 1],
+    ['a', 't', 2],
+    ['s', 't', 5],
+    ['a', 'b', 4],
+    ['x', 'y', 1]
+  ]);
+
+  it('should skip self-loops and rows without a weight', () => {
+    const { graph, skipped } = buildCompactGraph([
+      { name: 'from', type: 'string', value: ['a', 'b', 'c'] },
+      { name: 'to', type: 'string', value: ['b', 'b', 'a'] },
+      { name: 'weight', type: 'number', value: [1, 1, null] }
+    ], options);
+    expect(skipped).toBe(2);
+    expect(summarizeGraph(graph, skipped)).toMatchObject({ nodes: 2, edges: 1, skipped: 2 });
+  });
+
+  it('should find the cheapest path', () => {
+    const { graph } = buildCompactGraph(fields, options);
+    expect(shortestPath(graph, 's', 't')).toEqual({ algorithm: 'shortestPath', path: ['s', 'a', 't'], distance: 3 });
+    expect(shortestPath(graph, 's', 'x').path).toBeNull();
+  });
+
+  it('should respect edge direction', () => {
+    const { graph } = buildCompactGraph(fields, { ...options, directed: true });
+    expect(shortestPath(graph, 't', 's').path).toBeNull();
+  });
+
+  it('should list connected components, largest first', () => {
+    const { graph } = buildCompactGraph(fields, options);
+    expect(connectedComponents(graph).components.map(component => component.length)).toEqual([4, 2]);
+  });
+
+  it('should build a minimum spanning forest', () => {
+    const { graph } = buildCompactGraph(fields, options);
+    const tree = minimumSpanningTree(graph);
+    expect(tree.totalWeight).toBe(8);
+    expect(tree.edges).toHaveLength(4);
+    expect(tree.trees).toBe(2);
+  });
+
+  it('should compute the maximum flow', () => {
+    const { graph } = buildCompactGraph(edgeList([
+      ['s', 'a', 10],
+      ['s', 'b', 5],
+      ['a', 'b', 15],
+      ['a', 't', 4],
+      ['b', 't', 10]
+    ]), { ...options, directed: true });
+    const result = maxFlow(graph, 's', 't');
+    expect(result.value).toBe(14);
+    const out = result.flows.filter(flow => flow.source === 's').reduce((sum, flow) => sum + flow.weight, 0);
+    expect(out).toBe(14);
+  });
+
+  it('should detect cycles in directed and undirected graphs', () => {
+    const chain = edgeList([['a', 'b', 1], ['b', 'c', 1], ['a', 'c', 1]]);
+    expect(findCycle(buildCompactGraph(chain, { ...options, directed: true }).graph).cycle).toBeNull();
+    expect(findCycle(buildCompactGraph(chain, options).graph).cycle).toHaveLength(3);
+
+    const loop = edgeList([['a', 'b', 1], ['b', 'c', 1], ['c', 'a', 1]]);
+    expect(findCycle(buildCompactGraph(loop, { ...options, directed: true }).graph).cycle).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should reject unknown nodes', () => {
+    const { graph } = buildCompactGraph(fields, options);
+    expect(() => shortestPath(graph, 's', 'nowhere')).toThrow();
+  });
+});
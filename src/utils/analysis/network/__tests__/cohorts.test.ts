@@ -0,0 +1,79 @@
+import { buildCohorts, cohortMatrixToFields, cumulativeRevenuePerUser, retentionRate } from '../cohorts';
+import type { DataField } from '@/types/data';
+
+describe('Cohort retention', () => {
+  // a and b join in January, c in February; the data ends in March
+  const fields: DataField[] = [
+    { name: 'user', type: 'string', value: ['a', 'b', 'a', 'c', 'a', 'c', 'b'] },
+    {
+      name: 'signed_up',
+      type: 'date',
+      value: ['2024-01-03', '2024-01-20', '2024-01-03', '2024-02-11', '2024-01-03', '2024-02-11', '2024-01-20']
+        .map(date => new Date(date))
+    },
+    {
+      name: 'active_on',
+      type: 'date',
+      value: ['2024-01-05', '2024-01-21', '2024-02-02', '2024-02-12', '2024-03-09', '2024-03-01', '2023-12-30']
+        .map(date => new Date(date))
+    },
+    { name: 'amount', type: 'number', value: [10, 5, 10, 20, 10, 20, 99] }
+  ];
+
+  const matrix = buildCohorts(fields, {
+    userField: 'user',
+    signupField: 'signed_up',
+    activityField: 'active_on',
+    revenueField: 'amount',
+    granularity: 'month'
+  });
+
+  it('should group users into monthly cohorts', () => {
+    expect(matrix.periods).toBe(3);
+    expect(matrix.cohorts.map(cohort => [cohort.label, cohort.size])).toEqual([
+      ['2024-01', 2],
+      ['2024-02', 1]
+    ]);
+  });
+
+  it('should build a retention triangle', () => {
+    expect(matrix.cohorts[0].retained).toEqual([2, 1, 1]);
+    expect(matrix.cohorts[1].retained).toEqual([1, 1, null]);
+    expect(retentionRate(matrix.cohorts[0], 1)).toBe(0.5);
+    expect(retentionRate(matrix.cohorts[1], 2)).toBeNull();
+  });
+
+  it('should ignore activity before signup and sum revenue per period', () => {
+    expect(matrix.cohorts[0].revenue).toEqual([15, 10, 10]);
+    expect(cumulativeRevenuePerUser(matrix.cohorts[0])).toEqual([7.5, 12.5, 17.5]);
+  });
+
+  it('should default signup to the first activity and start weeks on Monday', () => {
+    const weekly = buildCohorts(fields, { userField: 'user', activityField: 'active_on', granularity: 'week' });
+    // 2023-12-30 is a Saturday, so b joins in the week of Monday 2023-12-25
+    expect(weekly.cohorts[0]).toMatchObject({ label: '2023-12-25', size: 1 });
+  });
+
+  it('should export counts or percentages per period', () => {
+    const exported = cohortMatrixToFields(matrix, 'percent');
+    expect(exported.map(field => field.name)).toEqual(['cohort', 'users', 'month_0', 'month_1', 'month_2']);
+    expect(exported[3].value).toEqual([50, 100]);
+    expect(exported[4].value).toEqual([50, null]);
+  });
+
+  it('should reject data without usable rows', () => {
+    expect(() => buildCohorts([
+      { name: 'user', type: 'string', value: ['a'] },
+      { name: 'day', type: 'string', value: ['not a date'] }
+    ], { userField: 'user', activityField: 'day', granularity: 'week' })).toThrow('No rows');
+  });
+
+  it('should reject signups that all come after the activity', () => {
+    expect(() => buildCohorts([
+      { name: 'user', type: 'string', value: ['a', 'b'] },
+      { name: 'signed_up', type: 'date', value: [new Date('2024-05-01'), new Date('2024-06-01')] },
+      { name: 'active_on', type: 'date', value: [new Date('2024-01-01'), new Date('2024-02-01')] }
+    ], { userField: 'user', signupField: 'signed_up', activityField: 'active_on', granularity: 'month' }))
+      .toThrow('after the last activity');
+  });
+});
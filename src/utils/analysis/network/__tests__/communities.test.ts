@@ -0,0 +1,84 @@
+import Graph from 'graphology';
+import { detectCommunities, membershipToFields, withCommunityColumns } from '../communities';
+import { buildCorrelationGraph, buildEdgeListGraph } from '../graph';
+import type { DataField } from '@/types/data';
+
+// Two 4-cliques joined by a single light edge
+function twoCliques(): DataField[] {
+  const edges: Array<[string, string, number]> = [];
+  [['a', 'b', 'c', 'd'], ['e', 'f', 'g', 'h']].forEach(clique => {
+    clique.forEach((source, i) => clique.slice(i + 1).forEach(target => edges.push([source, target, 2])));
+  });
+  edges.push(['d', 'e', 1]);
+  return [
+    { name: 'from', type: 'string', value: edges.map(edge => edge[0]) },
+    { name: 'to', type: 'string', value: edges.map(edge => edge[1]) },
+    { name: 'weight', type: 'number', value: edges.map(edge => edge[2]) }
+  ];
+}
+
+const edgeOptions = { sourceField: 'from', targetField: 'to', weightField: 'weight' };
+
+describe('Community detection', () => {
+  it('should merge repeated edges and skip invalid rows', () => {
+    const { graph, skipped } = buildEdgeListGraph([
+      { name: 'from', type: 'string', value: ['a', 'b', 'a', 'c', null] },
+      { name: 'to', type: 'string', value: ['b', 'a', 'a', 'a', 'b'] },
+      { name: 'weight', type: 'number', value: [1, 2, 1, 0, 1] }
+    ], edgeOptions);
+    expect(graph.size).toBe(1);
+    expect(graph.getEdgeAttribute(graph.edge('a', 'b')!, 'weight')).toBe(3);
+    expect(skipped).toBe(3);
+  });
+
+  it.each(['louvain', 'leiden'] as const)('should split two cliques with %s', algorithm => {
+    const { graph } = buildEdgeListGraph(twoCliques(), edgeOptions);
+    const result = detectCommunities(graph, { algorithm });
+    expect(result.communities).toHaveLength(2);
+    expect(result.communities.map(community => [...community.nodes].sort())).toEqual(
+      expect.arrayContaining([['a', 'b', 'c', 'd'], ['e', 'f', 'g', 'h']])
+    );
+    expect(result.modularity).toBeGreaterThan(0.4);
+    const total = result.communities.reduce((sum, community) => sum + community.modularity, 0);
+    expect(total).toBeCloseTo(result.modularity);
+  });
+
+  it('should merge everything at a very low resolution', () => {
+    const { graph } = buildEdgeListGraph(twoCliques(), edgeOptions);
+    expect(detectCommunities(graph, { algorithm: 'louvain', resolution: 0.01 }).communities).toHaveLength(1);
+  });
+
+  it('should keep isolated nodes in their own community', () => {
+    const graph = new Graph({ type: 'undirected' });
+    graph.addNode('x');
+    graph.addNode('y');
+    const result = detectCommunities(graph, { algorithm: 'leiden' });
+    expect(result.communities).toHaveLength(2);
+    expect(result.modularity).toBe(0);
+  });
+
+  it('should work on the correlation graph', () => {
+    const base = [1, 2, 3, 4, 5, 6];
+    const graph = buildCorrelationGraph([
+      { name: 'x', type: 'number', value: base },
+      { name: 'y', type: 'number', value: base.map(v => v * 2 + 1) },
+      { name: 'z', type: 'number', value: [3, 1, 4, 1, 5, 9] }
+    ]);
+    const result = detectCommunities(graph, { algorithm: 'louvain' });
+    expect(result.membership.x).toBe(result.membership.y);
+  });
+
+  it('should export membership as columns', () => {
+    const fields = twoCliques();
+    const { graph } = buildEdgeListGraph(fields, edgeOptions);
+    const result = detectCommunities(graph, { algorithm: 'leiden' });
+
+    const exported = withCommunityColumns(fields, edgeOptions, result);
+    expect(exported.map(field => field.name)).toEqual(['from', 'to', 'weight', 'source_community', 'target_community']);
+    const last = exported[0].value.length - 1;
+    expect(exported[3].value[last]).not.toBe(exported[4].value[last]);
+
+    const nodes = membershipToFields(result);
+    expect(nodes[0].value).toHaveLength(8);
+  });
+});
@@ -0,0 +1,68 @@
+import { analyzeFunnel, compareFunnels, listEventNames } from '../funnels';
+import type { DataField } from '@/types/data';
+
+const HOUR = 60 * 60 * 1000;
+const at = (hours: number) => new Date(Date.UTC(2024, 0, 1) + hours * HOUR);
+
+describe('Funnel analysis', () => {
+  // a converts fully, b stops at cart, c checks out too late, d never enters
+  const fields: DataField[] = [
+    { name: 'user', type: 'string', value: ['a', 'a', 'a', 'b', 'b', 'c', 'c', 'c', 'd', 'a'] },
+    {
+      name: 'event',
+      type: 'string',
+      value: ['view', 'cart', 'checkout', 'view', 'cart', 'view', 'cart', 'checkout', 'cart', 'view']
+    },
+    { name: 'at', type: 'date', value: [0, 1, 3, 2, 6, 5, 6, 60, 1, 400].map(at) },
+    { name: 'country', type: 'string', value: ['US', 'US', 'US', 'DE', 'DE', 'US', 'US', 'US', 'FR', 'US'] }
+  ];
+
+  const options = {
+    userField: 'user',
+    eventField: 'event',
+    timeField: 'at',
+    steps: ['view', 'cart', 'checkout'],
+    windowMs: 24 * HOUR
+  };
+
+  it('should count users reaching each step within the window', () => {
+    const result = analyzeFunnel(fields, options);
+    expect(result.steps.map(step => step.users)).toEqual([3, 3, 1]);
+    expect(result.steps[2].conversionFromPrevious).toBeCloseTo(1 / 3);
+    expect(result.steps[2].conversionFromStart).toBeCloseTo(1 / 3);
+  });
+
+  it('should report the median time between steps', () => {
+    const result = analyzeFunnel(fields, options);
+    expect(result.steps[0].medianTimeFromPrevious).toBeNull();
+    expect(result.steps[1].medianTimeFromPrevious).toBe(HOUR);
+    expect(result.steps[2].medianTimeFromPrevious).toBe(2 * HOUR);
+  });
+
+  it('should break conversion down by the entry event', () => {
+    const result = analyzeFunnel(fields, { ...options, breakdownField: 'country' });
+    expect(result.breakdown.map(group => [group.value, group.steps.map(step => step.users)])).toEqual([
+      ['US', [2, 2, 1]],
+      ['DE', [1, 1, 0]]
+    ]);
+  });
+
+  it('should compare entries in two date ranges', () => {
+    const [current, previous] = compareFunnels(
+      fields,
+      options,
+      { start: at(4).getTime(), end: at(500).getTime() },
+      { start: at(0).getTime(), end: at(4).getTime() }
+    );
+    expect(current.steps.map(step => step.users)).toEqual([2, 1, 0]);
+    expect(previous.steps.map(step => step.users)).toEqual([2, 2, 1]);
+  });
+
+  it('should reject funnels with fewer than two steps', () => {
+    expect(() => analyzeFunnel(fields, { ...options, steps: ['view'] })).toThrow();
+  });
+
+  it('should list event names by frequency', () => {
+    expect(listEventNames(fields, 'event')[0]).toEqual({ name: 'view', count: 4 });
+  });
+});
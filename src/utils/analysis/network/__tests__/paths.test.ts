@@ -0,0 +1,71 @@
+import { buildSequences, extractPaths, nextSteps, pathsToSankey, topPaths, EXIT_EVENT } from '../paths';
+import type { DataField } from '@/types/data';
+
+describe('Path analysis', () => {
+  // Rows are deliberately out of time order
+  const fields: DataField[] = [
+    { name: 'user', type: 'string', value: ['a', 'a', 'a', 'a', 'b', 'b', 'b', 'c', 'c'] },
+    {
+      name: 'event',
+      type: 'string',
+      value: ['search', 'home', 'search', 'buy', 'home', 'search', 'buy', 'home', 'help']
+    },
+    { name: 'at', type: 'number', value: [2, 1, 3, 4, 1, 2, 3, 1, 2] }
+  ];
+  const options = { userField: 'user', eventField: 'event', timeField: 'at' };
+
+  it('should order each user\'s events by time', () => {
+    expect(buildSequences(fields, options)).toEqual([
+      ['home', 'search', 'search', 'buy'],
+      ['home', 'search', 'buy'],
+      ['home', 'help']
+    ]);
+  });
+
+  it('should collapse repeated events when asked', () => {
+    expect(buildSequences(fields, { ...options, collapseLoops: true })[0]).toEqual(['home', 'search', 'buy']);
+  });
+
+  it('should find the top paths from and to an anchor event', () => {
+    const sequences = buildSequences(fields, { ...options, collapseLoops: true });
+    const from = topPaths(extractPaths(sequences, { anchor: 'home', direction: 'start', maxDepth: 3 }), 5);
+    expect(from).toEqual([
+      { path: ['home', 'search', 'buy'], users: 2 },
+      { path: ['home', 'help'], users: 1 }
+    ]);
+
+    const to = topPaths(extractPaths(sequences, { anchor: 'buy', direction: 'end', maxDepth: 2 }), 5);
+    expect(to).toEqual([{ path: ['search', 'buy'], users: 2 }]);
+  });
+
+  it('should build Sankey links between steps at each depth', () => {
+    const { nodes, links } = pathsToSankey([
+      { path: ['home', 'search', 'home'], users: 2 },
+      { path: ['home', 'help'], users: 1 }
+    ]);
+    expect(nodes.map(node => node.name)).toEqual(['1. home', '2. search', '3. home', '2. help']);
+    expect(links).toEqual([
+      { source: '1. home', target: '2. search', value: 2 },
+      { source: '2. search', target: '3. home', value: 2 },
+      { source: '1. home', target: '2. help', value: 1 }
+    ]);
+  });
+
+  it('should right-align paths that lead up to the anchor', () => {
+    const { nodes } = pathsToSankey([
+      { path: ['home', 'search', 'buy'], users: 1 },
+      { path: ['search', 'buy'], users: 1 }
+    ], 'end');
+    expect(nodes.find(node => node.name.endsWith('buy'))?.depth).toBe(2);
+    expect(nodes.filter(node => node.event === 'buy')).toHaveLength(1);
+  });
+
+  it('should show what happens after an event', () => {
+    const sequences = buildSequences(fields, options);
+    expect(nextSteps(sequences, ['home'])).toEqual([
+      { event: 'search', users: 2, share: 2 / 3 },
+      { event: 'help', users: 1, share: 1 / 3 }
+    ]);
+    expect(nextSteps(sequences, ['home', 'help'])).toEqual([{ event: EXIT_EVENT, users: 1, share: 1 }]);
+  });
+});
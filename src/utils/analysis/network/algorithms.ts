@@ -0,0 +1,485 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { countRows, findField, toKey } from './events';
+import type { EdgeListOptions } from './graph';
+
+// Graph algorithms over a flat edge list. Plain arrays keep the graph cheap
+// to pass to a worker and fast enough for tens of thousands of edges.
+
+export interface CompactGraph {
+  nodes: string[];
+  source: number[];
+  target: number[];
+  weight: number[];
+  directed: boolean;
+}
+
+export interface GraphSummary {
+  nodes: number;
+  edges: number;
+  skipped: number;
+  directed: boolean;
+  density: number;
+  averageDegree: number;
+  maxDegree: number;
+  negativeWeights: boolean;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export type GraphAlgorithmRequest =
+  | { algorithm: 'shortestPath'; from: string; to: string }
+  | { algorithm: 'components' }
+  | { algorithm: 'spanningTree' }
+  | { algorithm: 'maxFlow'; from: string; to: string }
+  | { algorithm: 'cycle' };
+
+export interface ShortestPathResult {
+  algorithm: 'shortestPath';
+  // Null when the target cannot be reached
+  path: string[] | null;
+  distance: number | null;
+}
+
+export interface ComponentsResult {
+  algorithm: 'components';
+  // Weakly connected for directed graphs; largest first
+  components: string[][];
+}
+
+export interface SpanningTreeResult {
+  algorithm: 'spanningTree';
+  edges: GraphEdge[];
+  totalWeight: number;
+  // More than one tree when the graph is disconnected
+  trees: number;
+}
+
+export interface MaxFlowResult {
+  algorithm: 'maxFlow';
+  value: number;
+  // Edges carrying flow, in the direction it flows
+  flows: GraphEdge[];
+}
+
+export interface CycleResult {
+  algorithm: 'cycle';
+  // Nodes of one cycle in order, or null for an acyclic graph
+  cycle: string[] | null;
+}
+
+export type GraphAlgorithmResult =
+  | ShortestPathResult
+  | ComponentsResult
+  | SpanningTreeResult
+  | MaxFlowResult
+  | CycleResult;
+
+/**
+ * Reads an edge list with one row per edge. Self-loops, rows missing an
+ * endpoint and rows without a numeric weight are skipped.
+ */
+export function buildCompactGraph(
+  fields: DataField[],
+  options: EdgeListOptions & { directed?: boolean }
+): { graph: CompactGraph; skipped: number } {
+  const sources = findField(fields, options.sourceField).value;
+  const targets = findField(fields, options.targetField).value;
+  const weights = options.weightField ? findField(fields, options.weightField).value : null;
+
+  const index = new Map<string, number>();
+  const graph: CompactGraph = { nodes: [], source: [], target: [], weight: [], directed: !!options.directed };
+  const nodeIndex = (key: string) => {
+    let i = index.get(key);
+    if (i === undefined) {
+      i = graph.nodes.length;
+      index.set(key, i);
+      graph.nodes.push(key);
+    }
+    return i;
+  };
+
+  let skipped = 0;
+  const rows = countRows(fields);
+  for (let row = 0; row < rows; row++) {
+    const source = toKey(sources[row]);
+    const target = toKey(targets[row]);
+    const weight = weights ? (weights[row] == null || weights[row] === '' ? NaN : Number(weights[row])) : 1;
+    if (source == null || target == null || source === target || !isFinite(weight)) {
+      skipped++;
+      continue;
+    }
+    graph.source.push(nodeIndex(source));
+    graph.target.push(nodeIndex(target));
+    graph.weight.push(weight);
+  }
+
+  if (graph.source.length === 0) {
+    throw createError('VALIDATION_ERROR', 'No rows describe a valid edge');
+  }
+  return { graph, skipped };
+}
+
+// Outgoing edge ids per node; undirected edges appear under both ends
+function adjacency(graph: CompactGraph): number[][] {
+  const adjacent: number[][] = graph.nodes.map(() => []);
+  graph.source.forEach((source, edge) => {
+    adjacent[source].push(edge);
+    if (!graph.directed) adjacent[graph.target[edge]].push(edge);
+  });
+  return adjacent;
+}
+
+function otherEnd(graph: CompactGraph, edge: number, node: number): number {
+  return graph.source[edge] === node ? graph.target[edge] : graph.source[edge];
+}
+
+function toEdge(graph: CompactGraph, from: number, to: number, weight: number): GraphEdge {
+  return { source: graph.nodes[from], target: graph.nodes[to], weight };
+}
+
+function requireNode(graph: CompactGraph, key: string): number {
+  const index = graph.nodes.indexOf(key);
+  if (index === -1) {
+    throw createError('VALIDATION_ERROR', `Node "${key}" is not in the graph`);
+  }
+  return index;
+}
+
+class UnionFind {
+  private parent: number[];
+  private rank: number[];
+
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+    this.rank = new Array<number>(size).fill(0);
+  }
+
+  find(node: number): number {
+    let root = node;
+    while (this.parent[root] !== root) root = this.parent[root];
+    while (this.parent[node] !== root) {
+      const next = this.parent[node];
+      this.parent[node] = root;
+      node = next;
+    }
+    return root;
+  }
+
+  // Returns false when both were already joined
+  union(a: number, b: number): boolean {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) return false;
+    if (this.rank[rootA] < this.rank[rootB]) {
+      this.parent[rootA] = rootB;
+    } else {
+      this.parent[rootB] = rootA;
+      if (this.rank[rootA] === this.rank[rootB]) this.rank[rootA]++;
+    }
+    return true;
+  }
+}
+
+// Binary heap of [priority, node] pairs for Dijkstra
+class MinHeap {
+  private items: Array<[number, number]> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(priority: number, node: number): void {
+    const items = this.items;
+    items.push([priority, node]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export function summarizeGraph(graph: CompactGraph, skipped = 0): GraphSummary {
+  const degree = new Array<number>(graph.nodes.length).fill(0);
+  graph.source.forEach((source, edge) => {
+    degree[source]++;
+    degree[graph.target[edge]]++;
+  });
+  const n = graph.nodes.length;
+  const m = graph.source.length;
+  const possible = graph.directed ? n * (n - 1) : n * (n - 1) / 2;
+  return {
+    nodes: n,
+    edges: m,
+    skipped,
+    directed: graph.directed,
+    density: possible > 0 ? m / possible : 0,
+    averageDegree: n > 0 ? (2 * m) / n : 0,
+    maxDegree: degree.reduce((max, d) => Math.max(max, d), 0),
+    negativeWeights: graph.weight.some(weight => weight < 0)
+  };
+}
+
+/**
+ * Dijkstra's algorithm; edge weights are distances and must not be negative.
+ */
+export function shortestPath(graph: CompactGraph, from: string, to: string): ShortestPathResult {
+  if (graph.weight.some(weight => weight < 0)) {
+    throw createError('VALIDATION_ERROR', 'Shortest paths need non-negative weights');
+  }
+  const start = requireNode(graph, from);
+  const goal = requireNode(graph, to);
+  const adjacent = adjacency(graph);
+  const distance = new Array<number>(graph.nodes.length).fill(Infinity);
+  const previous = new Array<number>(graph.nodes.length).fill(-1);
+  const heap = new MinHeap();
+
+  distance[start] = 0;
+  heap.push(0, start);
+  while (heap.size > 0) {
+    const [d, node] = heap.pop();
+    if (d > distance[node]) continue;
+    if (node === goal) break;
+    adjacent[node].forEach(edge => {
+      const next = otherEnd(graph, edge, node);
+      const candidate = d + graph.weight[edge];
+      if (candidate < distance[next]) {
+        distance[next] = candidate;
+        previous[next] = node;
+        heap.push(candidate, next);
+      }
+    });
+  }
+
+  if (distance[goal] === Infinity) {
+    return { algorithm: 'shortestPath', path: null, distance: null };
+  }
+  const path: string[] = [];
+  for (let node = goal; node !== -1; node = previous[node]) path.push(graph.nodes[node]);
+  return { algorithm: 'shortestPath', path: path.reverse(), distance: distance[goal] };
+}
+
+export function connectedComponents(graph: CompactGraph): ComponentsResult {
+  const sets = new UnionFind(graph.nodes.length);
+  graph.source.forEach((source, edge) => sets.union(source, graph.target[edge]));
+
+  const groups = new Map<number, string[]>();
+  graph.nodes.forEach((node, i) => {
+    const root = sets.find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(node);
+  });
+  return {
+    algorithm: 'components',
+    components: [...groups.values()].sort((a, b) => b.length - a.length)
+  };
+}
+
+/**
+ * Kruskal's algorithm, ignoring edge direction. A disconnected graph gets
+ * a minimum spanning forest.
+ */
+export function minimumSpanningTree(graph: CompactGraph): SpanningTreeResult {
+  const order = graph.weight.map((_, edge) => edge).sort((a, b) => graph.weight[a] - graph.weight[b]);
+  const sets = new UnionFind(graph.nodes.length);
+  const edges: GraphEdge[] = [];
+  let totalWeight = 0;
+
+  for (const edge of order) {
+    if (!sets.union(graph.source[edge], graph.target[edge])) continue;
+    edges.push(toEdge(graph, graph.source[edge], graph.target[edge], graph.weight[edge]));
+    totalWeight += graph.weight[edge];
+    if (edges.length === graph.nodes.length - 1) break;
+  }
+
+  return { algorithm: 'spanningTree', edges, totalWeight, trees: graph.nodes.length - edges.length };
+}
+
+/**
+ * Dinic's algorithm with edge weights as capacities. Undirected edges can
+ * carry flow either way.
+ */
+export function maxFlow(graph: CompactGraph, from: string, to: string): MaxFlowResult {
+  if (graph.weight.some(weight => weight < 0)) {
+    throw createError('VALIDATION_ERROR', 'Capacities must not be negative');
+  }
+  const source = requireNode(graph, from);
+  const sink = requireNode(graph, to);
+  if (source === sink) {
+    throw createError('VALIDATION_ERROR', 'Choose different source and sink nodes');
+  }
+
+  // Arc 2e runs along edge e and arc 2e+1 against it
+  const n = graph.nodes.length;
+  const m = graph.source.length;
+  const head = new Array<number>(2 * m);
+  const capacity = new Array<number>(2 * m);
+  const arcs: number[][] = Array.from({ length: n }, () => []);
+  for (let edge = 0; edge < m; edge++) {
+    head[2 * edge] = graph.target[edge];
+    head[2 * edge + 1] = graph.source[edge];
+    capacity[2 * edge] = graph.weight[edge];
+    capacity[2 * edge + 1] = graph.directed ? 0 : graph.weight[edge];
+    arcs[graph.source[edge]].push(2 * edge);
+    arcs[graph.target[edge]].push(2 * edge + 1);
+  }
+
+  const level = new Array<number>(n);
+  const buildLevels = () => {
+    level.fill(-1);
+    level[source] = 0;
+    const queue = [source];
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i];
+      for (const arc of arcs[node]) {
+        if (capacity[arc] > 0 && level[head[arc]] === -1) {
+          level[head[arc]] = level[node] + 1;
+          queue.push(head[arc]);
+        }
+      }
+    }
+    return level[sink] !== -1;
+  };
+
+  let value = 0;
+  const next = new Array<number>(n);
+  while (buildLevels()) {
+    next.fill(0);
+    // Find augmenting paths along the level graph without recursion
+    for (;;) {
+      const path: number[] = [];
+      let node = source;
+      while (node !== sink) {
+        let arc = -1;
+        while (next[node] < arcs[node].length) {
+          const candidate = arcs[node][next[node]];
+          if (capacity[candidate] > 0 && level[head[candidate]] === level[node] + 1) {
+            arc = candidate;
+            break;
+          }
+          next[node]++;
+        }
+        if (arc !== -1) {
+          path.push(arc);
+          node = head[arc];
+          continue;
+        }
+        // Dead end: drop the node from this phase and step back
+        level[node] = -1;
+        if (path.length === 0) break;
+        node = head[path.pop()! ^ 1];
+        next[node]++;
+      }
+      if (node !== sink) break;
+
+      const bottleneck = path.reduce((min, arc) => Math.min(min, capacity[arc]), Infinity);
+      path.forEach(arc => {
+        capacity[arc] -= bottleneck;
+        capacity[arc ^ 1] += bottleneck;
+      });
+      value += bottleneck;
+    }
+  }
+
+  const flows: GraphEdge[] = [];
+  for (let edge = 0; edge < m; edge++) {
+    // Net flow along the edge; negative means it ran backwards
+    const flow = graph.weight[edge] - capacity[2 * edge];
+    if (flow > 0) flows.push(toEdge(graph, graph.source[edge], graph.target[edge], flow));
+    if (flow < 0) flows.push(toEdge(graph, graph.target[edge], graph.source[edge], -flow));
+  }
+
+  return { algorithm: 'maxFlow', value, flows: flows.sort((a, b) => b.weight - a.weight) };
+}
+
+/**
+ * Depth-first search for a back edge. In undirected graphs the edge just
+ * walked is not counted, but a repeated pair of nodes is a cycle.
+ */
+export function findCycle(graph: CompactGraph): CycleResult {
+  const adjacent = adjacency(graph);
+  // 0 unvisited, 1 on the current path, 2 finished
+  const state = new Array<number>(graph.nodes.length).fill(0);
+  const parent = new Array<number>(graph.nodes.length).fill(-1);
+  const viaEdge = new Array<number>(graph.nodes.length).fill(-1);
+  const next = new Array<number>(graph.nodes.length).fill(0);
+
+  for (let root = 0; root < graph.nodes.length; root++) {
+    if (state[root] !== 0) continue;
+    const stack = [root];
+    state[root] = 1;
+
+    while (stack.length > 0) {
+      const node = stack[stack.length - 1];
+      if (next[node] === adjacent[node].length) {
+        state[node] = 2;
+        stack.pop();
+        continue;
+      }
+
+      const edge = adjacent[node][next[node]++];
+      if (!graph.directed && edge === viaEdge[node]) continue;
+      const neighbour = graph.directed ? graph.target[edge] : otherEnd(graph, edge, node);
+
+      if (state[neighbour] === 1) {
+        const cycle = [graph.nodes[neighbour]];
+        const path: string[] = [];
+        for (let current = node; current !== neighbour; current = parent[current]) {
+          path.push(graph.nodes[current]);
+        }
+        return { algorithm: 'cycle', cycle: [...cycle, ...path.reverse()] };
+      }
+      if (state[neighbour] === 0) {
+        state[neighbour] = 1;
+        parent[neighbour] = node;
+        viaEdge[neighbour] = edge;
+        stack.push(neighbour);
+      }
+    }
+  }
+
+  return { algorithm: 'cycle', cycle: null };
+}
+
+export function runGraphAlgorithm(graph: CompactGraph, request: GraphAlgorithmRequest): GraphAlgorithmResult {
+  switch (request.algorithm) {
+    case 'shortestPath':
+      return shortestPath(graph, request.from, request.to);
+    case 'components':
+      return connectedComponents(graph);
+    case 'spanningTree':
+      return minimumSpanningTree(graph);
+    case 'maxFlow':
+      return maxFlow(graph, request.from, request.to);
+    case 'cycle':
+      return findCycle(graph);
+  }
+}
@@ -0,0 +1,170 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { countRows, findField, toKey, toTime } from './events';
+
+export type CohortGranularity = 'week' | 'month';
+
+export interface CohortOptions {
+  userField: string;
+  activityField: string;
+  // Defaults to each user's first activity
+  signupField?: string;
+  revenueField?: string;
+  granularity: CohortGranularity;
+}
+
+export interface Cohort {
+  label: string;
+  start: Date;
+  size: number;
+  // Users active n periods after joining; null where not yet observable
+  retained: Array<number | null>;
+  revenue: Array<number | null>;
+}
+
+export interface CohortMatrix {
+  granularity: CohortGranularity;
+  periods: number;
+  cohorts: Cohort[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Periods are counted in UTC; weeks start on Monday
+function periodIndex(time: number, granularity: CohortGranularity): number {
+  const date = new Date(time);
+  if (granularity === 'month') {
+    return date.getUTCFullYear() * 12 + date.getUTCMonth();
+  }
+  const days = Math.floor(time / DAY);
+  // 1970-01-01 was a Thursday, so shift by 3 days to land weeks on Monday
+  return Math.floor((days + 3) / 7);
+}
+
+function periodStart(index: number, granularity: CohortGranularity): Date {
+  if (granularity === 'month') {
+    return new Date(Date.UTC(Math.floor(index / 12), index % 12, 1));
+  }
+  return new Date((index * 7 - 3) * DAY);
+}
+
+function periodLabel(start: Date, granularity: CohortGranularity): string {
+  const iso = start.toISOString();
+  return granularity === 'month' ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+/**
+ * Groups users by the period they signed up in and counts how many of
+ * them were active in each later period. Each row is one activity.
+ */
+export function buildCohorts(fields: DataField[], options: CohortOptions): CohortMatrix {
+  const users = findField(fields, options.userField).value;
+  const activity = findField(fields, options.activityField).value;
+  const signup = options.signupField ? findField(fields, options.signupField).value : null;
+  const revenue = options.revenueField ? findField(fields, options.revenueField).value : null;
+
+  const rows = countRows(fields);
+  const joined = new Map<string, number>();
+  const events: Array<{ user: string; period: number; revenue: number }> = [];
+  let lastPeriod = -Infinity;
+
+  for (let i = 0; i < rows; i++) {
+    const user = toKey(users[i]);
+    const time = toTime(activity[i]);
+    if (user == null || time == null) continue;
+
+    const period = periodIndex(time, options.granularity);
+    const signupTime = signup ? toTime(signup[i]) : time;
+    if (signupTime != null) {
+      const signupPeriod = periodIndex(signupTime, options.granularity);
+      joined.set(user, Math.min(joined.get(user) ?? Infinity, signupPeriod));
+    }
+
+    events.push({ user, period, revenue: revenue ? Number(revenue[i]) || 0 : 0 });
+    lastPeriod = Math.max(lastPeriod, period);
+  }
+
+  if (events.length === 0 || joined.size === 0) {
+    throw createError('VALIDATION_ERROR', 'No rows have both a user and a valid date');
+  }
+
+  const cohortPeriods = [...new Set(joined.values())].sort((a, b) => a - b);
+  const periods = lastPeriod - cohortPeriods[0] + 1;
+  if (periods < 1) {
+    throw createError('VALIDATION_ERROR', 'Every signup date is after the last activity');
+  }
+  const byCohort = new Map(cohortPeriods.map(period => [period, {
+    members: new Set<string>(),
+    active: Array.from({ length: periods }, () => new Set<string>()),
+    revenue: new Array<number>(periods).fill(0)
+  }]));
+
+  joined.forEach((period, user) => byCohort.get(period)!.members.add(user));
+
+  events.forEach(event => {
+    const cohortPeriod = joined.get(event.user);
+    if (cohortPeriod == null) return;
+    const offset = event.period - cohortPeriod;
+    // Activity logged before the recorded signup is ignored
+    if (offset < 0) return;
+    const cohort = byCohort.get(cohortPeriod)!;
+    cohort.active[offset].add(event.user);
+    cohort.revenue[offset] += event.revenue;
+  });
+
+  return {
+    granularity: options.granularity,
+    periods,
+    cohorts: cohortPeriods.map(period => {
+      const cohort = byCohort.get(period)!;
+      const observable = lastPeriod - period + 1;
+      const start = periodStart(period, options.granularity);
+      return {
+        label: periodLabel(start, options.granularity),
+        start,
+        size: cohort.members.size,
+        retained: cohort.active.map((users, offset) => offset < observable ? users.size : null),
+        revenue: cohort.revenue.map((total, offset) => offset < observable ? total : null)
+      };
+    })
+  };
+}
+
+export function retentionRate(cohort: Cohort, offset: number): number | null {
+  const retained = cohort.retained[offset];
+  return retained == null || cohort.size === 0 ? null : retained / cohort.size;
+}
+
+/**
+ * Running revenue per cohort member, the usual way to compare how quickly
+ * cohorts pay back.
+ */
+export function cumulativeRevenuePerUser(cohort: Cohort): Array<number | null> {
+  let total = 0;
+  return cohort.revenue.map(value => {
+    if (value == null) return null;
+    total += value;
+    return cohort.size ? total / cohort.size : 0;
+  });
+}
+
+/**
+ * Flattens the matrix to one row per cohort and one column per period,
+ * holding either user counts or retention percentages.
+ */
+export function cohortMatrixToFields(matrix: CohortMatrix, view: 'count' | 'percent'): DataField[] {
+  const prefix = matrix.granularity === 'month' ? 'month' : 'week';
+  return [
+    { name: 'cohort', type: 'string', value: matrix.cohorts.map(cohort => cohort.label) },
+    { name: 'users', type: 'number', value: matrix.cohorts.map(cohort => cohort.size) },
+    ...Array.from({ length: matrix.periods }, (_, offset): DataField => ({
+      name: `${prefix}_${offset}`,
+      type: 'number',
+      value: matrix.cohorts.map(cohort => {
+        if (view === 'count') return cohort.retained[offset];
+        const rate = retentionRate(cohort, offset);
+        return rate == null ? null : Math.round(rate * 10000) / 100;
+      })
+    }))
+  ];
+}
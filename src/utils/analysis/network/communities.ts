@@ -0,0 +1,328 @@
+import type Graph from 'graphology';
+import modularity from 'graphology-metrics/graph/modularity';
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { findField, toKey } from './events';
+import type { EdgeListOptions } from './graph';
+
+export type CommunityAlgorithm = 'louvain' | 'leiden';
+
+export interface CommunityOptions {
+  algorithm: CommunityAlgorithm;
+  // Above 1 favours smaller communities, below 1 larger ones
+  resolution?: number;
+}
+
+export interface Community {
+  id: number;
+  nodes: string[];
+  // This community's share of the total modularity
+  modularity: number;
+}
+
+export interface CommunityResult {
+  algorithm: CommunityAlgorithm;
+  // Node key to community id; ids are ordered by community size
+  membership: Record<string, number>;
+  communities: Community[];
+  modularity: number;
+}
+
+// Aggregated graph: node i links to each neighbour with a summed weight.
+// Internal weight is kept as a self-loop counted from both ends.
+interface Level {
+  adjacency: Array<Map<number, number>>;
+  degree: number[];
+  // Twice the total edge weight
+  total: number;
+}
+
+const EPSILON = 1e-12;
+
+function toLevel(graph: Graph): { level: Level; keys: string[] } {
+  const keys = graph.nodes();
+  const index = new Map(keys.map((key, i) => [key, i]));
+  const adjacency = keys.map(() => new Map<number, number>());
+
+  graph.forEachEdge((_, attributes, source, target) => {
+    const weight = Number(attributes.weight ?? 1);
+    if (!(weight > 0)) return;
+    const s = index.get(source)!;
+    const t = index.get(target)!;
+    adjacency[s].set(t, (adjacency[s].get(t) ?? 0) + weight);
+    adjacency[t].set(s, (adjacency[t].get(s) ?? 0) + weight);
+  });
+
+  return { level: withDegrees(adjacency), keys };
+}
+
+function withDegrees(adjacency: Array<Map<number, number>>): Level {
+  const degree = adjacency.map(neighbours => [...neighbours.values()].reduce((sum, w) => sum + w, 0));
+  return { adjacency, degree, total: degree.reduce((sum, d) => sum + d, 0) };
+}
+
+function gain(level: Level, weightTo: number, communityTotal: number, node: number, resolution: number): number {
+  return weightTo - resolution * communityTotal * level.degree[node] / level.total;
+}
+
+/**
+ * Moves single nodes to the neighbouring community with the best
+ * modularity gain until no move helps. Returns whether anything moved.
+ */
+function moveNodes(level: Level, partition: number[], resolution: number): boolean {
+  const totals = new Map<number, number>();
+  partition.forEach((community, node) => {
+    totals.set(community, (totals.get(community) ?? 0) + level.degree[node]);
+  });
+
+  let changed = false;
+  let moved = true;
+  while (moved) {
+    moved = false;
+    for (let node = 0; node < partition.length; node++) {
+      const current = partition[node];
+      const weights = new Map<number, number>([[current, 0]]);
+      level.adjacency[node].forEach((weight, neighbour) => {
+        if (neighbour === node) return;
+        const community = partition[neighbour];
+        weights.set(community, (weights.get(community) ?? 0) + weight);
+      });
+
+      totals.set(current, totals.get(current)! - level.degree[node]);
+      let best = current;
+      let bestGain = gain(level, weights.get(current)!, totals.get(current)!, node, resolution);
+      weights.forEach((weight, community) => {
+        const candidate = gain(level, weight, totals.get(community)!, node, resolution);
+        if (candidate > bestGain + EPSILON) {
+          best = community;
+          bestGain = candidate;
+        }
+      });
+
+      totals.set(best, totals.get(best)! + level.degree[node]);
+      if (best !== current) {
+        partition[node] = best;
+        moved = true;
+        changed = true;
+      }
+    }
+  }
+  return changed;
+}
+
+/**
+ * Leiden refinement: splits each community into sub-communities built
+ * only from well-connected merges, so every community stays connected.
+ */
+function refine(level: Level, partition: number[], resolution: number): number[] {
+  const refined = partition.map((_, node) => node);
+  const refinedTotal = level.degree.slice();
+  const members = new Map<number, number[]>();
+  partition.forEach((community, node) => {
+    if (!members.has(community)) members.set(community, []);
+    members.get(community)!.push(node);
+  });
+
+  members.forEach(nodes => {
+    const inCommunity = new Set(nodes);
+    const communityTotal = nodes.reduce((sum, node) => sum + level.degree[node], 0);
+    // Weight from each refined group to the rest of its community
+    const external = new Map<number, number>();
+    nodes.forEach(node => {
+      let weight = 0;
+      level.adjacency[node].forEach((w, neighbour) => {
+        if (neighbour !== node && inCommunity.has(neighbour)) weight += w;
+      });
+      external.set(node, weight);
+    });
+    const wellConnected = (group: number, total: number) =>
+      external.get(group)! >= resolution * total * (communityTotal - total) / level.total - EPSILON;
+
+    const singleton = new Set(nodes);
+    nodes.forEach(node => {
+      if (!singleton.has(node) || !wellConnected(node, level.degree[node])) return;
+
+      const weights = new Map<number, number>();
+      level.adjacency[node].forEach((weight, neighbour) => {
+        if (neighbour === node || !inCommunity.has(neighbour)) return;
+        const group = refined[neighbour];
+        weights.set(group, (weights.get(group) ?? 0) + weight);
+      });
+
+      let best = node;
+      let bestGain = 0;
+      weights.forEach((weight, group) => {
+        if (group === node || !wellConnected(group, refinedTotal[group])) return;
+        const candidate = gain(level, weight, refinedTotal[group], node, resolution);
+        if (candidate > bestGain + EPSILON) {
+          best = group;
+          bestGain = candidate;
+        }
+      });
+      if (best === node) return;
+
+      // Links between the node and its new group are no longer external
+      let joined = 0;
+      let toCommunity = 0;
+      level.adjacency[node].forEach((weight, neighbour) => {
+        if (neighbour === node || !inCommunity.has(neighbour)) return;
+        toCommunity += weight;
+        if (refined[neighbour] === best) joined += weight;
+      });
+      refined[node] = best;
+      refinedTotal[best] += level.degree[node];
+      external.set(best, external.get(best)! + toCommunity - 2 * joined);
+      singleton.delete(node);
+      singleton.delete(best);
+    });
+  });
+
+  return refined;
+}
+
+// Renumbers community labels to 0..n-1 in order of first appearance
+function compact(partition: number[]): { labels: number[]; count: number } {
+  const ids = new Map<number, number>();
+  const labels = partition.map(community => {
+    if (!ids.has(community)) ids.set(community, ids.size);
+    return ids.get(community)!;
+  });
+  return { labels, count: ids.size };
+}
+
+function aggregate(level: Level, labels: number[], count: number): Level {
+  const adjacency = Array.from({ length: count }, () => new Map<number, number>());
+  level.adjacency.forEach((neighbours, node) => {
+    const from = labels[node];
+    neighbours.forEach((weight, neighbour) => {
+      const to = labels[neighbour];
+      adjacency[from].set(to, (adjacency[from].get(to) ?? 0) + weight);
+    });
+  });
+  return withDegrees(adjacency);
+}
+
+/**
+ * Finds communities by greedy modularity optimisation. Louvain repeatedly
+ * moves nodes and merges communities into single nodes; Leiden adds a
+ * refinement step that keeps communities internally connected. Node order
+ * is fixed, so the same graph always gives the same result.
+ */
+export function detectCommunities(graph: Graph, options: CommunityOptions): CommunityResult {
+  if (graph.order === 0) {
+    throw createError('VALIDATION_ERROR', 'The graph has no nodes');
+  }
+  const resolution = options.resolution ?? 1;
+  if (!(resolution > 0)) {
+    throw createError('VALIDATION_ERROR', 'Resolution must be positive');
+  }
+
+  const { level: base, keys } = toLevel(graph);
+  let level = base;
+  // Aggregated node each original node currently belongs to
+  let membership = keys.map((_, node) => node);
+  let partition = membership.slice();
+
+  if (level.total > 0) {
+    for (;;) {
+      const changed = moveNodes(level, partition, resolution);
+      const grouped = compact(partition);
+      if (!changed || grouped.count === level.adjacency.length) break;
+
+      // Aggregate by the refined partition unless refinement merged nothing
+      const refined = options.algorithm === 'leiden' ? compact(refine(level, partition, resolution)) : grouped;
+      const next = refined.count < level.adjacency.length ? refined : grouped;
+
+      const nextPartition = new Array<number>(next.count);
+      next.labels.forEach((label, node) => {
+        nextPartition[label] = grouped.labels[node];
+      });
+      membership = membership.map(node => next.labels[node]);
+      level = aggregate(level, next.labels, next.count);
+      partition = nextPartition;
+    }
+  }
+
+  const { labels } = compact(membership.map(node => partition[node]));
+  const groups = new Map<number, string[]>();
+  labels.forEach((label, node) => {
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label)!.push(keys[node]);
+  });
+  const ordered = [...groups.values()].sort((a, b) => b.length - a.length);
+
+  const result: Record<string, number> = {};
+  ordered.forEach((nodes, id) => nodes.forEach(node => {
+    result[node] = id;
+  }));
+
+  const contributions = communityModularity(graph, result, ordered.length, resolution);
+  return {
+    algorithm: options.algorithm,
+    membership: result,
+    communities: ordered.map((nodes, id) => ({ id, nodes, modularity: contributions[id] })),
+    modularity: base.total > 0
+      ? modularity(graph, { getNodeCommunity: node => result[node], resolution })
+      : 0
+  };
+}
+
+// Per-community terms of the modularity sum, in one pass over the edges
+function communityModularity(
+  graph: Graph,
+  membership: Record<string, number>,
+  count: number,
+  resolution: number
+): number[] {
+  const internal = new Array<number>(count).fill(0);
+  const total = new Array<number>(count).fill(0);
+  let weightSum = 0;
+  graph.forEachEdge((_, attributes, source, target) => {
+    const weight = Number(attributes.weight ?? 1);
+    weightSum += weight;
+    if (membership[source] === membership[target]) internal[membership[source]] += weight;
+    total[membership[source]] += weight;
+    total[membership[target]] += weight;
+  });
+  if (weightSum === 0) return internal;
+  return internal.map((weight, id) => weight / weightSum - resolution * (total[id] / (2 * weightSum)) ** 2);
+}
+
+/**
+ * One row per node with its community, for saving as a dataset.
+ */
+export function membershipToFields(result: CommunityResult, nodeColumn = 'node'): DataField[] {
+  const nodes = Object.keys(result.membership);
+  return [
+    { name: nodeColumn, type: 'string', value: nodes },
+    { name: 'community', type: 'number', value: nodes.map(node => result.membership[node]) }
+  ];
+}
+
+/**
+ * Copies an edge-list dataset and adds the community of each row's source
+ * and target. Rows that were skipped when building the graph get null.
+ */
+export function withCommunityColumns(
+  fields: DataField[],
+  options: EdgeListOptions,
+  result: CommunityResult
+): DataField[] {
+  const lookup = (field: string) => findField(fields, field).value.map(value => {
+    const key = toKey(value);
+    return key != null && key in result.membership ? result.membership[key] : null;
+  });
+  const names = new Set(fields.map(field => field.name));
+  const column = (base: string) => {
+    let name = base;
+    for (let i = 2; names.has(name); i++) name = `${base}_${i}`;
+    names.add(name);
+    return name;
+  };
+
+  return [
+    ...fields,
+    { name: column('source_community'), type: 'number', value: lookup(options.sourceField) },
+    { name: column('target_community'), type: 'number', value: lookup(options.targetField) }
+  ];
+}
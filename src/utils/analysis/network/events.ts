@@ -0,0 +1,34 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+
+// Helpers shared by the event-based analyses (cohorts, funnels, paths),
+// which read one row per user action from column-oriented fields.
+
+export function findField(fields: DataField[], name: string): DataField {
+  const field = fields.find(candidate => candidate.name === name);
+  if (!field) {
+    throw createError('VALIDATION_ERROR', `Column "${name}" not found`);
+  }
+  return field;
+}
+
+export function countRows(fields: DataField[]): number {
+  return fields.reduce((max, field) => Math.max(max, field.value.length), 0);
+}
+
+/**
+ * Reads a cell as epoch milliseconds. Accepts Dates, date strings and
+ * epoch numbers; anything else is treated as missing.
+ */
+export function toTime(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.getTime();
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  const parsed = Date.parse(String(value));
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function toKey(value: unknown): string | null {
+  if (value == null || value === '') return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
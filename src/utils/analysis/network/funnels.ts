@@ -0,0 +1,187 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { calculateMedian } from '@/utils/statistics/calculations';
+import { countRows, findField, toKey, toTime } from './events';
+
+export interface DateRange {
+  // Epoch milliseconds; start is inclusive, end exclusive
+  start: number;
+  end: number;
+}
+
+export interface FunnelOptions {
+  userField: string;
+  eventField: string;
+  timeField: string;
+  steps: string[];
+  // Time allowed from entering the funnel to completing the last step
+  windowMs: number;
+  breakdownField?: string;
+  // Only users who entered the funnel within this range are counted
+  range?: DateRange;
+}
+
+export interface FunnelStepResult {
+  step: string;
+  users: number;
+  conversionFromPrevious: number;
+  conversionFromStart: number;
+  // Median milliseconds from the previous step; null for the first step
+  medianTimeFromPrevious: number | null;
+}
+
+export interface FunnelBreakdown {
+  value: string;
+  steps: FunnelStepResult[];
+}
+
+export interface FunnelResult {
+  steps: FunnelStepResult[];
+  breakdown: FunnelBreakdown[];
+}
+
+interface FunnelEvent {
+  step: string;
+  time: number;
+  row: number;
+}
+
+interface Journey {
+  // Time each step was reached, in step order
+  times: number[];
+  // Row of the entry event, which supplies the breakdown value
+  row: number;
+}
+
+export const MISSING_BREAKDOWN = '(none)';
+
+/**
+ * Follows one user from a given entry event, taking the earliest matching
+ * event for each step as long as it falls within the window.
+ */
+function walk(events: FunnelEvent[], start: number, steps: string[], windowMs: number): Journey {
+  const entry = events[start];
+  const times = [entry.time];
+  for (let i = start + 1; i < events.length && times.length < steps.length; i++) {
+    const event = events[i];
+    if (event.time - entry.time > windowMs) break;
+    if (event.step === steps[times.length]) times.push(event.time);
+  }
+  return { times, row: entry.row };
+}
+
+/**
+ * Picks the attempt that got furthest through the funnel, preferring the
+ * earliest one on ties, so repeat visitors are counted once.
+ */
+function bestJourney(events: FunnelEvent[], options: FunnelOptions): Journey | null {
+  let best: Journey | null = null;
+  events.forEach((event, index) => {
+    if (event.step !== options.steps[0]) return;
+    if (options.range && (event.time < options.range.start || event.time >= options.range.end)) return;
+    const journey = walk(events, index, options.steps, options.windowMs);
+    if (!best || journey.times.length > best.times.length) best = journey;
+  });
+  return best;
+}
+
+function summarize(journeys: Journey[], steps: string[]): FunnelStepResult[] {
+  const entered = journeys.length;
+  return steps.map((step, index) => {
+    const reached = journeys.filter(journey => journey.times.length > index);
+    const previous = index === 0
+      ? entered
+      : journeys.filter(journey => journey.times.length > index - 1).length;
+    return {
+      step,
+      users: reached.length,
+      conversionFromPrevious: previous ? reached.length / previous : 0,
+      conversionFromStart: entered ? reached.length / entered : 0,
+      medianTimeFromPrevious: index === 0 || reached.length === 0
+        ? null
+        : calculateMedian(reached.map(journey => journey.times[index] - journey.times[index - 1]))
+    };
+  });
+}
+
+/**
+ * Counts how many users completed each step of an ordered funnel. Each row
+ * is one event; steps must happen in order, other events in between are
+ * ignored, and all steps must fall within the conversion window.
+ */
+export function analyzeFunnel(fields: DataField[], options: FunnelOptions): FunnelResult {
+  if (options.steps.length < 2) {
+    throw createError('VALIDATION_ERROR', 'A funnel needs at least two steps');
+  }
+  if (!(options.windowMs > 0)) {
+    throw createError('VALIDATION_ERROR', 'The conversion window must be positive');
+  }
+
+  const users = findField(fields, options.userField).value;
+  const names = findField(fields, options.eventField).value;
+  const times = findField(fields, options.timeField).value;
+  const breakdown = options.breakdownField ? findField(fields, options.breakdownField).value : null;
+  const stepNames = new Set(options.steps);
+
+  const byUser = new Map<string, FunnelEvent[]>();
+  const rows = countRows(fields);
+  for (let row = 0; row < rows; row++) {
+    const user = toKey(users[row]);
+    const step = toKey(names[row]);
+    const time = toTime(times[row]);
+    if (user == null || step == null || time == null || !stepNames.has(step)) continue;
+    const events = byUser.get(user) ?? [];
+    events.push({ step, time, row });
+    byUser.set(user, events);
+  }
+
+  const journeys: Journey[] = [];
+  byUser.forEach(events => {
+    // Row order breaks ties between events logged at the same instant
+    events.sort((a, b) => a.time - b.time || a.row - b.row);
+    const journey = bestJourney(events, options);
+    if (journey) journeys.push(journey);
+  });
+
+  const groups = new Map<string, Journey[]>();
+  if (breakdown) {
+    journeys.forEach(journey => {
+      const value = toKey(breakdown[journey.row]) ?? MISSING_BREAKDOWN;
+      groups.set(value, [...(groups.get(value) ?? []), journey]);
+    });
+  }
+
+  return {
+    steps: summarize(journeys, options.steps),
+    breakdown: [...groups.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([value, group]) => ({ value, steps: summarize(group, options.steps) }))
+  };
+}
+
+/**
+ * Runs the same funnel over two entry date ranges, e.g. this month
+ * against last month.
+ */
+export function compareFunnels(
+  fields: DataField[],
+  options: Omit<FunnelOptions, 'range'>,
+  current: DateRange,
+  previous: DateRange
+): [FunnelResult, FunnelResult] {
+  return [
+    analyzeFunnel(fields, { ...options, range: current }),
+    analyzeFunnel(fields, { ...options, range: previous })
+  ];
+}
+
+export function listEventNames(fields: DataField[], eventField: string): Array<{ name: string; count: number }> {
+  const counts = new Map<string, number>();
+  findField(fields, eventField).value.forEach(value => {
+    const name = toKey(value);
+    if (name != null) counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count);
+}
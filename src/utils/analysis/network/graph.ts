@@ -0,0 +1,71 @@
+import Graph from 'graphology';
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { countRows, findField, toKey } from './events';
+import { NetworkAnalysis } from './NetworkAnalysis';
+
+export interface EdgeListOptions {
+  sourceField: string;
+  targetField: string;
+  // Every edge weighs 1 when omitted
+  weightField?: string;
+}
+
+export interface EdgeListGraph {
+  graph: Graph;
+  // Rows without both endpoints, self-loops and non-positive weights
+  skipped: number;
+}
+
+/**
+ * Builds an undirected weighted graph with one row per edge. Repeated
+ * pairs are merged and their weights added up.
+ */
+export function buildEdgeListGraph(fields: DataField[], options: EdgeListOptions): EdgeListGraph {
+  const sources = findField(fields, options.sourceField).value;
+  const targets = findField(fields, options.targetField).value;
+  const weights = options.weightField ? findField(fields, options.weightField).value : null;
+
+  const graph = new Graph({ type: 'undirected' });
+  let skipped = 0;
+  const rows = countRows(fields);
+
+  for (let row = 0; row < rows; row++) {
+    const source = toKey(sources[row]);
+    const target = toKey(targets[row]);
+    const weight = weights ? Number(weights[row]) : 1;
+    if (source == null || target == null || source === target || !(weight > 0)) {
+      skipped++;
+      continue;
+    }
+
+    graph.mergeNode(source);
+    graph.mergeNode(target);
+    graph.updateEdge(source, target, attributes => ({
+      weight: (attributes.weight ?? 0) + weight
+    }));
+  }
+
+  if (graph.size === 0) {
+    throw createError('VALIDATION_ERROR', 'No rows describe a valid edge');
+  }
+
+  return { graph, skipped };
+}
+
+/**
+ * Graph of numeric columns linked by their absolute correlation, as found
+ * by the network analysis.
+ */
+export function buildCorrelationGraph(fields: DataField[]): Graph {
+  const { nodes, edges } = new NetworkAnalysis(fields).analyze();
+  const graph = new Graph({ type: 'undirected' });
+
+  nodes.forEach(node => graph.addNode(node.id));
+  edges.forEach(edge => graph.addEdge(edge.source, edge.target, {
+    weight: edge.weight,
+    correlation: edge.correlation
+  }));
+
+  return graph;
+}
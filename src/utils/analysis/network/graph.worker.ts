@@ -0,0 +1,49 @@
+/// <reference lib="webworker" />
+
+import type { DataField } from '@/types/data';
+import type { EdgeListOptions } from './graph';
+import {
+  buildCompactGraph,
+  runGraphAlgorithm,
+  summarizeGraph,
+  type CompactGraph,
+  type GraphAlgorithmRequest
+} from './algorithms';
+
+// Keeps the last loaded graph so algorithms can run without resending it
+let graph: CompactGraph | null = null;
+
+self.onmessage = (e: MessageEvent) => {
+  const { id, type, payload } = e.data as {
+    id: number;
+    type: 'load' | 'run';
+    payload: any;
+  };
+
+  try {
+    if (type === 'load') {
+      const { fields, options } = payload as { fields: DataField[]; options: EdgeListOptions & { directed?: boolean } };
+      const built = buildCompactGraph(fields, options);
+      graph = built.graph;
+      self.postMessage({
+        id,
+        type: 'complete',
+        payload: { summary: summarizeGraph(built.graph, built.skipped), nodes: built.graph.nodes }
+      });
+      return;
+    }
+
+    if (!graph) throw new Error('Load a graph first');
+    self.postMessage({
+      id,
+      type: 'complete',
+      payload: runGraphAlgorithm(graph, payload as GraphAlgorithmRequest)
+    });
+  } catch (error) {
+    self.postMessage({
+      id,
+      type: 'error',
+      payload: error instanceof Error ? error.message : 'Graph analysis failed'
+    });
+  }
+};
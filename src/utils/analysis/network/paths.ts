@@ -0,0 +1,171 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { countRows, findField, toKey, toTime } from './events';
+
+export type PathDirection = 'start' | 'end';
+
+export interface SequenceOptions {
+  userField: string;
+  eventField: string;
+  timeField: string;
+  // Treat repeats of the same event in a row as one step
+  collapseLoops?: boolean;
+}
+
+export interface PathOptions {
+  anchor: string;
+  // Paths starting at the anchor, or paths leading up to it
+  direction: PathDirection;
+  // Number of steps including the anchor
+  maxDepth: number;
+}
+
+export interface PathCount {
+  path: string[];
+  users: number;
+}
+
+export interface SankeyNode {
+  // Unique per depth so the diagram stays acyclic when events repeat
+  name: string;
+  event: string;
+  depth: number;
+}
+
+export interface SankeyLink {
+  source: string;
+  target: string;
+  value: number;
+}
+
+export interface NextStep {
+  event: string;
+  users: number;
+  share: number;
+}
+
+// Marks users whose journey ends, used by the drill-down
+export const EXIT_EVENT = '(exit)';
+
+/**
+ * Reads an event log into one time-ordered event sequence per user.
+ */
+export function buildSequences(fields: DataField[], options: SequenceOptions): string[][] {
+  const users = findField(fields, options.userField).value;
+  const names = findField(fields, options.eventField).value;
+  const times = findField(fields, options.timeField).value;
+
+  const byUser = new Map<string, Array<{ event: string; time: number; row: number }>>();
+  const rows = countRows(fields);
+  for (let row = 0; row < rows; row++) {
+    const user = toKey(users[row]);
+    const event = toKey(names[row]);
+    const time = toTime(times[row]);
+    if (user == null || event == null || time == null) continue;
+    const events = byUser.get(user) ?? [];
+    events.push({ event, time, row });
+    byUser.set(user, events);
+  }
+
+  if (byUser.size === 0) {
+    throw createError('VALIDATION_ERROR', 'No rows have a user, an event and a valid timestamp');
+  }
+
+  return [...byUser.values()].map(events => {
+    events.sort((a, b) => a.time - b.time || a.row - b.row);
+    const sequence = events.map(event => event.event);
+    return options.collapseLoops
+      ? sequence.filter((event, i) => i === 0 || event !== sequence[i - 1])
+      : sequence;
+  });
+}
+
+/**
+ * Cuts each sequence around the user's first visit to the anchor event.
+ * Users who never reach the anchor are left out.
+ */
+export function extractPaths(sequences: string[][], options: PathOptions): string[][] {
+  if (options.maxDepth < 2) {
+    throw createError('VALIDATION_ERROR', 'Paths need a depth of at least two steps');
+  }
+
+  return sequences.flatMap(sequence => {
+    const index = sequence.indexOf(options.anchor);
+    if (index === -1) return [];
+    return [options.direction === 'start'
+      ? sequence.slice(index, index + options.maxDepth)
+      : sequence.slice(Math.max(0, index - options.maxDepth + 1), index + 1)];
+  });
+}
+
+export function topPaths(paths: string[][], limit: number): PathCount[] {
+  const counts = new Map<string, PathCount>();
+  paths.forEach(path => {
+    const key = JSON.stringify(path);
+    const entry = counts.get(key) ?? { path, users: 0 };
+    entry.users++;
+    counts.set(key, entry);
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.users - a.users || a.path.length - b.path.length)
+    .slice(0, limit);
+}
+
+/**
+ * Turns counted paths into Sankey nodes and links. Paths leading up to an
+ * anchor are right-aligned so the anchor always sits in the last column.
+ */
+export function pathsToSankey(
+  paths: PathCount[],
+  direction: PathDirection = 'start'
+): { nodes: SankeyNode[]; links: SankeyLink[] } {
+  const maxLength = paths.reduce((max, entry) => Math.max(max, entry.path.length), 0);
+  const nodes = new Map<string, SankeyNode>();
+  const links = new Map<string, SankeyLink>();
+
+  const nodeFor = (event: string, depth: number) => {
+    const name = `${depth + 1}. ${event}`;
+    if (!nodes.has(name)) nodes.set(name, { name, event, depth });
+    return name;
+  };
+
+  paths.forEach(({ path, users }) => {
+    const offset = direction === 'end' ? maxLength - path.length : 0;
+    path.forEach((event, i) => {
+      const target = nodeFor(event, offset + i);
+      if (i === 0) return;
+      const source = nodeFor(path[i - 1], offset + i - 1);
+      const key = `${source}\u0000${target}`;
+      const link = links.get(key) ?? { source, target, value: 0 };
+      link.value += users;
+      links.set(key, link);
+    });
+  });
+
+  return { nodes: [...nodes.values()], links: [...links.values()] };
+}
+
+/**
+ * What users did right after following `prefix` from its first event,
+ * including those who stopped there.
+ */
+export function nextSteps(sequences: string[][], prefix: string[]): NextStep[] {
+  if (prefix.length === 0) {
+    throw createError('VALIDATION_ERROR', 'Choose an event to drill into');
+  }
+
+  const counts = new Map<string, number>();
+  let total = 0;
+  sequences.forEach(sequence => {
+    const start = sequence.indexOf(prefix[0]);
+    if (start === -1) return;
+    if (prefix.some((event, i) => sequence[start + i] !== event)) return;
+    const next = sequence[start + prefix.length] ?? EXIT_EVENT;
+    counts.set(next, (counts.get(next) ?? 0) + 1);
+    total++;
+  });
+
+  return [...counts.entries()]
+    .map(([event, users]) => ({ event, users, share: total ? users / total : 0 }))
+    .sort((a, b) => b.users - a.users);
+}
@@ -0,0 +1,174 @@
+import { parseQuery, describeColumns, QueryColumn } from '../queryParser';
+import { translateQuery } from '../querySql';
+
+const columns: QueryColumn[] = [
+  { name: 'order_date', type: 'date' },
+  { name: 'region', type: 'string', values: ['EMEA', 'APAC', 'North America'] },
+  { name: 'product_category', type: 'string', values: ['Hardware', 'Software'] },
+  { name: 'revenue', type: 'number' },
+  { name: 'unit_price', type: 'number' },
+  { name: 'quantity', type: 'number' },
+  { name: 'customer_id', type: 'string' }
+];
+
+function parse(query: string) {
+  const { intent, error } = parseQuery(query, columns);
+  if (!intent) throw new Error(error);
+  return intent;
+}
+
+function sql(query: string) {
+  return translateQuery(parse(query), 'sales', columns);
+}
+
+describe('parseQuery', () => {
+  it('should read an aggregation with a group and a filter', () => {
+    const intent = parse('average revenue by region where product category is Hardware');
+    expect(intent.measures).toEqual([{ aggregation: 'avg', column: 'revenue' }]);
+    expect(intent.groupBy).toEqual({ column: 'region' });
+    expect(intent.filters).toEqual([{ column: 'product_category', operator: '=', values: ['Hardware'] }]);
+  });
+
+  it('should group dates by a time granularity', () => {
+    const intent = parse('total sales by month in 2023');
+    expect(intent.measures).toEqual([{ aggregation: 'sum', column: 'revenue' }]);
+    expect(intent.groupBy).toEqual({ column: 'order_date', granularity: 'month' });
+    expect(intent.filters).toEqual([{ column: 'order_date', operator: '=', values: [2023], part: 'year' }]);
+    expect(intent.order).toEqual({ target: 'group', direction: 'asc' });
+    expect(intent.notes).toContain('Read "sales" as revenue');
+  });
+
+  it('should resolve misspelt and plural column names', () => {
+    const intent = parse('sum of revnue per regions');
+    expect(intent.measures).toEqual([{ aggregation: 'sum', column: 'revenue' }]);
+    expect(intent.groupBy).toEqual({ column: 'region' });
+    expect(intent.notes).toContain('Read "revnue" as revenue');
+  });
+
+  it('should use custom synonyms', () => {
+    const { intent } = parseQuery('total turnover by territory', columns, { synonyms: { region: ['territory'] } });
+    expect(intent?.groupBy).toEqual({ column: 'region' });
+  });
+
+  it('should rank groups for top-N questions', () => {
+    const intent = parse('top 3 regions by revenue');
+    expect(intent.groupBy).toEqual({ column: 'region' });
+    expect(intent.measures).toEqual([{ aggregation: 'sum', column: 'revenue' }]);
+    expect(intent.order).toEqual({ target: 'measure', column: 'revenue', direction: 'desc' });
+    expect(intent.limit).toBe(3);
+  });
+
+  it('should answer which group has the highest value', () => {
+    const intent = parse('Which region has the highest revenue?');
+    expect(intent.measures).toEqual([{ aggregation: 'sum', column: 'revenue' }]);
+    expect(intent.order?.direction).toBe('desc');
+    expect(intent.limit).toBe(1);
+  });
+
+  it('should take the maximum when nothing is grouped', () => {
+    expect(parse("what's the highest unit price").measures).toEqual([{ aggregation: 'max', column: 'unit_price' }]);
+  });
+
+  it('should read numeric comparisons and ranges', () => {
+    expect(parse('orders with quantity of at least 10 and unit price under 2.5k').filters).toEqual([
+      { column: 'quantity', operator: '>=', values: [10] },
+      { column: 'unit_price', operator: '<', values: [2500] }
+    ]);
+    expect(parse('revenue between 100 and 200').filters).toEqual([
+      { column: 'revenue', operator: 'between', values: [100, 200] }
+    ]);
+  });
+
+  it('should compare values of a column', () => {
+    const intent = parse('compare revenue for EMEA vs APAC');
+    expect(intent.groupBy).toEqual({ column: 'region' });
+    expect(intent.filters).toEqual([{ column: 'region', operator: 'in', values: ['EMEA', 'APAC'] }]);
+  });
+
+  it('should match multi-word values and typed values case-insensitively', () => {
+    expect(parse('revenue in north america').filters[0]).toEqual({ column: 'region', operator: '=', values: ['North America'] });
+    expect(parse('count where region is latam').filters[0]).toEqual(
+      { column: 'region', operator: '=', values: ['latam'], caseInsensitive: true }
+    );
+  });
+
+  it('should count rows and distinct values', () => {
+    expect(parse('how many orders per region').measures).toEqual([{ aggregation: 'count', column: null }]);
+    expect(parse('number of customers').measures).toEqual([{ aggregation: 'count_distinct', column: 'customer_id' }]);
+  });
+
+  it('should read correlations and distributions', () => {
+    expect(parse('correlation between unit price and quantity').measures).toEqual([
+      { aggregation: 'corr', column: 'unit_price', with: 'quantity' }
+    ]);
+    expect(parse('distribution of unit price').histogram).toEqual({ column: 'unit_price', bins: 10 });
+  });
+
+  it('should explain questions it cannot map to columns', () => {
+    const result = parseQuery('what is the weather like', columns);
+    expect(result.intent).toBeNull();
+    expect(result.error).toContain('order_date');
+  });
+});
+
+describe('translateQuery', () => {
+  it('should translate a grouped, filtered and ranked question', () => {
+    const result = sql('top 3 product categories by revenue in EMEA');
+    expect(result.sql).toBe(
+      'SELECT "product_category" AS "product_category", SUM("revenue") AS "Total revenue" FROM "sales" ' +
+      'WHERE "region" = \'EMEA\' GROUP BY 1 ORDER BY "Total revenue" DESC NULLS LAST LIMIT 3'
+    );
+    expect(result.description).toBe('Total revenue by product_category where region = "EMEA", top 3');
+    expect(result.chart).toEqual({
+      type: 'bar',
+      title: 'Total revenue by product_category',
+      x: 'product_category',
+      y: ['Total revenue']
+    });
+  });
+
+  it('should chart time groups as lines', () => {
+    const result = sql('monthly revenue');
+    expect(result.sql).toContain(`STRFTIME(DATE_TRUNC('month', "order_date"), '%Y-%m') AS "Month"`);
+    expect(result.sql).toContain('ORDER BY 1 ASC');
+    expect(result.chart.type).toBe('line');
+  });
+
+  it('should return a single metric without a group', () => {
+    const result = sql('average unit price where region is latam');
+    expect(result.sql).toBe('SELECT AVG("unit_price") AS "Average unit_price" FROM "sales" WHERE LOWER("region") = \'latam\'');
+    expect(result.chart.type).toBe('metric');
+  });
+
+  it('should count groups when a correlation names only one column', () => {
+    const result = sql('correlation of revenue by region');
+    expect(result.sql).toBe('SELECT "region" AS "region", COUNT(*) AS "Count" FROM "sales" GROUP BY 1 ORDER BY "Count" DESC NULLS LAST LIMIT 100');
+  });
+
+  it('should list matching rows when nothing is aggregated', () => {
+    const result = sql('top 5 by quantity');
+    expect(result.sql).toBe('SELECT * FROM "sales" ORDER BY "quantity" DESC NULLS LAST LIMIT 5');
+  });
+
+  it('should escape values', () => {
+    const result = translateQuery(
+      { ...parse('count'), filters: [{ column: 'region', operator: '=', values: ["O'Brien"] }] },
+      'sales',
+      columns
+    );
+    expect(result.sql).toContain(`"region" = 'O''Brien'`);
+  });
+});
+
+describe('describeColumns', () => {
+  it('should keep distinct values of text columns only while they are few', () => {
+    const described = describeColumns([
+      { name: 'region', type: 'string', value: ['EMEA', 'APAC', 'EMEA', null] },
+      { name: 'id', type: 'string', value: ['a', 'b', 'c'] },
+      { name: 'revenue', type: 'number', value: [1, 2] }
+    ], 2);
+    expect(described[0].values).toEqual(['EMEA', 'APAC']);
+    expect(described[1].values).toBeUndefined();
+    expect(described[2].values).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { processNaturalLanguageQuery } from '../queryProcessor';
+import { DuckDBManager } from '../../core/DuckDBManager';
+import { useNodeDuckDB } from '@/tests/nodeDuckDB';
+import type { DataField, DataSource } from '@/types/data';
+
+// The executor runs queries in a browser worker; here they go straight to DuckDB
+jest.mock('../../core/QueryExecutor', () => ({
+  QueryExecutor: {
+    getInstance: () => ({
+      executeQuery: async ({ sql }: { sql: string }) => ({
+        data: await jest.requireActual('../../core/DuckDBManager').DuckDBManager.getInstance().query(sql)
+      })
+    })
+  }
+}));
+
+describe('processNaturalLanguageQuery', () => {
+  const duckdb = DuckDBManager.getInstance();
+  // The in-memory sample of a streamed upload: two of its four rows
+  const sample: DataField[] = [
+    { name: 'region', type: 'string', value: ['EMEA', 'APAC'] },
+    { name: 'amount', type: 'number', value: [10, 20] }
+  ];
+  const source: DataSource = { kind: 'duckdb', table: 'streamed_orders', rowCount: 4, sampleSize: 2 };
+
+  beforeAll(async () => {
+    await useNodeDuckDB();
+    await duckdb.registerFields('streamed_orders', [
+      { name: 'region', type: 'string', value: ['EMEA', 'APAC', 'EMEA', 'EMEA'] },
+      { name: 'amount', type: 'number', value: [10, 20, 30, 40] }
+    ]);
+  });
+
+  afterAll(async () => {
+    await duckdb.dropTable('streamed_orders');
+  });
+
+  it('should answer streamed datasets from their full table', async () => {
+    const response = await processNaturalLanguageQuery('total amount', sample, { source });
+
+    expect(response.error).toBeUndefined();
+    expect(response.interpretation?.sql).toContain('FROM "streamed_orders"');
+    expect(Object.values(response.rows![0])).toEqual([100]);
+  });
+
+  it('should say when only the sample is left to answer from', async () => {
+    const response = await processNaturalLanguageQuery('total amount', sample, {
+      source: { ...source, table: 'dropped_orders' }
+    });
+
+    expect(Object.values(response.rows![0])).toEqual([30]);
+    expect(response.interpretation?.notes.join(' ')).toContain('sample of 2 of 4 rows');
+  });
+});
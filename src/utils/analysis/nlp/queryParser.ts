@@ -0,0 +1,783 @@
+import type { DataField, SemanticType } from '@/types/data';
+
+export type Aggregation = 'sum' | 'avg' | 'min' | 'max' | 'median' | 'count' | 'count_distinct' | 'corr';
+export type TimeGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'between' | 'in' | 'contains';
+
+export interface QueryColumn {
+  name: string;
+  type: DataField['type'];
+  semantic?: SemanticType;
+  // Distinct values of text columns, used to recognise "EMEA" as a region
+  values?: string[];
+}
+
+export interface Measure {
+  aggregation: Aggregation;
+  // null for COUNT(*)
+  column: string | null;
+  // Second column of a correlation
+  with?: string;
+}
+
+export interface GroupBy {
+  column: string;
+  granularity?: TimeGranularity;
+}
+
+export interface Filter {
+  column: string;
+  operator: FilterOperator;
+  values: (string | number | boolean)[];
+  // Compare the year of a date column, as in "in 2023"
+  part?: 'year';
+  // The value was typed by the user rather than found in the column
+  caseInsensitive?: boolean;
+}
+
+export interface QueryOrder {
+  target: 'measure' | 'group' | 'column';
+  column?: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface QueryIntent {
+  measures: Measure[];
+  groupBy: GroupBy | null;
+  filters: Filter[];
+  order: QueryOrder | null;
+  limit: number | null;
+  histogram: { column: string; bins: number } | null;
+  // How loosely matched words were read, e.g. "revnue" as revenue
+  notes: string[];
+}
+
+export interface ParseResult {
+  intent: QueryIntent | null;
+  error?: string;
+}
+
+export interface ParseOptions {
+  // Extra names per column, e.g. { amount: ['spend'] }
+  synonyms?: Record<string, string[]>;
+}
+
+// Common business vocabulary; a column containing the key also answers to its synonyms
+const DEFAULT_SYNONYMS: Record<string, string[]> = {
+  revenue: ['sales', 'income', 'turnover'],
+  sales: ['revenue', 'turnover'],
+  amount: ['spend'],
+  quantity: ['qty', 'units', 'volume'],
+  price: ['unit price'],
+  customer: ['client', 'buyer'],
+  region: ['area', 'territory', 'zone'],
+  country: ['nation'],
+  product: ['item', 'sku'],
+  profit: ['margin', 'earnings'],
+  employee: ['staff', 'worker'],
+  category: ['type', 'kind', 'segment'],
+  date: ['time', 'timestamp']
+};
+
+type Keyword =
+  | { kind: 'aggregation'; aggregation: Aggregation }
+  | { kind: 'superlative'; direction: 'asc' | 'desc' }
+  | { kind: 'rank'; direction: 'asc' | 'desc' }
+  | { kind: 'group' }
+  | { kind: 'granularity'; granularity: TimeGranularity; adjective: boolean }
+  | { kind: 'overTime' }
+  | { kind: 'filter' }
+  | { kind: 'operator'; operator: FilterOperator }
+  | { kind: 'is' }
+  | { kind: 'not' }
+  | { kind: 'between' }
+  | { kind: 'and' }
+  | { kind: 'or' }
+  | { kind: 'in' }
+  | { kind: 'compare' }
+  | { kind: 'correlation' }
+  | { kind: 'distribution' }
+  | { kind: 'order' }
+  | { kind: 'direction'; direction: 'asc' | 'desc' }
+  | { kind: 'limit' };
+
+type Item =
+  | { type: 'keyword'; keyword: Keyword; text: string }
+  | { type: 'column'; column: QueryColumn; text: string }
+  | { type: 'value'; column: QueryColumn; value: string; text: string }
+  | { type: 'number'; value: number; text: string }
+  | { type: 'string'; value: string; text: string }
+  | { type: 'word'; text: string };
+
+const agg = (aggregation: Aggregation): Keyword => ({ kind: 'aggregation', aggregation });
+const op = (operator: FilterOperator): Keyword => ({ kind: 'operator', operator });
+const gran = (granularity: TimeGranularity, adjective = false): Keyword => ({ kind: 'granularity', granularity, adjective });
+
+// Phrases are matched longest first, so "over time" wins over "over"
+const KEYWORDS: Record<string, Keyword> = {
+  'sum': agg('sum'), 'total': agg('sum'), 'how much': agg('sum'),
+  'average': agg('avg'), 'avg': agg('avg'), 'mean': agg('avg'), 'typical': agg('avg'),
+  'minimum': agg('min'), 'min': agg('min'),
+  'maximum': agg('max'), 'max': agg('max'),
+  'median': agg('median'),
+  'count': agg('count'), 'number of': agg('count'), 'how many': agg('count'),
+  'unique': agg('count_distinct'), 'distinct': agg('count_distinct'),
+  'highest': { kind: 'superlative', direction: 'desc' }, 'largest': { kind: 'superlative', direction: 'desc' },
+  'biggest': { kind: 'superlative', direction: 'desc' }, 'most': { kind: 'superlative', direction: 'desc' },
+  'best': { kind: 'superlative', direction: 'desc' },
+  'lowest': { kind: 'superlative', direction: 'asc' }, 'smallest': { kind: 'superlative', direction: 'asc' },
+  'least': { kind: 'superlative', direction: 'asc' }, 'worst': { kind: 'superlative', direction: 'asc' },
+  'top': { kind: 'rank', direction: 'desc' }, 'bottom': { kind: 'rank', direction: 'asc' },
+  'by': { kind: 'group' }, 'per': { kind: 'group' }, 'each': { kind: 'group' }, 'for each': { kind: 'group' },
+  'grouped by': { kind: 'group' }, 'broken down by': { kind: 'group' }, 'split by': { kind: 'group' },
+  'across': { kind: 'group' }, 'for every': { kind: 'group' },
+  'day': gran('day'), 'week': gran('week'), 'month': gran('month'), 'quarter': gran('quarter'), 'year': gran('year'),
+  'daily': gran('day', true), 'weekly': gran('week', true), 'monthly': gran('month', true),
+  'quarterly': gran('quarter', true), 'yearly': gran('year', true), 'annual': gran('year', true),
+  'over time': { kind: 'overTime' }, 'trend': { kind: 'overTime' }, 'trends': { kind: 'overTime' },
+  'timeline': { kind: 'overTime' }, 'history': { kind: 'overTime' },
+  'where': { kind: 'filter' }, 'with': { kind: 'filter' }, 'when': { kind: 'filter' },
+  'whose': { kind: 'filter' }, 'having': { kind: 'filter' }, 'that have': { kind: 'filter' }, 'only': { kind: 'filter' },
+  '>': op('>'), 'greater than': op('>'), 'more than': op('>'), 'higher than': op('>'), 'larger than': op('>'),
+  'above': op('>'), 'over': op('>'), 'exceeds': op('>'), 'exceeding': op('>'), 'after': op('>'),
+  '>=': op('>='), 'at least': op('>='), 'no less than': op('>='), 'since': op('>='),
+  '<': op('<'), 'less than': op('<'), 'fewer than': op('<'), 'lower than': op('<'), 'smaller than': op('<'),
+  'below': op('<'), 'under': op('<'), 'before': op('<'),
+  '<=': op('<='), 'at most': op('<='), 'no more than': op('<='), 'up to': op('<='),
+  '=': op('='), 'equals': op('='), 'equal to': op('='), 'is equal to': op('='),
+  '!=': op('!='), '<>': op('!='), 'is not': op('!='), 'isnt': op('!='), 'not equal to': op('!='),
+  'other than': op('!='), 'excluding': op('!='), 'except': op('!='),
+  'contains': op('contains'), 'containing': op('contains'), 'like': op('contains'), 'includes': op('contains'),
+  'is': { kind: 'is' }, 'are': { kind: 'is' }, 'was': { kind: 'is' }, 'were': { kind: 'is' },
+  'not': { kind: 'not' }, 'between': { kind: 'between' },
+  'and': { kind: 'and' }, '&': { kind: 'and' }, ',': { kind: 'and' },
+  'or': { kind: 'or' },
+  'in': { kind: 'in' }, 'for': { kind: 'in' }, 'from': { kind: 'in' }, 'during': { kind: 'in' }, 'of': { kind: 'in' },
+  'compare': { kind: 'compare' }, 'comparing': { kind: 'compare' }, 'comparison': { kind: 'compare' },
+  'vs': { kind: 'compare' }, 'versus': { kind: 'compare' }, 'against': { kind: 'compare' },
+  'correlation': { kind: 'correlation' }, 'correlate': { kind: 'correlation' }, 'correlated': { kind: 'correlation' },
+  'relationship': { kind: 'correlation' },
+  'distribution': { kind: 'distribution' }, 'histogram': { kind: 'distribution' }, 'spread': { kind: 'distribution' },
+  'sorted by': { kind: 'order' }, 'sort by': { kind: 'order' }, 'ordered by': { kind: 'order' },
+  'order by': { kind: 'order' }, 'ranked by': { kind: 'order' }, 'rank by': { kind: 'order' },
+  'ascending': { kind: 'direction', direction: 'asc' }, 'asc': { kind: 'direction', direction: 'asc' },
+  'descending': { kind: 'direction', direction: 'desc' }, 'desc': { kind: 'direction', direction: 'desc' },
+  'limit': { kind: 'limit' }, 'first': { kind: 'limit' }
+};
+
+const MAX_PHRASE = 4;
+const KEYWORD_PHRASES = Object.keys(KEYWORDS).sort((a, b) => b.split(' ').length - a.split(' ').length);
+
+const STOPWORDS = new Set([
+  'what', 'whats', 'which', 'who', 'show', 'me', 'give', 'list', 'find', 'get', 'display', 'tell', 'plot', 'chart',
+  'the', 'a', 'an', 'to', 'do', 'does', 'did', 'we', 'our', 'my', 'i', 'us', 'has', 'have', 'had', 'there',
+  'all', 'rows', 'records', 'data', 'dataset', 'value', 'values', 'please', 'can', 'you', 'it', 'its', 'on', 'at',
+  'than', 'as', 'that', 'this', 'these', 'those', 'be', 'been', 'being', 'how', 'much', 'many', 'then'
+]);
+
+// Columns averaged rather than summed when no aggregation is named
+const AVERAGED_COLUMN = /(rate|ratio|price|score|percent|pct|avg|average|mean|age|temp|rating|margin)/i;
+
+export function normalizeName(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[_\-./]+/g, ' ')
+    .replace(/[^\p{L}\p{N} ]/gu, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+}
+
+function singularize(word: string): string {
+  if (word.length <= 3 || /ss$|us$|is$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+}
+
+interface Token {
+  text: string;
+  kind: 'word' | 'number' | 'string' | 'op';
+  value?: number;
+}
+
+const TOKEN = /"([^"]*)"|'([^']*)'|(\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+Z?)?)|(>=|<=|!=|<>|=|>|<|&|,)|(-?\d{1,3}(?:,\d{3})+(?:\.\d+)?|-?\d+(?:\.\d+)?)(%|k|m|bn)?(?![\p{L}\d])|([\p{L}\p{N}][\p{L}\p{N}_'.\-@]*)/giu;
+
+const MULTIPLIERS: Record<string, number> = { '%': 1, k: 1e3, m: 1e6, bn: 1e9 };
+
+function tokenize(query: string): Token[] {
+  // Contractions would otherwise read as quoted strings
+  const text = query.replace(/(\p{L})'(s|t|re|ve|ll|d)\b/giu, '$1$2');
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN)) {
+    const [, double, single, date, symbol, number, suffix, word] = match;
+    if (double !== undefined || single !== undefined || date) {
+      tokens.push({ text: double ?? single ?? date, kind: 'string' });
+    } else if (symbol) {
+      tokens.push({ text: symbol, kind: 'op' });
+    } else if (number) {
+      const multiplier = suffix ? MULTIPLIERS[suffix.toLowerCase()] : 1;
+      tokens.push({ text: match[0], kind: 'number', value: Number(number.replace(/,/g, '')) * multiplier });
+    } else if (word) {
+      tokens.push({ text: word.replace(/[.']+$/, ''), kind: 'word' });
+    }
+  }
+  return tokens;
+}
+
+interface ColumnKey {
+  column: QueryColumn;
+  key: string;
+  length: number;
+  exact: boolean;
+}
+
+function columnKeys(columns: QueryColumn[], options: ParseOptions): ColumnKey[] {
+  const keys: ColumnKey[] = [];
+  columns.forEach(column => {
+    const tokens = normalizeName(column.name);
+    keys.push({ column, key: tokens.join(' '), length: tokens.length, exact: true });
+
+    tokens.forEach((token, i) => {
+      (DEFAULT_SYNONYMS[token] ?? []).forEach(synonym => {
+        const alias = [...tokens.slice(0, i), ...normalizeName(synonym), ...tokens.slice(i + 1)];
+        keys.push({ column, key: alias.join(' '), length: alias.length, exact: false });
+      });
+    });
+
+    (options.synonyms?.[column.name] ?? []).forEach(synonym => {
+      const alias = normalizeName(synonym);
+      keys.push({ column, key: alias.join(' '), length: alias.length, exact: true });
+    });
+  });
+
+  // "customers" for customer_id; added last so a column named "customer" wins
+  columns.forEach(column => {
+    const tokens = normalizeName(column.name);
+    if (tokens.length < 2 || tokens[tokens.length - 1] !== 'id') return;
+    const alias = tokens.slice(0, -1);
+    keys.push({ column, key: alias.join(' '), length: alias.length, exact: false });
+  });
+  return keys;
+}
+
+/**
+ * Turns tokens into keywords, column references and known values. At each
+ * position the longest keyword phrase or column name wins; single words
+ * that are keywords stay keywords unless a column is named exactly that.
+ */
+function lex(tokens: Token[], columns: QueryColumn[], options: ParseOptions, notes: string[]): Item[] {
+  const keys = columnKeys(columns, options);
+  const values = new Map<string, { column: QueryColumn; value: string }>();
+  columns.forEach(column => column.values?.forEach(value => {
+    const key = value.trim().toLowerCase();
+    if (key.length > 1 && !values.has(key)) values.set(key, { column, value });
+  }));
+
+  const words = tokens.map(token => token.text.toLowerCase());
+  const items: Item[] = [];
+  let i = 0;
+
+  const phrase = (start: number, length: number) =>
+    tokens.slice(start, start + length).every(token => token.kind === 'word') ? words.slice(start, start + length).join(' ') : null;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if (token.kind === 'string') {
+      items.push({ type: 'string', value: token.text, text: `"${token.text}"` });
+      i += 1;
+      continue;
+    }
+    if (token.kind === 'number') {
+      items.push({ type: 'number', value: token.value!, text: token.text });
+      i += 1;
+      continue;
+    }
+    if (token.kind === 'op') {
+      items.push({ type: 'keyword', keyword: KEYWORDS[token.text], text: token.text });
+      i += 1;
+      continue;
+    }
+
+    // Multi-word keyword phrases and column names
+    let matched = false;
+    for (let length = Math.min(MAX_PHRASE, tokens.length - i); length >= 1 && !matched; length--) {
+      const text = phrase(i, length);
+      if (!text) continue;
+      const normalized = text.split(' ').map(singularize).join(' ');
+
+      const column = keys.find(key => key.length === length && key.key === normalized);
+      const isKeyword = KEYWORD_PHRASES.includes(text);
+      if (column && (length > 1 || !isKeyword || column.key === text)) {
+        items.push({ type: 'column', column: column.column, text });
+        if (!column.exact) notes.push(`Read "${text}" as ${column.column.name}`);
+        i += length;
+        matched = true;
+      } else if (isKeyword && (length > 1 || !values.has(text))) {
+        items.push({ type: 'keyword', keyword: KEYWORDS[text], text });
+        i += length;
+        matched = true;
+      } else if (values.has(text) && (length > 1 || !STOPWORDS.has(text))) {
+        const { column: valueColumn, value } = values.get(text)!;
+        items.push({ type: 'value', column: valueColumn, value, text });
+        i += length;
+        matched = true;
+      }
+    }
+    if (matched) continue;
+
+    const word = words[i];
+    if (STOPWORDS.has(word)) {
+      i += 1;
+      continue;
+    }
+
+    // Misspelt column names, compared over as many words as the name has
+    let best: { key: ColumnKey; score: number } | null = null;
+    keys.forEach(key => {
+      const text = phrase(i, key.length);
+      if (!text || text.length < 4 || KEYWORD_PHRASES.includes(text)) return;
+      const score = similarity(text.split(' ').map(singularize).join(' '), key.key);
+      if (score >= 0.8 && (!best || score > best.score)) best = { key, score };
+    });
+    if (best) {
+      const { key } = best as { key: ColumnKey; score: number };
+      const text = phrase(i, key.length)!;
+      items.push({ type: 'column', column: key.column, text });
+      notes.push(`Read "${text}" as ${key.column.name}`);
+      i += key.length;
+      continue;
+    }
+
+    items.push({ type: 'word', text: token.text });
+    i += 1;
+  }
+
+  return items;
+}
+
+function defaultAggregation(column: QueryColumn): Aggregation {
+  if (column.type !== 'number') return 'count_distinct';
+  return column.semantic === 'percentage' || AVERAGED_COLUMN.test(column.name) ? 'avg' : 'sum';
+}
+
+const isYear = (value: number) => Number.isInteger(value) && value >= 1900 && value <= 2100;
+
+/**
+ * Parses a question about a table into a structured query. The grammar is
+ * a sequence of clauses in any order:
+ *
+ *   measure    := [aggregation] column {("and" | ",") column}
+ *   group      := ("by" | "per" | "for each" ...) (column | granularity)
+ *   filter     := ("where" | "with" ...) condition {("and" | "or") condition}
+ *   condition  := column [not] operator value | column "between" value "and" value | value
+ *   rank       := ("top" | "bottom") number [column] ["by" measure]
+ *   compare    := "compare" (column "and" column | value "vs" value)
+ *
+ * Known values ("EMEA") and years ("in 2023") filter without a keyword.
+ */
+export function parseQuery(query: string, columns: QueryColumn[], options: ParseOptions = {}): ParseResult {
+  const notes: string[] = [];
+  const items = lex(tokenize(query), columns, options, notes);
+  const dateColumns = columns.filter(column => column.type === 'date');
+
+  const intent: QueryIntent = {
+    measures: [],
+    groupBy: null,
+    filters: [],
+    order: null,
+    limit: null,
+    histogram: null,
+    notes
+  };
+
+  let pendingAggregation: Aggregation | null = null;
+  let superlative: 'asc' | 'desc' | null = null;
+  let rank: 'asc' | 'desc' | null = null;
+  let inFilter = false;
+  let comparing = false;
+  let correlating = false;
+  let distribution = false;
+  let overTime: TimeGranularity | null = null;
+  let rankMeasureColumn: QueryColumn | null = null;
+  const mentioned: QueryColumn[] = [];
+  let i = 0;
+
+  const peek = (offset = 0) => items[i + offset];
+  const isKeyword = (item: Item | undefined, kind: Keyword['kind']) => item?.type === 'keyword' && item.keyword.kind === kind;
+
+  const addMeasure = (column: QueryColumn | null, aggregation: Aggregation) => {
+    const measure: Measure = { aggregation, column: column?.name ?? null };
+    if (!intent.measures.some(m => m.aggregation === measure.aggregation && m.column === measure.column)) {
+      intent.measures.push(measure);
+    }
+  };
+
+  const addFilter = (filter: Filter) => {
+    // "region is EMEA or APAC" and "EMEA vs APAC" become one IN filter
+    const existing = intent.filters.find(f => f.column === filter.column && (f.operator === '=' || f.operator === 'in') && !f.part);
+    if (existing && (filter.operator === '=' || filter.operator === 'in') && !filter.part) {
+      existing.operator = 'in';
+      filter.values.forEach(value => {
+        if (!existing.values.includes(value)) existing.values.push(value);
+      });
+      existing.caseInsensitive = existing.caseInsensitive || filter.caseInsensitive;
+      return;
+    }
+    intent.filters.push(filter);
+  };
+
+  const setGroup = (group: GroupBy) => {
+    if (!intent.groupBy) intent.groupBy = group;
+  };
+
+  // Reads a literal after an operator: number, quoted string, known value or bare word
+  const readValue = (column: QueryColumn): { value: string | number | boolean; caseInsensitive?: boolean } | null => {
+    const item = peek();
+    if (!item) return null;
+    if (item.type === 'number') {
+      i += 1;
+      return { value: item.value };
+    }
+    if (item.type === 'value' && item.column.name === column.name) {
+      i += 1;
+      return { value: column.type === 'boolean' ? item.value.toLowerCase() === 'true' : item.value };
+    }
+    if (item.type === 'string' || item.type === 'word' || item.type === 'value') {
+      i += 1;
+      const text = item.type === 'string' ? item.value : item.text;
+      if (column.type === 'boolean' && /^(true|false|yes|no)$/i.test(text)) return { value: /^(true|yes)$/i.test(text) };
+      return { value: text, caseInsensitive: item.type !== 'string' };
+    }
+    return null;
+  };
+
+  // column [not] operator value | column between a and b | column [is] value
+  const readCondition = (column: QueryColumn): boolean => {
+    const start = i;
+    let negate = false;
+    let operator: FilterOperator | null = null;
+
+    if (isKeyword(peek(), 'is')) i += 1;
+    if (isKeyword(peek(), 'not')) {
+      negate = true;
+      i += 1;
+    }
+    // "quantity of at least 10"
+    if (isKeyword(peek(), 'in') && isKeyword(peek(1), 'operator')) i += 1;
+    const next = peek();
+    if (next?.type === 'keyword' && next.keyword.kind === 'operator') {
+      operator = next.keyword.operator;
+      i += 1;
+      if (isKeyword(peek(), 'in') || isKeyword(peek(), 'is')) i += 1;
+    } else if (isKeyword(next, 'between')) {
+      i += 1;
+      const low = readValue(column);
+      if (isKeyword(peek(), 'and')) i += 1;
+      const high = readValue(column);
+      if (low && high) {
+        const part = column.type === 'date' && typeof low.value === 'number' && isYear(low.value) ? 'year' : undefined;
+        addFilter({ column: column.name, operator: 'between', values: [low.value, high.value], part });
+        return true;
+      }
+      i = start;
+      return false;
+    } else if (
+      i > start ||
+      (next?.type === 'value' && next.column.name === column.name) ||
+      (inFilter && (next?.type === 'string' || next?.type === 'number'))
+    ) {
+      operator = '=';
+    }
+
+    if (!operator) {
+      i = start;
+      return false;
+    }
+    if (negate) operator = operator === '=' ? '!=' : operator === '>' ? '<=' : operator === '<' ? '>=' : operator;
+
+    const value = readValue(column);
+    if (!value) {
+      i = start;
+      return false;
+    }
+    if (column.type === 'number' && typeof value.value === 'string') {
+      i = start;
+      return false;
+    }
+
+    const part = column.type === 'date' && typeof value.value === 'number' && isYear(value.value) ? 'year' : undefined;
+    addFilter({ column: column.name, operator, values: [value.value], part, caseInsensitive: value.caseInsensitive });
+
+    // "region is EMEA or APAC"
+    while (isKeyword(peek(), 'or') && (operator === '=' || operator === 'in')) {
+      i += 1;
+      const another = readValue(column);
+      if (!another) break;
+      addFilter({ column: column.name, operator: '=', values: [another.value], caseInsensitive: another.caseInsensitive });
+    }
+    return true;
+  };
+
+  const granularityColumn = (): QueryColumn | null => dateColumns[0] ?? null;
+
+  while (i < items.length) {
+    const item = items[i];
+    i += 1;
+
+    if (item.type === 'keyword') {
+      const { keyword } = item;
+      switch (keyword.kind) {
+        case 'aggregation':
+          pendingAggregation = keyword.aggregation;
+          inFilter = false;
+          break;
+        case 'superlative':
+          superlative = keyword.direction;
+          inFilter = false;
+          break;
+        case 'rank': {
+          rank = keyword.direction;
+          const next = peek();
+          if (next?.type === 'number') {
+            intent.limit = Math.max(1, Math.round(next.value));
+            i += 1;
+          } else {
+            intent.limit = 1;
+          }
+          break;
+        }
+        case 'limit': {
+          const next = peek();
+          if (next?.type === 'number') {
+            intent.limit = Math.max(1, Math.round(next.value));
+            i += 1;
+          }
+          break;
+        }
+        case 'group': {
+          inFilter = false;
+          const next = peek();
+          if (next?.type === 'column') {
+            i += 1;
+            // "top 5 regions by revenue": a numeric column after "by" is what to rank on
+            if ((rank || superlative) && next.column.type === 'number') {
+              rankMeasureColumn = next.column;
+            } else if (next.column.type === 'date') {
+              setGroup({ column: next.column.name, granularity: 'day' });
+            } else {
+              setGroup({ column: next.column.name });
+            }
+          } else if (next?.type === 'keyword' && next.keyword.kind === 'granularity') {
+            i += 1;
+            const column = granularityColumn();
+            if (column) setGroup({ column: column.name, granularity: next.keyword.granularity });
+          }
+          break;
+        }
+        case 'granularity': {
+          const column = granularityColumn();
+          if (keyword.adjective && column) setGroup({ column: column.name, granularity: keyword.granularity });
+          break;
+        }
+        case 'overTime':
+          overTime = 'month';
+          break;
+        case 'filter':
+          inFilter = true;
+          break;
+        case 'order': {
+          const next = peek();
+          if (next?.type === 'column') {
+            i += 1;
+            rankMeasureColumn = next.column;
+            rank = rank ?? 'desc';
+          }
+          break;
+        }
+        case 'direction':
+          if (intent.order) intent.order.direction = keyword.direction;
+          else rank = keyword.direction;
+          break;
+        case 'compare':
+          comparing = true;
+          break;
+        case 'correlation':
+          correlating = true;
+          break;
+        case 'distribution':
+          distribution = true;
+          break;
+        case 'in': {
+          // "in 2023" filters on the year of the date column
+          const next = peek();
+          const column = granularityColumn();
+          if (next?.type === 'number' && isYear(next.value) && column) {
+            i += 1;
+            addFilter({ column: column.name, operator: '=', values: [next.value], part: 'year' });
+          }
+          break;
+        }
+        default:
+          break;
+      }
+      continue;
+    }
+
+    if (item.type === 'value') {
+      addFilter({ column: item.column.name, operator: '=', values: [item.column.type === 'boolean' ? item.value.toLowerCase() === 'true' : item.value] });
+      if (comparing) setGroup({ column: item.column.name });
+      continue;
+    }
+
+    if (item.type === 'number') {
+      if (isYear(item.value) && granularityColumn()) {
+        addFilter({ column: granularityColumn()!.name, operator: '=', values: [item.value], part: 'year' });
+      }
+      continue;
+    }
+
+    if (item.type !== 'column') continue;
+
+    const { column } = item;
+    mentioned.push(column);
+
+    // A column followed by an operator is a condition, wherever it appears
+    if (readCondition(column)) {
+      pendingAggregation = null;
+      continue;
+    }
+    // Anything but a condition ends the filter clause
+    inFilter = false;
+
+    if (correlating && column.type === 'number') {
+      const previous = intent.measures.find(m => m.aggregation === 'corr' && !m.with);
+      if (previous) previous.with = column.name;
+      else intent.measures.push({ aggregation: 'corr', column: column.name });
+      continue;
+    }
+
+    if (distribution && !intent.histogram && !intent.groupBy) {
+      if (column.type === 'number') intent.histogram = { column: column.name, bins: 10 };
+      else setGroup({ column: column.name });
+      continue;
+    }
+
+    if (pendingAggregation) {
+      if (pendingAggregation === 'count' && column.type !== 'number') {
+        addMeasure(column, 'count_distinct');
+      } else if (column.type === 'number' || pendingAggregation === 'count' || pendingAggregation === 'count_distinct') {
+        addMeasure(column, pendingAggregation);
+      } else {
+        setGroup({ column: column.name });
+      }
+      // "average price and quantity" applies to both
+      if (!isKeyword(peek(), 'and')) pendingAggregation = null;
+      continue;
+    }
+
+    if (column.type === 'number') {
+      addMeasure(column, superlative && !rank ? (superlative === 'desc' ? 'max' : 'min') : defaultAggregation(column));
+    } else if (column.type === 'date') {
+      if (!overTime) overTime = 'month';
+    } else {
+      setGroup({ column: column.name });
+    }
+  }
+
+  if (pendingAggregation === 'count' || pendingAggregation === 'count_distinct') {
+    addMeasure(null, 'count');
+  }
+
+  if (overTime && !intent.groupBy) {
+    const column = granularityColumn();
+    if (column) setGroup({ column: column.name, granularity: overTime });
+  }
+
+  // "which region has the highest revenue": rank groups instead of taking a max
+  if (superlative && intent.groupBy && !intent.groupBy.granularity && !rank) {
+    rank = superlative;
+    intent.limit = intent.limit ?? 1;
+    intent.measures = intent.measures.map(m =>
+      m.aggregation === 'max' || m.aggregation === 'min' ? { ...m, aggregation: defaultAggregation(columns.find(c => c.name === m.column)!) } : m
+    );
+  }
+
+  if (rankMeasureColumn) {
+    const measureColumn = rankMeasureColumn as QueryColumn;
+    if (intent.groupBy || intent.measures.length) {
+      addMeasure(measureColumn, defaultAggregation(measureColumn));
+      intent.order = { target: 'measure', column: measureColumn.name, direction: rank ?? 'desc' };
+    } else {
+      intent.order = { target: 'column', column: measureColumn.name, direction: rank ?? 'desc' };
+    }
+  } else if (rank) {
+    intent.order = intent.groupBy || intent.measures.length
+      ? { target: 'measure', column: intent.measures[0]?.column ?? undefined, direction: rank }
+      : null;
+  }
+
+  // Correlations need two columns; a lone one is just a column mention
+  intent.measures = intent.measures.filter(m => m.aggregation !== 'corr' || m.with);
+
+  // Group-only queries count rows per group
+  if (intent.groupBy && !intent.measures.length) addMeasure(null, 'count');
+
+  if (intent.groupBy?.granularity && !intent.order) {
+    intent.order = { target: 'group', direction: 'asc' };
+  }
+
+  if (!intent.measures.length && !intent.groupBy && !intent.histogram && !intent.filters.length && !intent.order) {
+    const example = columns.slice(0, 3).map(c => c.name).join(', ');
+    return {
+      intent: null,
+      error: mentioned.length
+        ? `I couldn't tell what to calculate for ${mentioned.map(c => c.name).join(', ')}. Try "average ${mentioned[0].name}" or "count by ${mentioned[0].name}".`
+        : `I couldn't find any of your columns in that question. Try mentioning one, such as ${example}.`
+    };
+  }
+
+  return { intent };
+}
+
+/**
+ * Column descriptions for `parseQuery`, with the distinct values of text
+ * columns so that values can be recognised in questions.
+ */
+export function describeColumns(fields: DataField[], maxValues = 500): QueryColumn[] {
+  return fields.map(field => {
+    const column: QueryColumn = { name: field.name, type: field.type, semantic: field.columnType?.semantic };
+    if (field.type === 'string' || field.type === 'boolean') {
+      const values = new Set<string>();
+      for (const value of field.value) {
+        if (value === null || value === undefined || value === '') continue;
+        values.add(String(value));
+        if (values.size > maxValues) break;
+      }
+      // Free text and ids have too many values to be useful for matching
+      if (values.size <= maxValues) column.values = [...values];
+    }
+    return column;
+  });
+}
@@ -1,10 +1,22 @@
-import { DataField } from '@/types/data';
+import { DataField, DataSource } from '@/types/data';
 import { calculateFieldStats } from '../statistics/calculations';
-import { determineTrend } from '../statistics/trends';
 import { formatNumber } from '../statistics/formatting';
+import { DuckDBManager } from '../core/DuckDBManager';
+import { QueryExecutor } from '../core/QueryExecutor';
+import { describeColumns, parseQuery, ParseOptions } from './queryParser';
+import { ChartSpec, DEFAULT_ROW_LIMIT, translateQuery } from './querySql';
 
-interface QueryResponse {
+export interface QueryResponse {
   answer: string;
+  query?: string;
+  // The question as it was understood, so the user can check it
+  interpretation?: {
+    text: string;
+    sql: string;
+    notes: string[];
+  };
+  rows?: Record<string, unknown>[];
+  chart?: ChartSpec;
   data?: DataField[];
   visualization?: {
     type: 'bar' | 'line' | 'scatter';
@@ -13,159 +25,130 @@ interface QueryResponse {
   error?: string;
 }
 
-export async function processNaturalLanguageQuery(query: string, fields: DataField[]): Promise<QueryResponse> {
-  const normalizedQuery = query.toLowerCase().trim();
-  
-  try {
-    // Handle statistical queries
-    if (normalizedQuery.includes('average') || normalizedQuery.includes('mean')) {
-      return handleAverageQuery(fields);
-    }
-    
-    if (normalizedQuery.includes('trend') || normalizedQuery.includes('over time')) {
-      return handleTrendQuery(fields);
-    }
-    
-    if (normalizedQuery.includes('compare') || normalizedQuery.includes('correlation')) {
-      return handleComparisonQuery(fields);
-    }
-    
-    if (normalizedQuery.includes('distribution') || normalizedQuery.includes('spread')) {
-      return handleDistributionQuery(fields);
-    }
-    
-    if (normalizedQuery.includes('summary') || normalizedQuery.includes('overview')) {
-      return handleSummaryQuery(fields);
-    }
+export interface QueryOptions extends ParseOptions {
+  // A streamed dataset is queried in its full table rather than the sample in `fields`
+  source?: DataSource;
+}
 
-    // Default response for unrecognized queries
-    return {
-      answer: "I'm not sure how to answer that question. Try asking about trends, averages, comparisons, or distributions in your data.",
-      error: "Query not recognized"
-    };
-  } catch (error) {
-    return {
-      answer: "I encountered an error while processing your query.",
-      error: error instanceof Error ? error.message : "Unknown error occurred"
-    };
+// Each field set is loaded into DuckDB once and queried by table name
+const registeredTables = new WeakMap<DataField[], Promise<string>>();
+let tableCounter = 0;
+
+function registerTable(fields: DataField[]): Promise<string> {
+  let table = registeredTables.get(fields);
+  if (!table) {
+    const name = `nl_query_${++tableCounter}`;
+    table = DuckDBManager.getInstance().registerFields(name, fields).then(() => name);
+    // A failed load should be retried on the next question
+    table.catch(() => registeredTables.delete(fields));
+    registeredTables.set(fields, table);
   }
+  return table;
 }
 
-function handleAverageQuery(fields: DataField[]): QueryResponse {
-  const numericFields = fields.filter(f => f.type === 'number');
-  
-  if (numericFields.length === 0) {
-    return {
-      answer: "I couldn't find any numeric fields to calculate averages.",
-      error: "No numeric fields available"
-    };
+// The full table of a streamed dataset when it is still loaded, otherwise the fields
+async function resolveTable(fields: DataField[], source?: DataSource): Promise<{ table: string; sampled: boolean }> {
+  if (source) {
+    const tables = await DuckDBManager.getInstance().listTables();
+    if (tables.some(info => info.name === source.table)) return { table: source.table, sampled: false };
   }
+  return { table: await registerTable(fields), sampled: Boolean(source) };
+}
 
-  const averages = numericFields.map(field => {
-    const values = field.value as number[];
-    const avg = values.reduce((a, b) => a + b, 0) / values.length;
-    return { field: field.name, average: avg };
-  });
-
-  return {
-    answer: `Here are the averages:\n${averages.map(a => 
-      `${a.field}: ${formatNumber(a.average)}`
-    ).join('\n')}`,
-    data: numericFields,
-    visualization: {
-      type: 'bar',
-      title: 'Field Averages'
-    }
-  };
+function formatValue(value: unknown): string {
+  if (typeof value !== 'number') return value === null || value === undefined ? '—' : String(value);
+  if (Number.isInteger(value)) return value.toLocaleString();
+  return Math.abs(value) < 1 ? value.toFixed(3) : formatNumber(value);
 }
 
-function handleTrendQuery(fields: DataField[]): QueryResponse {
-  const numericFields = fields.filter(f => f.type === 'number');
-  
-  if (numericFields.length === 0) {
-    return {
-      answer: "I couldn't find any numeric fields to analyze trends.",
-      error: "No numeric fields available"
-    };
+function summarize(rows: Record<string, unknown>[], chart: ChartSpec, description: string, limited: boolean): string {
+  if (!rows.length) return `No rows match: ${description}.`;
+
+  if (chart.type === 'metric') {
+    return chart.y.map(label => `${label}: ${formatValue(rows[0][label])}`).join('\n');
   }
 
-  const trends = numericFields.map(field => {
-    const trend = determineTrend(field.value as number[]);
-    return { field: field.name, trend };
-  });
+  if (chart.type === 'line' && chart.x) {
+    const [measure] = chart.y;
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    const start = Number(first[measure]);
+    const end = Number(last[measure]);
+    const change = start ? ` (${end >= start ? '+' : ''}${(((end - start) / Math.abs(start)) * 100).toFixed(1)}%)` : '';
+    return `${description}: ${rows.length} periods, from ${formatValue(start)} in ${first[chart.x]} to ${formatValue(end)} in ${last[chart.x]}${change}.`;
+  }
 
-  return {
-    answer: `Here are the trends I found:\n${trends.map(t => 
-      `${t.field}: ${t.trend === 'up' ? 'Increasing' : t.trend === 'down' ? 'Decreasing' : 'Stable'}`
-    ).join('\n')}`,
-    data: numericFields,
-    visualization: {
-      type: 'line',
-      title: 'Trends Over Time'
-    }
-  };
+  if (chart.x && chart.y.length) {
+    const listed = rows.slice(0, 10).map((row, index) =>
+      `${index + 1}. ${formatValue(row[chart.x!])}: ${chart.y.map(label => formatValue(row[label])).join(' / ')}`
+    );
+    const more = rows.length > listed.length ? `\n…and ${rows.length - listed.length} more` : '';
+    return `${description}:\n${listed.join('\n')}${more}`;
+  }
+
+  return `${rows.length}${limited ? '+' : ''} rows match: ${description}.`;
 }
 
-function handleComparisonQuery(fields: DataField[]): QueryResponse {
-  const numericFields = fields.filter(f => f.type === 'number');
-  
-  if (numericFields.length < 2) {
-    return {
-      answer: "I need at least two numeric fields to make a comparison.",
-      error: "Insufficient numeric fields"
-    };
-  }
+/**
+ * Answers a question about `fields` by parsing it into a structured query,
+ * running that as SQL through `QueryExecutor` and describing the result.
+ */
+export async function processNaturalLanguageQuery(
+  query: string,
+  fields: DataField[],
+  options: QueryOptions = {}
+): Promise<QueryResponse> {
+  const normalizedQuery = query.toLowerCase().trim();
+  const columns = describeColumns(fields);
+  const parsed = parseQuery(query, columns, options);
 
-  return {
-    answer: "Here's a comparison of the numeric fields in your data.",
-    data: numericFields,
-    visualization: {
-      type: 'scatter',
-      title: 'Field Comparisons'
+  if (!parsed.intent) {
+    if (/\b(summary|summarize|overview|describe)\b/.test(normalizedQuery)) {
+      return handleSummaryQuery(fields);
     }
-  };
-}
+    const message = parsed.error ?? "I'm not sure how to answer that question.";
+    return { answer: message, query, error: message };
+  }
 
-function handleDistributionQuery(fields: DataField[]): QueryResponse {
-  const numericFields = fields.filter(f => f.type === 'number');
-  
-  if (numericFields.length === 0) {
+  try {
+    const { table, sampled } = await resolveTable(fields, options.source);
+    const translated = translateQuery(parsed.intent, table, columns);
+    const { data: rows } = await QueryExecutor.getInstance().executeQuery({
+      sql: translated.sql,
+      options: { useCache: true }
+    });
+
+    const { chart } = translated;
+    const limited = !parsed.intent.limit && rows.length >= DEFAULT_ROW_LIMIT;
     return {
-      answer: "I couldn't find any numeric fields to analyze distributions.",
-      error: "No numeric fields available"
+      answer: summarize(rows, chart, translated.description, limited),
+      query,
+      interpretation: {
+        text: translated.description,
+        sql: translated.sql,
+        notes: sampled && options.source
+          ? [...parsed.intent.notes, `Answered from a sample of ${options.source.sampleSize.toLocaleString()} of ${options.source.rowCount.toLocaleString()} rows; upload the file again to query every row.`]
+          : parsed.intent.notes
+      },
+      rows,
+      chart,
+      visualization: chart.type === 'bar' || chart.type === 'line' || chart.type === 'scatter'
+        ? { type: chart.type, title: chart.title }
+        : undefined
     };
-  }
-
-  const distributions = numericFields.map(field => {
-    const stats = calculateFieldStats(field);
+  } catch (error) {
     return {
-      field: field.name,
-      min: stats.min,
-      max: stats.max,
-      mean: stats.mean,
-      standardDeviation: stats.standardDeviation
+      answer: "I encountered an error while processing your query.",
+      query,
+      error: error instanceof Error ? error.message : "Unknown error occurred"
     };
-  });
-
-  return {
-    answer: `Here are the distributions:\n${distributions.map(d => 
-      `${d.field}:\n` +
-      `  Range: ${formatNumber(d.min)} to ${formatNumber(d.max)}\n` +
-      `  Mean: ${formatNumber(d.mean)}\n` +
-      `  Standard Deviation: ${formatNumber(d.standardDeviation)}`
-    ).join('\n\n')}`,
-    data: numericFields,
-    visualization: {
-      type: 'bar',
-      title: 'Data Distributions'
-    }
-  };
+  }
 }
 
 function handleSummaryQuery(fields: DataField[]): QueryResponse {
   const numericFields = fields.filter(f => f.type === 'number');
   const textFields = fields.filter(f => f.type === 'string');
-  
+
   const summary = [
     `Your dataset contains ${fields.length} fields:`,
     `- ${numericFields.length} numeric fields`,
@@ -188,4 +171,4 @@ function handleSummaryQuery(fields: DataField[]): QueryResponse {
       title: 'Data Overview'
     }
   };
-}
\ No newline at end of file
+}
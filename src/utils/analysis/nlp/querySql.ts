@@ -0,0 +1,193 @@
+import { quoteIdentifier, sqlLiteral } from '../core/sql';
+import type { Aggregation, Filter, Measure, QueryColumn, QueryIntent, TimeGranularity } from './queryParser';
+
+export interface ChartSpec {
+  // 'metric' is a single number; 'table' is rows without an obvious chart
+  type: 'metric' | 'bar' | 'line' | 'scatter' | 'table';
+  title: string;
+  x?: string;
+  y: string[];
+}
+
+export interface TranslatedQuery {
+  sql: string;
+  // The query read back in words, e.g. "Total revenue by region where country = DE"
+  description: string;
+  chart: ChartSpec;
+  // Result column aliases in order
+  columns: string[];
+}
+
+// Rows returned when the question does not ask for a number of them
+export const DEFAULT_ROW_LIMIT = 100;
+
+const AGGREGATION_LABELS: Record<Aggregation, string> = {
+  sum: 'Total',
+  avg: 'Average',
+  min: 'Minimum',
+  max: 'Maximum',
+  median: 'Median',
+  count: 'Count',
+  count_distinct: 'Distinct',
+  corr: 'Correlation'
+};
+
+const GRANULARITY_LABELS: Record<TimeGranularity, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year'
+};
+
+export function measureLabel(measure: Measure): string {
+  if (measure.aggregation === 'corr') return `Correlation of ${measure.column} and ${measure.with}`;
+  if (!measure.column) return 'Count';
+  return `${AGGREGATION_LABELS[measure.aggregation]} ${measure.column}`;
+}
+
+function measureSql(measure: Measure): string {
+  const column = measure.column ? quoteIdentifier(measure.column) : '*';
+  switch (measure.aggregation) {
+    case 'count': return `COUNT(${column})`;
+    case 'count_distinct': return `COUNT(DISTINCT ${column})`;
+    case 'avg': return `AVG(${column})`;
+    case 'corr': return `CORR(${column}, ${quoteIdentifier(measure.with!)})`;
+    default: return `${measure.aggregation.toUpperCase()}(${column})`;
+  }
+}
+
+// Formatted as text so that groups sort and display the same everywhere
+function groupSql(column: string, granularity?: TimeGranularity): string {
+  const name = quoteIdentifier(column);
+  switch (granularity) {
+    case 'day': return `STRFTIME(CAST(${name} AS DATE), '%Y-%m-%d')`;
+    case 'week': return `STRFTIME(DATE_TRUNC('week', ${name}), '%Y-%m-%d')`;
+    case 'month': return `STRFTIME(DATE_TRUNC('month', ${name}), '%Y-%m')`;
+    case 'quarter': return `CONCAT(YEAR(${name}), '-Q', QUARTER(${name}))`;
+    case 'year': return `CAST(YEAR(${name}) AS VARCHAR)`;
+    default: return name;
+  }
+}
+
+function filterSql(filter: Filter, columns: QueryColumn[]): string {
+  const column = columns.find(c => c.name === filter.column);
+  let target = filter.part === 'year' ? `YEAR(${quoteIdentifier(filter.column)})` : quoteIdentifier(filter.column);
+  let values = filter.values;
+
+  // Values typed by the user are matched regardless of case
+  if (filter.caseInsensitive && column?.type === 'string') {
+    target = `LOWER(${target})`;
+    values = values.map(value => (typeof value === 'string' ? value.toLowerCase() : value));
+  }
+
+  const literal = (value: string | number | boolean) => sqlLiteral(value);
+  switch (filter.operator) {
+    case 'in': return `${target} IN (${values.map(literal).join(', ')})`;
+    case 'between': return `${target} BETWEEN ${literal(values[0])} AND ${literal(values[1])}`;
+    case 'contains': return `CONTAINS(LOWER(CAST(${target} AS VARCHAR)), ${literal(String(values[0]).toLowerCase())})`;
+    case '!=': return `${target} IS DISTINCT FROM ${literal(values[0])}`;
+    default: return `${target} ${filter.operator} ${literal(values[0])}`;
+  }
+}
+
+function describeFilter(filter: Filter): string {
+  const column = filter.part === 'year' ? `year of ${filter.column}` : filter.column;
+  const format = (value: string | number | boolean) => (typeof value === 'string' ? `"${value}"` : String(value));
+  switch (filter.operator) {
+    case 'in': return `${column} is ${filter.values.map(format).join(' or ')}`;
+    case 'between': return `${column} between ${format(filter.values[0])} and ${format(filter.values[1])}`;
+    case 'contains': return `${column} contains ${format(filter.values[0])}`;
+    default: return `${column} ${filter.operator} ${format(filter.values[0])}`;
+  }
+}
+
+/**
+ * SQL for a parsed question against `table`, with a plain-language reading
+ * of it and a chart that suits the shape of the result.
+ */
+export function translateQuery(intent: QueryIntent, table: string, columns: QueryColumn[]): TranslatedQuery {
+  const from = quoteIdentifier(table);
+  const conditions = intent.filters.map(filter => filterSql(filter, columns));
+  const where = conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '';
+  const filterText = intent.filters.length ? ` where ${intent.filters.map(describeFilter).join(' and ')}` : '';
+
+  if (intent.histogram) {
+    const { column, bins } = intent.histogram;
+    const name = quoteIdentifier(column);
+    const binAlias = `${column} from`;
+    const present = `${name} IS NOT NULL${conditions.length ? ` AND ${conditions.join(' AND ')}` : ''}`;
+    return {
+      sql: `SELECT ROUND(lo + bin * width, 4) AS ${quoteIdentifier(binAlias)}, COUNT(*) AS "Count" FROM (` +
+        `SELECT LEAST(FLOOR((${name} - lo) / width), ${bins - 1}) AS bin, lo, width FROM ${from}, ` +
+        `(SELECT MIN(${name}) AS lo, GREATEST((MAX(${name}) - MIN(${name})) / ${bins}, 1e-9) AS width FROM ${from} WHERE ${present}) AS bounds ` +
+        `WHERE ${present}) AS binned GROUP BY bin, lo, width ORDER BY bin`,
+      description: `Distribution of ${column} in ${bins} bins${filterText}`,
+      chart: { type: 'bar', title: `Distribution of ${column}`, x: binAlias, y: ['Count'] },
+      columns: [binAlias, 'Count']
+    };
+  }
+
+  const limit = intent.limit ?? DEFAULT_ROW_LIMIT;
+
+  // No aggregation: matching rows, optionally ranked
+  if (!intent.measures.length && !intent.groupBy) {
+    const order = intent.order?.column
+      ? ` ORDER BY ${quoteIdentifier(intent.order.column)} ${intent.order.direction.toUpperCase()} NULLS LAST`
+      : '';
+    const numeric = columns.filter(c => c.type === 'number').map(c => c.name);
+    const rank = intent.order?.column
+      ? `, ${intent.order.direction === 'desc' ? 'highest' : 'lowest'} ${intent.order.column} first`
+      : '';
+    return {
+      sql: `SELECT * FROM ${from}${where}${order} LIMIT ${limit}`,
+      description: `${intent.limit ? `${intent.limit} rows` : 'Rows'}${filterText}${rank}`,
+      chart: numeric.length >= 2
+        ? { type: 'scatter', title: `${numeric[1]} vs ${numeric[0]}`, x: numeric[0], y: [numeric[1]] }
+        : { type: 'table', title: 'Matching rows', y: [] },
+      columns: columns.map(c => c.name)
+    };
+  }
+
+  const labels = intent.measures.map(measureLabel);
+  const select = intent.measures.map((measure, index) => `${measureSql(measure)} AS ${quoteIdentifier(labels[index])}`);
+  const measureText = labels.join(' and ');
+
+  if (!intent.groupBy) {
+    return {
+      sql: `SELECT ${select.join(', ')} FROM ${from}${where}`,
+      description: `${measureText}${filterText}`,
+      chart: { type: 'metric', title: measureText, y: labels },
+      columns: labels
+    };
+  }
+
+  const { column, granularity } = intent.groupBy;
+  const groupAlias = granularity ? GRANULARITY_LABELS[granularity] : column;
+  const groupText = granularity ? `${granularity} of ${column}` : column;
+
+  let order = `${quoteIdentifier(labels[0])} DESC`;
+  if (intent.order?.target === 'group') {
+    order = `1 ${intent.order.direction.toUpperCase()}`;
+  } else if (intent.order?.target === 'measure') {
+    const index = Math.max(0, intent.measures.findIndex(m => m.column === intent.order!.column));
+    order = `${quoteIdentifier(labels[index])} ${intent.order.direction.toUpperCase()}`;
+  }
+
+  const ranked = intent.order?.target === 'measure' && intent.limit
+    ? `, ${intent.order.direction === 'desc' ? 'top' : 'bottom'} ${intent.limit}`
+    : '';
+
+  return {
+    sql: `SELECT ${groupSql(column, granularity)} AS ${quoteIdentifier(groupAlias)}, ${select.join(', ')} ` +
+      `FROM ${from}${where} GROUP BY 1 ORDER BY ${order} NULLS LAST LIMIT ${granularity && !intent.limit ? 1000 : limit}`,
+    description: `${measureText} by ${groupText}${filterText}${ranked}`,
+    chart: {
+      type: granularity ? 'line' : 'bar',
+      title: `${measureText} by ${groupText}`,
+      x: groupAlias,
+      y: labels
+    },
+    columns: [groupAlias, ...labels]
+  };
+}
@@ -0,0 +1,70 @@
+import { DataCleaner } from '../cleaner';
+import type { DataField } from '@/types/data';
+
+describe('DataCleaner', () => {
+  const fields: DataField[] = [
+    { name: 'id', type: 'number', value: [1, 2, 2, 3, 4] },
+    { name: 'region', type: 'string', value: [' EMEA', 'APAC', 'APAC', null, 'AMER'] },
+    { name: 'sales', type: 'number', value: [10, 20, 20, 30, null] }
+  ];
+
+  it('should keep columns aligned when removing duplicate rows', async () => {
+    const report = await DataCleaner.cleanData(fields);
+
+    expect(report.rowIndex).toEqual([0, 1, 3, 4]);
+    expect(report.droppedRows).toEqual([2]);
+    expect(report.fields[0].value).toEqual([1, 2, 3, 4]);
+    expect(report.fields[1].value).toEqual(['EMEA', 'APAC', 'APAC', 'AMER']);
+    expect(report.fields[2].value).toEqual([10, 20, 30, 30]);
+  });
+
+  it('should detect duplicates on the chosen key columns only', async () => {
+    const report = await DataCleaner.cleanData(fields, { duplicateKeys: ['region'] });
+
+    expect(report.droppedRows).toEqual([2]);
+    expect(report.audit.find(entry => entry.rule === 'duplicates')?.rowIndices).toEqual([2]);
+  });
+
+  it('should drop whole rows when the missing value policy is drop', async () => {
+    const report = await DataCleaner.cleanData(fields, {
+      missing: { action: 'drop' }
+    });
+
+    expect(report.rowIndex).toEqual([0, 1]);
+    expect(report.fields.every(field => field.value.length === 2)).toBe(true);
+  });
+
+  it('should impute with per-column strategies', async () => {
+    const report = await DataCleaner.cleanData(fields, {
+      columnMissing: {
+        sales: { action: 'impute', strategy: 'mean' },
+        region: { action: 'impute', strategy: 'constant', fillValue: 'Unknown' }
+      }
+    });
+
+    expect(report.fields[1].value).toEqual(['EMEA', 'APAC', 'Unknown', 'AMER']);
+    expect(report.fields[2].value[3]).toBe(20);
+  });
+
+  it('should record the original row indices each rule changed', async () => {
+    const report = await DataCleaner.cleanData(fields);
+    const rules = report.audit.map(entry => [entry.rule, entry.field, entry.rowIndices]);
+
+    expect(rules).toEqual([
+      ['formatting', 'region', [0]],
+      ['duplicates', undefined, [2]],
+      ['missing_values', 'region', [3]],
+      ['missing_values', 'sales', [4]]
+    ]);
+  });
+
+  it('should report health scores per field and overall', async () => {
+    const report = await DataCleaner.cleanData(fields);
+
+    expect(report.results).toHaveLength(3);
+    expect(report.results[0].healthScore).toBe(75);
+    expect(report.overallHealth).toBe(
+      Math.round(report.results.reduce((sum, r) => sum + r.healthScore, 0) / 3)
+    );
+  });
+});
@@ -1,6 +1,44 @@
 import { DataField } from '@/types/data';
 
-interface CleaningResult {
+export type CleaningRule =
+  | 'duplicates'
+  | 'missing_values'
+  | 'outliers'
+  | 'formatting'
+  | 'invalid_dates';
+
+export type ImputeStrategy = 'previous' | 'mean' | 'median' | 'mode' | 'constant';
+
+export interface MissingValuePolicy {
+  action: 'drop' | 'impute' | 'keep';
+  strategy?: ImputeStrategy;
+  fillValue?: string | number | boolean;
+}
+
+export type OutlierPolicy = 'mean' | 'clip' | 'drop' | 'keep';
+
+export interface CleaningOptions {
+  removeDuplicates?: boolean;
+  // Columns that identify a row; defaults to every column
+  duplicateKeys?: string[];
+  missing?: MissingValuePolicy;
+  columnMissing?: Record<string, MissingValuePolicy>;
+  outliers?: OutlierPolicy;
+  outlierThreshold?: number;
+  invalidDates?: 'drop' | 'null';
+}
+
+export interface CleaningAuditEntry {
+  rule: CleaningRule;
+  // Undefined for rules that act on whole rows across columns
+  field?: string;
+  action: 'dropped' | 'modified';
+  // Indices into the original, uncleaned rows
+  rowIndices: number[];
+  description: string;
+}
+
+export interface CleaningResult {
   field: DataField;
   fixes: {
     type: string;
@@ -10,198 +48,363 @@ interface CleaningResult {
   healthScore: number;
 }
 
+export interface CleaningReport {
+  fields: DataField[];
+  results: CleaningResult[];
+  overallHealth: number;
+  audit: CleaningAuditEntry[];
+  // Original row index of each cleaned row
+  rowIndex: number[];
+  droppedRows: number[];
+}
+
+const DEFAULT_OPTIONS: Required<Omit<CleaningOptions, 'duplicateKeys' | 'columnMissing'>> = {
+  removeDuplicates: true,
+  missing: { action: 'impute', strategy: 'previous' },
+  outliers: 'mean',
+  outlierThreshold: 3,
+  invalidDates: 'drop'
+};
+
+interface CleaningState {
+  fields: DataField[];
+  columns: any[][];
+  kept: boolean[];
+  audit: CleaningAuditEntry[];
+}
+
 export class DataCleaner {
-  static async cleanData(fields: DataField[]): Promise<{
-    fields: DataField[];
-    results: CleaningResult[];
-    overallHealth: number;
-  }> {
-    const results: CleaningResult[] = [];
-    const cleanedFields: DataField[] = [];
-
-    for (const field of fields) {
-      const result = await this.cleanField(field);
-      results.push(result);
-      cleanedFields.push(result.field);
-    }
+  static async cleanData(
+    fields: DataField[],
+    options: CleaningOptions = {}
+  ): Promise<CleaningReport> {
+    return this.clean(fields, options);
+  }
 
-    const overallHealth = this.calculateOverallHealth(results);
+  // Synchronous form of cleanData, used by recipe replay
+  static clean(fields: DataField[], options: CleaningOptions = {}): CleaningReport {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const rowCount = fields.reduce((max, field) => Math.max(max, field.value.length), 0);
 
-    return {
-      fields: cleanedFields,
-      results,
-      overallHealth
+    const state: CleaningState = {
+      fields,
+      columns: fields.map(field =>
+        Array.from({ length: rowCount }, (_, i) => field.value[i] ?? null)
+      ),
+      kept: new Array(rowCount).fill(true),
+      audit: []
     };
-  }
 
-  private static async cleanField(field: DataField): Promise<CleaningResult> {
-    const fixes: CleaningResult['fixes'] = [];
-    let cleanedValues = [...field.value];
-    
-    // Handle missing values
-    const missingCount = this.handleMissingValues(cleanedValues);
-    if (missingCount > 0) {
-      fixes.push({
-        type: 'missing_values',
-        count: missingCount,
-        description: `Filled ${missingCount} missing values`
-      });
-    }
+    fields.forEach((field, col) => {
+      if (field.type === 'string') this.cleanTextValues(state, col);
+      if (field.type === 'date') this.cleanDateValues(state, col, settings.invalidDates);
+    });
 
-    // Remove duplicates
-    const initialLength = cleanedValues.length;
-    cleanedValues = this.removeDuplicates(cleanedValues);
-    const duplicateCount = initialLength - cleanedValues.length;
-    if (duplicateCount > 0) {
-      fixes.push({
-        type: 'duplicates',
-        count: duplicateCount,
-        description: `Removed ${duplicateCount} duplicate values`
-      });
+    if (settings.removeDuplicates) {
+      this.removeDuplicateRows(state, options.duplicateKeys);
     }
 
-    // Handle type-specific cleaning
-    switch (field.type) {
-      case 'number':
-        const numericResults = this.cleanNumericValues(cleanedValues as number[]);
-        cleanedValues = numericResults.values;
-        fixes.push(...numericResults.fixes);
-        break;
-      case 'string':
-        const textResults = this.cleanTextValues(cleanedValues as string[]);
-        cleanedValues = textResults.values;
-        fixes.push(...textResults.fixes);
-        break;
-      case 'date':
-        const dateResults = this.cleanDateValues(cleanedValues);
-        cleanedValues = dateResults.values;
-        fixes.push(...dateResults.fixes);
-        break;
-    }
+    fields.forEach((field, col) => {
+      const policy = options.columnMissing?.[field.name] ?? settings.missing;
+      this.handleMissingValues(state, col, policy);
+    });
 
-    const healthScore = this.calculateFieldHealth(cleanedValues, fixes);
+    fields.forEach((field, col) => {
+      if (field.type === 'number') {
+        this.cleanNumericValues(state, col, settings.outliers, settings.outlierThreshold);
+      }
+    });
 
-    return {
-      field: {
-        ...field,
-        value: field.type === 'number' 
-          ? cleanedValues as number[]
-          : field.type === 'string'
-          ? cleanedValues as string[]
-          : cleanedValues as Date[]
-      },
-      fixes,
-      healthScore
-    };
+    return this.buildReport(state, options.duplicateKeys);
+  }
+
+  private static activeRows(state: CleaningState): number[] {
+    const rows: number[] = [];
+    state.kept.forEach((kept, i) => {
+      if (kept) rows.push(i);
+    });
+    return rows;
+  }
+
+  private static dropRows(state: CleaningState, rows: number[]): void {
+    rows.forEach(row => {
+      state.kept[row] = false;
+    });
   }
 
-  private static handleMissingValues(values: any[]): number {
-    let missingCount = 0;
-    
-    for (let i = 0; i < values.length; i++) {
-      if (values[i] == null || values[i] === '') {
-        missingCount++;
-        // Use previous non-null value or next non-null value
-        const prevValue = [...values.slice(0, i)].reverse().find(v => v != null);
-        const nextValue = values.slice(i + 1).find(v => v != null);
-        values[i] = prevValue ?? nextValue ?? 0;
+  private static isMissing(value: unknown): boolean {
+    return value == null || value === '' || (typeof value === 'number' && isNaN(value));
+  }
+
+  private static removeDuplicateRows(state: CleaningState, keys?: string[]): void {
+    const keyColumns = keys?.length
+      ? keys
+          .map(key => state.fields.findIndex(field => field.name === key))
+          .filter(col => col >= 0)
+      : state.fields.map((_, col) => col);
+
+    if (keyColumns.length === 0) return;
+
+    const seen = new Set<string>();
+    const duplicates: number[] = [];
+
+    for (const row of this.activeRows(state)) {
+      const key = JSON.stringify(keyColumns.map(col => {
+        const value = state.columns[col][row];
+        return value instanceof Date ? value.getTime() : value;
+      }));
+      if (seen.has(key)) {
+        duplicates.push(row);
+      } else {
+        seen.add(key);
       }
     }
 
-    return missingCount;
+    if (duplicates.length > 0) {
+      this.dropRows(state, duplicates);
+      state.audit.push({
+        rule: 'duplicates',
+        action: 'dropped',
+        rowIndices: duplicates,
+        description: `Removed ${duplicates.length} duplicate rows`
+      });
+    }
   }
 
-  private static removeDuplicates(values: any[]): any[] {
-    return Array.from(new Set(values));
+  private static handleMissingValues(
+    state: CleaningState,
+    col: number,
+    policy: MissingValuePolicy
+  ): void {
+    if (policy.action === 'keep') return;
+
+    const field = state.fields[col];
+    const values = state.columns[col];
+    const rows = this.activeRows(state);
+    const missingRows = rows.filter(row => this.isMissing(values[row]));
+
+    if (missingRows.length === 0) return;
+
+    if (policy.action === 'drop') {
+      this.dropRows(state, missingRows);
+      state.audit.push({
+        rule: 'missing_values',
+        field: field.name,
+        action: 'dropped',
+        rowIndices: missingRows,
+        description: `Dropped ${missingRows.length} rows with missing values`
+      });
+      return;
+    }
+
+    const present = rows
+      .filter(row => !this.isMissing(values[row]))
+      .map(row => values[row]);
+    const strategy = policy.strategy ?? 'previous';
+    const fallback = field.type === 'number' ? 0 : '';
+
+    if (strategy === 'previous') {
+      // Use previous non-null value or next non-null value
+      const filled = rows.map(row => values[row]);
+      rows.forEach((row, i) => {
+        if (!this.isMissing(filled[i])) return;
+        const prevValue = filled.slice(0, i).reverse().find(v => !this.isMissing(v));
+        const nextValue = filled.slice(i + 1).find(v => !this.isMissing(v));
+        values[row] = prevValue ?? nextValue ?? fallback;
+        filled[i] = values[row];
+      });
+    } else {
+      const fill = this.imputeValue(field, present, strategy, policy.fillValue) ?? fallback;
+      missingRows.forEach(row => {
+        values[row] = fill;
+      });
+    }
+
+    state.audit.push({
+      rule: 'missing_values',
+      field: field.name,
+      action: 'modified',
+      rowIndices: missingRows,
+      description: `Filled ${missingRows.length} missing values`
+    });
   }
 
-  private static cleanNumericValues(values: number[]): {
-    values: number[];
-    fixes: CleaningResult['fixes'];
-  } {
-    const fixes: CleaningResult['fixes'] = [];
-    let cleanedValues = values;
-
-    // Handle outliers
-    const { mean, stdDev } = this.calculateStats(cleanedValues);
-    const outlierThreshold = 3; // 3 standard deviations
-    const initialLength = cleanedValues.length;
-    
-    cleanedValues = cleanedValues.map(value => {
-      const zScore = Math.abs((value - mean) / stdDev);
-      if (zScore > outlierThreshold) {
-        return mean; // Replace outliers with mean
+  private static imputeValue(
+    field: DataField,
+    present: any[],
+    strategy: ImputeStrategy,
+    fillValue?: string | number | boolean
+  ): unknown {
+    if (strategy === 'constant') return fillValue;
+    if (present.length === 0) return undefined;
+
+    const numeric = field.type === 'number' ? present.map(Number) : [];
+
+    if (strategy === 'mean' && numeric.length > 0) {
+      return numeric.reduce((a, b) => a + b, 0) / numeric.length;
+    }
+
+    if (strategy === 'median' && numeric.length > 0) {
+      const sorted = [...numeric].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+
+    // Mode, and the fallback for mean/median on non-numeric columns
+    const counts = new Map<unknown, number>();
+    present.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    let mode: unknown = present[0];
+    let best = 0;
+    counts.forEach((count, value) => {
+      if (count > best) {
+        best = count;
+        mode = value;
       }
-      return value;
     });
+    return mode;
+  }
+
+  private static cleanNumericValues(
+    state: CleaningState,
+    col: number,
+    policy: OutlierPolicy,
+    threshold: number
+  ): void {
+    if (policy === 'keep') return;
+
+    const field = state.fields[col];
+    const values = state.columns[col];
+    const rows = this.activeRows(state).filter(row => !this.isMissing(values[row]));
+    const { mean, stdDev } = this.calculateStats(rows.map(row => Number(values[row])));
+
+    if (!stdDev) return;
 
-    const outlierCount = initialLength - cleanedValues.length;
-    if (outlierCount > 0) {
-      fixes.push({
-        type: 'outliers',
-        count: outlierCount,
-        description: `Handled ${outlierCount} outliers`
+    const outliers = rows.filter(row =>
+      Math.abs((Number(values[row]) - mean) / stdDev) > threshold
+    );
+
+    if (outliers.length === 0) return;
+
+    if (policy === 'drop') {
+      this.dropRows(state, outliers);
+    } else {
+      outliers.forEach(row => {
+        const value = Number(values[row]);
+        values[row] = policy === 'clip'
+          ? Math.min(mean + threshold * stdDev, Math.max(mean - threshold * stdDev, value))
+          : mean;
       });
     }
 
-    return { values: cleanedValues, fixes };
+    state.audit.push({
+      rule: 'outliers',
+      field: field.name,
+      action: policy === 'drop' ? 'dropped' : 'modified',
+      rowIndices: outliers,
+      description: policy === 'drop'
+        ? `Dropped ${outliers.length} rows with outliers`
+        : `Handled ${outliers.length} outliers`
+    });
   }
 
-  private static cleanTextValues(values: string[]): {
-    values: string[];
-    fixes: CleaningResult['fixes'];
-  } {
-    const fixes: CleaningResult['fixes'] = [];
-    let cleanedValues = values;
-    let inconsistentCount = 0;
-
-    // Trim whitespace and normalize case
-    cleanedValues = cleanedValues.map(value => {
-      const original = value;
+  private static cleanTextValues(state: CleaningState, col: number): void {
+    const values = state.columns[col];
+    const changed: number[] = [];
+
+    // Trim whitespace
+    this.activeRows(state).forEach(row => {
+      const value = values[row];
+      if (typeof value !== 'string') return;
       const cleaned = value.trim();
-      if (cleaned !== original) inconsistentCount++;
-      return cleaned;
+      if (cleaned !== value) {
+        values[row] = cleaned;
+        changed.push(row);
+      }
     });
 
-    if (inconsistentCount > 0) {
-      fixes.push({
-        type: 'formatting',
-        count: inconsistentCount,
-        description: `Fixed formatting in ${inconsistentCount} values`
+    if (changed.length > 0) {
+      state.audit.push({
+        rule: 'formatting',
+        field: state.fields[col].name,
+        action: 'modified',
+        rowIndices: changed,
+        description: `Fixed formatting in ${changed.length} values`
       });
     }
-
-    return { values: cleanedValues, fixes };
   }
 
-  private static cleanDateValues(values: any[]): {
-    values: Date[];
-    fixes: CleaningResult['fixes'];
-  } {
-    const fixes: CleaningResult['fixes'] = [];
-    let invalidCount = 0;
-    
-    const cleanedValues = values.map(value => {
-      const date = new Date(value);
+  private static cleanDateValues(
+    state: CleaningState,
+    col: number,
+    policy: 'drop' | 'null'
+  ): void {
+    const values = state.columns[col];
+    const invalid: number[] = [];
+
+    this.activeRows(state).forEach(row => {
+      const value = values[row];
+      if (this.isMissing(value)) return;
+      const date = value instanceof Date ? value : new Date(value);
       if (isNaN(date.getTime())) {
-        invalidCount++;
-        return null;
+        invalid.push(row);
+        values[row] = null;
+      } else {
+        values[row] = date;
       }
-      return date;
-    }).filter((date): date is Date => date !== null);
-
-    if (invalidCount > 0) {
-      fixes.push({
-        type: 'invalid_dates',
-        count: invalidCount,
-        description: `Removed ${invalidCount} invalid dates`
-      });
-    }
+    });
+
+    if (invalid.length === 0) return;
+
+    if (policy === 'drop') this.dropRows(state, invalid);
+
+    state.audit.push({
+      rule: 'invalid_dates',
+      field: state.fields[col].name,
+      action: policy === 'drop' ? 'dropped' : 'modified',
+      rowIndices: invalid,
+      description: policy === 'drop'
+        ? `Removed ${invalid.length} rows with invalid dates`
+        : `Cleared ${invalid.length} invalid dates`
+    });
+  }
 
-    return { values: cleanedValues, fixes };
+  private static buildReport(state: CleaningState, duplicateKeys?: string[]): CleaningReport {
+    const rowIndex = this.activeRows(state);
+    const droppedRows = state.kept
+      .map((kept, i) => (kept ? -1 : i))
+      .filter(i => i >= 0);
+
+    const results: CleaningResult[] = state.fields.map((field, col) => {
+      const entries = state.audit.filter(entry =>
+        entry.field === field.name ||
+        (entry.field === undefined && (!duplicateKeys?.length || duplicateKeys.includes(field.name)))
+      );
+      const fixes = entries.map(entry => ({
+        type: entry.rule,
+        count: entry.rowIndices.length,
+        description: entry.description
+      }));
+      const cleanedValues = rowIndex.map(row => state.columns[col][row]);
+
+      return {
+        field: { ...field, value: cleanedValues },
+        fixes,
+        healthScore: this.calculateFieldHealth(cleanedValues, fixes)
+      };
+    });
+
+    return {
+      fields: results.map(result => result.field),
+      results,
+      overallHealth: this.calculateOverallHealth(results),
+      audit: state.audit,
+      rowIndex,
+      droppedRows
+    };
   }
 
   private static calculateStats(values: number[]): { mean: number; stdDev: number } {
+    if (values.length === 0) return { mean: 0, stdDev: 0 };
     const mean = values.reduce((a, b) => a + b, 0) / values.length;
     const squaredDiffs = values.map(value => Math.pow(value - mean, 2));
     const stdDev = Math.sqrt(squaredDiffs.reduce((a, b) => a + b, 0) / values.length);
@@ -211,14 +414,14 @@ export class DataCleaner {
   private static calculateFieldHealth(values: any[], fixes: CleaningResult['fixes']): number {
     const totalIssues = fixes.reduce((sum, fix) => sum + fix.count, 0);
     const totalValues = values.length;
-    
+
     if (totalValues === 0) return 0;
-    
+
     // Calculate health score (0-100)
     const baseScore = 100;
     const deductionPerIssue = 100 / totalValues;
     const healthScore = Math.max(0, baseScore - (totalIssues * deductionPerIssue));
-    
+
     return Math.round(healthScore);
   }
 
@@ -228,4 +431,4 @@ export class DataCleaner {
       results.reduce((sum, result) => sum + result.healthScore, 0) / results.length
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,107 @@
+import { applyRecipe, createRecipe, parseRecipe, serializeRecipe, transformData } from '../engine';
+import { getActiveRecipe, startRecording, stopRecording } from '../recorder';
+import { DataCleaner } from '../../preprocessing/cleaner';
+import type { DataField } from '@/types/data';
+
+describe('Recipe engine', () => {
+  const fields: DataField[] = [
+    { name: 'region', type: 'string', value: ['EMEA', 'APAC', 'EMEA', 'AMER'] },
+    { name: 'quarter', type: 'string', value: ['Q1', 'Q1', 'Q2', 'Q2'] },
+    { name: 'revenue', type: 'string', value: ['100', '80', null, '120'] },
+    { name: 'cost', type: 'number', value: [60, 50, 40, 70] }
+  ];
+
+  it('should replay steps in order and log row counts', () => {
+    const recipe = createRecipe('Margins', fields, [
+      { type: 'cast', column: 'revenue', to: 'number' },
+      { type: 'impute', column: 'revenue', strategy: 'mean' },
+      { type: 'derive', name: 'margin', operator: 'subtract', operands: [{ column: 'revenue' }, { column: 'cost' }] },
+      { type: 'filter', column: 'region', operator: 'neq', value: 'AMER' },
+      { type: 'rename', from: 'margin', to: 'gross_margin' }
+    ]);
+
+    const { fields: result, log } = applyRecipe(fields, recipe);
+
+    expect(result.map(f => f.name)).toEqual(['region', 'quarter', 'revenue', 'cost', 'gross_margin']);
+    expect(result.find(f => f.name === 'gross_margin')?.value).toEqual([40, 30, 60]);
+    expect(log.map(entry => entry.rowsAfter)).toEqual([4, 4, 4, 3, 3]);
+  });
+
+  it('should pivot with an aggregate', () => {
+    const recipe = createRecipe('Pivot', fields, [
+      { type: 'pivot', index: 'region', columns: 'quarter', values: 'cost', aggregate: 'sum' }
+    ]);
+
+    const { fields: result } = applyRecipe(fields, recipe);
+
+    expect(result.map(f => f.name)).toEqual(['region', 'Q1', 'Q2']);
+    expect(result[1].value).toEqual([60, 50, null]);
+    expect(result[2].value).toEqual([40, null, 70]);
+  });
+
+  it('should bin numeric columns into labelled ranges', () => {
+    const recipe = createRecipe('Bins', fields, [
+      { type: 'bin', column: 'cost', edges: [0, 50, 100] }
+    ]);
+
+    const { fields: result } = applyRecipe(fields, recipe);
+
+    expect(result.find(f => f.name === 'cost_bin')?.value).toEqual([
+      '50.00 - 100.00', '50.00 - 100.00', '0.00 - 50.00', '50.00 - 100.00'
+    ]);
+  });
+
+  it('should reject datasets missing the source columns', () => {
+    const recipe = createRecipe('Margins', fields, []);
+    expect(() => applyRecipe(fields.slice(1), recipe)).toThrow('missing columns');
+  });
+
+  it('should round-trip through JSON', () => {
+    const recipe = createRecipe('Margins', fields, [
+      { type: 'filter', column: 'region', operator: 'in', value: ['EMEA'] }
+    ]);
+    expect(parseRecipe(serializeRecipe(recipe))).toEqual(recipe);
+    expect(() => parseRecipe('{"name": 1}')).toThrow();
+  });
+
+  describe('recording', () => {
+    afterEach(() => {
+      stopRecording();
+    });
+
+    it('should record steps applied to the recorded dataset', () => {
+      startRecording(createRecipe('Recorded', fields, [], 'sales'));
+
+      const cast = transformData('sales', fields, { type: 'cast', column: 'revenue', to: 'number' });
+      const cleaned = transformData('sales', cast, { type: 'clean', options: { removeDuplicates: false, missing: { action: 'drop' } } });
+      transformData('sales', cleaned, { type: 'pivot', index: 'region', columns: 'quarter', values: 'revenue', aggregate: 'sum' });
+
+      const recipe = stopRecording();
+      expect(recipe?.steps.map(step => step.type)).toEqual(['cast', 'clean', 'pivot']);
+      expect(getActiveRecipe()).toBeNull();
+
+      // Replaying the recording gives the same result as running the steps
+      const { fields: replayed } = applyRecipe(fields, recipe!);
+      expect(replayed.map(f => f.name)).toEqual(['region', 'Q1', 'Q2']);
+      expect(replayed[1].value).toEqual([100, 80, null]);
+      expect(replayed[2].value).toEqual([null, null, 120]);
+    });
+
+    it('should not record replays, other datasets or steps run while nothing is recording', async () => {
+      transformData('sales', fields, { type: 'rename', from: 'cost', to: 'costs' });
+      expect(getActiveRecipe()).toBeNull();
+
+      startRecording(createRecipe('Replay', fields, [], 'sales'));
+      applyRecipe(fields, createRecipe('Other', fields, [{ type: 'rename', from: 'cost', to: 'costs' }]));
+      transformData('inventory', fields, { type: 'rename', from: 'cost', to: 'costs' });
+      // Analysis views clean data for display, which is not a recipe step
+      await DataCleaner.cleanData(fields);
+      expect(getActiveRecipe()?.steps).toEqual([]);
+    });
+
+    it('should only record recipes that belong to a dataset', () => {
+      expect(() => startRecording(createRecipe('Unsaved', fields))).toThrow('Choose a dataset');
+      expect(getActiveRecipe()).toBeNull();
+    });
+  });
+});
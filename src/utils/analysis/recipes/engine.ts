@@ -0,0 +1,422 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { DataCleaner } from '../preprocessing/cleaner';
+import { recordStep } from './recorder';
+import {
+  RECIPE_FORMAT_VERSION,
+  type AggregateFunction,
+  type BinStep,
+  type CastStep,
+  type DeriveStep,
+  type FilterStep,
+  type ImputeStep,
+  type PivotStep,
+  type Recipe,
+  type RecipeRunResult,
+  type RecipeStep,
+  type RecipeStepLog,
+  type RenameStep
+} from './types';
+
+function isMissing(value: unknown): boolean {
+  return value == null || value === '' || (typeof value === 'number' && isNaN(value));
+}
+
+function rowCount(fields: DataField[]): number {
+  return fields.reduce((max, field) => Math.max(max, field.value.length), 0);
+}
+
+function requireField(fields: DataField[], name: string): DataField {
+  const field = fields.find(f => f.name === name);
+  if (!field) {
+    throw createError('INVALID_INPUT', `Column "${name}" does not exist`, { field: name });
+  }
+  return field;
+}
+
+function castValue(value: unknown, type: DataField['type']): unknown {
+  if (isMissing(value)) return null;
+
+  switch (type) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : Number(String(value).replace(/[,\s]/g, ''));
+      return isNaN(num) ? null : num;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (['true', 'yes', '1', 'y'].includes(text)) return true;
+      if (['false', 'no', '0', 'n'].includes(text)) return false;
+      return null;
+    }
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value as string | number);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as string).getTime() - new Date(b as string).getTime();
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b));
+}
+
+function applyFilter(fields: DataField[], step: FilterStep): DataField[] {
+  const values = requireField(fields, step.column).value;
+  const keep = values.map(value => {
+    switch (step.operator) {
+      case 'isNull':
+        return isMissing(value);
+      case 'notNull':
+        return !isMissing(value);
+      case 'in':
+        return Array.isArray(step.value) && step.value.some(v => compare(value, v) === 0);
+      case 'contains':
+        return !isMissing(value) &&
+          String(value).toLowerCase().includes(String(step.value ?? '').toLowerCase());
+    }
+
+    if (isMissing(value)) return false;
+    const diff = compare(value, step.value);
+    switch (step.operator) {
+      case 'eq': return diff === 0;
+      case 'neq': return diff !== 0;
+      case 'gt': return diff > 0;
+      case 'gte': return diff >= 0;
+      case 'lt': return diff < 0;
+      case 'lte': return diff <= 0;
+      default: return true;
+    }
+  });
+
+  return fields.map(field => ({
+    ...field,
+    value: field.value.filter((_, i) => keep[i])
+  }));
+}
+
+function applyDerive(fields: DataField[], step: DeriveStep): DataField[] {
+  if (step.operands.length === 0) {
+    throw createError('INVALID_INPUT', `Derived column "${step.name}" has no operands`);
+  }
+
+  const operands = step.operands.map(operand =>
+    'column' in operand ? requireField(fields, operand.column).value : null
+  );
+  const length = rowCount(fields);
+
+  const value = Array.from({ length }, (_, row) => {
+    const args = step.operands.map((operand, i) =>
+      'column' in operand ? operands[i]![row] : operand.value
+    );
+
+    if (step.operator === 'concat') {
+      return args.map(arg => (isMissing(arg) ? '' : String(arg))).join('');
+    }
+
+    if (args.some(isMissing)) return null;
+    const nums = args.map(Number);
+    const result = nums.slice(1).reduce((acc, num) => {
+      switch (step.operator) {
+        case 'add': return acc + num;
+        case 'subtract': return acc - num;
+        case 'multiply': return acc * num;
+        default: return num === 0 ? NaN : acc / num;
+      }
+    }, nums[0]);
+    return isFinite(result) ? result : null;
+  });
+
+  const derived: DataField = {
+    name: step.name,
+    type: step.operator === 'concat' ? 'string' : 'number',
+    value
+  };
+
+  const existing = fields.findIndex(f => f.name === step.name);
+  return existing >= 0
+    ? fields.map((field, i) => (i === existing ? derived : field))
+    : [...fields, derived];
+}
+
+function applyCast(fields: DataField[], step: CastStep): DataField[] {
+  requireField(fields, step.column);
+  return fields.map(field =>
+    field.name === step.column
+      ? { name: field.name, type: step.to, value: field.value.map(v => castValue(v, step.to)) }
+      : field
+  );
+}
+
+function applyRename(fields: DataField[], step: RenameStep): DataField[] {
+  requireField(fields, step.from);
+  if (step.from !== step.to && fields.some(f => f.name === step.to)) {
+    throw createError('INVALID_INPUT', `Column "${step.to}" already exists`, { field: step.to });
+  }
+  return fields.map(field =>
+    field.name === step.from ? { ...field, name: step.to } : field
+  );
+}
+
+function aggregate(values: number[], fn: AggregateFunction): number | null {
+  if (fn === 'count') return values.length;
+  if (values.length === 0) return null;
+  switch (fn) {
+    case 'sum': return values.reduce((a, b) => a + b, 0);
+    case 'mean': return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+  }
+}
+
+function applyPivot(fields: DataField[], step: PivotStep): DataField[] {
+  const index = requireField(fields, step.index);
+  const columns = requireField(fields, step.columns);
+  const values = requireField(fields, step.values);
+
+  const rowKeys: string[] = [];
+  const columnKeys: string[] = [];
+  const cells = new Map<string, number[]>();
+
+  index.value.forEach((rowValue, i) => {
+    const rowKey = String(rowValue ?? '');
+    const columnKey = String(columns.value[i] ?? '');
+    if (!rowKeys.includes(rowKey)) rowKeys.push(rowKey);
+    if (!columnKeys.includes(columnKey)) columnKeys.push(columnKey);
+
+    const cellKey = JSON.stringify([rowKey, columnKey]);
+    const bucket = cells.get(cellKey) ?? [];
+    const raw = values.value[i];
+    if (step.aggregate === 'count') {
+      if (!isMissing(raw)) bucket.push(1);
+    } else if (!isMissing(raw) && !isNaN(Number(raw))) {
+      bucket.push(Number(raw));
+    }
+    cells.set(cellKey, bucket);
+  });
+
+  return [
+    { name: index.name, type: index.type, value: rowKeys.map(key => castValue(key, index.type)) },
+    ...columnKeys.map(columnKey => ({
+      name: columnKey,
+      type: 'number' as const,
+      value: rowKeys.map(rowKey =>
+        aggregate(cells.get(JSON.stringify([rowKey, columnKey])) ?? [], step.aggregate)
+      )
+    }))
+  ];
+}
+
+function applyImpute(fields: DataField[], step: ImputeStep): DataField[] {
+  const field = requireField(fields, step.column);
+  const present = field.value.filter(v => !isMissing(v));
+  let fill: unknown = step.fillValue;
+
+  if (step.strategy === 'mean' || step.strategy === 'median') {
+    const nums = present.map(Number).filter(n => !isNaN(n)).sort((a, b) => a - b);
+    if (nums.length > 0) {
+      const mid = Math.floor(nums.length / 2);
+      fill = step.strategy === 'mean'
+        ? nums.reduce((a, b) => a + b, 0) / nums.length
+        : nums.length % 2 === 0 ? (nums[mid - 1] + nums[mid]) / 2 : nums[mid];
+    }
+  } else if (step.strategy === 'mode') {
+    const counts = new Map<unknown, number>();
+    present.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    fill = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  }
+
+  let previous: unknown = undefined;
+  const value = field.value.map((v, i) => {
+    if (!isMissing(v)) {
+      previous = v;
+      return v;
+    }
+    if (step.strategy === 'previous') {
+      return previous ?? field.value.slice(i + 1).find(next => !isMissing(next)) ?? null;
+    }
+    return fill ?? null;
+  });
+
+  return fields.map(f => (f.name === step.column ? { ...f, value } : f));
+}
+
+function applyBin(fields: DataField[], step: BinStep): DataField[] {
+  const field = requireField(fields, step.column);
+  const nums = field.value.map(v => (isMissing(v) ? NaN : Number(v)));
+  const valid = nums.filter(n => !isNaN(n));
+
+  let edges = step.edges ? [...step.edges].sort((a, b) => a - b) : [];
+  if (edges.length < 2) {
+    const bins = Math.max(1, step.bins ?? 5);
+    const min = valid.length ? Math.min(...valid) : 0;
+    const max = valid.length ? Math.max(...valid) : 0;
+    const width = (max - min) / bins || 1;
+    edges = Array.from({ length: bins + 1 }, (_, i) => min + i * width);
+  }
+
+  const labels = edges.slice(0, -1).map((edge, i) =>
+    `${edge.toFixed(2)} - ${edges[i + 1].toFixed(2)}`
+  );
+
+  const value = nums.map(num => {
+    if (isNaN(num) || num < edges[0] || num > edges[edges.length - 1]) return null;
+    const bin = edges.findIndex((edge, i) => i > 0 && num < edge);
+    return labels[bin === -1 ? labels.length - 1 : bin - 1];
+  });
+
+  const binned: DataField = { name: step.name ?? `${field.name}_bin`, type: 'string', value };
+  const existing = fields.findIndex(f => f.name === binned.name);
+  return existing >= 0
+    ? fields.map((f, i) => (i === existing ? binned : f))
+    : [...fields, binned];
+}
+
+export function applyStep(fields: DataField[], step: RecipeStep): DataField[] {
+  switch (step.type) {
+    case 'filter': return applyFilter(fields, step);
+    case 'derive': return applyDerive(fields, step);
+    case 'cast': return applyCast(fields, step);
+    case 'rename': return applyRename(fields, step);
+    case 'pivot': return applyPivot(fields, step);
+    case 'impute': return applyImpute(fields, step);
+    case 'bin': return applyBin(fields, step);
+    case 'clean': return DataCleaner.clean(fields, step.options).fields;
+    default:
+      throw createError('INVALID_INPUT', `Unknown recipe step "${(step as RecipeStep).type}"`);
+  }
+}
+
+/**
+ * Applies a step the user chose for `datasetId` and adds it to the recipe
+ * being recorded for that dataset, if any. Replays go through `applyStep`
+ * so that they are not recorded again.
+ */
+export function transformData(datasetId: string, fields: DataField[], step: RecipeStep): DataField[] {
+  const result = applyStep(fields, step);
+  recordStep(datasetId, step);
+  return result;
+}
+
+export function applyRecipe(fields: DataField[], recipe: Recipe): RecipeRunResult {
+  if (recipe.formatVersion > RECIPE_FORMAT_VERSION) {
+    throw createError(
+      'INVALID_INPUT',
+      `Recipe format v${recipe.formatVersion} is newer than supported v${RECIPE_FORMAT_VERSION}`
+    );
+  }
+
+  const missing = recipe.sourceSchema
+    .map(column => column.name)
+    .filter(name => !fields.some(field => field.name === name));
+  if (missing.length > 0) {
+    throw createError(
+      'INVALID_INPUT',
+      `Dataset is missing columns required by recipe "${recipe.name}": ${missing.join(', ')}`
+    );
+  }
+
+  const log: RecipeStepLog[] = [];
+  let current = fields;
+
+  recipe.steps.forEach((step, i) => {
+    const rowsBefore = rowCount(current);
+    try {
+      current = applyStep(current, step);
+    } catch (error) {
+      throw createError(
+        'PROCESSING_FAILED',
+        `Step ${i + 1} (${step.type}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    log.push({
+      step,
+      rowsBefore,
+      rowsAfter: rowCount(current),
+      columns: current.map(field => field.name)
+    });
+  });
+
+  return { fields: current, log };
+}
+
+export function createRecipe(
+  name: string,
+  fields: DataField[],
+  steps: RecipeStep[] = [],
+  datasetId?: string
+): Recipe {
+  return {
+    formatVersion: RECIPE_FORMAT_VERSION,
+    name,
+    datasetId,
+    sourceSchema: fields.map(field => ({ name: field.name, type: field.type })),
+    steps,
+    createdAt: new Date().toISOString()
+  };
+}
+
+export function serializeRecipe(recipe: Recipe): string {
+  return JSON.stringify(recipe, null, 2);
+}
+
+export function parseRecipe(json: string): Recipe {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw createError('INVALID_INPUT', 'Recipe is not valid JSON');
+  }
+
+  const recipe = parsed as Partial<Recipe>;
+  if (
+    !recipe ||
+    typeof recipe.name !== 'string' ||
+    typeof recipe.formatVersion !== 'number' ||
+    !Array.isArray(recipe.steps) ||
+    !Array.isArray(recipe.sourceSchema)
+  ) {
+    throw createError('INVALID_INPUT', 'Recipe is missing required properties');
+  }
+
+  return recipe as Recipe;
+}
+
+export function describeStep(step: RecipeStep): string {
+  switch (step.type) {
+    case 'filter':
+      return step.operator === 'isNull' || step.operator === 'notNull'
+        ? `Keep rows where ${step.column} ${step.operator === 'isNull' ? 'is empty' : 'is not empty'}`
+        : `Keep rows where ${step.column} ${step.operator} ${JSON.stringify(step.value)}`;
+    case 'derive':
+      return `Derive ${step.name} = ${step.operator}(${step.operands
+        .map(operand => ('column' in operand ? operand.column : JSON.stringify(operand.value)))
+        .join(', ')})`;
+    case 'cast':
+      return `Cast ${step.column} to ${step.to}`;
+    case 'rename':
+      return `Rename ${step.from} to ${step.to}`;
+    case 'pivot':
+      return `Pivot ${step.values} (${step.aggregate}) by ${step.index} × ${step.columns}`;
+    case 'impute':
+      return `Fill missing ${step.column} using ${step.strategy}`;
+    case 'bin':
+      return `Bin ${step.column} into ${step.edges ? `${step.edges.length - 1} ranges` : `${step.bins ?? 5} bins`}`;
+    case 'clean': {
+      const parts = [
+        step.options.removeDuplicates !== false &&
+          `remove duplicates${step.options.duplicateKeys?.length ? ` by ${step.options.duplicateKeys.join(', ')}` : ''}`,
+        `${step.options.missing?.action ?? 'impute'} missing values`,
+        `${step.options.outliers ?? 'mean'} outliers`
+      ].filter(Boolean);
+      return `Clean data: ${parts.join(', ')}`;
+    }
+  }
+}
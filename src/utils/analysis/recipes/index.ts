@@ -0,0 +1,27 @@
+export {
+  applyRecipe,
+  applyStep,
+  createRecipe,
+  describeStep,
+  parseRecipe,
+  serializeRecipe,
+  transformData
+} from './engine';
+
+export {
+  getActiveRecipe,
+  recordStep,
+  startRecording,
+  stopRecording,
+  subscribeToRecipe
+} from './recorder';
+
+export { RECIPE_FORMAT_VERSION } from './types';
+export type {
+  Recipe,
+  RecipeStep,
+  RecipeStepLog,
+  RecipeRunResult,
+  FilterOperator,
+  AggregateFunction
+} from './types';
@@ -0,0 +1,52 @@
+import { createError } from '@/utils/core/error';
+import type { Recipe, RecipeStep } from './types';
+
+type RecipeListener = (recipe: Recipe | null) => void;
+
+// The recipe steps are currently being recorded into, if any
+let activeRecipe: Recipe | null = null;
+const listeners = new Set<RecipeListener>();
+
+function notify(): void {
+  listeners.forEach(listener => listener(activeRecipe));
+}
+
+/**
+ * Starts recording into `recipe`. Only steps applied to the recipe's own
+ * dataset are recorded, so the recipe must name one.
+ */
+export function startRecording(recipe: Recipe): void {
+  if (!recipe.datasetId) {
+    throw createError('INVALID_INPUT', 'Choose a dataset to record a recipe for');
+  }
+  activeRecipe = { ...recipe, steps: [...recipe.steps] };
+  notify();
+}
+
+export function stopRecording(): Recipe | null {
+  const recipe = activeRecipe;
+  activeRecipe = null;
+  notify();
+  return recipe;
+}
+
+export function getActiveRecipe(): Recipe | null {
+  return activeRecipe;
+}
+
+/**
+ * Appends a step the user applied to `datasetId` to the active recipe. It does
+ * nothing when no recipe is being recorded or the recipe is for another dataset.
+ */
+export function recordStep(datasetId: string, step: RecipeStep): void {
+  if (!activeRecipe || activeRecipe.datasetId !== datasetId) return;
+  activeRecipe = { ...activeRecipe, steps: [...activeRecipe.steps, step] };
+  notify();
+}
+
+export function subscribeToRecipe(listener: RecipeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
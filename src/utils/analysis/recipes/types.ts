@@ -0,0 +1,112 @@
+import type { DataField } from '@/types/data';
+import type { CleaningOptions, ImputeStrategy } from '../preprocessing/cleaner';
+
+export const RECIPE_FORMAT_VERSION = 1;
+
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'in'
+  | 'isNull'
+  | 'notNull';
+
+export type RecipeScalar = string | number | boolean | null;
+
+export type DeriveOperand = { column: string } | { value: RecipeScalar };
+
+export type AggregateFunction = 'sum' | 'mean' | 'count' | 'min' | 'max';
+
+export interface FilterStep {
+  type: 'filter';
+  column: string;
+  operator: FilterOperator;
+  value?: RecipeScalar | RecipeScalar[];
+}
+
+export interface DeriveStep {
+  type: 'derive';
+  name: string;
+  operator: 'add' | 'subtract' | 'multiply' | 'divide' | 'concat';
+  operands: DeriveOperand[];
+}
+
+export interface CastStep {
+  type: 'cast';
+  column: string;
+  to: DataField['type'];
+}
+
+export interface RenameStep {
+  type: 'rename';
+  from: string;
+  to: string;
+}
+
+export interface PivotStep {
+  type: 'pivot';
+  index: string;
+  columns: string;
+  values: string;
+  aggregate: AggregateFunction;
+}
+
+export interface ImputeStep {
+  type: 'impute';
+  column: string;
+  strategy: ImputeStrategy;
+  fillValue?: string | number | boolean;
+}
+
+export interface BinStep {
+  type: 'bin';
+  column: string;
+  // Either a bin count (equal width) or explicit ascending edges
+  bins?: number;
+  edges?: number[];
+  name?: string;
+}
+
+// A DataCleaner pass, replayed with the same options
+export interface CleanStep {
+  type: 'clean';
+  options: CleaningOptions;
+}
+
+export type RecipeStep =
+  | FilterStep
+  | DeriveStep
+  | CastStep
+  | RenameStep
+  | PivotStep
+  | ImputeStep
+  | BinStep
+  | CleanStep;
+
+export interface Recipe {
+  id?: string;
+  formatVersion: number;
+  name: string;
+  description?: string;
+  datasetId?: string;
+  // Column names and types the first step expects
+  sourceSchema: Array<{ name: string; type: DataField['type'] }>;
+  steps: RecipeStep[];
+  createdAt: string;
+}
+
+export interface RecipeStepLog {
+  step: RecipeStep;
+  rowsBefore: number;
+  rowsAfter: number;
+  columns: string[];
+}
+
+export interface RecipeRunResult {
+  fields: DataField[];
+  log: RecipeStepLog[];
+}
@@ -0,0 +1,27 @@
+import { SimulationEngine } from '../engine';
+import { createSeededRandom } from '../random';
+
+describe('SimulationEngine.sampleFieldPaths', () => {
+  const demand = [12, 8, 10, 15, 9, 11, 7, 13, 10, 5];
+
+  it('should draw every period from the observed values', () => {
+    const engine = new SimulationEngine([{ name: 'demand', type: 'number', value: [...demand, null, null] }]);
+    const paths = engine.sampleFieldPaths('demand', 20, 5, createSeededRandom(3));
+
+    expect(paths).toHaveLength(5);
+    paths.forEach(path => {
+      expect(path).toHaveLength(20);
+      path.forEach(value => expect(demand).toContain(value));
+    });
+  });
+
+  it('should reject fields without values to sample', () => {
+    const engine = new SimulationEngine([
+      { name: 'demand', type: 'number', value: demand },
+      { name: 'returns', type: 'number', value: new Array(10).fill(null) }
+    ]);
+
+    expect(() => engine.sampleFieldPaths('returns', 4, 2)).toThrow('has no values to sample');
+    expect(() => engine.sampleFieldPaths('missing', 4, 2)).toThrow('not found');
+  });
+});
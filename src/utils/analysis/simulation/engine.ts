@@ -70,6 +70,38 @@ export class SimulationEngine {
     }
   }
 
+  /**
+   * Monte-Carlo paths for one numeric field. Each period is drawn from the
+   * field's observed values (bootstrap), so paths keep the empirical
+   * distribution without assuming normality. Pass a seeded `random` for
+   * reproducible runs.
+   */
+  sampleFieldPaths(
+    fieldName: string,
+    periods: number,
+    runs: number,
+    random: () => number = Math.random
+  ): Float64Array[] {
+    const field = this.fields.find(f => f.name === fieldName && f.type === 'number');
+    if (!field) {
+      throw createError('DATA_NOT_FOUND', `Numeric field "${fieldName}" not found`);
+    }
+
+    const values = new Float64Array(
+      field.value.filter((v): v is number => typeof v === 'number' && Number.isFinite(v))
+    );
+    if (values.length === 0) {
+      throw createError('VALIDATION_ERROR', `Field "${fieldName}" has no values to sample`);
+    }
+    return Array.from({ length: runs }, () => {
+      const path = new Float64Array(periods);
+      for (let i = 0; i < periods; i++) {
+        path[i] = values[Math.floor(random() * values.length)];
+      }
+      return path;
+    });
+  }
+
   private async generateScenarios(field: DataField) {
     const values = field.value as number[];
     const trend = determineTrend(values);
@@ -0,0 +1,55 @@
+import { backtest, crossoverSignals, strategySignals } from '../backtest';
+
+const options = { initialCapital: 1000, feeRate: 0, periodsPerYear: 252 };
+
+describe('Signal backtests', () => {
+  it('should detect crossovers in both directions', () => {
+    expect(crossoverSignals([1, 3, 3, 1], [2, 2, 2, 2])).toEqual([
+      { index: 1, side: 'buy' },
+      { index: 3, side: 'sell' }
+    ]);
+  });
+
+  it('should report P&L, drawdown and win rate for trades', () => {
+    const close = [100, 110, 121, 100, 120];
+    const result = backtest(close, [
+      { index: 0, side: 'buy' },
+      { index: 2, side: 'sell' },
+      { index: 3, side: 'buy' }
+    ], options);
+
+    expect(result.trades).toHaveLength(2);
+    expect(result.trades[0].pnl).toBeCloseTo(210);
+    // The open position is closed on the last bar
+    expect(result.trades[1].exitIndex).toBe(4);
+    expect(result.pnl).toBeCloseTo(1210 * 1.2 - 1000);
+    expect(result.winRate).toBe(1);
+    expect(result.maxDrawdown).toBe(0);
+    expect(result.buyAndHoldReturn).toBeCloseTo(0.2);
+  });
+
+  it('should measure drawdown and charge fees', () => {
+    const result = backtest([100, 80, 120], [{ index: 0, side: 'buy' }], { ...options, feeRate: 0.01 });
+    expect(result.maxDrawdown).toBeCloseTo(0.2, 1);
+    expect(result.totalReturn).toBeLessThan(0.2);
+    expect(result.equity).toHaveLength(3);
+  });
+
+  it('should generate signals for each strategy', () => {
+    const close = Array.from({ length: 120 }, (_, i) => 100 + 10 * Math.sin(i / 8));
+    (['smaCross', 'emaCross'] as const).forEach(type => {
+      const signals = strategySignals(close, { type, fast: 5, slow: 20 });
+      expect(signals.length).toBeGreaterThan(2);
+      expect(signals[0].side).toBeDefined();
+    });
+    expect(strategySignals(close, { type: 'macdCross', fast: 5, slow: 12, signal: 4 }).length).toBeGreaterThan(2);
+    expect(strategySignals(close, { type: 'rsi', period: 5, oversold: 30, overbought: 70 }).length).toBeGreaterThan(0);
+    expect(() => strategySignals(close, { type: 'smaCross', fast: 20, slow: 5 })).toThrow();
+  });
+
+  it('should give a positive Sharpe ratio to a steadily rising equity curve', () => {
+    const close = Array.from({ length: 50 }, (_, i) => 100 * 1.01 ** i * (i % 2 ? 1.002 : 1));
+    const result = backtest(close, [{ index: 0, side: 'buy' }], options);
+    expect(result.sharpeRatio).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  atr,
+  bollingerBands,
+  ema,
+  macd,
+  obv,
+  readOhlcv,
+  rsi,
+  sma,
+  stochastic,
+  wma
+} from '../indicators';
+import type { DataField } from '@/types/data';
+
+const prices = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+describe('Technical indicators', () => {
+  it('should compute moving averages', () => {
+    expect(sma(prices, 3).slice(0, 4)).toEqual([null, null, 2, 3]);
+    expect(wma([1, 2, 3], 3)[2]).toBeCloseTo(14 / 6);
+
+    const exponential = ema([2, 4, 6, 8], 3);
+    expect(exponential.slice(0, 3)).toEqual([null, null, 4]);
+    expect(exponential[3]).toBeCloseTo(6);
+    expect(() => sma(prices, 0)).toThrow();
+  });
+
+  it('should bound RSI between 0 and 100', () => {
+    expect(rsi(prices, 5)[9]).toBe(100);
+    expect(rsi([...prices].reverse(), 5)[9]).toBe(0);
+    const mixed = rsi([44, 44.3, 44.1, 43.6, 44.3, 44.8, 45.1, 45.4, 45.8, 46.1], 5);
+    expect(mixed[4]).toBeNull();
+    mixed.slice(5).forEach(value => {
+      expect(value).toBeGreaterThan(0);
+      expect(value).toBeLessThan(100);
+    });
+  });
+
+  it('should derive MACD from fast and slow EMAs', () => {
+    const series = Array.from({ length: 40 }, (_, i) => 100 + i);
+    const { macd: line, signal, histogram } = macd(series, 3, 6, 4);
+    expect(line[4]).toBeNull();
+    // On a steady trend the MACD line settles to a constant, so the histogram goes to zero
+    expect(line[39]).toBeCloseTo(1.5);
+    expect(signal[39]).toBeCloseTo(1.5);
+    expect(histogram[39]).toBeCloseTo(0);
+    expect(() => macd(series, 6, 3)).toThrow();
+  });
+
+  it('should place Bollinger bands around the SMA', () => {
+    const bands = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(bands.middle[7]).toBe(5);
+    expect(bands.upper[7]).toBe(9);
+    expect(bands.lower[7]).toBe(1);
+  });
+
+  it('should compute ATR and the stochastic oscillator', () => {
+    const high = [10, 11, 12, 13, 14];
+    const low = [8, 9, 10, 11, 12];
+    const close = [9, 10, 11, 12, 14];
+    expect(atr(high, low, close, 3)[2]).toBeCloseTo(2);
+
+    const { k, d } = stochastic(high, low, close, 3, 2);
+    expect(k[4]).toBe(100);
+    expect(k[2]).toBeCloseTo(75);
+    expect(d[4]).toBeCloseTo((k[3]! + k[4]!) / 2);
+  });
+
+  it('should accumulate on-balance volume', () => {
+    expect(obv([10, 11, 10, 10, 12], [100, 200, 300, 400, 500])).toEqual([0, 200, -100, -100, 400]);
+  });
+
+  it('should read bars sorted by time', () => {
+    const fields: DataField[] = [
+      { name: 'date', type: 'date', value: ['2024-01-03', '2024-01-01', '2024-01-02'] },
+      { name: 'close', type: 'number', value: [3, 1, null] },
+      { name: 'high', type: 'number', value: [4, 2, 3] }
+    ];
+    const bars = readOhlcv(fields, { timeField: 'date', closeField: 'close', highField: 'high' });
+    expect(bars.time).toEqual(['2024-01-01', '2024-01-03']);
+    expect(bars.high).toEqual([2, 4]);
+    expect(bars.open).toEqual([1, 3]);
+    expect(bars.volume).toBeNull();
+  });
+});
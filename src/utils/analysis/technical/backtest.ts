@@ -0,0 +1,168 @@
+import { createError } from '@/utils/core/error';
+import { ema, macd, rsi, sma, type Series } from './indicators';
+
+export type SignalSide = 'buy' | 'sell';
+
+export interface Signal {
+  index: number;
+  side: SignalSide;
+}
+
+export type Strategy =
+  | { type: 'smaCross' | 'emaCross'; fast: number; slow: number }
+  | { type: 'macdCross'; fast: number; slow: number; signal: number }
+  | { type: 'rsi'; period: number; oversold: number; overbought: number };
+
+export interface Trade {
+  entryIndex: number;
+  exitIndex: number;
+  entryPrice: number;
+  exitPrice: number;
+  // Net of fees
+  pnl: number;
+  return: number;
+}
+
+export interface BacktestOptions {
+  initialCapital: number;
+  // Charged on the traded value at entry and at exit, e.g. 0.001 for 0.1%
+  feeRate: number;
+  // Bars per year, used to annualise the Sharpe ratio
+  periodsPerYear: number;
+}
+
+export interface BacktestResult {
+  signals: Signal[];
+  trades: Trade[];
+  equity: number[];
+  pnl: number;
+  totalReturn: number;
+  buyAndHoldReturn: number;
+  // Largest peak-to-trough fall of the equity curve, as a fraction
+  maxDrawdown: number;
+  sharpeRatio: number;
+  winRate: number;
+}
+
+/** Buy when `fast` crosses above `slow`, sell when it crosses back below. */
+export function crossoverSignals(fast: Series, slow: Series): Signal[] {
+  const signals: Signal[] = [];
+  for (let i = 1; i < fast.length; i++) {
+    const [prevFast, prevSlow, curFast, curSlow] = [fast[i - 1], slow[i - 1], fast[i], slow[i]];
+    if (prevFast == null || prevSlow == null || curFast == null || curSlow == null) continue;
+    if (prevFast <= prevSlow && curFast > curSlow) signals.push({ index: i, side: 'buy' });
+    if (prevFast >= prevSlow && curFast < curSlow) signals.push({ index: i, side: 'sell' });
+  }
+  return signals;
+}
+
+/** Buy when RSI climbs back above `oversold`, sell when it drops back below `overbought`. */
+function rsiSignals(values: Series, oversold: number, overbought: number): Signal[] {
+  const signals: Signal[] = [];
+  for (let i = 1; i < values.length; i++) {
+    const previous = values[i - 1];
+    const current = values[i];
+    if (previous == null || current == null) continue;
+    if (previous <= oversold && current > oversold) signals.push({ index: i, side: 'buy' });
+    if (previous >= overbought && current < overbought) signals.push({ index: i, side: 'sell' });
+  }
+  return signals;
+}
+
+export function strategySignals(close: number[], strategy: Strategy): Signal[] {
+  switch (strategy.type) {
+    case 'smaCross':
+    case 'emaCross': {
+      if (strategy.fast >= strategy.slow) {
+        throw createError('VALIDATION_ERROR', 'Fast period must be shorter than the slow period');
+      }
+      const average = strategy.type === 'smaCross' ? sma : ema;
+      return crossoverSignals(average(close, strategy.fast), average(close, strategy.slow));
+    }
+    case 'macdCross': {
+      const lines = macd(close, strategy.fast, strategy.slow, strategy.signal);
+      return crossoverSignals(lines.macd, lines.signal);
+    }
+    case 'rsi':
+      return rsiSignals(rsi(close, strategy.period), strategy.oversold, strategy.overbought);
+  }
+}
+
+function sharpe(equity: number[], periodsPerYear: number): number {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) returns.push(equity[i] / equity[i - 1] - 1);
+  }
+  if (returns.length < 2) return 0;
+  const avg = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (returns.length - 1);
+  return variance > 0 ? avg / Math.sqrt(variance) * Math.sqrt(periodsPerYear) : 0;
+}
+
+/**
+ * Long-only backtest that trades at the close of each signal bar with all
+ * available capital. A position still open on the last bar is closed there.
+ */
+export function backtest(close: number[], signals: Signal[], options: BacktestOptions): BacktestResult {
+  if (close.length < 2) {
+    throw createError('VALIDATION_ERROR', 'Backtesting needs at least two price bars');
+  }
+  if (!(options.initialCapital > 0)) {
+    throw createError('VALIDATION_ERROR', 'Initial capital must be greater than zero');
+  }
+
+  const byIndex = new Map(signals.map(signal => [signal.index, signal.side]));
+  const trades: Trade[] = [];
+  const equity: number[] = [];
+  let cash = options.initialCapital;
+  let units = 0;
+  let entry: { index: number; price: number; cost: number } | null = null;
+
+  const exit = (i: number) => {
+    const proceeds = units * close[i] * (1 - options.feeRate);
+    trades.push({
+      entryIndex: entry!.index,
+      exitIndex: i,
+      entryPrice: entry!.price,
+      exitPrice: close[i],
+      pnl: proceeds - entry!.cost,
+      return: proceeds / entry!.cost - 1
+    });
+    cash = proceeds;
+    units = 0;
+    entry = null;
+  };
+
+  close.forEach((price, i) => {
+    const side = byIndex.get(i);
+    if (side === 'buy' && !entry && price > 0) {
+      entry = { index: i, price, cost: cash };
+      units = cash * (1 - options.feeRate) / price;
+      cash = 0;
+    } else if (side === 'sell' && entry) {
+      exit(i);
+    }
+    if (entry && i === close.length - 1) exit(i);
+    equity.push(cash + units * price);
+  });
+
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  equity.forEach(value => {
+    peak = Math.max(peak, value);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+  });
+
+  const final = equity[equity.length - 1];
+  return {
+    signals,
+    trades,
+    equity,
+    pnl: final - options.initialCapital,
+    totalReturn: final / options.initialCapital - 1,
+    buyAndHoldReturn: close[0] > 0 ? close[close.length - 1] / close[0] - 1 : 0,
+    maxDrawdown,
+    sharpeRatio: sharpe(equity, options.periodsPerYear),
+    winRate: trades.length ? trades.filter(trade => trade.pnl > 0).length / trades.length : 0
+  };
+}
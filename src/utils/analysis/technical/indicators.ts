@@ -0,0 +1,241 @@
+import type { DataField } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { toTime } from '@/utils/analysis/network/events';
+
+// Indicator values line up with the input bars; bars before an indicator
+// has enough history are null.
+export type Series = (number | null)[];
+
+export interface Ohlcv {
+  time: string[];
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[] | null;
+}
+
+export interface OhlcvMapping {
+  timeField?: string;
+  // Open, high and low fall back to the close when not mapped
+  openField?: string;
+  highField?: string;
+  lowField?: string;
+  closeField: string;
+  volumeField?: string;
+}
+
+function assertPeriod(period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw createError('VALIDATION_ERROR', 'Indicator period must be a positive integer');
+  }
+}
+
+/**
+ * Reads price bars from column-oriented fields. Rows without a numeric
+ * close are dropped, and bars are sorted by time when a time column is
+ * mapped.
+ */
+export function readOhlcv(fields: DataField[], mapping: OhlcvMapping): Ohlcv {
+  const column = (name?: string) => {
+    if (!name) return null;
+    const field = fields.find(candidate => candidate.name === name);
+    if (!field) throw createError('VALIDATION_ERROR', `Column "${name}" not found`);
+    return field.value;
+  };
+  const close = column(mapping.closeField)!;
+  const open = column(mapping.openField);
+  const high = column(mapping.highField);
+  const low = column(mapping.lowField);
+  const volume = column(mapping.volumeField);
+  const time = column(mapping.timeField);
+
+  const bars: { sort: number; time: string; open: number; high: number; low: number; close: number; volume: number }[] = [];
+  close.forEach((value, i) => {
+    const price = Number(value);
+    if (value == null || value === '' || !isFinite(price)) return;
+    const read = (values: any[] | null) => {
+      const number = values ? Number(values[i]) : NaN;
+      return values && values[i] != null && values[i] !== '' && isFinite(number) ? number : price;
+    };
+    const stamp = time ? toTime(time[i]) : null;
+    bars.push({
+      sort: stamp ?? i,
+      time: time && time[i] != null
+        ? (time[i] instanceof Date ? time[i].toISOString().slice(0, 10) : String(time[i]))
+        : String(i + 1),
+      open: read(open),
+      high: read(high),
+      low: read(low),
+      close: price,
+      volume: volume ? Number(volume[i]) || 0 : 0
+    });
+  });
+  if (time) bars.sort((a, b) => a.sort - b.sort);
+
+  return {
+    time: bars.map(bar => bar.time),
+    open: bars.map(bar => bar.open),
+    high: bars.map(bar => bar.high),
+    low: bars.map(bar => bar.low),
+    close: bars.map(bar => bar.close),
+    volume: volume ? bars.map(bar => bar.volume) : null
+  };
+}
+
+export function sma(values: number[], period: number): Series {
+  assertPeriod(period);
+  const result: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  });
+  return result;
+}
+
+/** Exponential moving average seeded with the SMA of the first `period` values. */
+export function ema(values: number[], period: number): Series {
+  assertPeriod(period);
+  const result: Series = new Array(values.length).fill(null);
+  if (values.length < period) return result;
+  const alpha = 2 / (period + 1);
+  let current = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = current;
+  for (let i = period; i < values.length; i++) {
+    current = alpha * values[i] + (1 - alpha) * current;
+    result[i] = current;
+  }
+  return result;
+}
+
+/** Weighted moving average with linearly increasing weights on recent values. */
+export function wma(values: number[], period: number): Series {
+  assertPeriod(period);
+  const denominator = period * (period + 1) / 2;
+  return values.map((_, i) => {
+    if (i < period - 1) return null;
+    let sum = 0;
+    for (let w = 1; w <= period; w++) sum += values[i - period + w] * w;
+    return sum / denominator;
+  });
+}
+
+/** Wilder's smoothing: an SMA seed followed by (prev * (n - 1) + value) / n. */
+function wilder(values: number[], period: number, offset = 0): Series {
+  const result: Series = new Array(values.length + offset).fill(null);
+  if (values.length < period) return result;
+  let current = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1 + offset] = current;
+  for (let i = period; i < values.length; i++) {
+    current = (current * (period - 1) + values[i]) / period;
+    result[i + offset] = current;
+  }
+  return result;
+}
+
+/** Relative strength index with Wilder smoothing, 0-100. */
+export function rsi(values: number[], period = 14): Series {
+  assertPeriod(period);
+  const gains: number[] = [];
+  const losses: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gains.push(Math.max(change, 0));
+    losses.push(Math.max(-change, 0));
+  }
+  const avgGain = wilder(gains, period, 1);
+  const avgLoss = wilder(losses, period, 1);
+  return values.map((_, i) => {
+    const gain = avgGain[i];
+    const loss = avgLoss[i];
+    if (gain == null || loss == null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+export function macd(values: number[], fast = 12, slow = 26, signalPeriod = 9): { macd: Series; signal: Series; histogram: Series } {
+  if (fast >= slow) {
+    throw createError('VALIDATION_ERROR', 'MACD fast period must be shorter than the slow period');
+  }
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) =>
+    fastEma[i] != null && slowEma[i] != null ? fastEma[i]! - slowEma[i]! : null);
+
+  // The signal line is an EMA over the defined part of the MACD line
+  const start = line.findIndex(value => value != null);
+  const signal: Series = new Array(values.length).fill(null);
+  if (start >= 0) {
+    ema(line.slice(start) as number[], signalPeriod).forEach((value, i) => {
+      signal[start + i] = value;
+    });
+  }
+
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) => (value != null && signal[i] != null ? value - signal[i]! : null))
+  };
+}
+
+export function bollingerBands(values: number[], period = 20, width = 2): { middle: Series; upper: Series; lower: Series } {
+  const middle = sma(values, period);
+  const deviation = middle.map((avg, i) => {
+    if (avg == null) return null;
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += (values[j] - avg) ** 2;
+    return Math.sqrt(sum / period);
+  });
+  return {
+    middle,
+    upper: middle.map((avg, i) => (avg != null ? avg + width * deviation[i]! : null)),
+    lower: middle.map((avg, i) => (avg != null ? avg - width * deviation[i]! : null))
+  };
+}
+
+/** Average true range with Wilder smoothing. */
+export function atr(high: number[], low: number[], close: number[], period = 14): Series {
+  assertPeriod(period);
+  const trueRange = close.map((_, i) => i === 0
+    ? high[i] - low[i]
+    : Math.max(high[i] - low[i], Math.abs(high[i] - close[i - 1]), Math.abs(low[i] - close[i - 1])));
+  return wilder(trueRange, period);
+}
+
+/** Stochastic oscillator: %K over `kPeriod` bars and %D as its SMA. */
+export function stochastic(high: number[], low: number[], close: number[], kPeriod = 14, dPeriod = 3): { k: Series; d: Series } {
+  assertPeriod(kPeriod);
+  assertPeriod(dPeriod);
+  const k: Series = close.map((value, i) => {
+    if (i < kPeriod - 1) return null;
+    const highest = Math.max(...high.slice(i - kPeriod + 1, i + 1));
+    const lowest = Math.min(...low.slice(i - kPeriod + 1, i + 1));
+    return highest === lowest ? 50 : (value - lowest) / (highest - lowest) * 100;
+  });
+
+  const d: Series = new Array(close.length).fill(null);
+  k.forEach((_, i) => {
+    const window = k.slice(i - dPeriod + 1, i + 1);
+    if (i >= dPeriod - 1 && window.every(value => value != null)) {
+      d[i] = (window as number[]).reduce((sum, value) => sum + value, 0) / dPeriod;
+    }
+  });
+  return { k, d };
+}
+
+/** On-balance volume, starting from zero at the first bar. */
+export function obv(close: number[], volume: number[]): number[] {
+  const result: number[] = [];
+  close.forEach((value, i) => {
+    if (i === 0) {
+      result.push(0);
+      return;
+    }
+    const direction = Math.sign(value - close[i - 1]);
+    result.push(result[i - 1] + direction * (volume[i] ?? 0));
+  });
+  return result;
+}
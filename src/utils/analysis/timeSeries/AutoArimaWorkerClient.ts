@@ -0,0 +1,31 @@
+import { createWorkerCall, type WorkerCall } from '@/utils/core/workerUtils';
+import { autoArima, type AutoArimaOptions, type AutoArimaResult } from './autoArima';
+
+/**
+ * Runs the auto-ARIMA order search off the main thread so grid searches
+ * keep the UI responsive; without worker support the search runs inline.
+ */
+export class AutoArimaWorkerClient {
+  private worker: WorkerCall | null = null;
+
+  constructor() {
+    if (typeof Worker === 'undefined') return;
+    try {
+      const worker = new Worker(new URL('./autoArima.worker.ts', import.meta.url), { type: 'module' });
+      this.worker = createWorkerCall(worker, 'Auto-ARIMA');
+    } catch (error) {
+      console.error('Error initializing auto-ARIMA worker:', error);
+      this.worker = null;
+    }
+  }
+
+  async search(values: number[], options: AutoArimaOptions): Promise<AutoArimaResult> {
+    if (!this.worker) return autoArima(values, options);
+    return this.worker.call<AutoArimaResult>({ values, options });
+  }
+
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
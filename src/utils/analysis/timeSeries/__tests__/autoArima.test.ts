@@ -0,0 +1,83 @@
+import { createSeededRandom, sampleNormal } from '@/utils/analysis/simulation/random';
+import { adfTest, autoArima, fitSarima, kpssTest, ljungBox, seasonalStrength } from '../autoArima';
+
+const noise = (length: number, seed: number) => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length }, () => sampleNormal(random));
+};
+
+const ar1 = (phi: number, length: number, seed: number) => {
+  const shocks = noise(length, seed);
+  const values: number[] = [];
+  shocks.forEach((shock, i) => values.push(10 + (i ? phi * (values[i - 1] - 10) : 0) + shock));
+  return values;
+};
+
+const randomWalk = (length: number, seed: number) => {
+  let level = 0;
+  return noise(length, seed).map(shock => (level += shock));
+};
+
+describe('Auto-ARIMA', () => {
+  it('should separate stationary series from random walks', () => {
+    const stationary = noise(200, 1);
+    const walk = randomWalk(200, 2);
+    expect(kpssTest(stationary)).toBeLessThan(0.463);
+    expect(kpssTest(walk)).toBeGreaterThan(0.463);
+    expect(adfTest(stationary)).toBeLessThan(-2.86);
+    expect(adfTest(walk)).toBeGreaterThan(-2.86);
+  });
+
+  it('should recover an AR(1) coefficient', () => {
+    const fit = fitSarima(ar1(0.7, 400, 2), { p: 1, d: 0, q: 0, P: 0, D: 0, Q: 0, period: 1, constant: true });
+    expect(fit.ar[0]).toBeCloseTo(0.7, 1);
+    expect(fit.intercept / (1 - fit.ar[0])).toBeCloseTo(10, 0);
+    expect(fit.sigma2).toBeCloseTo(1, 0);
+  });
+
+  it('should pick one difference and a low order for a random walk', () => {
+    const result = autoArima(randomWalk(150, 4), { test: 'kpss' });
+    expect(result.differencing.d).toBe(1);
+    expect(result.best.order.p + result.best.order.q).toBeLessThanOrEqual(2);
+    expect(result.diagnostics.ljungBox.pValue).toBeGreaterThan(0.05);
+  });
+
+  it('should rank candidates by the chosen criterion', () => {
+    const series = ar1(0.6, 200, 5);
+    (['aic', 'aicc', 'bic'] as const).forEach(criterion => {
+      const result = autoArima(series, { criterion, search: 'grid', maxP: 3, maxQ: 3 });
+      const scores = result.candidates.map(candidate => candidate[criterion]);
+      expect(scores).toEqual([...scores].sort((a, b) => a - b));
+      expect(result.candidates[0].order).toEqual(result.best.order);
+      expect(result.differencing.d).toBe(0);
+    });
+  });
+
+  it('should detect seasonality and forecast with widening intervals', () => {
+    const shocks = noise(120, 6);
+    const series = shocks.map((shock, i) => 50 + 10 * Math.sin(2 * Math.PI * i / 12) + 0.5 * shock);
+    expect(seasonalStrength(series, 12)).toBeGreaterThan(0.64);
+
+    const result = autoArima(series, { seasonal: true, period: 12, horizon: 24 });
+    expect(result.differencing.D).toBe(1);
+    expect(result.forecast.mean).toHaveLength(24);
+    // The forecast repeats the seasonal pattern
+    expect(result.forecast.mean[0]).toBeCloseTo(50 + 10 * Math.sin(2 * Math.PI * 120 / 12), -1);
+    const widths = result.forecast.upper.map((upper, h) => upper - result.forecast.lower[h]);
+    expect(widths[23]).toBeGreaterThanOrEqual(widths[0]);
+    expect(result.fitted).toHaveLength(120);
+  });
+
+  it('should report autocorrelated residuals in the Ljung-Box test', () => {
+    const white = ljungBox(noise(200, 7), 10, 0);
+    const correlated = ljungBox(ar1(0.8, 200, 8), 10, 0);
+    expect(white.pValue).toBeGreaterThan(0.05);
+    expect(correlated.pValue).toBeLessThan(0.01);
+    expect(correlated.df).toBe(10);
+  });
+
+  it('should reject short or invalid series', () => {
+    expect(() => autoArima([1, 2, 3])).toThrow();
+    expect(() => autoArima(noise(50, 9), { seasonal: true, period: 1 })).toThrow();
+  });
+});
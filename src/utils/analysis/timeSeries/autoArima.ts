@@ -0,0 +1,668 @@
+import { probit } from 'simple-statistics';
+import { createError } from '@/utils/core/error';
+import { chiSquareCDF } from '@/utils/statistics/distributions';
+
+export type InformationCriterion = 'aic' | 'aicc' | 'bic';
+export type UnitRootTest = 'kpss' | 'adf';
+
+export interface SarimaOrder {
+  p: number;
+  d: number;
+  q: number;
+  P: number;
+  D: number;
+  Q: number;
+  // 1 for non-seasonal models
+  period: number;
+  constant: boolean;
+}
+
+export interface AutoArimaOptions {
+  seasonal?: boolean;
+  period?: number;
+  criterion?: InformationCriterion;
+  test?: UnitRootTest;
+  // Stepwise follows Hyndman-Khandakar; grid fits every order up to maxOrder
+  search?: 'stepwise' | 'grid';
+  maxP?: number;
+  maxQ?: number;
+  maxSeasonalP?: number;
+  maxSeasonalQ?: number;
+  // Largest p + q + P + Q tried by the grid search
+  maxOrder?: number;
+  maxD?: number;
+  maxSeasonalD?: number;
+  // Fixed differencing orders skip the corresponding test
+  d?: number;
+  D?: number;
+  horizon?: number;
+  level?: number;
+}
+
+export interface ArimaCandidate {
+  order: SarimaOrder;
+  logLik: number;
+  sigma2: number;
+  aic: number;
+  aicc: number;
+  bic: number;
+}
+
+export interface ArimaFit extends ArimaCandidate {
+  intercept: number;
+  ar: number[];
+  ma: number[];
+  seasonalAr: number[];
+  seasonalMa: number[];
+}
+
+export interface UnitRootResult {
+  test: UnitRootTest;
+  d: number;
+  statistic: number;
+  stationary: boolean;
+}
+
+export interface LjungBoxResult {
+  statistic: number;
+  lag: number;
+  df: number;
+  pValue: number;
+}
+
+export interface AutoArimaResult {
+  best: ArimaFit;
+  // Every successful fit, best first
+  candidates: ArimaCandidate[];
+  criterion: InformationCriterion;
+  differencing: {
+    d: number;
+    D: number;
+    tests: UnitRootResult[];
+    seasonalStrength: number | null;
+  };
+  fitted: (number | null)[];
+  residuals: (number | null)[];
+  diagnostics: {
+    ljungBox: LjungBoxResult;
+    acf: number[];
+    // 95% bound for residual autocorrelations under white noise
+    bound: number;
+  };
+  forecast: {
+    mean: number[];
+    lower: number[];
+    upper: number[];
+    level: number;
+  };
+  failedFits: number;
+}
+
+// 5% critical values
+const KPSS_CRITICAL = 0.463;
+const ADF_CRITICAL = -2.86;
+const SEASONAL_STRENGTH_THRESHOLD = 0.64;
+const MAX_STEPWISE_MODELS = 94;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variance = (values: number[]) => {
+  const avg = mean(values);
+  return values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / values.length;
+};
+
+export function difference(values: number[], lag = 1, times = 1): number[] {
+  let result = values;
+  for (let i = 0; i < times; i++) {
+    const source = result;
+    result = source.slice(lag).map((value, j) => value - source[j]);
+  }
+  return result;
+}
+
+/** Least squares via the normal equations with partial pivoting. */
+function leastSquares(rows: number[][], target: number[]): number[] {
+  const k = rows[0]?.length ?? 0;
+  const xtx = Array.from({ length: k }, () => new Array(k + 1).fill(0));
+  rows.forEach((row, t) => {
+    for (let i = 0; i < k; i++) {
+      for (let j = i; j < k; j++) xtx[i][j] += row[i] * row[j];
+      xtx[i][k] += row[i] * target[t];
+    }
+  });
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j < i; j++) xtx[i][j] = xtx[j][i];
+  }
+
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < k; row++) {
+      if (Math.abs(xtx[row][col]) > Math.abs(xtx[pivot][col])) pivot = row;
+    }
+    if (Math.abs(xtx[pivot][col]) < 1e-10) {
+      throw createError('ANALYSIS_ERROR', 'Regression is singular');
+    }
+    [xtx[col], xtx[pivot]] = [xtx[pivot], xtx[col]];
+    for (let row = col + 1; row < k; row++) {
+      const factor = xtx[row][col] / xtx[col][col];
+      for (let j = col; j <= k; j++) xtx[row][j] -= factor * xtx[col][j];
+    }
+  }
+
+  const beta = new Array(k).fill(0);
+  for (let i = k - 1; i >= 0; i--) {
+    let sum = xtx[i][k];
+    for (let j = i + 1; j < k; j++) sum -= xtx[i][j] * beta[j];
+    beta[i] = sum / xtx[i][i];
+  }
+  return beta;
+}
+
+/**
+ * KPSS test for level stationarity with a Bartlett-window long-run
+ * variance. Large statistics reject stationarity.
+ */
+export function kpssTest(values: number[]): number {
+  const n = values.length;
+  const avg = mean(values);
+  const e = values.map(value => value - avg);
+  let partial = 0;
+  let eta = 0;
+  e.forEach(value => {
+    partial += value;
+    eta += partial * partial;
+  });
+  eta /= n * n;
+
+  const lags = Math.floor(3 * Math.sqrt(n) / 13);
+  let longRun = e.reduce((sum, value) => sum + value * value, 0) / n;
+  for (let j = 1; j <= lags; j++) {
+    let cov = 0;
+    for (let t = j; t < n; t++) cov += e[t] * e[t - j];
+    longRun += 2 * (1 - j / (lags + 1)) * cov / n;
+  }
+  return longRun > 0 ? eta / longRun : 0;
+}
+
+/**
+ * Augmented Dickey-Fuller t statistic for the lagged level in a regression
+ * with a constant. Statistics below the critical value reject a unit root.
+ */
+export function adfTest(values: number[], lags = Math.floor(Math.cbrt(values.length - 1))): number {
+  const dy = difference(values);
+  const rows: number[][] = [];
+  const target: number[] = [];
+  for (let t = lags; t < dy.length; t++) {
+    const row = [1, values[t]];
+    for (let i = 1; i <= lags; i++) row.push(dy[t - i]);
+    rows.push(row);
+    target.push(dy[t]);
+  }
+  if (rows.length <= rows[0].length + 1) {
+    throw createError('VALIDATION_ERROR', 'Not enough observations for the ADF test');
+  }
+
+  const beta = leastSquares(rows, target);
+  const residuals = rows.map((row, t) => target[t] - row.reduce((sum, x, i) => sum + x * beta[i], 0));
+  const s2 = residuals.reduce((sum, r) => sum + r * r, 0) / (rows.length - beta.length);
+
+  // Standard error of the level coefficient via the partialled-out regressor
+  const others = rows.map(row => row.filter((_, i) => i !== 1));
+  const gamma = leastSquares(others, rows.map(row => row[1]));
+  const partialSS = others.reduce((sum, row, t) =>
+    sum + (rows[t][1] - row.reduce((total, x, i) => total + x * gamma[i], 0)) ** 2, 0);
+  return partialSS > 0 ? beta[1] / Math.sqrt(s2 / partialSS) : 0;
+}
+
+function isStationary(values: number[], test: UnitRootTest): { statistic: number; stationary: boolean } {
+  if (variance(values) === 0) return { statistic: 0, stationary: true };
+  if (test === 'adf') {
+    const statistic = adfTest(values);
+    return { statistic, stationary: statistic < ADF_CRITICAL };
+  }
+  const statistic = kpssTest(values);
+  return { statistic, stationary: statistic < KPSS_CRITICAL };
+}
+
+/**
+ * Seasonal strength from a classical moving-average decomposition:
+ * 1 - Var(remainder) / Var(detrended), clipped at zero.
+ */
+export function seasonalStrength(values: number[], period: number): number {
+  const half = Math.floor(period / 2);
+  const detrended: { t: number; value: number }[] = [];
+  for (let t = half; t < values.length - half; t++) {
+    let sum = 0;
+    if (period % 2 === 0) {
+      sum = 0.5 * values[t - half] + 0.5 * values[t + half];
+      for (let j = -half + 1; j < half; j++) sum += values[t + j];
+    } else {
+      for (let j = -half; j <= half; j++) sum += values[t + j];
+    }
+    detrended.push({ t, value: values[t] - sum / period });
+  }
+  if (detrended.length < period) return 0;
+
+  const totals = new Array(period).fill(0);
+  const counts = new Array(period).fill(0);
+  detrended.forEach(({ t, value }) => {
+    totals[t % period] += value;
+    counts[t % period]++;
+  });
+  const seasonal = totals.map((total, i) => (counts[i] ? total / counts[i] : 0));
+  const remainder = detrended.map(({ t, value }) => value - seasonal[t % period]);
+
+  const detrendedVariance = variance(detrended.map(({ value }) => value));
+  return detrendedVariance > 0 ? Math.max(0, 1 - variance(remainder) / detrendedVariance) : 0;
+}
+
+/** True when the impulse response of 1 / (1 + sign * Σ c_l B^l) dies out. */
+function isStable(lags: number[], coefficients: number[], sign: 1 | -1): boolean {
+  if (lags.length === 0) return true;
+  const steps = 500;
+  const response = new Array(steps).fill(0);
+  response[0] = 1;
+  for (let t = 1; t < steps; t++) {
+    let value = 0;
+    lags.forEach((lag, i) => {
+      if (t - lag >= 0) value -= sign * coefficients[i] * response[t - lag];
+    });
+    response[t] = value;
+  }
+  return response.slice(steps - 50).every(value => Math.abs(value) < 1);
+}
+
+interface LagModel {
+  constant: boolean;
+  arLags: number[];
+  maLags: number[];
+}
+
+function modelLags(order: SarimaOrder): LagModel {
+  const seasonalLags = (count: number) => Array.from({ length: count }, (_, i) => (i + 1) * order.period);
+  const unique = (lags: number[]) => Array.from(new Set(lags)).sort((a, b) => a - b);
+  return {
+    constant: order.constant,
+    arLags: unique([...Array.from({ length: order.p }, (_, i) => i + 1), ...seasonalLags(order.P)]),
+    maLags: unique([...Array.from({ length: order.q }, (_, i) => i + 1), ...seasonalLags(order.Q)])
+  };
+}
+
+interface ArmaEstimate {
+  intercept: number;
+  phi: number[];
+  theta: number[];
+  // Conditional residuals; zero before the largest lag
+  residuals: number[];
+}
+
+/**
+ * Hannan-Rissanen estimation: a long autoregression supplies innovation
+ * estimates, which then enter an ordinary regression as the MA regressors.
+ * Seasonal terms are extra lags at multiples of the period, so every fit
+ * stays a linear least-squares problem.
+ */
+function estimateArma(x: number[], model: LagModel): ArmaEstimate {
+  const { arLags, maLags, constant } = model;
+  const maxLag = Math.max(0, ...arLags, ...maLags);
+  const n = x.length;
+
+  let innovations = new Array(n).fill(0);
+  let start = maxLag;
+  if (maLags.length) {
+    const longOrder = Math.min(Math.floor(n / 3), Math.max(10, maxLag + 5));
+    const rows: number[][] = [];
+    const target: number[] = [];
+    for (let t = longOrder; t < n; t++) {
+      rows.push([1, ...Array.from({ length: longOrder }, (_, i) => x[t - i - 1])]);
+      target.push(x[t]);
+    }
+    if (rows.length <= longOrder + 2) {
+      throw createError('VALIDATION_ERROR', 'Series too short for the MA terms');
+    }
+    const beta = leastSquares(rows, target);
+    innovations = x.map((value, t) =>
+      t < longOrder ? 0 : value - rows[t - longOrder].reduce((sum, r, i) => sum + r * beta[i], 0));
+    start = longOrder + maxLag;
+  }
+
+  const rows: number[][] = [];
+  const target: number[] = [];
+  for (let t = start; t < n; t++) {
+    rows.push([
+      ...(constant ? [1] : []),
+      ...arLags.map(lag => x[t - lag]),
+      ...maLags.map(lag => innovations[t - lag])
+    ]);
+    target.push(x[t]);
+  }
+  const width = (constant ? 1 : 0) + arLags.length + maLags.length;
+  if (rows.length <= width + 2) {
+    throw createError('VALIDATION_ERROR', 'Series too short for this order');
+  }
+
+  const beta = width > 0 ? leastSquares(rows, target) : [];
+  const intercept = constant ? beta[0] : 0;
+  const offset = constant ? 1 : 0;
+  const phi = beta.slice(offset, offset + arLags.length);
+  const theta = beta.slice(offset + arLags.length);
+
+  if (!isStable(arLags, phi, -1) || !isStable(maLags, theta, 1)) {
+    throw createError('ANALYSIS_ERROR', 'Fitted model is not stationary or not invertible');
+  }
+
+  const residuals = new Array(n).fill(0);
+  for (let t = maxLag; t < n; t++) {
+    let prediction = intercept;
+    arLags.forEach((lag, i) => { prediction += phi[i] * x[t - lag]; });
+    maLags.forEach((lag, i) => { prediction += theta[i] * residuals[t - lag]; });
+    residuals[t] = x[t] - prediction;
+  }
+  return { intercept, phi, theta, residuals };
+}
+
+/**
+ * Fits a SARIMA order by conditional sum of squares. The likelihood is
+ * evaluated from `evaluateFrom` onwards so that candidates with different
+ * lags are compared on the same observations.
+ */
+export function fitSarima(values: number[], order: SarimaOrder, evaluateFrom = 0): ArimaFit & { estimate: ArmaEstimate } {
+  const x = difference(difference(values, order.period, order.D), 1, order.d);
+  const model = modelLags(order);
+  const estimate = estimateArma(x, model);
+
+  const from = Math.max(evaluateFrom, ...model.arLags, ...model.maLags, 0);
+  const used = estimate.residuals.slice(from);
+  const n = used.length;
+  const sigma2 = used.reduce((sum, r) => sum + r * r, 0) / n;
+  if (!(sigma2 > 0) || !isFinite(sigma2)) {
+    throw createError('ANALYSIS_ERROR', 'Model fit is degenerate');
+  }
+
+  const logLik = -0.5 * n * (Math.log(2 * Math.PI * sigma2) + 1);
+  // Coefficients plus the innovation variance
+  const k = model.arLags.length + model.maLags.length + (model.constant ? 1 : 0) + 1;
+  const aic = -2 * logLik + 2 * k;
+
+  // Lags beyond the non-seasonal order belong to the seasonal polynomial
+  const split = (lags: number[], coefficients: number[], nonSeasonal: number) => ({
+    regular: coefficients.filter((_, i) => lags[i] <= nonSeasonal),
+    seasonal: coefficients.filter((_, i) => lags[i] > nonSeasonal)
+  });
+  const ar = split(model.arLags, estimate.phi, order.p);
+  const ma = split(model.maLags, estimate.theta, order.q);
+
+  return {
+    order,
+    logLik,
+    sigma2,
+    aic,
+    aicc: n - k - 1 > 0 ? aic + 2 * k * (k + 1) / (n - k - 1) : Infinity,
+    bic: -2 * logLik + k * Math.log(n),
+    intercept: estimate.intercept,
+    ar: ar.regular,
+    ma: ma.regular,
+    seasonalAr: ar.seasonal,
+    seasonalMa: ma.seasonal,
+    estimate
+  };
+}
+
+export function ljungBox(residuals: number[], lag: number, fittedParameters: number): LjungBoxResult & { acf: number[] } {
+  const n = residuals.length;
+  const avg = mean(residuals);
+  const denominator = residuals.reduce((sum, r) => sum + (r - avg) ** 2, 0);
+  const acf = Array.from({ length: lag }, (_, i) => {
+    const k = i + 1;
+    let numerator = 0;
+    for (let t = k; t < n; t++) numerator += (residuals[t] - avg) * (residuals[t - k] - avg);
+    return denominator > 0 ? numerator / denominator : 0;
+  });
+  const statistic = n * (n + 2) * acf.reduce((sum, r, i) => sum + r * r / (n - i - 1), 0);
+  const df = Math.max(1, lag - fittedParameters);
+  return { statistic, lag, df, pValue: Math.min(1, Math.max(0, 1 - chiSquareCDF(statistic, df))), acf };
+}
+
+const multiply = (a: number[], b: number[]) => {
+  const result = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => { result[i + j] += x * y; }));
+  return result;
+};
+
+/**
+ * Forecasts on the original scale by folding the differencing into the AR
+ * polynomial, with intervals from the psi weights of the integrated model.
+ */
+function forecastSarima(
+  values: number[],
+  order: SarimaOrder,
+  estimate: ArmaEstimate,
+  sigma2: number,
+  horizon: number,
+  level: number
+): AutoArimaResult['forecast'] {
+  const model = modelLags(order);
+  let polynomial = [1];
+  model.arLags.forEach((lag, i) => {
+    polynomial[lag] = (polynomial[lag] ?? 0) - estimate.phi[i];
+  });
+  polynomial = Array.from(polynomial, value => value ?? 0);
+  for (let i = 0; i < order.d; i++) polynomial = multiply(polynomial, [1, -1]);
+  for (let i = 0; i < order.D; i++) {
+    const seasonal = new Array(order.period + 1).fill(0);
+    seasonal[0] = 1;
+    seasonal[order.period] = -1;
+    polynomial = multiply(polynomial, seasonal);
+  }
+  const ar = polynomial.map(value => -value);
+
+  const offset = values.length - estimate.residuals.length;
+  const history = [...values];
+  const errors = [...new Array(offset).fill(0), ...estimate.residuals];
+  const maAt = new Map(model.maLags.map((lag, i) => [lag, estimate.theta[i]]));
+
+  const mean: number[] = [];
+  for (let h = 0; h < horizon; h++) {
+    const t = history.length;
+    let prediction = estimate.intercept;
+    for (let j = 1; j < ar.length; j++) prediction += ar[j] * (history[t - j] ?? 0);
+    maAt.forEach((theta, lag) => { prediction += theta * (errors[t - lag] ?? 0); });
+    history.push(prediction);
+    errors.push(0);
+    mean.push(prediction);
+  }
+
+  const psi = [1];
+  for (let j = 1; j < horizon; j++) {
+    let value = maAt.get(j) ?? 0;
+    for (let i = 1; i <= Math.min(j, ar.length - 1); i++) value += ar[i] * psi[j - i];
+    psi.push(value);
+  }
+  const z = probit(0.5 + level / 2);
+  let cumulative = 0;
+  const width = psi.map(weight => {
+    cumulative += weight * weight;
+    return z * Math.sqrt(sigma2 * cumulative);
+  });
+
+  return {
+    mean,
+    lower: mean.map((value, h) => value - width[h]),
+    upper: mean.map((value, h) => value + width[h]),
+    level
+  };
+}
+
+const orderKey = (order: SarimaOrder) => `${order.p},${order.q},${order.P},${order.Q}`;
+
+export function formatOrder(order: SarimaOrder): string {
+  const base = `ARIMA(${order.p},${order.d},${order.q})`;
+  const seasonal = order.period > 1 && (order.P || order.D || order.Q)
+    ? `(${order.P},${order.D},${order.Q})[${order.period}]`
+    : '';
+  return `${base}${seasonal}${order.constant ? (order.d + order.D === 0 ? ' with mean' : ' with drift') : ''}`;
+}
+
+/**
+ * Automatic SARIMA selection: picks d by repeated unit-root tests (after
+ * seasonal differencing chosen by seasonal strength), then searches p/q and
+ * seasonal P/Q by the chosen information criterion.
+ */
+export function autoArima(values: number[], options: AutoArimaOptions = {}): AutoArimaResult {
+  const {
+    seasonal = false,
+    criterion = 'aicc',
+    test = 'kpss',
+    search = 'stepwise',
+    maxP = 5,
+    maxQ = 5,
+    maxOrder = 5,
+    maxD = 2,
+    maxSeasonalD = 1,
+    horizon = 12,
+    level = 0.95
+  } = options;
+  const period = seasonal ? Math.floor(options.period ?? 0) : 1;
+  const maxSeasonalP = period > 1 ? options.maxSeasonalP ?? 2 : 0;
+  const maxSeasonalQ = period > 1 ? options.maxSeasonalQ ?? 2 : 0;
+
+  if (values.length < 10 || values.some(value => !isFinite(value))) {
+    throw createError('VALIDATION_ERROR', 'Auto-ARIMA needs at least 10 finite observations');
+  }
+  if (seasonal && period < 2) {
+    throw createError('VALIDATION_ERROR', 'Seasonal period must be at least 2');
+  }
+
+  let seasonalStrengthValue: number | null = null;
+  let D = options.D ?? 0;
+  if (options.D === undefined && period > 1 && values.length >= 2 * period + 1) {
+    seasonalStrengthValue = seasonalStrength(values, period);
+    D = seasonalStrengthValue > SEASONAL_STRENGTH_THRESHOLD ? Math.min(1, maxSeasonalD) : 0;
+  }
+  const seasonallyDifferenced = difference(values, period, D);
+
+  const tests: UnitRootResult[] = [];
+  let d = options.d ?? 0;
+  if (options.d === undefined) {
+    while (d <= maxD) {
+      const series = difference(seasonallyDifferenced, 1, d);
+      if (series.length < 8) break;
+      const { statistic, stationary } = isStationary(series, test);
+      tests.push({ test, d, statistic, stationary });
+      if (stationary || d === maxD) break;
+      d++;
+    }
+  }
+
+  const differenced = difference(seasonallyDifferenced, 1, d);
+  if (differenced.length < 10) {
+    throw createError('VALIDATION_ERROR', 'Too few observations remain after differencing');
+  }
+
+  // Keep the common evaluation window inside the first third of the series
+  const window = Math.floor(differenced.length / 3);
+  const limitSeasonal = (count: number) => Math.min(count, Math.floor(window / Math.max(period, 1)));
+  const limits = {
+    p: Math.min(maxP, window),
+    q: Math.min(maxQ, window),
+    P: limitSeasonal(maxSeasonalP),
+    Q: limitSeasonal(maxSeasonalQ)
+  };
+  const evaluateFrom = Math.max(limits.p, limits.q, limits.P * period, limits.Q * period);
+  const constant = d + D < 2;
+
+  const fits = new Map<string, ReturnType<typeof fitSarima>>();
+  const tried = new Set<string>();
+  let failedFits = 0;
+  const score = (fit: ArimaCandidate) => fit[criterion];
+
+  const tryOrder = (p: number, q: number, P: number, Q: number) => {
+    if (p < 0 || q < 0 || P < 0 || Q < 0 || p > limits.p || q > limits.q || P > limits.P || Q > limits.Q) return null;
+    const order: SarimaOrder = { p, d, q, P, D, Q, period, constant };
+    const key = orderKey(order);
+    if (tried.has(key)) return fits.get(key) ?? null;
+    tried.add(key);
+    try {
+      const fit = fitSarima(values, order, evaluateFrom);
+      if (!isFinite(score(fit))) throw createError('ANALYSIS_ERROR', 'Criterion is not finite');
+      fits.set(key, fit);
+      return fit;
+    } catch {
+      failedFits++;
+      return null;
+    }
+  };
+
+  if (search === 'grid') {
+    for (let p = 0; p <= limits.p; p++) {
+      for (let q = 0; q <= limits.q; q++) {
+        for (let P = 0; P <= limits.P; P++) {
+          for (let Q = 0; Q <= limits.Q; Q++) {
+            if (p + q + P + Q <= maxOrder) tryOrder(p, q, P, Q);
+          }
+        }
+      }
+    }
+  } else {
+    const seasonalStart = period > 1 ? 1 : 0;
+    const starts: [number, number, number, number][] = [
+      [2, 2, seasonalStart, seasonalStart],
+      [0, 0, 0, 0],
+      [1, 0, seasonalStart, 0],
+      [0, 1, 0, seasonalStart]
+    ];
+    let best: ReturnType<typeof fitSarima> | null = null;
+    for (const [p, q, P, Q] of starts) {
+      const fit = tryOrder(Math.min(p, limits.p), Math.min(q, limits.q), Math.min(P, limits.P), Math.min(Q, limits.Q));
+      if (fit && (!best || score(fit) < score(best))) best = fit;
+    }
+
+    let improved = true;
+    while (best && improved && tried.size < MAX_STEPWISE_MODELS) {
+      improved = false;
+      const { p, q, P, Q } = best.order;
+      const neighbours: [number, number, number, number][] = [
+        [p - 1, q, P, Q], [p + 1, q, P, Q], [p, q - 1, P, Q], [p, q + 1, P, Q],
+        [p - 1, q - 1, P, Q], [p + 1, q + 1, P, Q],
+        [p, q, P - 1, Q], [p, q, P + 1, Q], [p, q, P, Q - 1], [p, q, P, Q + 1],
+        [p, q, P - 1, Q - 1], [p, q, P + 1, Q + 1]
+      ];
+      for (const neighbour of neighbours) {
+        if (tried.size >= MAX_STEPWISE_MODELS) break;
+        const fit = tryOrder(...neighbour);
+        if (fit && score(fit) < score(best)) {
+          best = fit;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  const ranked = Array.from(fits.values()).sort((a, b) => score(a) - score(b));
+  if (ranked.length === 0) {
+    throw createError('ANALYSIS_ERROR', 'No ARIMA model could be fitted to this series');
+  }
+  const { estimate, ...best } = ranked[0];
+
+  const model = modelLags(best.order);
+  const start = Math.max(0, ...model.arLags, ...model.maLags);
+  const offset = values.length - estimate.residuals.length;
+  const residuals: (number | null)[] = values.map((_, t) =>
+    t - offset >= start ? estimate.residuals[t - offset] : null);
+  const usable = estimate.residuals.slice(start);
+
+  const lag = Math.max(1, Math.min(period > 1 ? 2 * period : 10, Math.floor(usable.length / 5)));
+  const { acf, ...box } = ljungBox(usable, lag, model.arLags.length + model.maLags.length);
+
+  return {
+    best,
+    candidates: ranked.map(({ order, logLik, sigma2, aic, aicc, bic }) => ({ order, logLik, sigma2, aic, aicc, bic })),
+    criterion,
+    differencing: { d, D, tests, seasonalStrength: seasonalStrengthValue },
+    fitted: values.map((value, t) => (residuals[t] == null ? null : value - residuals[t]!)),
+    residuals,
+    diagnostics: { ljungBox: box, acf, bound: 1.96 / Math.sqrt(usable.length) },
+    forecast: forecastSarima(values, best.order, estimate, best.sigma2, horizon, level),
+    failedFits
+  };
+}
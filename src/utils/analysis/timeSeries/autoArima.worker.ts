@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+
+import { autoArima, type AutoArimaOptions } from './autoArima';
+
+self.onmessage = (e: MessageEvent) => {
+  const { id, values, options } = e.data as { id: number; values: number[]; options: AutoArimaOptions };
+
+  try {
+    self.postMessage({ id, type: 'complete', payload: autoArima(values, options) });
+  } catch (error) {
+    self.postMessage({
+      id,
+      type: 'error',
+      payload: error instanceof Error ? error.message : 'Auto-ARIMA search failed'
+    });
+  }
+};
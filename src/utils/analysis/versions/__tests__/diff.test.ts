@@ -0,0 +1,50 @@
+import { diffDatasets, summarizeDataset } from '../diff';
+import type { DataField } from '@/types/data';
+
+describe('Dataset version diff', () => {
+  const v1: DataField[] = [
+    { name: 'region', type: 'string', value: ['EMEA', 'APAC', 'EMEA'] },
+    { name: 'revenue', type: 'number', value: [100, 200, 300] },
+    { name: 'code', type: 'number', value: [1, 2, 3] }
+  ];
+
+  const v2: DataField[] = [
+    { name: 'region', type: 'string', value: ['EMEA', 'APAC', 'EMEA', 'AMER'] },
+    { name: 'revenue', type: 'number', value: [100, 200, 300, null] },
+    { name: 'code', type: 'string', value: ['1', '2', '3', '4'] },
+    { name: 'margin', type: 'number', value: [10, 20, 30, 40] }
+  ];
+
+  it('should summarize columns with numeric stats', () => {
+    const summary = summarizeDataset(v1);
+    expect(summary.rows).toBe(3);
+    expect(summary.columns[1]).toMatchObject({ count: 3, nullCount: 0, distinct: 3, mean: 200, min: 100, max: 300 });
+    expect(summary.columns[0].mean).toBeUndefined();
+  });
+
+  it('should report schema changes and row counts', () => {
+    const diff = diffDatasets(summarizeDataset(v1), summarizeDataset(v2));
+    expect(diff.rowsBefore).toBe(3);
+    expect(diff.rowsAfter).toBe(4);
+    expect(diff.added).toEqual(['margin']);
+    expect(diff.removed).toEqual([]);
+    expect(diff.retyped).toEqual(['code']);
+  });
+
+  it('should compute stat deltas per column', () => {
+    const diff = diffDatasets(summarizeDataset(v1), summarizeDataset(v2));
+    const revenue = diff.columns.find(column => column.name === 'revenue')!;
+    expect(revenue.status).toBe('changed');
+    expect(revenue.deltas).toMatchObject({ count: 0, nullCount: 1, mean: 0 });
+
+    const region = diff.columns.find(column => column.name === 'region')!;
+    expect(region.deltas).toMatchObject({ count: 1, distinct: 1 });
+  });
+
+  it('should list removed columns and mark identical ones unchanged', () => {
+    const diff = diffDatasets(summarizeDataset(v2), summarizeDataset(v2.slice(0, 2)));
+    expect(diff.removed).toEqual(['code', 'margin']);
+    expect(diff.columns.filter(column => column.status === 'unchanged').map(column => column.name))
+      .toEqual(['region', 'revenue']);
+  });
+});
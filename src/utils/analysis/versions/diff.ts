@@ -0,0 +1,143 @@
+import type { DataField, SemanticType } from '@/types/data';
+
+export interface ColumnSummary {
+  name: string;
+  type: DataField['type'];
+  semantic?: SemanticType;
+  count: number;
+  nullCount: number;
+  distinct: number;
+  // Numeric columns only
+  mean?: number;
+  min?: number;
+  max?: number;
+  standardDeviation?: number;
+}
+
+export interface DatasetSummary {
+  rows: number;
+  columns: ColumnSummary[];
+}
+
+export type StatKey = 'count' | 'nullCount' | 'distinct' | 'mean' | 'min' | 'max' | 'standardDeviation';
+
+export const STAT_KEYS: StatKey[] = ['count', 'nullCount', 'distinct', 'mean', 'min', 'max', 'standardDeviation'];
+
+export interface ColumnDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: ColumnSummary;
+  after?: ColumnSummary;
+  typeChanged: boolean;
+  // after − before for stats present in both versions
+  deltas: Partial<Record<StatKey, number>>;
+}
+
+export interface DatasetDiff {
+  rowsBefore: number;
+  rowsAfter: number;
+  columns: ColumnDiff[];
+  added: string[];
+  removed: string[];
+  retyped: string[];
+}
+
+function isMissing(value: unknown): boolean {
+  return value == null || value === '' || (typeof value === 'number' && isNaN(value));
+}
+
+function summarizeColumn(field: DataField): ColumnSummary {
+  const present = field.value.filter(value => !isMissing(value));
+  const distinct = new Set(present.map(value => value instanceof Date ? value.getTime() : value));
+  const summary: ColumnSummary = {
+    name: field.name,
+    type: field.type,
+    semantic: field.columnType?.semantic,
+    count: present.length,
+    nullCount: field.value.length - present.length,
+    distinct: distinct.size
+  };
+
+  const numbers = field.type === 'number'
+    ? present.map(Number).filter(value => isFinite(value))
+    : [];
+  if (numbers.length > 0) {
+    const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    const variance = numbers.reduce((sum, value) => sum + (value - mean) ** 2, 0) / numbers.length;
+    summary.mean = mean;
+    summary.min = numbers.reduce((min, value) => Math.min(min, value), Infinity);
+    summary.max = numbers.reduce((max, value) => Math.max(max, value), -Infinity);
+    summary.standardDeviation = Math.sqrt(variance);
+  }
+
+  return summary;
+}
+
+/**
+ * Condenses a dataset into the per-column figures the diff view compares.
+ * Summaries are small enough to store with each version.
+ */
+export function summarizeDataset(fields: DataField[]): DatasetSummary {
+  return {
+    rows: fields.reduce((max, field) => Math.max(max, field.value.length), 0),
+    columns: fields.map(summarizeColumn)
+  };
+}
+
+function statDeltas(before: ColumnSummary, after: ColumnSummary): Partial<Record<StatKey, number>> {
+  const deltas: Partial<Record<StatKey, number>> = {};
+  STAT_KEYS.forEach(key => {
+    const a = before[key];
+    const b = after[key];
+    if (a != null && b != null) deltas[key] = b - a;
+  });
+  return deltas;
+}
+
+/**
+ * Compares two versions column by column. Columns are matched by name,
+ * so a rename shows as one column removed and another added.
+ */
+export function diffDatasets(before: DatasetSummary, after: DatasetSummary): DatasetDiff {
+  const previous = new Map(before.columns.map(column => [column.name, column]));
+  const next = new Map(after.columns.map(column => [column.name, column]));
+  const columns: ColumnDiff[] = [];
+
+  after.columns.forEach(column => {
+    const old = previous.get(column.name);
+    if (!old) {
+      columns.push({ name: column.name, status: 'added', after: column, typeChanged: false, deltas: {} });
+      return;
+    }
+    const deltas = statDeltas(old, column);
+    const typeChanged = old.type !== column.type || old.semantic !== column.semantic;
+    const changed = typeChanged || Object.values(deltas).some(delta => Math.abs(delta!) > 1e-9);
+    columns.push({
+      name: column.name,
+      status: changed ? 'changed' : 'unchanged',
+      before: old,
+      after: column,
+      typeChanged,
+      deltas
+    });
+  });
+
+  before.columns
+    .filter(column => !next.has(column.name))
+    .forEach(column => columns.push({
+      name: column.name,
+      status: 'removed',
+      before: column,
+      typeChanged: false,
+      deltas: {}
+    }));
+
+  return {
+    rowsBefore: before.rows,
+    rowsAfter: after.rows,
+    columns,
+    added: columns.filter(column => column.status === 'added').map(column => column.name),
+    removed: columns.filter(column => column.status === 'removed').map(column => column.name),
+    retyped: columns.filter(column => column.typeChanged).map(column => column.name)
+  };
+}
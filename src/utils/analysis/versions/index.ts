@@ -0,0 +1,8 @@
+export { diffDatasets, summarizeDataset, STAT_KEYS } from './diff';
+export type {
+  ColumnDiff,
+  ColumnSummary,
+  DatasetDiff,
+  DatasetSummary,
+  StatKey
+} from './diff';
@@ -1,5 +1,13 @@
 import { EChartsOption } from 'echarts';
 import { DataField } from '@/types/data';
+import type { SankeyLink, SankeyNode } from '@/utils/analysis/network/paths';
+import type { Ohlcv, Series } from '@/utils/analysis/technical/indicators';
+import type { Signal } from '@/utils/analysis/technical/backtest';
+
+export interface IndicatorLine {
+  name: string;
+  values: Series | number[];
+}
 
 export class EChartsFactory {
   static createDistributionChart(data: DataField[]): EChartsOption {
@@ -171,4 +179,132 @@ export class EChartsFactory {
       }]
     };
   }
-}
\ No newline at end of file
+
+  static createSankeyChart(nodes: SankeyNode[], links: SankeyLink[]): EChartsOption {
+    return {
+      tooltip: {
+        trigger: 'item',
+        triggerOn: 'mousemove'
+      },
+      series: [{
+        type: 'sankey',
+        nodeAlign: 'left',
+        emphasis: {
+          focus: 'adjacency'
+        },
+        data: nodes.map(node => ({ name: node.name, depth: node.depth })),
+        links,
+        label: {
+          // Node names carry the step number to keep them unique; show the event only
+          formatter: (params: any) => params.name.replace(/^\d+\. /, '')
+        },
+        lineStyle: {
+          color: 'gradient',
+          curveness: 0.5
+        }
+      }]
+    };
+  }
+
+  /**
+   * Candlesticks with moving-average style overlays, optional volume bars,
+   * an optional indicator pane below, and buy/sell markers for signals.
+   */
+  static createCandlestickChart(
+    bars: Ohlcv,
+    options: { overlays?: IndicatorLine[]; panel?: IndicatorLine[]; signals?: Signal[] } = {}
+  ): EChartsOption {
+    const { overlays = [], panel = [], signals = [] } = options;
+    const panes: ('price' | 'volume' | 'panel')[] = ['price'];
+    if (bars.volume) panes.push('volume');
+    if (panel.length) panes.push('panel');
+
+    const heights = { price: panes.length === 1 ? 75 : panes.length === 2 ? 55 : 42, volume: 10, panel: 18 };
+    let top = 8;
+    const grids = panes.map(pane => {
+      const grid = { left: 60, right: 30, top: `${top}%`, height: `${heights[pane]}%` };
+      top += heights[pane] + 4;
+      return grid;
+    });
+    const axisIndex = (pane: 'price' | 'volume' | 'panel') => panes.indexOf(pane);
+
+    const series: any[] = [
+      {
+        name: 'Price',
+        type: 'candlestick',
+        data: bars.close.map((close, i) => [bars.open[i], close, bars.low[i], bars.high[i]]),
+        itemStyle: { color: '#16a34a', color0: '#dc2626', borderColor: '#16a34a', borderColor0: '#dc2626' }
+      },
+      ...overlays.map(line => ({
+        name: line.name,
+        type: 'line',
+        data: line.values,
+        showSymbol: false,
+        lineStyle: { width: 1.5 }
+      }))
+    ];
+
+    if (signals.length) {
+      series.push({
+        name: 'Signals',
+        type: 'scatter',
+        symbol: 'triangle',
+        symbolSize: 12,
+        data: signals.map(signal => ({
+          value: [signal.index, signal.side === 'buy' ? bars.low[signal.index] : bars.high[signal.index]],
+          symbolRotate: signal.side === 'buy' ? 0 : 180,
+          symbolOffset: [0, signal.side === 'buy' ? 10 : -10],
+          itemStyle: { color: signal.side === 'buy' ? '#16a34a' : '#dc2626' }
+        }))
+      });
+    }
+
+    if (bars.volume) {
+      series.push({
+        name: 'Volume',
+        type: 'bar',
+        xAxisIndex: axisIndex('volume'),
+        yAxisIndex: axisIndex('volume'),
+        data: bars.volume,
+        itemStyle: { color: '#94a3b8' }
+      });
+    }
+
+    panel.forEach(line => {
+      series.push({
+        name: line.name,
+        type: 'line',
+        xAxisIndex: axisIndex('panel'),
+        yAxisIndex: axisIndex('panel'),
+        data: line.values,
+        showSymbol: false
+      });
+    });
+
+    return {
+      animation: false,
+      tooltip: { trigger: 'axis', axisPointer: { type: 'cross' } },
+      axisPointer: { link: [{ xAxisIndex: 'all' }] },
+      legend: { data: series.map(entry => entry.name).filter(name => name !== 'Volume') },
+      grid: grids,
+      xAxis: panes.map((_, i) => ({
+        type: 'category' as const,
+        gridIndex: i,
+        data: bars.time,
+        boundaryGap: true,
+        axisLabel: { show: i === panes.length - 1 }
+      })),
+      yAxis: panes.map((pane, i) => ({
+        type: 'value' as const,
+        gridIndex: i,
+        scale: true,
+        splitNumber: pane === 'price' ? 5 : 2
+      })),
+      dataZoom: [
+        { type: 'inside', xAxisIndex: panes.map((_, i) => i) },
+        { type: 'slider', xAxisIndex: panes.map((_, i) => i), bottom: 10 }
+      ],
+      series
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { createWorkerCall } from '../workerUtils';
+
+// Answers like the analysis workers: doubles `value`, or fails on request
+function fakeWorker() {
+  const worker = {
+    onmessage: null as ((e: MessageEvent) => void) | null,
+    onerror: null as ((e: ErrorEvent) => void) | null,
+    terminate: jest.fn(),
+    postMessage(message: { id: number; value: number; fail?: boolean }) {
+      const reply = message.fail
+        ? { id: message.id, type: 'error', payload: 'Bad input' }
+        : { id: message.id, type: 'complete', payload: message.value * 2 };
+      queueMicrotask(() => worker.onmessage?.({ data: reply } as MessageEvent));
+    }
+  };
+  return worker;
+}
+
+describe('createWorkerCall', () => {
+  it('should settle each call with the reply carrying its id', async () => {
+    const calls = createWorkerCall(fakeWorker() as unknown as Worker, 'Test');
+    await expect(Promise.all([calls.call({ value: 1 }), calls.call({ value: 5 })])).resolves.toEqual([2, 10]);
+    await expect(calls.call({ value: 1, fail: true })).rejects.toThrow('Bad input');
+  });
+
+  it('should reject calls in flight when the worker crashes', async () => {
+    const worker = fakeWorker();
+    worker.postMessage = jest.fn();
+    const calls = createWorkerCall(worker as unknown as Worker, 'Test');
+
+    const result = calls.call({ value: 1 });
+    worker.onerror?.({} as ErrorEvent);
+    await expect(result).rejects.toThrow('Test worker failed');
+  });
+});
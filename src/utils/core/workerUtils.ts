@@ -2,6 +2,8 @@
  * Utility functions for creating Web Workers with CSP compliance
  */
 
+import { createError } from './error';
+
 export interface WorkerOptions {
   type?: 'classic' | 'module';
   credentials?: RequestCredentials;
@@ -144,4 +146,49 @@ export function getWorkerStrategy(): 'native' | 'blob' | 'data-url' | 'disabled'
       return 'native';
     }
   }
-} 
\ No newline at end of file
+}
+
+export interface WorkerCall {
+  call<T>(message: Record<string, unknown>): Promise<T>;
+  terminate(): void;
+}
+
+/**
+ * Request/response over a worker. Each message is posted with an `id` and
+ * settled by the reply carrying it: `{ id, payload }`, or `{ id, type:
+ * 'error', payload: message }`. A crashed worker rejects every call in flight.
+ */
+export function createWorkerCall(worker: Worker, name: string): WorkerCall {
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+
+  worker.onmessage = (e: MessageEvent) => {
+    const { id, type, payload } = e.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (type === 'error') {
+      request.reject(createError('ANALYSIS_ERROR', payload));
+    } else {
+      request.resolve(payload);
+    }
+  };
+  worker.onerror = () => {
+    pending.forEach(request => request.reject(createError('SYSTEM_ERROR', `${name} worker failed`)));
+    pending.clear();
+  };
+
+  return {
+    call<T>(message: Record<string, unknown>) {
+      const id = nextId++;
+      return new Promise<T>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        worker.postMessage({ ...message, id });
+      });
+    },
+    terminate() {
+      worker.terminate();
+      pending.clear();
+    }
+  };
+}
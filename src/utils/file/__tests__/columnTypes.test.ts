@@ -0,0 +1,126 @@
+import { inferColumnType, inferField, isMeasureField, overrideColumnType, toBaseType } from '../columnTypes';
+import { getValidNumericFields } from '@/utils/validation/dataValidation';
+import { inferFieldType } from '../inference';
+
+describe('Column type detection', () => {
+  it('should keep unnamed 0/1 columns as integers', () => {
+    const detected = inferColumnType(['0', '1', '1', '0'], 'churned');
+    expect(detected.semantic).toBe('integer');
+    expect(detected.candidates.map(candidate => candidate.type)).toContain('boolean');
+  });
+
+  it('should read 0/1 columns as flags when the name says so', () => {
+    expect(inferColumnType([0, 1, 1, 0], 'is_active').semantic).toBe('boolean');
+  });
+
+  it('should read flag names in any case', () => {
+    expect(inferColumnType([0, 1, 1, 0], 'IsActive').semantic).toBe('boolean');
+    expect(inferColumnType([0, 1, 1, 0], 'HAS_ORDERS').semantic).toBe('boolean');
+    expect(inferColumnType([0, 1, 1, 0], 'island').semantic).toBe('integer');
+  });
+
+  it('should only read currency from whole words in the name', () => {
+    expect(inferColumnType([2.5, 3.1, 4.25], 'shipping_fee').semantic).toBe('currency');
+    expect(inferColumnType([2.5, 3.1, 4.25], 'unitPrice').semantic).toBe('currency');
+    expect(inferColumnType([2.5, 3.1, 4.25], 'coffee_kg').semantic).toBe('float');
+    expect(inferColumnType([4, 5, 3], 'feedback_score').semantic).toBe('integer');
+  });
+
+  it('should not read numbers in the Excel serial range as dates', () => {
+    expect(inferFieldType([30000, 42000, 45000], 'revenue')).toBe('number');
+    expect(inferColumnType([45292, 45293], 'order_date').semantic).toBe('date');
+  });
+
+  it('should tell integers from decimals', () => {
+    expect(inferColumnType(['1', '2', '3'], 'quantity').semantic).toBe('integer');
+    expect(inferColumnType(['1.5', '2', '3.25'], 'weight').semantic).toBe('float');
+  });
+
+  it('should detect currency and percentage text', () => {
+    expect(inferColumnType(['$1,200.00', '$35.50', '$0.99'], 'total').semantic).toBe('currency');
+    expect(inferColumnType(['12%', '7.5%', '100%'], 'growth').semantic).toBe('percentage');
+  });
+
+  it('should detect emails, URLs and coordinates', () => {
+    expect(inferColumnType(['a@example.com', 'b@example.org'], 'contact').semantic).toBe('email');
+    expect(inferColumnType(['https://example.com', 'http://a.io/x'], 'link').semantic).toBe('url');
+    expect(inferColumnType(['40.7,-74.0', '51.5, -0.12'], 'position').semantic).toBe('coordinates');
+    expect(inferColumnType([40.7, 51.5, -33.9], 'lat').semantic).toBe('latitude');
+    expect(inferColumnType([-74.0, -0.12, 151.2], 'lng').semantic).toBe('longitude');
+  });
+
+  it('should treat unique numeric keys as IDs rather than measures', () => {
+    const field = inferField('customer_id', [101, 102, 103, 104]);
+    expect(field.columnType?.semantic).toBe('id');
+    expect(field.type).toBe('string');
+  });
+
+  it('should separate categories from free text', () => {
+    const regions = Array.from({ length: 20 }, (_, i) => ['North', 'South', 'East'][i % 3]);
+    expect(inferColumnType(regions, 'region').semantic).toBe('categorical');
+    expect(inferColumnType(['great product', 'too slow', 'ok'], 'review').semantic).toBe('text');
+  });
+
+  it('should distinguish dates, datetimes and zoned datetimes', () => {
+    expect(inferColumnType(['2024-01-05', '2024-02-10'], 'day').semantic).toBe('date');
+    expect(inferColumnType(['2024-01-05 10:30', '2024-02-10 08:00'], 'seen').semantic).toBe('datetime');
+    expect(inferColumnType(['2024-01-05T10:30:00Z', '2024-02-10T08:00:00+02:00'], 'seen').semantic)
+      .toBe('datetime_tz');
+  });
+
+  it('should map semantic types onto storage types', () => {
+    expect(toBaseType('currency')).toBe('number');
+    expect(toBaseType('datetime_tz')).toBe('date');
+    expect(toBaseType('categorical')).toBe('string');
+  });
+});
+
+describe('Column type overrides', () => {
+  it('should convert values when the storage type changes', () => {
+    const field = inferField('churned', ['0', '1', '1']);
+    const overridden = overrideColumnType({ ...field, value: [0, 1, 1] }, 'boolean');
+
+    expect(overridden.type).toBe('boolean');
+    expect(overridden.value).toEqual([false, true, true]);
+    expect(overridden.columnType).toMatchObject({ semantic: 'boolean', inferred: 'integer', overridden: true });
+  });
+
+  it('should restore the detected type', () => {
+    const field = inferField('zip', [10001, 94105, 60601]);
+    const asText = overrideColumnType(field, 'categorical');
+    const restored = overrideColumnType(asText, null);
+
+    expect(asText.type).toBe('string');
+    expect(restored.type).toBe('number');
+    expect(restored.columnType?.overridden).toBe(false);
+  });
+
+  it('should reject a type none of the values fit', () => {
+    const field = inferField('city', ['Paris', 'Oslo']);
+    expect(() => overrideColumnType(field, 'integer')).toThrow('No values');
+  });
+
+  it('should keep values that fail to convert as nulls in place', () => {
+    const field = inferField('amount', ['12', 'n/a', '30', 'unknown']);
+    const overridden = overrideColumnType({ ...field, type: 'string', value: ['12', 'n/a', '30', 'unknown'] }, 'float');
+
+    expect(overridden.value).toEqual([12, null, 30, null]);
+  });
+
+  it('should read t/f as flags', () => {
+    const field = inferField('active', ['t', 'f', 't']);
+    expect(field.columnType?.semantic).toBe('boolean');
+
+    const overridden = overrideColumnType({ ...field, type: 'string' }, 'boolean');
+    expect(overridden.value).toEqual([true, false, true]);
+  });
+
+  it('should let numeric analyses follow the overridden type', () => {
+    const field = inferField('y', [48.85, 59.91, 51.5]);
+    const latitude = overrideColumnType(field, 'latitude');
+
+    expect(isMeasureField(field)).toBe(true);
+    expect(isMeasureField(latitude)).toBe(false);
+    expect(getValidNumericFields([field, latitude])).toEqual([field]);
+  });
+});
@@ -0,0 +1,34 @@
+import { ReservoirSampler } from '../sampling';
+
+describe('ReservoirSampler', () => {
+  it('should keep every row while under capacity', () => {
+    const sampler = new ReservoirSampler<number>(5);
+    [1, 2, 3].forEach(n => sampler.add(n));
+
+    expect(sampler.values()).toEqual([1, 2, 3]);
+    expect(sampler.count).toBe(3);
+  });
+
+  it('should cap the sample size and count every row seen', () => {
+    const sampler = new ReservoirSampler<number>(100);
+    for (let i = 0; i < 10000; i++) sampler.add(i);
+
+    expect(sampler.values()).toHaveLength(100);
+    expect(sampler.count).toBe(10000);
+  });
+
+  it('should return sampled rows in their original order', () => {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const sampler = new ReservoirSampler<number>(50, random);
+    for (let i = 0; i < 5000; i++) sampler.add(i);
+
+    const values = sampler.values();
+    expect(values).toEqual([...values].sort((a, b) => a - b));
+    // Rows from late in the stream must be able to enter the sample
+    expect(values[values.length - 1]).toBeGreaterThan(2500);
+  });
+});
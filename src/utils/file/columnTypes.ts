@@ -0,0 +1,325 @@
+import type { ColumnType, DataField, SemanticType, TypeCandidate } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { processData } from '@/utils/analysis/data/processing';
+
+// Detection looks at this many non-empty values per column
+const SAMPLE_LIMIT = 5000;
+// Share of values that must fit a pattern for it to be a candidate
+const MATCH_THRESHOLD = 0.9;
+const MAX_CATEGORIES = 50;
+
+// Excel stores dates as days since 1899-12-30; 25569 is 1970-01-01
+const EXCEL_EPOCH_OFFSET = 25569;
+const EXCEL_SERIAL_MAX = 73051; // 2099-12-31
+
+export const SEMANTIC_TYPE_LABELS: Record<SemanticType, string> = {
+  integer: 'Integer',
+  float: 'Decimal',
+  currency: 'Currency',
+  percentage: 'Percentage',
+  boolean: 'Boolean',
+  categorical: 'Category',
+  text: 'Text',
+  email: 'Email',
+  url: 'URL',
+  id: 'ID',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  coordinates: 'Coordinates',
+  date: 'Date',
+  datetime: 'Date & time',
+  datetime_tz: 'Date & time (with time zone)'
+};
+
+const PATTERNS = {
+  number: /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/,
+  currency: /^[-+]?\(?\s*[$€£¥₹]\s?-?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?\)?$|^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?\s?(USD|EUR|GBP|JPY|INR|CAD|AUD)$/i,
+  percentage: /^[-+]?\d*\.?\d+\s?%$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  url: /^(https?:\/\/|www\.)[^\s]+$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  coordinates: /^\(?\s*-?\d{1,2}(\.\d+)?\s*,\s*-?\d{1,3}(\.\d+)?\s*\)?$/,
+  isoDate: /^\d{4}-\d{2}-\d{2}$/,
+  dateTime: /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/,
+  timeZone: /(Z|[+-]\d{2}:?\d{2})$/,
+  dateLike: /^\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}|\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b/i
+};
+
+// Tested against `toWords(name)`, so `IsActive`, `is_active` and `IS_ACTIVE`
+// all read as `is_active` and `_` marks word boundaries
+const NAME_HINTS = {
+  id: /(^|_)(id|uuid|guid|key)$/,
+  boolean: /^(is|has|can|should|was|did)(_|$)|(^|_)(flag|flags|active|enabled)(_|$)/,
+  date: /date|time|day|timestamp|created|updated|(^|_)at$/,
+  currency: /(^|_)(price|cost|revenue|amount|salary|sales|income|spend|fee|usd|eur|gbp)s?(_|$)/,
+  percentage: /(^|_)(pct|percent|percentage|rate|ratio|share)s?(_|$)|%/,
+  latitude: /(^|_)lat(itude)?$/,
+  longitude: /(^|_)(lng|lon|long|longitude)$/
+};
+
+/**
+ * Lower-cases a column name and splits camelCase, spaces and punctuation
+ * into words joined by `_` (`customerID` becomes `customer_id`).
+ */
+function toWords(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9%]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const BOOLEAN_WORDS = new Set(['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f']);
+
+const BASE_TYPES: Record<SemanticType, DataField['type']> = {
+  integer: 'number',
+  float: 'number',
+  currency: 'number',
+  percentage: 'number',
+  latitude: 'number',
+  longitude: 'number',
+  boolean: 'boolean',
+  date: 'date',
+  datetime: 'date',
+  datetime_tz: 'date',
+  categorical: 'string',
+  text: 'string',
+  email: 'string',
+  url: 'string',
+  id: 'string',
+  coordinates: 'string'
+};
+
+/**
+ * Storage type used by the analysis modules for a semantic type. ID and
+ * category columns are strings even when their values look numeric.
+ */
+export function toBaseType(semantic: SemanticType): DataField['type'] {
+  return BASE_TYPES[semantic];
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (!text || !PATTERNS.number.test(text)) return null;
+  const parsed = Number(text.replace(/,/g, ''));
+  return isFinite(parsed) ? parsed : null;
+}
+
+function share<T>(values: T[], test: (value: T) => boolean): number {
+  return values.length === 0 ? 0 : values.filter(test).length / values.length;
+}
+
+function inferNumeric(numbers: number[], words: string, fit: number): TypeCandidate[] {
+  const candidates: TypeCandidate[] = [];
+  const integral = numbers.every(Number.isInteger);
+  const unique = new Set(numbers).size === numbers.length;
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+
+  candidates.push({ type: integral ? 'integer' : 'float', confidence: fit * 0.8 });
+
+  // 0/1 columns are only flags when the name says so
+  if (integral && numbers.every(n => n === 0 || n === 1)) {
+    candidates.push({ type: 'boolean', confidence: NAME_HINTS.boolean.test(words) ? fit * 0.9 : fit * 0.4 });
+  }
+  // Excel serial dates are ordinary numbers unless the name says otherwise
+  if (min > EXCEL_EPOCH_OFFSET && max < EXCEL_SERIAL_MAX) {
+    candidates.push({ type: 'date', confidence: NAME_HINTS.date.test(words) ? fit * 0.85 : fit * 0.2 });
+  }
+  if (NAME_HINTS.latitude.test(words) && min >= -90 && max <= 90) {
+    candidates.push({ type: 'latitude', confidence: fit * 0.95 });
+  }
+  if (NAME_HINTS.longitude.test(words) && min >= -180 && max <= 180) {
+    candidates.push({ type: 'longitude', confidence: fit * 0.95 });
+  }
+  if (NAME_HINTS.id.test(words) && integral && unique) {
+    candidates.push({ type: 'id', confidence: fit * 0.9 });
+  }
+  if (NAME_HINTS.currency.test(words)) {
+    candidates.push({ type: 'currency', confidence: fit * 0.85 });
+  }
+  if (NAME_HINTS.percentage.test(words) && min >= 0 && max <= 100) {
+    candidates.push({ type: 'percentage', confidence: fit * 0.85 });
+  }
+
+  return candidates;
+}
+
+function inferText(strings: string[], words: string): TypeCandidate[] {
+  const candidates: TypeCandidate[] = [];
+  const distinct = new Set(strings).size;
+  const add = (type: SemanticType, confidence: number) => {
+    if (confidence >= MATCH_THRESHOLD) candidates.push({ type, confidence });
+  };
+
+  add('currency', share(strings, s => PATTERNS.currency.test(s)));
+  add('percentage', share(strings, s => PATTERNS.percentage.test(s)));
+  add('email', share(strings, s => PATTERNS.email.test(s)));
+  add('url', share(strings, s => PATTERNS.url.test(s)));
+  add('coordinates', share(strings, s => PATTERNS.coordinates.test(s)));
+  add('boolean', share(strings, s => BOOLEAN_WORDS.has(s.toLowerCase())));
+  add('id', share(strings, s => PATTERNS.uuid.test(s)));
+
+  const withZone = share(strings, s => PATTERNS.dateTime.test(s) && PATTERNS.timeZone.test(s));
+  const withTime = share(strings, s => PATTERNS.dateTime.test(s) && !isNaN(Date.parse(s)));
+  const dates = share(strings, s => PATTERNS.dateLike.test(s) && !isNaN(Date.parse(s)));
+  if (withZone >= MATCH_THRESHOLD) {
+    candidates.push({ type: 'datetime_tz', confidence: withZone });
+  } else if (withTime >= MATCH_THRESHOLD) {
+    candidates.push({ type: 'datetime', confidence: withTime });
+  } else if (dates >= MATCH_THRESHOLD) {
+    // Unambiguous ISO dates are more trustworthy than free-form ones
+    const iso = share(strings, s => PATTERNS.isoDate.test(s));
+    candidates.push({ type: 'date', confidence: iso >= MATCH_THRESHOLD ? iso : dates * 0.85 });
+  }
+
+  const unique = distinct === strings.length;
+  if (unique && NAME_HINTS.id.test(words)) {
+    candidates.push({ type: 'id', confidence: 0.9 });
+  } else if (unique && strings.length >= 10 && strings.every(s => /\d/.test(s) && !/\s/.test(s) && s.length <= 40)) {
+    candidates.push({ type: 'id', confidence: 0.6 });
+  }
+
+  if (distinct <= MAX_CATEGORIES && distinct <= strings.length * 0.5) {
+    candidates.push({ type: 'categorical', confidence: Math.min(0.95, 1 - distinct / strings.length) });
+  }
+
+  candidates.push({ type: 'text', confidence: 0.5 });
+  return candidates;
+}
+
+function rank(candidates: TypeCandidate[]): TypeCandidate[] {
+  const best = new Map<SemanticType, number>();
+  candidates.forEach(({ type, confidence }) => {
+    best.set(type, Math.max(best.get(type) ?? 0, Math.min(1, confidence)));
+  });
+  return [...best.entries()]
+    .map(([type, confidence]) => ({ type, confidence: Math.round(confidence * 100) / 100 }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Detects the semantic type of a column from its raw values and, where
+ * values alone are ambiguous (0/1 flags, Excel serials, coordinates,
+ * numeric IDs), its name. Returns every plausible type ranked by
+ * confidence.
+ */
+export function inferColumnType(values: unknown[], name = ''): ColumnType {
+  const present = values
+    .filter(value => value != null && String(value).trim() !== '')
+    .slice(0, SAMPLE_LIMIT);
+
+  let candidates: TypeCandidate[];
+  if (present.length === 0) {
+    candidates = [{ type: 'text', confidence: 0 }];
+  } else if (present.every(value => typeof value === 'boolean')) {
+    candidates = [{ type: 'boolean', confidence: 1 }];
+  } else if (present.every(value => value instanceof Date)) {
+    const timed = present.some(value => {
+      const date = value as Date;
+      return date.getUTCHours() || date.getUTCMinutes() || date.getUTCSeconds();
+    });
+    candidates = [{ type: timed ? 'datetime' : 'date', confidence: 1 }];
+  } else {
+    const numbers = present.map(parseNumber);
+    const numeric = numbers.filter((n): n is number => n !== null);
+    const fit = numeric.length / present.length;
+    const strings = present.map(value =>
+      value instanceof Date ? value.toISOString() : String(value).trim()
+    );
+
+    candidates = fit >= MATCH_THRESHOLD
+      ? inferNumeric(numeric, toWords(name), fit)
+      : inferText(strings, toWords(name));
+  }
+
+  const ranked = rank(candidates);
+  return {
+    semantic: ranked[0].type,
+    confidence: ranked[0].confidence,
+    inferred: ranked[0].type,
+    candidates: ranked
+  };
+}
+
+/**
+ * Builds a field from raw column values with its detected type.
+ */
+export function inferField(name: string, values: unknown[]): DataField {
+  const columnType = inferColumnType(values, name);
+  return {
+    name,
+    type: toBaseType(columnType.semantic),
+    value: values,
+    columnType
+  };
+}
+
+export function hasSemanticType(field: Pick<DataField, 'columnType'>, ...types: SemanticType[]): boolean {
+  return !!field.columnType && types.includes(field.columnType.semantic);
+}
+
+/**
+ * Whether a field holds a quantity that numeric analyses should use.
+ * Follows the column's semantic type, including user overrides, so
+ * coordinates are left to the spatial analyses.
+ */
+export function isMeasureField(field: { type: string; columnType?: DataField['columnType'] }): boolean {
+  return field.type === 'number' && !hasSemanticType(field, 'latitude', 'longitude');
+}
+
+function convertExcelSerials(values: unknown[]): unknown[] {
+  return values.map(value => {
+    const serial = parseNumber(value);
+    return serial !== null && serial > EXCEL_EPOCH_OFFSET && serial < EXCEL_SERIAL_MAX
+      ? new Date((serial - EXCEL_EPOCH_OFFSET) * 86400000)
+      : value;
+  });
+}
+
+/**
+ * Applies a user-chosen type to a field, or restores the detected one
+ * when `semantic` is null. Values are re-cleaned if the storage type
+ * changes.
+ */
+export function overrideColumnType(field: DataField, semantic: SemanticType | null): DataField {
+  const detected = field.columnType ?? inferColumnType(field.value, field.name);
+  const target = semantic ?? detected.inferred;
+  const baseType = toBaseType(target);
+
+  const columnType: ColumnType = {
+    ...detected,
+    semantic: target,
+    confidence: semantic
+      ? 1
+      : detected.candidates.find(candidate => candidate.type === target)?.confidence ?? detected.confidence,
+    overridden: semantic !== null && semantic !== detected.inferred
+  };
+
+  if (baseType === field.type) {
+    return { ...field, columnType };
+  }
+
+  let source = field.value;
+  if (baseType === 'date' && field.type === 'number') {
+    source = convertExcelSerials(field.value);
+  } else if (baseType === 'boolean') {
+    // The cleaner reads flags from text, so 0/1 numbers go through as '0'/'1'
+    source = field.value.map(value => (typeof value === 'number' ? String(value) : value));
+  }
+  // Values that don't fit the new type become null in place, so the
+  // column keeps one value per row
+  const [converted] = processData([{ ...field, type: baseType, value: source }], { keepNulls: true });
+
+  if (converted.value.every(value => value === null)) {
+    throw createError(
+      'INVALID_INPUT',
+      `No values in "${field.name}" can be read as ${SEMANTIC_TYPE_LABELS[target].toLowerCase()}`
+    );
+  }
+
+  return { ...field, type: baseType, value: converted.value, columnType };
+}
@@ -1,6 +1,17 @@
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-export const SUPPORTED_FILE_TYPES = ['csv', 'xlsx', 'xls'] as const;
+// CSV files above MAX_FILE_SIZE are streamed into DuckDB instead of memory
+export const MAX_STREAMING_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+export const STREAMING_CHUNK_SIZE = 4 * 1024 * 1024; // bytes parsed per chunk
+export const STREAMING_SAMPLE_ROWS = 10000; // rows kept in DataField.value
+
+// Parquet is read lazily by DuckDB, so it shares the streaming limit
+export const STREAMED_FILE_TYPES = ['csv', 'parquet'] as const;
+export const MAX_IN_MEMORY_ROWS = 100000; // larger columnar files stay in DuckDB
+
+export const SUPPORTED_FILE_TYPES = [
+  'csv', 'xlsx', 'xls', 'json', 'ndjson', 'jsonl', 'parquet', 'arrow', 'feather', 'ipc'
+] as const;
 
 export const FILE_ERROR_MESSAGES = {
   SIZE_EXCEEDED: (maxSize: number) => 
@@ -1,5 +1,8 @@
 import { processCSV } from './processors/csv';
 import { processExcel } from './processors/excel';
+import { processJSON } from './processors/json';
+import { processParquet } from './processors/parquet';
+import { processArrow } from './processors/arrow';
 import { FileData } from '@/types/data';
 import { createError } from '../core/error';
 import { validateFile } from './validation';
@@ -20,6 +23,16 @@ export async function processFile(file: File): Promise<FileData> {
       case 'xlsx':
       case 'xls':
         return processExcel(file);
+      case 'json':
+      case 'ndjson':
+      case 'jsonl':
+        return processJSON(file);
+      case 'parquet':
+        return processParquet(file);
+      case 'arrow':
+      case 'feather':
+      case 'ipc':
+        return processArrow(file);
       default:
         throw createError('INVALID_INPUT', 'Unsupported file type');
     }
@@ -2,9 +2,25 @@ import { FileData } from '@/types/data';
 import { createError } from '../core/error';
 import { validateFile } from './validation';
 import { FileProcessingWorkerManager } from './workers/WorkerManager';
+import { MAX_FILE_SIZE } from './constants';
+import { DuckDBManager } from '../analysis/core/DuckDBManager';
+import { processJSON } from './processors/json';
+import { processParquet } from './processors/parquet';
+import { processArrow } from './processors/arrow';
 
 const CHUNK_SIZE = 500000;
 
+// Formats read on the main thread; the worker only handles CSV and Excel
+const DIRECT_PROCESSORS: Record<string, (file: File) => Promise<FileData>> = {
+  json: processJSON,
+  ndjson: processJSON,
+  jsonl: processJSON,
+  parquet: processParquet,
+  arrow: processArrow,
+  feather: processArrow,
+  ipc: processArrow
+};
+
 // Create a singleton worker manager instance
 let workerManager: FileProcessingWorkerManager | null = null;
 
@@ -23,11 +39,27 @@ export async function processFile(file: File): Promise<FileData> {
       throw createError('INVALID_INPUT', validation.error || 'Invalid file');
     }
 
+    const extension = file.name.toLowerCase().split('.').pop() ?? '';
+    const directProcessor = DIRECT_PROCESSORS[extension];
+    if (directProcessor) {
+      const data = await directProcessor(file);
+      if (!validateProcessedData(data)) {
+        throw createError('PROCESSING_FAILED', 'Invalid processed data structure');
+      }
+      return data;
+    }
+
+    // Large CSVs go straight into DuckDB; only a sample stays in memory
+    const stream = extension === 'csv' && file.size > MAX_FILE_SIZE
+      ? { tableName: await DuckDBManager.getInstance().claimTableName(file.name) }
+      : undefined;
+
     // Use the worker manager for processing
     const manager = getWorkerManager();
     const result = await manager.processFile(file, {
       chunkSize: CHUNK_SIZE,
-      includeStats: true
+      includeStats: true,
+      stream
     });
 
     if (!result.success || !result.data) {
@@ -0,0 +1,55 @@
+import { Field, Int32, Struct, Utf8, makeVector, tableFromArrays, vectorFromArray, Table } from 'apache-arrow';
+import { arrowTableToFields, flattenSchema } from '../columnar';
+import { processData } from '@/utils/analysis/data/processing';
+
+describe('Arrow column mapping', () => {
+  it('should map Arrow types onto field types', () => {
+    const table = tableFromArrays({
+      quantity: Int32Array.from([1, 2]),
+      weight: Float64Array.from([9.5, 12]),
+      name: ['a', 'b'],
+      active: [true, false]
+    });
+
+    expect(arrowTableToFields(table).map(field => [field.name, field.type])).toEqual([
+      ['quantity', 'number'],
+      ['weight', 'number'],
+      ['name', 'string'],
+      ['active', 'boolean']
+    ]);
+  });
+
+  it('should flatten struct columns to dotted names', () => {
+    const address = vectorFromArray(
+      [{ city: 'Paris', zip: 75001 }, { city: 'Oslo', zip: null }],
+      new Struct([new Field('city', new Utf8()), new Field('zip', new Int32(), true)])
+    );
+    const table = new Table({ id: makeVector(Int32Array.from([1, 2])), address });
+
+    expect(flattenSchema(table.schema.fields).map(column => column.name)).toEqual([
+      'id',
+      'address.city',
+      'address.zip'
+    ]);
+
+    const fields = arrowTableToFields(table);
+    expect(fields[1]).toMatchObject({ name: 'address.city', type: 'string', value: ['Paris', 'Oslo'] });
+    expect(fields[2]).toMatchObject({ name: 'address.zip', type: 'number', value: [75001, null] });
+  });
+
+  it('should keep null cells in place when values are cleaned', () => {
+    const table = tableFromArrays({
+      quantity: Int32Array.from([1, 2, 3]),
+      name: ['a', null, 'c'],
+      score: [1.5, null, 3]
+    });
+
+    const fields = processData(arrowTableToFields(table), { keepNulls: true });
+
+    expect(fields.map(field => field.value)).toEqual([
+      [1, 2, 3],
+      ['a', null, 'c'],
+      [1.5, null, 3]
+    ]);
+  });
+});
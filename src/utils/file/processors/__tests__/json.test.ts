@@ -0,0 +1,83 @@
+import { flattenRecord, parseJSONRecords, processJSON, recordsToFields } from '../json';
+
+describe('JSON reader', () => {
+  it('should flatten nested objects to dotted column names', () => {
+    expect(flattenRecord({
+      id: 1,
+      customer: { name: 'Ada', address: { city: 'London' } },
+      tags: ['a', 'b']
+    })).toEqual({
+      id: 1,
+      'customer.name': 'Ada',
+      'customer.address.city': 'London',
+      tags: '["a","b"]'
+    });
+  });
+
+  it('should parse newline-delimited JSON and skip blank lines', () => {
+    const text = '{"id":1,"ok":true}\n\n{"id":2,"ok":false}\n';
+    expect(parseJSONRecords(text, 'ndjson')).toEqual([
+      { id: 1, ok: true },
+      { id: 2, ok: false }
+    ]);
+  });
+
+  it('should report the line of invalid NDJSON', () => {
+    expect(() => parseJSONRecords('{"id":1}\n{"id":', 'ndjson')).toThrow('line 2');
+  });
+
+  it('should unwrap an object holding a single array of records', () => {
+    const text = JSON.stringify({ total: 2, data: [{ id: 1 }, { id: 2 }] });
+    expect(parseJSONRecords(text, 'json')).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('should accept NDJSON saved with a .json extension', () => {
+    expect(parseJSONRecords('{"id":1}\n{"id":2}', 'json')).toHaveLength(2);
+  });
+
+  it('should build fields in first-seen order with nulls for missing keys', () => {
+    const fields = recordsToFields([
+      { score: 1, 'user.active': true },
+      { score: 2, 'user.joined': '2024-01-05' }
+    ]);
+
+    expect(fields.map(field => field.name)).toEqual(['score', 'user.active', 'user.joined']);
+    expect(fields.map(field => field.type)).toEqual(['number', 'boolean', 'date']);
+    expect(fields[1].value).toEqual([true, null]);
+  });
+
+  it('should keep large integers as numbers rather than Excel dates', () => {
+    const [field] = recordsToFields([{ amount: 30000 }, { amount: 45000 }]);
+    expect(field.type).toBe('number');
+  });
+
+  it('should keep rows aligned when records have different keys', async () => {
+    const text = '{"a":1,"b":"x"}\n{"a":2}\n{"a":3,"b":"z","c":null}\n';
+    const file = new File([text], 'rows.ndjson');
+
+    const { content } = await processJSON(file);
+
+    expect(content.fields.map(field => [field.name, field.value])).toEqual([
+      ['a', [1, 2, 3]],
+      ['b', ['x', null, 'z']],
+      ['c', [null, null, null]]
+    ]);
+  });
+
+  it('should keep explicit nulls in place', async () => {
+    const text = JSON.stringify([
+      { id: 1, amount: 10, seen: '2024-01-01' },
+      { id: 2, amount: null, seen: null },
+      { id: 3, amount: 30, seen: '2024-03-01' }
+    ]);
+
+    const { content } = await processJSON(new File([text], 'rows.json'));
+    const amount = content.fields.find(field => field.name === 'amount')!;
+    const seen = content.fields.find(field => field.name === 'seen')!;
+
+    expect(amount.value).toEqual([10, null, 30]);
+    expect(seen.type).toBe('date');
+    expect(seen.value).toHaveLength(3);
+    expect(seen.value[1]).toBeNull();
+  });
+});
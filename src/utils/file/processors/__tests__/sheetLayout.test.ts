@@ -0,0 +1,44 @@
+import { detectHeaderRow, detectSheetLayout, normalizeHeaders } from '../sheetLayout';
+
+describe('Sheet layout detection', () => {
+  const financeSheet: unknown[][] = [
+    ['ACME Corp — Quarterly Results', null, null, null],
+    [null, null, null, null],
+    ['Prepared by Finance', null, null, null],
+    [null, 'Region', 'Revenue', 'Cost'],
+    [null, 'EMEA', '1200', '800'],
+    [null, 'APAC', '900', '650'],
+    [null, null, null, null],
+    ['Notes: figures unaudited', null, null, null]
+  ];
+
+  it('should skip merged title rows to find the header', () => {
+    expect(detectHeaderRow(financeSheet)).toBe(3);
+  });
+
+  it('should detect the data range below the header', () => {
+    expect(detectSheetLayout(financeSheet)).toEqual({
+      headerRow: 3,
+      firstDataRow: 4,
+      lastDataRow: 5,
+      firstColumn: 1,
+      lastColumn: 3
+    });
+  });
+
+  it('should use the first row for plain tables', () => {
+    const rows = [['id', 'name'], ['1', 'a'], ['2', 'b']];
+    expect(detectSheetLayout(rows).headerRow).toBe(0);
+    expect(detectSheetLayout(rows).lastDataRow).toBe(2);
+  });
+
+  it('should honour an explicit header row', () => {
+    expect(detectSheetLayout(financeSheet, 4).firstDataRow).toBe(5);
+  });
+
+  it('should name blank and repeated headers uniquely', () => {
+    expect(normalizeHeaders(['Amount', null, 'Amount', ' Net  total '])).toEqual([
+      'Amount', 'Column 2', 'Amount (2)', 'Net total'
+    ]);
+  });
+});
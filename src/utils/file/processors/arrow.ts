@@ -0,0 +1,45 @@
+import { tableFromIPC, tableToIPC } from 'apache-arrow';
+import { FileData } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { processData } from '@/utils/analysis/data/processing';
+import { DuckDBManager } from '@/utils/analysis/core/DuckDBManager';
+import { quoteIdentifier, toTableName } from '@/utils/analysis/core/sql';
+import { MAX_IN_MEMORY_ROWS } from '../constants';
+import { arrowTableToFields, loadDuckDBRelation } from './columnar';
+
+/**
+ * Reads Arrow IPC files in either the file (Feather v2) or stream format.
+ */
+export async function processArrow(file: File): Promise<FileData> {
+  try {
+    const table = tableFromIPC(new Uint8Array(await file.arrayBuffer()));
+
+    if (table.numCols === 0 || table.numRows === 0) {
+      throw createError('PROCESSING_FAILED', 'Arrow file contains no data');
+    }
+
+    if (table.numRows <= MAX_IN_MEMORY_ROWS) {
+      return {
+        type: 'csv', // We convert to our standard format
+        content: { fields: processData(arrowTableToFields(table), { keepNulls: true }) },
+        name: file.name
+      };
+    }
+
+    // Too many rows to hold in memory; hand the batches to DuckDB
+    const duckdb = DuckDBManager.getInstance();
+    const staging = `${toTableName(file.name)}__staging`;
+    await duckdb.insertArrowIPC(staging, tableToIPC(table, 'stream'));
+    try {
+      return await loadDuckDBRelation(file.name, quoteIdentifier(staging));
+    } finally {
+      await duckdb.dropTable(staging);
+    }
+  } catch (error) {
+    console.error('Arrow processing error:', error);
+    throw createError(
+      'PROCESSING_FAILED',
+      error instanceof Error ? error.message : 'Failed to process Arrow file'
+    );
+  }
+}
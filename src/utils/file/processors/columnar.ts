@@ -0,0 +1,183 @@
+import { DataType, Type, type Field, type Table } from 'apache-arrow';
+import { DataField, FileData } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { processData } from '@/utils/analysis/data/processing';
+import { DuckDBManager } from '@/utils/analysis/core/DuckDBManager';
+import { quoteIdentifier } from '@/utils/analysis/core/sql';
+import { MAX_IN_MEMORY_ROWS, STREAMING_SAMPLE_ROWS } from '../constants';
+import { inferField } from '../columnTypes';
+
+interface FlatColumn {
+  // Dotted name, e.g. `address.city` for a field nested in a struct
+  name: string;
+  path: string[];
+  type: DataType;
+}
+
+/**
+ * Expands struct columns into one column per leaf field.
+ */
+export function flattenSchema(fields: Field[], prefix: string[] = []): FlatColumn[] {
+  return fields.flatMap(field => {
+    const path = [...prefix, field.name];
+    if (field.type.typeId === Type.Struct) {
+      return flattenSchema(field.type.children, path);
+    }
+    return [{ name: path.join('.'), path, type: field.type }];
+  });
+}
+
+function valueTypeId(type: DataType): Type {
+  return DataType.isDictionary(type) ? type.dictionary.typeId : type.typeId;
+}
+
+export function toFieldType(type: DataType): DataField['type'] {
+  switch (valueTypeId(type)) {
+    case Type.Int:
+    case Type.Float:
+    case Type.Decimal:
+      return 'number';
+    case Type.Bool:
+      return 'boolean';
+    case Type.Date:
+    case Type.Timestamp:
+      return 'date';
+    default:
+      return 'string';
+  }
+}
+
+function isTextType(type: DataType): boolean {
+  const typeId = valueTypeId(type);
+  return typeId === Type.Utf8 || typeId === Type.LargeUtf8;
+}
+
+function toCellValue(value: unknown, type: DataType): unknown {
+  if (value == null) return null;
+
+  switch (toFieldType(type)) {
+    case 'number':
+      if (DataType.isDecimal(type)) {
+        return Number(String(value)) / 10 ** type.scale;
+      }
+      return Number(value);
+    case 'date':
+      return value instanceof Date ? value : new Date(Number(value));
+    case 'boolean':
+      return Boolean(value);
+    default:
+      if (typeof value === 'string') return value;
+      // Lists, maps and binary values are kept as JSON text
+      return JSON.stringify(
+        typeof (value as { toJSON?: unknown }).toJSON === 'function'
+          ? (value as { toJSON: () => unknown }).toJSON()
+          : value,
+        (_key, item) => (typeof item === 'bigint' ? Number(item) : item)
+      );
+  }
+}
+
+/**
+ * Converts an Arrow table into fields, flattening structs to dotted
+ * column names. Values are not cleaned; run them through `processData`
+ * with `keepNulls` so that the columns stay aligned.
+ * Detection runs on the typed values, so name hints still apply (an
+ * integer `user_id` becomes an ID).
+ */
+export function arrowTableToFields(table: Table): DataField[] {
+  return flattenSchema(table.schema.fields).map(column => {
+    let vector = table.getChild(column.path[0]);
+    column.path.slice(1).forEach(name => {
+      vector = vector?.getChild(name) ?? null;
+    });
+
+    const value = Array.from({ length: table.numRows }, (_, row) =>
+      toCellValue(vector?.get(row), column.type)
+    );
+    const field = inferField(column.name, value);
+
+    // Zoned timestamps read back as plain Dates, so take the zone from the schema
+    if (DataType.isTimestamp(column.type) && column.type.timezone && field.columnType) {
+      field.columnType = { ...field.columnType, semantic: 'datetime_tz', inferred: 'datetime_tz' };
+    }
+    return field;
+  });
+}
+
+function toProjection(column: FlatColumn): string {
+  const path = column.path.map(quoteIdentifier).join('.');
+  let expression = path;
+  if (DataType.isDecimal(column.type)) {
+    expression = `CAST(${path} AS DOUBLE)`;
+  } else if (toFieldType(column.type) === 'string' && !isTextType(column.type)) {
+    expression = `CAST(${path} AS VARCHAR)`;
+  }
+  return `${expression} AS ${quoteIdentifier(column.name)}`;
+}
+
+/**
+ * Materializes a DuckDB relation (a table, a subquery or a table
+ * function such as `read_parquet(...)`) as a flat table named after the
+ * file, or `table` when given. Small results are loaded into memory in full; larger ones stay
+ * in DuckDB and only a sample is kept in the fields, as with streamed
+ * CSVs. The table of a small result is dropped unless `keepTable` is set.
+ */
+export async function loadDuckDBRelation(
+  fileName: string,
+  relation: string,
+  options: { keepTable?: boolean; table?: string } = {}
+): Promise<FileData> {
+  const duckdb = DuckDBManager.getInstance();
+  const table = options.table ?? await duckdb.claimTableName(fileName);
+
+  const schema = await duckdb.queryArrow(`SELECT * FROM ${relation} LIMIT 0`);
+  const columns = flattenSchema(schema.schema.fields);
+  if (columns.length === 0) {
+    throw createError('PROCESSING_FAILED', 'File contains no columns');
+  }
+
+  await duckdb.query(
+    `CREATE OR REPLACE TABLE ${quoteIdentifier(table)} AS SELECT ${columns.map(toProjection).join(', ')} FROM ${relation}`
+  );
+
+  const rowCount = await duckdb.countRows(table);
+  if (rowCount === 0) {
+    await duckdb.dropTable(table);
+    throw createError('PROCESSING_FAILED', 'File contains no rows');
+  }
+
+  const sampled = rowCount > MAX_IN_MEMORY_ROWS;
+  const rows = await duckdb.queryArrow(
+    `SELECT * FROM ${quoteIdentifier(table)}${sampled ? ` USING SAMPLE reservoir(${STREAMING_SAMPLE_ROWS} ROWS) REPEATABLE (42)` : ''}`
+  );
+
+  const fileData: FileData = {
+    type: 'csv', // We convert to our standard format
+    content: { fields: processData(arrowTableToFields(rows), { keepNulls: true }) },
+    name: fileName
+  };
+
+  if (!sampled) {
+    if (!options.keepTable) {
+      await duckdb.dropTable(table);
+    }
+    return fileData;
+  }
+
+  const stats = await duckdb.getColumnStats(
+    table,
+    fileData.content.fields.map(field => ({ name: field.name, type: field.type }))
+  );
+  fileData.content.fields = fileData.content.fields.map(field => {
+    const { rowCount: _rowCount, nullPercentage, ...fieldStats } = stats[field.name] ?? {};
+    return { ...field, nullPercentage, stats: { ...field.stats, ...fieldStats } };
+  });
+  fileData.source = {
+    kind: 'duckdb',
+    table,
+    rowCount,
+    sampleSize: rows.numRows
+  };
+
+  return fileData;
+}
@@ -2,7 +2,7 @@ import { parse } from 'papaparse';
 import { ERROR_MESSAGES } from '@/utils/core/constants';
 import { FileData } from '@/types/data';
 import { createError } from '@/utils/core/error';
-import { inferFieldType } from '../inference';
+import { inferField } from '../columnTypes';
 import { processData } from '@/utils/analysis/data/processing';
 
 const CHUNK_SIZE = 10000;
@@ -47,15 +47,7 @@ export async function processCSV(file: File): Promise<FileData> {
         }
 
         // Create fields with inferred types
-        let fields = headers.map(header => {
-          let type = inferFieldType(columnValues[header]);
-          if (type === 'object' || type === 'array') type = 'string';
-          return {
-            name: header,
-            type,
-            value: columnValues[header]
-          };
-        });
+        let fields = headers.map(header => inferField(header, columnValues[header]));
 
         // Process fields to ensure data consistency
         fields = processData(fields);
@@ -1,75 +1,222 @@
 import * as XLSX from 'xlsx';
 import { FileData } from '@/types/data';
 import { createError } from '@/utils/core/error';
-import { inferFieldType } from '../inference';
+import { inferField } from '../columnTypes';
 import { processData } from '@/utils/analysis/data/processing';
+import { detectSheetLayout, normalizeHeaders, type SheetLayout } from './sheetLayout';
+import { ReservoirSampler } from '../sampling';
+import { STREAMING_SAMPLE_ROWS } from '../constants';
+import { DuckDBManager } from '@/utils/analysis/core/DuckDBManager';
 
 const CHUNK_SIZE = 1000;
 const MAX_ROWS = 100000;
+const PREVIEW_ROWS = 10;
 
-export async function processExcel(file: File): Promise<FileData> {
-  try {
-    const buffer = await file.arrayBuffer();
-    const workbook = XLSX.read(buffer);
+export interface SheetInfo {
+  name: string;
+  index: number;
+  layout: SheetLayout;
+  headers: string[];
+  rowCount: number;
+  // Raw top rows of the sheet, including anything above the header
+  preview: unknown[][];
+  hasData: boolean;
+}
+
+export interface SheetSelection {
+  name: string;
+  // Overrides the detected header row (zero-based)
+  headerRow?: number;
+}
+
+async function readWorkbook(file: File): Promise<XLSX.WorkBook> {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer);
+
+  if (!workbook.SheetNames.length) {
+    throw createError('PROCESSING_FAILED', 'Excel file contains no sheets');
+  }
+
+  return workbook;
+}
+
+function readSheetRows(worksheet: XLSX.WorkSheet): unknown[][] {
+  return XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: false,
+    dateNF: 'yyyy-mm-dd',
+    blankrows: true,
+    defval: null
+  });
+}
+
+function describeSheet(workbook: XLSX.WorkBook, name: string, headerRow?: number): SheetInfo & { rows: unknown[][] } {
+  const rows = readSheetRows(workbook.Sheets[name]);
+  const layout = detectSheetLayout(rows, headerRow);
+  const headers = normalizeHeaders(
+    (rows[layout.headerRow] ?? []).slice(layout.firstColumn, layout.lastColumn + 1)
+  );
+  const rowCount = Math.max(0, layout.lastDataRow - layout.headerRow);
+
+  return {
+    name,
+    index: workbook.SheetNames.indexOf(name),
+    layout,
+    headers,
+    rowCount,
+    preview: rows.slice(0, layout.headerRow + PREVIEW_ROWS + 1),
+    hasData: headers.length > 0 && rowCount > 0,
+    rows
+  };
+}
+
+function toCellValue(value: unknown): unknown {
+  // Handle Excel date numbers
+  if (typeof value === 'number' && value > 25569 && value < 50000) {
+    return XLSX.SSF.format('yyyy-mm-dd', value);
+  }
+  return value;
+}
+
+async function sheetToFileData(fileName: string, sheet: SheetInfo & { rows: unknown[][] }, sheetCount: number): Promise<FileData> {
+  const { layout, headers } = sheet;
+  const allRows = sheet.rows.slice(layout.firstDataRow, layout.lastDataRow + 1);
+  // Keep the plain file name for single-sheet workbooks
+  const name = sheetCount > 1 ? `${fileName} [${sheet.name}]` : fileName;
 
-    if (!workbook.SheetNames.length) {
-      throw createError('PROCESSING_FAILED', 'Excel file contains no sheets');
+  if (allRows.length === 0) {
+    throw createError('PROCESSING_FAILED', `Sheet "${sheet.name}" has no data rows`);
+  }
+
+  // Sheets past the row limit are loaded into DuckDB; only a sample stays in memory
+  const streamed = allRows.length > MAX_ROWS;
+  let rows = allRows;
+  if (streamed) {
+    const sampler = new ReservoirSampler<unknown[]>(STREAMING_SAMPLE_ROWS);
+    allRows.forEach(row => sampler.add(row));
+    rows = sampler.values();
+  }
+
+  // Process columns into fields
+  const fields = headers.map((header, offset) => {
+    const columnIndex = layout.firstColumn + offset;
+    const columnValues = [];
+    for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + CHUNK_SIZE);
+      columnValues.push(...chunk.map(row => toCellValue(row[columnIndex])));
     }
 
-    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-    const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-      header: 1,
-      raw: false,
-      dateNF: 'yyyy-mm-dd',
-      blankrows: false
+    return inferField(header, columnValues);
+  });
+
+  const fileData: FileData = {
+    type: 'csv', // We convert to our standard format
+    content: { fields: processData(fields) },
+    name
+  };
+
+  if (streamed) {
+    await loadSheetIntoDuckDB(fileData, allRows, layout.firstColumn);
+  }
+
+  return fileData;
+}
+
+async function loadSheetIntoDuckDB(fileData: FileData, rows: unknown[][], firstColumn: number): Promise<void> {
+  const duckdb = DuckDBManager.getInstance();
+  const table = await duckdb.claimTableName(fileData.name);
+  const staging = `${table}__staging`;
+  const columns = fileData.content.fields.map(field => ({ name: field.name, type: field.type }));
+
+  for (let i = 0; i < rows.length; i += MAX_ROWS) {
+    const chunk = rows.slice(i, i + MAX_ROWS).map(row =>
+      columns.map((_, offset) => {
+        const value = toCellValue(row[firstColumn + offset]);
+        return value == null || value === '' ? null : String(value);
+      })
+    );
+    await duckdb.appendRows(staging, columns.map(column => column.name), chunk, i === 0);
+  }
+
+  const castFailures = await duckdb.finalizeTable(staging, table, columns);
+  const stats = await duckdb.getColumnStats(table, columns);
+
+  fileData.content.fields = fileData.content.fields.map(field => {
+    const { rowCount: _rowCount, nullPercentage, ...fieldStats } = stats[field.name] ?? {};
+    return { ...field, nullPercentage, stats: { ...field.stats, ...fieldStats } };
+  });
+  fileData.source = {
+    kind: 'duckdb',
+    table,
+    rowCount: rows.length,
+    sampleSize: fileData.content.fields[0]?.value.length ?? 0,
+    castFailures
+  };
+}
+
+/**
+ * Lists every sheet with its detected header row, data range and a preview,
+ * so the user can choose which sheets to load.
+ */
+export async function inspectWorkbook(file: File): Promise<SheetInfo[]> {
+  try {
+    const workbook = await readWorkbook(file);
+    return workbook.SheetNames.map(name => {
+      const { rows: _rows, ...info } = describeSheet(workbook, name);
+      return info;
     });
+  } catch (error) {
+    console.error('Excel inspection error:', error);
+    throw createError(
+      'PROCESSING_FAILED',
+      error instanceof Error ? error.message : 'Failed to read Excel file'
+    );
+  }
+}
 
-    if (!jsonData || jsonData.length < 2) {
-      throw createError('PROCESSING_FAILED', 'Invalid or empty Excel file');
-    }
+/**
+ * Loads the selected sheets as separate datasets.
+ */
+export async function processExcelSheets(file: File, selections: SheetSelection[]): Promise<FileData[]> {
+  try {
+    const workbook = await readWorkbook(file);
 
-    // Check row limit
-    if (jsonData.length > MAX_ROWS) {
-      throw createError('PROCESSING_FAILED', `File exceeds maximum limit of ${MAX_ROWS} rows`);
+    if (selections.length === 0) {
+      throw createError('INVALID_INPUT', 'No sheets selected');
     }
 
-    const headers = jsonData[0] as string[];
-    const rows = jsonData.slice(1) as any[][];
-
-    // Process columns into fields
-    const fields = headers.map((name, columnIndex) => {
-      const columnValues = [];
-      for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
-        const chunk = rows.slice(i, i + CHUNK_SIZE);
-        const values = chunk.map(row => {
-          const value = row[columnIndex];
-          // Handle Excel date numbers
-          if (typeof value === 'number' && value > 25569 && value < 50000) {
-            return XLSX.SSF.format('yyyy-mm-dd', value);
-          }
-          return value;
-        });
-        columnValues.push(...values);
+    const datasets: FileData[] = [];
+    for (const selection of selections) {
+      if (!workbook.Sheets[selection.name]) {
+        throw createError('INVALID_INPUT', `Sheet "${selection.name}" does not exist`);
       }
+      const sheet = describeSheet(workbook, selection.name, selection.headerRow);
+      datasets.push(await sheetToFileData(file.name, sheet, selections.length));
+    }
+    return datasets;
+  } catch (error) {
+    console.error('Excel processing error:', error);
+    throw createError(
+      'PROCESSING_FAILED',
+      error instanceof Error ? error.message : 'Failed to process Excel file'
+    );
+  }
+}
 
-      let type = inferFieldType(columnValues);
-      if (type === 'object' || type === 'array') type = 'string';
+export async function processExcel(file: File): Promise<FileData> {
+  try {
+    const workbook = await readWorkbook(file);
 
-      return {
-        name: String(name),
-        type,
-        value: columnValues
-      };
-    });
+    // Skip cover sheets and load the first sheet that holds a table
+    const sheet = workbook.SheetNames
+      .map(name => describeSheet(workbook, name))
+      .find(info => info.hasData);
 
-    // Process the fields to ensure data consistency
-    const processedFields = processData(fields);
+    if (!sheet) {
+      throw createError('PROCESSING_FAILED', 'Invalid or empty Excel file');
+    }
 
-    return {
-      type: 'csv', // We convert to our standard format
-      content: { fields: processedFields },
-      name: file.name
-    };
+    return await sheetToFileData(file.name, sheet, 1);
   } catch (error) {
     console.error('Excel processing error:', error);
     throw createError(
@@ -77,4 +224,4 @@ export async function processExcel(file: File): Promise<FileData> {
       error instanceof Error ? error.message : 'Failed to process Excel file'
     );
   }
-}
\ No newline at end of file
+}
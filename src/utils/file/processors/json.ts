@@ -0,0 +1,131 @@
+import { DataField, FileData } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { processData } from '@/utils/analysis/data/processing';
+import { inferField } from '../columnTypes';
+
+export type JSONFormat = 'json' | 'ndjson';
+
+type JSONRecord = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is JSONRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flattens nested objects into dotted keys, e.g. `{ a: { b: 1 } }`
+ * becomes `{ 'a.b': 1 }`. Arrays are kept as JSON text.
+ */
+export function flattenRecord(value: JSONRecord, prefix = '', out: JSONRecord = {}): JSONRecord {
+  Object.entries(value).forEach(([key, item]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(item)) {
+      flattenRecord(item, name, out);
+    } else if (Array.isArray(item)) {
+      out[name] = JSON.stringify(item);
+    } else {
+      out[name] = item;
+    }
+  });
+  return out;
+}
+
+function parseNDJSON(text: string): unknown[] {
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw createError('INVALID_INPUT', `Invalid JSON on line ${index + 1}`);
+    }
+  });
+  return records;
+}
+
+function unwrapRecords(parsed: unknown): unknown[] {
+  if (Array.isArray(parsed)) return parsed;
+
+  if (isPlainObject(parsed)) {
+    // API exports often wrap the rows, e.g. `{ "data": [...] }`
+    const arrays = Object.values(parsed).filter(
+      (value): value is unknown[] => Array.isArray(value) && value.some(isPlainObject)
+    );
+    return arrays.length === 1 ? arrays[0] : [parsed];
+  }
+
+  return [parsed];
+}
+
+/**
+ * Parses a JSON array (or an object wrapping one) or newline-delimited
+ * JSON into flat records. A `.json` file that is really NDJSON is
+ * accepted too.
+ */
+export function parseJSONRecords(text: string, format: JSONFormat): JSONRecord[] {
+  let records: unknown[];
+
+  if (format === 'ndjson') {
+    records = parseNDJSON(text);
+  } else {
+    try {
+      records = unwrapRecords(JSON.parse(text));
+    } catch (error) {
+      try {
+        records = parseNDJSON(text);
+      } catch {
+        throw createError(
+          'INVALID_INPUT',
+          error instanceof Error ? `Invalid JSON: ${error.message}` : 'Invalid JSON'
+        );
+      }
+    }
+  }
+
+  return records.map(record =>
+    isPlainObject(record) ? flattenRecord(record) : { value: record }
+  );
+}
+
+/**
+ * Builds one field per key seen in any record, in first-seen order.
+ * Records missing a key get null for that column.
+ */
+export function recordsToFields(records: JSONRecord[]): DataField[] {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    });
+  });
+
+  return columns.map(name => inferField(name, records.map(record => record[name] ?? null)));
+}
+
+export async function processJSON(file: File): Promise<FileData> {
+  try {
+    const extension = file.name.toLowerCase().split('.').pop();
+    const format: JSONFormat = extension === 'ndjson' || extension === 'jsonl' ? 'ndjson' : 'json';
+    const records = parseJSONRecords(await file.text(), format);
+    const fields = recordsToFields(records);
+
+    if (records.length === 0 || fields.length === 0) {
+      throw createError('PROCESSING_FAILED', 'JSON file contains no records');
+    }
+
+    return {
+      type: 'csv', // We convert to our standard format
+      content: { fields: processData(fields, { keepNulls: true }) },
+      name: file.name
+    };
+  } catch (error) {
+    console.error('JSON processing error:', error);
+    throw createError(
+      'PROCESSING_FAILED',
+      error instanceof Error ? error.message : 'Failed to process JSON file'
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { FileData } from '@/types/data';
+import { createError } from '@/utils/core/error';
+import { DuckDBManager } from '@/utils/analysis/core/DuckDBManager';
+import { sqlLiteral, toTableName } from '@/utils/analysis/core/sql';
+import { loadDuckDBRelation } from './columnar';
+
+/**
+ * Reads Parquet through DuckDB, which pulls only the row groups it needs
+ * from the file instead of loading it into memory.
+ */
+export async function processParquet(file: File): Promise<FileData> {
+  try {
+    const duckdb = DuckDBManager.getInstance();
+    const registeredName = `${toTableName(file.name)}.parquet`;
+    await duckdb.registerFile(registeredName, file);
+
+    return await loadDuckDBRelation(file.name, `read_parquet(${sqlLiteral(registeredName)})`);
+  } catch (error) {
+    console.error('Parquet processing error:', error);
+    throw createError(
+      'PROCESSING_FAILED',
+      error instanceof Error ? error.message : 'Failed to process Parquet file'
+    );
+  }
+}
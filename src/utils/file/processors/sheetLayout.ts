@@ -0,0 +1,99 @@
+export interface SheetLayout {
+  // Zero-based row index of the header row within the sheet's rows
+  headerRow: number;
+  firstDataRow: number;
+  lastDataRow: number;
+  firstColumn: number;
+  lastColumn: number;
+}
+
+const HEADER_SCAN_LIMIT = 30;
+
+function isBlank(value: unknown): boolean {
+  return value == null || String(value).trim() === '';
+}
+
+function filledCount(row: unknown[] = []): number {
+  return row.reduce<number>((count, cell) => count + (isBlank(cell) ? 0 : 1), 0);
+}
+
+function isTextCell(value: unknown): boolean {
+  return typeof value === 'string' && value.trim() !== '' && isNaN(Number(value));
+}
+
+/**
+ * Finds the row holding column headers, skipping cover text and merged
+ * title rows that only fill a cell or two above the table.
+ */
+export function detectHeaderRow(rows: unknown[][]): number {
+  const scanned = rows.slice(0, HEADER_SCAN_LIMIT);
+  const width = Math.max(0, ...scanned.map(filledCount));
+  if (width === 0) return 0;
+
+  let best = 0;
+  let bestScore = -Infinity;
+
+  scanned.forEach((row, index) => {
+    const filled = filledCount(row);
+    if (filled < Math.max(2, Math.ceil(width * 0.5))) return;
+
+    const text = row.filter(isTextCell).length;
+    const unique = new Set(row.filter(cell => !isBlank(cell)).map(String)).size;
+    const next = rows[index + 1];
+    const hasDataBelow = next !== undefined && filledCount(next) > 0;
+
+    // Headers are wide, mostly text, distinct, and sit on top of data
+    const score =
+      filled / width +
+      text / filled +
+      (unique === filled ? 0.5 : 0) +
+      (hasDataBelow ? 0.5 : -1) -
+      index * 0.01;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = index;
+    }
+  });
+
+  return best;
+}
+
+export function detectSheetLayout(rows: unknown[][], headerRow?: number): SheetLayout {
+  const header = headerRow ?? detectHeaderRow(rows);
+  const headerCells = rows[header] ?? [];
+
+  let firstColumn = headerCells.findIndex(cell => !isBlank(cell));
+  if (firstColumn < 0) firstColumn = 0;
+  let lastColumn = headerCells.length - 1;
+  while (lastColumn > firstColumn && isBlank(headerCells[lastColumn])) lastColumn--;
+
+  // The table ends at the first fully blank row (notes often follow it)
+  let lastDataRow = header;
+  for (let row = header + 1; row < rows.length; row++) {
+    const cells = (rows[row] ?? []).slice(firstColumn, lastColumn + 1);
+    if (filledCount(cells) === 0) break;
+    lastDataRow = row;
+  }
+
+  return {
+    headerRow: header,
+    firstDataRow: header + 1,
+    lastDataRow,
+    firstColumn,
+    lastColumn
+  };
+}
+
+/**
+ * Builds unique, non-empty column names from a header row.
+ */
+export function normalizeHeaders(cells: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return cells.map((cell, index) => {
+    const base = isBlank(cell) ? `Column ${index + 1}` : String(cell).replace(/\s+/g, ' ').trim();
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+}
@@ -62,8 +62,8 @@ function processParseResults(data: any[][]): ParsedData {
     summary: {
       totalRows: filteredRows.length,
       totalColumns: headers.length,
-      dataTypes: headers.map((_, index) => 
-        inferFieldType(filteredRows.map(row => row[index]))
+      dataTypes: headers.map((header, index) => 
+        inferFieldType(filteredRows.map(row => row[index]), header)
       ),
     },
   };
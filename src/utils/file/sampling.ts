@@ -0,0 +1,37 @@
+/**
+ * Keeps a uniform random sample of a stream of rows (Algorithm R) while
+ * remembering each row's position, so the sample can be returned in the
+ * original row order for time-ordered analyses.
+ */
+export class ReservoirSampler<T> {
+  private items: Array<{ index: number; item: T }> = [];
+  private seen = 0;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  add(item: T): void {
+    const index = this.seen++;
+    if (this.items.length < this.capacity) {
+      this.items.push({ index, item });
+      return;
+    }
+
+    const slot = Math.floor(this.random() * (index + 1));
+    if (slot < this.capacity) {
+      this.items[slot] = { index, item };
+    }
+  }
+
+  get count(): number {
+    return this.seen;
+  }
+
+  values(): T[] {
+    return [...this.items]
+      .sort((a, b) => a.index - b.index)
+      .map(entry => entry.item);
+  }
+}
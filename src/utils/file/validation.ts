@@ -1,18 +1,24 @@
 import { parse } from 'papaparse';
 import { ValidationResult } from '../../types/validation';
 import { MAX_FILE_SIZE, SUPPORTED_FILE_TYPES, ERROR_MESSAGES } from '../core/constants';
+import { MAX_STREAMING_FILE_SIZE, STREAMED_FILE_TYPES, FILE_ERROR_MESSAGES } from './constants';
 
 export function validateFile(file: File): ValidationResult {
-  // Check file size
-  if (file.size > MAX_FILE_SIZE) {
+  const extension = file.name.toLowerCase().split('.').pop();
+
+  // Check file size; CSV and Parquet are streamed, so they may be larger
+  const streamed = STREAMED_FILE_TYPES.includes(extension as any);
+  const maxSize = streamed ? MAX_STREAMING_FILE_SIZE : MAX_FILE_SIZE;
+  if (file.size > maxSize) {
     return {
       isValid: false,
-      error: ERROR_MESSAGES.FILE_TOO_LARGE
+      error: streamed
+        ? FILE_ERROR_MESSAGES.SIZE_EXCEEDED(maxSize)
+        : ERROR_MESSAGES.FILE_TOO_LARGE
     };
   }
 
   // Check file type
-  const extension = file.name.toLowerCase().split('.').pop();
   if (!extension || !SUPPORTED_FILE_TYPES.includes(extension as any)) {
     return {
       isValid: false,
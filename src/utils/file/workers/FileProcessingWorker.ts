@@ -2,9 +2,13 @@
 
 import { parse } from 'papaparse';
 import * as XLSX from 'xlsx';
+import { detectSheetLayout, normalizeHeaders, type SheetLayout } from '../processors/sheetLayout';
+import { ReservoirSampler } from '../sampling';
+import { inferColumnType, toBaseType } from '../columnTypes';
+import type { ColumnType } from '@/types/data';
 
 interface WorkerMessage {
-  type: 'process' | 'cancel';
+  type: 'process' | 'cancel' | 'ack';
   payload: {
     file: File;
     fileType: 'csv' | 'excel';
@@ -12,10 +16,24 @@ interface WorkerMessage {
       chunkSize?: number;
       maxRows?: number;
       includeStats?: boolean;
+      // Stream rows back in chunks and keep only a sample of this size
+      stream?: {
+        sampleSize: number;
+        chunkBytes: number;
+      };
     };
   };
 }
 
+interface ChunkMessage {
+  type: 'chunk';
+  payload: {
+    headers: string[];
+    rows: Array<Array<string | null>>;
+    index: number;
+  };
+}
+
 interface ProgressMessage {
   type: 'progress';
   payload: {
@@ -33,6 +51,7 @@ interface CompleteMessage {
       name: string;
       type: 'number' | 'string' | 'boolean' | 'date';
       value: any[];
+      columnType?: ColumnType;
       stats?: {
         mean?: number;
         median?: number;
@@ -44,6 +63,7 @@ interface CompleteMessage {
     }>;
     totalRows: number;
     processingTime: number;
+    streamed?: boolean;
   };
 }
 
@@ -57,10 +77,13 @@ interface ErrorMessage {
 
 let isProcessing = false;
 let shouldCancel = false;
+// Resumes a streaming parse once the main thread has stored the last chunk
+let resumeStream: (() => void) | null = null;
 
 // Enhanced field type inference with statistics
-function inferFieldTypeWithStats(values: any[]): {
+function inferFieldTypeWithStats(values: any[], name: string): {
   type: 'number' | 'string' | 'boolean' | 'date';
+  columnType: ColumnType;
   stats?: {
     mean?: number;
     median?: number;
@@ -72,49 +95,17 @@ function inferFieldTypeWithStats(values: any[]): {
 } {
   const nonNullValues = values.filter(v => v != null && v !== '' && v !== undefined);
   const nullPercentage = ((values.length - nonNullValues.length) / values.length) * 100;
-  
+  const columnType = inferColumnType(values, name);
+  const finalType = toBaseType(columnType.semantic);
+
   if (nonNullValues.length === 0) {
     return { 
-      type: 'string',
+      type: finalType,
+      columnType,
       stats: { nullPercentage }
     };
   }
 
-  // Try to infer the type based on the values
-  const typeChecks = nonNullValues.map(value => {
-    // Handle Excel date numbers
-    if (typeof value === 'number' && value > 25569 && value < 50000) {
-      return 'date';
-    }
-    
-    // Handle regular numbers
-    if (typeof value === 'number' || (!isNaN(Number(value)) && value !== '')) {
-      return 'number';
-    }
-    
-    // Handle dates
-    const dateStr = String(value);
-    if (!isNaN(Date.parse(dateStr))) {
-      return 'date';
-    }
-    
-    // Handle booleans
-    if (typeof value === 'boolean' || ['true', 'false', '0', '1'].includes(String(value).toLowerCase())) {
-      return 'boolean';
-    }
-    
-    return 'string';
-  });
-  
-  const uniqueTypes = [...new Set(typeChecks)];
-  let finalType: 'number' | 'string' | 'boolean' | 'date' = 'string';
-  
-  if (uniqueTypes.length === 1) {
-    finalType = uniqueTypes[0] as 'number' | 'string' | 'boolean' | 'date';
-  } else if (uniqueTypes.includes('number') && uniqueTypes.length === 2 && uniqueTypes.includes('string')) {
-    finalType = 'number'; // Handle cases where some numbers are stored as strings
-  }
-
   // Calculate statistics for numeric fields
   let stats: any = { nullPercentage };
   
@@ -145,7 +136,7 @@ function inferFieldTypeWithStats(values: any[]): {
     }
   }
 
-  return { type: finalType, stats };
+  return { type: finalType, columnType, stats };
 }
 
 // Process CSV files with enhanced chunking and progress tracking
@@ -222,11 +213,12 @@ async function processCSV(file: File, options: any = {}): Promise<void> {
 
         const processingTime = performance.now() - startTime;
         const fields = headers.map(header => {
-          const { type, stats } = inferFieldTypeWithStats(fieldValues[header]);
+          const { type, columnType, stats } = inferFieldTypeWithStats(fieldValues[header], header);
           return {
             name: header,
             type,
             value: fieldValues[header],
+            columnType,
             stats
           };
         });
@@ -252,6 +244,96 @@ async function processCSV(file: File, options: any = {}): Promise<void> {
   });
 }
 
+// Stream CSV rows to the main thread chunk by chunk. The parser pauses after
+// each chunk until the main thread acknowledges it, so memory stays bounded
+// by the chunk size no matter how large the file is.
+async function processCSVStream(file: File, options: any): Promise<void> {
+  const startTime = performance.now();
+  const sampler = new ReservoirSampler<Array<string | null>>(options.stream.sampleSize);
+  let headers: string[] = [];
+  let chunkCount = 0;
+
+  return new Promise((resolve, reject) => {
+    parse<string[]>(file, {
+      chunk: (results, parser) => {
+        if (shouldCancel) {
+          parser.abort();
+          reject(new Error('Processing cancelled'));
+          return;
+        }
+
+        let rows = results.data;
+        if (headers.length === 0 && rows.length > 0) {
+          headers = normalizeHeaders(rows[0]);
+          rows = rows.slice(1);
+        }
+
+        const aligned = rows.map(row =>
+          headers.map((_, i) => (row[i] == null || row[i] === '' ? null : row[i]))
+        );
+        aligned.forEach(row => sampler.add(row));
+
+        parser.pause();
+        resumeStream = () => parser.resume();
+
+        self.postMessage({
+          type: 'chunk',
+          payload: { headers, rows: aligned, index: chunkCount }
+        } as ChunkMessage);
+
+        chunkCount++;
+        self.postMessage({
+          type: 'progress',
+          payload: {
+            processed: sampler.count,
+            total: undefined,
+            percentage: Math.min(((chunkCount * options.stream.chunkBytes) / file.size) * 100, 100),
+            currentChunk: chunkCount
+          }
+        } as ProgressMessage);
+      },
+      complete: () => {
+        resumeStream = null;
+        if (shouldCancel) {
+          reject(new Error('Processing cancelled'));
+          return;
+        }
+
+        if (headers.length === 0) {
+          reject(new Error('No headers found in CSV'));
+          return;
+        }
+
+        const sample = sampler.values();
+        const fields = headers.map((header, i) => {
+          const values = sample.map(row => row[i]);
+          const { type, columnType, stats } = inferFieldTypeWithStats(values, header);
+          return { name: header, type, value: values, columnType, stats };
+        });
+
+        self.postMessage({
+          type: 'complete',
+          payload: {
+            fields,
+            totalRows: sampler.count,
+            processingTime: performance.now() - startTime,
+            streamed: true
+          }
+        } as CompleteMessage);
+
+        resolve();
+      },
+      error: (error) => {
+        resumeStream = null;
+        reject(new Error(error.message));
+      },
+      header: false,
+      skipEmptyLines: true,
+      chunkSize: options.stream.chunkBytes
+    });
+  });
+}
+
 // Process Excel files with enhanced memory management
 async function processExcel(file: File, options: any = {}): Promise<void> {
   const startTime = performance.now();
@@ -270,15 +352,38 @@ async function processExcel(file: File, options: any = {}): Promise<void> {
       throw new Error('Excel file contains no sheets');
     }
 
-    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
-    const totalRows = Math.min(range.e.r + 1, maxRows);
-    
-    let processedRows = 0;
-    const headers: string[] = [];
+    // Skip cover sheets and title rows: use the first sheet holding a table
+    let rows: unknown[][] = [];
+    let layout: SheetLayout | null = null;
+    for (const name of workbook.SheetNames) {
+      const sheetRows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+        header: 1,
+        raw: false,
+        dateNF: 'yyyy-mm-dd',
+        blankrows: true,
+        defval: null
+      });
+      const sheetLayout = detectSheetLayout(sheetRows);
+      if (sheetLayout.lastDataRow > sheetLayout.headerRow) {
+        rows = sheetRows;
+        layout = sheetLayout;
+        break;
+      }
+    }
+
+    const headers: string[] = layout
+      ? normalizeHeaders((rows[layout.headerRow] ?? []).slice(layout.firstColumn, layout.lastColumn + 1))
+      : [];
     const fieldValues: Record<string, any[]> = {};
+    headers.forEach(header => {
+      fieldValues[header] = [];
+    });
+
+    const dataRows = layout ? rows.slice(layout.firstDataRow, layout.lastDataRow + 1) : [];
+    const totalRows = Math.min(dataRows.length, maxRows);
+    let processedRows = 0;
 
-    // Process rows in chunks to avoid memory issues
+    // Process rows in chunks so progress can be reported
     const chunkSize = 1000;
     for (let row = 0; row < totalRows; row += chunkSize) {
       if (shouldCancel) {
@@ -286,46 +391,20 @@ async function processExcel(file: File, options: any = {}): Promise<void> {
       }
 
       const endRow = Math.min(row + chunkSize, totalRows);
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-        header: 1,
-        raw: false,
-        dateNF: 'yyyy-mm-dd',
-        blankrows: false,
-        range: row === 0 ? undefined : `${row + 1}:${endRow}`
-      });
-
-      if (row === 0 && jsonData.length > 0) {
-        headers.push(...(jsonData[0] as string[]).map(String));
-        headers.forEach(header => {
-          fieldValues[header] = [];
-        });
-        
-        // Process first chunk including headers
-        (jsonData.slice(1) as any[][]).forEach((rowData) => {
-          if (processedRows >= maxRows) return;
-          headers.forEach((header, i) => {
-            fieldValues[header].push(rowData[i]);
-          });
-          processedRows++;
-        });
-      } else {
-        // Process subsequent chunks
-        (jsonData as any[][]).forEach((rowData) => {
-          if (processedRows >= maxRows) return;
-          headers.forEach((header, i) => {
-            fieldValues[header].push(rowData[i]);
-          });
-          processedRows++;
+      dataRows.slice(row, endRow).forEach((rowData) => {
+        headers.forEach((header, i) => {
+          fieldValues[header].push(rowData[layout!.firstColumn + i]);
         });
-      }
+        processedRows++;
+      });
 
       // Report progress
-      const percentage = Math.min((processedRows / maxRows) * 100, 100);
+      const percentage = Math.min((processedRows / totalRows) * 100, 100);
       self.postMessage({
         type: 'progress',
         payload: {
           processed: processedRows,
-          total: maxRows === Infinity ? totalRows : maxRows,
+          total: totalRows,
           percentage,
           currentChunk: Math.floor(row / chunkSize) + 1
         }
@@ -338,11 +417,12 @@ async function processExcel(file: File, options: any = {}): Promise<void> {
 
     const processingTime = performance.now() - startTime;
     const fields = headers.map(header => {
-      const { type, stats } = inferFieldTypeWithStats(fieldValues[header]);
+      const { type, columnType, stats } = inferFieldTypeWithStats(fieldValues[header], String(header));
       return {
         name: String(header),
         type,
         value: fieldValues[header],
+        columnType,
         stats
       };
     });
@@ -367,6 +447,14 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
 
   if (type === 'cancel') {
     shouldCancel = true;
+    resumeStream?.();
+    return;
+  }
+
+  if (type === 'ack') {
+    const resume = resumeStream;
+    resumeStream = null;
+    resume?.();
     return;
   }
 
@@ -385,7 +473,9 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
     try {
       const { file, fileType, options = {} } = payload;
 
-      if (fileType === 'csv') {
+      if (fileType === 'csv' && options.stream) {
+        await processCSVStream(file, options);
+      } else if (fileType === 'csv') {
         await processCSV(file, options);
       } else if (fileType === 'excel') {
         await processExcel(file, options);
@@ -1,4 +1,7 @@
 import { FileData } from '@/types/data';
+import { DuckDBManager } from '@/utils/analysis/core/DuckDBManager';
+import { STREAMING_CHUNK_SIZE, STREAMING_SAMPLE_ROWS } from '../constants';
+import { inferField } from '../columnTypes';
 
 export interface ProcessingOptions {
   chunkSize?: number;
@@ -6,6 +9,11 @@ export interface ProcessingOptions {
   includeStats?: boolean;
   onProgress?: (progress: ProgressInfo) => void;
   onError?: (error: string) => void;
+  // Load every row into this DuckDB table and keep only a sample in memory
+  stream?: {
+    tableName: string;
+    sampleSize?: number;
+  };
 }
 
 export interface ProgressInfo {
@@ -28,6 +36,10 @@ export class FileProcessingWorkerManager {
   private resolvePromise: ((result: ProcessingResult) => void) | null = null;
   private rejectPromise: ((error: Error) => void) | null = null;
   private currentFileName: string | null = null;
+  private currentStream: ProcessingOptions['stream'] | null = null;
+  // Worker messages are handled one at a time so streamed chunks are
+  // stored in order before the completion message is processed
+  private messageQueue: Promise<void> = Promise.resolve();
 
   constructor() {
     this.initializeWorker();
@@ -60,52 +72,15 @@ export class FileProcessingWorkerManager {
     if (!this.worker) return;
 
     this.worker.onmessage = (e: MessageEvent) => {
-      const { type, payload } = e.data;
-
-      switch (type) {
-        case 'progress':
-          if (this.resolvePromise) {
-            // Progress updates are handled through the onProgress callback
-            // We don't resolve the promise here
-          }
-          break;
-
-        case 'complete':
-          if (this.resolvePromise) {
-            console.log('Worker complete payload:', payload);
-            console.log('Worker fields:', payload.fields);
-            
-            const fileData: FileData = {
-              name: this.currentFileName || 'processed_file',
-              type: 'csv',
-              content: {
-                fields: payload.fields.map((field: any) => ({
-                  name: field.name,
-                  type: field.type,
-                  value: field.value,
-                  stats: field.stats
-                }))
-              }
-            };
-
-            console.log('Constructed fileData:', fileData);
-
-            this.resolvePromise({
-              success: true,
-              data: fileData,
-              processingTime: payload.processingTime
-            });
-            this.cleanup();
-          }
-          break;
-
-        case 'error':
+      this.messageQueue = this.messageQueue
+        .then(() => this.handleWorkerMessage(e.data))
+        .catch(error => {
+          this.worker?.postMessage({ type: 'cancel' });
           if (this.rejectPromise) {
-            this.rejectPromise(new Error(payload.message));
+            this.rejectPromise(error instanceof Error ? error : new Error('Failed to process file'));
             this.cleanup();
           }
-          break;
-      }
+        });
     };
 
     this.worker.onerror = () => {
@@ -116,6 +91,91 @@ export class FileProcessingWorkerManager {
     };
   }
 
+  private async handleWorkerMessage(data: { type: string; payload: any }): Promise<void> {
+    const { type, payload } = data;
+
+    switch (type) {
+      case 'progress':
+        // Progress updates are handled through the onProgress callback
+        break;
+
+      case 'chunk':
+        if (this.currentStream) {
+          await DuckDBManager.getInstance().appendRows(
+            `${this.currentStream.tableName}__staging`,
+            payload.headers,
+            payload.rows,
+            payload.index === 0
+          );
+        }
+        this.worker?.postMessage({ type: 'ack' });
+        break;
+
+      case 'complete':
+        if (this.resolvePromise) {
+          const fileData: FileData = {
+            name: this.currentFileName || 'processed_file',
+            type: 'csv',
+            content: {
+              fields: payload.fields.map((field: any) => ({
+                name: field.name,
+                type: field.type,
+                value: field.value,
+                columnType: field.columnType,
+                stats: field.stats
+              }))
+            }
+          };
+
+          if (payload.streamed && this.currentStream) {
+            await this.finalizeStream(fileData, payload.totalRows);
+          }
+
+          this.resolvePromise({
+            success: true,
+            data: fileData,
+            processingTime: payload.processingTime
+          });
+          this.cleanup();
+        }
+        break;
+
+      case 'error':
+        if (this.rejectPromise) {
+          this.rejectPromise(new Error(payload.message));
+          this.cleanup();
+        }
+        break;
+    }
+  }
+
+  // Applies the sample's inferred types to the streamed table and replaces
+  // the sample statistics with ones computed over every row
+  private async finalizeStream(fileData: FileData, totalRows: number): Promise<void> {
+    const { tableName } = this.currentStream!;
+    const duckdb = DuckDBManager.getInstance();
+    const columns = fileData.content.fields.map(field => ({ name: field.name, type: field.type }));
+
+    const castFailures = await duckdb.finalizeTable(`${tableName}__staging`, tableName, columns);
+    const stats = await duckdb.getColumnStats(tableName, columns);
+
+    fileData.content.fields = fileData.content.fields.map(field => {
+      const { rowCount: _rowCount, nullPercentage, ...fieldStats } = stats[field.name] ?? {};
+      return {
+        ...field,
+        nullPercentage,
+        stats: { ...field.stats, ...fieldStats }
+      };
+    });
+    fileData.source = {
+      kind: 'duckdb',
+      table: tableName,
+      rowCount: totalRows,
+      sampleSize: fileData.content.fields[0]?.value.length ?? 0,
+      castFailures
+    };
+  }
+
   async processFile(file: File, options: ProcessingOptions = {}): Promise<ProcessingResult> {
     if (this.isProcessing) {
       return {
@@ -126,6 +186,7 @@ export class FileProcessingWorkerManager {
 
     this.isProcessing = true;
     this.currentFileName = file.name;
+    this.currentStream = options.stream ?? null;
 
     return new Promise((resolve, reject) => {
       this.resolvePromise = resolve;
@@ -170,7 +231,11 @@ export class FileProcessingWorkerManager {
           options: {
             chunkSize: options.chunkSize || 10000,
             maxRows: options.maxRows,
-            includeStats: options.includeStats
+            includeStats: options.includeStats,
+            stream: options.stream && {
+              sampleSize: options.stream.sampleSize ?? STREAMING_SAMPLE_ROWS,
+              chunkBytes: STREAMING_CHUNK_SIZE
+            }
           }
         }
       });
@@ -180,6 +245,13 @@ export class FileProcessingWorkerManager {
   private async processFileInMainThread(file: File, options: ProcessingOptions): Promise<ProcessingResult> {
     try {
       const extension = file.name.toLowerCase().split('.').pop();
+
+      if (options.stream) {
+        return {
+          success: false,
+          error: 'Streaming large files requires Web Worker support'
+        };
+      }
       
       if (extension === 'csv') {
         return await this.processCSVInMainThread(file, options);
@@ -246,11 +318,7 @@ export class FileProcessingWorkerManager {
             return;
           }
 
-          const fields = headers.map(header => ({
-            name: header,
-            type: this.inferFieldType(fieldValues[header]),
-            value: fieldValues[header]
-          }));
+          const fields = headers.map(header => inferField(header, fieldValues[header]));
 
           resolve({
             success: true,
@@ -304,14 +372,9 @@ export class FileProcessingWorkerManager {
 
       const headers = jsonData[0] as string[];
       const rows = jsonData.slice(1) as any[][];
-      const fields = headers.map((name, columnIndex) => {
-        const columnValues = rows.map(row => row[columnIndex]);
-        return {
-          name: String(name),
-          type: this.inferFieldType(columnValues),
-          value: columnValues
-        };
-      });
+      const fields = headers.map((name, columnIndex) =>
+        inferField(String(name), rows.map(row => row[columnIndex]))
+      );
 
       return {
         success: true,
@@ -329,34 +392,6 @@ export class FileProcessingWorkerManager {
     }
   }
 
-  private inferFieldType(values: any[]): 'number' | 'string' | 'boolean' | 'date' {
-    const nonNullValues = values.filter(v => v != null && v !== '');
-    if (nonNullValues.length === 0) return 'string';
-    
-    const types = nonNullValues.map(value => {
-      if (typeof value === 'number' && value > 25569 && value < 50000) {
-        return 'date';
-      }
-      if (typeof value === 'number' || (!isNaN(Number(value)) && value !== '')) {
-        return 'number';
-      }
-      if (!isNaN(Date.parse(String(value)))) {
-        return 'date';
-      }
-      if (typeof value === 'boolean' || ['true', 'false', '0', '1'].includes(String(value).toLowerCase())) {
-        return 'boolean';
-      }
-      return 'string';
-    });
-
-    const uniqueTypes = [...new Set(types)];
-    if (uniqueTypes.length === 1) return uniqueTypes[0] as 'number' | 'string' | 'boolean' | 'date';
-    if (uniqueTypes.includes('number') && uniqueTypes.length === 2 && uniqueTypes.includes('string')) {
-      return 'number';
-    }
-    return 'string';
-  }
-
   cancel(): void {
     if (this.worker && this.isProcessing) {
       this.worker.postMessage({ type: 'cancel' });
@@ -369,6 +404,7 @@ export class FileProcessingWorkerManager {
     this.resolvePromise = null;
     this.rejectPromise = null;
     this.currentFileName = null;
+    this.currentStream = null;
   }
 
   destroy(): void {
@@ -49,7 +49,7 @@ self.onmessage = (e: MessageEvent) => {
 
       const fields = headers.map(header => ({
         name: header,
-        type: inferFieldType(fieldValues[header]),
+        type: inferFieldType(fieldValues[header], header),
         value: fieldValues[header]
       }));
 
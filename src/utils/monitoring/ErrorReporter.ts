@@ -7,6 +7,15 @@ interface ErrorDetails {
   context?: Record<string, any>;
 }
 
+// Error instances serialize to {}, so the fields are copied out explicitly
+interface ErrorReport extends Omit<ErrorDetails, 'error'> {
+  error: { name: string; message: string; stack?: string };
+  userId?: string;
+  requestId?: string;
+}
+
+const CLIENT_ID_KEY = 'errorReporterClientId';
+
 export class ErrorReporter {
   private static instance: ErrorReporter;
   private errors: ErrorDetails[] = [];
@@ -39,6 +48,37 @@ export class ErrorReporter {
     }
   }
 
+  /**
+   * Signed-in users are identified by email, everyone else by a random id
+   * kept in localStorage, so affected users can be counted per error.
+   */
+  private getUserId(): string | undefined {
+    try {
+      const user = JSON.parse(localStorage.getItem('user') || 'null');
+      if (user?.email) return user.email;
+
+      let clientId = localStorage.getItem(CLIENT_ID_KEY);
+      if (!clientId) {
+        clientId = `anon-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+        localStorage.setItem(CLIENT_ID_KEY, clientId);
+      }
+      return clientId;
+    } catch {
+      return undefined;
+    }
+  }
+
+  toReport(details: ErrorDetails): ErrorReport {
+    const { error, context, ...rest } = details;
+    return {
+      ...rest,
+      error: { name: error.name, message: error.message, stack: error.stack },
+      userId: this.getUserId(),
+      requestId: typeof context?.requestId === 'string' ? context.requestId : undefined,
+      context
+    };
+  }
+
   private async sendToMonitoringService(details: ErrorDetails): Promise<void> {
     try {
       const response = await fetch('/api/errors', {
@@ -46,7 +86,7 @@ export class ErrorReporter {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(details),
+        body: JSON.stringify(this.toReport(details)),
       });
 
       if (!response.ok) {
@@ -64,12 +64,43 @@ describe('ErrorReporter', () => {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(mockDetails),
+      body: expect.any(String),
     });
 
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body).toEqual(expect.objectContaining({
+      error: { name: 'Error', message: 'Test error', stack: mockError.stack },
+      componentStack: 'Component stack trace',
+      timestamp: '2024-03-20T12:00:00Z',
+      userAgent: 'test-agent',
+      url: 'http://localhost:3000'
+    }));
+
     process.env.NODE_ENV = originalEnv;
   });
 
+  it('should identify the affected user and the failed request', () => {
+    // The node test environment has no localStorage
+    const store = new Map<string, string>();
+    (global as any).localStorage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    };
+    localStorage.setItem('user', JSON.stringify({ email: 'demo@gmail.com' }));
+
+    const report = errorReporter.toReport({ ...mockDetails, context: { requestId: 'req-123' } });
+    expect(report.userId).toBe('demo@gmail.com');
+    expect(report.requestId).toBe('req-123');
+
+    localStorage.removeItem('user');
+    const anonymous = errorReporter.toReport(mockDetails);
+    expect(anonymous.userId).toMatch(/^anon-/);
+    expect(errorReporter.toReport(mockDetails).userId).toBe(anonymous.userId);
+
+    delete (global as any).localStorage;
+  });
+
   it('should handle failed API calls gracefully', async () => {
     const originalEnv = process.env.NODE_ENV;
     process.env.NODE_ENV = 'production';
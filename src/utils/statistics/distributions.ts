@@ -74,20 +74,59 @@ function betaIncReg(a: number, b: number, x: number): number {
 }
 
 /**
- * Regularized incomplete gamma function
+ * Natural logarithm of the gamma function (Lanczos approximation)
+ */
+function logGamma(z: number): number {
+  const g = 7;
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7
+  ];
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  const x = z - 1;
+  let sum = c[0];
+  for (let i = 1; i < g + 2; i++) sum += c[i] / (x + i);
+  const t = x + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x), using the series
+ * expansion below a + 1 and the continued fraction for Q(a, x) above it
  */
 function gammaIncReg(a: number, x: number): number {
-  if (x < 0.0 || a <= 0.0) return 0.0;
-  if (x === 0.0) return 0.0;
-  if (x > 1.0 && x > a) return 1.0 - gammaIncReg(a, x);
-  
-  let sum = 1.0 / a;
-  let term = sum;
-  for (let n = 1; n <= 100; n++) {
-    term *= x / (a + n);
-    sum += term;
-    if (Math.abs(term) < Math.abs(sum) * 3e-7) break;
+  if (x <= 0.0 || a <= 0.0) return 0.0;
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+
+  if (x < a + 1) {
+    let sum = 1.0 / a;
+    let term = sum;
+    for (let n = 1; n <= 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return Math.min(1, sum * Math.exp(logPrefix));
   }
-  
-  return Math.pow(x, a) * Math.exp(-x) * sum;
-} 
\ No newline at end of file
+
+  // Modified Lentz evaluation of the continued fraction
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.max(0, 1 - Math.exp(logPrefix) * h);
+}
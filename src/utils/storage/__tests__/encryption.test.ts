@@ -0,0 +1,51 @@
+import {
+  createKeyCheck,
+  decryptPayload,
+  deriveWorkspaceKey,
+  encryptPayload,
+  generateDatasetKey,
+  generateSalt,
+  unwrapDatasetKey,
+  verifyKeyCheck,
+  wrapDatasetKey
+} from '../encryption';
+
+// Fewer PBKDF2 rounds keep the tests fast
+const ITERATIONS = 1000;
+
+describe('Envelope encryption', () => {
+  it('should derive the same workspace key from the same secret and salt', async () => {
+    const salt = generateSalt();
+    const check = await createKeyCheck(await deriveWorkspaceKey('correct horse battery', salt, ITERATIONS));
+
+    expect(await verifyKeyCheck(check, await deriveWorkspaceKey('correct horse battery', salt, ITERATIONS))).toBe(true);
+    expect(await verifyKeyCheck(check, await deriveWorkspaceKey('wrong horse battery', salt, ITERATIONS))).toBe(false);
+  });
+
+  it('should decrypt data through a wrapped dataset key', async () => {
+    const workspaceKey = await deriveWorkspaceKey('correct horse battery', generateSalt(), ITERATIONS);
+    const datasetKey = await generateDatasetKey();
+    const { encrypted, iv } = await encryptPayload(new TextEncoder().encode('{"rows":3}'), datasetKey);
+
+    const wrapped = await wrapDatasetKey(datasetKey, workspaceKey);
+    const unwrapped = await unwrapDatasetKey(wrapped, workspaceKey);
+
+    expect(new TextDecoder().decode(await decryptPayload(encrypted, unwrapped, iv))).toBe('{"rows":3}');
+  });
+
+  it('should re-wrap under a new workspace key without re-encrypting the data', async () => {
+    const oldKey = await deriveWorkspaceKey('old passphrase 123', generateSalt(), ITERATIONS);
+    const newKey = await deriveWorkspaceKey('new passphrase 456', generateSalt(), ITERATIONS);
+    const datasetKey = await generateDatasetKey();
+    const { encrypted, iv } = await encryptPayload(new TextEncoder().encode('payload'), datasetKey);
+
+    const rewrapped = await wrapDatasetKey(
+      await unwrapDatasetKey(await wrapDatasetKey(datasetKey, oldKey), oldKey),
+      newKey
+    );
+
+    await expect(unwrapDatasetKey(rewrapped, oldKey)).rejects.toThrow('does not match');
+    const restored = await unwrapDatasetKey(rewrapped, newKey);
+    expect(new TextDecoder().decode(await decryptPayload(encrypted, restored, iv))).toBe('payload');
+  });
+});
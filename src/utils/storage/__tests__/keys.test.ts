@@ -0,0 +1,194 @@
+import { createHmac } from 'crypto';
+import {
+  countLegacyDatasetKeys,
+  getActiveWorkspaceKey,
+  lockWorkspaceKeys,
+  requireActiveWorkspaceKey,
+  resolveDatasetKey,
+  rotateWorkspaceKey,
+  unlockWorkspaceKey,
+  wrapLegacyDatasetKeys
+} from '../keys';
+import { decryptPayload, encryptPayload, generateDatasetKey, toBase64, wrapDatasetKey } from '../encryption';
+
+type Row = Record<string, unknown>;
+
+const mockTables: Record<string, Row[]> = {};
+
+// Just enough of the Supabase query builder for the key queries
+class MockQuery {
+  private filters: ((row: Row) => boolean)[] = [];
+  private patch: Row | null = null;
+  private inserted: Row | null = null;
+  private sort: { column: string; ascending: boolean } | null = null;
+  private count: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private table: string) {}
+
+  select() { return this; }
+  returns() { return this; }
+  eq(column: string, value: unknown) { this.filters.push(row => row[column] === value); return this; }
+  in(column: string, values: unknown[]) { this.filters.push(row => values.includes(row[column])); return this; }
+  order(column: string, options: { ascending: boolean }) { this.sort = { column, ...options }; return this; }
+  limit(count: number) { this.count = count; return this; }
+  insert(row: Row) { this.inserted = row; return this; }
+  update(patch: Row) { this.patch = patch; return this; }
+  single() { this.mode = 'single'; return this; }
+  maybeSingle() { this.mode = 'maybeSingle'; return this; }
+
+  then<T>(resolve: (result: { data: unknown; error: null }) => T) {
+    const rows = (mockTables[this.table] ??= []);
+    if (this.inserted) {
+      const row = { created_at: new Date().toISOString(), ...this.inserted };
+      rows.push(row);
+      return Promise.resolve({ data: row, error: null }).then(resolve);
+    }
+
+    let matched = rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.patch) matched.forEach(row => Object.assign(row, this.patch));
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      matched = [...matched].sort((a, b) => (Number(a[column]) - Number(b[column])) * (ascending ? 1 : -1));
+    }
+    if (this.count !== null) matched = matched.slice(0, this.count);
+
+    const data = this.mode === 'many' ? matched : matched[0] ?? null;
+    return Promise.resolve({ data, error: null }).then(resolve);
+  }
+}
+
+jest.mock('@/utils/supabase/client', () => ({
+  supabase: { from: (table: string) => new MockQuery(table) }
+}));
+
+// The backend derives server keys from its master secret for members only
+const mockMembers = new Set<string>();
+const mockSession = { userId: 'owner' };
+
+jest.mock('@/services/teamService', () => ({
+  teamService: {
+    getWorkspaceKey: jest.fn(async (workspaceId: string, keyId: string) => {
+      if (!mockMembers.has(mockSession.userId)) throw new Error('Workspace not found');
+      const key = createHmac('sha256', 'master secret').update(`${workspaceId}:${keyId}`).digest();
+      return { key: key.toString('base64') };
+    })
+  }
+}));
+
+const WORKSPACE = 'workspace-1';
+const PASSPHRASE = 'correct horse battery';
+
+// Stores a dataset the way storeDataset does and returns its row
+async function storeEncrypted(id: string, text: string) {
+  const workspaceKey = await requireActiveWorkspaceKey(WORKSPACE);
+  const datasetKey = await generateDatasetKey();
+  const { encrypted, iv } = await encryptPayload(new TextEncoder().encode(text), datasetKey);
+  const row = {
+    id,
+    workspace_id: WORKSPACE,
+    key_id: workspaceKey.id,
+    wrapped_key: await wrapDatasetKey(datasetKey, workspaceKey.key),
+    encryption_key: null
+  };
+  mockTables.datasets.push(row);
+  return { row, encrypted, iv };
+}
+
+async function openDataset(stored: { row: { id: string }; encrypted: ArrayBuffer; iv: string }) {
+  const row = mockTables.datasets.find(dataset => dataset.id === stored.row.id) as Parameters<typeof resolveDatasetKey>[0];
+  const decrypted = await decryptPayload(stored.encrypted, await resolveDatasetKey(row), stored.iv);
+  return new TextDecoder().decode(decrypted);
+}
+
+// A member signing in from another browser starts with no unlocked keys
+function signInElsewhere(userId: string) {
+  lockWorkspaceKeys();
+  mockSession.userId = userId;
+}
+
+describe('Workspace keys', () => {
+  beforeEach(() => {
+    Object.keys(mockTables).forEach(table => delete mockTables[table]);
+    mockTables.workspace_keys = [];
+    mockTables.datasets = [];
+    mockTables.dataset_versions = [];
+    mockMembers.clear();
+    mockMembers.add('owner');
+    mockMembers.add('analyst');
+    signInElsewhere('owner');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse to store datasets until a workspace key is set up', async () => {
+    await expect(requireActiveWorkspaceKey(WORKSPACE)).rejects.toThrow('Set up a workspace key');
+    expect(mockTables.workspace_keys).toHaveLength(0);
+  });
+
+  it('should select the active key after a rotation', async () => {
+    const { key: first } = await rotateWorkspaceKey(WORKSPACE, { kind: 'server' });
+    const { key: second } = await rotateWorkspaceKey(WORKSPACE, { kind: 'passphrase', passphrase: PASSPHRASE });
+
+    expect(second.version).toBe(first.version + 1);
+    expect((await getActiveWorkspaceKey(WORKSPACE))?.id).toBe(second.id);
+    expect((await requireActiveWorkspaceKey(WORKSPACE)).id).toBe(second.id);
+  });
+
+  it('should need a passphrase key unlocked before storing with it', async () => {
+    const { key } = await rotateWorkspaceKey(WORKSPACE, { kind: 'passphrase', passphrase: PASSPHRASE });
+    signInElsewhere('owner');
+
+    await expect(requireActiveWorkspaceKey(WORKSPACE)).rejects.toThrow('Unlock the workspace key');
+    await expect(unlockWorkspaceKey(key, 'wrong horse battery')).rejects.toThrow('Incorrect workspace passphrase');
+
+    await unlockWorkspaceKey(key, PASSPHRASE);
+    expect((await requireActiveWorkspaceKey(WORKSPACE)).id).toBe(key.id);
+  });
+
+  it('should let a second member open datasets under a server-held key', async () => {
+    await rotateWorkspaceKey(WORKSPACE, { kind: 'server' });
+    const stored = await storeEncrypted('sales', '{"rows":3}');
+
+    signInElsewhere('analyst');
+    expect(await openDataset(stored)).toBe('{"rows":3}');
+
+    signInElsewhere('outsider');
+    await expect(openDataset(stored)).rejects.toThrow('Workspace not found');
+  });
+
+  it('should let a second member open datasets under a passphrase key', async () => {
+    const { key } = await rotateWorkspaceKey(WORKSPACE, { kind: 'passphrase', passphrase: PASSPHRASE });
+    const stored = await storeEncrypted('sales', '{"rows":3}');
+
+    signInElsewhere('analyst');
+    await expect(openDataset(stored)).rejects.toThrow('Unlock the workspace key');
+
+    await unlockWorkspaceKey(key, PASSPHRASE);
+    expect(await openDataset(stored)).toBe('{"rows":3}');
+  });
+
+  it('should wrap raw keys of older datasets without rotating', async () => {
+    const datasetKey = await generateDatasetKey();
+    const { encrypted, iv } = await encryptPayload(new TextEncoder().encode('legacy'), datasetKey);
+    const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', datasetKey));
+    const legacyRow = (id: string) =>
+      ({ id, workspace_id: WORKSPACE, key_id: null, wrapped_key: null, encryption_key: toBase64(rawKey) });
+    mockTables.datasets.push(legacyRow('legacy'));
+
+    const { key } = await rotateWorkspaceKey(WORKSPACE, { kind: 'server' });
+    // Rows added after the key was set up, e.g. by an older client
+    mockTables.datasets.push(legacyRow('late'));
+
+    expect(await countLegacyDatasetKeys(WORKSPACE)).toBe(1);
+    expect(await wrapLegacyDatasetKeys(WORKSPACE)).toBe(1);
+    expect(await countLegacyDatasetKeys(WORKSPACE)).toBe(0);
+    expect(mockTables.datasets.every(dataset => dataset.encryption_key === null && dataset.key_id === key.id)).toBe(true);
+
+    signInElsewhere('analyst');
+    expect(await openDataset({ row: { id: 'late' }, encrypted, iv })).toBe('legacy');
+  });
+});
@@ -1,41 +1,78 @@
 import { supabase } from '@/utils/supabase/client';
 import { createError } from '@/utils/core/error';
 import { FileData } from '@/types/file';
+import { summarizeDataset, type DatasetSummary } from '@/utils/analysis/versions';
+import { decryptPayload, encryptPayload, generateDatasetKey, wrapDatasetKey } from './encryption';
+import { recordDecrypt, requireActiveWorkspaceKey, resolveDatasetKey } from './keys';
+
+// Columns needed to decrypt a stored blob
+const ENCRYPTION_COLUMNS = 'file_key, key_id, wrapped_key, encryption_key, encryption_iv';
+
+interface EncryptedBlob {
+  file_key: string;
+  key_id: string | null;
+  wrapped_key: string | null;
+  // Raw key of datasets stored before envelope encryption
+  encryption_key: string | null;
+  encryption_iv: string;
+}
+
+interface VersionBlobRow extends EncryptedBlob {
+  dataset_id: string;
+  datasets: { workspace_id: string } | null;
+}
 
-// AES encryption using Web Crypto API
-async function generateEncryptionKey(): Promise<CryptoKey> {
-  return await window.crypto.subtle.generateKey(
-    {
-      name: 'AES-GCM',
-      length: 256
-    },
-    true,
-    ['encrypt', 'decrypt']
-  );
+/**
+ * Encrypts with a fresh dataset key, which is stored only wrapped by the
+ * workspace key.
+ */
+async function encryptFileData(workspaceId: string, data: FileData): Promise<{
+  encrypted: ArrayBuffer;
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+}> {
+  const workspaceKey = await requireActiveWorkspaceKey(workspaceId);
+  const datasetKey = await generateDatasetKey();
+
+  const dataBuffer = new TextEncoder().encode(JSON.stringify(data));
+  const { encrypted, iv } = await encryptPayload(dataBuffer, datasetKey);
+
+  return {
+    encrypted,
+    keyId: workspaceKey.id,
+    wrappedKey: await wrapDatasetKey(datasetKey, workspaceKey.key),
+    iv
+  };
 }
 
-async function encryptData(data: ArrayBuffer, key: CryptoKey): Promise<{ encrypted: ArrayBuffer; iv: Uint8Array }> {
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
-  const encrypted = await window.crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv
-    },
-    key,
-    data
-  );
-  return { encrypted, iv };
+async function downloadAndDecrypt(
+  blob: EncryptedBlob,
+  access: { workspaceId: string; datasetId: string; versionId?: string }
+): Promise<FileData> {
+  const key = await resolveDatasetKey(blob);
+  await recordDecrypt({ ...access, keyId: blob.key_id });
+
+  const { data: encrypted, error: downloadError } = await supabase.storage
+    .from('secure-datasets')
+    .download(blob.file_key);
+
+  if (downloadError) throw downloadError;
+
+  const decrypted = await decryptPayload(await encrypted.arrayBuffer(), key, blob.encryption_iv);
+  return JSON.parse(new TextDecoder().decode(decrypted));
 }
 
-async function decryptData(encrypted: ArrayBuffer, key: CryptoKey, iv: Uint8Array): Promise<ArrayBuffer> {
-  return await window.crypto.subtle.decrypt(
-    {
-      name: 'AES-GCM',
-      iv
-    },
-    key,
-    encrypted
-  );
+export interface DatasetVersion {
+  id: string;
+  datasetId: string;
+  version: number;
+  description: string;
+  fileSize: number;
+  createdBy: string;
+  createdAt: string;
+  // Missing for versions written before summaries were stored
+  summary?: DatasetSummary;
 }
 
 export async function storeDataset(
@@ -45,16 +82,7 @@ export async function storeDataset(
   data: FileData
 ): Promise<{ id: string }> {
   try {
-    // Generate encryption key
-    const key = await generateEncryptionKey();
-    const exportedKey = await window.crypto.subtle.exportKey('raw', key);
-    const keyString = btoa(String.fromCharCode(...new Uint8Array(exportedKey)));
-
-    // Encrypt data
-    const serializedData = JSON.stringify(data);
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(serializedData);
-    const { encrypted, iv } = await encryptData(dataBuffer, key);
+    const { encrypted, keyId, wrappedKey, iv } = await encryptFileData(workspaceId, data);
 
     // Upload encrypted data to Supabase Storage
     const fileKey = `datasets/${workspaceId}/${crypto.randomUUID()}`;
@@ -78,14 +106,32 @@ export async function storeDataset(
           rows: data.content.fields[0]?.value.length || 0
         },
         workspace_id: workspaceId,
-        encryption_key: keyString,
-        encryption_iv: btoa(String.fromCharCode(...iv))
+        key_id: keyId,
+        wrapped_key: wrappedKey,
+        encryption_iv: iv
       })
       .select()
       .single();
 
     if (dbError) throw dbError;
 
+    // The upload is version 1 and shares the dataset's blob
+    const { error: versionError } = await supabase
+      .from('dataset_versions')
+      .insert({
+        dataset_id: dataset.id,
+        version: 1,
+        file_key: fileKey,
+        file_size: encrypted.byteLength,
+        description: description || 'Initial upload',
+        metadata: summarizeDataset(data.content.fields),
+        key_id: keyId,
+        wrapped_key: wrappedKey,
+        encryption_iv: iv
+      });
+
+    if (versionError) throw versionError;
+
     return { id: dataset.id };
   } catch (error) {
     console.error('Failed to store dataset:', error);
@@ -96,41 +142,36 @@ export async function storeDataset(
   }
 }
 
+/**
+ * Returns the latest version of a dataset, or the original upload for
+ * datasets stored before versioning.
+ */
 export async function retrieveDataset(datasetId: string): Promise<FileData> {
   try {
     // Get dataset metadata and encryption details
     const { data: dataset, error: dbError } = await supabase
       .from('datasets')
-      .select()
+      .select(`workspace_id, ${ENCRYPTION_COLUMNS}`)
       .eq('id', datasetId)
       .single();
 
     if (dbError) throw dbError;
 
-    // Download encrypted data
-    const { data: encrypted, error: downloadError } = await supabase.storage
-      .from('secure-datasets')
-      .download(dataset.file_key);
-
-    if (downloadError) throw downloadError;
-
-    // Import encryption key
-    const keyBuffer = Uint8Array.from(atob(dataset.encryption_key), c => c.charCodeAt(0));
-    const iv = Uint8Array.from(atob(dataset.encryption_iv), c => c.charCodeAt(0));
-    const key = await window.crypto.subtle.importKey(
-      'raw',
-      keyBuffer,
-      'AES-GCM',
-      true,
-      ['decrypt']
-    );
+    const { data: versions, error: versionError } = await supabase
+      .from('dataset_versions')
+      .select(`id, ${ENCRYPTION_COLUMNS}`)
+      .eq('dataset_id', datasetId)
+      .order('version', { ascending: false })
+      .limit(1);
 
-    // Decrypt data
-    const decrypted = await decryptData(await encrypted.arrayBuffer(), key, iv);
-    const decoder = new TextDecoder();
-    const decryptedData = JSON.parse(decoder.decode(decrypted));
+    if (versionError) throw versionError;
 
-    return decryptedData;
+    const latest = versions?.[0];
+    return await downloadAndDecrypt(latest ?? dataset, {
+      workspaceId: dataset.workspace_id,
+      datasetId,
+      versionId: latest?.id
+    });
   } catch (error) {
     console.error('Failed to retrieve dataset:', error);
     throw createError(
@@ -140,6 +181,31 @@ export async function retrieveDataset(datasetId: string): Promise<FileData> {
   }
 }
 
+export async function retrieveDatasetVersion(versionId: string): Promise<FileData> {
+  try {
+    const { data: version, error: dbError } = await supabase
+      .from('dataset_versions')
+      .select(`dataset_id, ${ENCRYPTION_COLUMNS}, datasets(workspace_id)`)
+      .eq('id', versionId)
+      .single<VersionBlobRow>();
+
+    if (dbError) throw dbError;
+    if (!version.datasets) throw createError('DATA_NOT_FOUND', 'Dataset not found');
+
+    return await downloadAndDecrypt(version, {
+      workspaceId: version.datasets.workspace_id,
+      datasetId: version.dataset_id,
+      versionId
+    });
+  } catch (error) {
+    console.error('Failed to retrieve dataset version:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to retrieve dataset version'
+    );
+  }
+}
+
 export async function shareDataset(
   datasetId: string,
   userId: string,
@@ -170,7 +236,7 @@ export async function createDatasetVersion(
   datasetId: string,
   data: FileData,
   description: string
-): Promise<void> {
+): Promise<{ id: string; version: number }> {
   try {
     // Get current version number
     const { data: versions, error: versionError } = await supabase
@@ -182,18 +248,18 @@ export async function createDatasetVersion(
 
     if (versionError) throw versionError;
 
-    const nextVersion = (versions?.[0]?.version || 0) + 1;
+    // Datasets stored before versioning count their upload as version 1
+    const nextVersion = (versions?.[0]?.version || 1) + 1;
+
+    const { data: dataset, error: datasetError } = await supabase
+      .from('datasets')
+      .select('workspace_id')
+      .eq('id', datasetId)
+      .single();
 
-    // Generate new encryption key
-    const key = await generateEncryptionKey();
-    const exportedKey = await window.crypto.subtle.exportKey('raw', key);
-    const keyString = btoa(String.fromCharCode(...new Uint8Array(exportedKey)));
+    if (datasetError) throw datasetError;
 
-    // Encrypt data
-    const serializedData = JSON.stringify(data);
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(serializedData);
-    const { encrypted, iv } = await encryptData(dataBuffer, key);
+    const { encrypted, keyId, wrappedKey, iv } = await encryptFileData(dataset.workspace_id, data);
 
     // Upload encrypted data
     const fileKey = `datasets/${datasetId}/v${nextVersion}`;
@@ -204,7 +270,7 @@ export async function createDatasetVersion(
     if (uploadError) throw uploadError;
 
     // Store version metadata
-    const { error: dbError } = await supabase
+    const { data: version, error: dbError } = await supabase
       .from('dataset_versions')
       .insert({
         dataset_id: datasetId,
@@ -212,11 +278,17 @@ export async function createDatasetVersion(
         file_key: fileKey,
         file_size: encrypted.byteLength,
         description,
-        encryption_key: keyString,
-        encryption_iv: btoa(String.fromCharCode(...iv))
-      });
+        metadata: summarizeDataset(data.content.fields),
+        key_id: keyId,
+        wrapped_key: wrappedKey,
+        encryption_iv: iv
+      })
+      .select('id')
+      .single();
 
     if (dbError) throw dbError;
+
+    return { id: version.id, version: nextVersion };
   } catch (error) {
     console.error('Failed to create dataset version:', error);
     throw createError(
@@ -226,6 +298,47 @@ export async function createDatasetVersion(
   }
 }
 
+export async function listDatasetVersions(datasetId: string): Promise<DatasetVersion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('dataset_versions')
+      .select('id, dataset_id, version, description, file_size, created_by, created_at, metadata')
+      .eq('dataset_id', datasetId)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      datasetId: row.dataset_id,
+      version: row.version,
+      description: row.description ?? '',
+      fileSize: row.file_size,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      summary: row.metadata?.columns ? row.metadata : undefined
+    }));
+  } catch (error) {
+    console.error('Failed to list dataset versions:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to list dataset versions'
+    );
+  }
+}
+
+/**
+ * Restores an earlier version by storing its contents as a new version,
+ * so the history is never rewritten.
+ */
+export async function rollbackDataset(
+  datasetId: string,
+  target: Pick<DatasetVersion, 'id' | 'version'>
+): Promise<{ id: string; version: number }> {
+  const data = await retrieveDatasetVersion(target.id);
+  return createDatasetVersion(datasetId, data, `Rolled back to version ${target.version}`);
+}
+
 export async function listDatasets(workspaceId?: string): Promise<{
   id: string;
   name: string;
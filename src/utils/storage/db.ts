@@ -2,6 +2,8 @@ import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import { FileData } from '@/types/file';
 import { createError } from '../core/error';
 import { validateStorageData } from '../validation/storage';
+import { overrideColumnType } from '../file/columnTypes';
+import type { SemanticType } from '@/types/data';
 
 interface AnalysisDB extends DBSchema {
   analysisData: {
@@ -12,6 +14,9 @@ interface AnalysisDB extends DBSchema {
 
 const DB_NAME = 'analysisDB';
 const STORE_NAME = 'analysisData';
+// Every dataset loaded this session is kept under its own key so
+// several uploads (or workbook sheets) can be switched between
+const LOADED_PREFIX = 'loaded:';
 
 let db: IDBPDatabase<AnalysisDB> | null = null;
 
@@ -38,21 +43,7 @@ export async function storeAnalysisData(data: FileData): Promise<void> {
       throw createError('PROCESSING_FAILED', validationResult.error || 'Invalid data structure');
     }
 
-    const minimalData = {
-      type: data.type,
-      name: data.name,
-      content: {
-        fields: data.content.fields.map(field => ({
-          name: field.name,
-          type: field.type,
-          value: field.type === 'number' 
-            ? field.value.map(v => Number(v))
-            : field.type === 'date'
-            ? field.value.map(v => new Date(v))
-            : field.value.map(v => String(v))
-        }))
-      }
-    };
+    const minimalData = toMinimalData(data);
 
     try {
       // Clear existing data first
@@ -60,6 +51,7 @@ export async function storeAnalysisData(data: FileData): Promise<void> {
 
       // Attempt IndexedDB storage
       await db.put(STORE_NAME, minimalData, 'currentAnalysis');
+      await db.put(STORE_NAME, minimalData, LOADED_PREFIX + minimalData.name);
     } catch (storageError) {
       console.warn('IndexedDB storage failed, falling back to sessionStorage:', storageError);
       
@@ -78,6 +70,128 @@ export async function storeAnalysisData(data: FileData): Promise<void> {
   }
 }
 
+function toMinimalData(data: FileData): FileData {
+  return {
+    type: data.type,
+    name: data.name,
+    content: {
+      fields: data.content.fields.map(field => ({
+        name: field.name,
+        type: field.type,
+        // Nulls stay in place so that columns keep their row alignment
+        value: field.type === 'number'
+          ? field.value.map(v => (v == null ? null : Number(v)))
+          : field.type === 'date'
+          ? field.value.map(v => (v == null ? null : new Date(v)))
+          : field.value.map(v => (v == null ? null : String(v))),
+        ...(field.columnType && { columnType: field.columnType }),
+        // Streamed datasets carry full-table stats the sample can't reproduce
+        ...(data.source && { stats: field.stats, nullPercentage: field.nullPercentage })
+      }))
+    },
+    ...(data.source && { source: data.source })
+  };
+}
+
+export async function addLoadedDatasets(datasets: FileData[]): Promise<void> {
+  try {
+    const db = await getDB();
+
+    for (const data of datasets) {
+      const validationResult = validateStorageData(data);
+      if (!validationResult.isValid) {
+        throw createError('PROCESSING_FAILED', validationResult.error || 'Invalid data structure');
+      }
+      await db.put(STORE_NAME, toMinimalData(data), LOADED_PREFIX + data.name);
+    }
+  } catch (error) {
+    console.error('Error storing loaded datasets:', error);
+    throw error;
+  }
+}
+
+export async function listLoadedDatasets(): Promise<FileData[]> {
+  try {
+    const db = await getDB();
+    const keys = await db.getAllKeys(STORE_NAME);
+    const loaded = await Promise.all(
+      keys
+        .filter(key => String(key).startsWith(LOADED_PREFIX))
+        .map(key => db.get(STORE_NAME, key))
+    );
+    return loaded.filter((data): data is FileData => !!data);
+  } catch (error) {
+    console.error('Error listing loaded datasets:', error);
+    throw createError('PROCESSING_FAILED', 'Failed to access loaded datasets');
+  }
+}
+
+/**
+ * Makes a loaded dataset the current analysis. The dataset it replaces
+ * stays loaded so that it can be switched back to.
+ */
+export async function selectLoadedDataset(name: string): Promise<FileData> {
+  const db = await getDB();
+  const data = await db.get(STORE_NAME, LOADED_PREFIX + name);
+  if (!data) {
+    throw createError('DATA_NOT_FOUND', `Dataset "${name}" is not loaded`);
+  }
+  const current = await db.get(STORE_NAME, 'currentAnalysis');
+  if (current && current.name !== name) {
+    await db.put(STORE_NAME, current, LOADED_PREFIX + current.name);
+  }
+  await db.put(STORE_NAME, data, 'currentAnalysis');
+  await db.delete(STORE_NAME, LOADED_PREFIX + name);
+  return data;
+}
+
+export async function removeLoadedDataset(name: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete(STORE_NAME, LOADED_PREFIX + name);
+  } catch (error) {
+    console.error('Error removing loaded dataset:', error);
+  }
+}
+
+/**
+ * Sets the type of a column in the current dataset, or restores the
+ * detected type when `semantic` is null. The change is kept with the
+ * dataset so every analysis reads the same type.
+ */
+export async function updateColumnType(fieldName: string, semantic: SemanticType | null): Promise<FileData> {
+  const data = await getAnalysisData();
+  if (!data) {
+    throw createError('DATA_NOT_FOUND', 'No dataset is loaded');
+  }
+
+  const field = data.content.fields.find(item => item.name === fieldName);
+  if (!field) {
+    throw createError('INVALID_INPUT', `Column "${fieldName}" does not exist`);
+  }
+
+  const updated: FileData = {
+    ...data,
+    content: {
+      ...data.content,
+      fields: data.content.fields.map(item => (item === field ? overrideColumnType(field, semantic) : item))
+    }
+  };
+
+  try {
+    const db = await getDB();
+    await db.put(STORE_NAME, updated, 'currentAnalysis');
+    if (await db.get(STORE_NAME, LOADED_PREFIX + updated.name)) {
+      await db.put(STORE_NAME, updated, LOADED_PREFIX + updated.name);
+    }
+  } catch (error) {
+    console.error('Error updating column type:', error);
+    throw createError('PROCESSING_FAILED', 'Failed to save the column type');
+  }
+
+  return updated;
+}
+
 export async function getAnalysisData(): Promise<FileData | null> {
   try {
     const db = await getDB();
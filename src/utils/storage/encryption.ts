@@ -0,0 +1,114 @@
+import { createError } from '@/utils/core/error';
+
+// Dataset keys (DEKs) encrypt the data; workspace keys (KEKs) only wrap DEKs,
+// so rotating a workspace key re-wraps DEKs without touching stored blobs.
+
+export const PBKDF2_ITERATIONS = 310000;
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Derives a workspace key from a user secret. The same secret and salt
+ * always give the same key, so only the salt needs to be stored.
+ */
+export async function deriveWorkspaceKey(
+  secret: string,
+  salt: string,
+  iterations = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+// Server-held workspace keys arrive as raw bytes from the backend
+export async function importWorkspaceKey(rawKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-KW', false, ['wrapKey', 'unwrapKey']);
+}
+
+export async function generateDatasetKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+export async function wrapDatasetKey(datasetKey: CryptoKey, workspaceKey: CryptoKey): Promise<string> {
+  const wrapped = await crypto.subtle.wrapKey('raw', datasetKey, workspaceKey, 'AES-KW');
+  return toBase64(new Uint8Array(wrapped));
+}
+
+export async function unwrapDatasetKey(wrapped: string, workspaceKey: CryptoKey): Promise<CryptoKey> {
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(wrapped),
+      workspaceKey,
+      'AES-KW',
+      'AES-GCM',
+      // Extractable so rotation can wrap it again under the new workspace key
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw createError('INVALID_INPUT', 'Workspace key does not match this dataset');
+  }
+}
+
+// Datasets stored before envelope encryption keep their raw key in the row
+export async function importLegacyDatasetKey(rawKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-GCM', true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * A wrapped throwaway key stored with the workspace key record, so a
+ * secret can be checked before it is used on any dataset.
+ */
+export async function createKeyCheck(workspaceKey: CryptoKey): Promise<string> {
+  return wrapDatasetKey(await generateDatasetKey(), workspaceKey);
+}
+
+export async function verifyKeyCheck(check: string, workspaceKey: CryptoKey): Promise<boolean> {
+  try {
+    await unwrapDatasetKey(check, workspaceKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function encryptPayload(
+  data: ArrayBuffer | Uint8Array,
+  key: CryptoKey
+): Promise<{ encrypted: ArrayBuffer; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  return { encrypted, iv: toBase64(iv) };
+}
+
+export async function decryptPayload(encrypted: ArrayBuffer, key: CryptoKey, iv: string): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, encrypted);
+}
@@ -0,0 +1,417 @@
+import { supabase } from '@/utils/supabase/client';
+import { teamService } from '@/services/teamService';
+import { createError } from '@/utils/core/error';
+import {
+  PBKDF2_ITERATIONS,
+  createKeyCheck,
+  deriveWorkspaceKey,
+  generateSalt,
+  importLegacyDatasetKey,
+  importWorkspaceKey,
+  unwrapDatasetKey,
+  verifyKeyCheck,
+  wrapDatasetKey
+} from './encryption';
+
+// Passphrase keys are derived in the browser; server keys come from the backend
+export type WorkspaceKeyKind = 'passphrase' | 'server';
+
+export type WorkspaceKeySecret =
+  | { kind: 'passphrase'; passphrase: string }
+  | { kind: 'server' };
+
+export interface WorkspaceKeyRecord {
+  id: string;
+  workspaceId: string;
+  version: number;
+  kind: WorkspaceKeyKind;
+  salt?: string;
+  iterations?: number;
+  keyCheck: string;
+  status: 'active' | 'retired';
+  createdAt: string;
+}
+
+export interface DecryptEvent {
+  id: string;
+  datasetId: string;
+  datasetName?: string;
+  versionId?: string;
+  keyId?: string;
+  userId: string;
+  createdAt: string;
+}
+
+interface WorkspaceKeyRow {
+  id: string;
+  workspace_id: string;
+  version: number;
+  kind: WorkspaceKeyKind;
+  salt: string | null;
+  iterations: number | null;
+  key_check: string;
+  status: 'active' | 'retired';
+  created_at: string;
+}
+
+// Rows of `datasets` and `dataset_versions` that hold a dataset key
+interface KeyedRow {
+  id: string;
+  key_id: string | null;
+  wrapped_key: string | null;
+  encryption_key: string | null;
+}
+
+interface DecryptEventRow {
+  id: string;
+  dataset_id: string;
+  version_id: string | null;
+  key_id: string | null;
+  user_id: string;
+  created_at: string;
+  datasets: { name: string } | null;
+}
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+// Unlocked workspace keys live only in memory for the session
+const unlockedKeys = new Map<string, CryptoKey>();
+
+function toRecord(row: WorkspaceKeyRow): WorkspaceKeyRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    version: row.version,
+    kind: row.kind,
+    salt: row.salt ?? undefined,
+    iterations: row.iterations ?? undefined,
+    keyCheck: row.key_check,
+    status: row.status,
+    createdAt: row.created_at
+  };
+}
+
+export async function getActiveWorkspaceKey(workspaceId: string): Promise<WorkspaceKeyRecord | null> {
+  try {
+    const { data, error } = await supabase
+      .from('workspace_keys')
+      .select()
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'active')
+      .maybeSingle<WorkspaceKeyRow>();
+
+    if (error) throw error;
+    return data ? toRecord(data) : null;
+  } catch (error) {
+    console.error('Failed to load workspace key:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to load workspace key'
+    );
+  }
+}
+
+async function getWorkspaceKeyRecord(keyId: string): Promise<WorkspaceKeyRecord> {
+  const { data, error } = await supabase
+    .from('workspace_keys')
+    .select()
+    .eq('id', keyId)
+    .single<WorkspaceKeyRow>();
+
+  if (error) throw error;
+  return toRecord(data);
+}
+
+async function fetchServerKey(workspaceId: string, keyId: string): Promise<CryptoKey> {
+  const { key } = await teamService.getWorkspaceKey(workspaceId, keyId);
+  return importWorkspaceKey(key);
+}
+
+export function isWorkspaceKeyUnlocked(keyId: string): boolean {
+  return unlockedKeys.has(keyId);
+}
+
+export function lockWorkspaceKeys(): void {
+  unlockedKeys.clear();
+}
+
+export async function unlockWorkspaceKey(record: WorkspaceKeyRecord, passphrase?: string): Promise<void> {
+  let key: CryptoKey | undefined;
+
+  if (record.kind === 'server') {
+    key = await fetchServerKey(record.workspaceId, record.id);
+  } else {
+    if (!passphrase || !record.salt) {
+      throw createError('INVALID_INPUT', 'Enter the workspace passphrase');
+    }
+    key = await deriveWorkspaceKey(passphrase, record.salt, record.iterations);
+  }
+
+  if (!(await verifyKeyCheck(record.keyCheck, key))) {
+    throw createError(
+      'INVALID_INPUT',
+      record.kind === 'server' ? 'The server returned a different workspace key' : 'Incorrect workspace passphrase'
+    );
+  }
+  unlockedKeys.set(record.id, key);
+}
+
+/**
+ * Returns the unlocked workspace key with the given id. Server keys unlock
+ * on demand; passphrase keys must be unlocked by the user first.
+ */
+export async function resolveWorkspaceKey(keyId: string): Promise<CryptoKey> {
+  const cached = unlockedKeys.get(keyId);
+  if (cached) return cached;
+
+  const record = await getWorkspaceKeyRecord(keyId);
+  if (record.kind === 'passphrase') {
+    throw createError('VALIDATION_ERROR', 'Unlock the workspace key to open this dataset');
+  }
+  await unlockWorkspaceKey(record);
+  return unlockedKeys.get(keyId)!;
+}
+
+export async function createWorkspaceKey(
+  workspaceId: string,
+  secret: WorkspaceKeySecret
+): Promise<WorkspaceKeyRecord> {
+  try {
+    if (secret.kind === 'passphrase' && secret.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw createError('INVALID_INPUT', `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const { data: latest, error: versionError } = await supabase
+      .from('workspace_keys')
+      .select('version')
+      .eq('workspace_id', workspaceId)
+      .order('version', { ascending: false })
+      .limit(1);
+
+    if (versionError) throw versionError;
+
+    const id = crypto.randomUUID();
+    const salt = secret.kind === 'passphrase' ? generateSalt() : null;
+    const key = secret.kind === 'passphrase'
+      ? await deriveWorkspaceKey(secret.passphrase, salt!, PBKDF2_ITERATIONS)
+      : await fetchServerKey(workspaceId, id);
+
+    // Only one key per workspace is active; older ones stay readable
+    const { error: retireError } = await supabase
+      .from('workspace_keys')
+      .update({ status: 'retired', retired_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'active');
+
+    if (retireError) throw retireError;
+
+    const { data, error } = await supabase
+      .from('workspace_keys')
+      .insert({
+        id,
+        workspace_id: workspaceId,
+        version: (latest?.[0]?.version || 0) + 1,
+        kind: secret.kind,
+        salt,
+        iterations: secret.kind === 'passphrase' ? PBKDF2_ITERATIONS : null,
+        key_check: await createKeyCheck(key),
+        status: 'active'
+      })
+      .select()
+      .single<WorkspaceKeyRow>();
+
+    if (error) throw error;
+
+    unlockedKeys.set(id, key);
+    return toRecord(data);
+  } catch (error) {
+    console.error('Failed to create workspace key:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to create workspace key'
+    );
+  }
+}
+
+/**
+ * The key new datasets in a workspace are wrapped with. An owner has to
+ * set one up first, so every member can later unwrap what is stored.
+ */
+export async function requireActiveWorkspaceKey(workspaceId: string): Promise<{ id: string; key: CryptoKey }> {
+  const record = await getActiveWorkspaceKey(workspaceId);
+  if (!record) {
+    throw createError('VALIDATION_ERROR', 'Set up a workspace key under Encryption before storing datasets');
+  }
+  return { id: record.id, key: await resolveWorkspaceKey(record.id) };
+}
+
+export async function resolveDatasetKey(row: Omit<KeyedRow, 'id'>): Promise<CryptoKey> {
+  if (row.wrapped_key && row.key_id) {
+    return unwrapDatasetKey(row.wrapped_key, await resolveWorkspaceKey(row.key_id));
+  }
+  if (row.encryption_key) {
+    return importLegacyDatasetKey(row.encryption_key);
+  }
+  throw createError('DATA_NOT_FOUND', 'Dataset has no encryption key');
+}
+
+type KeyedTable = 'datasets' | 'dataset_versions';
+
+async function listKeyedRows(workspaceId: string): Promise<{ table: KeyedTable; row: KeyedRow }[]> {
+  const { data: datasets, error: datasetError } = await supabase
+    .from('datasets')
+    .select('id, key_id, wrapped_key, encryption_key')
+    .eq('workspace_id', workspaceId)
+    .returns<KeyedRow[]>();
+
+  if (datasetError) throw datasetError;
+
+  const datasetIds = (datasets || []).map(row => row.id);
+  const { data: versions, error: versionError } = datasetIds.length
+    ? await supabase
+        .from('dataset_versions')
+        .select('id, key_id, wrapped_key, encryption_key')
+        .in('dataset_id', datasetIds)
+        .returns<KeyedRow[]>()
+    : { data: [], error: null };
+
+  if (versionError) throw versionError;
+
+  return [
+    ...(datasets || []).map(row => ({ table: 'datasets' as const, row })),
+    ...(versions || []).map(row => ({ table: 'dataset_versions' as const, row }))
+  ];
+}
+
+// Datasets stored before envelope encryption, still holding a raw key
+function isLegacyRow(row: KeyedRow): boolean {
+  return !row.wrapped_key && !!row.encryption_key;
+}
+
+async function wrapRows(
+  rows: { table: KeyedTable; row: KeyedRow }[],
+  datasetKeys: CryptoKey[],
+  workspaceKey: { id: string; key: CryptoKey }
+): Promise<number> {
+  let wrapped = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const { table, row } = rows[i];
+    const { error } = await supabase
+      .from(table)
+      .update({
+        key_id: workspaceKey.id,
+        wrapped_key: await wrapDatasetKey(datasetKeys[i], workspaceKey.key),
+        encryption_key: null
+      })
+      .eq('id', row.id);
+
+    if (error) throw error;
+    wrapped++;
+  }
+  return wrapped;
+}
+
+/**
+ * Replaces the workspace key and re-wraps every dataset key under it.
+ * Blobs are untouched. Legacy rows holding a raw key are wrapped and the
+ * raw key is cleared. Running it again finishes an interrupted rotation.
+ */
+export async function rotateWorkspaceKey(
+  workspaceId: string,
+  secret: WorkspaceKeySecret
+): Promise<{ key: WorkspaceKeyRecord; rewrapped: number }> {
+  try {
+    // Unwrap everything before changing keys so a locked key fails early
+    const rows = await listKeyedRows(workspaceId);
+    const datasetKeys = await Promise.all(rows.map(({ row }) => resolveDatasetKey(row)));
+
+    const record = await createWorkspaceKey(workspaceId, secret);
+    const rewrapped = await wrapRows(rows, datasetKeys, { id: record.id, key: unlockedKeys.get(record.id)! });
+
+    return { key: record, rewrapped };
+  } catch (error) {
+    console.error('Failed to rotate workspace key:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to rotate workspace key'
+    );
+  }
+}
+
+export async function countLegacyDatasetKeys(workspaceId: string): Promise<number> {
+  const rows = await listKeyedRows(workspaceId);
+  return rows.filter(({ row }) => isLegacyRow(row)).length;
+}
+
+/**
+ * Wraps the raw keys of datasets stored before envelope encryption with
+ * the active workspace key, without rotating it. Until then anyone who
+ * can read those rows can decrypt them.
+ */
+export async function wrapLegacyDatasetKeys(workspaceId: string): Promise<number> {
+  try {
+    const workspaceKey = await requireActiveWorkspaceKey(workspaceId);
+    const rows = (await listKeyedRows(workspaceId)).filter(({ row }) => isLegacyRow(row));
+    const datasetKeys = await Promise.all(rows.map(({ row }) => resolveDatasetKey(row)));
+    return await wrapRows(rows, datasetKeys, workspaceKey);
+  } catch (error) {
+    console.error('Failed to wrap legacy dataset keys:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to wrap legacy dataset keys'
+    );
+  }
+}
+
+export async function recordDecrypt(entry: {
+  workspaceId: string;
+  datasetId: string;
+  versionId?: string;
+  keyId?: string | null;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('dataset_access_log')
+    .insert({
+      workspace_id: entry.workspaceId,
+      dataset_id: entry.datasetId,
+      version_id: entry.versionId ?? null,
+      key_id: entry.keyId ?? null,
+      action: 'decrypt'
+    });
+
+  // Decrypting without leaving a trace is not allowed
+  if (error) {
+    console.error('Failed to record dataset access:', error);
+    throw createError('SYSTEM_ERROR', 'Could not record dataset access');
+  }
+}
+
+export async function listDecryptEvents(workspaceId: string, limit = 100): Promise<DecryptEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from('dataset_access_log')
+      .select('id, dataset_id, version_id, key_id, user_id, created_at, datasets(name)')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .returns<DecryptEventRow[]>();
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      datasetId: row.dataset_id,
+      datasetName: row.datasets?.name,
+      versionId: row.version_id ?? undefined,
+      keyId: row.key_id ?? undefined,
+      userId: row.user_id,
+      createdAt: row.created_at
+    }));
+  } catch (error) {
+    console.error('Failed to list dataset access:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to list dataset access'
+    );
+  }
+}
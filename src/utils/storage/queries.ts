@@ -0,0 +1,68 @@
+import { supabase } from '@/utils/supabase/client';
+import { createError } from '@/utils/core/error';
+
+export interface QueryHistoryEntry {
+  id?: string;
+  sql: string;
+  rowCount?: number;
+  durationMs?: number;
+  error?: string;
+  createdAt?: string;
+}
+
+export async function saveQueryHistory(
+  workspaceId: string,
+  entry: QueryHistoryEntry
+): Promise<QueryHistoryEntry> {
+  try {
+    const { data, error } = await supabase
+      .from('workspace_queries')
+      .insert({
+        workspace_id: workspaceId,
+        sql: entry.sql,
+        row_count: entry.rowCount ?? null,
+        duration_ms: entry.durationMs != null ? Math.round(entry.durationMs) : null,
+        error: entry.error ?? null
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) throw error;
+
+    return { ...entry, id: data.id, createdAt: data.created_at };
+  } catch (error) {
+    console.error('Failed to save query history:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to save query history'
+    );
+  }
+}
+
+export async function listQueryHistory(workspaceId: string, limit = 50): Promise<QueryHistoryEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('workspace_queries')
+      .select('id, sql, row_count, duration_ms, error, created_at')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      sql: row.sql,
+      rowCount: row.row_count ?? undefined,
+      durationMs: row.duration_ms ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.created_at
+    }));
+  } catch (error) {
+    console.error('Failed to list query history:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to list query history'
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { supabase } from '@/utils/supabase/client';
+import { createError } from '@/utils/core/error';
+import type { Recipe } from '@/utils/analysis/recipes';
+
+export async function saveRecipe(datasetId: string, recipe: Recipe): Promise<{ id: string }> {
+  try {
+    const payload = {
+      dataset_id: datasetId,
+      name: recipe.name,
+      description: recipe.description,
+      format_version: recipe.formatVersion,
+      source_schema: recipe.sourceSchema,
+      steps: recipe.steps
+    };
+
+    const { data, error } = recipe.id
+      ? await supabase
+          .from('dataset_recipes')
+          .update(payload)
+          .eq('id', recipe.id)
+          .select('id')
+          .single()
+      : await supabase
+          .from('dataset_recipes')
+          .insert(payload)
+          .select('id')
+          .single();
+
+    if (error) throw error;
+
+    return { id: data.id };
+  } catch (error) {
+    console.error('Failed to save recipe:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to save recipe'
+    );
+  }
+}
+
+export async function listRecipes(datasetId: string): Promise<Recipe[]> {
+  try {
+    const { data, error } = await supabase
+      .from('dataset_recipes')
+      .select('id, dataset_id, name, description, format_version, source_schema, steps, created_at')
+      .eq('dataset_id', datasetId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      datasetId: row.dataset_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      formatVersion: row.format_version,
+      sourceSchema: row.source_schema,
+      steps: row.steps,
+      createdAt: row.created_at
+    }));
+  } catch (error) {
+    console.error('Failed to list recipes:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to list recipes'
+    );
+  }
+}
+
+export async function deleteRecipe(recipeId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('dataset_recipes')
+      .delete()
+      .eq('id', recipeId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Failed to delete recipe:', error);
+    throw createError(
+      'SYSTEM_ERROR',
+      error instanceof Error ? error.message : 'Failed to delete recipe'
+    );
+  }
+}
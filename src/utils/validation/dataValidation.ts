@@ -1,6 +1,7 @@
 import { DataField } from '@/types/data';
 import { ValidationResult } from '@/types/validation';
 import { createError } from '../core/error';
+import { isMeasureField } from '../file/columnTypes';
 
 export function validateDataset(fields: DataField[]): ValidationResult {
   try {
@@ -101,7 +102,7 @@ export function getValidFields(fields: any[]): DataField[] {
  */
 export function getValidNumericFields(fields: DataField[]): DataField[] {
   return fields.filter(field => 
-    field.type === 'number' && hasValidValues(field)
+    isMeasureField(field) && hasValidValues(field)
   );
 }
 
@@ -0,0 +1,81 @@
+/*
+  # Dataset Transformation Recipes
+
+  1. New Tables
+    - `dataset_recipes`
+      - `id` (uuid, primary key)
+      - `dataset_id` (uuid, references datasets)
+      - `name` (text)
+      - `description` (text)
+      - `format_version` (integer)
+      - `source_schema` (jsonb, columns the recipe expects)
+      - `steps` (jsonb, ordered transformation steps)
+      - `created_by` (uuid, references users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Recipes follow the access rules of their dataset
+*/
+
+CREATE TABLE public.dataset_recipes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dataset_id uuid REFERENCES public.datasets ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  format_version integer NOT NULL DEFAULT 1,
+  source_schema jsonb NOT NULL DEFAULT '[]',
+  steps jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES auth.users NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_dataset_recipes_dataset ON public.dataset_recipes(dataset_id);
+
+ALTER TABLE public.dataset_recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recipes of datasets they have access to"
+  ON public.dataset_recipes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      WHERE id = dataset_id AND (
+        created_by = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM public.dataset_shares
+          WHERE dataset_id = datasets.id AND user_id = auth.uid()
+        ) OR
+        EXISTS (
+          SELECT 1 FROM public.workspace_members
+          WHERE workspace_id = datasets.workspace_id
+          AND user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Workspace editors can manage recipes"
+  ON public.dataset_recipes
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      WHERE id = dataset_id AND (
+        created_by = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM public.workspace_members
+          WHERE workspace_id = datasets.workspace_id
+          AND user_id = auth.uid()
+          AND role IN ('owner', 'editor')
+        )
+      )
+    )
+  );
+
+CREATE TRIGGER dataset_recipe_update_timestamp
+  BEFORE UPDATE ON public.dataset_recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_dataset_update();
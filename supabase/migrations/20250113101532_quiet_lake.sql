@@ -0,0 +1,69 @@
+/*
+  # Workspace Query History
+
+  1. New Tables
+    - `workspace_queries`
+      - `id` (uuid, primary key)
+      - `workspace_id` (uuid, references workspaces)
+      - `sql` (text)
+      - `row_count` (integer, rows returned or null on error)
+      - `duration_ms` (integer)
+      - `error` (text)
+      - `created_by` (uuid, references users)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Members can read the workspace history and add their own queries
+*/
+
+CREATE TABLE public.workspace_queries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES public.workspaces ON DELETE CASCADE NOT NULL,
+  sql text NOT NULL,
+  row_count integer,
+  duration_ms integer,
+  error text,
+  created_by uuid REFERENCES auth.users NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_workspace_queries_workspace
+  ON public.workspace_queries(workspace_id, created_at DESC);
+
+ALTER TABLE public.workspace_queries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace queries"
+  ON public.workspace_queries
+  FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT workspace_id FROM public.workspace_members
+      WHERE user_id = auth.uid()
+    ) OR
+    workspace_id IN (
+      SELECT id FROM public.workspaces
+      WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can record their own queries"
+  ON public.workspace_queries
+  FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid() AND (
+      workspace_id IN (
+        SELECT workspace_id FROM public.workspace_members
+        WHERE user_id = auth.uid()
+      ) OR
+      workspace_id IN (
+        SELECT id FROM public.workspaces
+        WHERE created_by = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own queries"
+  ON public.workspace_queries
+  FOR DELETE
+  USING (created_by = auth.uid());
@@ -0,0 +1,46 @@
+/*
+  # Dataset Version History
+
+  1. Changes
+    - `dataset_versions.metadata` (jsonb, row count and per-column summary used by the diff view)
+    - `created_by` on `datasets` and `dataset_versions` defaults to the current user
+    - Version 1 is backfilled for datasets uploaded before versioning
+
+  2. Security
+    - Workspace editors can add versions (re-uploads, recipe runs, rollbacks)
+*/
+
+ALTER TABLE public.dataset_versions
+  ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.datasets
+  ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+ALTER TABLE public.dataset_versions
+  ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+INSERT INTO public.dataset_versions (
+  dataset_id, version, file_key, file_size, created_by, created_at,
+  description, encryption_key, encryption_iv
+)
+SELECT
+  d.id, 1, d.file_key, d.file_size, d.created_by, d.created_at,
+  'Initial upload', d.encryption_key, d.encryption_iv
+FROM public.datasets d
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.dataset_versions v WHERE v.dataset_id = d.id
+);
+
+CREATE POLICY "Workspace editors can create dataset versions"
+  ON public.dataset_versions
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      JOIN public.workspace_members
+        ON workspace_members.workspace_id = datasets.workspace_id
+      WHERE datasets.id = dataset_id
+      AND workspace_members.user_id = auth.uid()
+      AND workspace_members.role IN ('owner', 'editor')
+    )
+  );
@@ -0,0 +1,185 @@
+/*
+  # Envelope Encryption for Datasets
+
+  1. New Tables
+    - `workspace_keys`
+      - `id` (uuid, primary key)
+      - `workspace_id` (uuid, references workspaces)
+      - `version` (integer)
+      - `kind` (text, 'passphrase' or 'server')
+      - `salt` (text, PBKDF2 salt for passphrase keys)
+      - `iterations` (integer)
+      - `key_check` (text, throwaway key wrapped to verify a secret)
+      - `status` (text, 'active' or 'retired')
+      - `created_by` (uuid, references users)
+      - `created_at` (timestamptz)
+      - `retired_at` (timestamptz)
+    - `dataset_access_log`
+      - `id` (uuid, primary key)
+      - `workspace_id` (uuid, references workspaces)
+      - `dataset_id` (uuid, references datasets)
+      - `version_id` (uuid, references dataset_versions)
+      - `key_id` (uuid, references workspace_keys)
+      - `action` (text)
+      - `user_id` (uuid, references users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `datasets` and `dataset_versions` gain `key_id` and `wrapped_key`
+    - `encryption_key` becomes nullable; it is cleared once a row is wrapped
+
+  3. Security
+    - Workspace keys are never stored; only salts and checks are
+    - Passphrase keys are derived in the browser; server keys are derived by
+      the backend from its master secret and handed only to members
+    - Workspace owners create keys and rewrap dataset keys
+    - Members log their own decrypts; the log cannot be edited or deleted
+*/
+
+CREATE TABLE public.workspace_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES public.workspaces ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('passphrase', 'server')),
+  salt text,
+  iterations integer,
+  key_check text NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+  created_by uuid REFERENCES auth.users NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  retired_at timestamptz,
+  UNIQUE (workspace_id, version)
+);
+
+CREATE UNIQUE INDEX idx_workspace_keys_active
+  ON public.workspace_keys(workspace_id)
+  WHERE status = 'active';
+
+ALTER TABLE public.datasets
+  ADD COLUMN key_id uuid REFERENCES public.workspace_keys,
+  ADD COLUMN wrapped_key text,
+  ALTER COLUMN encryption_key DROP NOT NULL;
+
+ALTER TABLE public.dataset_versions
+  ADD COLUMN key_id uuid REFERENCES public.workspace_keys,
+  ADD COLUMN wrapped_key text,
+  ALTER COLUMN encryption_key DROP NOT NULL;
+
+ALTER TABLE public.datasets
+  ADD CONSTRAINT datasets_has_key
+  CHECK (wrapped_key IS NOT NULL OR encryption_key IS NOT NULL);
+
+ALTER TABLE public.dataset_versions
+  ADD CONSTRAINT dataset_versions_has_key
+  CHECK (wrapped_key IS NOT NULL OR encryption_key IS NOT NULL);
+
+CREATE TABLE public.dataset_access_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES public.workspaces ON DELETE CASCADE NOT NULL,
+  dataset_id uuid REFERENCES public.datasets ON DELETE CASCADE NOT NULL,
+  version_id uuid REFERENCES public.dataset_versions ON DELETE SET NULL,
+  key_id uuid REFERENCES public.workspace_keys ON DELETE SET NULL,
+  action text NOT NULL DEFAULT 'decrypt',
+  user_id uuid REFERENCES auth.users NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_dataset_access_log_workspace
+  ON public.dataset_access_log(workspace_id, created_at DESC);
+
+ALTER TABLE public.workspace_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dataset_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace keys"
+  ON public.workspace_keys
+  FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT workspace_id FROM public.workspace_members
+      WHERE user_id = auth.uid()
+    ) OR
+    workspace_id IN (
+      SELECT id FROM public.workspaces
+      WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can create workspace keys"
+  ON public.workspace_keys
+  FOR INSERT
+  WITH CHECK (
+    workspace_id IN (
+      SELECT workspace_id FROM public.workspace_members
+      WHERE user_id = auth.uid()
+      AND role = 'owner'
+    ) OR
+    workspace_id IN (
+      SELECT id FROM public.workspaces
+      WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can retire workspace keys"
+  ON public.workspace_keys
+  FOR UPDATE
+  USING (
+    workspace_id IN (
+      SELECT workspace_id FROM public.workspace_members
+      WHERE user_id = auth.uid()
+      AND role = 'owner'
+    ) OR
+    workspace_id IN (
+      SELECT id FROM public.workspaces
+      WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can rewrap dataset keys"
+  ON public.datasets
+  FOR UPDATE
+  USING (
+    workspace_id IN (
+      SELECT workspace_id FROM public.workspace_members
+      WHERE user_id = auth.uid()
+      AND role = 'owner'
+    )
+  );
+
+CREATE POLICY "Owners can rewrap dataset version keys"
+  ON public.dataset_versions
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      JOIN public.workspace_members
+        ON workspace_members.workspace_id = datasets.workspace_id
+      WHERE datasets.id = dataset_id
+      AND workspace_members.user_id = auth.uid()
+      AND workspace_members.role = 'owner'
+    )
+  );
+
+CREATE POLICY "Members can view the access log"
+  ON public.dataset_access_log
+  FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT workspace_id FROM public.workspace_members
+      WHERE user_id = auth.uid()
+    ) OR
+    workspace_id IN (
+      SELECT id FROM public.workspaces
+      WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members record their own decrypts"
+  ON public.dataset_access_log
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid() AND
+    workspace_id IN (
+      SELECT workspace_id FROM public.workspace_members
+      WHERE user_id = auth.uid()
+    )
+  );
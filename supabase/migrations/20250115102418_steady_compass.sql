@@ -0,0 +1,379 @@
+/*
+  # Team Roles and Invitations
+
+  1. New Tables
+    - `workspace_invitations`
+      - `id` (uuid, primary key)
+      - `workspace_id` (uuid, references workspaces)
+      - `email` (text)
+      - `role` (text, 'admin', 'analyst' or 'viewer')
+      - `token_hash` (text, SHA-256 of the invite token; the token itself is never stored)
+      - `invited_by` (uuid, references users)
+      - `created_at` (timestamptz)
+      - `expires_at` (timestamptz)
+      - `accepted_at` (timestamptz)
+      - `accepted_by` (uuid, references users)
+      - `revoked_at` (timestamptz)
+
+  2. Changes
+    - Member roles become owner > admin > analyst > viewer; existing editors become analysts
+    - `has_workspace_role` resolves the caller's role without recursing through RLS
+    - A workspace always keeps at least one owner
+    - `accept_workspace_invitation` turns a valid, unexpired token into a membership
+
+  3. Security
+    - Admins manage analysts and viewers; only owners manage owners and admins
+    - Analysts and above create and edit datasets, versions, recipes and keys
+    - Viewers read workspace datasets; removed members lose access immediately
+    - Members can see the profiles of their teammates
+*/
+
+-- Roles
+ALTER TABLE public.workspace_members
+  DROP CONSTRAINT IF EXISTS workspace_members_role_check;
+
+UPDATE public.workspace_members SET role = 'analyst' WHERE role = 'editor';
+
+ALTER TABLE public.workspace_members
+  ADD CONSTRAINT workspace_members_role_check
+  CHECK (role IN ('owner', 'admin', 'analyst', 'viewer'));
+
+CREATE OR REPLACE FUNCTION public.workspace_role_rank(member_role text)
+RETURNS integer AS $$
+  SELECT CASE member_role
+    WHEN 'owner' THEN 4
+    WHEN 'admin' THEN 3
+    WHEN 'analyst' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- SECURITY DEFINER so policies on workspace_members can call it without recursion
+CREATE OR REPLACE FUNCTION public.has_workspace_role(target_workspace uuid, minimum_role text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = target_workspace
+    AND user_id = auth.uid()
+    AND public.workspace_role_rank(role) >= public.workspace_role_rank(minimum_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.workspace_has_members(target_workspace uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = target_workspace
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Owners and admins can only be granted, changed or removed by an owner
+CREATE OR REPLACE FUNCTION public.can_manage_workspace_role(target_workspace uuid, member_role text)
+RETURNS boolean AS $$
+  SELECT public.has_workspace_role(
+    target_workspace,
+    CASE WHEN member_role IN ('owner', 'admin') THEN 'owner' ELSE 'admin' END
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.protect_last_workspace_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    -- Cascading deletes of the workspace itself are allowed
+    AND EXISTS (SELECT 1 FROM public.workspaces WHERE id = OLD.workspace_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workspace_members
+      WHERE workspace_id = OLD.workspace_id
+      AND role = 'owner'
+      AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A workspace must keep at least one owner';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER workspace_last_owner_guard
+  BEFORE UPDATE OR DELETE ON public.workspace_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_last_workspace_owner();
+
+-- Invitations
+CREATE TABLE public.workspace_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid REFERENCES public.workspaces ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('admin', 'analyst', 'viewer')),
+  token_hash text NOT NULL UNIQUE,
+  invited_by uuid REFERENCES auth.users NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users,
+  revoked_at timestamptz,
+  CHECK (expires_at > created_at)
+);
+
+CREATE UNIQUE INDEX idx_workspace_invitations_pending
+  ON public.workspace_invitations(workspace_id, lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view workspace invitations"
+  ON public.workspace_invitations
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id, 'admin'));
+
+CREATE POLICY "Admins can invite members"
+  ON public.workspace_invitations
+  FOR INSERT
+  WITH CHECK (
+    invited_by = auth.uid() AND
+    public.can_manage_workspace_role(workspace_id, role)
+  );
+
+CREATE POLICY "Admins can revoke invitations"
+  ON public.workspace_invitations
+  FOR UPDATE
+  USING (public.can_manage_workspace_role(workspace_id, role));
+
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(invite_token text)
+RETURNS public.workspace_members AS $$
+DECLARE
+  invitation public.workspace_invitations;
+  membership public.workspace_members;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM public.workspace_invitations
+  WHERE token_hash = encode(sha256(convert_to(invite_token, 'UTF8')), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND OR invitation.revoked_at IS NOT NULL OR invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation is no longer valid';
+  END IF;
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+  IF lower(invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address';
+  END IF;
+
+  -- Accepting never lowers an existing role
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE
+    SET role = CASE
+      WHEN public.workspace_role_rank(EXCLUDED.role) > public.workspace_role_rank(workspace_members.role)
+      THEN EXCLUDED.role
+      ELSE workspace_members.role
+    END
+  RETURNING * INTO membership;
+
+  UPDATE public.workspace_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = invitation.id;
+
+  RETURN membership;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Workspace members
+DROP POLICY IF EXISTS "workspace_member_access" ON public.workspace_members;
+
+CREATE POLICY "Members can view their teammates"
+  ON public.workspace_members
+  FOR SELECT
+  USING (
+    user_id = auth.uid() OR
+    public.has_workspace_role(workspace_id, 'viewer')
+  );
+
+-- The creator becomes the first owner when the workspace is set up
+CREATE POLICY "Creators can add themselves as the first owner"
+  ON public.workspace_members
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid() AND
+    role = 'owner' AND
+    workspace_id IN (
+      SELECT id FROM public.workspaces
+      WHERE created_by = auth.uid()
+    ) AND
+    NOT public.workspace_has_members(workspace_id)
+  );
+
+CREATE POLICY "Admins can add members"
+  ON public.workspace_members
+  FOR INSERT
+  WITH CHECK (public.can_manage_workspace_role(workspace_id, role));
+
+CREATE POLICY "Admins can change member roles"
+  ON public.workspace_members
+  FOR UPDATE
+  USING (public.can_manage_workspace_role(workspace_id, role))
+  WITH CHECK (public.can_manage_workspace_role(workspace_id, role));
+
+CREATE POLICY "Admins can remove members and members can leave"
+  ON public.workspace_members
+  FOR DELETE
+  USING (
+    user_id = auth.uid() OR
+    public.can_manage_workspace_role(workspace_id, role)
+  );
+
+CREATE POLICY "Members can view profiles of their teammates"
+  ON public.profiles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.workspace_members
+      WHERE workspace_members.user_id = profiles.user_id
+    )
+  );
+
+-- Workspaces
+DROP POLICY IF EXISTS "Users can view workspaces they are members of" ON public.workspaces;
+DROP POLICY IF EXISTS "Workspace owners can update workspace details" ON public.workspaces;
+
+CREATE POLICY "Users can view workspaces they are members of"
+  ON public.workspaces
+  FOR SELECT
+  USING (
+    created_by = auth.uid() OR
+    public.has_workspace_role(id, 'viewer')
+  );
+
+CREATE POLICY "Workspace admins can update workspace details"
+  ON public.workspaces
+  FOR UPDATE
+  USING (public.has_workspace_role(id, 'admin'));
+
+CREATE POLICY "Workspace owners can delete workspaces"
+  ON public.workspaces
+  FOR DELETE
+  USING (public.has_workspace_role(id, 'owner'));
+
+-- Datasets
+DROP POLICY IF EXISTS "Users can view datasets they have access to" ON public.datasets;
+DROP POLICY IF EXISTS "Users can create datasets in their workspaces" ON public.datasets;
+DROP POLICY IF EXISTS "Dataset owners can update their datasets" ON public.datasets;
+
+CREATE POLICY "Users can view datasets they have access to"
+  ON public.datasets
+  FOR SELECT
+  USING (
+    (auth.uid() = created_by AND workspace_id IS NULL) OR
+    public.has_workspace_role(workspace_id, 'viewer') OR
+    EXISTS (
+      SELECT 1 FROM public.dataset_shares
+      WHERE dataset_shares.dataset_id = datasets.id
+      AND dataset_shares.user_id = auth.uid()
+      AND (expires_at IS NULL OR expires_at > now())
+    )
+  );
+
+CREATE POLICY "Analysts can create datasets in their workspaces"
+  ON public.datasets
+  FOR INSERT
+  WITH CHECK (public.has_workspace_role(workspace_id, 'analyst'));
+
+CREATE POLICY "Analysts can update their datasets"
+  ON public.datasets
+  FOR UPDATE
+  USING (
+    (auth.uid() = created_by AND workspace_id IS NULL) OR
+    (auth.uid() = created_by AND public.has_workspace_role(workspace_id, 'analyst')) OR
+    public.has_workspace_role(workspace_id, 'admin')
+  );
+
+CREATE POLICY "Analysts can delete their datasets"
+  ON public.datasets
+  FOR DELETE
+  USING (
+    (auth.uid() = created_by AND workspace_id IS NULL) OR
+    (auth.uid() = created_by AND public.has_workspace_role(workspace_id, 'analyst')) OR
+    public.has_workspace_role(workspace_id, 'admin')
+  );
+
+-- Versions and recipes follow the visibility of their dataset
+DROP POLICY IF EXISTS "Users can view dataset versions they have access to" ON public.dataset_versions;
+DROP POLICY IF EXISTS "Users can create versions of datasets they own" ON public.dataset_versions;
+DROP POLICY IF EXISTS "Workspace editors can create dataset versions" ON public.dataset_versions;
+
+CREATE POLICY "Users can view dataset versions they have access to"
+  ON public.dataset_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      WHERE datasets.id = dataset_id
+    )
+  );
+
+CREATE POLICY "Analysts can create dataset versions"
+  ON public.dataset_versions
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      WHERE datasets.id = dataset_id
+      AND (
+        (datasets.created_by = auth.uid() AND datasets.workspace_id IS NULL) OR
+        public.has_workspace_role(datasets.workspace_id, 'analyst')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view recipes of datasets they have access to" ON public.dataset_recipes;
+DROP POLICY IF EXISTS "Workspace editors can manage recipes" ON public.dataset_recipes;
+
+CREATE POLICY "Users can view recipes of datasets they have access to"
+  ON public.dataset_recipes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      WHERE datasets.id = dataset_id
+    )
+  );
+
+CREATE POLICY "Analysts can manage recipes"
+  ON public.dataset_recipes
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.datasets
+      WHERE datasets.id = dataset_id
+      AND (
+        (datasets.created_by = auth.uid() AND datasets.workspace_id IS NULL) OR
+        public.has_workspace_role(datasets.workspace_id, 'analyst')
+      )
+    )
+  );
+
+-- Workspace keys
+DROP POLICY IF EXISTS "Editors can create workspace keys" ON public.workspace_keys;
+
+CREATE POLICY "Analysts can create workspace keys"
+  ON public.workspace_keys
+  FOR INSERT
+  WITH CHECK (
+    public.has_workspace_role(workspace_id, 'analyst') OR
+    workspace_id IN (
+      SELECT id FROM public.workspaces
+      WHERE created_by = auth.uid()
+    )
+  );
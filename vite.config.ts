@@ -8,7 +8,16 @@ export default defineConfig({
   server: {
     port: 5173,
     host: true,
-    open: true
+    open: true,
+    // ErrorReporter posts to a relative /api/errors
+    proxy: {
+      '/api': 'http://localhost:8000'
+    }
+  },
+  preview: {
+    proxy: {
+      '/api': 'http://localhost:8000'
+    }
   },
   resolve: {
     alias: {